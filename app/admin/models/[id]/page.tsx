@@ -12,6 +12,8 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { adminFetch } from '@/lib/admin-fetch'
+import { SchemaImportCard } from '@/components/admin/schema-import-card'
+import type { OrchestratorSpec } from '@/lib/orchestrator/model-specs'
 
 interface StudioModel {
   id: string
@@ -26,6 +28,7 @@ interface StudioModel {
   sort_order: number
   default_parameters?: Record<string, any>
   parameter_schema?: Record<string, any>
+  orchestrator_spec?: OrchestratorSpec | null
   duration_options?: number[]
   resolution_options?: string[]
   max_duration?: number
@@ -33,6 +36,21 @@ interface StudioModel {
   audio_cost_cents?: number
 }
 
+// Shape of an orchestrator spec, shown in the empty editor
+const SPEC_PLACEHOLDER = `{
+  "type": "text-to-image",
+  "capabilities": { "supportsReferenceImages": true },
+  "imageInputParam": "image_input",
+  "maxReferenceImages": 4,
+  "params": {
+    "required": [{ "name": "prompt", "type": "string", "description": "Text prompt", "required": true }],
+    "optional": [{ "name": "aspect_ratio", "type": "enum", "description": "Aspect ratio", "options": ["1:1", "16:9"], "default": "1:1" }]
+  },
+  "description": "What the model is",
+  "whenToUse": "When the orchestrator should pick it",
+  "tips": []
+}`
+
 export default function EditModelPage() {
   const router = useRouter()
   const params = useParams()
@@ -55,6 +73,7 @@ export default function EditModelPage() {
   const [isActive, setIsActive] = useState(true)
   const [defaultParameters, setDefaultParameters] = useState('')
   const [parameterSchema, setParameterSchema] = useState('')
+  const [orchestratorSpec, setOrchestratorSpec] = useState('')
 
   useEffect(() => {
     const fetchModel = async () => {
@@ -75,6 +94,7 @@ export default function EditModelPage() {
           setIsActive(m.is_active)
           setDefaultParameters(m.default_parameters ? JSON.stringify(m.default_parameters, null, 2) : '')
           setParameterSchema(m.parameter_schema ? JSON.stringify(m.parameter_schema, null, 2) : '')
+          setOrchestratorSpec(m.orchestrator_spec ? JSON.stringify(m.orchestrator_spec, null, 2) : '')
         } else {
           setError('Model not found')
         }
@@ -95,6 +115,7 @@ export default function EditModelPage() {
     try {
       let parsedDefaultParams = null
       let parsedSchema = null
+      let parsedSpec = null
 
       if (defaultParameters.trim()) {
         try {
@@ -116,6 +137,16 @@ export default function EditModelPage() {
         }
       }
 
+      if (orchestratorSpec.trim()) {
+        try {
+          parsedSpec = JSON.parse(orchestratorSpec)
+        } catch {
+          setError('Invalid JSON in orchestrator spec')
+          setSaving(false)
+          return
+        }
+      }
+
       const response = await adminFetch(`/api/admin/models/${id}`, {
         method: 'PUT',
         body: JSON.stringify({
@@ -130,6 +161,7 @@ export default function EditModelPage() {
           is_active: isActive,
           default_parameters: parsedDefaultParams,
           parameter_schema: parsedSchema,
+          orchestrator_spec: parsedSpec,
         })
       })
 
@@ -352,6 +384,34 @@ export default function EditModelPage() {
           </div>
         </div>
 
+        {/* Import from Replicate */}
+        <SchemaImportCard
+          replicateModel={replicateModel}
+          category={category}
+          parameterSchema={parameterSchema}
+          orchestratorSpec={orchestratorSpec}
+          onApply={(fields) => {
+            setParameterSchema(fields.parameterSchema)
+            setOrchestratorSpec(fields.orchestratorSpec)
+          }}
+        />
+
+        {/* Orchestrator Spec */}
+        <div className="bg-zinc-950 border border-white/[0.06] rounded-xl p-6">
+          <h2 className="text-sm font-medium text-white mb-1">Orchestrator Spec</h2>
+          <p className="text-xs text-white/40 mb-4">
+            What the AI Creative Director knows about this model: its type, capabilities, parameters and when to use it.
+            Leave blank to keep the model out of the orchestrator. Changes reach the chat within a minute.
+          </p>
+          <textarea
+            value={orchestratorSpec}
+            onChange={(e) => setOrchestratorSpec(e.target.value)}
+            rows={16}
+            className="w-full px-3 py-2 bg-black border border-white/[0.08] rounded-lg text-white text-sm font-mono focus:outline-none focus:border-white/20"
+            placeholder={SPEC_PLACEHOLDER}
+          />
+        </div>
+
         {/* Status & Actions */}
         <div className="flex items-center justify-between">
           <label className="flex items-center gap-3 cursor-pointer">
@@ -12,6 +12,22 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { adminFetch } from '@/lib/admin-fetch'
+import { SchemaImportCard } from '@/components/admin/schema-import-card'
+
+// Shape of an orchestrator spec, shown in the empty editor
+const SPEC_PLACEHOLDER = `{
+  "type": "text-to-image",
+  "capabilities": { "supportsReferenceImages": true },
+  "imageInputParam": "image_input",
+  "maxReferenceImages": 4,
+  "params": {
+    "required": [{ "name": "prompt", "type": "string", "description": "Text prompt", "required": true }],
+    "optional": [{ "name": "aspect_ratio", "type": "enum", "description": "Aspect ratio", "options": ["1:1", "16:9"], "default": "1:1" }]
+  },
+  "description": "What the model is",
+  "whenToUse": "When the orchestrator should pick it",
+  "tips": []
+}`
 
 export default function NewModelPage() {
   const router = useRouter()
@@ -31,6 +47,7 @@ export default function NewModelPage() {
   const [isActive, setIsActive] = useState(true)
   const [defaultParameters, setDefaultParameters] = useState('')
   const [parameterSchema, setParameterSchema] = useState('')
+  const [orchestratorSpec, setOrchestratorSpec] = useState('')
 
   // Auto-generate slug from name
   const handleNameChange = (value: string) => {
@@ -60,6 +77,7 @@ export default function NewModelPage() {
     try {
       let parsedDefaultParams = null
       let parsedSchema = null
+      let parsedSpec = null
 
       if (defaultParameters.trim()) {
         try {
@@ -81,6 +99,16 @@ export default function NewModelPage() {
         }
       }
 
+      if (orchestratorSpec.trim()) {
+        try {
+          parsedSpec = JSON.parse(orchestratorSpec)
+        } catch {
+          setError('Invalid JSON in orchestrator spec')
+          setSaving(false)
+          return
+        }
+      }
+
       const response = await adminFetch('/api/admin/models', {
         method: 'POST',
         body: JSON.stringify({
@@ -95,6 +123,7 @@ export default function NewModelPage() {
           is_active: isActive,
           default_parameters: parsedDefaultParams,
           parameter_schema: parsedSchema,
+          orchestrator_spec: parsedSpec,
         })
       })
 
@@ -300,6 +329,34 @@ export default function NewModelPage() {
           </div>
         </div>
 
+        {/* Import from Replicate */}
+        <SchemaImportCard
+          replicateModel={replicateModel}
+          category={category}
+          parameterSchema={parameterSchema}
+          orchestratorSpec={orchestratorSpec}
+          onApply={(fields) => {
+            setParameterSchema(fields.parameterSchema)
+            setOrchestratorSpec(fields.orchestratorSpec)
+          }}
+        />
+
+        {/* Orchestrator Spec */}
+        <div className="bg-zinc-950 border border-white/[0.06] rounded-xl p-6">
+          <h2 className="text-sm font-medium text-white mb-1">Orchestrator Spec</h2>
+          <p className="text-xs text-white/40 mb-4">
+            What the AI Creative Director knows about this model: its type, capabilities, parameters and when to use it.
+            Leave blank to keep the model out of the orchestrator. Changes reach the chat within a minute.
+          </p>
+          <textarea
+            value={orchestratorSpec}
+            onChange={(e) => setOrchestratorSpec(e.target.value)}
+            rows={16}
+            className="w-full px-3 py-2 bg-black border border-white/[0.08] rounded-lg text-white text-sm font-mono focus:outline-none focus:border-white/20"
+            placeholder={SPEC_PLACEHOLDER}
+          />
+        </div>
+
         {/* Status & Actions */}
         <div className="flex items-center justify-between">
           <label className="flex items-center gap-3 cursor-pointer">
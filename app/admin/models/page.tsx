@@ -17,17 +17,14 @@ import {
 import { cn } from '@/lib/utils'
 import { adminFetch } from '@/lib/admin-fetch'
 import { ModelCard } from '@/components/admin/model-card'
-import { MODEL_SPECS, type ModelSpec } from '@/lib/orchestrator/model-specs'
+import { specFromModelRow, type ModelSpec } from '@/lib/orchestrator/model-specs'
 import type { StudioModel, MergedModel } from '@/lib/types/admin'
 import { formatCost } from '@/lib/types/admin'
 
-// Merge database models with MODEL_SPECS
+// Attach each model's orchestrator spec, built from its row
 function mergeModelsWithSpecs(dbModels: StudioModel[]): MergedModel[] {
   return dbModels.map((dbModel) => {
-    // Match by slug or replicate ID
-    const spec = MODEL_SPECS.find(
-      (s) => s.id === dbModel.slug || s.replicateId === dbModel.replicate_model
-    )
+    const spec = specFromModelRow(dbModel) || undefined
 
     return {
       ...dbModel,
@@ -74,7 +71,7 @@ function generateExportMarkdown(models: MergedModel[]): string {
       return `### ${model.name}
 - **Replicate ID**: ${model.replicate_model}
 - **DB Status**: ${model.is_active ? 'Active' : 'Inactive'} | ${formatCost(model)}
-- **WARNING**: No orchestrator spec found - add to model-specs.ts
+- **WARNING**: No orchestrator spec - add one on the model's admin page
 
 ---`
     }
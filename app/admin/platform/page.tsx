@@ -17,17 +17,45 @@ import {
   EyeOff,
   Sparkles,
   Brain,
+  HardDrive,
+  MessageSquare,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { adminFetch } from '@/lib/admin-fetch'
 import { ORCHESTRATOR_MODELS } from '@/lib/api-settings'
 
+type Backend = 'gemini' | 'openai_compatible'
+
 interface PlatformSettings {
   enabled: boolean
   gemini_api_key_masked: string | null
   has_api_key: boolean
   default_orchestrator_model: string | null
   mode: 'platform_key' | 'user_keys'
+  backend: Backend
+  openai_base_url?: string | null
+  openai_api_key_masked: string | null
+  has_openai_api_key: boolean
+  openai_model?: string | null
+  openai_supports_vision?: boolean
+  openai_supports_tools?: boolean
+  openai_input_cost_per_million?: number | null
+  openai_output_cost_per_million?: number | null
+  system_prompt_token_budget?: number | null
+  context_recent_messages?: number | null
+  context_history_token_budget?: number | null
+}
+
+// Blank inputs clear the price; anything else must be a number
+function parseCost(value: string): number | null {
+  const parsed = parseFloat(value)
+  return value.trim() && !isNaN(parsed) ? parsed : null
+}
+
+// Blank inputs fall back to the built-in default
+function parseLimit(value: string): number | null {
+  const parsed = parseInt(value, 10)
+  return value.trim() && parsed > 0 ? parsed : null
 }
 
 export default function PlatformPage() {
@@ -43,6 +71,18 @@ export default function PlatformPage() {
   const [newApiKey, setNewApiKey] = useState('')
   const [showApiKey, setShowApiKey] = useState(false)
   const [selectedModel, setSelectedModel] = useState('gemini-2.5-flash')
+  const [backend, setBackend] = useState<Backend>('gemini')
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState('')
+  const [openaiModel, setOpenaiModel] = useState('')
+  const [newOpenaiApiKey, setNewOpenaiApiKey] = useState('')
+  const [openaiSupportsVision, setOpenaiSupportsVision] = useState(false)
+  const [openaiSupportsTools, setOpenaiSupportsTools] = useState(false)
+  const [openaiInputCost, setOpenaiInputCost] = useState('')
+  const [openaiOutputCost, setOpenaiOutputCost] = useState('')
+  const [promptTokenBudget, setPromptTokenBudget] = useState('')
+  const [recentMessages, setRecentMessages] = useState('')
+  const [historyTokenBudget, setHistoryTokenBudget] = useState('')
+  const isGemini = backend === 'gemini'
 
   const fetchSettings = async () => {
     try {
@@ -53,6 +93,16 @@ export default function PlatformPage() {
         setEnabled(data.settings.enabled)
         setMode(data.settings.mode)
         setSelectedModel(data.settings.default_orchestrator_model || 'gemini-2.5-flash')
+        setBackend(data.settings.backend || 'gemini')
+        setOpenaiBaseUrl(data.settings.openai_base_url || '')
+        setOpenaiModel(data.settings.openai_model || '')
+        setOpenaiSupportsVision(!!data.settings.openai_supports_vision)
+        setOpenaiSupportsTools(!!data.settings.openai_supports_tools)
+        setOpenaiInputCost(data.settings.openai_input_cost_per_million?.toString() || '')
+        setOpenaiOutputCost(data.settings.openai_output_cost_per_million?.toString() || '')
+        setPromptTokenBudget(data.settings.system_prompt_token_budget?.toString() || '')
+        setRecentMessages(data.settings.context_recent_messages?.toString() || '')
+        setHistoryTokenBudget(data.settings.context_history_token_budget?.toString() || '')
       } else {
         setError('Failed to load settings')
       }
@@ -78,12 +128,25 @@ export default function PlatformPage() {
         enabled,
         mode,
         default_orchestrator_model: selectedModel,
+        backend,
+        openai_base_url: openaiBaseUrl.trim() || null,
+        openai_model: openaiModel.trim() || null,
+        openai_supports_vision: openaiSupportsVision,
+        openai_supports_tools: openaiSupportsTools,
+        openai_input_cost_per_million: parseCost(openaiInputCost),
+        openai_output_cost_per_million: parseCost(openaiOutputCost),
+        system_prompt_token_budget: parseLimit(promptTokenBudget),
+        context_recent_messages: parseLimit(recentMessages),
+        context_history_token_budget: parseLimit(historyTokenBudget),
       }
 
-      // Only include API key if a new one was entered
+      // Only include API keys if a new one was entered
       if (newApiKey.trim()) {
         body.gemini_api_key = newApiKey.trim()
       }
+      if (newOpenaiApiKey.trim()) {
+        body.openai_api_key = newOpenaiApiKey.trim()
+      }
 
       const response = await adminFetch('/api/admin/platform', {
         method: 'PUT',
@@ -94,6 +157,7 @@ export default function PlatformPage() {
         const data = await response.json()
         setSettings(data.settings)
         setNewApiKey('')
+        setNewOpenaiApiKey('')
         setSaved(true)
         setTimeout(() => setSaved(false), 3000)
       } else {
@@ -129,7 +193,7 @@ export default function PlatformPage() {
           Platform Orchestration
         </h1>
         <p className="text-sm text-white/50 mt-1">
-          Control the AI orchestrator (Gemini) for all users on the platform
+          Control the AI orchestrator for all users on the platform
         </p>
       </div>
 
@@ -186,7 +250,9 @@ export default function PlatformPage() {
                 <>
                   <Server className="text-skinny-green" size={16} />
                   <span className="text-sm text-skinny-green font-medium">
-                    Platform Mode Active - All users use your Gemini API key
+                    {isGemini
+                      ? 'Platform Mode Active - All users use your Gemini API key'
+                      : 'Platform Mode Active - All users chat with your OpenAI-compatible server'}
                   </span>
                 </>
               ) : (
@@ -201,10 +267,149 @@ export default function PlatformPage() {
           </div>
         </div>
 
-        {/* API Key Card */}
+        {/* Backend Card */}
         <div className={cn(
           'bg-zinc-950 border border-white/[0.06] rounded-xl overflow-hidden transition-opacity',
           !enabled && 'opacity-50'
+        )}>
+          <div className="p-6">
+            <h2 className="text-lg font-medium text-white flex items-center gap-2 mb-4">
+              <HardDrive className="text-skinny-yellow" size={18} />
+              Orchestrator Backend
+            </h2>
+
+            <div className="space-y-3">
+              {([
+                { value: 'gemini', label: 'Google Gemini', description: 'Hosted Gemini models, using the key settings below.' },
+                { value: 'openai_compatible', label: 'OpenAI-compatible server', description: 'A local llama.cpp or Ollama server, or any API speaking the Chat Completions protocol.' },
+              ] as const).map(option => (
+                <label
+                  key={option.value}
+                  className={cn(
+                    'flex items-start gap-4 p-4 rounded-lg border cursor-pointer transition-colors',
+                    backend === option.value
+                      ? 'border-skinny-yellow/50 bg-skinny-yellow/5'
+                      : 'border-white/[0.06] hover:border-white/10'
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name="backend"
+                    value={option.value}
+                    checked={backend === option.value}
+                    onChange={() => setBackend(option.value)}
+                    disabled={!enabled}
+                    className="mt-1"
+                  />
+                  <div>
+                    <span className="text-white font-medium">{option.label}</span>
+                    <p className="text-sm text-white/50 mt-1">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {!isGemini && (
+              <div className="mt-4 space-y-4">
+                <div>
+                  <label className="block text-sm text-white/50 mb-2">Server URL</label>
+                  <input
+                    type="text"
+                    value={openaiBaseUrl}
+                    onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                    placeholder="http://localhost:11434/v1"
+                    disabled={!enabled}
+                    className="w-full px-4 py-3 bg-zinc-900 border border-white/[0.06] rounded-lg text-white font-mono text-sm placeholder:text-white/20 focus:outline-none focus:border-skinny-yellow/50 disabled:opacity-50"
+                  />
+                  <p className="mt-2 text-xs text-white/30">Up to and including /v1 - it must be reachable from the app&apos;s server</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm text-white/50 mb-2">Model</label>
+                  <input
+                    type="text"
+                    value={openaiModel}
+                    onChange={(e) => setOpenaiModel(e.target.value)}
+                    placeholder="qwen2.5:14b-instruct"
+                    disabled={!enabled}
+                    className="w-full px-4 py-3 bg-zinc-900 border border-white/[0.06] rounded-lg text-white font-mono text-sm placeholder:text-white/20 focus:outline-none focus:border-skinny-yellow/50 disabled:opacity-50"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm text-white/50 mb-2">
+                    {settings?.has_openai_api_key
+                      ? `API Key (current: ${settings.openai_api_key_masked} - leave blank to keep)`
+                      : 'API Key (optional - local servers usually don\'t check one)'}
+                  </label>
+                  <input
+                    type="password"
+                    value={newOpenaiApiKey}
+                    onChange={(e) => setNewOpenaiApiKey(e.target.value)}
+                    disabled={!enabled}
+                    className="w-full px-4 py-3 bg-zinc-900 border border-white/[0.06] rounded-lg text-white font-mono text-sm placeholder:text-white/20 focus:outline-none focus:border-skinny-yellow/50 disabled:opacity-50"
+                  />
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <label className="flex items-center gap-3 text-sm text-white/70">
+                    <input
+                      type="checkbox"
+                      checked={openaiSupportsTools}
+                      onChange={(e) => setOpenaiSupportsTools(e.target.checked)}
+                      disabled={!enabled}
+                    />
+                    Supports tool calls - otherwise the model writes fenced generate blocks
+                  </label>
+                  <label className="flex items-center gap-3 text-sm text-white/70">
+                    <input
+                      type="checkbox"
+                      checked={openaiSupportsVision}
+                      onChange={(e) => setOpenaiSupportsVision(e.target.checked)}
+                      disabled={!enabled}
+                    />
+                    Supports image input
+                  </label>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm text-white/50 mb-2">Input $ / 1M tokens</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.001"
+                      value={openaiInputCost}
+                      onChange={(e) => setOpenaiInputCost(e.target.value)}
+                      placeholder="0"
+                      disabled={!enabled}
+                      className="w-full px-4 py-3 bg-zinc-900 border border-white/[0.06] rounded-lg text-white font-mono text-sm placeholder:text-white/20 focus:outline-none focus:border-skinny-yellow/50 disabled:opacity-50"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-white/50 mb-2">Output $ / 1M tokens</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.001"
+                      value={openaiOutputCost}
+                      onChange={(e) => setOpenaiOutputCost(e.target.value)}
+                      placeholder="0"
+                      disabled={!enabled}
+                      className="w-full px-4 py-3 bg-zinc-900 border border-white/[0.06] rounded-lg text-white font-mono text-sm placeholder:text-white/20 focus:outline-none focus:border-skinny-yellow/50 disabled:opacity-50"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-white/30">For usage tracking only - leave blank for a self-hosted model.</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* API Key Card */}
+        <div className={cn(
+          'bg-zinc-950 border border-white/[0.06] rounded-xl overflow-hidden transition-opacity',
+          (!enabled || !isGemini) && 'opacity-50'
         )}>
           <div className="p-6">
             <h2 className="text-lg font-medium text-white flex items-center gap-2">
@@ -268,7 +473,7 @@ export default function PlatformPage() {
         {/* Model Selection Card */}
         <div className={cn(
           'bg-zinc-950 border border-white/[0.06] rounded-xl overflow-hidden transition-opacity',
-          !enabled && 'opacity-50'
+          (!enabled || !isGemini) && 'opacity-50'
         )}>
           <div className="p-6">
             <h2 className="text-lg font-medium text-white flex items-center gap-2 mb-4">
@@ -322,7 +527,7 @@ export default function PlatformPage() {
         {/* Mode Selection Card */}
         <div className={cn(
           'bg-zinc-950 border border-white/[0.06] rounded-xl overflow-hidden transition-opacity',
-          !enabled && 'opacity-50'
+          (!enabled || !isGemini) && 'opacity-50'
         )}>
           <div className="p-6">
             <h2 className="text-lg font-medium text-white mb-4">API Key Source</h2>
@@ -387,6 +592,67 @@ export default function PlatformPage() {
           </div>
         </div>
 
+        {/* Context Card */}
+        <div className={cn(
+          'bg-zinc-950 border border-white/[0.06] rounded-xl overflow-hidden transition-opacity',
+          !enabled && 'opacity-50'
+        )}>
+          <div className="p-6">
+            <h2 className="text-lg font-medium text-white flex items-center gap-2">
+              <MessageSquare className="text-skinny-yellow" size={18} />
+              Conversation Context
+            </h2>
+            <p className="text-sm text-white/50 mt-1">
+              Long chats keep their latest messages verbatim and fold older ones into a running summary. Leave blank for the defaults.
+            </p>
+
+            <div className="mt-4 grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm text-white/50 mb-2">System prompt tokens</label>
+                <input
+                  type="number"
+                  min={1}
+                  step="1"
+                  value={promptTokenBudget}
+                  onChange={(e) => setPromptTokenBudget(e.target.value)}
+                  placeholder="16000"
+                  disabled={!enabled}
+                  className="w-full px-4 py-3 bg-zinc-900 border border-white/[0.06] rounded-lg text-white font-mono text-sm placeholder:text-white/20 focus:outline-none focus:border-skinny-yellow/50 disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-white/50 mb-2">Recent messages</label>
+                <input
+                  type="number"
+                  min={1}
+                  step="1"
+                  value={recentMessages}
+                  onChange={(e) => setRecentMessages(e.target.value)}
+                  placeholder="12"
+                  disabled={!enabled}
+                  className="w-full px-4 py-3 bg-zinc-900 border border-white/[0.06] rounded-lg text-white font-mono text-sm placeholder:text-white/20 focus:outline-none focus:border-skinny-yellow/50 disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-white/50 mb-2">History tokens</label>
+                <input
+                  type="number"
+                  min={1}
+                  step="1"
+                  value={historyTokenBudget}
+                  onChange={(e) => setHistoryTokenBudget(e.target.value)}
+                  placeholder="24000"
+                  disabled={!enabled}
+                  className="w-full px-4 py-3 bg-zinc-900 border border-white/[0.06] rounded-lg text-white font-mono text-sm placeholder:text-white/20 focus:outline-none focus:border-skinny-yellow/50 disabled:opacity-50"
+                />
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-white/30">
+              Lower budgets trim optional system prompt sections first, then the oldest messages the summary doesn&apos;t cover yet.
+            </p>
+          </div>
+        </div>
+
         {/* Save Button */}
         <div className="flex justify-end pt-4">
           <button
@@ -413,7 +679,7 @@ export default function PlatformPage() {
           <h3 className="text-sm font-medium text-blue-400 mb-2">How it works</h3>
           <ul className="text-sm text-white/60 space-y-1">
             <li>• The <strong className="text-white">orchestrator</strong> is the AI Creative Director that helps users create prompts and choose models</li>
-            <li>• When platform mode is <strong className="text-white">enabled</strong>, all AI chat uses your Gemini API key</li>
+            <li>• When platform mode is <strong className="text-white">enabled</strong>, all AI chat uses your Gemini API key - or your OpenAI-compatible server when that backend is picked</li>
             <li>• When <strong className="text-white">disabled</strong>, users must provide their own API key in Settings</li>
             <li>• Changes take effect immediately for new chat sessions</li>
             <li>• The API key is stored securely and never exposed to users</li>
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 import { getWhopAuthFromHeaders, verifyWhopTokenAndGetProfile, hasWhopAuth } from '@/lib/whop'
 import { isAdmin } from '@/lib/admin'
+import { readOrchestratorSpec } from '@/lib/orchestrator/model-specs'
+import { invalidateModelSpecsCache } from '@/lib/orchestrator/model-catalog'
 
 export async function GET(
   request: NextRequest,
@@ -59,6 +61,15 @@ export async function PUT(
     const { id } = await params
     const body = await request.json()
 
+    // Specs are checked here - a malformed one would break the orchestrator's prompt and tools
+    if (body.orchestrator_spec) {
+      const read = readOrchestratorSpec(body.orchestrator_spec)
+      if (!read.success) {
+        return NextResponse.json({ error: `Orchestrator spec: ${read.error}` }, { status: 400 })
+      }
+      body.orchestrator_spec = read.spec
+    }
+
     const { data: model, error } = await sbAdmin
       .from('studio_models')
       .update(body)
@@ -71,6 +82,7 @@ export async function PUT(
       return NextResponse.json({ error: 'Failed to update model' }, { status: 500 })
     }
 
+    invalidateModelSpecsCache()
     return NextResponse.json({ model })
   } catch (error) {
     console.error('Admin update model error:', error)
@@ -107,6 +119,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Failed to delete model' }, { status: 500 })
     }
 
+    invalidateModelSpecsCache()
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Admin delete model error:', error)
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWhopAuthFromHeaders, verifyWhopTokenAndGetProfile, hasWhopAuth } from '@/lib/whop'
+import { isAdmin } from '@/lib/admin'
+import { importModelSchema } from '@/lib/model-schema-import'
+
+export const runtime = 'nodejs'
+
+// Reads a Replicate model's input schema for the admin model editor, which
+// diffs it against the form and saves whatever the admin accepts
+export async function POST(request: NextRequest) {
+  try {
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!whop || !isAdmin(whop.id)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    if (typeof body.replicate_model !== 'string' || !body.replicate_model.trim()) {
+      return NextResponse.json({ error: 'Replicate model is required', code: 'INVALID_MODEL' }, { status: 400 })
+    }
+
+    const imported = await importModelSchema(body.replicate_model, body.category === 'video' ? 'video' : 'image')
+    if (!imported.success) {
+      const status = imported.code === 'INVALID_MODEL' ? 400
+        : imported.code === 'MODEL_NOT_FOUND' ? 404
+        : imported.code === 'NO_INPUT_SCHEMA' ? 422
+        : 502
+      return NextResponse.json({ error: imported.error, code: imported.code }, { status })
+    }
+
+    return NextResponse.json({ schema: imported.schema, source: imported.source })
+  } catch (error) {
+    console.error('Admin import schema error:', error)
+    return NextResponse.json({ error: 'Failed to import schema' }, { status: 500 })
+  }
+}
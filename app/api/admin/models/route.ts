@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 import { getWhopAuthFromHeaders, verifyWhopTokenAndGetProfile, hasWhopAuth } from '@/lib/whop'
 import { isAdmin } from '@/lib/admin'
+import { readOrchestratorSpec } from '@/lib/orchestrator/model-specs'
+import { invalidateModelSpecsCache } from '@/lib/orchestrator/model-catalog'
 
 export async function GET() {
   try {
@@ -50,6 +52,15 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json()
 
+    // Specs are checked here - a malformed one would break the orchestrator's prompt and tools
+    if (body.orchestrator_spec) {
+      const read = readOrchestratorSpec(body.orchestrator_spec)
+      if (!read.success) {
+        return NextResponse.json({ error: `Orchestrator spec: ${read.error}` }, { status: 400 })
+      }
+      body.orchestrator_spec = read.spec
+    }
+
     // Get the highest sort_order
     const { data: maxSort } = await sbAdmin
       .from('studio_models')
@@ -75,6 +86,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create model' }, { status: 500 })
     }
 
+    invalidateModelSpecsCache()
     return NextResponse.json({ model })
   } catch (error) {
     console.error('Admin create model error:', error)
@@ -2,17 +2,41 @@ import { NextResponse } from 'next/server'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 import { getWhopAuthFromHeaders, verifyWhopTokenAndGetProfile } from '@/lib/whop'
 import { isAdmin } from '@/lib/admin'
-import { invalidatePlatformSettingsCache } from '@/lib/platform-settings'
+import { invalidatePlatformSettingsCache, OrchestrationSettings } from '@/lib/platform-settings'
 
 export const runtime = 'nodejs'
 
-export interface OrchestrationSettings {
-  enabled: boolean
-  gemini_api_key: string | null
-  default_orchestrator_model: string | null
-  mode: 'platform_key' | 'user_keys'
+// Keys shown only by their last 4 characters and never sent back in full
+function maskSettings(settings: OrchestrationSettings) {
+  const { gemini_api_key, openai_api_key, ...rest } = settings
+  return {
+    ...rest,
+    backend: settings.backend || 'gemini',
+    gemini_api_key_masked: gemini_api_key ? `...${gemini_api_key.slice(-4)}` : null,
+    has_api_key: !!gemini_api_key,
+    openai_api_key_masked: openai_api_key ? `...${openai_api_key.slice(-4)}` : null,
+    has_openai_api_key: !!openai_api_key,
+  }
 }
 
+// Fields of the OpenAI-compatible backend that PUT copies over when present
+const OPENAI_FIELDS = [
+  'openai_base_url',
+  'openai_api_key',
+  'openai_model',
+  'openai_supports_vision',
+  'openai_supports_tools',
+  'openai_input_cost_per_million',
+  'openai_output_cost_per_million',
+] as const
+
+// Chat context limits - positive whole numbers, or null for the default
+const CONTEXT_FIELDS = [
+  'system_prompt_token_budget',
+  'context_recent_messages',
+  'context_history_token_budget',
+] as const
+
 // GET - Fetch platform settings
 export async function GET() {
   try {
@@ -34,21 +58,9 @@ export async function GET() {
       return NextResponse.json({ error: 'Failed to fetch settings' }, { status: 500 })
     }
 
-    // Mask the API key for display (show last 4 chars)
-    const settings = data.value as OrchestrationSettings
-    const maskedSettings = {
-      ...settings,
-      gemini_api_key_masked: settings.gemini_api_key
-        ? `...${settings.gemini_api_key.slice(-4)}`
-        : null,
-      has_api_key: !!settings.gemini_api_key,
-    }
-
-    // Don't send the actual API key to frontend
-    delete (maskedSettings as any).gemini_api_key
-
+    // Don't send the actual API keys to frontend
     return NextResponse.json({
-      settings: maskedSettings,
+      settings: maskSettings(data.value as OrchestrationSettings),
       updated_at: data.updated_at,
     })
   } catch (error) {
@@ -73,8 +85,29 @@ export async function PUT(request: Request) {
       gemini_api_key,
       default_orchestrator_model,
       mode,
+      backend,
     } = body
 
+    if (backend !== undefined && backend !== 'gemini' && backend !== 'openai_compatible') {
+      return NextResponse.json({ error: `Unknown orchestrator backend: ${backend}` }, { status: 400 })
+    }
+
+    if (body.openai_base_url) {
+      try {
+        const url = new URL(body.openai_base_url)
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Unsupported protocol')
+      } catch {
+        return NextResponse.json({ error: 'Server URL must be an http(s) URL, e.g. http://localhost:11434/v1' }, { status: 400 })
+      }
+    }
+
+    for (const field of CONTEXT_FIELDS) {
+      const value = body[field]
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value <= 0)) {
+        return NextResponse.json({ error: `${field} must be a positive whole number` }, { status: 400 })
+      }
+    }
+
     // Get current settings
     const { data: current, error: fetchError } = await sbAdmin
       .from('platform_settings')
@@ -99,6 +132,15 @@ export async function PUT(request: Request) {
         ? default_orchestrator_model
         : currentSettings.default_orchestrator_model,
       mode: mode !== undefined ? mode : currentSettings.mode,
+      backend: backend !== undefined ? backend : currentSettings.backend || 'gemini',
+      ...Object.fromEntries([...OPENAI_FIELDS, ...CONTEXT_FIELDS].map(field => [
+        field,
+        body[field] !== undefined ? body[field] : currentSettings[field],
+      ])),
+    }
+
+    if (updatedSettings.backend === 'openai_compatible' && (!updatedSettings.openai_base_url || !updatedSettings.openai_model)) {
+      return NextResponse.json({ error: 'The OpenAI-compatible backend needs a server URL and a model name' }, { status: 400 })
     }
 
     // Update settings
@@ -120,18 +162,9 @@ export async function PUT(request: Request) {
     invalidatePlatformSettingsCache()
 
     // Return masked settings
-    const maskedSettings = {
-      ...updatedSettings,
-      gemini_api_key_masked: updatedSettings.gemini_api_key
-        ? `...${updatedSettings.gemini_api_key.slice(-4)}`
-        : null,
-      has_api_key: !!updatedSettings.gemini_api_key,
-    }
-    delete (maskedSettings as any).gemini_api_key
-
     return NextResponse.json({
       success: true,
-      settings: maskedSettings,
+      settings: maskSettings(updatedSettings),
     })
   } catch (error) {
     console.error('Error in PUT /api/admin/platform:', error)
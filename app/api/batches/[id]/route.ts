@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { getBatch } from '@/lib/generation-batch'
+
+export const runtime = 'nodejs'
+
+// GET /api/batches/[id] - One batch with the current state of every cell
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const batch = await getBatch(id, whop.id)
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ batch })
+  } catch (error) {
+    console.error('Batch API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { BATCH_FIELDS, toBatch } from '@/lib/generation-batch'
+
+export const runtime = 'nodejs'
+
+// GET /api/batches - The user's batches, newest first, with every cell's state
+export async function GET(request: Request) {
+  try {
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50)
+
+    const { data: batches, error } = await sbAdmin
+      .from('generation_batches')
+      .select(BATCH_FIELDS)
+      .eq('whop_user_id', whop.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching batches:', error)
+      return NextResponse.json({ error: 'Failed to fetch batches' }, { status: 500 })
+    }
+
+    if (!batches?.length) {
+      return NextResponse.json({ batches: [] })
+    }
+
+    const { data: generations, error: genError } = await sbAdmin
+      .from('generations')
+      .select('id, batch_id, batch_cell, job_status, output_urls, cost_cents, replicate_error')
+      .in('batch_id', batches.map(batch => batch.id))
+
+    if (genError) {
+      console.error('Error fetching batch generations:', genError)
+      return NextResponse.json({ error: 'Failed to fetch batches' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      batches: batches.map(batch =>
+        toBatch(batch, (generations || []).filter(g => g.batch_id === batch.id))
+      ),
+    })
+  } catch (error) {
+    console.error('Batches API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -1,7 +1,29 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
 import { generateSystemPrompt } from '@/lib/orchestrator/system-prompt'
-import { getEffectiveGeminiApiKey, isPlatformOrchestrationActive } from '@/lib/platform-settings'
-import { calculateGeminiCost } from '@/lib/gemini-pricing'
+import { getModelSpecs } from '@/lib/orchestrator/model-catalog'
+import {
+  buildToolDeclarations,
+  generateToolModel,
+  readToolCall,
+  DirectorsNotes,
+  GenerationBlock,
+  OrchestratorAction,
+  SkillCreationBlock,
+  ToolArgIssue,
+  Toolset,
+} from '@/lib/orchestrator/tools'
+import { StoryboardRevision } from '@/lib/storyboard-revision'
+import { getPlatformSettings, isPlatformOrchestrationActive } from '@/lib/platform-settings'
+import { buildChatContext, DEFAULT_SYSTEM_PROMPT_TOKEN_BUDGET, StoredSummary, summarizeMessages } from '@/lib/orchestrator/context-builder'
+import { getWhopAuthFromHeaders, hasWhopAuth, verifyWhopTokenAndGetProfile } from '@/lib/whop'
+import {
+  getOrchestratorAdapter,
+  OrchestratorAdapter,
+  OrchestratorPart,
+  OrchestratorToolCall,
+  OrchestratorToolResult,
+  OrchestratorTurn,
+} from '@/lib/orchestrator/adapters'
+import { quoteGeneration } from '@/lib/pricing'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 
 // Use nodejs runtime to support longer generation times (edge has 30s limit)
@@ -41,58 +63,37 @@ interface ChatRequest {
   skillsContext?: string  // Formatted skills for system prompt
   referencedSkills?: SkillData[]  // Skills referenced in the current message
   selectedGenerationModelId?: string  // The generation model selected by the user
+  toolset?: Toolset  // 'storyboard' swaps generation for the storyboard revision functions
+  conversationId?: string  // Server-side conversation - holds the rolling summary of older turns
 }
 
-interface GenerationBlock {
-  model: string
-  prompt: string
-  params: Record<string, any>
-  // Video-specific fields
-  duration?: number
-  resolution?: string
-  // Seedream 4.5 sequential generation fields
-  sequentialImageGeneration?: 'disabled' | 'auto'
-  maxImages?: number
-}
-
-interface SkillCreationBlock {
-  name: string
-  shortcut: string
-  description: string
-  category: 'style' | 'technique' | 'tool' | 'workflow' | 'custom'
-  icon?: string
-  content: string
-  tags?: string[]
-  examples?: string[]
-}
-
-// Parse generation blocks from AI response
-function parseGenerationBlock(text: string): GenerationBlock | null {
-  const regex = /```generate\s*\n([\s\S]*?)\n```/
-  const match = text.match(regex)
-
-  if (!match) return null
+// Parse every generation block from AI response, in order
+function parseGenerationBlocks(text: string): GenerationBlock[] {
+  const regex = /```generate\s*\n([\s\S]*?)\n```/g
+  const blocks: GenerationBlock[] = []
 
-  try {
-    const json = JSON.parse(match[1])
-    if (json.model && json.prompt) {
-      return {
-        model: json.model,
-        prompt: json.prompt,
-        params: json.params || {},
-        // Video-specific fields
-        duration: json.duration,
-        resolution: json.resolution,
-        // Seedream 4.5 sequential generation fields
-        sequentialImageGeneration: json.sequentialImageGeneration,
-        maxImages: json.maxImages,
+  for (const match of Array.from(text.matchAll(regex))) {
+    try {
+      const json = JSON.parse(match[1])
+      if (json.model && json.prompt) {
+        blocks.push({
+          model: json.model,
+          prompt: json.prompt,
+          params: json.params || {},
+          // Video-specific fields
+          duration: json.duration,
+          resolution: json.resolution,
+          // Seedream 4.5 sequential generation fields
+          sequentialImageGeneration: json.sequentialImageGeneration,
+          maxImages: json.maxImages,
+        })
       }
+    } catch (e) {
+      console.error('Failed to parse generation block:', e)
     }
-  } catch (e) {
-    console.error('Failed to parse generation block:', e)
   }
 
-  return null
+  return blocks
 }
 
 // Parse skill creation blocks from AI response
@@ -129,13 +130,6 @@ function stripGenerationBlock(text: string): string {
 }
 
 // Parse director's notes from AI response
-interface DirectorsNotes {
-  modelChoice: string
-  promptEnhancements: string
-  parameterReasoning: string
-  tips: string
-}
-
 function parseDirectorsNotes(text: string): DirectorsNotes | null {
   const regex = /```directors-notes\s*\n([\s\S]*?)\n```/
   const match = text.match(regex)
@@ -164,104 +158,89 @@ function stripDirectorsNotes(text: string): string {
   return text.replace(/```directors-notes\s*\n[\s\S]*?\n```/g, '').trim()
 }
 
-// Storyboard Mode: Parse shot-list blocks from AI response
-interface ShotListItem {
-  shotNumber: number
-  title?: string
-  description: string
-  cameraAngle?: string
-  cameraMovement?: string
-  mediaType?: 'image' | 'video'
-  entities?: string[]
-  suggestedPrompt?: string
-}
+// How many times invalid function calls go back to the model for repair
+const MAX_REPAIR_ROUNDS = 2
 
-interface ShotListBlock {
-  shots: ShotListItem[]
+// Generations one turn can start - keeps a confirmed group under the generate rate limit
+const MAX_TURN_GENERATIONS = 6
+
+// One of several generations a turn asked for, waiting on the user's confirmation
+interface GenerationGroupItem {
+  request: GenerationBlock
+  costCents: number  // Held when it starts - the max for sequential generations
+  modelName?: string  // Display name from the catalog
+  generation?: Record<string, unknown>  // Set up front when the item can't run
 }
 
-function parseShotListBlock(text: string): ShotListBlock | null {
-  const regex = /```shot-list\s*\n([\s\S]*?)\n```/
-  const match = text.match(regex)
+// Price each runnable item so the client can confirm the whole group at once
+async function quoteGenerationGroup(items: GenerationGroupItem[]) {
+  const slugs = Array.from(new Set(items.filter(item => !item.generation).map(item => item.request.model)))
+  const { data: studioModels, error } = slugs.length > 0
+    ? await sbAdmin.from('studio_models').select('*').in('slug', slugs).eq('is_active', true)
+    : { data: [], error: null }
 
-  if (!match) return null
+  if (error) {
+    console.error('[Chat] Failed to load models for group quote:', error)
+  }
 
-  try {
-    const json = JSON.parse(match[1])
-    if (json.shots && Array.isArray(json.shots)) {
+  const quoted = items.map((item): GenerationGroupItem => {
+    if (item.generation) return item
+
+    const { request } = item
+    const studioModel = studioModels?.find(model => model.slug === request.model)
+    if (!studioModel) {
       return {
-        shots: json.shots.map((shot: any) => ({
-          shotNumber: shot.shotNumber || 0,
-          title: shot.title,
-          description: shot.description || '',
-          cameraAngle: shot.cameraAngle,
-          cameraMovement: shot.cameraMovement,
-          mediaType: shot.mediaType || 'image',
-          entities: shot.entities || [],
-          suggestedPrompt: shot.suggestedPrompt,
-        }))
+        ...item,
+        generation: { status: 'error', model: request.model, params: request.params, error: `Model not found: ${request.model}` },
       }
     }
-  } catch (e) {
-    console.error('Failed to parse shot-list block:', e)
-  }
-
-  return null
-}
 
-// Storyboard Mode: Parse entity suggestion blocks from AI response
-interface EntitySuggestionItem {
-  name: string
-  type: 'character' | 'world' | 'object' | 'style'
-  description?: string
-}
+    const quote = quoteGeneration(studioModel, {
+      duration: request.duration,
+      resolution: request.resolution,
+      generateAudio: request.generateAudio,
+      sequentialImageGeneration: request.sequentialImageGeneration,
+      maxImages: request.maxImages,
+    })
+    return { ...item, costCents: quote.maxCostCents, modelName: studioModel.name }
+  })
 
-interface EntitySuggestionBlock {
-  entities: EntitySuggestionItem[]
+  return {
+    status: 'confirming',
+    items: quoted,
+    totalCents: quoted.reduce((sum, item) => sum + (item.generation ? 0 : item.costCents), 0),
+  }
 }
 
-function parseEntitySuggestionBlock(text: string): EntitySuggestionBlock | null {
-  const regex = /```entity-suggestion\s*\n([\s\S]*?)\n```/
-  const match = text.match(regex)
-
-  if (!match) return null
-
+// The signed-in user's conversation and its stored summary, when there is one to use
+async function loadConversationSummary(conversationId: string) {
   try {
-    const json = JSON.parse(match[1])
-    if (json.entities && Array.isArray(json.entities)) {
-      return {
-        entities: json.entities.map((entity: any) => ({
-          name: entity.name || 'Unknown',
-          type: entity.type || 'character',
-          description: entity.description,
-        }))
-      }
-    }
-  } catch (e) {
-    console.error('Failed to parse entity-suggestion block:', e)
+    if (!(await hasWhopAuth())) return null
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const { data: conversation, error } = await sbAdmin
+      .from('conversations')
+      .select('id, summary, summary_message_count')
+      .eq('id', conversationId)
+      .eq('whop_user_id', whop.id)
+      .maybeSingle()
+
+    if (error || !conversation) return null
+
+    const stored: StoredSummary | null = conversation.summary
+      ? { text: conversation.summary, messageCount: conversation.summary_message_count || 0 }
+      : null
+    return { conversationId: conversation.id as string, stored }
+  } catch (error) {
+    console.error('[Chat] Failed to load conversation summary:', error)
+    return null
   }
-
-  return null
 }
 
-// Supported model IDs
-const SUPPORTED_MODELS = [
-  'gemini-2.5-flash',
-  'gemini-2.0-flash',
-  'gemini-2.0-flash-lite',
-  'gemma-3-27b-it',
-  'gemma-3-12b-it',
-]
-
-// Models that support vision/image input
-const VISION_MODELS = [
-  'gemini-2.5-flash',
-  'gemini-2.0-flash',
-]
-
 export async function POST(request: Request) {
   try {
-    const { messages, apiKey, modelId, skillsContext, referencedSkills, selectedGenerationModelId } = await request.json() as ChatRequest
+    const { messages, apiKey, modelId, skillsContext, referencedSkills, selectedGenerationModelId, toolset = 'studio', conversationId } = await request.json() as ChatRequest
 
     if (!messages || !Array.isArray(messages)) {
       return new Response(JSON.stringify({ error: 'Messages are required' }), {
@@ -276,10 +255,11 @@ export async function POST(request: Request) {
     // Get Whop user ID from headers for tracking
     const whopUserId = request.headers.get('x-whop-user-id') || null
 
-    // Get effective API key (platform key, user key, or env variable)
-    let effectiveApiKey: string
+    // Pick the orchestrator backend (Gemini with the platform, user or env key,
+    // or the admin's OpenAI-compatible server)
+    let adapter: OrchestratorAdapter
     try {
-      effectiveApiKey = await getEffectiveGeminiApiKey(apiKey)
+      adapter = await getOrchestratorAdapter(apiKey)
     } catch (error) {
       return new Response(JSON.stringify({
         error: 'API key required. Please add your Google AI API key in Settings.',
@@ -290,18 +270,19 @@ export async function POST(request: Request) {
       })
     }
 
-    // Validate model ID - default to gemini-2.5-flash for best quality
-    const effectiveModelId = modelId && SUPPORTED_MODELS.includes(modelId)
-      ? modelId
-      : 'gemini-2.5-flash'
-
-    const supportsVision = VISION_MODELS.includes(effectiveModelId)
+    // Validate model ID - the adapter falls back to its default for unknown ones
+    const effectiveModelId = adapter.resolveModel(modelId)
 
-    // Initialize Gemini with the API key
-    const genAI = new GoogleGenerativeAI(effectiveApiKey)
+    const supportsVision = adapter.supportsVision(effectiveModelId)
+    const toolCalling = adapter.supportsTools(effectiveModelId)
 
     // Build system prompt with skills context
-    let systemPrompt = generateSystemPrompt()
+    const [platformSettings, modelSpecs] = await Promise.all([getPlatformSettings(), getModelSpecs()])
+    let systemPrompt = generateSystemPrompt(undefined, {
+      toolCalling,
+      modelSpecs,
+      tokenBudget: platformSettings.system_prompt_token_budget || DEFAULT_SYSTEM_PROMPT_TOKEN_BUDGET,
+    })
 
     // Append skills context if provided
     if (skillsContext) {
@@ -361,12 +342,33 @@ export async function POST(request: Request) {
       systemPrompt += `Only offer model alternatives if they explicitly ask or if their request is impossible with this model.\n`
     }
 
-    // Get the model
-    const model = genAI.getGenerativeModel({
-      model: effectiveModelId,
-      systemInstruction: systemPrompt,
+    // Older turns come from the conversation's rolling summary instead of verbatim
+    const conversation = conversationId ? await loadConversationSummary(conversationId) : null
+    const context = buildChatContext(messages, conversation?.stored || null, {
+      recentMessages: platformSettings.context_recent_messages || undefined,
+      historyTokenBudget: platformSettings.context_history_token_budget || undefined,
     })
 
+    if (context.summary || context.omittedMessages > 0) {
+      systemPrompt += `\n\n## Conversation So Far\n`
+      systemPrompt += `Earlier messages in this chat aren't repeated below. What they covered:\n\n`
+      systemPrompt += context.summary || 'No summary yet.'
+      if (context.omittedMessages > 0) {
+        systemPrompt += `\n\n(${context.omittedMessages} more recent messages were left out to save space - ask the user if you need something from them.)`
+      }
+    }
+    console.log('[Chat] Context:', messages.length, 'messages,', context.messages.length, 'verbatim,', context.summary ? 'with summary' : 'no summary')
+
+    // Function declarations for this turn - generation is off in consultant
+    // mode and narrowed to the user's pick when they've chosen a model
+    const toolDeclarations = toolCalling
+      ? buildToolDeclarations(toolset, {
+          generation: !isConsultantMode,
+          specs: modelSpecs,
+          modelIds: selectedGenerationModelId ? [selectedGenerationModelId] : undefined,
+        })
+      : []
+
     // Purpose labels for context injection
     const PURPOSE_CONTEXT: Record<ImagePurpose, string> = {
       reference: 'REFERENCE IMAGE (style/content reference, ingredients for the generation)',
@@ -376,21 +378,22 @@ export async function POST(request: Request) {
       analyze: 'ANALYZED IMAGE (with AI-generated content description)',
     }
 
-    // Convert messages to Gemini format with image support
+    // Convert messages to the adapter's parts with image support
     const convertMessageToParts = (msg: ChatMessage) => {
-      const parts: any[] = []
+      const parts: OrchestratorPart[] = []
 
       // Add text content
       if (msg.content) {
-        parts.push({ text: msg.content })
+        parts.push({ type: 'text', text: msg.content })
       }
 
       // Add image context to message - both local uploads AND Skinny Hub references
       // This ensures the AI orchestrator knows about ALL attached images
       if (msg.attachments?.length) {
         // Get all image attachments - both 'image' (local) and 'reference' (Skinny Hub)
+        // (older images may arrive as analysis alone - see buildChatContext)
         const allImageAttachments = msg.attachments.filter(a =>
-          (a.type === 'image' || a.type === 'reference') && (a.base64 || a.url)
+          (a.type === 'image' || a.type === 'reference') && (a.base64 || a.url || a.analysis)
         )
 
         if (allImageAttachments.length > 0) {
@@ -411,17 +414,16 @@ export async function POST(request: Request) {
             return context
           }).join('\n\n')
 
-          parts.push({ text: `\n\n--- ATTACHED IMAGES ---\n${imageContexts}\n` })
+          parts.push({ type: 'text', text: `\n\n--- ATTACHED IMAGES ---\n${imageContexts}\n` })
 
           // Add inline image data ONLY for images with base64 (vision models only)
           if (supportsVision) {
             const base64Attachments = allImageAttachments.filter(a => a.base64 && a.mimeType)
             for (const attachment of base64Attachments) {
               parts.push({
-                inlineData: {
-                  data: attachment.base64,
-                  mimeType: attachment.mimeType,
-                }
+                type: 'image',
+                data: attachment.base64!,
+                mimeType: attachment.mimeType!,
               })
             }
           }
@@ -432,8 +434,8 @@ export async function POST(request: Request) {
     }
 
     // Build history (all messages except the last one)
-    const history = messages.slice(0, -1).map(msg => ({
-      role: msg.role === 'assistant' ? 'model' : 'user',
+    const history = context.messages.slice(0, -1).map(msg => ({
+      role: msg.role === 'assistant' ? 'assistant' as const : 'user' as const,
       parts: convertMessageToParts(msg),
     }))
 
@@ -442,76 +444,336 @@ export async function POST(request: Request) {
     const lastMessageParts = convertMessageToParts(lastMessage)
 
     // Start chat with history
-    const chat = model.startChat({
-      history: history as any,
+    const chat = adapter.startChat({
+      model: effectiveModelId,
+      systemPrompt,
+      history,
+      tools: toolDeclarations,
     })
 
+    // Images passed to every generation this turn
+    // Include base64 data so generate route can upload to storage if needed
+    // Include both 'image' and 'reference' types (from Skinny Hub)
+    const imagesWithPurposes: Array<{
+      url: string
+      base64?: string
+      mimeType?: string
+      purpose: string
+    }> = []
+
+    // ONLY use images from the LAST user message to prevent stale references
+    // This fixes the bug where old images from previous messages were being reused
+    // Users must explicitly attach images to each generation request
+    const lastUserMessage = messages.filter(m => m.role === 'user').pop()
+    if (lastUserMessage?.attachments?.length) {
+      const imageAttachments = lastUserMessage.attachments.filter(
+        att => (att.type === 'image' || att.type === 'reference') && (att.base64 || att.url)
+      )
+      for (const att of imageAttachments) {
+        const purpose = att.purpose || 'reference'
+        // Check if we already have this exact URL to avoid duplicates
+        const alreadyHasUrl = imagesWithPurposes.some(img => img.url === att.url)
+        if (!alreadyHasUrl) {
+          imagesWithPurposes.push({
+            url: att.url,
+            base64: att.base64,
+            mimeType: att.mimeType,
+            purpose: purpose,
+          })
+        }
+      }
+    }
+
     // Create a streaming response
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
       async start(controller) {
-        try {
-          // Stream the response - pass parts array for multimodal
-          const result = await chat.sendMessageStream(lastMessageParts)
+        const send = (data: Record<string, unknown>) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
+        }
+
+        // Call the generation API and stream its status
+        const runGeneration = async (genBlock: GenerationBlock): Promise<void> => {
+          const status = (generation: Record<string, unknown>) => send({
+            generation: { model: genBlock.model, params: genBlock.params, ...generation },
+          })
+
+          // Send generating status
+          status({ status: 'generating' })
+
+          try {
+            // Call the generation API - forward auth headers for user identification
+            const forwardHeaders: Record<string, string> = {
+              'Content-Type': 'application/json',
+            }
+
+            // Forward Whop authentication headers
+            const whopToken = request.headers.get('x-whop-user-token')
+            const whopUserId = request.headers.get('x-whop-user-id')
+            const cookie = request.headers.get('cookie')
+
+            if (whopToken) forwardHeaders['x-whop-user-token'] = whopToken
+            if (whopUserId) forwardHeaders['x-whop-user-id'] = whopUserId
+            if (cookie) forwardHeaders['cookie'] = cookie
+
+            console.log('[Chat] Images collected from the last message:', imagesWithPurposes.length)
+            console.log('[Chat] Calling generate API for model:', genBlock.model)
+            const generateUrl = new URL('/api/generate', request.url).href
+
+            const genResponse = await fetch(generateUrl, {
+              method: 'POST',
+              headers: forwardHeaders,
+              body: JSON.stringify({
+                model: genBlock.model,
+                prompt: genBlock.prompt,
+                params: genBlock.params,
+                // Video-specific fields
+                duration: genBlock.duration,
+                resolution: genBlock.resolution,
+                generateAudio: genBlock.generateAudio,
+                // Seedream 4.5 sequential generation fields
+                sequentialImageGeneration: genBlock.sequentialImageGeneration,
+                maxImages: genBlock.maxImages,
+                // Pass images with purposes
+                images: imagesWithPurposes.length > 0 ? imagesWithPurposes : undefined,
+                // Always return immediately for frontend polling (Netlify SSE compatibility)
+                noWait: true,
+              }),
+            })
+
+            console.log('[Chat] Generate response status:', genResponse.status, genResponse.statusText)
+            const genResultText = await genResponse.text()
+            console.log('[Chat] Generate response text (first 500 chars):', genResultText.slice(0, 500))
+
+            let genResult: any
+            try {
+              genResult = JSON.parse(genResultText)
+            } catch (parseError) {
+              console.error('[Chat] Failed to parse generate response:', parseError)
+              throw new Error(`Generate API returned invalid JSON: ${genResultText.slice(0, 200)}`)
+            }
+
+            if (genResult.success && genResult.imageUrl) {
+              console.log('[Chat] Generation successful! imageUrl:', genResult.imageUrl)
+              // Send complete status with result - include all output URLs for sequential generation
+              // Also include reference images used so UI can display them
+              const referenceImagesUsed = imagesWithPurposes
+                .filter(img => img.url && img.purpose === 'reference')
+                .map(img => ({ url: img.url, purpose: img.purpose }))
+              status({
+                status: 'complete',
+                result: {
+                  imageUrl: genResult.imageUrl,
+                  outputUrls: genResult.outputUrls || [genResult.imageUrl],
+                  prompt: genBlock.prompt,
+                  referenceImages: referenceImagesUsed.length > 0 ? referenceImagesUsed : undefined,
+                },
+              })
+              return
+            }
+
+            if (genResult.pending && genResult.generationId) {
+              // Generation is still processing - DON'T poll here!
+              // Netlify will timeout before completion (10-26s limit)
+              // Send generationId to frontend for client-side polling
+              console.log('[Chat] Generation pending, sending generationId for frontend polling:', genResult.generationId)
+              status({
+                status: 'generating',  // Keep as generating (frontend will poll)
+                generationId: genResult.generationId,  // Frontend needs this to poll
+              })
+              return
+            }
+
+            console.log('[Chat] Generation failed:', genResult.error || 'Unknown error', genResult.code)
+            // Send error status with all details (including balance info if applicable)
+            status({
+              status: 'error',
+              error: genResult.error || 'Generation failed',
+              code: genResult.code,
+              required: genResult.required,
+              available: genResult.available,
+            })
+          } catch (genError: any) {
+            console.error('Generation error:', genError)
+            status({ status: 'error', error: genError.message || 'Generation failed' })
+          }
+        }
+
+        // A lone generation starts right away, as it always has. Several go to
+        // the client as one quoted group that starts once the user confirms it
+        const startGenerations = async (items: GenerationGroupItem[]) => {
+          if (items.length === 0) return
+
+          if (items.length === 1) {
+            const [item] = items
+            if (item.generation) {
+              send({ generation: item.generation })
+            } else {
+              await runGeneration(item.request)
+            }
+            return
+          }
+
+          console.log('[Chat] Quoting generation group:', items.length, 'items')
+          send({ generationGroup: await quoteGenerationGroup(items) })
+        }
 
+        try {
           let fullResponse = ''
           let generationTriggered = false
+          const plannedGenerations: GenerationGroupItem[] = []
+          const usage = { prompt: 0, response: 0, total: 0 }
+
+          // Fold older messages into the conversation's summary alongside this
+          // turn, so the next one starts from it
+          const { pendingSummary } = context
+          const summaryUpdate = conversation && pendingSummary
+            ? summarizeMessages(adapter, effectiveModelId, context.summary, messages.slice(pendingSummary.from, pendingSummary.to))
+                .then(async ({ summary, usage: summaryUsage }) => {
+                  if (!summary) return
+                  if (summaryUsage) {
+                    usage.prompt += summaryUsage.promptTokens
+                    usage.response += summaryUsage.responseTokens
+                    usage.total += summaryUsage.totalTokens
+                  }
+                  const { error } = await sbAdmin
+                    .from('conversations')
+                    .update({
+                      summary,
+                      summary_message_count: pendingSummary.to,
+                      summary_updated_at: new Date().toISOString(),
+                    })
+                    .eq('id', conversation.conversationId)
+                  if (error) throw error
+                  console.log('[Chat] Conversation summary now covers', pendingSummary.to, 'messages')
+                })
+                .catch(error => console.error('[Chat] Failed to update conversation summary:', error))
+            : null
+          const storyboardRevision: StoryboardRevision = { changes: [] }
+
+          // Run a valid function call; what it returns goes back to the model
+          const runAction = async (action: OrchestratorAction): Promise<Record<string, unknown>> => {
+            switch (action.kind) {
+              case 'generate':
+                if (plannedGenerations.length >= MAX_TURN_GENERATIONS) {
+                  return { status: 'skipped', error: `At most ${MAX_TURN_GENERATIONS} generations per turn` }
+                }
+                plannedGenerations.push({ request: action.generation, costCents: 0 })
+                return { status: 'queued' }
+              case 'create_skill':
+                send({ skillCreation: action.skill })
+                return { status: 'shown to the user to save' }
+              case 'directors_notes':
+                send({ directorsNotes: action.notes })
+                return { status: 'shown' }
+              case 'storyboard_revision':
+                storyboardRevision.summary = storyboardRevision.summary || action.revision.summary
+                storyboardRevision.changes.push(...action.revision.changes)
+                return { status: 'sent to the user for review', changes: action.revision.changes.length }
+            }
+          }
 
-          for await (const chunk of result.stream) {
-            const text = chunk.text()
-            if (text) {
-              fullResponse += text
-
-              // Send the content chunk
-              const data = JSON.stringify({ content: text })
-              controller.enqueue(encoder.encode(`data: ${data}\n\n`))
-
-              // Check for complete generation block
-              if (!generationTriggered) {
-                const genBlock = parseGenerationBlock(fullResponse)
-                if (genBlock) {
-                  generationTriggered = true
-
-                  // Send generation status: planning
-                  const planningData = JSON.stringify({
-                    generation: {
-                      status: 'planning',
-                      model: genBlock.model,
-                      params: genBlock.params,
-                    }
-                  })
-                  controller.enqueue(encoder.encode(`data: ${planningData}\n\n`))
+          // Stream the response - pass parts array for multimodal. When function
+          // calls come back invalid, their issues go back to the model and the
+          // next round streams its repaired calls
+          let turn: OrchestratorTurn = chat.sendMessage(lastMessageParts)
+          for (let round = 0; round <= MAX_REPAIR_ROUNDS; round++) {
+            for await (const text of turn.stream) {
+              if (text) {
+                fullResponse += text
+
+                // Send the content chunk
+                send({ content: text })
+
+                // Check for complete generation block
+                if (!toolCalling && !generationTriggered) {
+                  const [genBlock] = parseGenerationBlocks(fullResponse)
+                  if (genBlock) {
+                    generationTriggered = true
+
+                    // Send generation status: planning
+                    send({ generation: { status: 'planning', model: genBlock.model, params: genBlock.params } })
+                  }
                 }
               }
             }
+
+            const { toolCalls: calls, usage: roundUsage } = await turn.result()
+            if (roundUsage) {
+              usage.prompt += roundUsage.promptTokens
+              usage.response += roundUsage.responseTokens
+              usage.total += roundUsage.totalTokens
+            }
+
+            if (calls.length === 0) break
+
+            const replies: OrchestratorToolResult[] = []
+            const invalid: { call: OrchestratorToolCall; issues: ToolArgIssue[] }[] = []
+            for (const call of calls) {
+              const read = readToolCall(call, toolDeclarations, modelSpecs)
+              if (!read.success) {
+                invalid.push({ call, issues: read.issues })
+                replies.push({
+                  call,
+                  response: { error: 'Invalid arguments - fix these issues and call again', issues: read.issues },
+                })
+                continue
+              }
+              replies.push({ call, response: await runAction(read.action) })
+            }
+
+            if (invalid.length === 0) break
+            console.warn('[Chat] Invalid function calls in round', round, JSON.stringify(invalid.map(({ call, issues }) => ({ name: call.name, issues }))))
+
+            if (round === MAX_REPAIR_ROUNDS) {
+              // Out of repairs - say so rather than dropping the generation
+              for (const { call, issues } of invalid) {
+                const spec = generateToolModel(call.name, modelSpecs)
+                if (!spec || plannedGenerations.length >= MAX_TURN_GENERATIONS) continue
+                const args = call.args as Record<string, any>
+                plannedGenerations.push({
+                  request: { model: spec.id, prompt: String(args.prompt || ''), params: args },
+                  costCents: 0,
+                  modelName: spec.name,
+                  generation: {
+                    status: 'error',
+                    model: spec.id,
+                    params: args,
+                    error: `The assistant couldn't settle on valid settings: ${issues.map(issue => `${issue.field} - ${issue.message}`).join('; ')}`,
+                    code: 'INVALID_PARAMS',
+                  },
+                })
+              }
+              break
+            }
+            turn = chat.sendToolResults(replies)
           }
 
+          await summaryUpdate
+
           // Track token usage after streaming completes
           try {
-            const aggregatedResponse = await result.response
-            const usage = aggregatedResponse.usageMetadata
-
-            if (usage && usage.promptTokenCount && usage.candidatesTokenCount) {
-              const estimatedCost = calculateGeminiCost(
-                effectiveModelId,
-                usage.promptTokenCount,
-                usage.candidatesTokenCount
-              )
+            if (usage.prompt && usage.response) {
+              const estimatedCost = adapter.estimateCostCents(effectiveModelId, {
+                promptTokens: usage.prompt,
+                responseTokens: usage.response,
+                totalTokens: usage.total,
+              })
 
               // Log to gemini_usage table
               await sbAdmin.from('gemini_usage').insert({
                 whop_user_id: whopUserId,
-                prompt_tokens: usage.promptTokenCount,
-                response_tokens: usage.candidatesTokenCount,
-                total_tokens: usage.totalTokenCount || (usage.promptTokenCount + usage.candidatesTokenCount),
+                prompt_tokens: usage.prompt,
+                response_tokens: usage.response,
+                total_tokens: usage.total || (usage.prompt + usage.response),
                 model: effectiveModelId,
                 estimated_cost_cents: estimatedCost,
                 is_platform_key: isPlatformMode,
               })
 
               console.log('[Chat] Token usage logged:', {
-                promptTokens: usage.promptTokenCount,
-                responseTokens: usage.candidatesTokenCount,
+                promptTokens: usage.prompt,
+                responseTokens: usage.response,
                 model: effectiveModelId,
                 estimatedCostCents: estimatedCost,
                 isPlatformKey: isPlatformMode,
@@ -522,209 +784,29 @@ export async function POST(request: Request) {
             console.error('[Chat] Failed to track token usage:', usageError)
           }
 
-          // After streaming is complete, check for skill creation block
-          const skillBlock = parseSkillCreationBlock(fullResponse)
-          if (skillBlock) {
-            // Send skill creation event to client
-            const skillData = JSON.stringify({
-              skillCreation: skillBlock
-            })
-            controller.enqueue(encoder.encode(`data: ${skillData}\n\n`))
+          if (storyboardRevision.changes.length > 0) {
+            send({ storyboardRevision })
           }
 
-          // After streaming is complete, check for generation block (skip in consultant mode)
-          const genBlock = isConsultantMode ? null : parseGenerationBlock(fullResponse)
-          if (genBlock) {
-            // Send generating status
-            const generatingData = JSON.stringify({
-              generation: {
-                status: 'generating',
-                model: genBlock.model,
-                params: genBlock.params,
-              }
-            })
-            controller.enqueue(encoder.encode(`data: ${generatingData}\n\n`))
-
-            try {
-              // Call the generation API - forward auth headers for user identification
-              const forwardHeaders: Record<string, string> = {
-                'Content-Type': 'application/json',
-              }
-
-              // Forward Whop authentication headers
-              const whopToken = request.headers.get('x-whop-user-token')
-              const whopUserId = request.headers.get('x-whop-user-id')
-              const cookie = request.headers.get('cookie')
-
-              if (whopToken) forwardHeaders['x-whop-user-token'] = whopToken
-              if (whopUserId) forwardHeaders['x-whop-user-id'] = whopUserId
-              if (cookie) forwardHeaders['cookie'] = cookie
-
-              // Collect images from the ENTIRE conversation history (not just last message)
-              // This is critical: user might attach an image in message 1, then confirm in message 3
-              // We need to find all images across the conversation
-              // Include base64 data so generate route can upload to storage if needed
-              // Include both 'image' and 'reference' types (from Skinny Hub)
-              const imagesWithPurposes: Array<{
-                url: string
-                base64?: string
-                mimeType?: string
-                purpose: string
-              }> = []
-
-              // ONLY use images from the LAST user message to prevent stale references
-              // This fixes the bug where old images from previous messages were being reused
-              // Users must explicitly attach images to each generation request
-              const lastUserMessage = messages.filter(m => m.role === 'user').pop()
-              if (lastUserMessage?.attachments?.length) {
-                const imageAttachments = lastUserMessage.attachments.filter(
-                  att => (att.type === 'image' || att.type === 'reference') && (att.base64 || att.url)
-                )
-                for (const att of imageAttachments) {
-                  const purpose = att.purpose || 'reference'
-                  // Check if we already have this exact URL to avoid duplicates
-                  const alreadyHasUrl = imagesWithPurposes.some(img => img.url === att.url)
-                  if (!alreadyHasUrl) {
-                    imagesWithPurposes.push({
-                      url: att.url,
-                      base64: att.base64,
-                      mimeType: att.mimeType,
-                      purpose: purpose,
-                    })
-                  }
-                }
-              }
-
-              // Log attachment debugging info
-              console.log('[Chat] Total messages in conversation:', messages.length)
-              console.log('[Chat] Last message attachments:', lastMessage.attachments?.length || 0)
-              console.log('[Chat] Images collected from conversation history:', imagesWithPurposes.length)
-              if (imagesWithPurposes.length > 0) {
-                console.log('[Chat] Images detail:', JSON.stringify(imagesWithPurposes.map(i => ({
-                  purpose: i.purpose,
-                  hasUrl: !!i.url,
-                  hasBase64: !!i.base64,
-                  urlType: i.url?.startsWith('http') ? 'http' : i.url?.startsWith('blob') ? 'blob' : 'other',
-                  urlPreview: i.url?.slice(0, 80)
-                }))))
-              } else {
-                console.warn('[Chat] WARNING: No images found in conversation history!')
-              }
-
-              console.log('[Chat] Calling generate API for model:', genBlock.model)
-              const generateUrl = new URL('/api/generate', request.url).href
-              console.log('[Chat] Generate URL:', generateUrl)
-
-              const genResponse = await fetch(generateUrl, {
-                method: 'POST',
-                headers: forwardHeaders,
-                body: JSON.stringify({
-                  model: genBlock.model,
-                  prompt: genBlock.prompt,
-                  params: genBlock.params,
-                  // Video-specific fields
-                  duration: genBlock.duration,
-                  resolution: genBlock.resolution,
-                  // Seedream 4.5 sequential generation fields
-                  sequentialImageGeneration: genBlock.sequentialImageGeneration,
-                  maxImages: genBlock.maxImages,
-                  // Pass images with purposes
-                  images: imagesWithPurposes.length > 0 ? imagesWithPurposes : undefined,
-                  // Always return immediately for frontend polling (Netlify SSE compatibility)
-                  noWait: true,
-                }),
-              })
-
-              console.log('[Chat] Generate response status:', genResponse.status, genResponse.statusText)
-              const genResultText = await genResponse.text()
-              console.log('[Chat] Generate response text (first 500 chars):', genResultText.slice(0, 500))
+          // Models without function calling still write fenced blocks
+          if (!toolCalling) {
+            const skillBlock = parseSkillCreationBlock(fullResponse)
+            if (skillBlock) {
+              send({ skillCreation: skillBlock })
+            }
 
-              let genResult: any
-              try {
-                genResult = JSON.parse(genResultText)
-              } catch (parseError) {
-                console.error('[Chat] Failed to parse generate response:', parseError)
-                throw new Error(`Generate API returned invalid JSON: ${genResultText.slice(0, 200)}`)
-              }
+            if (!isConsultantMode) {
+              const genBlocks = parseGenerationBlocks(fullResponse).slice(0, MAX_TURN_GENERATIONS)
+              plannedGenerations.push(...genBlocks.map(request => ({ request, costCents: 0 })))
+            }
 
-              if (genResult.success && genResult.imageUrl) {
-                console.log('[Chat] Generation successful! imageUrl:', genResult.imageUrl)
-                console.log('[Chat] All output URLs:', genResult.outputUrls)
-                // Send complete status with result - include all output URLs for sequential generation
-                // Also include reference images used so UI can display them
-                const referenceImagesUsed = imagesWithPurposes
-                  .filter(img => img.url && img.purpose === 'reference')
-                  .map(img => ({ url: img.url, purpose: img.purpose }))
-                const completeData = JSON.stringify({
-                  generation: {
-                    status: 'complete',
-                    model: genBlock.model,
-                    params: genBlock.params,
-                    result: {
-                      imageUrl: genResult.imageUrl,
-                      outputUrls: genResult.outputUrls || [genResult.imageUrl],
-                      prompt: genBlock.prompt,
-                      referenceImages: referenceImagesUsed.length > 0 ? referenceImagesUsed : undefined,
-                    }
-                  }
-                })
-                console.log('[Chat] Sending complete data to stream')
-                controller.enqueue(encoder.encode(`data: ${completeData}\n\n`))
-                console.log('[Chat] Complete data sent')
-              } else if (genResult.pending && genResult.generationId) {
-                // Generation is still processing - DON'T poll here!
-                // Netlify will timeout before completion (10-26s limit)
-                // Send generationId to frontend for client-side polling
-                console.log('[Chat] Generation pending, sending generationId for frontend polling:', genResult.generationId)
-                const pendingData = JSON.stringify({
-                  generation: {
-                    status: 'generating',  // Keep as generating (frontend will poll)
-                    model: genBlock.model,
-                    params: genBlock.params,
-                    generationId: genResult.generationId,  // Frontend needs this to poll
-                  }
-                })
-                controller.enqueue(encoder.encode(`data: ${pendingData}\n\n`))
-              } else {
-                console.log('[Chat] Generation failed:', genResult.error || 'Unknown error')
-                console.log('[Chat] Error code:', genResult.code)
-                // Send error status with all details (including balance info if applicable)
-                const errorData = JSON.stringify({
-                  generation: {
-                    status: 'error',
-                    model: genBlock.model,
-                    params: genBlock.params,
-                    error: genResult.error || 'Generation failed',
-                    code: genResult.code,
-                    required: genResult.required,
-                    available: genResult.available,
-                  }
-                })
-                controller.enqueue(encoder.encode(`data: ${errorData}\n\n`))
-              }
-            } catch (genError: any) {
-              console.error('Generation error:', genError)
-              const errorData = JSON.stringify({
-                generation: {
-                  status: 'error',
-                  model: genBlock.model,
-                  params: genBlock.params,
-                  error: genError.message || 'Generation failed',
-                }
-              })
-              controller.enqueue(encoder.encode(`data: ${errorData}\n\n`))
+            const directorsNotes = parseDirectorsNotes(fullResponse)
+            if (directorsNotes) {
+              send({ directorsNotes })
             }
           }
 
-          // After streaming is complete, check for director's notes
-          const directorsNotes = parseDirectorsNotes(fullResponse)
-          if (directorsNotes) {
-            // Send director's notes event to client
-            const notesData = JSON.stringify({
-              directorsNotes: directorsNotes
-            })
-            controller.enqueue(encoder.encode(`data: ${notesData}\n\n`))
-          }
+          await startGenerations(plannedGenerations)
 
           // Send done marker
           controller.enqueue(encoder.encode('data: [DONE]\n\n'))
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 import { getWhopAuthFromHeaders, verifyWhopTokenAndGetProfile, hasWhopAuth } from '@/lib/whop'
+import { quoteGeneration } from '@/lib/pricing'
 
 export const runtime = 'nodejs'
 
@@ -13,37 +14,6 @@ interface EstimateCostRequest {
   maxImages?: number
 }
 
-// Calculate cost for video models (per-second pricing)
-function calculateVideoCost(
-  studioModel: any,
-  duration: number,
-  resolution: string,
-  generateAudio?: boolean
-): number {
-  if (studioModel.pricing_type !== 'per_second') {
-    return studioModel.cost_per_run_cents || 0
-  }
-
-  let baseCostPerSecond = studioModel.cost_per_second_cents || 0
-
-  // Check for audio-based pricing in parameter_schema (Veo models)
-  const paramSchema = studioModel.parameter_schema || {}
-  const audioParam = paramSchema.generate_audio
-
-  if (audioParam?.pricing) {
-    const hasAudio = generateAudio !== false
-    baseCostPerSecond = hasAudio
-      ? audioParam.pricing.with_audio_cents_per_second
-      : audioParam.pricing.without_audio_cents_per_second
-  }
-
-  // Apply resolution multiplier (for Wan 2.5 models)
-  const multipliers = studioModel.resolution_multipliers || {}
-  const resolutionMultiplier = multipliers[resolution] || 1.0
-
-  return Math.ceil(baseCostPerSecond * duration * resolutionMultiplier)
-}
-
 export async function POST(request: Request) {
   try {
     // === AUTH CHECK ===
@@ -94,43 +64,16 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: `Model not found: ${model}` }, { status: 400 })
     }
 
-    // Calculate base cost
-    let costCents = 0
-    let effectiveDuration = duration
-    let effectiveResolution = resolution
-
-    if (studioModel.pricing_type === 'per_second') {
-      // Video model
-      const paramSchema = studioModel.parameter_schema || {}
-      const durationParam = paramSchema.duration
-      const resolutionParam = paramSchema.resolution
-
-      const durationOptions = durationParam?.options || studioModel.duration_options || [5]
-      const resolutionOptions = resolutionParam?.options || studioModel.resolution_options || ['720p']
-
-      effectiveDuration = duration ?? durationParam?.default ?? durationOptions[0]
-      effectiveResolution = resolution ?? resolutionParam?.default ?? resolutionOptions[0]
-
-      // Validate
-      if (!durationOptions.includes(effectiveDuration)) {
-        effectiveDuration = durationOptions[0]
-      }
-      if (!resolutionOptions.includes(effectiveResolution)) {
-        effectiveResolution = resolutionOptions[0]
-      }
-
-      costCents = calculateVideoCost(studioModel, effectiveDuration as number, effectiveResolution as string, generateAudio)
-    } else {
-      // Image model - flat rate
-      costCents = studioModel.cost_per_run_cents || 0
-    }
-
-    // Calculate MAX possible cost for sequential generation
-    let maxCostCents = costCents
-
-    if (model === 'seedream-4.5' && sequentialImageGeneration === 'auto' && maxImages && maxImages > 1) {
-      maxCostCents = costCents * Math.min(maxImages, 15)
-    }
+    // Same quote the generate route holds and charges against
+    const quote = quoteGeneration(studioModel, {
+      duration,
+      resolution,
+      generateAudio,
+      sequentialImageGeneration,
+      maxImages,
+    })
+    const costCents = quote.unitCostCents
+    const maxCostCents = quote.maxCostCents
 
     // Determine if user can afford
     const affordable = hasLifetimeAccess || userBalance >= maxCostCents
@@ -148,18 +91,20 @@ export async function POST(request: Request) {
       // Breakdown for display
       breakdown: {
         baseCostCents: costCents,
-        ...(model === 'seedream-4.5' && sequentialImageGeneration === 'auto' && maxImages && maxImages > 1 && {
+        ...(quote.sequentialMode && {
           sequentialMode: true,
-          maxImages: Math.min(maxImages, 15),
+          maxImages: quote.maxImages,
           maxCostCents,
         }),
-        ...(studioModel.pricing_type === 'per_second' && {
-          duration: effectiveDuration,
-          resolution: effectiveResolution,
-          costPerSecond: studioModel.cost_per_second_cents,
-          resolutionMultiplier: studioModel.resolution_multipliers?.[effectiveResolution as string] || 1.0,
+        ...(quote.pricingType === 'per_second' && {
+          duration: quote.duration,
+          resolution: quote.resolution,
+          costPerSecond: quote.costPerSecondCents,
+          resolutionMultiplier: quote.resolutionMultiplier,
+          generateAudio: quote.generateAudio,
         }),
       },
+      lineItems: quote.lineItems,
     })
 
   } catch (error) {
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { getWhopAuthFromHeaders, verifyWhopTokenAndGetProfile, hasWhopAuth } from '@/lib/whop'
+import { rateLimit, getRateLimitKey, RATE_LIMITS } from '@/lib/rate-limit'
+import { parseBatchMatrix, quoteBatch, submitBatch } from '@/lib/generation-batch'
+
+export const runtime = 'nodejs'
+export const maxDuration = 120
+
+// POST /api/generate/batch - Run one prompt matrix across models and parameter sets
+// Body: { models: string[], prompts: string[], paramSets?: object[], name?, referenceImages?, quoteOnly? }
+// With quoteOnly the matrix is priced and nothing is charged. Otherwise the total
+// is held once, every cell is submitted, and the batch is returned for polling
+// at /api/batches/[id].
+export async function POST(request: Request) {
+  try {
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const body = await request.json()
+
+    const parsed = parseBatchMatrix(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error, code: 'INVALID_BATCH' }, { status: 400 })
+    }
+
+    if (body.quoteOnly) {
+      const quoted = await quoteBatch(parsed.matrix)
+      if (!quoted.success) {
+        return NextResponse.json(
+          { error: quoted.error, code: quoted.code },
+          { status: quoted.code === 'BATCH_FAILED' ? 500 : 400 }
+        )
+      }
+      return NextResponse.json({ quote: quoted.quote })
+    }
+
+    // === RATE LIMIT CHECK ===
+    const rateLimitKey = getRateLimitKey(request, whop.id, 'batch')
+    const { success: rateLimitOk, reset } = rateLimit(
+      rateLimitKey,
+      RATE_LIMITS.batch.limit,
+      RATE_LIMITS.batch.windowMs
+    )
+
+    if (!rateLimitOk) {
+      return NextResponse.json(
+        {
+          error: 'Too many batch requests. Please try again later.',
+          code: 'RATE_LIMITED',
+          retryAfter: Math.ceil((reset - Date.now()) / 1000)
+        },
+        { status: 429, headers: { 'Retry-After': '60' } }
+      )
+    }
+
+    const { data: profile } = await sbAdmin
+      .from('user_profiles')
+      .select('id')
+      .eq('whop_user_id', whop.id)
+      .maybeSingle()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found', code: 'PROFILE_NOT_FOUND' }, { status: 404 })
+    }
+
+    // Uploads go through /api/upload first; batches only take hosted images
+    const referenceImages = Array.isArray(body.referenceImages)
+      ? body.referenceImages.filter((url: unknown): url is string => typeof url === 'string' && /^https?:\/\//.test(url))
+      : []
+
+    const result = await submitBatch(
+      { whopUserId: whop.id, profileId: profile.id },
+      parsed.matrix,
+      { name: typeof body.name === 'string' ? body.name.trim() || undefined : undefined, referenceImages }
+    )
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: result.error,
+        code: result.code,
+        ...(result.code === 'INSUFFICIENT_BALANCE' && {
+          required: result.required,
+          available: result.available,
+        }),
+      }, { status: result.status })
+    }
+
+    return NextResponse.json({
+      batch: result.batch,
+      quote: result.quote,
+      newBalance: result.newBalance,
+    })
+  } catch (error) {
+    console.error('Batch generate API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
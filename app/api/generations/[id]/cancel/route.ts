@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { hasWhopAuth, getWhopAuthFromHeaders, verifyWhopTokenAndGetProfile } from '@/lib/whop'
+import { cancelJob } from '@/lib/generation-jobs'
+
+export const runtime = 'nodejs'
+
+// POST /api/generations/[id]/cancel - Stop an in-flight generation and refund its credits
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+    if (!whop) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: generation, error } = await sbAdmin
+      .from('generations')
+      .select('id, job_status')
+      .eq('id', params.id)
+      .eq('whop_user_id', whop.id)  // Only user's own generations
+      .single()
+
+    if (error || !generation) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const result = await cancelJob(generation.id, 'user_cancel')
+
+    if (!result.handled) {
+      return NextResponse.json({
+        error: result.jobStatus === 'canceled' ? 'Generation already canceled' : 'Generation has already finished',
+        code: 'NOT_CANCELABLE',
+        jobStatus: result.jobStatus,
+      }, { status: 409 })
+    }
+
+    // Shots waiting on this generation go back to pending
+    await sbAdmin
+      .from('storyboard_shots')
+      .update({ status: 'pending' })
+      .eq('generation_id', generation.id)
+      .eq('status', 'generating')
+
+    console.log(`[Generations API] Canceled generation ${generation.id}, refunded ${result.refundedCents}¢`)
+
+    return NextResponse.json({
+      success: true,
+      id: generation.id,
+      job_status: result.jobStatus,
+      refundedCents: result.refundedCents || 0,
+      newBalance: result.newBalance,
+    })
+  } catch (error) {
+    console.error('Generation cancel error:', error)
+    return NextResponse.json({ error: 'Failed to cancel generation' }, { status: 500 })
+  }
+}
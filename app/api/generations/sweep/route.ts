@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sweepGenerations } from '@/lib/generation-jobs'
+import { sweepWorkflowRuns } from '@/lib/workflow-runner'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+// POST /api/generations/sweep - Check every due generation job, then nudge stalled workflow runs
+// Used by scripts/fix-pending-generations.js; the Netlify poller calls the sweeper directly
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || undefined
+    const summary = await sweepGenerations({ limit })
+    const workflowRuns = await sweepWorkflowRuns({ limit })
+
+    return NextResponse.json({ success: true, ...summary, workflowRunsChecked: workflowRuns.checked })
+  } catch (error) {
+    console.error('[Sweep] Error:', error)
+    return NextResponse.json({ error: 'Sweep failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { isMockProviderEnabled } from '@/lib/providers'
+
+export const runtime = 'nodejs'
+
+// GET /api/mock-provider/output - Placeholder media for the mock generation provider
+// Same seed + index always renders the same image
+export async function GET(request: Request) {
+  if (!isMockProviderEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const seed = (searchParams.get('seed') || '000000').replace(/[^0-9a-f]/gi, '').padEnd(6, '0')
+  const index = Number(searchParams.get('index')) || 0
+  const kind = searchParams.get('kind') === 'video' ? 'video' : 'image'
+
+  // Two colors from the seed, rotated per image in a sequential set
+  const hue = (parseInt(seed.slice(0, 6), 16) + index * 47) % 360
+  const width = kind === 'video' ? 1280 : 1024
+  const height = kind === 'video' ? 720 : 1024
+  const label = kind === 'video' ? 'MOCK VIDEO' : `MOCK IMAGE ${index + 1}`
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs>
+    <linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue}, 70%, 45%)"/>
+      <stop offset="1" stop-color="hsl(${(hue + 60) % 360}, 70%, 20%)"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#g)"/>
+  ${kind === 'video' ? `<polygon points="${width / 2 - 40},${height / 2 - 50} ${width / 2 - 40},${height / 2 + 50} ${width / 2 + 50},${height / 2}" fill="rgba(255,255,255,0.8)"/>` : ''}
+  <text x="50%" y="${kind === 'video' ? height / 2 + 110 : height / 2}" text-anchor="middle" font-family="monospace" font-size="48" fill="rgba(255,255,255,0.85)">${label}</text>
+  <text x="50%" y="${kind === 'video' ? height / 2 + 160 : height / 2 + 56}" text-anchor="middle" font-family="monospace" font-size="24" fill="rgba(255,255,255,0.6)">seed ${seed}</text>
+</svg>`
+
+  return new NextResponse(svg, {
+    headers: {
+      'Content-Type': 'image/svg+xml',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  })
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import { sbAdmin } from "@/lib/supabaseAdmin"
+import { ModelSpec, specFromModelRow } from "@/lib/orchestrator/model-specs"
 
 export const runtime = "nodejs"
 
@@ -34,9 +35,15 @@ export async function GET(request: Request) {
       llm: models?.filter(m => m.category === 'llm') || [],
     }
 
+    // Orchestrator specs of the models that have one, for pickers and UI hints
+    const specs = (models || [])
+      .map(specFromModelRow)
+      .filter((spec): spec is ModelSpec => spec !== null)
+
     return NextResponse.json({
       models: models || [],
       grouped,
+      specs,
     })
   } catch (error) {
     console.error("Models API error:", error)
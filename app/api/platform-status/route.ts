@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { isPlatformOrchestrationActive, getPlatformSettings } from '@/lib/platform-settings'
+import { isPlatformOrchestrationActive, getPlatformSettings, usesOpenAICompatibleBackend } from '@/lib/platform-settings'
 
 export const runtime = 'nodejs'
 
@@ -8,17 +8,22 @@ export async function GET() {
   try {
     const isActive = await isPlatformOrchestrationActive()
     const settings = await getPlatformSettings()
+    const openAICompatible = usesOpenAICompatibleBackend(settings)
 
     return NextResponse.json({
       platformOrchestrationEnabled: isActive,
+      backend: openAICompatible ? 'openai-compatible' : 'gemini',
       // Only include model info if platform mode is active
-      defaultModel: isActive ? settings.default_orchestrator_model : null,
+      defaultModel: isActive
+        ? (openAICompatible ? settings.openai_model : settings.default_orchestrator_model)
+        : null,
     })
   } catch (error) {
     console.error('Error checking platform status:', error)
     // Default to false on error (user provides own key)
     return NextResponse.json({
       platformOrchestrationEnabled: false,
+      backend: 'gemini',
       defaultModel: null,
     })
   }
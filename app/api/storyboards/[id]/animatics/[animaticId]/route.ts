@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { ANIMATIC_FIELDS, toAnimatic } from '@/lib/animatic'
+
+export const runtime = 'nodejs'
+
+// GET /api/storyboards/[id]/animatics/[animaticId] - Render status and download URL
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; animaticId: string }> }
+) {
+  try {
+    const { id, animaticId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const { data } = await sbAdmin
+      .from('storyboard_animatics')
+      .select(ANIMATIC_FIELDS)
+      .eq('id', animaticId)
+      .eq('storyboard_id', id)
+      .eq('whop_user_id', whop.id)
+      .maybeSingle()
+
+    if (!data) {
+      return NextResponse.json({ error: 'Animatic not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ animatic: toAnimatic(data) })
+  } catch (error) {
+    console.error('Animatic API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/storyboards/[id]/animatics/[animaticId] - Delete an animatic and its file
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; animaticId: string }> }
+) {
+  try {
+    const { id, animaticId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const { data: animatic } = await sbAdmin
+      .from('storyboard_animatics')
+      .select('id, status, storage_path')
+      .eq('id', animaticId)
+      .eq('storyboard_id', id)
+      .eq('whop_user_id', whop.id)
+      .maybeSingle()
+
+    if (!animatic) {
+      return NextResponse.json({ error: 'Animatic not found' }, { status: 404 })
+    }
+    if (animatic.status === 'rendering') {
+      return NextResponse.json(
+        { error: 'Wait for the render to finish before deleting it', code: 'RENDER_IN_PROGRESS' },
+        { status: 409 }
+      )
+    }
+
+    if (animatic.storage_path) {
+      const { error: storageError } = await sbAdmin.storage
+        .from('generated-videos')
+        .remove([animatic.storage_path])
+      if (storageError) {
+        console.error('Error deleting animatic file:', storageError)
+      }
+    }
+
+    const { error } = await sbAdmin
+      .from('storyboard_animatics')
+      .delete()
+      .eq('id', animaticId)
+
+    if (error) {
+      console.error('Error deleting animatic:', error)
+      return NextResponse.json({ error: 'Failed to delete animatic' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Animatic API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { rateLimit, getRateLimitKey, RATE_LIMITS } from '@/lib/rate-limit'
+import { ANIMATIC_FIELDS, parseAnimaticRequest, toAnimatic, dispatchAnimaticRender } from '@/lib/animatic'
+
+export const runtime = 'nodejs'
+
+// Helper to verify storyboard ownership
+async function verifyOwnership(storyboardId: string, whopUserId: string) {
+  const { data } = await sbAdmin
+    .from('storyboards')
+    .select('id')
+    .eq('id', storyboardId)
+    .eq('whop_user_id', whopUserId)
+    .single()
+  return !!data
+}
+
+// GET /api/storyboards/[id]/animatics - List rendered animatics, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { data, error } = await sbAdmin
+      .from('storyboard_animatics')
+      .select(ANIMATIC_FIELDS)
+      .eq('storyboard_id', id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (error) {
+      console.error('Error fetching animatics:', error)
+      return NextResponse.json({ error: 'Failed to fetch animatics' }, { status: 500 })
+    }
+
+    return NextResponse.json({ animatics: (data || []).map(toAnimatic) })
+  } catch (error) {
+    console.error('Animatics API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// POST /api/storyboards/[id]/animatics - Render the storyboard to a video
+// Body: { format?: 'mp4' | 'webm', resolution?: 720 | 1080, titleCards?: boolean, kenBurns?: boolean }
+// Returns the queued animatic right away; poll GET .../animatics/[animaticId] for the file.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const rateLimitKey = getRateLimitKey(request, whop.id, 'animatic')
+    const { success: rateLimitOk } = rateLimit(rateLimitKey, RATE_LIMITS.animatic.limit, RATE_LIMITS.animatic.windowMs)
+    if (!rateLimitOk) {
+      return NextResponse.json(
+        { error: 'Too many renders. Please try again later.', code: 'RATE_LIMITED' },
+        { status: 429, headers: { 'Retry-After': '60' } }
+      )
+    }
+
+    const parsed = parseAnimaticRequest(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error, code: 'INVALID_OPTIONS' }, { status: 400 })
+    }
+
+    const { count: completedCount } = await sbAdmin
+      .from('storyboard_shots')
+      .select('id', { count: 'exact', head: true })
+      .eq('storyboard_id', id)
+      .eq('status', 'completed')
+
+    if (!completedCount) {
+      return NextResponse.json(
+        { error: 'Generate at least one shot before rendering', code: 'NOTHING_TO_RENDER' },
+        { status: 400 }
+      )
+    }
+
+    // One render per storyboard at a time
+    const { data: active } = await sbAdmin
+      .from('storyboard_animatics')
+      .select('id')
+      .eq('storyboard_id', id)
+      .in('status', ['queued', 'rendering'])
+      .limit(1)
+
+    if (active && active.length > 0) {
+      return NextResponse.json(
+        { error: 'This storyboard is already rendering', code: 'RENDER_IN_PROGRESS' },
+        { status: 409 }
+      )
+    }
+
+    const { data: row, error } = await sbAdmin
+      .from('storyboard_animatics')
+      .insert({
+        storyboard_id: id,
+        whop_user_id: whop.id,
+        format: parsed.format,
+        options: parsed.options,
+        shot_count: completedCount,
+      })
+      .select(ANIMATIC_FIELDS)
+      .single()
+
+    if (error || !row) {
+      console.error('Error creating animatic:', error)
+      return NextResponse.json({ error: 'Failed to start the render' }, { status: 500 })
+    }
+
+    await dispatchAnimaticRender(row.id, new URL(request.url).origin)
+
+    return NextResponse.json({ animatic: toAnimatic(row) }, { status: 202 })
+  } catch (error) {
+    console.error('Animatics API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
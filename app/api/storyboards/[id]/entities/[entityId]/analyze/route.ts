@@ -3,10 +3,14 @@ import { GoogleGenerativeAI } from '@google/generative-ai'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
 import { getEffectiveGeminiApiKey } from '@/lib/platform-settings'
+import { ENTITY_IMAGE_FIELDS, describeEntityImage, toEntityImages } from '@/lib/entity-views'
 
 export const runtime = 'nodejs'
 export const maxDuration = 60
 
+// Gemini gets at most this many images of one entity
+const MAX_ANALYZED_IMAGES = 8
+
 // Helper to verify storyboard ownership
 async function verifyOwnership(storyboardId: string, whopUserId: string) {
   const { data } = await sbAdmin
@@ -33,7 +37,7 @@ async function imageUrlToBase64(imageUrl: string): Promise<{ base64: string; mim
 }
 
 // POST /api/storyboards/[id]/entities/[entityId]/analyze
-// Analyze entity image with Gemini vision to get visual context
+// Analyze the entity's image set with Gemini vision to get visual context
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string; entityId: string }> }
@@ -65,7 +69,19 @@ export async function POST(
       return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
     }
 
-    if (!entity.primary_image_url) {
+    // The primary image plus the entity's other views
+    const { data: viewRows } = await sbAdmin
+      .from('storyboard_entity_images')
+      .select(ENTITY_IMAGE_FIELDS)
+      .eq('entity_id', entityId)
+    const views = toEntityImages(viewRows)
+
+    const imageSet = [
+      ...(entity.primary_image_url ? [{ url: entity.primary_image_url, caption: 'the primary image' }] : []),
+      ...views.map(view => ({ url: view.imageUrl, caption: `the ${describeEntityImage(view).toLowerCase()} view` })),
+    ].slice(0, MAX_ANALYZED_IMAGES)
+
+    if (imageSet.length === 0) {
       return NextResponse.json({ error: 'Entity has no image to analyze' }, { status: 400 })
     }
 
@@ -80,8 +96,8 @@ export async function POST(
       }, { status: 500 })
     }
 
-    // Download and convert image to base64
-    const { base64, mimeType } = await imageUrlToBase64(entity.primary_image_url)
+    // Download and convert images to base64
+    const imageData = await Promise.all(imageSet.map(image => imageUrlToBase64(image.url)))
 
     // Initialize Gemini
     const genAI = new GoogleGenerativeAI(effectiveApiKey)
@@ -135,18 +151,28 @@ Be specific enough that this description could be used to maintain visual consis
 Be specific enough that this description could be used as style guidance for generating new images with consistent aesthetics.`,
     }
 
-    const analysisPrompt = typePrompts[entity.entity_type] ||
+    let analysisPrompt = typePrompts[entity.entity_type] ||
       'Describe this image in detail, noting all visual characteristics that would help maintain consistency when generating related images.'
 
+    // Several views: describe the entity once, then what each view adds
+    if (imageSet.length > 1) {
+      const captions = imageSet.map((image, i) => `Image ${i + 1} is ${image.caption}.`).join(' ')
+      analysisPrompt = `These ${imageSet.length} images all show the same ${entity.entity_type}. ${captions}
+
+${analysisPrompt.replace(/this (character|environment\/world|object\/prop) image/i, 'this $1 across all the images').replace(/this image's/i, 'these images\'')}
+
+Describe what stays the same across the images as one consistent description. Then add a short "Views:" section with one line per image noting what it shows that the others don't (angle, expression, lighting, time of day, part of the location).`
+    }
+
     // Call Gemini with vision
     const result = await model.generateContent([
       analysisPrompt,
-      {
+      ...imageData.map(({ base64, mimeType }) => ({
         inlineData: {
           data: base64,
           mimeType,
         }
-      }
+      })),
     ])
 
     const response = await result.response
@@ -180,6 +206,8 @@ Be specific enough that this description could be used as style guidance for gen
         generationId: updatedEntity.generation_id,
         primaryImageUrl: updatedEntity.primary_image_url,
         visionContext: updatedEntity.vision_context,
+        images: views,
+        turnaroundGenerationId: updatedEntity.turnaround_generation_id || undefined,
         sortOrder: updatedEntity.sort_order,
         createdAt: updatedEntity.created_at,
       }
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { ENTITY_IMAGE_FIELDS, isEntityImageView, toEntityImage } from '@/lib/entity-views'
+
+export const runtime = 'nodejs'
+
+// Helper to verify storyboard ownership
+async function verifyOwnership(storyboardId: string, whopUserId: string) {
+  const { data } = await sbAdmin
+    .from('storyboards')
+    .select('id')
+    .eq('id', storyboardId)
+    .eq('whop_user_id', whopUserId)
+    .single()
+  return !!data
+}
+
+// PATCH /api/storyboards/[id]/entities/[entityId]/images/[imageId] - Relabel a view
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; entityId: string; imageId: string }> }
+) {
+  try {
+    const { id, entityId, imageId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const updates: any = {}
+
+    if (body.view !== undefined) {
+      if (!isEntityImageView(body.view)) {
+        return NextResponse.json({ error: `Unknown view: ${body.view}` }, { status: 400 })
+      }
+      updates.view = body.view
+    }
+    if (body.label !== undefined) updates.label = typeof body.label === 'string' && body.label.trim() ? body.label.trim() : null
+    if (body.sortOrder !== undefined) updates.sort_order = body.sortOrder
+
+    const { data: image, error } = await sbAdmin
+      .from('storyboard_entity_images')
+      .update(updates)
+      .eq('id', imageId)
+      .eq('entity_id', entityId)
+      .eq('storyboard_id', id)
+      .select(ENTITY_IMAGE_FIELDS)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating entity image:', error)
+      return NextResponse.json({ error: 'Failed to update image' }, { status: 500 })
+    }
+    if (!image) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ image: toEntityImage(image) })
+  } catch (error) {
+    console.error('Entity image API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/storyboards/[id]/entities/[entityId]/images/[imageId]
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; entityId: string; imageId: string }> }
+) {
+  try {
+    const { id, entityId, imageId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    // The image itself stays in storage - it may be a library generation
+    const { error } = await sbAdmin
+      .from('storyboard_entity_images')
+      .delete()
+      .eq('id', imageId)
+      .eq('entity_id', entityId)
+      .eq('storyboard_id', id)
+
+    if (error) {
+      console.error('Error deleting entity image:', error)
+      return NextResponse.json({ error: 'Failed to delete image' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Entity image API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { ENTITY_IMAGE_FIELDS, isEntityImageView, toEntityImage, toEntityImages } from '@/lib/entity-views'
+
+export const runtime = 'nodejs'
+
+// Helper to verify storyboard ownership
+async function verifyOwnership(storyboardId: string, whopUserId: string) {
+  const { data } = await sbAdmin
+    .from('storyboards')
+    .select('id')
+    .eq('id', storyboardId)
+    .eq('whop_user_id', whopUserId)
+    .single()
+  return !!data
+}
+
+async function entityExists(storyboardId: string, entityId: string) {
+  const { data } = await sbAdmin
+    .from('storyboard_entities')
+    .select('id')
+    .eq('id', entityId)
+    .eq('storyboard_id', storyboardId)
+    .maybeSingle()
+  return !!data
+}
+
+// GET /api/storyboards/[id]/entities/[entityId]/images
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; entityId: string }> }
+) {
+  try {
+    const { id, entityId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { data: images, error } = await sbAdmin
+      .from('storyboard_entity_images')
+      .select(ENTITY_IMAGE_FIELDS)
+      .eq('entity_id', entityId)
+      .eq('storyboard_id', id)
+
+    if (error) {
+      console.error('Error fetching entity images:', error)
+      return NextResponse.json({ error: 'Failed to fetch images' }, { status: 500 })
+    }
+
+    return NextResponse.json({ images: toEntityImages(images) })
+  } catch (error) {
+    console.error('Entity images API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// POST /api/storyboards/[id]/entities/[entityId]/images - Add a view
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; entityId: string }> }
+) {
+  try {
+    const { id, entityId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    if (!(await entityExists(id, entityId))) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const { imageUrl, view = 'other', label, generationId } = await request.json()
+
+    if (!imageUrl || typeof imageUrl !== 'string') {
+      return NextResponse.json({ error: 'imageUrl is required' }, { status: 400 })
+    }
+    if (!isEntityImageView(view)) {
+      return NextResponse.json({ error: `Unknown view: ${view}` }, { status: 400 })
+    }
+
+    // New views go at the end of the set
+    const { count } = await sbAdmin
+      .from('storyboard_entity_images')
+      .select('id', { count: 'exact', head: true })
+      .eq('entity_id', entityId)
+
+    const { data: image, error } = await sbAdmin
+      .from('storyboard_entity_images')
+      .insert({
+        entity_id: entityId,
+        storyboard_id: id,
+        image_url: imageUrl,
+        view,
+        label: typeof label === 'string' && label.trim() ? label.trim() : null,
+        generation_id: generationId || null,
+        sort_order: count || 0,
+      })
+      .select(ENTITY_IMAGE_FIELDS)
+      .single()
+
+    if (error || !image) {
+      console.error('Error adding entity image:', error)
+      return NextResponse.json({ error: 'Failed to add image' }, { status: 500 })
+    }
+
+    return NextResponse.json({ image: toEntityImage(image) }, { status: 201 })
+  } catch (error) {
+    console.error('Entity images API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
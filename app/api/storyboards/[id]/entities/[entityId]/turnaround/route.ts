@@ -0,0 +1,277 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { rateLimit, getRateLimitKey, RATE_LIMITS } from '@/lib/rate-limit'
+import { submitGeneration } from '@/lib/generation-submit'
+import { getGenerationProvider } from '@/lib/providers'
+import { recordPredictionState, TERMINAL_JOB_STATUSES, JobStatus } from '@/lib/generation-jobs'
+import {
+  ENTITY_IMAGE_FIELDS,
+  TURNAROUND_MODEL,
+  buildTurnaroundPrompt,
+  getTurnaroundViews,
+  toEntityImages,
+} from '@/lib/entity-views'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+// Helper to verify storyboard ownership
+async function verifyOwnership(storyboardId: string, whopUserId: string) {
+  const { data } = await sbAdmin
+    .from('storyboards')
+    .select('id')
+    .eq('id', storyboardId)
+    .eq('whop_user_id', whopUserId)
+    .single()
+  return !!data
+}
+
+// POST /api/storyboards/[id]/entities/[entityId]/turnaround
+// Generate front/three-quarter/side/back views from the primary image
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; entityId: string }> }
+) {
+  try {
+    const { id, entityId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { data: entity } = await sbAdmin
+      .from('storyboard_entities')
+      .select('*')
+      .eq('id', entityId)
+      .eq('storyboard_id', id)
+      .single()
+
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+    if (!entity.primary_image_url) {
+      return NextResponse.json({ error: 'Entity has no image to turn around' }, { status: 400 })
+    }
+
+    const views = getTurnaroundViews(entity.entity_type)
+    if (views.length === 0) {
+      return NextResponse.json(
+        { error: 'Turnarounds are only made for characters and objects', code: 'TURNAROUND_UNSUPPORTED' },
+        { status: 400 }
+      )
+    }
+
+    if (entity.turnaround_generation_id) {
+      const { data: running } = await sbAdmin
+        .from('generations')
+        .select('job_status')
+        .eq('id', entity.turnaround_generation_id)
+        .maybeSingle()
+      if (running && !TERMINAL_JOB_STATUSES.includes(running.job_status as JobStatus)) {
+        return NextResponse.json(
+          { error: 'A turnaround is already being generated', code: 'TURNAROUND_IN_PROGRESS' },
+          { status: 409 }
+        )
+      }
+    }
+
+    // === RATE LIMIT CHECK ===
+    const rateLimitKey = getRateLimitKey(request, whop.id, 'generate')
+    const { success: rateLimitOk } = rateLimit(rateLimitKey, RATE_LIMITS.generate.limit, RATE_LIMITS.generate.windowMs)
+    if (!rateLimitOk) {
+      return NextResponse.json(
+        { error: 'Too many generation requests. Please try again later.', code: 'RATE_LIMITED' },
+        { status: 429, headers: { 'Retry-After': '60' } }
+      )
+    }
+
+    const { data: profile } = await sbAdmin
+      .from('user_profiles')
+      .select('id')
+      .eq('whop_user_id', whop.id)
+      .maybeSingle()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found', code: 'PROFILE_NOT_FOUND' }, { status: 404 })
+    }
+
+    // One generation with an output per view, so it's one hold
+    const submitted = await submitGeneration(
+      { whopUserId: whop.id, profileId: profile.id },
+      {
+        model: TURNAROUND_MODEL,
+        prompt: buildTurnaroundPrompt({
+          entityType: entity.entity_type,
+          entityName: entity.entity_name,
+          entityDescription: entity.entity_description || undefined,
+        }, views),
+        params: { aspect_ratio: '3:4' },
+        images: [{ url: entity.primary_image_url, purpose: 'reference' }],
+        sequentialImageGeneration: 'auto',
+        maxImages: views.length,
+      }
+    )
+
+    if (!submitted.success) {
+      return NextResponse.json({
+        error: submitted.error,
+        code: submitted.code,
+        required: submitted.required,
+        available: submitted.available,
+      }, { status: submitted.status })
+    }
+
+    await sbAdmin
+      .from('storyboard_entities')
+      .update({ turnaround_generation_id: submitted.generationId })
+      .eq('id', entityId)
+
+    console.log(`[Turnaround] Started ${submitted.generationId} for entity ${entityId} (${views.join(', ')})`)
+
+    return NextResponse.json({
+      generationId: submitted.generationId,
+      views,
+      costCents: submitted.quote.maxCostCents,
+      newBalance: submitted.newBalance,
+    }, { status: 202 })
+  } catch (error) {
+    console.error('Entity turnaround API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// GET /api/storyboards/[id]/entities/[entityId]/turnaround
+// Poll the running turnaround; its outputs become views once it finishes
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; entityId: string }> }
+) {
+  try {
+    const { id, entityId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { data: entity } = await sbAdmin
+      .from('storyboard_entities')
+      .select('id, entity_type, turnaround_generation_id')
+      .eq('id', entityId)
+      .eq('storyboard_id', id)
+      .single()
+
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+    if (!entity.turnaround_generation_id) {
+      return NextResponse.json({ status: 'idle' })
+    }
+
+    let { data: generation } = await sbAdmin
+      .from('generations')
+      .select('*')
+      .eq('id', entity.turnaround_generation_id)
+      .single()
+
+    // FALLBACK: poll the provider in case the webhook hasn't landed
+    if (
+      generation &&
+      !TERMINAL_JOB_STATUSES.includes(generation.job_status as JobStatus) &&
+      generation.replicate_prediction_id
+    ) {
+      try {
+        const prediction = await getGenerationProvider(generation.provider).getPrediction(generation.replicate_prediction_id)
+        const result = await recordPredictionState(generation.id, prediction, 'turnaround_polling')
+
+        if (TERMINAL_JOB_STATUSES.includes(result.jobStatus)) {
+          const { data: refreshed } = await sbAdmin
+            .from('generations')
+            .select('*')
+            .eq('id', generation.id)
+            .single()
+          if (refreshed) generation = refreshed
+        }
+      } catch (providerError) {
+        console.error('[Turnaround] Provider fallback check failed:', providerError)
+      }
+    }
+
+    const succeeded = generation?.replicate_status === 'succeeded' && generation.output_urls?.length > 0
+    const failed = !generation ||
+      TERMINAL_JOB_STATUSES.includes(generation.job_status as JobStatus) ||
+      generation.replicate_status === 'failed' ||
+      generation.replicate_status === 'canceled'
+
+    if (!succeeded && !failed) {
+      return NextResponse.json({ status: 'generating', generationId: generation!.id })
+    }
+
+    // Whoever clears the pointer files the outputs, so two polls can't both add them
+    const { data: claimed } = await sbAdmin
+      .from('storyboard_entities')
+      .update({ turnaround_generation_id: null })
+      .eq('id', entityId)
+      .eq('turnaround_generation_id', entity.turnaround_generation_id)
+      .select('id')
+
+    if (!succeeded) {
+      return NextResponse.json({
+        status: 'failed',
+        error: generation?.replicate_error || 'Turnaround generation failed',
+      })
+    }
+
+    if (claimed && claimed.length > 0) {
+      const views = getTurnaroundViews(entity.entity_type)
+      const { count } = await sbAdmin
+        .from('storyboard_entity_images')
+        .select('id', { count: 'exact', head: true })
+        .eq('entity_id', entityId)
+
+      const outputUrls: string[] = generation!.output_urls
+      const { error: insertError } = await sbAdmin
+        .from('storyboard_entity_images')
+        .insert(outputUrls.map((url, i) => ({
+          entity_id: entityId,
+          storyboard_id: id,
+          image_url: url,
+          // The model can return more images than asked; extras stay unlabeled
+          view: views[i] || 'other',
+          generation_id: generation!.id,
+          sort_order: (count || 0) + i,
+        })))
+
+      if (insertError) {
+        console.error('[Turnaround] Failed to save views:', insertError)
+        return NextResponse.json({ error: 'Failed to save turnaround' }, { status: 500 })
+      }
+    }
+
+    const { data: images } = await sbAdmin
+      .from('storyboard_entity_images')
+      .select(ENTITY_IMAGE_FIELDS)
+      .eq('entity_id', entityId)
+
+    return NextResponse.json({ status: 'completed', images: toEntityImages(images) })
+  } catch (error) {
+    console.error('Entity turnaround API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { ENTITY_IMAGE_FIELDS, toEntityImages } from '@/lib/entity-views'
 
 export const runtime = 'nodejs'
 
@@ -15,6 +16,8 @@ function transformEntity(entity: any) {
     generationId: entity.generation_id,
     primaryImageUrl: entity.primary_image_url,
     visionContext: entity.vision_context,
+    images: toEntityImages(entity.storyboard_entity_images),
+    turnaroundGenerationId: entity.turnaround_generation_id || undefined,
     sortOrder: entity.sort_order,
     createdAt: entity.created_at,
   }
@@ -50,7 +53,7 @@ export async function GET(
 
     const { data: entities, error } = await sbAdmin
       .from('storyboard_entities')
-      .select('*')
+      .select(`*, storyboard_entity_images ( ${ENTITY_IMAGE_FIELDS} )`)
       .eq('storyboard_id', id)
       .order('sort_order', { ascending: true })
 
@@ -1,85 +1,22 @@
 import { NextResponse } from 'next/server'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
-import { MODEL_SPECS } from '@/lib/orchestrator/model-specs'
-import Replicate from 'replicate'
-import { v4 as uuidv4 } from 'uuid'
+import { getModelSpec } from '@/lib/orchestrator/model-catalog'
+import { ModelSpec } from '@/lib/orchestrator/model-specs'
+import { quoteGeneration } from '@/lib/pricing'
+import { getGenerationProvider } from '@/lib/providers'
+import { recordPredictionState, releaseQueuedJob, TERMINAL_JOB_STATUSES, JobStatus } from '@/lib/generation-jobs'
+import { submitGeneration, ImageWithPurpose } from '@/lib/generation-submit'
+import { modelParamSpecs } from '@/lib/generation-params'
+import { getShotDependencies } from '@/lib/storyboard-schedule'
+import { recordShotTake, selectTakeForGeneration } from '@/lib/shot-takes'
+import { planEntityInjection } from '@/lib/entity-injection'
+import { ENTITY_IMAGE_FIELDS, describeEntityImage, pickEntityView, toEntityImages } from '@/lib/entity-views'
+import { runShotConsistencyCheck } from '@/lib/shot-consistency'
 
 export const runtime = 'nodejs'
 export const maxDuration = 300 // 5 minutes for generation
 
-// Initialize Replicate client for fallback polling
-const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN,
-})
-
-// Determine if a URL or content type is video
-function isVideoContent(url: string, contentType?: string): boolean {
-  const videoExtensions = ['.mp4', '.webm', '.mov', '.avi', '.mkv']
-  const videoMimeTypes = ['video/mp4', 'video/webm', 'video/quicktime']
-  const urlLower = url.toLowerCase()
-  if (videoExtensions.some(ext => urlLower.includes(ext))) return true
-  if (contentType && videoMimeTypes.some(mime => contentType.includes(mime))) return true
-  return false
-}
-
-// Get file extension from content type
-function getExtensionFromContentType(contentType: string, isVideo: boolean): string {
-  if (isVideo) {
-    if (contentType.includes('mp4')) return 'mp4'
-    if (contentType.includes('webm')) return 'webm'
-    return 'mp4'
-  }
-  if (contentType.includes('png')) return 'png'
-  if (contentType.includes('jpeg') || contentType.includes('jpg')) return 'jpg'
-  return 'webp'
-}
-
-// Download media and upload to Supabase storage
-async function saveMediaToStorage(mediaUrl: string, userId?: string): Promise<string> {
-  try {
-    const response = await fetch(mediaUrl)
-    if (!response.ok) return mediaUrl
-
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-    const contentType = response.headers.get('content-type') || 'image/webp'
-    const isVideo = isVideoContent(mediaUrl, contentType)
-    const ext = getExtensionFromContentType(contentType, isVideo)
-    const bucket = isVideo ? 'generated-videos' : 'generated-images'
-
-    const filename = `${uuidv4()}.${ext}`
-    const path = userId ? `${userId}/${filename}` : `anonymous/${filename}`
-
-    const { error } = await sbAdmin.storage
-      .from(bucket)
-      .upload(path, buffer, { contentType, upsert: false })
-
-    if (error) return mediaUrl
-
-    const { data: urlData } = sbAdmin.storage.from(bucket).getPublicUrl(path)
-    return urlData.publicUrl
-  } catch {
-    return mediaUrl
-  }
-}
-
-// Extract URLs from Replicate output
-function extractOutputUrls(output: any): string[] {
-  if (!output) return []
-  if (Array.isArray(output)) {
-    return output.map(item => {
-      if (typeof item === 'string') return item
-      if (item && typeof item.url === 'function') return item.url()
-      if (item && item.href) return item.href
-      return String(item)
-    }).filter(url => url && url.startsWith('http'))
-  }
-  if (typeof output === 'string' && output.startsWith('http')) return [output]
-  if (output && output.url) return [typeof output.url === 'function' ? output.url() : output.url]
-  return []
-}
-
 // Helper to verify storyboard ownership
 async function verifyOwnership(storyboardId: string, whopUserId: string) {
   const { data } = await sbAdmin
@@ -91,16 +28,9 @@ async function verifyOwnership(storyboardId: string, whopUserId: string) {
   return !!data
 }
 
-// Get model's max reference images
-function getModelMaxReferences(modelSlug: string): number {
-  const spec = MODEL_SPECS.find(m => m.id === modelSlug)
-  return spec?.maxReferenceImages || 0
-}
-
-// Check if model supports reference images
-function modelSupportsReferences(modelSlug: string): boolean {
-  const spec = MODEL_SPECS.find(m => m.id === modelSlug)
-  return spec?.capabilities?.supportsReferenceImages || false
+// Check if model takes an end frame
+function modelSupportsLastFrame(spec: ModelSpec | undefined): boolean {
+  return spec?.capabilities?.lastFrame || false
 }
 
 // POST /api/storyboards/[id]/generate/[shotId]
@@ -164,23 +94,91 @@ export async function POST(
           entity_name,
           entity_description,
           primary_image_url,
-          vision_context
+          vision_context,
+          storyboard_entity_images ( ${ENTITY_IMAGE_FIELDS} )
         )
       `)
       .eq('shot_id', shotId)
 
+    // Outputs of shots this one uses - those shots have to be finished
+    const dependencyIds = getShotDependencies({
+      id: shot.id,
+      shotNumber: shot.shot_number,
+      status: shot.status,
+      referenceShotIds: shot.reference_shot_ids || [],
+      lastFrameShotId: shot.last_frame_shot_id || undefined,
+    })
+    const dependencyOutputs: Record<string, string> = {}
+
+    if (dependencyIds.length > 0) {
+      const { data: dependencyShots } = await sbAdmin
+        .from('storyboard_shots')
+        .select('id, shot_number, status, generation_id')
+        .eq('storyboard_id', id)
+        .in('id', dependencyIds)
+
+      const generationIds = (dependencyShots || [])
+        .map(dep => dep.generation_id)
+        .filter(Boolean)
+      const { data: dependencyGenerations } = generationIds.length > 0
+        ? await sbAdmin.from('generations').select('id, output_urls').in('id', generationIds)
+        : { data: [] as { id: string; output_urls: string[] | null }[] }
+
+      for (const dep of dependencyShots || []) {
+        const output = dependencyGenerations?.find(g => g.id === dep.generation_id)?.output_urls?.[0]
+        if (dep.status === 'completed' && output) dependencyOutputs[dep.id] = output
+      }
+
+      const waitingFor = (dependencyShots || []).filter(dep => !dependencyOutputs[dep.id])
+      if (waitingFor.length > 0) {
+        return NextResponse.json({
+          error: `Shot ${waitingFor[0].shot_number} must be generated first`,
+          code: 'DEPENDENCY_PENDING',
+          waitingFor: waitingFor.map(dep => dep.id),
+        }, { status: 409 })
+      }
+    }
+
     // Build the prompt
     let prompt = customPrompt || shot.prompt || shot.ai_suggested_prompt || shot.description
 
-    // Enhance prompt with entity vision contexts if available
+    // End frame from another shot; models without end frames take it as a reference
+    const modelSpec = await getModelSpec(modelSlug)
+    const lastFrameUrl = shot.last_frame_shot_id ? dependencyOutputs[shot.last_frame_shot_id] : undefined
+    const useLastFrame = !!lastFrameUrl && modelSupportsLastFrame(modelSpec)
+
+    // Shots this one is built on come first, then user-selected shot references
+    const shotReferences: string[] = [
+      ...(shot.reference_shot_ids || []).map((refId: string) => dependencyOutputs[refId]),
+      ...userReferenceImages,
+      ...(lastFrameUrl && !useLastFrame ? [lastFrameUrl] : []),
+    ].filter(Boolean)
+
+    // Entity images and descriptions, fitted to what the model can take
     const entities = entityRefs?.map(ref => ref.storyboard_entities).filter(Boolean) || []
-    const entityContexts = entities
-      .filter(e => e.vision_context)
-      .map(e => `[${e.entity_name}]: ${e.vision_context}`)
+    const injection = planEntityInjection(
+      modelSpec,
+      entities.map(e => {
+        // The entity view that suits this shot's angle and wording best
+        const view = pickEntityView(
+          { primaryImageUrl: e.primary_image_url || undefined, images: toEntityImages(e.storyboard_entity_images) },
+          { cameraAngle: shot.camera_angle || undefined, title: shot.title || undefined, description: shot.description, prompt }
+        )
+        return {
+          id: e.id,
+          name: e.entity_name,
+          type: e.entity_type,
+          description: e.entity_description || undefined,
+          visionContext: e.vision_context || undefined,
+          imageUrl: view?.imageUrl,
+          imageLabel: view?.image ? describeEntityImage(view.image).toLowerCase() : undefined,
+        }
+      }),
+      shotReferences
+    )
 
-    if (entityContexts.length > 0 && !customPrompt) {
-      // Prepend entity context to help the model understand referenced elements
-      prompt = `${prompt}\n\n[Entity Visual References:\n${entityContexts.join('\n')}\n]`
+    if (injection.promptBlock && !customPrompt) {
+      prompt = `${prompt}\n\n${injection.promptBlock}`
     }
 
     // Add storyboard style notes if available
@@ -188,36 +186,17 @@ export async function POST(
       prompt = `${prompt}\n\n[Style: ${storyboard.style_notes}]`
     }
 
-    // Collect reference images: user-selected shots first, then entity images
-    const referenceImages: string[] = []
-    const maxRefs = getModelMaxReferences(modelSlug)
-    const supportsRefs = modelSupportsReferences(modelSlug)
-
-    if (supportsRefs && maxRefs > 0) {
-      // Add user-selected shot references first (higher priority)
-      for (const refUrl of userReferenceImages) {
-        if (refUrl && referenceImages.length < maxRefs) {
-          referenceImages.push(refUrl)
-        }
-      }
-
-      // Then add entity images
-      for (const entity of entities) {
-        if (entity.primary_image_url && referenceImages.length < maxRefs) {
-          referenceImages.push(entity.primary_image_url)
-        }
-      }
-    }
+    const referenceImages = injection.referenceImages
 
-    console.log('[Storyboard Generate] Final referenceImages array:', referenceImages)
-    console.log('[Storyboard Generate] supportsRefs:', supportsRefs, 'maxRefs:', maxRefs)
+    console.log('[Storyboard Generate] Entity injection:', injection.strategy, 'entity images:', injection.imageEntityIds.length, 'of', entities.length)
+    console.log('[Storyboard Generate] Final referenceImages array:', referenceImages, 'as', injection.imageInputParam || 'model default')
 
     // ===== PRE-FLIGHT BALANCE CHECK =====
     // Check balance BEFORE starting generation to fail fast
     // Use user_profiles table (same as main chat system)
     const { data: userProfile, error: profileError } = await sbAdmin
       .from('user_profiles')
-      .select('balance_cents, lifetime_access')
+      .select('id, balance_cents, lifetime_access')
       .eq('whop_user_id', whop.id)
       .single()
 
@@ -226,10 +205,10 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to verify balance' }, { status: 500 })
     }
 
-    // Get model cost from database (use cost_per_run_cents, not cost_cents)
+    // Get model pricing from database
     const { data: modelData, error: modelError } = await sbAdmin
       .from('studio_models')
-      .select('cost_per_run_cents, cost_per_second_cents, pricing_type, name')
+      .select('slug, name, replicate_model, pricing_type, cost_per_run_cents, cost_per_second_cents, resolution_multipliers, duration_options, resolution_options, parameter_schema, orchestrator_spec')
       .eq('slug', modelSlug)
       .single()
 
@@ -238,26 +217,41 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid model' }, { status: 400 })
     }
 
-    // Calculate estimated cost (same logic as main chat)
-    const modelSpec = MODEL_SPECS.find(m => m.id === modelSlug)
-    const isVideoModel = modelSpec?.type === 'video' || modelData?.pricing_type === 'per_second'
-    const duration = shot.duration_seconds || 5
+    // Same quote /api/generate will hold against
+    const estimatedCost = quoteGeneration(modelData, { duration: shot.duration_seconds }).maxCostCents
+
+    // A generate-all run may already hold credits for this shot. It's only
+    // used as-is if the shot still wants the model it was quoted for.
+    let heldGenerationId: string | null = null
+    if (shot.held_generation_id) {
+      const { data: held } = await sbAdmin
+        .from('generations')
+        .select('id, model_slug, job_status, billing_status, replicate_prediction_id')
+        .eq('id', shot.held_generation_id)
+        .maybeSingle()
+
+      if (
+        held?.job_status === 'queued' &&
+        held.billing_status === 'held' &&
+        !held.replicate_prediction_id &&
+        held.model_slug === modelSlug
+      ) {
+        heldGenerationId = held.id
+      } else if (held) {
+        await releaseQueuedJob(held.id, 'Shot changed before it was generated', 'storyboard_generate')
+      }
 
-    let estimatedCost = 0
-    if (isVideoModel && modelData?.cost_per_second_cents) {
-      estimatedCost = modelData.cost_per_second_cents * duration
-    } else if (modelData?.cost_per_run_cents) {
-      estimatedCost = modelData.cost_per_run_cents
-    } else {
-      // Fallback cost estimate
-      estimatedCost = isVideoModel ? 50 : 10
+      await sbAdmin
+        .from('storyboard_shots')
+        .update({ held_generation_id: null })
+        .eq('id', shotId)
     }
 
     // Check if user has lifetime access (skip balance check) or sufficient balance
     const hasLifetimeAccess = userProfile?.lifetime_access === true
     const currentBalance = userProfile?.balance_cents || 0
 
-    if (!hasLifetimeAccess && currentBalance < estimatedCost) {
+    if (!heldGenerationId && !hasLifetimeAccess && currentBalance < estimatedCost) {
       return NextResponse.json({
         error: 'Insufficient balance',
         code: 'INSUFFICIENT_BALANCE',
@@ -274,50 +268,102 @@ export async function POST(
         status: 'generating',
         model_slug: modelSlug,
         prompt,
+        consistency: null,
       })
       .eq('id', shotId)
 
-    // Forward auth headers for generation
-    const forwardHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
+    const images: ImageWithPurpose[] = referenceImages.map(url => ({ url, purpose: 'reference' }))
+    if (useLastFrame) images.push({ url: lastFrameUrl!, purpose: 'last_frame' })
+    const imagesToSend = images.length > 0 ? images : undefined
+    console.log('[Storyboard Generate] images to send to /api/generate:', imagesToSend)
+
+    // The storyboard's aspect ratio only goes to models that take one -
+    // /api/generate rejects params a model doesn't accept
+    const takesAspectRatio = modelParamSpecs(modelData).some(param => param.name === 'aspect_ratio')
+    const generationParams = {
+      ...(takesAspectRatio && { aspect_ratio: storyboard?.default_aspect_ratio || '16:9' }),
+      ...customParams,
     }
 
-    const whopToken = request.headers.get('x-whop-user-token')
-    const whopUserId = request.headers.get('x-whop-user-id')
-    const cookie = request.headers.get('cookie')
+    let genResult: any
+    let genStatus: number
 
-    if (whopToken) forwardHeaders['x-whop-user-token'] = whopToken
-    if (whopUserId) forwardHeaders['x-whop-user-id'] = whopUserId
-    if (cookie) forwardHeaders['cookie'] = cookie
+    if (heldGenerationId) {
+      // Submit straight into the held generation - submitGeneration tops the
+      // hold up if these params cost more than generate-all quoted
+      await sbAdmin
+        .from('generations')
+        .update({ prompt, parameters: generationParams })
+        .eq('id', heldGenerationId)
+
+      const submitted = await submitGeneration(
+        { whopUserId: whop.id, profileId: userProfile.id },
+        {
+          model: modelSlug,
+          prompt,
+          params: generationParams,
+          images: imagesToSend,
+          duration: shot.duration_seconds,
+        },
+        { heldGenerationId }
+      )
+      genResult = submitted.success
+        ? { pending: true, generationId: submitted.generationId }
+        : { error: submitted.error, code: submitted.code, required: submitted.required, available: submitted.available }
+      genStatus = submitted.success ? 200 : submitted.status
+    } else {
+      // Forward auth headers for generation
+      const forwardHeaders: Record<string, string> = {
+        'Content-Type': 'application/json',
+      }
 
-    // Call the generate API
-    const generateUrl = new URL('/api/generate', request.url).href
+      const whopToken = request.headers.get('x-whop-user-token')
+      const whopUserId = request.headers.get('x-whop-user-id')
+      const cookie = request.headers.get('cookie')
+
+      if (whopToken) forwardHeaders['x-whop-user-token'] = whopToken
+      if (whopUserId) forwardHeaders['x-whop-user-id'] = whopUserId
+      if (cookie) forwardHeaders['cookie'] = cookie
+
+      // Call the generate API
+      const generateUrl = new URL('/api/generate', request.url).href
+
+      const genResponse = await fetch(generateUrl, {
+        method: 'POST',
+        headers: forwardHeaders,
+        body: JSON.stringify({
+          model: modelSlug,
+          prompt,
+          params: generationParams,
+          // Pass entity images as references
+          images: imagesToSend,
+          // For video generation
+          duration: shot.duration_seconds,
+          // Return immediately for frontend polling
+          noWait: true,
+        }),
+      })
 
-    const imagesToSend = referenceImages.length > 0
-      ? referenceImages.map(url => ({ url, purpose: 'reference' }))
-      : undefined
-    console.log('[Storyboard Generate] images to send to /api/generate:', imagesToSend)
+      genResult = await genResponse.json()
+      genStatus = genResponse.status
+    }
 
-    const genResponse = await fetch(generateUrl, {
-      method: 'POST',
-      headers: forwardHeaders,
-      body: JSON.stringify({
-        model: modelSlug,
+    // Every generation becomes a take, so regenerating never loses earlier ones
+    if (genResult.generationId) {
+      await recordShotTake(shot, genResult.generationId, {
         prompt,
-        params: {
-          aspect_ratio: storyboard?.default_aspect_ratio || '16:9',
-          ...customParams,
-        },
-        // Pass entity images as references
-        images: imagesToSend,
-        // For video generation
-        duration: shot.duration_seconds,
-        // Return immediately for frontend polling
-        noWait: true,
-      }),
-    })
-
-    const genResult = await genResponse.json()
+        modelSlug,
+        entities: (entityRefs || [])
+          .filter(ref => ref.storyboard_entities)
+          .map(ref => ({
+            entityId: ref.entity_id,
+            entityName: ref.storyboard_entities.entity_name,
+            entityType: ref.storyboard_entities.entity_type,
+            role: ref.role || undefined,
+          })),
+        referenceImages: images.map(image => image.url),
+      })
+    }
 
     if (genResult.error) {
       // Update shot status to error
@@ -331,7 +377,7 @@ export async function POST(
         code: genResult.code,
         required: genResult.required,
         available: genResult.available,
-      }, { status: genResponse.status })
+      }, { status: genStatus })
     }
 
     // If pending, store generation ID for polling
@@ -367,6 +413,8 @@ export async function POST(
         .eq('id', shotId)
         .select()
         .single()
+      await selectTakeForGeneration(shotId, genResult.generationId)
+      const consistency = await runShotConsistencyCheck(shotId, genResult.generationId)
 
       // Update storyboard completed_shots count
       const { data: completedCount } = await sbAdmin
@@ -388,6 +436,7 @@ export async function POST(
         shotId,
         cost: genResult.cost,
         newBalance: genResult.newBalance,
+        consistency: consistency.success ? consistency.check : undefined,
         // Return the updated shot with generatedImageUrl
         shot: {
           ...updatedShot,
@@ -447,7 +496,7 @@ export async function GET(
     }
 
     // Check generation status
-    const { data: generation } = await sbAdmin
+    let { data: generation } = await sbAdmin
       .from('generations')
       .select('*')
       .eq('id', shot.generation_id)
@@ -460,29 +509,69 @@ export async function GET(
       })
     }
 
+    // FALLBACK: If the job is still active, poll the provider directly
+    // This handles cases where the webhook hasn't fired (e.g., localhost development)
+    if (
+      !TERMINAL_JOB_STATUSES.includes(generation.job_status as JobStatus) &&
+      generation.replicate_prediction_id
+    ) {
+      try {
+        console.log('[Storyboard] Fallback check for prediction:', generation.replicate_prediction_id)
+        const prediction = await getGenerationProvider(generation.provider).getPrediction(generation.replicate_prediction_id)
+        const result = await recordPredictionState(generation.id, prediction, 'storyboard_polling')
+
+        if (TERMINAL_JOB_STATUSES.includes(result.jobStatus)) {
+          const { data: refreshed } = await sbAdmin
+            .from('generations')
+            .select('*')
+            .eq('id', generation.id)
+            .single()
+          if (refreshed) generation = refreshed
+        }
+      } catch (providerError) {
+        console.error('[Storyboard] Provider fallback check failed:', providerError)
+        // Continue with returning current database state
+      }
+    }
+
     // Check if complete
     if (generation.replicate_status === 'succeeded' && generation.output_urls?.length > 0) {
       // Update shot if not already completed
+      let consistency = shot.consistency || undefined
       if (shot.status !== 'completed') {
-        await sbAdmin
+        // Concurrent polls all see the shot unfinished - only the one whose
+        // update lands selects the take and pays for the consistency check
+        const { data: completed } = await sbAdmin
           .from('storyboard_shots')
           .update({
             status: 'completed',
             generated_at: new Date().toISOString(),
           })
           .eq('id', shotId)
+          .eq('generation_id', generation.id)
+          .neq('status', 'completed')
+          .select('id')
+          .maybeSingle()
 
-        // Update storyboard completed_shots count
-        const { data: completedCount } = await sbAdmin
-          .from('storyboard_shots')
-          .select('id', { count: 'exact' })
-          .eq('storyboard_id', id)
-          .eq('status', 'completed')
+        if (completed) {
+          await selectTakeForGeneration(shotId, generation.id)
 
-        await sbAdmin
-          .from('storyboards')
-          .update({ completed_shots: completedCount?.length || 0 })
-          .eq('id', id)
+          // Check the new output still looks like the shot's entities
+          const checked = await runShotConsistencyCheck(shotId, generation.id)
+          if (checked.success) consistency = checked.check
+
+          // Update storyboard completed_shots count
+          const { data: completedCount } = await sbAdmin
+            .from('storyboard_shots')
+            .select('id', { count: 'exact' })
+            .eq('storyboard_id', id)
+            .eq('status', 'completed')
+
+          await sbAdmin
+            .from('storyboards')
+            .update({ completed_shots: completedCount?.length || 0 })
+            .eq('id', id)
+        }
       }
 
       return NextResponse.json({
@@ -490,6 +579,22 @@ export async function GET(
         imageUrl: generation.output_urls[0],
         outputUrls: generation.output_urls,
         generationId: generation.id,
+        consistency,
+      })
+    }
+
+    // Check if canceled - the shot can simply be generated again
+    if (generation.job_status === 'canceled') {
+      if (shot.status === 'generating') {
+        await sbAdmin
+          .from('storyboard_shots')
+          .update({ status: 'pending' })
+          .eq('id', shotId)
+      }
+
+      return NextResponse.json({
+        status: 'canceled',
+        generationId: generation.id,
       })
     }
 
@@ -506,102 +611,12 @@ export async function GET(
       })
     }
 
-    // FALLBACK: If still starting/processing, poll Replicate directly
-    // This handles cases where the webhook hasn't fired (e.g., localhost development)
-    if (
-      (generation.replicate_status === 'starting' || generation.replicate_status === 'processing') &&
-      generation.replicate_prediction_id
-    ) {
-      try {
-        console.log('[Storyboard] Fallback check for prediction:', generation.replicate_prediction_id)
-        const prediction = await replicate.predictions.get(generation.replicate_prediction_id)
-
-        if (prediction.status === 'succeeded' && prediction.output) {
-          console.log('[Storyboard] Prediction succeeded! Saving to storage...')
-
-          // Extract and save output URLs to permanent storage
-          const outputUrls = extractOutputUrls(prediction.output)
-          if (outputUrls.length > 0) {
-            const permanentUrls: string[] = []
-            for (const tempUrl of outputUrls) {
-              const permanentUrl = await saveMediaToStorage(tempUrl, generation.whop_user_id || undefined)
-              permanentUrls.push(permanentUrl)
-            }
-
-            // Update generation in database
-            await sbAdmin
-              .from('generations')
-              .update({
-                output_urls: permanentUrls,
-                replicate_status: 'succeeded',
-                completed_at: new Date().toISOString(),
-              })
-              .eq('id', generation.id)
-
-            // Update shot status
-            await sbAdmin
-              .from('storyboard_shots')
-              .update({
-                status: 'completed',
-                generated_at: new Date().toISOString(),
-              })
-              .eq('id', shotId)
-
-            // Update storyboard completed_shots count
-            const { data: completedCount } = await sbAdmin
-              .from('storyboard_shots')
-              .select('id', { count: 'exact' })
-              .eq('storyboard_id', id)
-              .eq('status', 'completed')
-
-            await sbAdmin
-              .from('storyboards')
-              .update({ completed_shots: completedCount?.length || 0 })
-              .eq('id', id)
-
-            console.log('[Storyboard] Shot generation complete via fallback polling')
-
-            return NextResponse.json({
-              status: 'completed',
-              imageUrl: permanentUrls[0],
-              outputUrls: permanentUrls,
-              generationId: generation.id,
-            })
-          }
-        } else if (prediction.status === 'failed' || prediction.status === 'canceled') {
-          console.log('[Storyboard] Prediction failed:', prediction.error)
-
-          await sbAdmin
-            .from('generations')
-            .update({
-              replicate_status: prediction.status,
-              replicate_error: prediction.error || 'Unknown error',
-              completed_at: new Date().toISOString(),
-            })
-            .eq('id', generation.id)
-
-          await sbAdmin
-            .from('storyboard_shots')
-            .update({ status: 'error' })
-            .eq('id', shotId)
-
-          return NextResponse.json({
-            status: 'error',
-            error: prediction.error || 'Generation failed',
-          })
-        }
-        // Still processing - continue to return generating status
-      } catch (replicateError) {
-        console.error('[Storyboard] Replicate fallback check failed:', replicateError)
-        // Continue with returning current database state
-      }
-    }
-
     // Still processing
     return NextResponse.json({
       status: 'generating',
       generationId: generation.id,
       replicateStatus: generation.replicate_status,
+      jobStatus: generation.job_status,
     })
 
   } catch (error) {
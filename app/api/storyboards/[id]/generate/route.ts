@@ -0,0 +1,287 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { rateLimit, getRateLimitKey, RATE_LIMITS } from '@/lib/rate-limit'
+import { quoteGeneration } from '@/lib/pricing'
+import { reserveGenerationHolds } from '@/lib/credit-ledger'
+import { releaseQueuedJob } from '@/lib/generation-jobs'
+import { planShotRun, ScheduledShot, GENERATABLE_SHOT_STATUSES } from '@/lib/storyboard-schedule'
+
+export const runtime = 'nodejs'
+
+const MAX_SHOTS_PER_RUN = 50
+
+// How long a held shot may wait for its turn before the sweeper releases it
+const HELD_SHOT_TTL_MS = 60 * 60 * 1000
+
+// Helper to verify storyboard ownership
+async function verifyOwnership(storyboardId: string, whopUserId: string) {
+  const { data } = await sbAdmin
+    .from('storyboards')
+    .select('id')
+    .eq('id', storyboardId)
+    .eq('whop_user_id', whopUserId)
+    .single()
+  return !!data
+}
+
+function toScheduledShot(shot: any): ScheduledShot {
+  return {
+    id: shot.id,
+    shotNumber: shot.shot_number,
+    status: shot.status,
+    referenceShotIds: shot.reference_shot_ids || [],
+    lastFrameShotId: shot.last_frame_shot_id || undefined,
+  }
+}
+
+// POST /api/storyboards/[id]/generate - Generate every pending shot
+// Body: { shotIds?: string[], quoteOnly?: boolean }
+// Quotes each shot, then holds the total in one go: every shot gets a queued
+// generation carrying its hold, which POST /generate/[shotId] submits. The
+// client starts shots in `order`, each once its `dependencies` have finished.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    const { data: shots, error: shotsError } = await sbAdmin
+      .from('storyboard_shots')
+      .select('id, shot_number, status, model_slug, duration_seconds, prompt, ai_suggested_prompt, description, reference_shot_ids, last_frame_shot_id, held_generation_id')
+      .eq('storyboard_id', id)
+
+    if (shotsError || !shots) {
+      console.error('Error fetching shots:', shotsError)
+      return NextResponse.json({ error: 'Failed to fetch shots' }, { status: 500 })
+    }
+
+    const requested: string[] | null = Array.isArray(body.shotIds) ? body.shotIds : null
+    const runShots = shots.filter(shot =>
+      GENERATABLE_SHOT_STATUSES.includes(shot.status) && (!requested || requested.includes(shot.id))
+    )
+
+    if (runShots.length === 0) {
+      return NextResponse.json({ error: 'No pending shots to generate', code: 'NOTHING_TO_GENERATE' }, { status: 400 })
+    }
+    if (runShots.length > MAX_SHOTS_PER_RUN) {
+      return NextResponse.json(
+        { error: `Generate at most ${MAX_SHOTS_PER_RUN} shots at once`, code: 'INVALID_SCHEDULE' },
+        { status: 400 }
+      )
+    }
+
+    // === SCHEDULE ===
+    const plan = planShotRun(shots.map(toScheduledShot), runShots.map(shot => shot.id))
+    const errors = [
+      ...runShots
+        .filter(shot => !shot.model_slug)
+        .map(shot => `Shot ${shot.shot_number} has no model selected`),
+      ...plan.errors,
+    ]
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors[0], code: 'INVALID_SCHEDULE', details: errors }, { status: 400 })
+    }
+
+    // === QUOTE ===
+    const slugs = Array.from(new Set(runShots.map(shot => shot.model_slug as string)))
+    const { data: models, error: modelsError } = await sbAdmin
+      .from('studio_models')
+      .select('id, slug, name, category, pricing_type, cost_per_run_cents, cost_per_second_cents, resolution_multipliers, duration_options, resolution_options, parameter_schema')
+      .in('slug', slugs)
+      .eq('is_active', true)
+
+    if (modelsError) {
+      console.error('Failed to fetch models:', modelsError)
+      return NextResponse.json({ error: 'Failed to fetch models' }, { status: 500 })
+    }
+
+    const missingModels = slugs.filter(slug => !models?.some(m => m.slug === slug))
+    if (missingModels.length > 0) {
+      return NextResponse.json(
+        { error: `Model not found: ${missingModels.join(', ')}`, code: 'MODEL_NOT_FOUND' },
+        { status: 400 }
+      )
+    }
+
+    const quotedShots = runShots.map(shot => {
+      const model = models!.find(m => m.slug === shot.model_slug)!
+      const quote = quoteGeneration(model, { duration: shot.duration_seconds })
+      return { shot, model, costCents: quote.unitCostCents, heldCents: quote.maxCostCents }
+    })
+    const quote = {
+      shots: quotedShots.map(({ shot, model, heldCents }) => ({
+        shotId: shot.id,
+        shotNumber: shot.shot_number,
+        modelSlug: model.slug,
+        modelName: model.name,
+        costCents: heldCents,
+      })),
+      totalCents: quotedShots.reduce((sum, quoted) => sum + quoted.heldCents, 0),
+    }
+
+    if (body.quoteOnly) {
+      return NextResponse.json({ quote, order: plan.order, dependencies: plan.dependencies })
+    }
+
+    // === RATE LIMIT CHECK ===
+    const rateLimitKey = getRateLimitKey(request, whop.id, 'batch')
+    const { success: rateLimitOk } = rateLimit(rateLimitKey, RATE_LIMITS.batch.limit, RATE_LIMITS.batch.windowMs)
+    if (!rateLimitOk) {
+      return NextResponse.json(
+        { error: 'Too many batch requests. Please try again later.', code: 'RATE_LIMITED' },
+        { status: 429, headers: { 'Retry-After': '60' } }
+      )
+    }
+
+    const { data: profile } = await sbAdmin
+      .from('user_profiles')
+      .select('id')
+      .eq('whop_user_id', whop.id)
+      .maybeSingle()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found', code: 'PROFILE_NOT_FOUND' }, { status: 404 })
+    }
+
+    // A previous run that never got to these shots still holds credits for them
+    for (const shot of runShots) {
+      if (shot.held_generation_id) {
+        await releaseQueuedJob(shot.held_generation_id, 'Replaced by a new generate-all run', 'storyboard_generate_all')
+      }
+    }
+
+    // === GENERATION ROWS ===
+    // Queued until the shot's turn; the sweeper only looks at them once the TTL is up
+    const nextCheckAt = new Date(Date.now() + HELD_SHOT_TTL_MS).toISOString()
+    const holds: { shotId: string; generationId: string; amountCents: number }[] = []
+
+    for (const { shot, model, costCents, heldCents } of quotedShots) {
+      const { data: genRecord, error: genError } = await sbAdmin
+        .from('generations')
+        .insert({
+          whop_user_id: whop.id,
+          user_id: profile.id,
+          model_id: model.id,
+          model_slug: model.slug,
+          model_category: model.category,
+          prompt: shot.prompt || shot.ai_suggested_prompt || shot.description,
+          parameters: {},
+          cost_cents: costCents,
+          replicate_status: 'starting',
+          next_check_at: nextCheckAt,
+        })
+        .select('id')
+        .single()
+
+      if (genError || !genRecord) {
+        console.error('[Storyboard Generate All] Failed to create generation record:', genError)
+        if (holds.length > 0) {
+          await sbAdmin.from('generations').delete().in('id', holds.map(hold => hold.generationId))
+        }
+        return NextResponse.json({ error: 'Failed to create generations' }, { status: 500 })
+      }
+      holds.push({ shotId: shot.id, generationId: genRecord.id, amountCents: heldCents })
+    }
+
+    // === CREDIT HOLD ===
+    const hold = await reserveGenerationHolds(profile.id, holds, {
+      task: 'Storyboard Generation',
+      metadata: { storyboard_id: id, shot_count: holds.length, quoted_cents: quote.totalCents },
+    })
+
+    if (!hold.success) {
+      // Nothing was held - drop the records so they don't show up in the library
+      await sbAdmin.from('generations').delete().in('id', holds.map(h => h.generationId))
+
+      if (hold.error === 'INSUFFICIENT_BALANCE') {
+        return NextResponse.json({
+          error: 'Insufficient balance',
+          code: 'INSUFFICIENT_BALANCE',
+          required: hold.required ?? quote.totalCents,
+          available: hold.available ?? 0,
+        }, { status: 402 })
+      }
+      return NextResponse.json({ error: 'Failed to reserve credits', code: 'RESERVATION_FAILED' }, { status: 500 })
+    }
+
+    for (const { shotId, generationId } of holds) {
+      await sbAdmin
+        .from('storyboard_shots')
+        .update({ held_generation_id: generationId })
+        .eq('id', shotId)
+    }
+
+    console.log(`[Storyboard Generate All] Held ${hold.heldCents}¢ for ${holds.length} shots of storyboard ${id}`)
+
+    return NextResponse.json({
+      quote,
+      order: plan.order,
+      dependencies: plan.dependencies,
+      newBalance: hold.newBalance,
+    })
+  } catch (error) {
+    console.error('Storyboard generate all API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/storyboards/[id]/generate - Stop a generate-all run
+// Releases the holds of shots that haven't been submitted yet. Shots already
+// generating carry on.
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { data: heldShots } = await sbAdmin
+      .from('storyboard_shots')
+      .select('id, held_generation_id')
+      .eq('storyboard_id', id)
+      .not('held_generation_id', 'is', null)
+
+    let releasedCents = 0
+    for (const shot of heldShots || []) {
+      const result = await releaseQueuedJob(shot.held_generation_id, 'Generate-all stopped', 'storyboard_generate_all')
+      releasedCents += result.refundedCents || 0
+      await sbAdmin
+        .from('storyboard_shots')
+        .update({ held_generation_id: null })
+        .eq('id', shot.id)
+    }
+
+    return NextResponse.json({ success: true, releasedCents })
+  } catch (error) {
+    console.error('Storyboard generate all API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { sbAdmin } from '@/lib/supabaseAdmin'
 import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { ENTITY_IMAGE_FIELDS, toEntityImages } from '@/lib/entity-views'
 
 export const runtime = 'nodejs'
 
@@ -45,6 +46,10 @@ function transformShot(shot: any) {
     prompt: shot.prompt,
     modelSlug: shot.model_slug,
     status: shot.status,
+    referenceShotIds: shot.reference_shot_ids || [],
+    lastFrameShotId: shot.last_frame_shot_id || undefined,
+    selectedTakeId: shot.selected_take_id || undefined,
+    consistency: shot.consistency || undefined,
     aiSuggestedPrompt: shot.ai_suggested_prompt,
     aiNotes: shot.ai_notes,
     createdAt: shot.created_at,
@@ -71,6 +76,8 @@ function transformEntity(entity: any) {
     generationId: entity.generation_id,
     primaryImageUrl: entity.primary_image_url,
     visionContext: entity.vision_context,
+    images: toEntityImages(entity.storyboard_entity_images),
+    turnaroundGenerationId: entity.turnaround_generation_id || undefined,
     sortOrder: entity.sort_order,
     createdAt: entity.created_at,
   }
@@ -132,7 +139,7 @@ export async function GET(
     // Fetch entities
     const { data: entities, error: entitiesError } = await sbAdmin
       .from('storyboard_entities')
-      .select('*')
+      .select(`*, storyboard_entity_images ( ${ENTITY_IMAGE_FIELDS} )`)
       .eq('storyboard_id', id)
       .order('sort_order', { ascending: true })
 
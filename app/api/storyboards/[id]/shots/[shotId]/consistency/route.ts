@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { runShotConsistencyCheck } from '@/lib/shot-consistency'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+// Helper to verify storyboard ownership
+async function verifyOwnership(storyboardId: string, whopUserId: string) {
+  const { data } = await sbAdmin
+    .from('storyboards')
+    .select('id')
+    .eq('id', storyboardId)
+    .eq('whop_user_id', whopUserId)
+    .single()
+  return !!data
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  NOTHING_TO_CHECK: 400,
+  NOT_AN_IMAGE: 400,
+  NO_API_KEY: 500,
+  CHECK_FAILED: 502,
+}
+
+// POST /api/storyboards/[id]/shots/[shotId]/consistency
+// Re-check the shot's current output against its entities
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; shotId: string }> }
+) {
+  try {
+    const { id, shotId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { data: shot } = await sbAdmin
+      .from('storyboard_shots')
+      .select('id, status, generation_id')
+      .eq('id', shotId)
+      .eq('storyboard_id', id)
+      .single()
+
+    if (!shot) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 })
+    }
+    if (shot.status !== 'completed' || !shot.generation_id) {
+      return NextResponse.json(
+        { error: 'Generate the shot before checking it', code: 'SHOT_NOT_GENERATED' },
+        { status: 400 }
+      )
+    }
+
+    const result = await runShotConsistencyCheck(shotId, shot.generation_id)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: ERROR_STATUS[result.code] || 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, consistency: result.check })
+  } catch (error) {
+    console.error('Shot consistency API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
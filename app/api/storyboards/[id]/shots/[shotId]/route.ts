@@ -20,6 +20,10 @@ function transformShot(shot: any) {
     prompt: shot.prompt,
     modelSlug: shot.model_slug,
     status: shot.status,
+    referenceShotIds: shot.reference_shot_ids || [],
+    lastFrameShotId: shot.last_frame_shot_id || undefined,
+    selectedTakeId: shot.selected_take_id || undefined,
+    consistency: shot.consistency || undefined,
     aiSuggestedPrompt: shot.ai_suggested_prompt,
     aiNotes: shot.ai_notes,
     createdAt: shot.created_at,
@@ -113,6 +117,33 @@ export async function PATCH(
     if (body.aiNotes !== undefined) updates.ai_notes = body.aiNotes
     if (body.generationId !== undefined) updates.generation_id = body.generationId
     if (body.generatedAt !== undefined) updates.generated_at = body.generatedAt
+    if (Array.isArray(body.referenceShotIds)) {
+      updates.reference_shot_ids = body.referenceShotIds.filter((ref: unknown) => typeof ref === 'string' && ref !== shotId)
+    }
+    if (body.lastFrameShotId !== undefined) {
+      updates.last_frame_shot_id = body.lastFrameShotId && body.lastFrameShotId !== shotId ? body.lastFrameShotId : null
+    }
+
+    // Shots can only depend on shots in the same storyboard
+    const dependencyIds = [
+      ...(updates.reference_shot_ids || []),
+      ...(updates.last_frame_shot_id ? [updates.last_frame_shot_id] : []),
+    ]
+    if (dependencyIds.length > 0) {
+      const { data: siblings } = await sbAdmin
+        .from('storyboard_shots')
+        .select('id')
+        .eq('storyboard_id', id)
+        .in('id', dependencyIds)
+      const siblingIds = new Set((siblings || []).map(s => s.id))
+
+      if (updates.reference_shot_ids) {
+        updates.reference_shot_ids = updates.reference_shot_ids.filter((ref: string) => siblingIds.has(ref))
+      }
+      if (updates.last_frame_shot_id && !siblingIds.has(updates.last_frame_shot_id)) {
+        updates.last_frame_shot_id = null
+      }
+    }
 
     const { data: shot, error } = await sbAdmin
       .from('storyboard_shots')
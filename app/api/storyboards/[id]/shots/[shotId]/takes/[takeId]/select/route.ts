@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { SHOT_TAKE_FIELDS, toShotTake } from '@/lib/shot-takes'
+
+export const runtime = 'nodejs'
+
+// Helper to verify storyboard ownership
+async function verifyOwnership(storyboardId: string, whopUserId: string) {
+  const { data } = await sbAdmin
+    .from('storyboards')
+    .select('id')
+    .eq('id', storyboardId)
+    .eq('whop_user_id', whopUserId)
+    .single()
+  return !!data
+}
+
+// POST /api/storyboards/[id]/shots/[shotId]/takes/[takeId]/select
+// Put a finished take back on the board. Its output already exists, so
+// nothing is generated or charged.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; shotId: string; takeId: string }> }
+) {
+  try {
+    const { id, shotId, takeId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { data: shot } = await sbAdmin
+      .from('storyboard_shots')
+      .select('id, status')
+      .eq('id', shotId)
+      .eq('storyboard_id', id)
+      .single()
+
+    if (!shot) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 })
+    }
+    if (shot.status === 'generating') {
+      return NextResponse.json(
+        { error: 'Wait for the current generation to finish', code: 'SHOT_GENERATING' },
+        { status: 409 }
+      )
+    }
+
+    const { data: row } = await sbAdmin
+      .from('storyboard_shot_takes')
+      .select(SHOT_TAKE_FIELDS)
+      .eq('id', takeId)
+      .eq('shot_id', shotId)
+      .maybeSingle()
+
+    if (!row) {
+      return NextResponse.json({ error: 'Take not found' }, { status: 404 })
+    }
+
+    const take = toShotTake(row)
+    if (take.status !== 'completed' || !take.generationId) {
+      return NextResponse.json(
+        { error: 'Only finished takes can be selected', code: 'TAKE_NOT_READY' },
+        { status: 400 }
+      )
+    }
+
+    // Only the pointers move - the shot's prompt and model stay as edited
+    const { error } = await sbAdmin
+      .from('storyboard_shots')
+      .update({
+        selected_take_id: take.id,
+        generation_id: take.generationId,
+        status: 'completed',
+        // The take's own check, if it had one, comes with it
+        consistency: take.consistency || null,
+      })
+      .eq('id', shotId)
+
+    if (error) {
+      console.error('Error selecting take:', error)
+      return NextResponse.json({ error: 'Failed to select take' }, { status: 500 })
+    }
+
+    // The shot may have been in error before; recount completed shots
+    const { count } = await sbAdmin
+      .from('storyboard_shots')
+      .select('id', { count: 'exact', head: true })
+      .eq('storyboard_id', id)
+      .eq('status', 'completed')
+
+    await sbAdmin
+      .from('storyboards')
+      .update({ completed_shots: count || 0 })
+      .eq('id', id)
+
+    return NextResponse.json({ success: true, take })
+  } catch (error) {
+    console.error('Shot take select API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { SHOT_TAKE_FIELDS, toShotTake } from '@/lib/shot-takes'
+
+export const runtime = 'nodejs'
+
+// Helper to verify storyboard ownership
+async function verifyOwnership(storyboardId: string, whopUserId: string) {
+  const { data } = await sbAdmin
+    .from('storyboards')
+    .select('id')
+    .eq('id', storyboardId)
+    .eq('whop_user_id', whopUserId)
+    .single()
+  return !!data
+}
+
+// GET /api/storyboards/[id]/shots/[shotId]/takes
+// Every generation of this shot, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; shotId: string }> }
+) {
+  try {
+    const { id, shotId } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    if (!(await verifyOwnership(id, whop.id))) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { data: shot } = await sbAdmin
+      .from('storyboard_shots')
+      .select('id, selected_take_id')
+      .eq('id', shotId)
+      .eq('storyboard_id', id)
+      .single()
+
+    if (!shot) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 })
+    }
+
+    const { data: takes, error } = await sbAdmin
+      .from('storyboard_shot_takes')
+      .select(SHOT_TAKE_FIELDS)
+      .eq('shot_id', shotId)
+      .order('take_number', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching takes:', error)
+      return NextResponse.json({ error: 'Failed to fetch takes' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      takes: (takes || []).map(toShotTake),
+      selectedTakeId: shot.selected_take_id || null,
+    })
+  } catch (error) {
+    console.error('Shot takes API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
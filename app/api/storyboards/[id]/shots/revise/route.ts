@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { applyShotRevision, validateRevisionChanges } from '@/lib/storyboard-revision-apply'
+
+export const runtime = 'nodejs'
+
+// A revision big enough to be a rewrite belongs in a new storyboard
+const MAX_REVISION_CHANGES = 100
+
+const STATUS_BY_CODE = {
+  SHOT_NOT_FOUND: 409,
+  INVALID_CHANGE: 400,
+  REVISION_FAILED: 500,
+}
+
+// POST /api/storyboards/[id]/shots/revise - Apply accepted revision changes
+// as one operation; the response's `undo` reverts it when posted back here
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    // Verify ownership
+    const { data: storyboard } = await sbAdmin
+      .from('storyboards')
+      .select('id')
+      .eq('id', id)
+      .eq('whop_user_id', whop.id)
+      .single()
+
+    if (!storyboard) {
+      return NextResponse.json({ error: 'Storyboard not found' }, { status: 404 })
+    }
+
+    const { changes } = await request.json()
+
+    if (!Array.isArray(changes) || changes.length === 0) {
+      return NextResponse.json({ error: 'changes must be a non-empty array', code: 'INVALID_CHANGE' }, { status: 400 })
+    }
+    if (changes.length > MAX_REVISION_CHANGES) {
+      return NextResponse.json(
+        { error: `A revision can have at most ${MAX_REVISION_CHANGES} changes`, code: 'INVALID_CHANGE' },
+        { status: 400 }
+      )
+    }
+
+    // Every change is checked before any runs
+    const validated = validateRevisionChanges(changes)
+    if (!validated.success) {
+      return NextResponse.json({ error: validated.error, code: 'INVALID_CHANGE' }, { status: 400 })
+    }
+
+    const result = await applyShotRevision(id, whop.id, validated.changes)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error, code: result.code }, { status: STATUS_BY_CODE[result.code] })
+    }
+
+    return NextResponse.json(result.applied)
+  } catch (error) {
+    console.error('Revise shots API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
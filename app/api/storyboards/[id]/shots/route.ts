@@ -20,6 +20,10 @@ function transformShot(shot: any) {
     prompt: shot.prompt,
     modelSlug: shot.model_slug,
     status: shot.status,
+    referenceShotIds: shot.reference_shot_ids || [],
+    lastFrameShotId: shot.last_frame_shot_id || undefined,
+    selectedTakeId: shot.selected_take_id || undefined,
+    consistency: shot.consistency || undefined,
     aiSuggestedPrompt: shot.ai_suggested_prompt,
     aiNotes: shot.ai_notes,
     createdAt: shot.created_at,
@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { getGenerationProvider } from '@/lib/providers'
+import { recordPredictionState, TERMINAL_JOB_STATUSES, JobStatus } from '@/lib/generation-jobs'
+import {
+  advanceWorkflowRun,
+  pauseWorkflowRun,
+  resumeWorkflowRun,
+  cancelWorkflowRun,
+  toRunProgress,
+  WorkflowRunRow,
+  WORKFLOW_RUN_FIELDS,
+} from '@/lib/workflow-runner'
+
+export const runtime = 'nodejs'
+
+async function getOwnedRun(id: string, whopUserId: string): Promise<WorkflowRunRow | null> {
+  const { data } = await sbAdmin
+    .from('workflow_runs')
+    .select(WORKFLOW_RUN_FIELDS)
+    .eq('id', id)
+    .eq('whop_user_id', whopUserId)
+    .maybeSingle()
+  return data as WorkflowRunRow | null
+}
+
+// GET /api/workflow-runs/[id] - Get run progress (for polling)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    let run = await getOwnedRun(id, whop.id)
+    if (!run) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404 })
+    }
+
+    // FALLBACK: check running steps' predictions directly in case their webhooks
+    // never arrived - finishing a generation advances the run
+    const runningGenerationIds = Object.values(run.node_states || {})
+      .filter(state => state.status === 'running' && state.generationId)
+      .map(state => state.generationId as string)
+
+    if (run.status === 'running' && runningGenerationIds.length > 0) {
+      const { data: generations } = await sbAdmin
+        .from('generations')
+        .select('id, job_status, provider, replicate_prediction_id')
+        .in('id', runningGenerationIds)
+
+      for (const generation of generations || []) {
+        if (TERMINAL_JOB_STATUSES.includes(generation.job_status as JobStatus) || !generation.replicate_prediction_id) continue
+        try {
+          const prediction = await getGenerationProvider(generation.provider).getPrediction(generation.replicate_prediction_id)
+          await recordPredictionState(generation.id, prediction, 'workflow_polling')
+        } catch (providerError) {
+          console.error('[Workflow Runs API] Provider fallback check failed:', providerError)
+        }
+      }
+      run = await advanceWorkflowRun(run.id, 'workflow_polling') || run
+    }
+
+    return NextResponse.json({ run: toRunProgress(run) })
+  } catch (error) {
+    console.error('Workflow run API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// PATCH /api/workflow-runs/[id] - Pause, resume or cancel a run
+// Body: { action: 'pause' | 'resume' | 'cancel' }
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const existing = await getOwnedRun(id, whop.id)
+    if (!existing) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404 })
+    }
+
+    const { action } = await request.json()
+
+    let run: WorkflowRunRow | null
+    if (action === 'pause') {
+      run = await pauseWorkflowRun(id)
+    } else if (action === 'resume') {
+      run = await resumeWorkflowRun(id)
+    } else if (action === 'cancel') {
+      run = await cancelWorkflowRun(id)
+    } else {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    if (!run) {
+      return NextResponse.json({
+        error: `Run is ${existing.status} and can't be ${action === 'pause' ? 'paused' : action === 'resume' ? 'resumed' : 'canceled'}`,
+        code: 'INVALID_RUN_STATE',
+        run: toRunProgress(existing),
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({ run: toRunProgress(run) })
+  } catch (error) {
+    console.error('Workflow run API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
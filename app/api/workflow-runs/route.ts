@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { toRunProgress, WorkflowRunRow, WORKFLOW_RUN_FIELDS, ACTIVE_RUN_STATUSES } from '@/lib/workflow-runner'
+
+export const runtime = 'nodejs'
+
+// GET /api/workflow-runs - List user's workflow runs
+// ?active=true returns only running/paused runs (used to pick a run back up after a reload)
+// ?workflowId= limits the list to one workflow
+export async function GET(request: NextRequest) {
+  try {
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const searchParams = request.nextUrl.searchParams
+    let query = sbAdmin
+      .from('workflow_runs')
+      .select(WORKFLOW_RUN_FIELDS)
+      .eq('whop_user_id', whop.id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (searchParams.get('active') === 'true') {
+      query = query.in('status', ACTIVE_RUN_STATUSES)
+    }
+    const workflowId = searchParams.get('workflowId')
+    if (workflowId) {
+      query = query.eq('workflow_id', workflowId)
+    }
+
+    const { data: runs, error } = await query
+
+    if (error) {
+      console.error('Error fetching workflow runs:', error)
+      return NextResponse.json({ error: 'Failed to fetch workflow runs' }, { status: 500 })
+    }
+
+    return NextResponse.json({ runs: ((runs || []) as WorkflowRunRow[]).map(toRunProgress) })
+  } catch (error) {
+    console.error('Workflow runs API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,148 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { toWorkflow } from '@/lib/workflow-runner'
+import { validateWorkflowGraph } from '@/lib/workflow-graph'
+import { normalizeSteps, normalizeInputs, validateWorkflowTemplates } from '@/lib/workflow-template'
+
+export const runtime = 'nodejs'
+
+// GET /api/workflows/[id] - Get a single workflow
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const { data: workflow, error } = await sbAdmin
+      .from('workflows')
+      .select('*')
+      .eq('id', id)
+      .eq('whop_user_id', whop.id)
+      .single()
+
+    if (error || !workflow) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ workflow: toWorkflow(workflow) })
+  } catch (error) {
+    console.error('Workflow API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// PATCH /api/workflows/[id] - Update a workflow
+// Runs already in progress keep the steps they started with
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const body = await request.json()
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+
+    if (body.name !== undefined) updates.name = body.name
+    if (body.description !== undefined) updates.description = body.description
+    if (body.steps !== undefined) {
+      updates.steps = normalizeSteps(body.steps)
+      const graphErrors = validateWorkflowGraph(updates.steps)
+      if (graphErrors.length > 0) {
+        return NextResponse.json({ error: graphErrors[0], code: 'INVALID_WORKFLOW', details: graphErrors }, { status: 400 })
+      }
+    }
+    if (body.inputs !== undefined) updates.inputs = normalizeInputs(body.inputs)
+    if (body.isPublic !== undefined) updates.is_public = !!body.isPublic
+
+    // Templates are checked against inputs and steps together, so load whichever half isn't changing
+    if (updates.steps || updates.inputs) {
+      let steps = updates.steps
+      let inputs = updates.inputs
+      if (!steps || !inputs) {
+        const { data: current } = await sbAdmin
+          .from('workflows')
+          .select('steps, inputs')
+          .eq('id', id)
+          .eq('whop_user_id', whop.id)
+          .maybeSingle()
+        steps = steps || current?.steps || []
+        inputs = inputs || normalizeInputs(current?.inputs)
+      }
+      const templateErrors = validateWorkflowTemplates(steps, inputs)
+      if (templateErrors.length > 0) {
+        return NextResponse.json({ error: templateErrors[0], code: 'INVALID_WORKFLOW', details: templateErrors }, { status: 400 })
+      }
+    }
+
+    const { data: workflow, error } = await sbAdmin
+      .from('workflows')
+      .update(updates)
+      .eq('id', id)
+      .eq('whop_user_id', whop.id)
+      .select()
+      .single()
+
+    if (error || !workflow) {
+      console.error('Error updating workflow:', error)
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ workflow: toWorkflow(workflow) })
+  } catch (error) {
+    console.error('Workflow API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/workflows/[id] - Delete a workflow and its run history
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const { error } = await sbAdmin
+      .from('workflows')
+      .delete()
+      .eq('id', id)
+      .eq('whop_user_id', whop.id)
+
+    if (error) {
+      console.error('Error deleting workflow:', error)
+      return NextResponse.json({ error: 'Failed to delete workflow' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Workflow API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
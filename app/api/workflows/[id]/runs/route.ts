@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { startWorkflowRun, toRunProgress } from '@/lib/workflow-runner'
+import { validateWorkflowGraph } from '@/lib/workflow-graph'
+import { normalizeInputs, validateInputValues, validateWorkflowTemplates } from '@/lib/workflow-template'
+
+export const runtime = 'nodejs'
+
+// POST /api/workflows/[id]/runs - Start a run on the server
+// Body: { input } for workflows without declared inputs, { inputs: { name: value } } otherwise.
+// Inputs and templates are checked before anything is charged.
+// Returns as soon as the first step is submitted; poll /api/workflow-runs/[id] for progress
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const body = await request.json()
+
+    const { data: workflow, error } = await sbAdmin
+      .from('workflows')
+      .select('id, whop_user_id, name, steps, inputs')
+      .eq('id', id)
+      .eq('whop_user_id', whop.id)
+      .single()
+
+    if (error || !workflow) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 })
+    }
+
+    if (!workflow.steps?.length) {
+      return NextResponse.json({ error: 'Workflow has no steps', code: 'EMPTY_WORKFLOW' }, { status: 400 })
+    }
+
+    const graphErrors = validateWorkflowGraph(workflow.steps)
+    if (graphErrors.length > 0) {
+      return NextResponse.json({ error: graphErrors[0], code: 'INVALID_WORKFLOW', details: graphErrors }, { status: 400 })
+    }
+
+    const declaredInputs = normalizeInputs(workflow.inputs)
+    const templateErrors = validateWorkflowTemplates(workflow.steps, declaredInputs)
+    if (templateErrors.length > 0) {
+      return NextResponse.json({ error: templateErrors[0], code: 'INVALID_WORKFLOW', details: templateErrors }, { status: 400 })
+    }
+
+    const { values, errors: inputErrors } = validateInputValues(
+      declaredInputs,
+      body.inputs && typeof body.inputs === 'object' ? body.inputs : {}
+    )
+    if (Object.keys(inputErrors).length > 0) {
+      return NextResponse.json(
+        { error: Object.values(inputErrors)[0], code: 'INVALID_INPUTS', details: inputErrors },
+        { status: 400 }
+      )
+    }
+
+    // {input} is the free-text input, or the first text input a workflow declares
+    const firstText = declaredInputs.find(input => input.type === 'text' && values[input.name] !== undefined)
+    const input = typeof body.input === 'string' && body.input.trim()
+      ? body.input
+      : firstText ? String(values[firstText.name]) : ''
+
+    if (declaredInputs.length === 0 && !input.trim()) {
+      return NextResponse.json({ error: 'Input is required' }, { status: 400 })
+    }
+
+    const run = await startWorkflowRun({ ...workflow, inputs: declaredInputs }, input, values)
+    if (!run) {
+      return NextResponse.json({ error: 'Failed to start workflow run' }, { status: 500 })
+    }
+
+    return NextResponse.json({ run: toRunProgress(run) })
+  } catch (error) {
+    console.error('Workflow runs API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { verifyWhopTokenAndGetProfile, getWhopAuthFromHeaders, hasWhopAuth } from '@/lib/whop'
+import { toWorkflow } from '@/lib/workflow-runner'
+import { validateWorkflowGraph } from '@/lib/workflow-graph'
+import { normalizeSteps, normalizeInputs, validateWorkflowTemplates } from '@/lib/workflow-template'
+
+export const runtime = 'nodejs'
+
+// GET /api/workflows - List user's workflows
+export async function GET() {
+  try {
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const { data: workflows, error } = await sbAdmin
+      .from('workflows')
+      .select('*')
+      .eq('whop_user_id', whop.id)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching workflows:', error)
+      return NextResponse.json({ error: 'Failed to fetch workflows' }, { status: 500 })
+    }
+
+    return NextResponse.json({ workflows: (workflows || []).map(toWorkflow) })
+  } catch (error) {
+    console.error('Workflows API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
+
+// POST /api/workflows - Create a new workflow
+export async function POST(request: Request) {
+  try {
+    const isAuthenticated = await hasWhopAuth()
+    if (!isAuthenticated) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, hintedId } = await getWhopAuthFromHeaders()
+    const whop = await verifyWhopTokenAndGetProfile(token, hintedId)
+
+    const body = await request.json()
+    const { name, description = '', steps, inputs, isPublic = false } = body
+
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+
+    const normalizedSteps = normalizeSteps(steps)
+    const graphErrors = validateWorkflowGraph(normalizedSteps)
+    if (graphErrors.length > 0) {
+      return NextResponse.json({ error: graphErrors[0], code: 'INVALID_WORKFLOW', details: graphErrors }, { status: 400 })
+    }
+
+    const normalizedInputs = normalizeInputs(inputs)
+    const templateErrors = validateWorkflowTemplates(normalizedSteps, normalizedInputs)
+    if (templateErrors.length > 0) {
+      return NextResponse.json({ error: templateErrors[0], code: 'INVALID_WORKFLOW', details: templateErrors }, { status: 400 })
+    }
+
+    const { data: workflow, error } = await sbAdmin
+      .from('workflows')
+      .insert({
+        whop_user_id: whop.id,
+        name,
+        description,
+        steps: normalizedSteps,
+        inputs: normalizedInputs,
+        is_public: !!isPublic,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating workflow:', error)
+      return NextResponse.json({ error: 'Failed to create workflow' }, { status: 500 })
+    }
+
+    return NextResponse.json({ workflow: toWorkflow(workflow) })
+  } catch (error) {
+    console.error('Workflows API error:', error)
+    return NextResponse.json({ error: 'Server error' }, { status: 500 })
+  }
+}
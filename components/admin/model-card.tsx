@@ -325,8 +325,8 @@ export function ModelCard({ model, onToggle, onDelete, togglingId }: ModelCardPr
             <div className="text-sm">
               <p className="text-orange-400 font-medium">No orchestrator spec found</p>
               <p className="text-white/50 mt-0.5">
-                This model exists in the database but has no matching entry in model-specs.ts.
-                Add a spec to enable AI-assisted model selection.
+                The orchestrator won&apos;t offer this model until it has one.
+                Add a spec on the model&apos;s edit page to enable AI-assisted model selection.
               </p>
             </div>
           </div>
@@ -0,0 +1,230 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { adminFetch } from '@/lib/admin-fetch'
+import {
+  applySchemaChanges,
+  diffImportedSchema,
+  ModelSchemaFields,
+  SchemaChange,
+} from '@/lib/model-schema-import/diff'
+import type { ImportedModelSchema } from '@/lib/model-schema-import/openapi'
+
+interface SchemaImportCardProps {
+  replicateModel: string
+  category: 'image' | 'video'
+  // The form's Parameter Schema and Orchestrator Spec JSON, as typed
+  parameterSchema: string
+  orchestratorSpec: string
+  onApply: (fields: { parameterSchema: string; orchestratorSpec: string }) => void
+}
+
+const KIND_STYLES: Record<SchemaChange['kind'], string> = {
+  added: 'bg-green-500/20 text-green-400',
+  changed: 'bg-yellow-500/20 text-yellow-400',
+  removed: 'bg-red-500/20 text-red-400',
+}
+
+const FIELD_LABELS: Record<SchemaChange['field'], string> = {
+  parameter_schema: 'Parameter schema',
+  params: 'Spec param',
+  imageInputParam: 'Image input',
+  maxReferenceImages: 'Max references',
+  capabilities: 'Capability',
+}
+
+function preview(value: unknown): string {
+  if (value === undefined) return '-'
+  const text = JSON.stringify(value)
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text
+}
+
+function readFields(parameterSchema: string, orchestratorSpec: string): ModelSchemaFields | string {
+  try {
+    return {
+      parameterSchema: parameterSchema.trim() ? JSON.parse(parameterSchema) : null,
+      orchestratorSpec: orchestratorSpec.trim() ? JSON.parse(orchestratorSpec) : null,
+    }
+  } catch {
+    return 'Fix the Parameter Schema and Orchestrator Spec JSON before importing'
+  }
+}
+
+/**
+ * Imports a model's input schema from Replicate and lists how it differs
+ * from the form. Accepted changes are written into the form's JSON fields -
+ * nothing is saved until the admin saves the model.
+ */
+export function SchemaImportCard({
+  replicateModel,
+  category,
+  parameterSchema,
+  orchestratorSpec,
+  onApply,
+}: SchemaImportCardProps) {
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [imported, setImported] = useState<{ schema: ImportedModelSchema; source: string } | null>(null)
+  const [changes, setChanges] = useState<SchemaChange[]>([])
+  const [accepted, setAccepted] = useState<Set<string>>(new Set())
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleImport = async () => {
+    const current = readFields(parameterSchema, orchestratorSpec)
+    if (typeof current === 'string') {
+      setError(current)
+      return
+    }
+
+    setImporting(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const res = await adminFetch('/api/admin/models/import-schema', {
+        method: 'POST',
+        body: JSON.stringify({ replicate_model: replicateModel, category }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to import schema')
+      }
+
+      const diff = diffImportedSchema(current, data.schema)
+      setImported({ schema: data.schema, source: data.source })
+      setChanges(diff)
+      setAccepted(new Set(diff.map(change => change.id)))
+      if (diff.length === 0) setNotice('Already up to date with Replicate')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import schema')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const toggleChange = (id: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleApply = () => {
+    if (!imported) return
+    // Re-read the form - it may have been edited since the import
+    const current = readFields(parameterSchema, orchestratorSpec)
+    if (typeof current === 'string') {
+      setError(current)
+      return
+    }
+
+    const applied = applySchemaChanges(
+      current,
+      imported.schema,
+      changes.filter(change => accepted.has(change.id)),
+      category === 'video' ? 'video' : 'text-to-image'
+    )
+    onApply({
+      parameterSchema: applied.parameterSchema && Object.keys(applied.parameterSchema).length > 0
+        ? JSON.stringify(applied.parameterSchema, null, 2)
+        : '',
+      orchestratorSpec: applied.orchestratorSpec ? JSON.stringify(applied.orchestratorSpec, null, 2) : '',
+    })
+
+    setNotice(!current.orchestratorSpec && applied.orchestratorSpec
+      ? `Applied ${accepted.size} changes - write the spec's whenToUse, then save`
+      : `Applied ${accepted.size} changes - save to keep them`)
+    setImported(null)
+    setChanges([])
+  }
+
+  return (
+    <div className="bg-zinc-950 border border-white/[0.06] rounded-xl p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-sm font-medium text-white mb-1">Import from Replicate</h2>
+          <p className="text-xs text-white/40">
+            Read the model&apos;s input schema and review what it would change in the parameter schema and orchestrator spec.
+          </p>
+        </div>
+        <button
+          onClick={handleImport}
+          disabled={importing || !replicateModel.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-white/[0.06] border border-white/[0.08] text-white rounded-lg text-sm hover:bg-white/[0.1] transition-colors disabled:opacity-50 shrink-0"
+        >
+          {importing ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+          Import
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <p className="text-xs text-white/60">{notice}</p>
+      )}
+
+      {imported && changes.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-xs text-white/40">
+            {changes.length} differences from {imported.schema.replicateModel}
+            {imported.schema.versionId && ` (version ${imported.schema.versionId.slice(0, 12)})`}
+            {imported.source === 'fixture' && ' - offline fixture'}
+          </p>
+
+          <div className="divide-y divide-white/[0.06] border border-white/[0.06] rounded-lg">
+            {changes.map(change => (
+              <label key={change.id} className="flex items-start gap-3 p-3 cursor-pointer hover:bg-white/[0.02]">
+                <input
+                  type="checkbox"
+                  checked={accepted.has(change.id)}
+                  onChange={() => toggleChange(change.id)}
+                  className="mt-0.5"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={cn('px-1.5 py-0.5 rounded text-[10px] font-medium', KIND_STYLES[change.kind])}>
+                      {change.kind}
+                    </span>
+                    <span className="text-xs text-white/50">{FIELD_LABELS[change.field]}</span>
+                    <span className="text-sm text-white font-mono">{change.key}</span>
+                  </div>
+                  {change.kind !== 'added' && (
+                    <p className="text-xs text-white/40 font-mono break-all">- {preview(change.before)}</p>
+                  )}
+                  {change.kind !== 'removed' && (
+                    <p className="text-xs text-white/70 font-mono break-all">+ {preview(change.after)}</p>
+                  )}
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setImported(null); setChanges([]) }}
+              className="px-4 py-2 text-sm text-white/60 hover:text-white transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={accepted.size === 0}
+              className="px-4 py-2 bg-skinny-yellow text-black rounded-lg font-medium text-sm hover:bg-skinny-yellow/90 transition-colors disabled:opacity-50"
+            >
+              Apply {accepted.size} of {changes.length}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,12 +4,12 @@ import { memo, useMemo, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { cn } from '@/lib/utils'
 import { User, Bot, Copy, Check, Loader2, Image as ImageIcon, AlertCircle, Download, ExternalLink, Bookmark, Video, RefreshCw, MessageSquarePlus, Pencil, Sparkles, Play, Save, ChevronDown, ChevronUp, ChevronRight, Lightbulb, X, Plus } from 'lucide-react'
-import { ChatMessage as ChatMessageType, ChatAttachment, GenerationResult } from '@/lib/context/chat-context'
+import { ChatMessage as ChatMessageType, ChatAttachment, GenerationGroup, GenerationResult, useChat } from '@/lib/context/chat-context'
 import { useState, useCallback } from 'react'
 import Image from 'next/image'
 import ReactMarkdown from 'react-markdown'
 import { useGeneration, Generation } from '@/lib/context/generation-context'
-import { useApp } from '@/lib/context/app-context'
+import { useApp, CostEstimate } from '@/lib/context/app-context'
 import { useSkills } from '@/lib/context/skills-context'
 import { useSavedPrompts } from '@/lib/context/saved-prompts-context'
 import { Skill } from '@/lib/types'
@@ -286,14 +286,39 @@ function DirectorsNotesDisplay({ notes }: { notes: DirectorsNotes }) {
   )
 }
 
-// Inline Generation Card for chat
-function GenerationInline({ generation }: { generation: GenerationResult }) {
+// Cancel button for generations still running on the server
+function CancelGenerationButton({ messageId, itemIndex }: { messageId: string; itemIndex?: number }) {
+  const { cancelGeneration } = useChat()
+  const [isCanceling, setIsCanceling] = useState(false)
+
+  const handleCancel = useCallback(async () => {
+    setIsCanceling(true)
+    await cancelGeneration(messageId, itemIndex)
+    setIsCanceling(false)
+  }, [cancelGeneration, messageId, itemIndex])
+
+  return (
+    <button
+      onClick={handleCancel}
+      disabled={isCanceling}
+      className="ml-auto flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] text-white/50 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+      title="Cancel generation and refund credits"
+    >
+      {isCanceling ? <Loader2 size={12} className="animate-spin" /> : <X size={12} />}
+      Cancel
+    </button>
+  )
+}
+
+// Inline Generation Card for chat - itemIndex is set for cards inside a generation group
+function GenerationInline({ generation, messageId, itemIndex }: { generation: GenerationResult; messageId: string; itemIndex?: number }) {
   const { status, model, result, error, params } = generation
   const [isDownloading, setIsDownloading] = useState(false)
   const [isSaved, setIsSaved] = useState(false)
   const [recoveredGeneration, setRecoveredGeneration] = useState<Generation | null>(null)
   const { addGeneration, generations, refreshGenerations } = useGeneration()
   const { showToast } = useApp()
+  const canCancel = !!generation.generationId
 
   // Recovery polling: when stuck in generating or pending state, poll the library
   // to find the completed generation and display it
@@ -416,6 +441,7 @@ function GenerationInline({ generation }: { generation: GenerationResult }) {
         <div className="flex items-center gap-2 text-skinny-yellow">
           <Loader2 size={16} className="animate-spin" />
           <span className="text-sm font-medium">Generating with {model}...</span>
+          {canCancel && <CancelGenerationButton messageId={messageId} itemIndex={itemIndex} />}
         </div>
         {/* Indeterminate progress bar - pulses to show activity without misleading duration */}
         <div className="mt-3 h-1.5 bg-white/[0.05] rounded-full overflow-hidden">
@@ -436,6 +462,18 @@ function GenerationInline({ generation }: { generation: GenerationResult }) {
     )
   }
 
+  if (effectiveStatus === 'canceled') {
+    return (
+      <div className="mt-3 p-4 rounded-xl backdrop-blur-sm bg-white/[0.02] border border-white/[0.05]">
+        <div className="flex items-center gap-2 text-white/50">
+          <X size={16} />
+          <span className="text-sm font-medium">Generation canceled</span>
+        </div>
+        <p className="mt-2 text-xs text-white/30">Credits held for this generation were refunded.</p>
+      </div>
+    )
+  }
+
   if (effectiveStatus === 'error') {
     const isBalanceError = generation.code === 'INSUFFICIENT_BALANCE'
     const required = generation.required || 0
@@ -475,6 +513,7 @@ function GenerationInline({ generation }: { generation: GenerationResult }) {
           <div className="flex items-center gap-2 text-skinny-yellow">
             <Loader2 size={16} className="animate-spin" />
             <span className="text-sm font-medium">Processing with {model}...</span>
+            {canCancel && !recoveredGeneration && <CancelGenerationButton messageId={messageId} itemIndex={itemIndex} />}
           </div>
           <p className="mt-2 text-xs text-white/50">
             {effectiveResult.message || 'Generation is still processing. Check your Library in a moment.'}
@@ -821,6 +860,151 @@ function AttachmentPreviews({ attachments }: { attachments: ChatAttachment[] })
   )
 }
 
+// Params worth showing next to each generation in a group confirmation
+const GROUP_SUMMARY_PARAMS = ['aspect_ratio', 'resolution', 'duration']
+
+// Several generations from one turn - one combined quote to confirm, then a grid
+// of their cards once they're running
+function GenerationGroupInline({ group, messageId }: { group: GenerationGroup; messageId: string }) {
+  const { runGenerationGroup, dismissGenerationGroup } = useChat()
+  const { userBalance, hasLifetimeAccess } = useApp()
+  const runnable = group.items.filter(item => !item.generation).length
+  const affordable = hasLifetimeAccess || userBalance >= group.totalCents
+  const hasSequential = group.items.some(item => item.request.sequentialImageGeneration === 'auto')
+
+  if (group.status === 'dismissed') {
+    return (
+      <div className="mt-3 p-4 rounded-xl backdrop-blur-sm bg-white/[0.02] border border-white/[0.05]">
+        <div className="flex items-center gap-2 text-white/50">
+          <X size={16} />
+          <span className="text-sm font-medium">{group.items.length} generations canceled</span>
+        </div>
+        <p className="mt-2 text-xs text-white/30">Nothing was charged.</p>
+      </div>
+    )
+  }
+
+  if (group.status === 'running') {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-3">
+        {group.items.map((item, i) => item.generation && (
+          <GenerationInline key={i} generation={item.generation} messageId={messageId} itemIndex={i} />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-3 p-4 rounded-xl backdrop-blur-sm bg-white/[0.02] border border-white/[0.05] space-y-3">
+      <div className="flex items-center gap-2 text-skinny-yellow">
+        <Sparkles size={16} />
+        <span className="text-sm font-medium">{group.items.length} generations ready</span>
+      </div>
+
+      <div className="space-y-1.5">
+        {group.items.map((item, i) => {
+          const { request } = item
+          const summary = GROUP_SUMMARY_PARAMS
+            .map(key => request.params[key] ?? (request as unknown as Record<string, unknown>)[key])
+            .filter(value => value !== undefined && value !== '')
+          if (request.sequentialImageGeneration === 'auto') summary.push(`up to ${request.maxImages || 1} images`)
+
+          return (
+            <div key={i} className="flex items-start gap-3 p-2 rounded-lg bg-white/[0.03] border border-white/[0.06]">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="text-white/80 font-medium">{item.modelName || request.model}</span>
+                  {summary.length > 0 && <span className="text-white/40 truncate">{summary.join(' · ')}</span>}
+                </div>
+                <p className="mt-0.5 text-[11px] text-white/50 line-clamp-2">{request.prompt}</p>
+                {item.generation?.error && (
+                  <p className="mt-1 flex items-center gap-1 text-[11px] text-red-400/80">
+                    <AlertCircle size={11} className="flex-shrink-0" />
+                    {item.generation.error}
+                  </p>
+                )}
+              </div>
+              <span className={cn('text-xs font-mono', item.generation ? 'text-white/30 line-through' : 'text-white/70')}>
+                ${(item.costCents / 100).toFixed(2)}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between text-xs pt-2 border-t border-white/[0.06]">
+        <span className="text-white/70 font-medium">{hasSequential ? 'Up to' : 'Total'}</span>
+        <span className={cn('font-mono font-bold', affordable ? 'text-skinny-yellow' : 'text-red-400')}>
+          ${(group.totalCents / 100).toFixed(2)}
+        </span>
+      </div>
+      {!affordable && (
+        <p className="text-[11px] text-red-400/80">
+          You have ${(userBalance / 100).toFixed(2)} available - some of these may fail for insufficient credits.
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => runGenerationGroup(messageId)}
+          disabled={runnable === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-skinny-yellow text-black text-xs font-medium hover:bg-skinny-green transition-colors disabled:opacity-50"
+        >
+          <Play size={12} />
+          Generate all ({runnable})
+        </button>
+        <button
+          onClick={() => dismissGenerationGroup(messageId)}
+          className="px-3 py-1.5 rounded-lg text-xs text-white/50 hover:text-white hover:bg-white/[0.05] transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Itemized price for the selected generation model, shown under cost confirmations
+// Uses the same quote /api/generate holds and charges against
+function CostQuoteBreakdown() {
+  const { selectedModel, estimateCost } = useApp()
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null)
+  const isGenerationModel = selectedModel.category === 'image' || selectedModel.category === 'video'
+
+  useEffect(() => {
+    if (!isGenerationModel) return
+    let cancelled = false
+    estimateCost({ model: selectedModel.id }).then(result => {
+      if (!cancelled) setEstimate(result)
+    })
+    return () => { cancelled = true }
+  }, [selectedModel.id, isGenerationModel, estimateCost])
+
+  if (!isGenerationModel || !estimate?.lineItems?.length) return null
+
+  return (
+    <div className="p-2 rounded-lg bg-white/[0.03] border border-white/[0.06] space-y-1">
+      {estimate.lineItems.map((item, i) => (
+        <div key={i} className="flex items-center justify-between text-[11px]">
+          <span className="text-white/50">{item.label}</span>
+          <span className="text-white/70 font-mono">
+            {item.detail}
+            {item.subtotalCents !== undefined && (
+              <span className="text-white/40"> = ${(item.subtotalCents / 100).toFixed(2)}</span>
+            )}
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-xs pt-1 border-t border-white/[0.06]">
+        <span className="text-white/70 font-medium">{estimate.maxCostCents > estimate.costCents ? 'Up to' : 'Total'}</span>
+        <span className={cn('font-mono font-bold', estimate.affordable ? 'text-skinny-yellow' : 'text-red-400')}>
+          ${(estimate.maxCostCents / 100).toFixed(2)}
+        </span>
+      </div>
+    </div>
+  )
+}
+
 export const ChatMessage = memo(function ChatMessage({ message, onQuickGenerate, onEditPrompt, showQuickActions, pendingReferenceImages }: ChatMessageProps) {
   const [copied, setCopied] = useState(false)
   const [promptSaved, setPromptSaved] = useState(false)
@@ -850,7 +1034,7 @@ export const ChatMessage = memo(function ChatMessage({ message, onQuickGenerate,
   // Detect if this is a confirmation/cost estimate message
   // Look for patterns like "Estimated cost:" or "Ready to create" or cost estimates
   const isConfirmationMessage = useMemo(() => {
-    if (!isAssistant || !message.content || message.generation || message.isStreaming) return false
+    if (!isAssistant || !message.content || message.generation || message.generationGroup || message.isStreaming) return false
     const content = message.content.toLowerCase()
     // Check for cost estimate patterns
     return (
@@ -859,7 +1043,7 @@ export const ChatMessage = memo(function ChatMessage({ message, onQuickGenerate,
       content.includes('ready to generate') ||
       (content.includes('$0.') && (content.includes('does this') || content.includes('look good') || content.includes('shall i')))
     )
-  }, [isAssistant, message.content, message.generation, message.isStreaming])
+  }, [isAssistant, message.content, message.generation, message.generationGroup, message.isStreaming])
 
   // Get skills for highlighting
   const { state: skillsState } = useSkills()
@@ -1024,7 +1208,8 @@ export const ChatMessage = memo(function ChatMessage({ message, onQuickGenerate,
           )}
 
           {/* Generation inline */}
-          {message.generation && <GenerationInline generation={message.generation} />}
+          {message.generation && <GenerationInline generation={message.generation} messageId={message.id} />}
+          {message.generationGroup && <GenerationGroupInline group={message.generationGroup} messageId={message.id} />}
 
           {/* Director's Notes - appears after generations */}
           {message.directorsNotes && <DirectorsNotesDisplay notes={message.directorsNotes} />}
@@ -1077,6 +1262,8 @@ export const ChatMessage = memo(function ChatMessage({ message, onQuickGenerate,
             animate={{ opacity: 1, y: 0 }}
             className="mt-3 space-y-2"
           >
+            <CostQuoteBreakdown />
+
             {/* Interactive reference images - can add/remove before generating */}
             <div className="flex items-center gap-2 p-2 rounded-lg bg-white/[0.03] border border-white/[0.06]">
               <ImageIcon size={14} className="text-skinny-yellow shrink-0" />
@@ -0,0 +1,287 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { motion } from 'framer-motion'
+import { Grid3x3, Clock, Loader2, AlertCircle, ChevronDown } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatCents } from '@/lib/pricing'
+import { GenerationBatch, BatchCell } from '@/lib/types'
+
+interface BatchesViewProps {
+  searchQuery: string
+}
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'timed_out', 'canceled']
+const POLL_INTERVAL_MS = 5000
+
+function getAuthHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (typeof window !== 'undefined') {
+    const devToken = localStorage.getItem('whop-dev-token')
+    const devUserId = localStorage.getItem('whop-dev-user-id')
+    if (devToken) headers['x-whop-user-token'] = devToken
+    if (devUserId) headers['x-whop-user-id'] = devUserId
+  }
+  return headers
+}
+
+const isVideoUrl = (url: string) => /\.(mp4|webm|mov)(\?|$)/i.test(url)
+
+// Short label for a parameter set, e.g. "duration 8 · resolution 1080p"
+function describeParamSet(params: Record<string, any>) {
+  const entries = Object.entries(params)
+  if (entries.length === 0) return 'Default settings'
+  return entries.map(([key, value]) => `${key} ${String(value)}`).join(' · ')
+}
+
+function CellPreview({ cell }: { cell: BatchCell | undefined }) {
+  if (!cell) {
+    return <div className="aspect-square rounded-lg bg-white/[0.02]" />
+  }
+
+  const url = cell.outputUrls[0]
+  if (cell.status === 'completed' && url) {
+    return (
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="group relative block aspect-square rounded-lg overflow-hidden bg-zinc-900"
+      >
+        {isVideoUrl(url) ? (
+          <video src={url} muted loop playsInline className="w-full h-full object-cover" />
+        ) : (
+          <img src={url} alt="" className="w-full h-full object-cover" />
+        )}
+        {cell.outputUrls.length > 1 && (
+          <span className="absolute top-1.5 right-1.5 text-[10px] px-1.5 py-0.5 rounded bg-black/70 text-white">
+            +{cell.outputUrls.length - 1}
+          </span>
+        )}
+        <span className="absolute bottom-1.5 left-1.5 text-[10px] px-1.5 py-0.5 rounded bg-black/70 text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity">
+          {formatCents(cell.costCents)}
+        </span>
+      </a>
+    )
+  }
+
+  if (TERMINAL_STATUSES.includes(cell.status)) {
+    return (
+      <div
+        className="aspect-square rounded-lg border border-red-500/20 bg-red-500/5 flex flex-col items-center justify-center gap-1 p-2 text-center"
+        title={cell.error}
+      >
+        <AlertCircle size={16} className="text-red-400" />
+        <span className="text-[10px] text-red-300 capitalize">{cell.status.replace('_', ' ')}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="aspect-square rounded-lg border border-white/[0.06] bg-white/[0.02] flex flex-col items-center justify-center gap-1">
+      <Loader2 size={16} className="text-skinny-yellow animate-spin" />
+      <span className="text-[10px] text-zinc-500 capitalize">{cell.status}</span>
+    </div>
+  )
+}
+
+// Comparison grid: one column per model, one row per prompt x parameter set
+function BatchGrid({ batch }: { batch: GenerationBatch }) {
+  const { models, prompts, paramSets } = batch.matrix
+  const cellsByKey = useMemo(
+    () => Object.fromEntries(batch.cells.map(cell => [cell.key, cell])),
+    [batch.cells]
+  )
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-separate border-spacing-2">
+        <thead>
+          <tr>
+            <th className="w-56" />
+            {models.map(model => (
+              <th key={model} className="min-w-[140px] text-left text-xs font-medium text-zinc-400 truncate">
+                {model}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {prompts.flatMap((prompt, promptIndex) =>
+            paramSets.map((params, paramSetIndex) => (
+              <tr key={`${promptIndex}:${paramSetIndex}`}>
+                <td className="align-top">
+                  <p className="text-xs text-zinc-300 line-clamp-3" title={prompt}>{prompt}</p>
+                  {paramSets.length > 1 && (
+                    <p className="text-[10px] text-zinc-500 mt-1">{describeParamSet(params)}</p>
+                  )}
+                </td>
+                {models.map(model => (
+                  <td key={model} className="align-top">
+                    <CellPreview cell={cellsByKey[`${model}:${promptIndex}:${paramSetIndex}`]} />
+                  </td>
+                ))}
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function BatchesView({ searchQuery }: BatchesViewProps) {
+  const [batches, setBatches] = useState<GenerationBatch[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/batches', { headers: getAuthHeaders() })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load batches')
+      }
+      setBatches(data.batches || [])
+      setError(null)
+    } catch (err) {
+      console.error('[Batches] Failed to load:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load batches')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBatches()
+  }, [fetchBatches])
+
+  // Keep polling while any cell is still generating
+  const hasRunningCells = batches.some(batch =>
+    batch.cells.some(cell => !TERMINAL_STATUSES.includes(cell.status))
+  )
+  useEffect(() => {
+    if (!hasRunningCells) return
+    const interval = setInterval(fetchBatches, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [hasRunningCells, fetchBatches])
+
+  // Newest batch starts open
+  useEffect(() => {
+    if (expandedId === null && batches.length > 0) setExpandedId(batches[0].id)
+  }, [batches, expandedId])
+
+  const filteredBatches = searchQuery
+    ? batches.filter(batch => {
+        const query = searchQuery.toLowerCase()
+        return batch.name?.toLowerCase().includes(query) ||
+          batch.matrix.prompts.some(p => p.toLowerCase().includes(query)) ||
+          batch.matrix.models.some(m => m.toLowerCase().includes(query))
+      })
+    : batches
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr)
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="w-8 h-8 border-2 border-skinny-yellow border-t-transparent rounded-full animate-spin mb-4" />
+        <p className="text-zinc-500 text-sm">Loading batches...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-center">
+        <p className="text-zinc-400 mb-4">{error}</p>
+        <button
+          onClick={fetchBatches}
+          className="px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-white text-sm transition-colors"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  }
+
+  if (filteredBatches.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-center px-4">
+        <div className="w-20 h-20 rounded-2xl bg-zinc-900 shadow-lg flex items-center justify-center mb-6">
+          <Grid3x3 size={32} className="text-zinc-600" />
+        </div>
+        <h3 className="text-xl font-semibold text-white mb-2">
+          {searchQuery ? 'No matching batches' : 'No batches yet'}
+        </h3>
+        <p className="text-zinc-500 max-w-md">
+          {searchQuery
+            ? 'Try a different search term'
+            : 'Run one prompt matrix across several models and settings, then compare the results side by side here.'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {filteredBatches.map(batch => {
+        const isExpanded = expandedId === batch.id
+        const done = batch.cells.filter(cell => TERMINAL_STATUSES.includes(cell.status)).length
+
+        return (
+          <motion.div
+            key={batch.id}
+            layout
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="rounded-xl border bg-white/[0.02] border-white/[0.06]"
+          >
+            <button
+              onClick={() => setExpandedId(isExpanded ? null : batch.id)}
+              className="w-full flex items-center justify-between gap-3 p-4 text-left"
+            >
+              <div className="min-w-0">
+                <h3 className="text-sm font-medium text-white truncate">
+                  {batch.name || batch.matrix.prompts[0]}
+                </h3>
+                <div className="flex items-center gap-2 mt-1 text-[10px] text-zinc-500">
+                  <span className="flex items-center gap-1">
+                    <Clock size={10} />
+                    {formatDate(batch.createdAt)}
+                  </span>
+                  <span>
+                    {batch.matrix.models.length} models × {batch.matrix.prompts.length} prompts × {batch.matrix.paramSets.length} settings
+                  </span>
+                  <span>Quoted {formatCents(batch.quotedCents)}</span>
+                  <span className={cn(done < batch.totalCells && 'text-skinny-yellow')}>
+                    {done}/{batch.totalCells} done
+                  </span>
+                </div>
+              </div>
+              <ChevronDown
+                size={16}
+                className={cn('flex-shrink-0 text-zinc-500 transition-transform', isExpanded && 'rotate-180')}
+              />
+            </button>
+
+            {isExpanded && (
+              <div className="px-2 pb-3">
+                <BatchGrid batch={batch} />
+              </div>
+            )}
+          </motion.div>
+        )
+      })}
+    </div>
+  )
+}
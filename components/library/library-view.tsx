@@ -33,6 +33,7 @@ import { RenameFolderDialog } from './rename-folder-dialog'
 import { ConfirmDialog } from './confirm-dialog'
 import { PullToRefresh } from '@/components/ui/pull-to-refresh'
 import { SavedPromptsView } from './saved-prompts-view'
+import { BatchesView } from './batches-view'
 import { useSavedPrompts } from '@/lib/context/saved-prompts-context'
 
 // Helper to detect if a URL is a video
@@ -159,6 +160,8 @@ export function LibraryView() {
         return allGenerations.filter(g => isVideoGeneration(g))
       case 'prompts':
         return [] // Prompts are handled separately in SavedPromptsView
+      case 'batches':
+        return [] // Batches are handled separately in BatchesView
       default:
         return allGenerations
     }
@@ -303,6 +306,7 @@ export function LibraryView() {
       case 'images': return 'Images'
       case 'videos': return 'Videos'
       case 'prompts': return 'Saved Prompts'
+      case 'batches': return 'Batches'
       default: return 'Library'
     }
   }, [activeFolder, activeSmartFolder, folders])
@@ -602,6 +606,9 @@ export function LibraryView() {
           ) : activeSmartFolder === 'prompts' ? (
             /* Saved Prompts View */
             <SavedPromptsView searchQuery={searchQuery} />
+          ) : activeSmartFolder === 'batches' ? (
+            /* Batch comparison grids */
+            <BatchesView searchQuery={searchQuery} />
           ) : filteredGenerations.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-20 text-center animate-fadeIn">
 
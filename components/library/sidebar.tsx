@@ -12,6 +12,7 @@ import {
   Plus,
   Sparkles,
   FileText,
+  Grid3x3,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Folder as FolderType } from '@/lib/context/folder-context'
@@ -26,7 +27,7 @@ import {
 } from '@/components/ui/sidebar'
 
 // Smart folder types
-export type SmartFolder = 'all' | 'desktop' | 'recents' | 'images' | 'videos' | 'prompts'
+export type SmartFolder = 'all' | 'desktop' | 'recents' | 'images' | 'videos' | 'prompts' | 'batches'
 
 interface LibrarySidebarProps {
   // Smart folders
@@ -39,6 +40,8 @@ interface LibrarySidebarProps {
     images: number
     videos: number
     prompts: number
+    // Batches are loaded by their own view, so there is no count up front
+    batches?: number
   }
 
   // User folders
@@ -70,6 +73,7 @@ const smartFolders: { id: SmartFolder; label: string; icon: typeof LayoutGrid }[
   { id: 'images', label: 'Images', icon: Image },
   { id: 'videos', label: 'Videos', icon: Video },
   { id: 'prompts', label: 'Saved Prompts', icon: FileText },
+  { id: 'batches', label: 'Batches', icon: Grid3x3 },
 ]
 
 // Inner component that uses the sidebar context
@@ -0,0 +1,411 @@
+'use client'
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Download, Upload, Package, AlertTriangle, Check, Loader2, FileJson } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { useSkills } from '@/lib/context/skills-context'
+import { useWorkflow } from '@/lib/context/workflow-context'
+import { useSessions } from '@/lib/context/sessions-context'
+import {
+  StudioBundle,
+  ShortcutCollisionStrategy,
+  createBundle,
+  getBundleFilename,
+  parseBundle,
+  planBundleImport,
+} from '@/lib/bundles'
+
+interface BundleTransferProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const COLLISION_OPTIONS: { value: ShortcutCollisionStrategy; label: string; description: string }[] = [
+  { value: 'rename', label: 'Keep both', description: 'Imported skills get a new shortcut, e.g. @product-2' },
+  { value: 'skip', label: 'Keep mine', description: 'Skip imported skills whose shortcut you already use' },
+  { value: 'replace', label: 'Replace mine', description: 'Overwrite your skill with the imported one' },
+]
+
+function SelectRow({
+  checked,
+  onToggle,
+  title,
+  subtitle,
+}: {
+  checked: boolean
+  onToggle: () => void
+  title: string
+  subtitle?: string
+}) {
+  return (
+    <button
+      onClick={onToggle}
+      className={cn(
+        'w-full flex items-center gap-3 px-3 py-2 rounded-lg border text-left transition-colors',
+        checked
+          ? 'border-skinny-yellow/40 bg-skinny-yellow/[0.06]'
+          : 'border-white/[0.06] bg-white/[0.02] hover:bg-white/[0.04]'
+      )}
+    >
+      <div className={cn(
+        'w-4 h-4 rounded flex items-center justify-center border',
+        checked ? 'bg-skinny-yellow border-skinny-yellow' : 'border-white/20'
+      )}>
+        {checked && <Check size={12} className="text-black" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-white truncate">{title}</p>
+        {subtitle && <p className="text-[10px] text-white/40 truncate">{subtitle}</p>}
+      </div>
+    </button>
+  )
+}
+
+// Export any mix of skills, workflows and sessions to a bundle file, or import one
+export function BundleTransfer({ isOpen, onClose }: BundleTransferProps) {
+  const { state: skillsState, addSkill, updateSkill } = useSkills()
+  const { workflows, createWorkflow } = useWorkflow()
+  const { sessions, importSessions } = useSessions()
+
+  const [tab, setTab] = useState<'export' | 'import'>('export')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  const [bundle, setBundle] = useState<StudioBundle | null>(null)
+  const [parseWarnings, setParseWarnings] = useState<string[]>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [strategy, setStrategy] = useState<ShortcutCollisionStrategy>('rename')
+  const [availableModels, setAvailableModels] = useState<string[] | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const userSkills = skillsState.skills.filter(skill => !skill.isBuiltIn)
+
+  // Model slugs this install has, to report what a bundle is missing
+  useEffect(() => {
+    if (!isOpen || tab !== 'import' || availableModels) return
+    fetch('/api/models')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => setAvailableModels((data?.models || []).map((model: { slug: string }) => model.slug)))
+      .catch(() => setAvailableModels([]))
+  }, [isOpen, tab, availableModels])
+
+  const plan = useMemo(() => {
+    if (!bundle || !availableModels) return null
+    return planBundleImport(bundle, {
+      existingSkills: skillsState.skills,
+      availableModels,
+      strategy,
+    })
+  }, [bundle, availableModels, skillsState.skills, strategy])
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const resetImport = () => {
+    setBundle(null)
+    setParseWarnings([])
+    setParseError(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleClose = () => {
+    setSelected(new Set())
+    resetImport()
+    onClose()
+  }
+
+  // === EXPORT ===
+  const handleExport = () => {
+    const exported = createBundle({
+      skills: userSkills.filter(skill => selected.has(`skill:${skill.id}`)),
+      workflows: workflows.filter(wf => selected.has(`workflow:${wf.id}`)),
+      sessions: sessions.filter(session => selected.has(`session:${session.id}`)),
+      allSkills: skillsState.skills,
+    })
+
+    const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = getBundleFilename(exported)
+    link.click()
+    URL.revokeObjectURL(url)
+
+    const count = exported.skills.length + exported.workflows.length + exported.sessions.length
+    toast.success(`Exported ${count} item${count === 1 ? '' : 's'}`)
+  }
+
+  // === IMPORT ===
+  const handleFile = async (file: File) => {
+    resetImport()
+    try {
+      const result = parseBundle(JSON.parse(await file.text()))
+      if (!result.success) {
+        setParseError(result.error)
+        return
+      }
+      setBundle(result.bundle)
+      setParseWarnings(result.warnings)
+    } catch {
+      setParseError('This file is not valid JSON')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+    setIsImporting(true)
+
+    for (const { id, updates } of plan.skillsToReplace) updateSkill(id, updates)
+    for (const skill of plan.skillsToAdd) addSkill(skill)
+    importSessions(plan.sessions)
+
+    let failedWorkflows = 0
+    for (const workflow of plan.workflows) {
+      const created = await createWorkflow(workflow)
+      if (!created) failedWorkflows++
+    }
+
+    setIsImporting(false)
+    const skillCount = plan.skillsToAdd.length + plan.skillsToReplace.length
+    const workflowCount = plan.workflows.length - failedWorkflows
+    toast.success('Bundle imported', {
+      description: `${skillCount} skill${skillCount === 1 ? '' : 's'}, ${workflowCount} workflow${workflowCount === 1 ? '' : 's'}, ${plan.sessions.length} session${plan.sessions.length === 1 ? '' : 's'}`,
+    })
+    handleClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+        onClick={(e) => e.target === e.currentTarget && handleClose()}
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="w-full max-w-2xl max-h-[85vh] bg-zinc-900 rounded-2xl border border-white/[0.08] shadow-2xl overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-white/[0.08] flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-skinny-yellow/10 flex items-center justify-center">
+                <Package size={20} className="text-skinny-yellow" />
+              </div>
+              <div>
+                <h2 className="text-lg font-medium text-white">Import & Export</h2>
+                <p className="text-xs text-white/50">Share skills, workflows and sessions as a file</p>
+              </div>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 rounded-lg text-white/40 hover:text-white hover:bg-white/[0.05] transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {/* Tabs */}
+          <div className="px-6 pt-4 flex gap-2">
+            {(['export', 'import'] as const).map(value => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={cn(
+                  'flex items-center gap-2 px-4 py-2 rounded-lg text-sm transition-colors',
+                  tab === value ? 'bg-white/[0.08] text-white' : 'text-white/50 hover:text-white'
+                )}
+              >
+                {value === 'export' ? <Download size={14} /> : <Upload size={14} />}
+                {value === 'export' ? 'Export' : 'Import'}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+            {tab === 'export' ? (
+              <>
+                {[
+                  {
+                    title: 'Workflows',
+                    items: workflows.map(wf => ({ key: `workflow:${wf.id}`, title: wf.name, subtitle: `${wf.steps.length} steps` })),
+                  },
+                  {
+                    title: 'Skills',
+                    items: userSkills.map(skill => ({ key: `skill:${skill.id}`, title: skill.name, subtitle: skill.shortcut ? `@${skill.shortcut}` : undefined })),
+                  },
+                  {
+                    title: 'Sessions',
+                    items: sessions.map(session => ({ key: `session:${session.id}`, title: session.title, subtitle: `${session.assets.length} assets` })),
+                  },
+                ].map(group => (
+                  <div key={group.title} className="space-y-2">
+                    <h3 className="text-xs font-bold uppercase tracking-wide text-white/40">{group.title}</h3>
+                    {group.items.length === 0 ? (
+                      <p className="text-xs text-white/30">Nothing to export yet</p>
+                    ) : (
+                      group.items.map(item => (
+                        <SelectRow
+                          key={item.key}
+                          checked={selected.has(item.key)}
+                          onToggle={() => toggle(item.key)}
+                          title={item.title}
+                          subtitle={item.subtitle}
+                        />
+                      ))
+                    )}
+                  </div>
+                ))}
+                <p className="text-[10px] text-white/30">
+                  Your own skills that selected workflows mention are included automatically.
+                </p>
+              </>
+            ) : (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full flex items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed border-white/[0.1] hover:border-skinny-yellow/50 text-white/50 hover:text-skinny-yellow transition-colors"
+                >
+                  <FileJson size={18} />
+                  <span className="text-sm">{bundle ? 'Choose a different file' : 'Choose a bundle file'}</span>
+                </button>
+
+                {parseError && (
+                  <p className="text-sm text-red-400">{parseError}</p>
+                )}
+
+                {bundle && !plan && (
+                  <div className="flex items-center gap-2 text-sm text-white/50">
+                    <Loader2 size={14} className="animate-spin" />
+                    Checking models...
+                  </div>
+                )}
+
+                {plan && (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      {[
+                        { label: 'Skills', count: plan.skillsToAdd.length + plan.skillsToReplace.length },
+                        { label: 'Workflows', count: plan.workflows.length },
+                        { label: 'Sessions', count: plan.sessions.length },
+                      ].map(stat => (
+                        <div key={stat.label} className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+                          <p className="text-lg font-medium text-white">{stat.count}</p>
+                          <p className="text-[10px] text-white/40 uppercase tracking-wide">{stat.label}</p>
+                        </div>
+                      ))}
+                    </div>
+
+                    {plan.collisions.length > 0 && (
+                      <div className="space-y-2">
+                        <h3 className="text-xs font-bold uppercase tracking-wide text-white/40">
+                          Shortcuts you already use
+                        </h3>
+                        <div className="grid grid-cols-3 gap-2">
+                          {COLLISION_OPTIONS.map(option => (
+                            <button
+                              key={option.value}
+                              onClick={() => setStrategy(option.value)}
+                              title={option.description}
+                              className={cn(
+                                'px-3 py-2 rounded-lg border text-xs transition-colors',
+                                strategy === option.value
+                                  ? 'border-skinny-yellow/50 bg-skinny-yellow/10 text-skinny-yellow'
+                                  : 'border-white/[0.08] text-white/50 hover:text-white'
+                              )}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                        {plan.collisions.map(collision => (
+                          <p key={`${collision.shortcut}-${collision.skillName}`} className="text-xs text-white/60">
+                            <span className="font-mono">@{collision.shortcut}</span> ({collision.skillName}){' '}
+                            {collision.resolution === 'renamed' && <>→ <span className="font-mono text-skinny-yellow">@{collision.resolvedShortcut}</span></>}
+                            {collision.resolution === 'kept-existing' && <span className="text-white/40">- keeping yours</span>}
+                            {collision.resolution === 'replaced' && <span className="text-white/40">- replacing yours</span>}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                    {(plan.missingModels.length > 0 || plan.missingSkills.length > 0 || parseWarnings.length > 0) && (
+                      <div className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 space-y-1">
+                        <div className="flex items-center gap-2 text-amber-400 text-xs font-medium">
+                          <AlertTriangle size={14} />
+                          Heads up
+                        </div>
+                        {plan.missingModels.length > 0 && (
+                          <p className="text-xs text-white/60">
+                            Models not available here: {plan.missingModels.join(', ')}. Steps using them will fail until you pick another model.
+                          </p>
+                        )}
+                        {plan.missingSkills.length > 0 && (
+                          <p className="text-xs text-white/60">
+                            Mentions skills you don't have: {plan.missingSkills.map(s => `@${s}`).join(', ')}
+                          </p>
+                        )}
+                        {parseWarnings.map(warning => (
+                          <p key={warning} className="text-xs text-white/60">{warning}</p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-white/[0.08] flex items-center justify-end gap-3">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 rounded-lg text-sm text-white/60 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            {tab === 'export' ? (
+              <button
+                onClick={handleExport}
+                disabled={selected.size === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-skinny-yellow text-black text-sm font-medium hover:bg-skinny-yellow/90 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Download size={16} />
+                <span>Export {selected.size > 0 ? selected.size : ''}</span>
+              </button>
+            ) : (
+              <button
+                onClick={handleImport}
+                disabled={!plan || isImporting}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-skinny-yellow text-black text-sm font-medium hover:bg-skinny-yellow/90 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                <span>Import</span>
+              </button>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
@@ -2,11 +2,12 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { User, CreditCard, Zap, Palette, Bell, Shield, ChevronRight, Key, Check, Eye, EyeOff, ExternalLink, Cpu, Mic, Wallet, Plus, X, Loader2, ArrowLeft, Sparkles, Receipt, Activity, Settings2, Server } from 'lucide-react'
+import { User, CreditCard, Zap, Palette, Bell, Shield, ChevronRight, Key, Check, Eye, EyeOff, ExternalLink, Cpu, Mic, Wallet, Plus, X, Loader2, ArrowLeft, Sparkles, Receipt, Activity, Settings2, Server, Package } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { SkillsManager } from '@/components/skills/skills-manager'
 import { SpendingLog } from '@/components/settings/spending-log'
 import { GenerationsLog } from '@/components/settings/generations-log'
+import { BundleTransfer } from '@/components/settings/bundle-transfer'
 import { useUser } from '@/lib/context/user-context'
 import { useApp } from '@/lib/context/app-context'
 import { mockModels } from '@/lib/types'
@@ -120,6 +121,7 @@ export function SettingsView({ initialPanel = 'main' }: SettingsViewProps) {
   const [showDefaultModelSelector, setShowDefaultModelSelector] = useState(false)
   const [apiKeySaved, setApiKeySaved] = useState(false)
   const [showSkillsManager, setShowSkillsManager] = useState(false)
+  const [showBundleTransfer, setShowBundleTransfer] = useState(false)
 
   // Platform orchestration status
   const [platformEnabled, setPlatformEnabled] = useState(false)
@@ -759,6 +761,12 @@ export function SettingsView({ initialPanel = 'main' }: SettingsViewProps) {
               description="Create and manage custom prompting guides"
               onClick={() => setShowSkillsManager(true)}
             />
+            <SettingsSection
+              icon={<Package size={18} />}
+              title="Import & Export"
+              description="Share skills, workflows and sessions as a file"
+              onClick={() => setShowBundleTransfer(true)}
+            />
 
             {/* Default Model Selector */}
             <button
@@ -910,6 +918,12 @@ export function SettingsView({ initialPanel = 'main' }: SettingsViewProps) {
           onClose={() => setShowSkillsManager(false)}
         />
 
+        {/* Import & Export Modal */}
+        <BundleTransfer
+          isOpen={showBundleTransfer}
+          onClose={() => setShowBundleTransfer(false)}
+        />
+
         {/* Preferences Section */}
         <motion.div
           initial={{ opacity: 0, y: 10 }}
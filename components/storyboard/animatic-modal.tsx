@@ -0,0 +1,284 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Clapperboard, Download, Loader2, AlertCircle, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { AnimaticFormat, StoryboardAnimatic } from '@/lib/types'
+
+interface AnimaticModalProps {
+  isOpen: boolean
+  onClose: () => void
+  storyboardId: string
+  completedShotCount: number
+}
+
+const POLL_INTERVAL_MS = 5000
+
+function getAuthHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (typeof window !== 'undefined') {
+    const devToken = localStorage.getItem('whop-dev-token')
+    const devUserId = localStorage.getItem('whop-dev-user-id')
+    if (devToken) headers['x-whop-user-token'] = devToken
+    if (devUserId) headers['x-whop-user-id'] = devUserId
+  }
+  return headers
+}
+
+function formatDuration(seconds?: number) {
+  if (seconds === undefined) return '--'
+  const total = Math.round(seconds)
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`
+}
+
+function formatSize(bytes?: number) {
+  if (!bytes) return ''
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`
+}
+
+export function AnimaticModal({
+  isOpen,
+  onClose,
+  storyboardId,
+  completedShotCount,
+}: AnimaticModalProps) {
+  const [animatics, setAnimatics] = useState<StoryboardAnimatic[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isStarting, setIsStarting] = useState(false)
+  const [format, setFormat] = useState<AnimaticFormat>('mp4')
+  const [resolution, setResolution] = useState<720 | 1080>(720)
+  const [titleCards, setTitleCards] = useState(true)
+  const [kenBurns, setKenBurns] = useState(true)
+
+  const fetchAnimatics = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/storyboards/${storyboardId}/animatics`, { headers: getAuthHeaders() })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load renders')
+      setAnimatics(data.animatics || [])
+    } catch (err) {
+      console.error('[Animatic] Failed to load:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [storyboardId])
+
+  useEffect(() => {
+    if (!isOpen) return
+    setIsLoading(true)
+    fetchAnimatics()
+  }, [isOpen, fetchAnimatics])
+
+  // Keep polling while a render is running
+  const isRendering = animatics.some(a => a.status === 'queued' || a.status === 'rendering')
+  useEffect(() => {
+    if (!isOpen || !isRendering) return
+    const interval = setInterval(fetchAnimatics, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isOpen, isRendering, fetchAnimatics])
+
+  const handleRender = async () => {
+    setIsStarting(true)
+    try {
+      const res = await fetch(`/api/storyboards/${storyboardId}/animatics`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ format, resolution, titleCards, kenBurns }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to start the render')
+      setAnimatics(prev => [data.animatic, ...prev])
+      toast.success('Rendering animatic')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to start the render')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handleDelete = async (animaticId: string) => {
+    try {
+      const res = await fetch(`/api/storyboards/${storyboardId}/animatics/${animaticId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to delete')
+      setAnimatics(prev => prev.filter(a => a.id !== animaticId))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete')
+    }
+  }
+
+  const toggleClasses = (active: boolean) => cn(
+    "flex-1 py-2 rounded-lg border text-xs font-medium transition-colors",
+    active
+      ? "bg-skinny-yellow/20 border-skinny-yellow text-skinny-yellow"
+      : "bg-zinc-800 border-zinc-700 text-zinc-400 hover:border-zinc-600"
+  )
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md bg-zinc-900 border border-zinc-700 rounded-2xl overflow-hidden shadow-2xl"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+              <div className="flex items-center gap-2">
+                <Clapperboard size={16} className="text-skinny-yellow" />
+                <h3 className="font-semibold text-white">Render Animatic</h3>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {/* Options */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-zinc-500 mb-1.5">Format</label>
+                  <div className="flex gap-1.5">
+                    {(['mp4', 'webm'] as AnimaticFormat[]).map(value => (
+                      <button key={value} onClick={() => setFormat(value)} className={toggleClasses(format === value)}>
+                        {value.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-zinc-500 mb-1.5">Resolution</label>
+                  <div className="flex gap-1.5">
+                    {([720, 1080] as const).map(value => (
+                      <button key={value} onClick={() => setResolution(value)} className={toggleClasses(resolution === value)}>
+                        {value}p
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={titleCards}
+                    onChange={(e) => setTitleCards(e.target.checked)}
+                    className="accent-skinny-yellow"
+                  />
+                  Title cards
+                </label>
+                <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={kenBurns}
+                    onChange={(e) => setKenBurns(e.target.checked)}
+                    className="accent-skinny-yellow"
+                  />
+                  Move stills with their camera movement
+                </label>
+              </div>
+
+              <button
+                onClick={handleRender}
+                disabled={isStarting || isRendering || completedShotCount === 0}
+                className={cn(
+                  "w-full flex items-center justify-center gap-2 py-2.5 rounded-lg text-sm font-medium transition-colors",
+                  "bg-skinny-yellow text-black hover:bg-skinny-green",
+                  "disabled:opacity-50 disabled:cursor-not-allowed"
+                )}
+              >
+                {isStarting && <Loader2 size={14} className="animate-spin" />}
+                {isRendering
+                  ? 'Rendering...'
+                  : `Render ${completedShotCount} ${completedShotCount === 1 ? 'shot' : 'shots'}`}
+              </button>
+
+              {/* Previous renders */}
+              <div>
+                <h4 className="text-xs font-medium text-zinc-500 uppercase tracking-wider mb-2">Renders</h4>
+                {isLoading ? (
+                  <div className="flex items-center justify-center gap-2 py-4 text-sm text-zinc-500">
+                    <Loader2 size={14} className="animate-spin" />
+                    Loading...
+                  </div>
+                ) : animatics.length === 0 ? (
+                  <p className="text-xs text-zinc-500 py-2">No renders yet</p>
+                ) : (
+                  <div className="max-h-56 overflow-y-auto rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+                    {animatics.map(animatic => (
+                      <div key={animatic.id} className="flex items-center justify-between gap-3 px-3 py-2 text-xs">
+                        <div className="min-w-0">
+                          <div className="text-zinc-300">
+                            {animatic.format.toUpperCase()} · {animatic.options.resolution}p · {animatic.shotCount} shots
+                          </div>
+                          <div className="text-zinc-500 truncate">
+                            {new Date(animatic.createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                            {animatic.status === 'completed' && ` · ${formatDuration(animatic.durationSeconds)} · ${formatSize(animatic.sizeBytes)}`}
+                          </div>
+                        </div>
+
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          {animatic.status === 'completed' && animatic.outputUrl ? (
+                            <a
+                              href={animatic.outputUrl}
+                              download
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="p-1.5 rounded-lg text-zinc-400 hover:text-skinny-yellow hover:bg-zinc-800 transition-colors"
+                              title="Download"
+                            >
+                              <Download size={14} />
+                            </a>
+                          ) : animatic.status === 'failed' ? (
+                            <span className="flex items-center gap-1 text-red-400" title={animatic.error}>
+                              <AlertCircle size={12} />
+                              Failed
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-skinny-yellow capitalize">
+                              <Loader2 size={12} className="animate-spin" />
+                              {animatic.status}
+                            </span>
+                          )}
+                          {animatic.status !== 'rendering' && (
+                            <button
+                              onClick={() => handleDelete(animatic.id)}
+                              className="p-1.5 rounded-lg text-zinc-500 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+                              title="Delete"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
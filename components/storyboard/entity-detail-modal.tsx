@@ -3,10 +3,11 @@
 import { useState, useEffect } from 'react'
 import { createPortal } from 'react-dom'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Save, Trash2, Sparkles, Edit2, Eye, User, Globe, Box, Palette, RefreshCw, Upload, Copy, Check, Info, Cpu, Image } from 'lucide-react'
+import { X, Save, Trash2, Sparkles, Edit2, Eye, User, Globe, Box, Palette, RefreshCw, Upload, Copy, Check, Info, Cpu, Image, Layers } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { StoryboardEntity, EntityType } from '@/lib/types'
+import { StoryboardEntity, EntityType, EntityImage, EntityImageView } from '@/lib/types'
 import { glassClasses } from '@/lib/liquid-glass-styles'
+import { EntityViewsPanel } from './entity-views-panel'
 import { toast } from 'sonner'
 
 interface EntityDetailModalProps {
@@ -16,6 +17,10 @@ interface EntityDetailModalProps {
   onSave: (updates: Partial<StoryboardEntity>) => Promise<boolean>
   onDelete: (entityId: string) => Promise<boolean>
   onAnalyze: (entityId: string) => Promise<string | null>
+  onAddImage?: (entityId: string, image: { imageUrl: string; view: EntityImageView; label?: string; generationId?: string }) => Promise<EntityImage | null>
+  onUpdateImage?: (entityId: string, imageId: string, updates: { view?: EntityImageView; label?: string }) => Promise<boolean>
+  onRemoveImage?: (entityId: string, imageId: string) => Promise<boolean>
+  onGenerateTurnaround?: (entityId: string) => Promise<boolean>
   mode: 'view' | 'edit'
 }
 
@@ -26,7 +31,7 @@ const ENTITY_TYPES: { type: EntityType; label: string; icon: typeof User; color:
   { type: 'style', label: 'Style', icon: Palette, color: 'text-purple-400', bgColor: 'bg-purple-500/20' },
 ]
 
-type TabId = 'details' | 'analysis' | 'technical'
+type TabId = 'details' | 'views' | 'analysis' | 'technical'
 
 export function EntityDetailModal({
   entity,
@@ -35,6 +40,10 @@ export function EntityDetailModal({
   onSave,
   onDelete,
   onAnalyze,
+  onAddImage,
+  onUpdateImage,
+  onRemoveImage,
+  onGenerateTurnaround,
   mode: initialMode,
 }: EntityDetailModalProps) {
   const [mounted, setMounted] = useState(false)
@@ -132,6 +141,7 @@ export function EntityDetailModal({
 
   const tabs: { id: TabId; label: string; icon: typeof Info }[] = [
     { id: 'details', label: 'Details', icon: Info },
+    { id: 'views', label: 'Views', icon: Layers },
     { id: 'analysis', label: 'AI Analysis', icon: Sparkles },
     { id: 'technical', label: 'Technical', icon: Cpu },
   ]
@@ -310,6 +320,25 @@ export function EntityDetailModal({
                     </motion.div>
                   )}
 
+                  {activeTab === 'views' && (
+                    <motion.div
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                    >
+                      {onAddImage && onUpdateImage && onRemoveImage && onGenerateTurnaround ? (
+                        <EntityViewsPanel
+                          entity={entity}
+                          onAddImage={onAddImage}
+                          onUpdateImage={onUpdateImage}
+                          onRemoveImage={onRemoveImage}
+                          onGenerateTurnaround={onGenerateTurnaround}
+                        />
+                      ) : (
+                        <p className="text-sm text-zinc-500">Views can't be edited here.</p>
+                      )}
+                    </motion.div>
+                  )}
+
                   {activeTab === 'analysis' && (
                     <motion.div
                       initial={{ opacity: 0, x: -10 }}
@@ -338,7 +367,7 @@ export function EntityDetailModal({
                             )}
                             <button
                               onClick={handleAnalyze}
-                              disabled={isAnalyzing || !entity.primaryImageUrl}
+                              disabled={isAnalyzing || (!entity.primaryImageUrl && !entity.images?.length)}
                               className={cn(
                                 "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all",
                                 "bg-skinny-yellow/10 border border-skinny-yellow/30 text-skinny-yellow",
@@ -374,8 +403,8 @@ export function EntityDetailModal({
                           )}>
                             <Sparkles size={32} className="text-zinc-600 mx-auto mb-3" />
                             <p className="text-sm text-zinc-500">
-                              {entity.primaryImageUrl
-                                ? 'Click "Analyze" to generate AI vision context for this entity'
+                              {entity.primaryImageUrl || entity.images?.length
+                                ? 'Click "Analyze" to generate AI vision context from all of this entity\'s views'
                                 : 'Add an image to enable AI analysis'}
                             </p>
                           </div>
@@ -0,0 +1,229 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Layers, Loader2, Plus, RotateCw, Trash2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { StoryboardEntity, EntityImage, EntityImageView } from '@/lib/types'
+import { ENTITY_IMAGE_VIEWS, getTurnaroundViews } from '@/lib/entity-views'
+import { useGeneration } from '@/lib/context/generation-context'
+
+interface EntityViewsPanelProps {
+  entity: StoryboardEntity
+  onAddImage: (entityId: string, image: { imageUrl: string; view: EntityImageView; label?: string; generationId?: string }) => Promise<EntityImage | null>
+  onUpdateImage: (entityId: string, imageId: string, updates: { view?: EntityImageView; label?: string }) => Promise<boolean>
+  onRemoveImage: (entityId: string, imageId: string) => Promise<boolean>
+  onGenerateTurnaround: (entityId: string) => Promise<boolean>
+}
+
+const isVideoUrl = (url: string) => /\.(mp4|webm|mov)(\?|$)/i.test(url)
+
+// Recent library images offered when adding a view
+const MAX_PICKER_IMAGES = 24
+
+function ViewTile({
+  image,
+  onUpdate,
+  onRemove,
+}: {
+  image: EntityImage
+  onUpdate: (updates: { view?: EntityImageView; label?: string }) => void
+  onRemove: () => void
+}) {
+  const [label, setLabel] = useState(image.label || '')
+
+  return (
+    <div className="rounded-xl overflow-hidden bg-white/[0.02] border border-white/5">
+      <div className="relative aspect-square bg-zinc-800">
+        <img src={image.imageUrl} alt="" className="w-full h-full object-cover" />
+        <button
+          onClick={onRemove}
+          className="absolute top-1.5 right-1.5 p-1 rounded-lg bg-black/60 text-zinc-400 hover:text-red-400 transition-colors"
+          title="Remove view"
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+      <div className="p-2 space-y-1.5">
+        <select
+          value={image.view}
+          onChange={(e) => onUpdate({ view: e.target.value as EntityImageView })}
+          className="w-full px-2 py-1 rounded-lg bg-white/[0.03] border border-white/10 text-xs text-white focus:outline-none focus:border-skinny-yellow/50"
+        >
+          {ENTITY_IMAGE_VIEWS.map(view => (
+            <option key={view.id} value={view.id}>{view.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={() => { if (label !== (image.label || '')) onUpdate({ label }) }}
+          placeholder="Label, e.g. night"
+          className="w-full px-2 py-1 rounded-lg bg-white/[0.03] border border-white/10 text-xs text-white placeholder-zinc-600 focus:outline-none focus:border-skinny-yellow/50"
+        />
+      </div>
+    </div>
+  )
+}
+
+export function EntityViewsPanel({
+  entity,
+  onAddImage,
+  onUpdateImage,
+  onRemoveImage,
+  onGenerateTurnaround,
+}: EntityViewsPanelProps) {
+  const { generations } = useGeneration()
+  const [isPicking, setIsPicking] = useState(false)
+  const [pickedUrl, setPickedUrl] = useState<{ url: string; generationId: string } | null>(null)
+  const [newView, setNewView] = useState<EntityImageView>('front')
+  const [newLabel, setNewLabel] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [isStartingTurnaround, setIsStartingTurnaround] = useState(false)
+
+  const images = entity.images || []
+  const canTurnaround = getTurnaroundViews(entity.entityType).length > 0 && !!entity.primaryImageUrl
+  const turnaroundRunning = isStartingTurnaround || !!entity.turnaroundGenerationId
+
+  const libraryImages = useMemo(() => {
+    const inSet = new Set([entity.primaryImageUrl, ...images.map(img => img.imageUrl)])
+    return generations
+      .flatMap(g => (g.output_urls || []).map(url => ({ url, generationId: g.id })))
+      .filter(item => !isVideoUrl(item.url) && !inSet.has(item.url))
+      .slice(0, MAX_PICKER_IMAGES)
+  }, [generations, entity.primaryImageUrl, images])
+
+  const handleTurnaround = async () => {
+    setIsStartingTurnaround(true)
+    await onGenerateTurnaround(entity.id)
+    setIsStartingTurnaround(false)
+  }
+
+  const handleAdd = async () => {
+    if (!pickedUrl) return
+    setIsAdding(true)
+    const added = await onAddImage(entity.id, {
+      imageUrl: pickedUrl.url,
+      view: newView,
+      label: newLabel.trim() || undefined,
+      generationId: pickedUrl.generationId,
+    })
+    setIsAdding(false)
+    if (added) {
+      setPickedUrl(null)
+      setNewLabel('')
+      setIsPicking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Layers size={16} className="text-skinny-yellow" />
+          <label className="text-sm font-medium text-white">Views ({images.length + (entity.primaryImageUrl ? 1 : 0)})</label>
+        </div>
+        <div className="flex items-center gap-2">
+          {canTurnaround && (
+            <button
+              onClick={handleTurnaround}
+              disabled={turnaroundRunning}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all",
+                "bg-skinny-yellow/10 border border-skinny-yellow/30 text-skinny-yellow",
+                "hover:bg-skinny-yellow/20 disabled:opacity-50"
+              )}
+              title="Generate front, three-quarter, side and back views from the primary image"
+            >
+              {turnaroundRunning ? <Loader2 size={12} className="animate-spin" /> : <RotateCw size={12} />}
+              {turnaroundRunning ? 'Generating turnaround...' : 'Generate turnaround'}
+            </button>
+          )}
+          <button
+            onClick={() => setIsPicking(!isPicking)}
+            className={cn(
+              "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all",
+              "bg-white/5 border border-white/10 text-zinc-400 hover:text-white hover:bg-white/10"
+            )}
+          >
+            {isPicking ? <X size={12} /> : <Plus size={12} />}
+            {isPicking ? 'Cancel' : 'Add view'}
+          </button>
+        </div>
+      </div>
+
+      {/* Add a view from the library */}
+      {isPicking && (
+        <div className="p-3 rounded-xl bg-white/[0.02] border border-white/5 space-y-3">
+          {libraryImages.length === 0 ? (
+            <p className="text-xs text-zinc-500">No library images to add yet.</p>
+          ) : (
+            <div className="grid grid-cols-6 gap-1.5 max-h-40 overflow-y-auto">
+              {libraryImages.map(item => (
+                <button
+                  key={item.url}
+                  onClick={() => setPickedUrl(item)}
+                  className={cn(
+                    "aspect-square rounded-lg overflow-hidden border-2 transition-all",
+                    pickedUrl?.url === item.url ? "border-skinny-yellow" : "border-transparent hover:border-white/20"
+                  )}
+                >
+                  <img src={item.url} alt="" className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <select
+              value={newView}
+              onChange={(e) => setNewView(e.target.value as EntityImageView)}
+              className="px-2 py-1.5 rounded-lg bg-white/[0.03] border border-white/10 text-xs text-white focus:outline-none focus:border-skinny-yellow/50"
+            >
+              {ENTITY_IMAGE_VIEWS.map(view => (
+                <option key={view.id} value={view.id}>{view.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="Label (optional)"
+              className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-white/[0.03] border border-white/10 text-xs text-white placeholder-zinc-600 focus:outline-none focus:border-skinny-yellow/50"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!pickedUrl || isAdding}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-skinny-yellow text-black hover:bg-skinny-green transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isAdding && <Loader2 size={12} className="animate-spin" />}
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        {entity.primaryImageUrl && (
+          <div className="rounded-xl overflow-hidden bg-white/[0.02] border border-skinny-yellow/30">
+            <div className="aspect-square bg-zinc-800">
+              <img src={entity.primaryImageUrl} alt={entity.entityName} className="w-full h-full object-cover" />
+            </div>
+            <div className="p-2 text-xs text-skinny-yellow">Primary</div>
+          </div>
+        )}
+        {images.map(image => (
+          <ViewTile
+            key={image.id}
+            image={image}
+            onUpdate={(updates) => onUpdateImage(entity.id, image.id, updates)}
+            onRemove={() => onRemoveImage(entity.id, image.id)}
+          />
+        ))}
+      </div>
+
+      <p className="text-xs text-zinc-500">
+        Shots use the view that fits their camera angle best. A label that appears in a shot&apos;s description, like &quot;night&quot; or &quot;angry&quot;, wins.
+      </p>
+    </div>
+  )
+}
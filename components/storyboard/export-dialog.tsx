@@ -0,0 +1,251 @@
+'use client'
+
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, FileDown, Loader2, LayoutGrid, RectangleHorizontal } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { Storyboard, StoryboardShot, StoryboardEntity } from '@/lib/types'
+import {
+  EXPORT_FORMATS,
+  StoryboardExportFormat,
+  PdfLayout,
+  ExportFrame,
+  buildStoryboardPdf,
+  buildTextExport,
+  getExportFilename,
+} from '@/lib/storyboard-export'
+
+interface ExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  storyboard: Storyboard
+  shots: StoryboardShot[]
+  entities: StoryboardEntity[]
+}
+
+// Frames are shrunk to this on their long side before going into the PDF
+const MAX_FRAME_SIZE = 1200
+const FRAME_LOAD_CONCURRENCY = 4
+
+const isVideoUrl = (url: string) => /\.(mp4|webm|mov)(\?|$)/i.test(url)
+
+// Draw an image or the first moment of a video onto a canvas and re-encode it as JPEG
+async function loadFrame(url: string): Promise<ExportFrame | null> {
+  const source = await new Promise<HTMLImageElement | HTMLVideoElement | null>(resolve => {
+    if (isVideoUrl(url)) {
+      const video = document.createElement('video')
+      video.crossOrigin = 'anonymous'
+      video.muted = true
+      video.preload = 'auto'
+      video.onloadeddata = () => { video.currentTime = Math.min(0.5, (video.duration || 1) / 2) }
+      video.onseeked = () => resolve(video)
+      video.onerror = () => resolve(null)
+      video.src = url
+    } else {
+      const img = new window.Image()
+      img.crossOrigin = 'anonymous'
+      img.onload = () => resolve(img)
+      img.onerror = () => resolve(null)
+      img.src = url
+    }
+  })
+  if (!source) return null
+
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight
+  if (!sourceWidth || !sourceHeight) return null
+
+  const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(sourceWidth, sourceHeight))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(sourceWidth * scale)
+  canvas.height = Math.round(sourceHeight * scale)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  // JPEG has no alpha; transparent areas print white
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+
+  try {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85))
+    if (!blob) return null
+    return { jpeg: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height }
+  } catch {
+    // The host didn't allow cross-origin reads, so the canvas is tainted
+    return null
+  }
+}
+
+function downloadFile(filename: string, mimeType: string, content: string | Uint8Array) {
+  const blob = new Blob([content as BlobPart], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export function ExportDialog({
+  isOpen,
+  onClose,
+  storyboard,
+  shots,
+  entities,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<StoryboardExportFormat>('pdf')
+  const [layout, setLayout] = useState<PdfLayout>('grid')
+  const [isExporting, setIsExporting] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      if (format !== 'pdf') {
+        const file = buildTextExport(format, storyboard, shots, entities)
+        downloadFile(file.filename, file.mimeType, file.content)
+        onClose()
+        return
+      }
+
+      const withFrames = shots.filter(s => s.generatedImageUrl)
+      const frames: Record<string, ExportFrame> = {}
+      let missing = 0
+      setProgress({ done: 0, total: withFrames.length })
+
+      let next = 0
+      const worker = async () => {
+        while (next < withFrames.length) {
+          const shot = withFrames[next++]
+          const frame = await loadFrame(shot.generatedImageUrl!)
+          if (frame) frames[shot.id] = frame
+          else missing++
+          setProgress(prev => prev && { ...prev, done: prev.done + 1 })
+        }
+      }
+      await Promise.all(Array.from({ length: FRAME_LOAD_CONCURRENCY }, worker))
+
+      const pdf = buildStoryboardPdf(storyboard, shots, entities, frames, layout)
+      downloadFile(getExportFilename(storyboard, 'pdf'), 'application/pdf', pdf)
+      if (missing > 0) {
+        toast.warning(`${missing} ${missing === 1 ? 'frame' : 'frames'} couldn't be loaded and were left blank`)
+      }
+      onClose()
+    } catch (err) {
+      console.error('[StoryboardExport] Export failed:', err)
+      toast.error('Export failed')
+    } finally {
+      setIsExporting(false)
+      setProgress(null)
+    }
+  }
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md bg-zinc-900 border border-zinc-700 rounded-2xl overflow-hidden shadow-2xl"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+              <div className="flex items-center gap-2">
+                <FileDown size={16} className="text-skinny-yellow" />
+                <h3 className="font-semibold text-white">Export Storyboard</h3>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {/* Format */}
+              <div className="space-y-1.5">
+                {EXPORT_FORMATS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setFormat(option.id)}
+                    className={cn(
+                      "w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg border text-left transition-colors",
+                      format === option.id
+                        ? "bg-skinny-yellow/10 border-skinny-yellow/50"
+                        : "bg-zinc-800/50 border-zinc-700/50 hover:border-zinc-600"
+                    )}
+                  >
+                    <span className={cn("text-sm font-medium", format === option.id ? "text-skinny-yellow" : "text-white")}>
+                      {option.label}
+                    </span>
+                    <span className="text-xs text-zinc-500">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+
+              {/* PDF layout */}
+              {format === 'pdf' && (
+                <div>
+                  <label className="block text-xs text-zinc-500 mb-1.5">Layout</label>
+                  <div className="flex gap-2">
+                    {([
+                      { id: 'grid', label: 'Six per page', icon: LayoutGrid },
+                      { id: 'single', label: 'One per page', icon: RectangleHorizontal },
+                    ] as const).map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => setLayout(option.id)}
+                        className={cn(
+                          "flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border text-xs font-medium transition-colors",
+                          layout === option.id
+                            ? "bg-skinny-yellow/20 border-skinny-yellow text-skinny-yellow"
+                            : "bg-zinc-800 border-zinc-700 text-zinc-400 hover:border-zinc-600"
+                        )}
+                      >
+                        <option.icon size={14} />
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-zinc-500">
+                  {progress
+                    ? `Loading frames ${progress.done}/${progress.total}`
+                    : `${shots.length} ${shots.length === 1 ? 'shot' : 'shots'}`}
+                </span>
+                <button
+                  onClick={handleExport}
+                  disabled={isExporting || shots.length === 0}
+                  className={cn(
+                    "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+                    "bg-skinny-yellow text-black hover:bg-skinny-green",
+                    "disabled:opacity-50 disabled:cursor-not-allowed"
+                  )}
+                >
+                  {isExporting && <Loader2 size={14} className="animate-spin" />}
+                  Export
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
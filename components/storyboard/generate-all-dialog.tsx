@@ -0,0 +1,146 @@
+'use client'
+
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Sparkles, AlertTriangle, Loader2, Link2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatCents } from '@/lib/pricing'
+import { GenerateAllPlan } from '@/lib/context/storyboard-context'
+
+interface GenerateAllDialogProps {
+  isOpen: boolean
+  // Null while the quote is loading
+  plan: GenerateAllPlan | null
+  onClose: () => void
+  onConfirm: () => void
+}
+
+export function GenerateAllDialog({
+  isOpen,
+  plan,
+  onClose,
+  onConfirm,
+}: GenerateAllDialogProps) {
+  // The run reports its own progress in the shot list, so the dialog closes right away
+  const handleConfirm = () => {
+    onClose()
+    onConfirm()
+  }
+
+  const quote = plan?.quote
+  const dependentCount = plan
+    ? Object.values(plan.dependencies).filter(deps => deps.length > 0).length
+    : 0
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md bg-zinc-900 border border-zinc-700 rounded-2xl overflow-hidden shadow-2xl"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+              <div className="flex items-center gap-2">
+                <Sparkles size={16} className="text-skinny-yellow" />
+                <h3 className="font-semibold text-white">Generate All Pending</h3>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="p-4">
+              {!plan ? (
+                <div className="flex items-center justify-center gap-2 py-8 text-sm text-zinc-500">
+                  <Loader2 size={16} className="animate-spin" />
+                  Quoting shots...
+                </div>
+              ) : plan.errors.length > 0 || !quote ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm text-red-400">
+                    <AlertTriangle size={14} />
+                    Fix these before generating:
+                  </div>
+                  <ul className="space-y-1 text-xs text-zinc-400 list-disc pl-5">
+                    {plan.errors.map((error, i) => <li key={i}>{error}</li>)}
+                  </ul>
+                </div>
+              ) : (
+                <>
+                  <div className="max-h-60 overflow-y-auto rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+                    {plan.order.map(shotId => {
+                      const line = quote.shots.find(s => s.shotId === shotId)
+                      if (!line) return null
+                      const waitsFor = plan.dependencies[shotId] || []
+                      return (
+                        <div key={shotId} className="flex items-center justify-between gap-3 px-3 py-2 text-xs">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span className="font-mono text-zinc-500">{String(line.shotNumber).padStart(2, '0')}</span>
+                            <span className="text-zinc-300 truncate">{line.modelName}</span>
+                            {waitsFor.length > 0 && (
+                              <span className="flex items-center gap-0.5 text-zinc-500" title="Starts after the shots it uses">
+                                <Link2 size={10} />
+                                {waitsFor.length}
+                              </span>
+                            )}
+                          </div>
+                          <span className="text-zinc-400 flex-shrink-0">{formatCents(line.costCents)}</span>
+                        </div>
+                      )
+                    })}
+                  </div>
+
+                  <div className="flex items-center justify-between mt-3 text-sm">
+                    <span className="text-zinc-400">
+                      {quote.shots.length} {quote.shots.length === 1 ? 'shot' : 'shots'}
+                    </span>
+                    <span className="font-medium text-white">Up to {formatCents(quote.totalCents)}</span>
+                  </div>
+                  <p className="text-xs text-zinc-500 mt-2">
+                    The total is held now and each shot is charged its actual cost when it finishes.
+                    {dependentCount > 0 && ` ${dependentCount} ${dependentCount === 1 ? 'shot waits' : 'shots wait'} for the shots they use.`}
+                  </p>
+                </>
+              )}
+
+              <div className="flex items-center justify-end gap-2 mt-4">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 rounded-lg text-sm text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  disabled={!quote || (plan?.errors.length ?? 0) > 0}
+                  className={cn(
+                    "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+                    "bg-skinny-yellow text-black hover:bg-skinny-green",
+                    "disabled:opacity-50 disabled:cursor-not-allowed"
+                  )}
+                >
+                  {quote ? `Generate ${quote.shots.length}` : 'Generate'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { History, Undo2, Redo2, Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { StoryboardHistory } from '@/lib/storyboard-history'
+
+interface HistoryPanelProps {
+  history: StoryboardHistory
+  onUndo: () => Promise<boolean>
+  onRedo: () => Promise<boolean>
+}
+
+// Entries shown in the dropdown; older ones can still be undone one by one
+const VISIBLE_ENTRIES = 10
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+const MOD_KEY = isMac ? '⌘' : 'Ctrl+'
+
+function formatRelativeTime(at: number): string {
+  const diffMins = Math.floor((Date.now() - at) / (1000 * 60))
+  if (diffMins < 1) return 'Just now'
+  if (diffMins < 60) return `${diffMins}m`
+  return `${Math.floor(diffMins / 60)}h`
+}
+
+export function HistoryPanel({ history, onUndo, onRedo }: HistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isStepping, setIsStepping] = useState(false)
+
+  const undoEntries = history.undo.slice(-VISIBLE_ENTRIES).reverse()
+  const redoEntries = history.redo.slice(-VISIBLE_ENTRIES).reverse()
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!(e.target as HTMLElement).closest('[data-history-panel]')) setIsOpen(false)
+    }
+    const timeoutId = setTimeout(() => document.addEventListener('click', handleClickOutside), 10)
+    return () => {
+      clearTimeout(timeoutId)
+      document.removeEventListener('click', handleClickOutside)
+    }
+  }, [isOpen])
+
+  // Undo or redo several steps, stopping at the first that fails
+  const step = async (run: () => Promise<boolean>, times: number) => {
+    setIsStepping(true)
+    for (let i = 0; i < times; i++) {
+      if (!(await run())) break
+    }
+    setIsStepping(false)
+  }
+
+  return (
+    <div className="relative flex items-center" data-history-panel>
+      <button
+        onClick={() => step(onUndo, 1)}
+        disabled={history.undo.length === 0 || isStepping}
+        className="p-2 rounded-l-lg bg-zinc-800/50 text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors disabled:opacity-40 disabled:hover:bg-zinc-800/50"
+        title={history.undo.length > 0 ? `Undo ${history.undo[history.undo.length - 1].label} (${MOD_KEY}Z)` : 'Nothing to undo'}
+      >
+        <Undo2 size={14} />
+      </button>
+      <button
+        onClick={() => step(onRedo, 1)}
+        disabled={history.redo.length === 0 || isStepping}
+        className="p-2 bg-zinc-800/50 text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors disabled:opacity-40 disabled:hover:bg-zinc-800/50"
+        title={history.redo.length > 0 ? `Redo ${history.redo[history.redo.length - 1].label} (${MOD_KEY}Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 size={14} />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "p-2 rounded-r-lg bg-zinc-800/50 hover:bg-zinc-800 transition-colors",
+          isOpen ? "text-skinny-yellow" : "text-zinc-300 hover:text-white"
+        )}
+        title="History"
+      >
+        {isStepping ? <Loader2 size={14} className="animate-spin" /> : <History size={14} />}
+      </button>
+
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute top-full right-0 mt-2 w-72 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl z-50"
+        >
+          <div className="px-3 py-2 border-b border-zinc-800 flex items-center justify-between">
+            <span className="text-xs font-medium text-zinc-400">History</span>
+            <span className="text-[11px] text-zinc-600">{MOD_KEY}Z · {MOD_KEY}Shift+Z</span>
+          </div>
+
+          {undoEntries.length === 0 && redoEntries.length === 0 ? (
+            <p className="text-xs text-zinc-500 text-center py-4">No changes yet</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto p-1.5">
+              {/* Redone-able entries sit above the present, greyed out */}
+              {redoEntries.slice().reverse().map((entry, i) => (
+                <button
+                  key={entry.id}
+                  onClick={() => step(onRedo, redoEntries.length - i)}
+                  disabled={isStepping}
+                  className="w-full flex items-center justify-between gap-2 px-2.5 py-1.5 rounded-md text-left text-xs text-zinc-600 hover:bg-zinc-800 hover:text-zinc-400 transition-colors"
+                  title="Redo up to here"
+                >
+                  <span className="truncate line-through">{entry.label}</span>
+                  <span className="flex-shrink-0 text-[10px]">{formatRelativeTime(entry.at)}</span>
+                </button>
+              ))}
+              {undoEntries.map((entry, i) => (
+                <button
+                  key={entry.id}
+                  onClick={() => step(onUndo, i + 1)}
+                  disabled={isStepping}
+                  className={cn(
+                    "w-full flex items-center justify-between gap-2 px-2.5 py-1.5 rounded-md text-left text-xs transition-colors hover:bg-zinc-800",
+                    i === 0 ? "text-white" : "text-zinc-400"
+                  )}
+                  title="Undo back to before this"
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="flex-shrink-0 text-[10px] text-zinc-600">{formatRelativeTime(entry.at)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </motion.div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Check, X, Loader2, GitCompare, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { StoryboardShot, StoryboardEntity } from '@/lib/types'
+import { StoryboardRevision, ShotRevisionChange, reviewStoryboardRevision } from '@/lib/storyboard-revision'
+
+interface RevisionDiffCardProps {
+  revision: StoryboardRevision
+  shots: StoryboardShot[]
+  entities: StoryboardEntity[]
+  onApply: (changes: ShotRevisionChange[]) => Promise<boolean>
+  onDismiss: () => void
+}
+
+export function RevisionDiffCard({ revision, shots, entities, onApply, onDismiss }: RevisionDiffCardProps) {
+  const items = useMemo(
+    () => reviewStoryboardRevision(revision.changes, shots, entities),
+    [revision.changes, shots, entities]
+  )
+  // Everything that can still apply starts accepted
+  const [rejected, setRejected] = useState<Set<number>>(new Set())
+  const [isApplying, setIsApplying] = useState(false)
+
+  const accepted = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item, index }) => !item.problem && !rejected.has(index))
+
+  const toggle = (index: number) => {
+    setRejected(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const handleApply = async () => {
+    if (accepted.length === 0) return
+    setIsApplying(true)
+    const applied = await onApply(accepted.map(({ item }) => item.change))
+    setIsApplying(false)
+    if (applied) onDismiss()
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="bg-zinc-800 rounded-xl p-4 border border-skinny-yellow/30"
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <GitCompare size={16} className="text-skinny-yellow" />
+        <span className="text-sm font-medium text-white">
+          {items.length} suggested change{items.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      {revision.summary && <p className="text-xs text-zinc-400 mb-3">{revision.summary}</p>}
+
+      <div className="space-y-2 mb-4 max-h-[360px] overflow-y-auto">
+        {items.map((item, index) => {
+          const isAccepted = !item.problem && !rejected.has(index)
+          return (
+            <div
+              key={index}
+              className={cn(
+                "rounded-lg border p-2.5 transition-opacity",
+                isAccepted ? "bg-zinc-900/60 border-zinc-700" : "bg-zinc-900/30 border-zinc-800 opacity-60"
+              )}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-white">{item.heading}</p>
+                  {'reason' in item.change && item.change.reason && (
+                    <p className="text-[11px] text-zinc-500 mt-0.5">{item.change.reason}</p>
+                  )}
+                </div>
+                {!item.problem && (
+                  <button
+                    onClick={() => toggle(index)}
+                    className={cn(
+                      "flex-shrink-0 flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-medium transition-colors",
+                      isAccepted
+                        ? "bg-skinny-yellow/10 text-skinny-yellow hover:bg-skinny-yellow/20"
+                        : "bg-zinc-800 text-zinc-400 hover:text-white"
+                    )}
+                    title={isAccepted ? 'Reject this change' : 'Accept this change'}
+                  >
+                    {isAccepted ? <Check size={11} /> : <X size={11} />}
+                    {isAccepted ? 'Accept' : 'Reject'}
+                  </button>
+                )}
+              </div>
+
+              {item.fieldDiffs.length > 0 && (
+                <div className="mt-2 space-y-1.5">
+                  {item.fieldDiffs.map(diff => (
+                    <div key={diff.field} className="text-[11px]">
+                      <span className="text-zinc-500">{diff.label}</span>
+                      {diff.before && <p className="text-red-400/80 line-through line-clamp-2">{diff.before}</p>}
+                      <p className="text-green-400 line-clamp-3">{diff.after || '(cleared)'}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {item.lines.length > 0 && (
+                <ul className="mt-2 space-y-0.5 text-[11px]">
+                  {item.lines.map((line, i) => (
+                    <li
+                      key={i}
+                      className={cn(
+                        "line-clamp-2",
+                        line.startsWith('+ ') ? "text-green-400" : line.startsWith('- ') ? "text-red-400/80" : "text-zinc-400"
+                      )}
+                    >
+                      {line}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {item.problem && (
+                <p className="mt-2 flex items-center gap-1 text-[11px] text-amber-400">
+                  <AlertTriangle size={11} />
+                  {item.problem}
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onDismiss}
+          disabled={isApplying}
+          className="px-3 py-2 rounded-lg bg-zinc-700 text-zinc-300 text-sm hover:bg-zinc-600 transition-colors disabled:opacity-50"
+        >
+          Dismiss
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={isApplying || accepted.length === 0}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-skinny-yellow text-black text-sm font-medium hover:bg-skinny-green transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplying && <Loader2 size={14} className="animate-spin" />}
+          Apply {accepted.length} change{accepted.length === 1 ? '' : 's'}
+        </button>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { useState } from 'react'
+import { ScanEye, Loader2, AlertTriangle, Check, RefreshCw } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { ShotConsistencyCheck } from '@/lib/types'
+
+interface ShotConsistencyPanelProps {
+  consistency?: ShotConsistencyCheck
+  onCheck?: () => Promise<ShotConsistencyCheck | null>
+  // Called with a fresh result after a re-check
+  onChecked?: (consistency: ShotConsistencyCheck) => void
+}
+
+function scoreColor(score: number, drifted: boolean) {
+  if (drifted) return 'bg-amber-500'
+  return score >= 85 ? 'bg-green-500' : 'bg-skinny-yellow'
+}
+
+export function ShotConsistencyPanel({ consistency, onCheck, onChecked }: ShotConsistencyPanelProps) {
+  const [isChecking, setIsChecking] = useState(false)
+
+  const handleCheck = async () => {
+    if (!onCheck) return
+    setIsChecking(true)
+    const result = await onCheck()
+    setIsChecking(false)
+    if (result) onChecked?.(result)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-zinc-400">
+          <ScanEye size={14} className="inline mr-1" />
+          Entity Consistency
+        </label>
+        {onCheck && (
+          <button
+            onClick={handleCheck}
+            disabled={isChecking}
+            className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white transition-colors disabled:opacity-50"
+          >
+            {isChecking ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+            {consistency ? 'Re-check' : 'Check'}
+          </button>
+        )}
+      </div>
+
+      {!consistency ? (
+        <p className="text-xs text-zinc-500">
+          Not checked yet. Entities need a vision analysis before they can be checked.
+        </p>
+      ) : (
+        <div
+          className={cn(
+            "p-3 rounded-lg border space-y-2.5",
+            consistency.drifted
+              ? "bg-amber-500/5 border-amber-500/30"
+              : "bg-zinc-800/50 border-zinc-700/50"
+          )}
+        >
+          <div className={cn("flex items-center gap-1.5 text-xs font-medium", consistency.drifted ? "text-amber-400" : "text-green-400")}>
+            {consistency.drifted ? <AlertTriangle size={12} /> : <Check size={12} />}
+            {consistency.drifted ? 'Drifted off-model' : 'Matches its entities'}
+          </div>
+
+          {consistency.entities.map(entity => (
+            <div key={entity.entityId}>
+              <div className="flex items-center justify-between text-[11px] mb-1">
+                <span className={entity.drifted ? "text-amber-300" : "text-zinc-300"}>{entity.entityName}</span>
+                <span className="text-zinc-500">{entity.score}</span>
+              </div>
+              <div className="h-1 rounded-full bg-zinc-700 overflow-hidden">
+                <div
+                  className={cn("h-full rounded-full", scoreColor(entity.score, entity.drifted))}
+                  style={{ width: `${entity.score}%` }}
+                />
+              </div>
+              {entity.issues.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-[11px] text-zinc-500">
+                  {entity.issues.map((issue, i) => <li key={i}>· {issue}</li>)}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
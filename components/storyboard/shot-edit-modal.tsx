@@ -3,11 +3,14 @@
 import { useState, useEffect, useMemo, useCallback } from 'react'
 import { createPortal } from 'react-dom'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Film, Camera, Clock, Video, Image, Save, Sparkles, Trash2, ChevronDown, ImagePlus, Play, Volume2, Check, Loader2, ImageOff, Layers } from 'lucide-react'
+import { X, Film, Camera, Clock, Video, Image, Save, Sparkles, Trash2, ChevronDown, ImagePlus, Play, Volume2, Check, Loader2, ImageOff, Layers, Link2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { StoryboardShot, StoryboardEntity, UpdateShotInput } from '@/lib/types'
+import { StoryboardShot, StoryboardEntity, UpdateShotInput, ShotTake, ShotConsistencyCheck } from '@/lib/types'
 import { EntityTypeBadge } from './entity-type-badge'
-import { MODEL_SPECS, ModelSpec } from '@/lib/orchestrator/model-specs'
+import { ShotTakeBrowser } from './shot-take-browser'
+import { ShotConsistencyPanel } from './shot-consistency-panel'
+import { ModelSpec } from '@/lib/orchestrator/model-specs'
+import { useModelSpecs } from '@/lib/hooks/use-model-specs'
 
 // Get duration options from a video model's params
 function getModelDurationOptions(model: ModelSpec): number[] {
@@ -88,6 +91,9 @@ interface ShotEditModalProps {
   onSave: (shotId: string, updates: UpdateShotInput) => Promise<void>
   onDelete: (shotId: string) => Promise<void>
   onGenerate: (shotId: string, options?: { referenceImages?: string[] }) => Promise<void>
+  onFetchTakes?: (shotId: string) => Promise<ShotTake[]>
+  onSelectTake?: (shotId: string, take: ShotTake) => Promise<boolean>
+  onCheckConsistency?: (shotId: string) => Promise<ShotConsistencyCheck | null>
 }
 
 const CAMERA_ANGLES = [
@@ -125,6 +131,9 @@ export function ShotEditModal({
   onSave,
   onDelete,
   onGenerate,
+  onFetchTakes,
+  onSelectTake,
+  onCheckConsistency,
 }: ShotEditModalProps) {
   const [mounted, setMounted] = useState(false)
   const [title, setTitle] = useState('')
@@ -138,24 +147,31 @@ export function ShotEditModal({
   const [isSaving, setIsSaving] = useState(false)
   const [selectedReferenceShots, setSelectedReferenceShots] = useState<string[]>([])
   const [selectedReferenceEntities, setSelectedReferenceEntities] = useState<string[]>([])
+  // Saved with the shot: generate-all waits for these shots and uses their outputs
+  const [referenceShotIds, setReferenceShotIds] = useState<string[]>([])
+  const [lastFrameShotId, setLastFrameShotId] = useState('')
+  // Output of a take promoted while the modal is open (the shot prop is a snapshot)
+  const [promotedUrl, setPromotedUrl] = useState<string | null>(null)
+  const [consistency, setConsistency] = useState<ShotConsistencyCheck | undefined>(undefined)
 
   // Real cost estimation state
   const [estimatedCost, setEstimatedCost] = useState<number | null>(null)
   const [costLoading, setCostLoading] = useState(false)
 
   // Filter models by media type
+  const { specs: modelSpecs, loading: specsLoading } = useModelSpecs()
   const availableModels = useMemo(() => {
-    return MODEL_SPECS.filter(m =>
+    return modelSpecs.filter(m =>
       mediaType === 'video'
         ? m.type === 'video'
         : m.type === 'text-to-image' || m.type === 'image-to-image'
     )
-  }, [mediaType])
+  }, [mediaType, modelSpecs])
 
   // Get currently selected model spec
   const selectedModel = useMemo(() => {
-    return MODEL_SPECS.find(m => m.id === modelSlug)
-  }, [modelSlug])
+    return modelSpecs.find(m => m.id === modelSlug)
+  }, [modelSlug, modelSpecs])
 
   // Get duration options for video models
   const durationOptions = useMemo(() => {
@@ -173,6 +189,18 @@ export function ShotEditModal({
     )
   }, [shots, shot])
 
+  // Any other shot can be built on, generated or not
+  const otherShots = useMemo(() => {
+    if (!shots || !shot) return []
+    return shots.filter(s => s.id !== shot.id)
+  }, [shots, shot])
+
+  const toggleDependencyShot = useCallback((shotId: string) => {
+    setReferenceShotIds(prev =>
+      prev.includes(shotId) ? prev.filter(id => id !== shotId) : [...prev, shotId]
+    )
+  }, [])
+
   // Get entities with images for reference selection
   const entitiesWithImages = useMemo(() => {
     return entities.filter(e => e.primaryImageUrl)
@@ -259,17 +287,22 @@ export function ShotEditModal({
       setPrompt(shot.prompt || shot.aiSuggestedPrompt || '')
       setSelectedReferenceShots([]) // Reset reference selection
       setSelectedReferenceEntities([]) // Reset entity selection
+      setReferenceShotIds(shot.referenceShotIds || [])
+      setLastFrameShotId(shot.lastFrameShotId || '')
+      setPromotedUrl(null)
+      setConsistency(shot.consistency)
     }
   }, [shot])
 
   // Clear model selection when media type changes if current model is incompatible
   // User must explicitly select a model - no defaults
   useEffect(() => {
+    if (specsLoading) return
     if (modelSlug && !availableModels.find(m => m.id === modelSlug)) {
       // Current model is not compatible with new media type - clear it
       setModelSlug('')
     }
-  }, [mediaType, availableModels])
+  }, [mediaType, availableModels, specsLoading])
 
   // Ensure duration is valid for selected model
   useEffect(() => {
@@ -294,6 +327,9 @@ export function ShotEditModal({
         mediaType,
         modelSlug: modelSlug || undefined,
         prompt: prompt || undefined,
+        referenceShotIds,
+        // Only video shots have an end frame; '' clears it
+        lastFrameShotId: mediaType === 'video' ? lastFrameShotId : '',
       })
       onClose()
     } catch (error) {
@@ -391,16 +427,38 @@ export function ShotEditModal({
             {/* Content */}
             <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
               {/* Preview if generated */}
-              {shot.generatedImageUrl && (
+              {(promotedUrl || shot.generatedImageUrl) && (
                 <div className="aspect-video rounded-xl overflow-hidden bg-zinc-800">
                   <img
-                    src={shot.generatedImageUrl}
+                    src={promotedUrl || shot.generatedImageUrl}
                     alt={shot.title || `Shot ${shot.shotNumber}`}
                     className="w-full h-full object-cover"
                   />
                 </div>
               )}
 
+              {/* Earlier takes */}
+              {onFetchTakes && onSelectTake && shot.generationId && (
+                <ShotTakeBrowser
+                  shot={shot}
+                  onFetchTakes={onFetchTakes}
+                  onSelectTake={onSelectTake}
+                  onSelected={(take) => {
+                    setPromotedUrl(take.outputUrls[0] || null)
+                    setConsistency(take.consistency)
+                  }}
+                />
+              )}
+
+              {/* How well the output matches the shot's entities */}
+              {shot.status === 'completed' && (consistency || (onCheckConsistency && shot.mediaType === 'image' && (shot.entities?.length || 0) > 0)) && (
+                <ShotConsistencyPanel
+                  consistency={consistency}
+                  onCheck={onCheckConsistency ? () => onCheckConsistency(shot.id) : undefined}
+                  onChecked={setConsistency}
+                />
+              )}
+
               {/* Basic Info */}
               <div className="space-y-4">
                 <div>
@@ -612,6 +670,58 @@ export function ShotEditModal({
                 </div>
               )}
 
+              {/* Shots this one is built on (used by Generate All) */}
+              {otherShots.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-zinc-400 mb-2">
+                    <Link2 size={14} className="inline mr-1" />
+                    Built on Shots
+                  </label>
+                  <p className="text-xs text-zinc-500 mb-3">
+                    Their outputs are used as references, so Generate All waits for them
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {otherShots.map(depShot => {
+                      const isSelected = referenceShotIds.includes(depShot.id)
+                      return (
+                        <button
+                          key={depShot.id}
+                          onClick={() => toggleDependencyShot(depShot.id)}
+                          title={depShot.title || `Shot ${depShot.shotNumber}`}
+                          className={cn(
+                            "px-2 py-1 rounded-md border text-xs font-mono transition-colors",
+                            isSelected
+                              ? "bg-skinny-yellow/20 border-skinny-yellow text-skinny-yellow"
+                              : "bg-zinc-800 border-zinc-700 text-zinc-400 hover:border-zinc-600"
+                          )}
+                        >
+                          {String(depShot.shotNumber).padStart(2, '0')}
+                        </button>
+                      )
+                    })}
+                  </div>
+                  {mediaType === 'video' && (
+                    <div className="mt-3">
+                      <label className="block text-xs text-zinc-500 mb-1.5">
+                        End on the output of
+                      </label>
+                      <select
+                        value={lastFrameShotId}
+                        onChange={(e) => setLastFrameShotId(e.target.value)}
+                        className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-skinny-yellow/50"
+                      >
+                        <option value="">No end frame</option>
+                        {otherShots.map(depShot => (
+                          <option key={depShot.id} value={depShot.id}>
+                            Shot {depShot.shotNumber}{depShot.title ? ` - ${depShot.title}` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* No completed shots message */}
               {selectedModel?.capabilities.supportsReferenceImages && completedShots.length === 0 && entitiesWithImages.length === 0 && (
                 <div className="flex items-center gap-3 p-3 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
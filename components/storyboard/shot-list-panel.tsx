@@ -20,8 +20,9 @@ import {
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { cn } from '@/lib/utils'
-import { Plus, GripVertical, Image, Video, Check, Clock, AlertCircle, Sparkles, Trash2, Edit2, Loader2 } from 'lucide-react'
+import { Plus, GripVertical, Image, Video, Check, Clock, AlertCircle, AlertTriangle, Sparkles, Trash2, Edit2, Loader2, X, Link2, Square } from 'lucide-react'
 import { StoryboardShot, StoryboardEntity, ShotEntityReference } from '@/lib/types'
+import { ShotQueueEntry, describeQueueEntry, getShotDependencies } from '@/lib/storyboard-schedule'
 import { EntityTypeBadge } from './entity-type-badge'
 import { ShotListSkeleton } from './storyboard-skeleton'
 import { glassClasses } from '@/lib/liquid-glass-styles'
@@ -34,29 +35,41 @@ interface ShotListPanelProps {
   onDeleteShot: (shotId: string) => void
   onReorderShots: (orderedIds: string[]) => void
   onGenerateShot: (shotId: string) => void
+  onCancelShot?: (shotId: string) => void
   selectedShotId?: string
   onSelectShot: (shotId: string) => void
   isLoading?: boolean
+  // Generate-all
+  onGenerateAll: () => void
+  onStopGenerateAll?: () => void
+  isGeneratingAll?: boolean
+  shotQueue?: Record<string, ShotQueueEntry>
 }
 
 interface ShotListItemProps {
   shot: StoryboardShot
+  shots: StoryboardShot[]
   entities: StoryboardEntity[]
+  queueEntry?: ShotQueueEntry
   isSelected: boolean
   onSelect: () => void
   onEdit: () => void
   onDelete: () => void
   onGenerate: () => void
+  onCancel?: () => void
 }
 
 function ShotListItem({
   shot,
+  shots,
   entities,
+  queueEntry,
   isSelected,
   onSelect,
   onEdit,
   onDelete,
   onGenerate,
+  onCancel,
 }: ShotListItemProps) {
   const {
     attributes,
@@ -77,6 +90,15 @@ function ShotListItem({
     ?.map(ref => ref.entity)
     .filter((e): e is StoryboardEntity => e !== undefined) || []
 
+  // Other shots this one is built on
+  const dependencyNumbers = getShotDependencies(shot)
+    .map(id => shots.find(s => s.id === id)?.shotNumber)
+    .filter((n): n is number => n !== undefined)
+  const queueStatus = describeQueueEntry(queueEntry, shots)
+  const driftedNames = shot.status === 'completed' && shot.consistency?.drifted
+    ? shot.consistency.entities.filter(e => e.drifted).map(e => e.entityName)
+    : []
+
   const getStatusIcon = () => {
     switch (shot.status) {
       case 'completed':
@@ -148,6 +170,37 @@ function ShotListItem({
             {shot.description || 'No description'}
           </p>
 
+          {/* Dependencies, entity drift and generate-all progress */}
+          {(dependencyNumbers.length > 0 || driftedNames.length > 0 || queueStatus) && (
+            <div className="flex flex-wrap items-center gap-2 mt-1.5 text-[10px]">
+              {dependencyNumbers.length > 0 && (
+                <span className="flex items-center gap-1 text-zinc-500" title="Uses these shots' outputs">
+                  <Link2 size={10} />
+                  {dependencyNumbers.map(n => String(n).padStart(2, '0')).join(', ')}
+                </span>
+              )}
+              {driftedNames.length > 0 && (
+                <span className="flex items-center gap-1 text-amber-400" title={`Doesn't match: ${driftedNames.join(', ')}`}>
+                  <AlertTriangle size={10} />
+                  Off-model
+                </span>
+              )}
+              {queueStatus && (
+                <span
+                  className={cn(
+                    "truncate",
+                    queueStatus.tone === 'error' && "text-red-400",
+                    queueStatus.tone === 'active' && "text-skinny-yellow",
+                    queueStatus.tone === 'muted' && "text-zinc-500"
+                  )}
+                  title={queueStatus.label}
+                >
+                  {queueStatus.label}
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Entity badges */}
           {shotEntities.length > 0 && (
             <div className="flex flex-wrap gap-1 mt-2">
@@ -195,6 +248,15 @@ function ShotListItem({
             <Sparkles size={12} />
           </button>
         )}
+        {shot.status === 'generating' && shot.generationId && onCancel && (
+          <button
+            onClick={onCancel}
+            className="p-1.5 rounded-md bg-zinc-700/50 text-zinc-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+            title="Cancel generation"
+          >
+            <X size={12} />
+          </button>
+        )}
         <button
           onClick={onEdit}
           className="p-1.5 rounded-md bg-zinc-700/50 text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors"
@@ -242,9 +304,14 @@ export function ShotListPanel({
   onDeleteShot,
   onReorderShots,
   onGenerateShot,
+  onCancelShot,
   selectedShotId,
   onSelectShot,
   isLoading,
+  onGenerateAll,
+  onStopGenerateAll,
+  isGeneratingAll,
+  shotQueue = {},
 }: ShotListPanelProps) {
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -344,12 +411,15 @@ export function ShotListPanel({
                     <ShotListItem
                       key={shot.id}
                       shot={shot}
+                      shots={shots}
                       entities={entities}
+                      queueEntry={shotQueue[shot.id]}
                       isSelected={shot.id === selectedShotId}
                       onSelect={() => onSelectShot(shot.id)}
                       onEdit={() => onEditShot(shot)}
                       onDelete={() => onDeleteShot(shot.id)}
                       onGenerate={() => onGenerateShot(shot.id)}
+                      onCancel={onCancelShot ? () => onCancelShot(shot.id) : undefined}
                     />
                   ))}
                 </div>
@@ -360,15 +430,49 @@ export function ShotListPanel({
       </div>
 
       {/* Quick Actions Footer */}
-      {sortedShots.length > 0 && (
+      {sortedShots.length > 0 && isGeneratingAll ? (
+        <div className="flex-shrink-0 p-3 border-t border-white/5 space-y-2">
+          {(() => {
+            const entries = Object.values(shotQueue)
+            const done = entries.filter(e => e.state === 'completed').length
+            const failed = entries.filter(e => e.state === 'failed' || e.state === 'blocked').length
+            return (
+              <>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-zinc-400">
+                    {done} of {entries.length} generated
+                    {failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+                  </span>
+                  {onStopGenerateAll && (
+                    <button
+                      onClick={onStopGenerateAll}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md text-zinc-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                      title="Stop starting new shots"
+                    >
+                      <Square size={10} />
+                      Stop
+                    </button>
+                  )}
+                </div>
+                <div className="h-1.5 rounded-full bg-white/5 overflow-hidden flex">
+                  <div
+                    className="h-full bg-skinny-yellow transition-all duration-500"
+                    style={{ width: `${entries.length ? (done / entries.length) * 100 : 0}%` }}
+                  />
+                  <div
+                    className="h-full bg-red-500/60 transition-all duration-500"
+                    style={{ width: `${entries.length ? (failed / entries.length) * 100 : 0}%` }}
+                  />
+                </div>
+              </>
+            )
+          })()}
+        </div>
+      ) : sortedShots.length > 0 && (
         <div className="flex-shrink-0 p-3 border-t border-white/5">
           <button
-            onClick={() => {
-              // Generate all pending shots
-              const pendingShots = shots.filter(s => s.status === 'pending')
-              pendingShots.forEach(s => onGenerateShot(s.id))
-            }}
-            disabled={!shots.some(s => s.status === 'pending') || isLoading}
+            onClick={onGenerateAll}
+            disabled={!shots.some(s => s.status === 'pending' || s.status === 'error') || isLoading}
             className={cn(
               "w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl font-medium text-sm transition-all duration-300",
               "bg-white/5 backdrop-blur-sm border border-white/10 text-white",
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { History, Loader2, AlertCircle, Check, ArrowLeftRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatCents } from '@/lib/pricing'
+import { StoryboardShot, ShotTake } from '@/lib/types'
+
+interface ShotTakeBrowserProps {
+  shot: StoryboardShot
+  onFetchTakes: (shotId: string) => Promise<ShotTake[]>
+  onSelectTake: (shotId: string, take: ShotTake) => Promise<boolean>
+  // Called after a take is put on the board
+  onSelected?: (take: ShotTake) => void
+}
+
+const isVideoUrl = (url: string) => /\.(mp4|webm|mov)(\?|$)/i.test(url)
+
+function TakeMedia({ url, className }: { url?: string; className?: string }) {
+  if (!url) return <div className={cn('bg-zinc-800', className)} />
+  return isVideoUrl(url)
+    ? <video src={url} muted loop playsInline autoPlay className={cn('object-cover', className)} />
+    : <img src={url} alt="" className={cn('object-cover', className)} />
+}
+
+function TakeDetails({ take }: { take: ShotTake }) {
+  return (
+    <div className="mt-2 space-y-1 text-[11px]">
+      <div className="flex items-center justify-between text-zinc-400">
+        <span>{take.modelSlug || 'Unknown model'}</span>
+        {take.costCents !== undefined && <span>{formatCents(take.costCents)}</span>}
+      </div>
+      {take.entities.length > 0 && (
+        <p className="text-zinc-500 truncate">
+          {take.entities.map(e => e.entityName).join(', ')}
+        </p>
+      )}
+      {take.prompt && (
+        <p className="text-zinc-500 line-clamp-3" title={take.prompt}>{take.prompt}</p>
+      )}
+    </div>
+  )
+}
+
+export function ShotTakeBrowser({ shot, onFetchTakes, onSelectTake, onSelected }: ShotTakeBrowserProps) {
+  const [takes, setTakes] = useState<ShotTake[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [boardGenerationId, setBoardGenerationId] = useState(shot.generationId)
+  const [comparingId, setComparingId] = useState<string | null>(null)
+  const [isSelecting, setIsSelecting] = useState(false)
+
+  useEffect(() => {
+    let canceled = false
+    setIsLoading(true)
+    setComparingId(null)
+    setBoardGenerationId(shot.generationId)
+    onFetchTakes(shot.id).then(result => {
+      if (canceled) return
+      setTakes(result)
+      setIsLoading(false)
+    })
+    return () => { canceled = true }
+  }, [shot.id, shot.generationId, onFetchTakes])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-zinc-500">
+        <Loader2 size={12} className="animate-spin" />
+        Loading takes...
+      </div>
+    )
+  }
+
+  // A single take is just the shot itself - nothing to compare
+  if (takes.length < 2) return null
+
+  const boardTake = takes.find(t => t.generationId === boardGenerationId)
+  const comparing = takes.find(t => t.id === comparingId)
+
+  const handleSelect = async (take: ShotTake) => {
+    setIsSelecting(true)
+    const ok = await onSelectTake(shot.id, take)
+    setIsSelecting(false)
+    if (ok) {
+      setBoardGenerationId(take.generationId)
+      setComparingId(null)
+      onSelected?.(take)
+    }
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-zinc-400 mb-2">
+        <History size={14} className="inline mr-1" />
+        Takes ({takes.length})
+      </label>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {takes.map(take => {
+          const onBoard = take.generationId === boardGenerationId
+          return (
+            <button
+              key={take.id}
+              onClick={() => setComparingId(onBoard || take.status !== 'completed' ? null : take.id)}
+              disabled={take.status !== 'completed'}
+              className={cn(
+                "relative flex-shrink-0 w-24 aspect-video rounded-lg overflow-hidden border-2 transition-all",
+                onBoard
+                  ? "border-skinny-yellow"
+                  : comparingId === take.id
+                  ? "border-white/60"
+                  : "border-zinc-700 hover:border-zinc-600",
+                take.status !== 'completed' && "cursor-not-allowed"
+              )}
+              title={take.prompt}
+            >
+              {take.status === 'completed' ? (
+                <TakeMedia url={take.outputUrls[0]} className="w-full h-full" />
+              ) : (
+                <div className="w-full h-full bg-zinc-800 flex items-center justify-center">
+                  {take.status === 'failed'
+                    ? <AlertCircle size={14} className="text-red-400" />
+                    : <Loader2 size={14} className="text-skinny-yellow animate-spin" />}
+                </div>
+              )}
+              <span className="absolute top-1 left-1 px-1 py-0.5 rounded bg-black/70 text-[10px] font-medium text-white">
+                T{take.takeNumber}
+              </span>
+              {onBoard && (
+                <span className="absolute bottom-1 right-1 w-4 h-4 rounded-full bg-skinny-yellow flex items-center justify-center">
+                  <Check size={10} className="text-black" />
+                </span>
+              )}
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Side-by-side comparison with the take on the board */}
+      {comparing && (
+        <div className="mt-3 p-3 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-[10px] font-medium text-zinc-500 uppercase tracking-wider mb-1.5">
+                On board{boardTake ? ` · T${boardTake.takeNumber}` : ''}
+              </p>
+              <TakeMedia url={boardTake?.outputUrls[0] || shot.generatedImageUrl} className="w-full aspect-video rounded-lg" />
+              {boardTake && <TakeDetails take={boardTake} />}
+            </div>
+            <div>
+              <p className="text-[10px] font-medium text-zinc-500 uppercase tracking-wider mb-1.5">
+                Take {comparing.takeNumber} · {new Date(comparing.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </p>
+              <TakeMedia url={comparing.outputUrls[0]} className="w-full aspect-video rounded-lg" />
+              <TakeDetails take={comparing} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2 mt-3">
+            <span className="text-[11px] text-zinc-500">Switching takes is free</span>
+            <button
+              onClick={() => handleSelect(comparing)}
+              disabled={isSelecting || shot.status === 'generating'}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-skinny-yellow text-black hover:bg-skinny-green transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSelecting ? <Loader2 size={12} className="animate-spin" /> : <ArrowLeftRight size={12} />}
+              Use take {comparing.takeNumber}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
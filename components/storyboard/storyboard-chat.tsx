@@ -2,12 +2,13 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Send, Sparkles, Loader2, Film, User, Globe, Box, Palette } from 'lucide-react'
+import { Send, Sparkles, Loader2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useStoryboard } from '@/lib/context/storyboard-context'
 import { useUser } from '@/lib/context/user-context'
 import { EntityTypeBadge } from './entity-type-badge'
-import { StoryboardShot, StoryboardEntity, CreateShotInput, EntityType } from '@/lib/types'
+import { RevisionDiffCard } from './revision-diff-card'
+import { StoryboardRevision, ShotRevisionChange, parseStoryboardRevision, stripRevisionBlocks } from '@/lib/storyboard-revision'
 import { toast } from 'sonner'
 
 interface Message {
@@ -17,67 +18,13 @@ interface Message {
   createdAt: Date
 }
 
-// Parse shot-list blocks from AI response
-function parseShotListBlock(text: string): CreateShotInput[] | null {
-  const shotListMatch = text.match(/```shot-list\s*([\s\S]*?)```/)
-  if (!shotListMatch) return null
-
-  try {
-    const jsonStr = shotListMatch[1].trim()
-    const parsed = JSON.parse(jsonStr)
-    if (parsed.shots && Array.isArray(parsed.shots)) {
-      return parsed.shots.map((shot: any) => ({
-        title: shot.title || '',
-        description: shot.description || '',
-        cameraAngle: shot.camera_angle || shot.cameraAngle,
-        cameraMovement: shot.camera_movement || shot.cameraMovement,
-        durationSeconds: shot.duration_seconds || shot.durationSeconds || 5,
-        mediaType: shot.media_type || shot.mediaType || 'image',
-        aiSuggestedPrompt: shot.suggested_prompt || shot.aiSuggestedPrompt,
-        aiNotes: shot.notes || shot.aiNotes,
-      }))
-    }
-  } catch (e) {
-    console.error('Failed to parse shot-list block:', e)
-  }
-  return null
-}
-
-// Parse entity-suggestion blocks from AI response
-function parseEntitySuggestionBlock(text: string): { name: string; type: EntityType; description: string }[] | null {
-  const entityMatch = text.match(/```entity-suggestion\s*([\s\S]*?)```/)
-  if (!entityMatch) return null
-
-  try {
-    const jsonStr = entityMatch[1].trim()
-    const parsed = JSON.parse(jsonStr)
-    if (parsed.entities && Array.isArray(parsed.entities)) {
-      return parsed.entities.map((e: any) => ({
-        name: e.name,
-        type: e.type as EntityType,
-        description: e.description,
-      }))
-    }
-  } catch (e) {
-    console.error('Failed to parse entity-suggestion block:', e)
-  }
-  return null
-}
-
-// Remove code blocks from display text
-function cleanDisplayText(text: string): string {
-  return text
-    .replace(/```shot-list[\s\S]*?```/g, '')
-    .replace(/```entity-suggestion[\s\S]*?```/g, '')
-    .trim()
-}
-
 export function StoryboardChat() {
   const {
     currentStoryboard,
     shots,
     entities,
-    addShotsFromAI,
+    applyRevision,
+    undo,
   } = useStoryboard()
 
   const { whop } = useUser()
@@ -85,7 +32,7 @@ export function StoryboardChat() {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
-  const [suggestedShots, setSuggestedShots] = useState<CreateShotInput[]>([])
+  const [pendingRevision, setPendingRevision] = useState<StoryboardRevision | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   // Scroll to bottom when messages change
@@ -99,7 +46,7 @@ export function StoryboardChat() {
       setMessages([{
         id: 'welcome',
         role: 'assistant',
-        content: `Welcome to your storyboard "${currentStoryboard.title}"! I'm here to help you plan your shots and maintain visual consistency.\n\nYou have ${entities.length} entities defined and ${shots.length} shots planned.\n\nWhat would you like to work on? You can:\n- Ask me to generate shot ideas for your project\n- Describe a scene and I'll help break it down into shots\n- Discuss your entities and how they should appear`,
+        content: `Welcome to your storyboard "${currentStoryboard.title}"! I'm here to help you plan your shots and maintain visual consistency.\n\nYou have ${entities.length} entities defined and ${shots.length} shots planned.\n\nWhat would you like to work on? You can:\n- Ask me to generate shot ideas for your project\n- Describe a scene and I'll help break it down into shots\n- Ask me to tighten, split, reorder or cut the shots you have\n- Discuss your entities and how they should appear`,
         createdAt: new Date(),
       }])
     }
@@ -129,9 +76,11 @@ export function StoryboardChat() {
       }))
 
       const shotContext = shots.map(s => ({
+        id: s.id,
         number: s.shotNumber,
         title: s.title || `Shot ${s.shotNumber}`,
         description: s.description,
+        cameraAngle: s.cameraAngle,
         status: s.status,
       }))
 
@@ -150,23 +99,12 @@ ${currentStoryboard.mood ? `Mood: ${currentStoryboard.mood}` : ''}
 ${entityContext.length > 0 ? entityContext.map(e => `- ${e.name} (${e.type}): ${e.description}`).join('\n') : 'No entities defined yet.'}
 
 ### Current Shots (${shotContext.length})
-${shotContext.length > 0 ? shotContext.map(s => `- Shot ${s.number}: ${s.title} - ${s.description} [${s.status}]`).join('\n') : 'No shots planned yet.'}
-
-When suggesting shots, you can use this format to create a shot list:
-\`\`\`shot-list
-{
-  "shots": [
-    {
-      "title": "Shot title",
-      "description": "Visual description",
-      "cameraAngle": "wide|medium|close-up|etc",
-      "cameraMovement": "static|pan|tilt|dolly|etc",
-      "mediaType": "image|video",
-      "suggestedPrompt": "Detailed generation prompt"
-    }
-  ]
-}
-\`\`\`
+${shotContext.length > 0 ? shotContext.map(s => `- Shot ${s.number} (id: ${s.id}): ${s.title} - ${s.description}${s.cameraAngle ? ` (${s.cameraAngle})` : ''} [${s.status}]`).join('\n') : 'No shots planned yet.'}
+
+Propose changes with your functions - the user reviews each one before it's applied:
+- propose_shot_list: new shots, added after the existing ones
+- suggest_entities: characters, worlds, objects or styles worth defining
+- revise_shots: edit, split, delete, add or reorder existing shots, addressed by the ids above. Edits only list the fields that change
 
 Focus on helping the user plan their visual story with consistent characters and settings.
 `
@@ -185,6 +123,7 @@ Focus on helping the user plan their visual story with consistent characters and
           ],
           modelId: 'gemini-2.5-flash', // Always use default orchestrator model
           selectedGenerationModelId: 'creative-consultant', // Disable generation in storyboard chat
+          toolset: 'storyboard',
         }),
       })
 
@@ -202,6 +141,7 @@ Focus on helping the user plan their visual story with consistent characters and
 
       const decoder = new TextDecoder()
       let assistantContent = ''
+      let calledRevision: StoryboardRevision | null = null
 
       while (true) {
         const { done, value } = await reader.read()
@@ -220,6 +160,9 @@ Focus on helping the user plan their visual story with consistent characters and
               if (parsed.content) {
                 assistantContent += parsed.content
               }
+              if (parsed.storyboardRevision) {
+                calledRevision = parsed.storyboardRevision
+              }
               if (parsed.error) {
                 throw new Error(parsed.error)
               }
@@ -230,20 +173,19 @@ Focus on helping the user plan their visual story with consistent characters and
         }
       }
 
-      // Parse any structured blocks
-      const parsedShots = parseShotListBlock(assistantContent)
-      const parsedEntities = parseEntitySuggestionBlock(assistantContent)
-
-      if (parsedShots && parsedShots.length > 0) {
-        setSuggestedShots(parsedShots)
+      // Shot lists, entity suggestions and revisions all become one reviewable
+      // diff - from function calls, or blocks if the model wrote them instead
+      const revision = calledRevision || parseStoryboardRevision(assistantContent)
+      if (revision) {
+        setPendingRevision(revision)
       }
 
-      const cleanContent = cleanDisplayText(assistantContent)
+      const cleanContent = stripRevisionBlocks(assistantContent)
 
       const assistantMessage: Message = {
         id: `assistant-${Date.now()}`,
         role: 'assistant',
-        content: cleanContent || assistantContent,
+        content: cleanContent || assistantContent || (revision ? 'Here\'s what I\'d suggest - review the changes below.' : ''),
         createdAt: new Date(),
       }
 
@@ -256,17 +198,15 @@ Focus on helping the user plan their visual story with consistent characters and
     }
   }, [input, isLoading, currentStoryboard, messages, entities, shots, whop])
 
-  const handleAddSuggestedShots = useCallback(async () => {
-    if (suggestedShots.length === 0) return
-
-    try {
-      await addShotsFromAI(suggestedShots)
-      toast.success(`Added ${suggestedShots.length} shots to your storyboard!`)
-      setSuggestedShots([])
-    } catch (error) {
-      toast.error('Failed to add shots')
+  const handleApplyRevision = useCallback(async (changes: ShotRevisionChange[]): Promise<boolean> => {
+    const applied = await applyRevision(changes, pendingRevision?.summary)
+    if (applied) {
+      toast.success(`Applied ${changes.length} change${changes.length === 1 ? '' : 's'} to your storyboard`, {
+        action: { label: 'Undo', onClick: () => { undo() } },
+      })
     }
-  }, [suggestedShots, addShotsFromAI])
+    return !!applied
+  }, [applyRevision, pendingRevision, undo])
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -338,39 +278,16 @@ Focus on helping the user plan their visual story with consistent characters and
           </motion.div>
         )}
 
-        {/* Suggested shots card */}
+        {/* Suggested changes, reviewed against the board */}
         <AnimatePresence>
-          {suggestedShots.length > 0 && (
-            <motion.div
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -10 }}
-              className="bg-zinc-800 rounded-xl p-4 border border-skinny-yellow/30"
-            >
-              <div className="flex items-center gap-2 mb-3">
-                <Film size={16} className="text-skinny-yellow" />
-                <span className="text-sm font-medium text-white">
-                  {suggestedShots.length} shots suggested
-                </span>
-              </div>
-              <div className="space-y-2 mb-4">
-                {suggestedShots.slice(0, 3).map((shot, i) => (
-                  <div key={i} className="text-xs text-zinc-400 flex items-start gap-2">
-                    <span className="text-skinny-yellow">{i + 1}.</span>
-                    <span className="line-clamp-1">{shot.title || shot.description}</span>
-                  </div>
-                ))}
-                {suggestedShots.length > 3 && (
-                  <p className="text-xs text-zinc-500">+{suggestedShots.length - 3} more</p>
-                )}
-              </div>
-              <button
-                onClick={handleAddSuggestedShots}
-                className="w-full py-2 rounded-lg bg-skinny-yellow text-black text-sm font-medium hover:bg-skinny-green transition-colors"
-              >
-                Add All Shots
-              </button>
-            </motion.div>
+          {pendingRevision && (
+            <RevisionDiffCard
+              revision={pendingRevision}
+              shots={shots}
+              entities={entities}
+              onApply={handleApplyRevision}
+              onDismiss={() => setPendingRevision(null)}
+            />
           )}
         </AnimatePresence>
 
@@ -2,9 +2,9 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Film, Plus, List, Clock, User, Globe, Box, Palette, ChevronRight, Settings, ChevronDown, MessageSquare, Layers, LayoutList, PanelLeftClose, PanelRightClose, PanelLeft, PanelRight, Play } from 'lucide-react'
+import { Film, Plus, List, Clock, User, Globe, Box, Palette, ChevronRight, Settings, ChevronDown, MessageSquare, Layers, LayoutList, PanelLeftClose, PanelRightClose, PanelLeft, PanelRight, Play, Clapperboard, FileDown } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { useStoryboard } from '@/lib/context/storyboard-context'
+import { useStoryboard, GenerateAllPlan } from '@/lib/context/storyboard-context'
 import { useApp } from '@/lib/context/app-context'
 import { EtherealBackground } from '@/components/ui/ethereal-background'
 import { ModelSelector } from '@/components/ui/model-selector'
@@ -16,6 +16,10 @@ import { StoryboardChat } from './storyboard-chat'
 import { ShotEditModal } from './shot-edit-modal'
 import { EntityDetailModal } from './entity-detail-modal'
 import { ShotSlideshowModal } from './shot-slideshow-modal'
+import { AnimaticModal } from './animatic-modal'
+import { ExportDialog } from './export-dialog'
+import { GenerateAllDialog } from './generate-all-dialog'
+import { HistoryPanel } from './history-panel'
 import { StoryboardShot, StoryboardEntity, EntityType, UpdateShotInput } from '@/lib/types'
 import { Folder as LibraryFolder } from '@/lib/context/folder-context'
 import { Generation as ContextGeneration } from '@/lib/context/generation-context'
@@ -351,7 +355,23 @@ export function StoryboardView() {
     updateEntity,
     removeEntity,
     analyzeEntityImage,
+    addEntityImage,
+    updateEntityImage,
+    removeEntityImage,
+    generateEntityTurnaround,
     generateShot,
+    cancelShotGeneration,
+    quoteGenerateAll,
+    generateAllPending,
+    stopGenerateAll,
+    isGeneratingAll,
+    shotQueue,
+    fetchShotTakes,
+    selectShotTake,
+    checkShotConsistency,
+    history,
+    undo,
+    redo,
   } = useStoryboard()
 
   const { models, selectedModel, setSelectedModel, recentModels } = useApp()
@@ -368,12 +388,41 @@ export function StoryboardView() {
   const [leftPanelOpen, setLeftPanelOpen] = useState(true)
   const [rightPanelOpen, setRightPanelOpen] = useState(true)
   const [showSlideshow, setShowSlideshow] = useState(false)
+  const [showAnimatic, setShowAnimatic] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [showGenerateAll, setShowGenerateAll] = useState(false)
+  const [generateAllPlan, setGenerateAllPlan] = useState<GenerateAllPlan | null>(null)
 
   // Load storyboards on mount
   useEffect(() => {
     fetchStoryboards()
   }, [fetchStoryboards])
 
+  // Undo/redo shortcuts, left to text fields and open dialogs otherwise
+  const dialogOpen = showShotEditModal || showEntityDetailModal || showEntityPicker || showSlideshow ||
+    showAnimatic || showExport || showGenerateAll || showModelSelector
+  useEffect(() => {
+    if (!currentStoryboard || dialogOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return
+      const target = e.target as HTMLElement
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [currentStoryboard, dialogOpen, undo, redo])
+
   const handleCreateStoryboard = async () => {
     const sb = await createStoryboard({
       title: 'Untitled Storyboard',
@@ -415,12 +464,14 @@ export function StoryboardView() {
   }, [updateShot])
 
   const handleDeleteShot = useCallback(async (shotId: string) => {
-    await deleteShot(shotId)
+    const deleted = await deleteShot(shotId)
     if (selectedShotId === shotId) {
       setSelectedShotId(undefined)
     }
-    toast.success('Shot deleted')
-  }, [deleteShot, selectedShotId])
+    if (deleted) {
+      toast.success('Shot deleted', { action: { label: 'Undo', onClick: () => { undo() } } })
+    }
+  }, [deleteShot, selectedShotId, undo])
 
   const handleReorderShots = useCallback(async (orderedIds: string[]) => {
     await reorderShots(orderedIds)
@@ -429,13 +480,28 @@ export function StoryboardView() {
   const handleGenerateShot = useCallback(async (shotId: string) => {
     toast.loading('Generating shot...', { id: `gen-${shotId}` })
     try {
-      await generateShot(shotId)
-      toast.success('Shot generated!', { id: `gen-${shotId}` })
+      const success = await generateShot(shotId)
+      if (success) {
+        toast.success('Shot generated!', { id: `gen-${shotId}` })
+      } else {
+        // generateShot already reported the error (or the user canceled)
+        toast.dismiss(`gen-${shotId}`)
+      }
     } catch (error) {
       toast.error('Failed to generate shot', { id: `gen-${shotId}` })
     }
   }, [generateShot])
 
+  const handleCancelShot = useCallback(async (shotId: string) => {
+    await cancelShotGeneration(shotId)
+  }, [cancelShotGeneration])
+
+  const handleGenerateAll = useCallback(async () => {
+    setGenerateAllPlan(null)
+    setShowGenerateAll(true)
+    setGenerateAllPlan(await quoteGenerateAll())
+  }, [quoteGenerateAll])
+
   const handleGenerateShotWithOptions = useCallback(async (
     shotId: string,
     options?: { referenceImages?: string[] }
@@ -613,6 +679,11 @@ export function StoryboardView() {
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Undo/redo and recent history */}
+          {currentStoryboard && (
+            <HistoryPanel history={history} onUndo={undo} onRedo={redo} />
+          )}
+
           {/* Model/Mode Selector Button */}
           <button
             onClick={() => setShowModelSelector(true)}
@@ -634,6 +705,28 @@ export function StoryboardView() {
             </button>
           )}
 
+          {/* Export Button */}
+          {currentStoryboard && shots.length > 0 && (
+            <button
+              onClick={() => setShowExport(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-zinc-800/50 hover:bg-zinc-800 text-zinc-300 transition-colors"
+            >
+              <FileDown size={14} />
+              <span className="text-sm font-medium">Export</span>
+            </button>
+          )}
+
+          {/* Animatic Render Button */}
+          {currentStoryboard && shots.some(s => s.status === 'completed') && (
+            <button
+              onClick={() => setShowAnimatic(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-zinc-800/50 hover:bg-zinc-800 text-zinc-300 transition-colors"
+            >
+              <Clapperboard size={14} />
+              <span className="text-sm font-medium">Render</span>
+            </button>
+          )}
+
           <button className="p-2 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors">
             <Settings size={16} />
           </button>
@@ -691,9 +784,14 @@ export function StoryboardView() {
                       onDeleteShot={handleDeleteShot}
                       onReorderShots={handleReorderShots}
                       onGenerateShot={handleGenerateShot}
+                      onCancelShot={handleCancelShot}
                       selectedShotId={selectedShotId}
                       onSelectShot={setSelectedShotId}
                       isLoading={isLoading}
+                      onGenerateAll={handleGenerateAll}
+                      onStopGenerateAll={stopGenerateAll}
+                      isGeneratingAll={isGeneratingAll}
+                      shotQueue={shotQueue}
                     />
                   </div>
                 </>
@@ -800,9 +898,14 @@ export function StoryboardView() {
                     onDeleteShot={handleDeleteShot}
                     onReorderShots={handleReorderShots}
                     onGenerateShot={handleGenerateShot}
+                    onCancelShot={handleCancelShot}
                     selectedShotId={selectedShotId}
                     onSelectShot={setSelectedShotId}
                     isLoading={isLoading}
+                    onGenerateAll={handleGenerateAll}
+                    onStopGenerateAll={stopGenerateAll}
+                    isGeneratingAll={isGeneratingAll}
+                    shotQueue={shotQueue}
                   />
                 </motion.div>
               )}
@@ -931,6 +1034,7 @@ export function StoryboardView() {
               onSelectShot={setSelectedShotId}
               onGenerateShot={handleGenerateShot}
               isLoading={isLoading}
+              shotQueue={shotQueue}
             />
           </div>
         </>
@@ -973,11 +1077,14 @@ export function StoryboardView() {
         onSave={handleSaveShot}
         onDelete={handleDeleteShot}
         onGenerate={handleGenerateShotWithOptions}
+        onFetchTakes={fetchShotTakes}
+        onSelectTake={selectShotTake}
+        onCheckConsistency={checkShotConsistency}
       />
 
       {/* Entity Detail Modal */}
       <EntityDetailModal
-        entity={editingEntity}
+        entity={editingEntity ? entities.find(e => e.id === editingEntity.id) || editingEntity : null}
         isOpen={showEntityDetailModal}
         onClose={() => {
           setShowEntityDetailModal(false)
@@ -1003,9 +1110,21 @@ export function StoryboardView() {
           return success
         }}
         onAnalyze={analyzeEntityImage}
+        onAddImage={addEntityImage}
+        onUpdateImage={updateEntityImage}
+        onRemoveImage={removeEntityImage}
+        onGenerateTurnaround={generateEntityTurnaround}
         mode={entityModalMode}
       />
 
+      {/* Generate All Dialog */}
+      <GenerateAllDialog
+        isOpen={showGenerateAll}
+        plan={generateAllPlan}
+        onClose={() => setShowGenerateAll(false)}
+        onConfirm={() => generateAllPending()}
+      />
+
       {/* Slideshow Preview Modal */}
       <ShotSlideshowModal
         isOpen={showSlideshow}
@@ -1015,6 +1134,27 @@ export function StoryboardView() {
         initialShotId={selectedShotId}
         onShotChange={setSelectedShotId}
       />
+
+      {/* Export Dialog */}
+      {currentStoryboard && (
+        <ExportDialog
+          isOpen={showExport}
+          onClose={() => setShowExport(false)}
+          storyboard={currentStoryboard}
+          shots={shots}
+          entities={entities}
+        />
+      )}
+
+      {/* Animatic Render Modal */}
+      {currentStoryboard && (
+        <AnimaticModal
+          isOpen={showAnimatic}
+          onClose={() => setShowAnimatic(false)}
+          storyboardId={currentStoryboard.id}
+          completedShotCount={shots.filter(s => s.status === 'completed' && s.generatedImageUrl).length}
+        />
+      )}
     </div>
   )
 }
@@ -3,8 +3,9 @@
 import { useRef, useEffect, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { cn } from '@/lib/utils'
-import { Play, Image, Video, Check, Clock, AlertCircle, ChevronLeft, ChevronRight, Expand, Film, Loader2 } from 'lucide-react'
+import { Play, Image, Video, Check, Clock, AlertCircle, AlertTriangle, ChevronLeft, ChevronRight, Expand, Film, Loader2, RotateCw, Ban } from 'lucide-react'
 import { StoryboardShot, StoryboardEntity } from '@/lib/types'
+import { ShotQueueEntry, describeQueueEntry } from '@/lib/storyboard-schedule'
 import { EntityTypeBadge } from './entity-type-badge'
 import { TimelineSkeleton } from './storyboard-skeleton'
 
@@ -16,10 +17,13 @@ interface TimelineStripProps {
   onGenerateShot: (shotId: string) => void
   onExpandTimeline?: () => void
   isLoading?: boolean
+  shotQueue?: Record<string, ShotQueueEntry>
 }
 
 interface TimelineShotCardProps {
   shot: StoryboardShot
+  shots: StoryboardShot[]
+  queueEntry?: ShotQueueEntry
   isSelected: boolean
   onSelect: () => void
   onGenerate: () => void
@@ -27,6 +31,8 @@ interface TimelineShotCardProps {
 
 function TimelineShotCard({
   shot,
+  shots,
+  queueEntry,
   isSelected,
   onSelect,
   onGenerate,
@@ -36,9 +42,39 @@ function TimelineShotCard({
     ?.map(ref => ref.entity)
     .filter((e): e is StoryboardEntity => e !== undefined) || []
 
+  const queueStatus = describeQueueEntry(queueEntry, shots)
+
   const getStatusOverlay = () => {
+    // Queued by generate-all: waiting its turn or on the shots it uses
+    if (queueEntry?.state === 'waiting' && shot.status !== 'generating') {
+      return (
+        <div className="absolute inset-0 bg-black/30 flex items-center justify-center">
+          <Clock size={14} className="text-zinc-400" />
+        </div>
+      )
+    }
+    if (queueEntry?.state === 'blocked') {
+      return (
+        <div className="absolute inset-0 bg-red-500/10 flex items-center justify-center">
+          <Ban size={14} className="text-red-400" />
+        </div>
+      )
+    }
+
     switch (shot.status) {
       case 'completed':
+        if (shot.consistency?.drifted) {
+          return (
+            <div
+              className="absolute inset-0 bg-amber-500/10 flex items-center justify-center"
+              title={`Off-model: ${shot.consistency.entities.filter(e => e.drifted).map(e => e.entityName).join(', ')}`}
+            >
+              <div className="w-6 h-6 rounded-full bg-amber-500/20 flex items-center justify-center">
+                <AlertTriangle size={12} className="text-amber-400" />
+              </div>
+            </div>
+          )
+        }
         return (
           <div className="absolute inset-0 bg-green-500/10 flex items-center justify-center">
             <div className="w-6 h-6 rounded-full bg-green-500/20 flex items-center justify-center">
@@ -130,6 +166,26 @@ function TimelineShotCard({
         {String(shot.shotNumber).padStart(2, '0')}
       </div>
 
+      {/* Generate-all retry marker */}
+      {queueEntry?.state === 'retrying' && (
+        <div className="absolute top-1 right-1 p-0.5 rounded bg-black/60" title={queueStatus?.label}>
+          <RotateCw size={10} className="text-skinny-yellow animate-spin" />
+        </div>
+      )}
+
+      {/* Generate-all status line */}
+      {queueStatus && queueEntry?.state !== 'retrying' && (
+        <div
+          className={cn(
+            "absolute top-6 left-1 right-1 px-1 py-0.5 rounded bg-black/70 text-[9px] truncate",
+            queueStatus.tone === 'error' ? "text-red-300" : "text-zinc-300"
+          )}
+          title={queueStatus.label}
+        >
+          {queueStatus.label}
+        </div>
+      )}
+
       {/* Entity Indicators */}
       {shotEntities.length > 0 && (
         <div className="absolute bottom-1 left-1 right-1 flex gap-0.5 overflow-hidden">
@@ -179,6 +235,7 @@ export function TimelineStrip({
   onGenerateShot,
   onExpandTimeline,
   isLoading,
+  shotQueue = {},
 }: TimelineStripProps) {
   const scrollRef = useRef<HTMLDivElement>(null)
   const [canScrollLeft, setCanScrollLeft] = useState(false)
@@ -296,6 +353,8 @@ export function TimelineStrip({
             <div key={shot.id} data-shot-id={shot.id}>
               <TimelineShotCard
                 shot={shot}
+                shots={sortedShots}
+                queueEntry={shotQueue[shot.id]}
                 isSelected={shot.id === selectedShotId}
                 onSelect={() => onSelectShot(shot.id)}
                 onGenerate={() => onGenerateShot(shot.id)}
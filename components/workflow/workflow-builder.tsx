@@ -13,8 +13,12 @@ import {
   Settings2,
   ChevronDown,
   ChevronUp,
+  GitBranch,
+  Variable,
 } from 'lucide-react'
-import { Workflow, WorkflowStep, AIModel } from '@/lib/types'
+import { Workflow, WorkflowStep, WorkflowStepCondition, WorkflowInput, WorkflowInputType, AIModel } from '@/lib/types'
+import { getStepInputs, validateWorkflowGraph, describeCondition } from '@/lib/workflow-graph'
+import { validateInputDeclarations, validateTemplate } from '@/lib/workflow-template'
 
 interface WorkflowBuilderProps {
   isOpen: boolean
@@ -29,11 +33,36 @@ interface StepFormData {
   modelId: string
   promptTemplate: string
   usePreviousOutput: boolean
+  inputs: string[]
+  condition?: WorkflowStepCondition
+  params?: Record<string, any>
   isExpanded: boolean
 }
 
+// Declared run input as edited - options and bounds stay raw text until saved
+interface InputFormData {
+  key: string
+  name: string
+  label: string
+  type: WorkflowInputType
+  required: boolean
+  optionsText: string
+  min: string
+  max: string
+}
+
+const INPUT_TYPE_OPTIONS: { value: WorkflowInputType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'enum', label: 'Choice' },
+  { value: 'number', label: 'Number' },
+  { value: 'image', label: 'Image URL' },
+]
+
 const generateId = () => `step-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
 
+// Per-step aspect ratio override - one step per ratio fans a shot out into variants
+const ASPECT_RATIO_OPTIONS = ['1:1', '16:9', '9:16', '4:3', '3:4', '21:9']
+
 export function WorkflowBuilder({
   isOpen,
   onClose,
@@ -49,6 +78,10 @@ export function WorkflowBuilder({
       modelId: s.modelId,
       promptTemplate: s.promptTemplate,
       usePreviousOutput: s.usePreviousOutput,
+      // Older workflows are a plain chain - make that explicit so it can be edited
+      inputs: getStepInputs(s, existingWorkflow.steps),
+      condition: s.condition,
+      params: s.params,
       isExpanded: true,
     })) || [
       {
@@ -56,10 +89,23 @@ export function WorkflowBuilder({
         modelId: models[0]?.id || '',
         promptTemplate: '{input}',
         usePreviousOutput: false,
+        inputs: [],
         isExpanded: true,
       },
     ]
   )
+  const [inputs, setInputs] = useState<InputFormData[]>(() =>
+    existingWorkflow?.inputs?.map((input) => ({
+      key: generateId(),
+      name: input.name,
+      label: input.label || '',
+      type: input.type,
+      required: !!input.required,
+      optionsText: input.options?.join(', ') || '',
+      min: input.min?.toString() ?? '',
+      max: input.max?.toString() ?? '',
+    })) || []
+  )
   const [errors, setErrors] = useState<Record<string, string>>({})
 
   const handleClose = useCallback(() => {
@@ -71,29 +117,97 @@ export function WorkflowBuilder({
         modelId: models[0]?.id || '',
         promptTemplate: '{input}',
         usePreviousOutput: false,
+        inputs: [],
         isExpanded: true,
       },
     ])
+    setInputs([])
     setErrors({})
     onClose()
   }, [models, onClose])
 
   const addStep = () => {
+    const lastStep = steps[steps.length - 1]
     const newStep: StepFormData = {
       id: generateId(),
       modelId: models[0]?.id || '',
-      promptTemplate: steps.length > 0 ? '{previous_output}' : '{input}',
-      usePreviousOutput: steps.length > 0,
+      promptTemplate: lastStep ? '{previous_output}' : '{input}',
+      usePreviousOutput: !!lastStep,
+      inputs: lastStep ? [lastStep.id] : [],
       isExpanded: true,
     }
     setSteps([...steps, newStep])
   }
 
+  // Fan out: a new step fed by the same inputs, placed right after this one
+  const addParallelStep = (id: string) => {
+    const index = steps.findIndex((s) => s.id === id)
+    const source = steps[index]
+    if (!source) return
+
+    const newStep: StepFormData = {
+      ...source,
+      id: generateId(),
+      inputs: [...source.inputs],
+      isExpanded: true,
+    }
+    setSteps([...steps.slice(0, index + 1), newStep, ...steps.slice(index + 1)])
+  }
+
   const removeStep = (id: string) => {
     if (steps.length <= 1) return
-    setSteps(steps.filter((s) => s.id !== id))
+    setSteps(
+      steps
+        .filter((s) => s.id !== id)
+        .map((s) => ({ ...s, inputs: s.inputs.filter((input) => input !== id) }))
+    )
+  }
+
+  const toggleInput = (id: string, inputId: string) => {
+    setSteps(steps.map((s) => {
+      if (s.id !== id) return s
+      const inputs = s.inputs.includes(inputId)
+        ? s.inputs.filter((input) => input !== inputId)
+        : [...s.inputs, inputId]
+      return { ...s, inputs, usePreviousOutput: inputs.length > 0 && s.usePreviousOutput }
+    }))
+  }
+
+  const setAspectRatio = (id: string, aspectRatio: string) => {
+    setSteps(steps.map((s) => {
+      if (s.id !== id) return s
+      const { aspect_ratio: _previous, ...rest } = s.params || {}
+      const params = aspectRatio ? { ...rest, aspect_ratio: aspectRatio } : rest
+      return { ...s, params: Object.keys(params).length > 0 ? params : undefined }
+    }))
   }
 
+  const addInput = () => {
+    setInputs([
+      ...inputs,
+      {
+        key: generateId(),
+        name: `input_${inputs.length + 1}`,
+        label: '',
+        type: 'text',
+        required: true,
+        optionsText: '',
+        min: '',
+        max: '',
+      },
+    ])
+  }
+
+  const updateInput = (key: string, updates: Partial<InputFormData>) => {
+    setInputs(inputs.map((input) => (input.key === key ? { ...input, ...updates } : input)))
+  }
+
+  const removeInput = (key: string) => {
+    setInputs(inputs.filter((input) => input.key !== key))
+  }
+
+  const getStepLabel = (id: string) => `Step ${steps.findIndex((s) => s.id === id) + 1}`
+
   const updateStep = (id: string, updates: Partial<StepFormData>) => {
     setSteps(steps.map((s) => (s.id === id ? { ...s, ...updates } : s)))
   }
@@ -102,6 +216,32 @@ export function WorkflowBuilder({
     setSteps(steps.map((s) => (s.id === id ? { ...s, isExpanded: !s.isExpanded } : s)))
   }
 
+  const toWorkflowSteps = (): WorkflowStep[] =>
+    steps.map((s, index) => ({
+      id: s.id,
+      order: index + 1,
+      modelId: s.modelId,
+      modelName: models.find((m) => m.id === s.modelId)?.name,
+      promptTemplate: s.promptTemplate,
+      usePreviousOutput: s.usePreviousOutput,
+      inputs: s.inputs,
+      ...(s.condition && { condition: s.condition }),
+      ...(s.params && { params: s.params }),
+    }))
+
+  const toWorkflowInputs = (): WorkflowInput[] =>
+    inputs.map((input) => ({
+      name: input.name.trim(),
+      type: input.type,
+      ...(input.label.trim() && { label: input.label.trim() }),
+      ...(input.required && { required: true }),
+      ...(input.type === 'enum' && {
+        options: input.optionsText.split(',').map((option) => option.trim()).filter(Boolean),
+      }),
+      ...(input.type === 'number' && input.min.trim() !== '' && { min: Number(input.min) }),
+      ...(input.type === 'number' && input.max.trim() !== '' && { max: Number(input.max) }),
+    }))
+
   const validate = (): boolean => {
     const newErrors: Record<string, string> = {}
 
@@ -111,14 +251,31 @@ export function WorkflowBuilder({
 
     if (steps.length === 0) {
       newErrors.steps = 'At least one step is required'
+    } else {
+      const graphErrors = validateWorkflowGraph(toWorkflowSteps())
+      if (graphErrors.length > 0) {
+        newErrors.steps = graphErrors[0]
+      }
     }
 
+    const workflowInputs = toWorkflowInputs()
+    const inputErrors = validateInputDeclarations(workflowInputs)
+    if (inputErrors.length > 0) {
+      newErrors.inputs = inputErrors[0]
+    }
+
+    const workflowSteps = toWorkflowSteps()
     steps.forEach((step, index) => {
       if (!step.modelId) {
         newErrors[`step-${index}-model`] = 'Model is required'
       }
       if (!step.promptTemplate.trim()) {
         newErrors[`step-${index}-prompt`] = 'Prompt template is required'
+      } else {
+        const templateErrors = validateTemplate(workflowSteps[index], workflowSteps, workflowInputs)
+        if (templateErrors.length > 0) {
+          newErrors[`step-${index}-prompt`] = templateErrors[0]
+        }
       }
     })
 
@@ -129,19 +286,11 @@ export function WorkflowBuilder({
   const handleSave = () => {
     if (!validate()) return
 
-    const workflowSteps: WorkflowStep[] = steps.map((s, index) => ({
-      id: s.id,
-      order: index,
-      modelId: s.modelId,
-      modelName: models.find((m) => m.id === s.modelId)?.name,
-      promptTemplate: s.promptTemplate,
-      usePreviousOutput: s.usePreviousOutput,
-    }))
-
     onSave({
       name: name.trim(),
       description: description.trim(),
-      steps: workflowSteps,
+      steps: toWorkflowSteps(),
+      inputs: toWorkflowInputs(),
       isPublic: false,
     })
 
@@ -181,7 +330,7 @@ export function WorkflowBuilder({
                   <h2 className="text-lg font-bold uppercase tracking-wide">
                     {existingWorkflow ? 'Edit Workflow' : 'Create Workflow'}
                   </h2>
-                  <p className="text-xs text-zinc-500">Chain multiple AI models together</p>
+                  <p className="text-xs text-zinc-500">Chain, branch and merge AI models</p>
                 </div>
               </div>
               <button
@@ -231,6 +380,117 @@ export function WorkflowBuilder({
                   </div>
                 </div>
 
+                {/* Run Inputs */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs font-bold uppercase tracking-wide text-zinc-500">
+                      Run Inputs
+                    </label>
+                    <button
+                      type="button"
+                      onClick={addInput}
+                      className="flex items-center gap-1 text-xs text-zinc-500 hover:text-skinny-yellow transition-colors"
+                    >
+                      <Plus size={14} />
+                      Add Input
+                    </button>
+                  </div>
+
+                  {inputs.length === 0 ? (
+                    <p className="text-[10px] text-zinc-600">
+                      No inputs declared - runs ask for a single text prompt, used as {'{input}'}.
+                      Add inputs to get a form and use them in templates as {'{{name}}'}.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {inputs.map((input) => (
+                        <div key={input.key} className="rounded-xl border-2 border-zinc-800 bg-zinc-900/50 p-3 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <Variable size={14} className="text-skinny-yellow shrink-0" />
+                            <input
+                              type="text"
+                              value={input.name}
+                              onChange={(e) => updateInput(input.key, { name: e.target.value })}
+                              placeholder="name"
+                              aria-label="Input name"
+                              className="w-32 bg-zinc-800/50 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs font-mono focus:outline-none focus:border-skinny-yellow/50"
+                            />
+                            <input
+                              type="text"
+                              value={input.label}
+                              onChange={(e) => updateInput(input.key, { label: e.target.value })}
+                              placeholder="Label shown in the form"
+                              aria-label="Input label"
+                              className="flex-1 min-w-0 bg-zinc-800/50 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:border-skinny-yellow/50"
+                            />
+                            <select
+                              value={input.type}
+                              onChange={(e) => updateInput(input.key, { type: e.target.value as WorkflowInputType })}
+                              aria-label="Input type"
+                              className="bg-zinc-800/50 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:border-skinny-yellow/50 appearance-none"
+                            >
+                              {INPUT_TYPE_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() => removeInput(input.key)}
+                              className="p-1.5 rounded-lg hover:bg-red-500/20 text-zinc-500 hover:text-red-400 transition-colors"
+                              aria-label="Remove input"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {input.type === 'enum' && (
+                              <input
+                                type="text"
+                                value={input.optionsText}
+                                onChange={(e) => updateInput(input.key, { optionsText: e.target.value })}
+                                placeholder="Options, comma separated"
+                                aria-label="Input options"
+                                className="flex-1 min-w-0 bg-zinc-800/50 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:border-skinny-yellow/50"
+                              />
+                            )}
+                            {input.type === 'number' && (
+                              <>
+                                <input
+                                  type="number"
+                                  value={input.min}
+                                  onChange={(e) => updateInput(input.key, { min: e.target.value })}
+                                  placeholder="Min"
+                                  aria-label="Minimum"
+                                  className="w-20 bg-zinc-800/50 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:border-skinny-yellow/50"
+                                />
+                                <input
+                                  type="number"
+                                  value={input.max}
+                                  onChange={(e) => updateInput(input.key, { max: e.target.value })}
+                                  placeholder="Max"
+                                  aria-label="Maximum"
+                                  className="w-20 bg-zinc-800/50 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:border-skinny-yellow/50"
+                                />
+                              </>
+                            )}
+                            <label className="flex items-center gap-1.5 text-xs text-zinc-400 ml-auto cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={input.required}
+                                onChange={(e) => updateInput(input.key, { required: e.target.checked })}
+                                className="accent-skinny-yellow"
+                              />
+                              Required
+                            </label>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {errors.inputs && <p className="text-xs text-red-400">{errors.inputs}</p>}
+                </div>
+
                 {/* Steps */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
@@ -279,9 +539,28 @@ export function WorkflowBuilder({
                               <p className="text-xs text-zinc-500 truncate">
                                 {step.promptTemplate || 'No prompt template'}
                               </p>
+                              {(step.inputs.length > 1 || step.condition || (step.inputs.length === 1 && step.inputs[0] !== steps[index - 1]?.id)) && (
+                                <p className="text-[10px] text-skinny-yellow/70 truncate mt-0.5">
+                                  {step.inputs.length > 0
+                                    ? `From ${step.inputs.map(getStepLabel).join(' + ')}`
+                                    : 'From workflow input'}
+                                  {step.condition && ` · ${describeCondition(step.condition)}`}
+                                </p>
+                              )}
                             </div>
 
                             <div className="flex items-center gap-2">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  addParallelStep(step.id)
+                                }}
+                                className="p-1.5 rounded-lg hover:bg-zinc-700 text-zinc-500 hover:text-skinny-yellow transition-colors"
+                                aria-label="Add a parallel step with the same inputs"
+                                title="Add a parallel step with the same inputs"
+                              >
+                                <GitBranch size={14} />
+                              </button>
                               {steps.length > 1 && (
                                 <button
                                   onClick={(e) => {
@@ -350,6 +629,11 @@ export function WorkflowBuilder({
                                         <code className="px-1.5 py-0.5 bg-zinc-800 rounded">
                                           {'{previous_output}'}
                                         </code>
+                                        {inputs.filter((input) => input.name.trim()).map((input) => (
+                                          <code key={input.key} className="px-1.5 py-0.5 bg-zinc-800 rounded text-skinny-yellow/70">
+                                            {`{{${input.name.trim()}}}`}
+                                          </code>
+                                        ))}
                                       </div>
                                     </div>
                                     <textarea
@@ -366,14 +650,95 @@ export function WorkflowBuilder({
                                           : 'border-zinc-700 focus:border-skinny-yellow/50'
                                       )}
                                     />
+                                    {errors[`step-${index}-prompt`] && (
+                                      <p className="text-xs text-red-400">{errors[`step-${index}-prompt`]}</p>
+                                    )}
                                     <p className="text-[10px] text-zinc-600">
                                       Use {'{input}'} for the initial input or {'{previous_output}'}{' '}
-                                      to reference the output from the previous step.
+                                      to reference the prompt of this step's first input. Declared inputs
+                                      go in as {'{{name}}'}, with filters like {'{{name | upper}}'}, and
+                                      earlier steps as {'{{steps.1.url}}'} or {'{{steps.1.prompt}}'}.
                                     </p>
                                   </div>
 
-                                  {/* Use Previous Output Toggle */}
-                                  {index > 0 && (
+                                  {/* Inputs */}
+                                  {steps.length > 1 && (
+                                    <div className="space-y-2">
+                                      <label className="text-xs font-bold uppercase tracking-wide text-zinc-500">
+                                        Runs After
+                                      </label>
+                                      <div className="flex flex-wrap gap-2">
+                                        {steps.map((other, otherIndex) => other.id !== step.id && (
+                                          <button
+                                            key={other.id}
+                                            type="button"
+                                            onClick={() => toggleInput(step.id, other.id)}
+                                            className={cn(
+                                              'px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors',
+                                              step.inputs.includes(other.id)
+                                                ? 'border-skinny-yellow/50 bg-skinny-yellow/10 text-skinny-yellow'
+                                                : 'border-zinc-700 text-zinc-500 hover:text-zinc-300'
+                                            )}
+                                          >
+                                            Step {otherIndex + 1}
+                                            <span className="text-zinc-600 ml-1">
+                                              {getModelById(other.modelId)?.name || ''}
+                                            </span>
+                                          </button>
+                                        ))}
+                                      </div>
+                                      <p className="text-[10px] text-zinc-600">
+                                        {step.inputs.length === 0
+                                          ? 'Starts as soon as the run starts.'
+                                          : step.inputs.length > 1
+                                          ? 'Waits for all of these and merges their outputs.'
+                                          : 'Waits for this step. Steps sharing an input run in parallel.'}
+                                      </p>
+                                    </div>
+                                  )}
+
+                                  {/* Condition & Aspect Ratio */}
+                                  <div className="grid grid-cols-2 gap-3">
+                                    <div className="space-y-2">
+                                      <label className="text-xs font-bold uppercase tracking-wide text-zinc-500">
+                                        Run
+                                      </label>
+                                      <select
+                                        value={step.condition?.inputMediaType || ''}
+                                        onChange={(e) =>
+                                          updateStep(step.id, {
+                                            condition: e.target.value
+                                              ? { inputMediaType: e.target.value as 'image' | 'video' }
+                                              : undefined,
+                                          })
+                                        }
+                                        disabled={step.inputs.length === 0}
+                                        className="w-full bg-zinc-800/50 border-2 border-zinc-700 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-skinny-yellow/50 appearance-none disabled:opacity-50"
+                                      >
+                                        <option value="">Always</option>
+                                        <option value="image">Only if input is an image</option>
+                                        <option value="video">Only if input is a video</option>
+                                      </select>
+                                    </div>
+                                    <div className="space-y-2">
+                                      <label className="text-xs font-bold uppercase tracking-wide text-zinc-500">
+                                        Aspect Ratio
+                                      </label>
+                                      <select
+                                        value={step.params?.aspect_ratio || ''}
+                                        onChange={(e) => setAspectRatio(step.id, e.target.value)}
+                                        className="w-full bg-zinc-800/50 border-2 border-zinc-700 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-skinny-yellow/50 appearance-none"
+                                      >
+                                        <option value="">Model default</option>
+                                        {ASPECT_RATIO_OPTIONS.map((ratio) => (
+                                          <option key={ratio} value={ratio}>{ratio}</option>
+                                        ))}
+                                      </select>
+                                    </div>
+                                  </div>
+
+                                  {/* Use Input Outputs Toggle */}
+                                  {step.inputs.length > 0 && (
                                     <label className="flex items-center gap-3 cursor-pointer">
                                       <input
                                         type="checkbox"
@@ -403,7 +768,9 @@ export function WorkflowBuilder({
                                         />
                                       </div>
                                       <span className="text-xs text-zinc-400">
-                                        Use previous step's output as input
+                                        {step.inputs.length > 1
+                                          ? "Use the input steps' outputs as reference images"
+                                          : "Use the input step's output as a reference image"}
                                       </span>
                                     </label>
                                   )}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { cn } from '@/lib/utils'
 import {
@@ -15,8 +15,12 @@ import {
   ArrowRight,
   Image as ImageIcon,
   Download,
+  SkipForward,
 } from 'lucide-react'
-import { Workflow, WorkflowRunProgress, Generation } from '@/lib/types'
+import { Workflow, WorkflowInput, Generation } from '@/lib/types'
+import { useWorkflow } from '@/lib/context/workflow-context'
+import { getStepInputs, describeCondition } from '@/lib/workflow-graph'
+import { validateInputValues, getInputLabel } from '@/lib/workflow-template'
 
 interface WorkflowRunnerProps {
   isOpen: boolean
@@ -29,161 +33,121 @@ type RunStatus = 'idle' | 'running' | 'paused' | 'completed' | 'error'
 
 interface StepOutput {
   stepId: string
-  status: 'pending' | 'running' | 'completed' | 'error'
+  status: 'pending' | 'running' | 'completed' | 'error' | 'skipped'
   output?: string
+  imageUrl?: string
   error?: string
 }
 
+// Form values start from each input's default
+function getDefaultValues(inputs: WorkflowInput[]): Record<string, string> {
+  return Object.fromEntries(inputs.map((input) => [input.name, input.default?.toString() ?? '']))
+}
+
+// Runs execute on the server; this modal starts them and renders the
+// progress WorkflowProvider polls, so it can be closed and reopened freely.
 export function WorkflowRunner({
   isOpen,
   onClose,
   workflow,
   onRunComplete,
 }: WorkflowRunnerProps) {
+  const { runProgress, runWorkflow, pauseRun, resumeRun, cancelRun, clearRun } = useWorkflow()
   const [inputPrompt, setInputPrompt] = useState('')
-  const [status, setStatus] = useState<RunStatus>('idle')
-  const [currentStep, setCurrentStep] = useState(0)
-  const [stepOutputs, setStepOutputs] = useState<StepOutput[]>([])
-  const [error, setError] = useState<string | null>(null)
+  const [inputValues, setInputValues] = useState<Record<string, string>>({})
+  const [inputErrors, setInputErrors] = useState<Record<string, string>>({})
+  const declaredInputs = workflow?.inputs || []
+
+  // Only show the run if it belongs to this workflow; a run canceled elsewhere reads as idle
+  const run = workflow && runProgress?.workflowId === workflow.id ? runProgress : null
+  const status: RunStatus = run && run.status !== 'canceled' ? run.status : 'idle'
+  const error = run?.error || null
+  const runInput = run?.input || inputPrompt
+  const reportedRunIdRef = useRef<string | null>(null)
+
+  // Per-step status straight from the run's node states
+  const stepOutputs: StepOutput[] = (workflow?.steps || []).map((step) => {
+    const state = run?.nodeStates[step.id]
+    switch (state?.status) {
+      case 'completed': {
+        const generation = run?.stepOutputs.find((g) => g.id === state.generationId)
+        return { stepId: step.id, status: 'completed', output: generation?.prompt, imageUrl: generation?.imageUrl }
+      }
+      case 'running':
+        return { stepId: step.id, status: 'running' }
+      case 'failed':
+        return { stepId: step.id, status: 'error', error: state.error }
+      case 'skipped':
+        return { stepId: step.id, status: 'skipped' }
+      default:
+        return { stepId: step.id, status: 'pending' }
+    }
+  })
+  const runningCount = stepOutputs.filter((s) => s.status === 'running').length
+  const finishedCount = stepOutputs.filter((s) => s.status === 'completed' || s.status === 'skipped').length
 
-  // Reset state when modal opens/closes or workflow changes
+  // Hand the outputs over once per finished run, however it was started
   useEffect(() => {
-    if (isOpen && workflow) {
+    if (run?.status === 'completed' && reportedRunIdRef.current !== run.runId) {
+      reportedRunIdRef.current = run.runId
+      onRunComplete?.(run.stepOutputs)
+    }
+  }, [run, onRunComplete])
+
+  // Reset the input when the modal opens (a live run keeps its own input)
+  useEffect(() => {
+    if (isOpen) {
       setInputPrompt('')
-      setStatus('idle')
-      setCurrentStep(0)
-      setStepOutputs(
-        workflow.steps.map((step) => ({
-          stepId: step.id,
-          status: 'pending',
-        }))
-      )
-      setError(null)
+      setInputValues(getDefaultValues(workflow?.inputs || []))
+      setInputErrors({})
     }
   }, [isOpen, workflow])
 
   const handleClose = () => {
-    if (status === 'running') {
-      // Confirm before closing while running
-      if (!confirm('Workflow is running. Are you sure you want to close?')) {
-        return
-      }
+    // A running or paused run keeps going on the server; a finished one is done with
+    if (status === 'completed' || status === 'error') {
+      clearRun()
     }
-    setStatus('idle')
     onClose()
   }
 
-  const startRun = async () => {
-    if (!workflow || !inputPrompt.trim()) return
-
-    setStatus('running')
-    setCurrentStep(0)
-    setError(null)
-
-    let previousOutput = ''
-
-    for (let i = 0; i < workflow.steps.length; i++) {
-      if (status === 'paused') {
-        // Wait while paused
-        await new Promise((resolve) => {
-          const checkPause = setInterval(() => {
-            if (status !== 'paused') {
-              clearInterval(checkPause)
-              resolve(null)
-            }
-          }, 100)
-        })
-      }
+  const startRun = async (input = inputPrompt) => {
+    if (!workflow) return
 
-      setCurrentStep(i)
-
-      // Update step status to running
-      setStepOutputs((prev) =>
-        prev.map((s, idx) => (idx === i ? { ...s, status: 'running' } : s))
-      )
-
-      const step = workflow.steps[i]
-
-      try {
-        // Build the prompt by replacing variables
-        let prompt = step.promptTemplate
-        prompt = prompt.replace('{input}', inputPrompt)
-        if (step.usePreviousOutput && previousOutput) {
-          prompt = prompt.replace('{previous_output}', previousOutput)
-        }
-
-        // Simulate generation (replace with actual API call)
-        await simulateGeneration(prompt, step.modelId)
-
-        // For demo purposes, we'll just use the prompt as output
-        const output = `Generated output for step ${i + 1} using ${step.modelName || step.modelId}`
-        previousOutput = output
-
-        // Update step status to completed
-        setStepOutputs((prev) =>
-          prev.map((s, idx) =>
-            idx === i ? { ...s, status: 'completed', output } : s
-          )
-        )
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Generation failed'
-
-        setStepOutputs((prev) =>
-          prev.map((s, idx) =>
-            idx === i ? { ...s, status: 'error', error: errorMessage } : s
-          )
-        )
-
-        setError(`Step ${i + 1} failed: ${errorMessage}`)
-        setStatus('error')
-        return
-      }
+    // Declared inputs are checked here first so a bad value never reaches the server
+    if (declaredInputs.length > 0) {
+      const { values, errors } = validateInputValues(declaredInputs, inputValues)
+      setInputErrors(errors)
+      if (Object.keys(errors).length > 0) return
+      await runWorkflow(workflow.id, values)
+      return
     }
 
-    setStatus('completed')
-    // TODO: Call onRunComplete with actual Generation objects
+    if (!input.trim()) return
+    await runWorkflow(workflow.id, input.trim())
   }
 
-  const pauseRun = () => {
-    if (status === 'running') {
-      setStatus('paused')
-    }
-  }
-
-  const resumeRun = () => {
-    if (status === 'paused') {
-      setStatus('running')
+  const retryRun = () => {
+    if (workflow && run?.inputValues) {
+      runWorkflow(workflow.id, run.inputValues)
+      return
     }
+    startRun(runInput)
   }
 
-  const cancelRun = () => {
-    setStatus('idle')
-    setStepOutputs((prev) =>
-      prev.map((s) => ({ ...s, status: 'pending', output: undefined, error: undefined }))
-    )
-    setCurrentStep(0)
-    setError(null)
-  }
-
-  const retryRun = () => {
-    setError(null)
-    startRun()
+  const updateInputValue = (name: string, value: string) => {
+    setInputValues((prev) => ({ ...prev, [name]: value }))
+    setInputErrors((prev) => {
+      const { [name]: _cleared, ...rest } = prev
+      return rest
+    })
   }
 
-  // Simulated generation function (replace with actual API call)
-  const simulateGeneration = async (prompt: string, modelId: string): Promise<void> => {
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 2000 + Math.random() * 2000))
-
-    // Randomly fail sometimes for demo
-    if (Math.random() < 0.1) {
-      throw new Error('Simulated generation error')
-    }
-  }
+  const canStart = declaredInputs.length > 0 || !!inputPrompt.trim()
 
   if (!workflow) return null
 
-  const progress = stepOutputs.filter((s) => s.status === 'completed').length / workflow.steps.length * 100
+  const progress = finishedCount / workflow.steps.length * 100
 
   return (
     <AnimatePresence>
@@ -238,7 +202,7 @@ export function WorkflowRunner({
                   <p className="text-xs text-zinc-500">
                     {status === 'idle' && 'Ready to run'}
                     {status === 'running' &&
-                      `Running step ${currentStep + 1} of ${workflow.steps.length}`}
+                      `${finishedCount} of ${workflow.steps.length} steps done${runningCount > 1 ? ` · ${runningCount} running in parallel` : ''}`}
                     {status === 'paused' && 'Paused'}
                     {status === 'completed' && 'Completed successfully'}
                     {status === 'error' && 'Error occurred'}
@@ -272,8 +236,89 @@ export function WorkflowRunner({
             {/* Content */}
             <div className="flex-1 overflow-y-auto p-4 sm:p-6">
               <div className="max-w-2xl mx-auto space-y-6">
+                {/* Declared Inputs */}
+                {status === 'idle' && declaredInputs.length > 0 && (
+                  <div className="space-y-4">
+                    {declaredInputs.map((input, index) => {
+                      const value = inputValues[input.name] ?? ''
+                      const fieldError = inputErrors[input.name]
+                      const fieldClass = cn(
+                        'w-full bg-zinc-800/50 border-2 rounded-xl px-4 py-2.5 text-sm focus:outline-none transition-colors',
+                        fieldError
+                          ? 'border-red-500/50 focus:border-red-500'
+                          : 'border-zinc-700 focus:border-skinny-yellow/50'
+                      )
+
+                      return (
+                        <div key={input.name} className="space-y-2">
+                          <label
+                            htmlFor={`workflow-input-${input.name}`}
+                            className="text-xs font-bold uppercase tracking-wide text-zinc-500"
+                          >
+                            {getInputLabel(input)}
+                            {input.required && ' *'}
+                          </label>
+                          {input.type === 'enum' ? (
+                            <select
+                              id={`workflow-input-${input.name}`}
+                              value={value}
+                              onChange={(e) => updateInputValue(input.name, e.target.value)}
+                              className={cn(fieldClass, 'appearance-none')}
+                            >
+                              <option value="">Choose...</option>
+                              {input.options?.map((option) => (
+                                <option key={option} value={option}>{option}</option>
+                              ))}
+                            </select>
+                          ) : input.type === 'number' ? (
+                            <input
+                              id={`workflow-input-${input.name}`}
+                              type="number"
+                              value={value}
+                              min={input.min}
+                              max={input.max}
+                              onChange={(e) => updateInputValue(input.name, e.target.value)}
+                              className={fieldClass}
+                            />
+                          ) : input.type === 'image' ? (
+                            <div className="flex items-center gap-3">
+                              <input
+                                id={`workflow-input-${input.name}`}
+                                type="url"
+                                value={value}
+                                onChange={(e) => updateInputValue(input.name, e.target.value)}
+                                placeholder="https://..."
+                                className={fieldClass}
+                              />
+                              {/^https?:\/\//.test(value) && (
+                                <img src={value} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                              )}
+                            </div>
+                          ) : (
+                            <textarea
+                              id={`workflow-input-${input.name}`}
+                              value={value}
+                              onChange={(e) => updateInputValue(input.name, e.target.value)}
+                              rows={2}
+                              className={cn(fieldClass, 'resize-none')}
+                              autoFocus={index === 0}
+                            />
+                          )}
+                          {fieldError ? (
+                            <p className="text-xs text-red-400">{fieldError}</p>
+                          ) : (
+                            <p className="text-xs text-zinc-600">
+                              {input.description || <>Available as <code>{`{{${input.name}}}`}</code> in your workflow steps.</>}
+                            </p>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+
                 {/* Input Prompt */}
-                {status === 'idle' && (
+                {status === 'idle' && declaredInputs.length === 0 && (
                   <div className="space-y-2">
                     <label className="text-xs font-bold uppercase tracking-wide text-zinc-500">
                       Initial Input
@@ -293,12 +338,27 @@ export function WorkflowRunner({
                 )}
 
                 {/* Display input when running */}
-                {status !== 'idle' && inputPrompt && (
+                {status !== 'idle' && run?.inputValues && (
+                  <div className="p-4 rounded-xl bg-zinc-800/30 border border-zinc-800 space-y-1">
+                    <label className="text-xs font-bold uppercase tracking-wide text-zinc-500 block mb-2">
+                      Inputs
+                    </label>
+                    {Object.entries(run.inputValues).map(([name, value]) => (
+                      <p key={name} className="text-sm text-zinc-400 truncate">
+                        <span className="text-zinc-500">
+                          {getInputLabel(declaredInputs.find((input) => input.name === name) || { name, type: 'text' })}:
+                        </span>{' '}
+                        {value}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {status !== 'idle' && !run?.inputValues && runInput && (
                   <div className="p-4 rounded-xl bg-zinc-800/30 border border-zinc-800">
                     <label className="text-xs font-bold uppercase tracking-wide text-zinc-500 block mb-2">
                       Input
                     </label>
-                    <p className="text-sm text-zinc-400">{inputPrompt}</p>
+                    <p className="text-sm text-zinc-400">{runInput}</p>
                   </div>
                 )}
 
@@ -311,7 +371,9 @@ export function WorkflowRunner({
                   <div className="space-y-3">
                     {workflow.steps.map((step, index) => {
                       const stepOutput = stepOutputs[index]
-                      const isActive = index === currentStep && status === 'running'
+                      const isActive = stepOutput?.status === 'running'
+                      const inputs = getStepInputs(step, workflow.steps)
+                      const isBranched = inputs.length > 1 || (inputs.length === 1 && inputs[0] !== workflow.steps[index - 1]?.id)
 
                       return (
                         <div key={step.id}>
@@ -324,6 +386,8 @@ export function WorkflowRunner({
                                 ? 'border-green-500/30 bg-green-500/5'
                                 : stepOutput?.status === 'error'
                                 ? 'border-red-500/30 bg-red-500/5'
+                                : stepOutput?.status === 'skipped'
+                                ? 'border-zinc-800 bg-zinc-900/50 opacity-60'
                                 : 'border-zinc-800 bg-zinc-800/20'
                             )}
                             animate={
@@ -359,6 +423,8 @@ export function WorkflowRunner({
                                   <Check size={14} className="text-green-400" />
                                 ) : stepOutput?.status === 'error' ? (
                                   <AlertCircle size={14} className="text-red-400" />
+                                ) : stepOutput?.status === 'skipped' ? (
+                                  <SkipForward size={14} className="text-zinc-500" />
                                 ) : (
                                   <span className="text-xs font-bold text-zinc-500">
                                     {index + 1}
@@ -374,11 +440,39 @@ export function WorkflowRunner({
                                 <p className="text-xs text-zinc-500 truncate mt-0.5">
                                   {step.promptTemplate}
                                 </p>
+                                {(isBranched || step.condition) && (
+                                  <p className="text-[10px] text-zinc-600 mt-0.5">
+                                    {inputs.length > 0
+                                      ? `From ${inputs.map((id) => `step ${workflow.steps.findIndex((s) => s.id === id) + 1}`).join(' + ')}`
+                                      : 'From workflow input'}
+                                    {step.condition && ` · ${describeCondition(step.condition)}`}
+                                  </p>
+                                )}
+                                {stepOutput?.status === 'skipped' && (
+                                  <p className="text-[10px] text-zinc-500 mt-1">Skipped - condition not met</p>
+                                )}
 
                                 {/* Output */}
                                 {stepOutput?.output && (
-                                  <div className="mt-3 p-3 rounded-lg bg-zinc-800/50 text-xs text-zinc-400">
-                                    {stepOutput.output}
+                                  <div className="mt-3 p-3 rounded-lg bg-zinc-800/50 text-xs text-zinc-400 flex items-start gap-3">
+                                    {stepOutput.imageUrl ? (
+                                      <a
+                                        href={stepOutput.imageUrl}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="flex-shrink-0"
+                                        aria-label="Open step output"
+                                      >
+                                        <img
+                                          src={stepOutput.imageUrl}
+                                          alt={stepOutput.output}
+                                          className="w-16 h-16 rounded-md object-cover"
+                                        />
+                                      </a>
+                                    ) : (
+                                      <ImageIcon size={16} className="flex-shrink-0 text-zinc-600" />
+                                    )}
+                                    <span className="line-clamp-3">{stepOutput.output}</span>
                                   </div>
                                 )}
 
@@ -444,17 +538,17 @@ export function WorkflowRunner({
                 onClick={handleClose}
                 className="px-4 py-2 rounded-xl bg-zinc-800 hover:bg-zinc-700 transition-colors text-sm"
               >
-                {status === 'completed' ? 'Done' : 'Cancel'}
+                {status === 'completed' ? 'Done' : status === 'idle' ? 'Cancel' : 'Close'}
               </button>
 
               <div className="flex items-center gap-3">
                 {status === 'idle' && (
                   <button
-                    onClick={startRun}
-                    disabled={!inputPrompt.trim()}
+                    onClick={() => startRun()}
+                    disabled={!canStart}
                     className={cn(
                       'flex items-center gap-2 px-6 py-2.5 rounded-xl font-bold text-sm transition-colors',
-                      inputPrompt.trim()
+                      canStart
                         ? 'bg-skinny-yellow text-black hover:bg-skinny-green'
                         : 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
                     )}
@@ -516,7 +610,7 @@ export function WorkflowRunner({
 
                 {status === 'completed' && (
                   <button
-                    onClick={cancelRun}
+                    onClick={clearRun}
                     className="flex items-center gap-2 px-6 py-2.5 rounded-xl bg-skinny-yellow text-black hover:bg-skinny-green font-bold text-sm transition-colors"
                   >
                     <RefreshCw size={16} />
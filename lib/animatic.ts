@@ -0,0 +1,489 @@
+import { spawn } from 'child_process'
+import { existsSync } from 'fs'
+import { mkdtemp, writeFile, readFile, stat, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import ffmpegStaticPath from 'ffmpeg-static'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { isVideoContent } from '@/lib/generation-output'
+import { AnimaticFormat, AnimaticOptions, StoryboardAnimatic } from '@/lib/types'
+
+/**
+ * Storyboard animatics.
+ *
+ * Renders a storyboard's completed shots, in order, into one video file with
+ * ffmpeg: stills are held for the shot's duration (moved with a Ken Burns
+ * effect picked from its camera movement), video shots are cut in at their
+ * duration, and title cards are optional. Each segment is encoded to the
+ * same size, frame rate and codec so the concat step can copy streams.
+ *
+ * Rendering takes minutes, so the API route only queues a row and
+ * dispatchAnimaticRender hands it to the render-animatic background function.
+ * The ffmpeg binary is FFMPEG_PATH when set, else the one ffmpeg-static
+ * downloads at install time (netlify.toml ships it with the render
+ * function), else whatever ffmpeg is on the PATH. Title cards are drawn with
+ * ANIMATIC_FONT_FILE when set, else the bundled DejaVu Sans - serverless
+ * hosts have no system fonts for fontconfig to find.
+ */
+
+export const ANIMATIC_FORMATS: AnimaticFormat[] = ['mp4', 'webm']
+export const MAX_ANIMATIC_SHOTS = 100
+
+export const ANIMATIC_FIELDS = 'id, storyboard_id, status, format, options, shot_count, output_url, duration_seconds, size_bytes, error, created_at, completed_at'
+
+const DEFAULT_OPTIONS: AnimaticOptions = { resolution: 720, titleCards: true, kenBurns: true }
+
+const FPS = 24
+const OPENING_CARD_SECONDS = 3
+const SHOT_CARD_SECONDS = 1.5
+// How far a Ken Burns move zooms in over a shot
+const KEN_BURNS_ZOOM = 0.15
+
+const DOWNLOAD_TIMEOUT_MS = 60000
+const SEGMENT_TIMEOUT_MS = 3 * 60 * 1000
+
+// Sweeper limits: a queued render was never picked up, a rendering one died
+const QUEUED_TIMEOUT_MS = 5 * 60 * 1000
+const RENDERING_TIMEOUT_MS = 20 * 60 * 1000
+
+export type KenBurnsMove = 'none' | 'zoom_in' | 'zoom_out' | 'pan_left' | 'pan_right' | 'tilt_up' | 'tilt_down'
+
+export type AnimaticSegment =
+  | { kind: 'title'; title: string; subtitle?: string; durationSeconds: number }
+  | { kind: 'still'; shotId: string; url: string; move: KenBurnsMove; durationSeconds: number }
+  | { kind: 'video'; shotId: string; url: string; durationSeconds: number }
+
+interface AnimaticShotRow {
+  id: string
+  shot_number: number
+  title?: string | null
+  camera_movement?: string | null
+  duration_seconds?: number | null
+  media_type?: string | null
+  status: string
+  generations?: { output_urls?: string[] | null } | null
+}
+
+export function toAnimatic(row: any): StoryboardAnimatic {
+  return {
+    id: row.id,
+    storyboardId: row.storyboard_id,
+    status: row.status,
+    format: row.format,
+    options: { ...DEFAULT_OPTIONS, ...(row.options || {}) },
+    shotCount: row.shot_count || 0,
+    outputUrl: row.output_url || undefined,
+    durationSeconds: row.duration_seconds != null ? Number(row.duration_seconds) : undefined,
+    sizeBytes: row.size_bytes != null ? Number(row.size_bytes) : undefined,
+    error: row.error || undefined,
+    createdAt: row.created_at,
+    completedAt: row.completed_at || undefined,
+  }
+}
+
+/**
+ * Read format and options from a request body, falling back to defaults.
+ */
+export function parseAnimaticRequest(body: any): { success: true; format: AnimaticFormat; options: AnimaticOptions } | { success: false; error: string } {
+  const format = body?.format ?? 'mp4'
+  if (!ANIMATIC_FORMATS.includes(format)) {
+    return { success: false, error: `Format must be one of: ${ANIMATIC_FORMATS.join(', ')}` }
+  }
+
+  const resolution = body?.resolution ?? DEFAULT_OPTIONS.resolution
+  if (resolution !== 720 && resolution !== 1080) {
+    return { success: false, error: 'Resolution must be 720 or 1080' }
+  }
+
+  return {
+    success: true,
+    format,
+    options: {
+      resolution,
+      titleCards: typeof body?.titleCards === 'boolean' ? body.titleCards : DEFAULT_OPTIONS.titleCards,
+      kenBurns: typeof body?.kenBurns === 'boolean' ? body.kenBurns : DEFAULT_OPTIONS.kenBurns,
+    },
+  }
+}
+
+/**
+ * Pick a Ken Burns move for a still from the shot's camera movement.
+ * Static shots and movements we can't fake on a still stay put.
+ */
+export function kenBurnsForMovement(cameraMovement?: string | null): KenBurnsMove {
+  const movement = (cameraMovement || '').toLowerCase()
+  if (movement.includes('pan left')) return 'pan_left'
+  if (movement.includes('pan right') || movement.includes('track')) return 'pan_right'
+  if (movement.includes('tilt up') || movement.includes('crane')) return 'tilt_up'
+  if (movement.includes('tilt down')) return 'tilt_down'
+  if (/dolly in|push in|zoom in|handheld/.test(movement)) return 'zoom_in'
+  if (/dolly out|pull out|pull back|zoom out/.test(movement)) return 'zoom_out'
+  return 'none'
+}
+
+/**
+ * Output size for an aspect ratio like "16:9", with `resolution` as the
+ * short side. Both sides are even, as yuv420p requires.
+ */
+export function getAnimaticSize(aspectRatio: string | null | undefined, resolution: number): { width: number; height: number } {
+  const [w, h] = (aspectRatio || '').split(':').map(Number)
+  const ratio = w > 0 && h > 0 ? w / h : 16 / 9
+  const even = (n: number) => Math.max(2, Math.round(n / 2) * 2)
+  return ratio >= 1
+    ? { width: even(resolution * ratio), height: resolution }
+    : { width: resolution, height: even(resolution / ratio) }
+}
+
+/**
+ * Lay out the animatic: completed shots in order, with title cards if asked
+ * for. Shots without an output are left out.
+ */
+export function buildAnimaticTimeline(
+  storyboard: { title: string; description?: string | null },
+  shots: AnimaticShotRow[],
+  options: AnimaticOptions
+): AnimaticSegment[] {
+  const segments: AnimaticSegment[] = []
+
+  if (options.titleCards) {
+    segments.push({
+      kind: 'title',
+      title: storyboard.title || 'Untitled Storyboard',
+      subtitle: storyboard.description || undefined,
+      durationSeconds: OPENING_CARD_SECONDS,
+    })
+  }
+
+  for (const shot of shots) {
+    const url = shot.generations?.output_urls?.[0]
+    if (shot.status !== 'completed' || !url) continue
+
+    const durationSeconds = shot.duration_seconds && shot.duration_seconds > 0 ? shot.duration_seconds : 5
+
+    if (options.titleCards && shot.title) {
+      segments.push({
+        kind: 'title',
+        title: shot.title,
+        subtitle: `Shot ${String(shot.shot_number).padStart(2, '0')}`,
+        durationSeconds: SHOT_CARD_SECONDS,
+      })
+    }
+
+    if (isVideoContent(url) || (shot.media_type === 'video' && !/\.(png|jpe?g|webp|gif)(\?|$)/i.test(url))) {
+      segments.push({ kind: 'video', shotId: shot.id, url, durationSeconds })
+    } else {
+      segments.push({
+        kind: 'still',
+        shotId: shot.id,
+        url,
+        move: options.kenBurns ? kenBurnsForMovement(shot.camera_movement) : 'none',
+        durationSeconds,
+      })
+    }
+  }
+
+  return segments
+}
+
+// === FFMPEG ===
+
+function runFfmpeg(args: string[], timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.env.FFMPEG_PATH || ffmpegStaticPath || 'ffmpeg', ['-hide_banner', '-loglevel', 'error', '-y', ...args])
+    let stderr = ''
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL')
+      reject(new Error('ffmpeg timed out'))
+    }, timeoutMs)
+
+    child.stderr.on('data', chunk => {
+      stderr = (stderr + chunk.toString()).slice(-2000)
+    })
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer)
+      reject(error.code === 'ENOENT' ? new Error('ffmpeg is not available on this server') : error)
+    })
+    child.on('close', code => {
+      clearTimeout(timer)
+      if (code === 0) resolve()
+      else reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().split('\n').pop() || 'no output'}`))
+    })
+  })
+}
+
+function encoderArgs(format: AnimaticFormat): string[] {
+  return format === 'webm'
+    ? ['-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '33', '-deadline', 'realtime', '-cpu-used', '8']
+    : ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23']
+}
+
+// zoompan expressions for a move over `frames` frames
+function kenBurnsFilter(move: KenBurnsMove, width: number, height: number, frames: number): string {
+  const progress = `on/${Math.max(frames - 1, 1)}`
+  const center = { x: 'iw/2-(iw/zoom/2)', y: 'ih/2-(ih/zoom/2)' }
+  const zoomed = `${1 + KEN_BURNS_ZOOM}`
+
+  const expr = {
+    zoom_in: { z: `1+${KEN_BURNS_ZOOM}*${progress}`, ...center },
+    zoom_out: { z: `${zoomed}-${KEN_BURNS_ZOOM}*${progress}`, ...center },
+    pan_left: { z: zoomed, x: `(iw-iw/zoom)*(1-${progress})`, y: center.y },
+    pan_right: { z: zoomed, x: `(iw-iw/zoom)*${progress}`, y: center.y },
+    tilt_up: { z: zoomed, x: center.x, y: `(ih-ih/zoom)*(1-${progress})` },
+    tilt_down: { z: zoomed, x: center.x, y: `(ih-ih/zoom)*${progress}` },
+  }[move as Exclude<KenBurnsMove, 'none'>]
+
+  // Upscale first so the sub-pixel steps of the move don't jitter
+  return [
+    `scale=${width * 4}:${height * 4}:force_original_aspect_ratio=increase`,
+    `crop=${width * 4}:${height * 4}`,
+    `zoompan=z='${expr.z}':x='${expr.x}':y='${expr.y}':d=1:s=${width}x${height}:fps=${FPS}`,
+  ].join(',')
+}
+
+// Shipped with the render function by netlify.toml's included_files
+const BUNDLED_FONT_FILE = path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf', 'DejaVuSans.ttf')
+
+// Quote a path for use inside a filter argument
+const filterPath = (filePath: string) => `'${filePath.replace(/\\/g, '/').replace(/'/g, "'\\''").replace(/:/g, '\\:')}'`
+
+async function renderSegment(
+  segment: AnimaticSegment,
+  index: number,
+  workDir: string,
+  size: { width: number; height: number },
+  format: AnimaticFormat
+): Promise<string> {
+  const { width, height } = size
+  const output = path.join(workDir, `segment-${String(index).padStart(3, '0')}.${format}`)
+  const frames = Math.max(1, Math.round(segment.durationSeconds * FPS))
+  const common = ['-an', '-r', String(FPS), '-pix_fmt', 'yuv420p', ...encoderArgs(format), '-frames:v', String(frames), output]
+
+  if (segment.kind === 'title') {
+    const fontFile = process.env.ANIMATIC_FONT_FILE || (existsSync(BUNDLED_FONT_FILE) ? BUNDLED_FONT_FILE : null)
+    const font = fontFile ? `fontfile=${filterPath(fontFile)}` : 'font=Sans'
+    const titleFile = path.join(workDir, `title-${index}.txt`)
+    await writeFile(titleFile, segment.title)
+
+    const filters = [
+      `drawtext=${font}:textfile=${filterPath(titleFile)}:fontcolor=white:fontsize=${Math.round(height / 12)}:x=(w-text_w)/2:y=(h-text_h)/2`,
+    ]
+    if (segment.subtitle) {
+      const subtitleFile = path.join(workDir, `subtitle-${index}.txt`)
+      await writeFile(subtitleFile, segment.subtitle.slice(0, 120))
+      filters.push(
+        `drawtext=${font}:textfile=${filterPath(subtitleFile)}:fontcolor=0xA1A1AA:fontsize=${Math.round(height / 28)}:x=(w-text_w)/2:y=h/2+${Math.round(height / 10)}`
+      )
+    }
+
+    await runFfmpeg([
+      '-f', 'lavfi', '-i', `color=c=black:s=${width}x${height}:r=${FPS}:d=${segment.durationSeconds}`,
+      '-vf', [...filters, 'setsar=1'].join(','),
+      ...common,
+    ], SEGMENT_TIMEOUT_MS)
+    return output
+  }
+
+  const input = await downloadToFile(segment.url, path.join(workDir, `source-${index}`))
+
+  if (segment.kind === 'video') {
+    await runFfmpeg([
+      '-i', input,
+      // A clip shorter than the shot holds its last frame
+      '-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,fps=${FPS},tpad=stop_mode=clone:stop_duration=${segment.durationSeconds},setsar=1`,
+      ...common,
+    ], SEGMENT_TIMEOUT_MS)
+    return output
+  }
+
+  const filter = segment.move === 'none'
+    ? `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`
+    : kenBurnsFilter(segment.move, width, height, frames)
+
+  await runFfmpeg([
+    '-loop', '1', '-framerate', String(FPS), '-i', input,
+    '-vf', `${filter},setsar=1`,
+    ...common,
+  ], SEGMENT_TIMEOUT_MS)
+  return output
+}
+
+async function downloadToFile(url: string, filePath: string): Promise<string> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`Failed to download shot media: ${response.status}`)
+  }
+  await writeFile(filePath, Buffer.from(await response.arrayBuffer()))
+  return filePath
+}
+
+// === RENDER ===
+
+async function failAnimatic(animaticId: string, error: string) {
+  await sbAdmin
+    .from('storyboard_animatics')
+    .update({ status: 'failed', error, completed_at: new Date().toISOString() })
+    .eq('id', animaticId)
+    .in('status', ['queued', 'rendering'])
+}
+
+/**
+ * Render a queued animatic and upload it to the generated-videos bucket.
+ * Claims the row first, so a render that's already running (or done) is
+ * left alone.
+ */
+export async function renderAnimatic(animaticId: string): Promise<StoryboardAnimatic | null> {
+  const { data: claimed } = await sbAdmin
+    .from('storyboard_animatics')
+    .update({ status: 'rendering', started_at: new Date().toISOString() })
+    .eq('id', animaticId)
+    .eq('status', 'queued')
+    .select('*')
+    .maybeSingle()
+
+  if (!claimed) {
+    console.log(`[Animatic] ${animaticId} is not queued, skipping`)
+    return null
+  }
+
+  let workDir: string | null = null
+  try {
+    const { data: storyboard } = await sbAdmin
+      .from('storyboards')
+      .select('id, title, description, default_aspect_ratio')
+      .eq('id', claimed.storyboard_id)
+      .single()
+
+    if (!storyboard) throw new Error('Storyboard not found')
+
+    const { data: shots, error: shotsError } = await sbAdmin
+      .from('storyboard_shots')
+      .select('id, shot_number, title, camera_movement, duration_seconds, media_type, status, generations ( output_urls )')
+      .eq('storyboard_id', storyboard.id)
+      .order('sort_order', { ascending: true })
+      .limit(MAX_ANIMATIC_SHOTS)
+
+    if (shotsError) throw new Error('Failed to fetch shots')
+
+    const format = claimed.format as AnimaticFormat
+    const options: AnimaticOptions = { ...DEFAULT_OPTIONS, ...(claimed.options || {}) }
+    const segments = buildAnimaticTimeline(storyboard, (shots || []) as unknown as AnimaticShotRow[], options)
+    const shotCount = segments.filter(segment => segment.kind !== 'title').length
+    if (shotCount === 0) throw new Error('No completed shots to render')
+
+    const size = getAnimaticSize(storyboard.default_aspect_ratio, options.resolution)
+    workDir = await mkdtemp(path.join(tmpdir(), 'animatic-'))
+
+    // One segment at a time - ffmpeg already uses every core it can get
+    const segmentFiles: string[] = []
+    for (let i = 0; i < segments.length; i++) {
+      segmentFiles.push(await renderSegment(segments[i], i, workDir, size, format))
+    }
+
+    const listFile = path.join(workDir, 'segments.txt')
+    await writeFile(listFile, segmentFiles.map(file => `file '${file.replace(/'/g, "'\\''")}'`).join('\n'))
+
+    const outputFile = path.join(workDir, `animatic.${format}`)
+    await runFfmpeg([
+      '-f', 'concat', '-safe', '0', '-i', listFile,
+      '-c', 'copy',
+      ...(format === 'mp4' ? ['-movflags', '+faststart'] : []),
+      outputFile,
+    ], SEGMENT_TIMEOUT_MS)
+
+    const { size: sizeBytes } = await stat(outputFile)
+    const storagePath = `${claimed.whop_user_id}/animatics/${animaticId}.${format}`
+    const { error: uploadError } = await sbAdmin.storage
+      .from('generated-videos')
+      .upload(storagePath, await readFile(outputFile), {
+        contentType: format === 'webm' ? 'video/webm' : 'video/mp4',
+        upsert: true,
+      })
+
+    if (uploadError) {
+      console.error('[Animatic] Upload error:', uploadError)
+      throw new Error('Failed to upload the animatic')
+    }
+
+    const { data: urlData } = sbAdmin.storage.from('generated-videos').getPublicUrl(storagePath)
+    const durationSeconds = segments.reduce((sum, segment) => sum + segment.durationSeconds, 0)
+
+    const { data: completed } = await sbAdmin
+      .from('storyboard_animatics')
+      .update({
+        status: 'completed',
+        shot_count: shotCount,
+        output_url: urlData.publicUrl,
+        storage_path: storagePath,
+        duration_seconds: durationSeconds,
+        size_bytes: sizeBytes,
+        error: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', animaticId)
+      .select(ANIMATIC_FIELDS)
+      .single()
+
+    console.log(`[Animatic] Rendered ${animaticId}: ${shotCount} shots, ${durationSeconds}s, ${sizeBytes} bytes`)
+    return completed ? toAnimatic(completed) : null
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Render failed'
+    console.error(`[Animatic] Render of ${animaticId} failed:`, error)
+    await failAnimatic(animaticId, message)
+    return null
+  } finally {
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+}
+
+/**
+ * Start rendering a queued animatic. On Netlify this invokes the background
+ * function (routes can't run for minutes); anywhere else it renders in this
+ * process without waiting.
+ */
+export async function dispatchAnimaticRender(animaticId: string, origin: string): Promise<void> {
+  if (!process.env.NETLIFY) {
+    renderAnimatic(animaticId).catch(error => console.error('[Animatic] Local render failed:', error))
+    return
+  }
+
+  try {
+    const response = await fetch(`${process.env.URL || origin}/.netlify/functions/render-animatic-background`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ animaticId }),
+    })
+    if (!response.ok) {
+      throw new Error(`Background function returned ${response.status}`)
+    }
+  } catch (error) {
+    console.error('[Animatic] Failed to dispatch render:', error)
+    await failAnimatic(animaticId, 'Failed to start the render')
+  }
+}
+
+/**
+ * Fail renders that never started or stopped reporting.
+ */
+export async function sweepAnimatics(): Promise<{ failed: number }> {
+  const now = Date.now()
+  const queuedBefore = new Date(now - QUEUED_TIMEOUT_MS).toISOString()
+  const renderingBefore = new Date(now - RENDERING_TIMEOUT_MS).toISOString()
+
+  const { data: stale, error } = await sbAdmin
+    .from('storyboard_animatics')
+    .select('id, status')
+    .or(`and(status.eq.queued,created_at.lt."${queuedBefore}"),and(status.eq.rendering,started_at.lt."${renderingBefore}")`)
+    .limit(50)
+
+  if (error) {
+    console.error('[Animatic] Sweep query failed:', error)
+    return { failed: 0 }
+  }
+
+  for (const row of stale || []) {
+    await failAnimatic(row.id, row.status === 'queued' ? 'The render never started' : 'The render timed out')
+  }
+  return { failed: stale?.length || 0 }
+}
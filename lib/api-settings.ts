@@ -4,7 +4,8 @@
 export interface OrchestratorModel {
   id: string
   name: string
-  provider: 'google' | 'google-vertex'
+  // 'openai-compatible' is an admin-configured server (see lib/orchestrator/adapters)
+  provider: 'google' | 'google-vertex' | 'openai-compatible'
   description: string
   limits: {
     rpm: number | 'unlimited'
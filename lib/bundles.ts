@@ -0,0 +1,484 @@
+import {
+  Skill,
+  SkillCategory,
+  Session,
+  SessionAsset,
+  Workflow,
+  WorkflowStep,
+  WorkflowInput,
+} from '@/lib/types'
+import { getSessionTemplate } from '@/lib/sessions/session-templates'
+import { validateWorkflowGraph } from '@/lib/workflow-graph'
+import { normalizeSteps, normalizeInputs, validateWorkflowTemplates } from '@/lib/workflow-template'
+
+/**
+ * Portable bundles.
+ *
+ * A bundle is a versioned JSON file holding any mix of skills, workflows and
+ * sessions, plus the skill shortcuts and model slugs they reference, so a
+ * skill pack or workflow can be shared as a file. Exports carry original ids
+ * only as `ref`s; imports get fresh ids, rename colliding shortcuts (rewriting
+ * the @mentions that point at them) and report models this install doesn't
+ * have. Pure functions only - the settings import/export panel applies the plan.
+ */
+
+export const BUNDLE_FORMAT = 'skinny-studio-bundle'
+export const BUNDLE_VERSION = 1
+
+const SKILL_CATEGORIES: SkillCategory[] = ['style', 'technique', 'tool', 'workflow', 'custom']
+
+// @shortcut mentions; shortcuts may contain hyphens
+const SKILL_MENTION_PATTERN = /@([\w-]+)/g
+
+// ============================================
+// BUNDLE FORMAT
+// ============================================
+
+export interface BundleSkill {
+  ref: string
+  name: string
+  description: string
+  category: SkillCategory
+  icon?: string
+  content: string
+  tags: string[]
+  shortcut?: string
+  examples?: string[]
+  recommendedModels?: string[]
+}
+
+export interface BundleWorkflow {
+  ref: string
+  name: string
+  description: string
+  inputs?: WorkflowInput[]
+  steps: WorkflowStep[]
+}
+
+export interface BundleSession {
+  ref: string
+  templateId: string
+  title: string
+  status: Session['status']
+  assets: Omit<SessionAsset, 'id' | 'generationId'>[]
+  briefContext?: Session['briefContext']
+}
+
+export interface StudioBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  skills: BundleSkill[]
+  workflows: BundleWorkflow[]
+  sessions: BundleSession[]
+  // Everything the contents mention, whether or not the bundle carries it
+  references: {
+    skillShortcuts: string[]
+    models: string[]
+  }
+}
+
+export type BundleParseResult =
+  | { success: true; bundle: StudioBundle; warnings: string[] }
+  | { success: false; error: string }
+
+// ============================================
+// EXPORT
+// ============================================
+
+function findSkillMentions(text: string): string[] {
+  return Array.from(text.matchAll(SKILL_MENTION_PATTERN)).map(match => match[1])
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)))
+}
+
+/**
+ * Build a bundle from the selected items. User skills that selected workflows
+ * or sessions mention are pulled in too; built-in skills travel as references
+ * only since every install has them.
+ */
+export function createBundle(selection: {
+  skills: Skill[]
+  workflows: Workflow[]
+  sessions: Session[]
+  allSkills: Skill[]
+}): StudioBundle {
+  const workflowMentions = selection.workflows.flatMap(wf =>
+    wf.steps.flatMap(step => findSkillMentions(step.promptTemplate))
+  )
+  const sessionMentions = selection.sessions.flatMap(session => {
+    const template = getSessionTemplate(session.templateId)
+    return template ? [...template.defaultSkills, ...template.assets.flatMap(asset => asset.skills)] : []
+  })
+
+  const referencedShortcuts = unique([
+    ...workflowMentions,
+    ...sessionMentions,
+    ...selection.skills.flatMap(skill => findSkillMentions(skill.content)),
+  ])
+
+  const included = new Map(selection.skills.map(skill => [skill.id, skill]))
+  for (const skill of selection.allSkills) {
+    if (!skill.isBuiltIn && skill.shortcut && referencedShortcuts.includes(skill.shortcut)) {
+      included.set(skill.id, skill)
+    }
+  }
+  const skills = Array.from(included.values())
+
+  const models = unique([
+    ...selection.workflows.flatMap(wf => wf.steps.map(step => step.modelId)),
+    ...skills.flatMap(skill => skill.recommendedModels || []),
+    ...selection.sessions.flatMap(session =>
+      getSessionTemplate(session.templateId)?.assets.map(asset => asset.modelSuggestion) || []
+    ),
+  ])
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    skills: skills.map(skill => ({
+      ref: skill.id,
+      name: skill.name,
+      description: skill.description,
+      category: skill.category,
+      icon: skill.icon,
+      content: skill.content,
+      tags: skill.tags,
+      shortcut: skill.shortcut,
+      examples: skill.examples,
+      recommendedModels: skill.recommendedModels,
+    })),
+    workflows: selection.workflows.map(wf => ({
+      ref: wf.id,
+      name: wf.name,
+      description: wf.description,
+      inputs: wf.inputs,
+      steps: wf.steps,
+    })),
+    sessions: selection.sessions.map(session => ({
+      ref: session.id,
+      templateId: session.templateId,
+      title: session.title,
+      status: session.status,
+      assets: session.assets.map(({ id: _id, generationId: _generationId, ...asset }) => asset),
+      briefContext: session.briefContext,
+    })),
+    references: {
+      skillShortcuts: unique([...referencedShortcuts, ...skills.map(skill => skill.shortcut || '')]),
+      models,
+    },
+  }
+}
+
+export function getBundleFilename(bundle: StudioBundle): string {
+  const date = bundle.exportedAt.slice(0, 10)
+  const single =
+    bundle.workflows.length + bundle.sessions.length + bundle.skills.length === 1
+      ? bundle.workflows[0]?.name || bundle.sessions[0]?.title || bundle.skills[0]?.name
+      : null
+  const slug = (single || 'bundle').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `skinny-${slug || 'bundle'}-${date}.json`
+}
+
+// ============================================
+// PARSE
+// ============================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const stringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+/**
+ * Validate an uploaded file's JSON. Items that can't be read are dropped with
+ * a warning rather than failing the whole bundle.
+ */
+export function parseBundle(json: unknown): BundleParseResult {
+  if (!isObject(json) || json.format !== BUNDLE_FORMAT) {
+    return { success: false, error: 'This file is not a Skinny Studio bundle' }
+  }
+  if (typeof json.version !== 'number' || !Number.isInteger(json.version) || json.version < 1) {
+    return { success: false, error: 'Bundle version is missing or invalid' }
+  }
+  if (json.version > BUNDLE_VERSION) {
+    return { success: false, error: `This bundle was made by a newer version of Skinny Studio (format v${json.version})` }
+  }
+
+  const warnings: string[] = []
+
+  const skills: BundleSkill[] = []
+  const rawSkills: any[] = Array.isArray(json.skills) ? json.skills : []
+  for (let index = 0; index < rawSkills.length; index++) {
+    const raw = rawSkills[index]
+    if (!isObject(raw) || typeof raw.name !== 'string' || typeof raw.content !== 'string') {
+      warnings.push(`Skipped skill ${index + 1}: missing name or content`)
+      continue
+    }
+    skills.push({
+      ref: typeof raw.ref === 'string' ? raw.ref : `skill-${index}`,
+      name: raw.name,
+      description: typeof raw.description === 'string' ? raw.description : '',
+      category: SKILL_CATEGORIES.includes(raw.category) ? raw.category : 'custom',
+      icon: typeof raw.icon === 'string' ? raw.icon : undefined,
+      content: raw.content,
+      tags: stringArray(raw.tags),
+      shortcut: typeof raw.shortcut === 'string' && raw.shortcut ? raw.shortcut.replace(/^@/, '') : undefined,
+      examples: Array.isArray(raw.examples) ? stringArray(raw.examples) : undefined,
+      recommendedModels: Array.isArray(raw.recommendedModels) ? stringArray(raw.recommendedModels) : undefined,
+    })
+  }
+
+  const workflows: BundleWorkflow[] = []
+  const rawWorkflows: any[] = Array.isArray(json.workflows) ? json.workflows : []
+  for (let index = 0; index < rawWorkflows.length; index++) {
+    const raw = rawWorkflows[index]
+    // Same shape the workflows API saves, so the import plan can rely on it
+    const steps = isObject(raw) ? normalizeSteps(raw.steps) : []
+    if (!isObject(raw) || typeof raw.name !== 'string' || steps.length === 0) {
+      warnings.push(`Skipped workflow ${index + 1}: missing name or steps`)
+      continue
+    }
+    const inputs = normalizeInputs(raw.inputs)
+    const errors = [...validateWorkflowGraph(steps), ...validateWorkflowTemplates(steps, inputs)]
+    if (errors.length > 0) {
+      warnings.push(`Skipped workflow "${raw.name}": ${errors[0]}`)
+      continue
+    }
+    workflows.push({
+      ref: typeof raw.ref === 'string' ? raw.ref : `workflow-${index}`,
+      name: raw.name,
+      description: typeof raw.description === 'string' ? raw.description : '',
+      inputs: inputs.length > 0 ? inputs : undefined,
+      steps,
+    })
+  }
+
+  const sessions: BundleSession[] = []
+  const rawSessions: any[] = Array.isArray(json.sessions) ? json.sessions : []
+  for (let index = 0; index < rawSessions.length; index++) {
+    const raw = rawSessions[index]
+    if (!isObject(raw) || typeof raw.templateId !== 'string' || !Array.isArray(raw.assets)) {
+      warnings.push(`Skipped session ${index + 1}: missing template or assets`)
+      continue
+    }
+    if (!getSessionTemplate(raw.templateId)) {
+      warnings.push(`Skipped session "${raw.title || index + 1}": unknown session type "${raw.templateId}"`)
+      continue
+    }
+    sessions.push({
+      ref: typeof raw.ref === 'string' ? raw.ref : `session-${index}`,
+      templateId: raw.templateId,
+      title: typeof raw.title === 'string' ? raw.title : 'Imported session',
+      status: ['planning', 'in_progress', 'completed'].includes(raw.status) ? raw.status : 'planning',
+      assets: raw.assets
+        .filter((asset: unknown) => isObject(asset) && typeof asset.templateAssetId === 'string')
+        .map((asset: any, assetIndex: number) => ({
+          templateAssetId: asset.templateAssetId,
+          name: typeof asset.name === 'string' ? asset.name : asset.templateAssetId,
+          // Generations in progress belong to the exporting account
+          status: asset.status === 'completed' && typeof asset.outputUrl === 'string'
+            ? 'completed'
+            : asset.status === 'skipped' ? 'skipped' : 'pending',
+          outputUrl: typeof asset.outputUrl === 'string' ? asset.outputUrl : undefined,
+          sortOrder: typeof asset.sortOrder === 'number' ? asset.sortOrder : assetIndex,
+        })),
+      briefContext: isObject(raw.briefContext) ? raw.briefContext : undefined,
+    })
+  }
+
+  if (skills.length + workflows.length + sessions.length === 0) {
+    return { success: false, error: warnings[0] || 'This bundle is empty' }
+  }
+
+  const references = isObject(json.references) ? json.references : {}
+  return {
+    success: true,
+    bundle: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: typeof json.exportedAt === 'string' ? json.exportedAt : new Date().toISOString(),
+      skills,
+      workflows,
+      sessions,
+      references: {
+        skillShortcuts: stringArray(references.skillShortcuts),
+        models: unique([...stringArray(references.models), ...workflows.flatMap(wf => wf.steps.map(step => step.modelId))]),
+      },
+    },
+    warnings,
+  }
+}
+
+// ============================================
+// IMPORT PLAN
+// ============================================
+
+// What to do when an imported skill's shortcut is already taken
+export type ShortcutCollisionStrategy = 'rename' | 'skip' | 'replace'
+
+export interface ShortcutCollision {
+  shortcut: string
+  skillName: string
+  // Where @mentions of it point after import
+  resolvedShortcut: string
+  resolution: 'renamed' | 'kept-existing' | 'replaced'
+}
+
+export interface BundleImportPlan {
+  skillsToAdd: Omit<Skill, 'id' | 'createdAt' | 'usageCount'>[]
+  skillsToReplace: { id: string; updates: Partial<Skill> }[]
+  workflows: Omit<Workflow, 'id' | 'createdAt' | 'runCount' | 'isPublic'>[]
+  sessions: Session[]
+  collisions: ShortcutCollision[]
+  // Referenced by the bundle but not in studio_models here
+  missingModels: string[]
+  // Mentioned by the bundle but neither included nor installed here
+  missingSkills: string[]
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Point @old mentions at their new shortcut
+function rewriteMentions(text: string, renames: Map<string, string>): string {
+  let result = text
+  renames.forEach((to, from) => {
+    result = result.replace(new RegExp(`@${escapeRegExp(from)}(?![\\w-])`, 'g'), `@${to}`)
+  })
+  return result
+}
+
+// Fresh step ids, with inputs and {{steps.<id>...}} references following them
+function remapSteps(steps: WorkflowStep[], renames: Map<string, string>): WorkflowStep[] {
+  const ids = new Map(steps.map(step => [step.id, newId('step')]))
+
+  return steps.map(step => {
+    let promptTemplate = rewriteMentions(step.promptTemplate, renames)
+    ids.forEach((to, from) => {
+      promptTemplate = promptTemplate.replace(
+        new RegExp(`(\\{\\{\\s*steps\\.)${escapeRegExp(from)}(\\.)`, 'g'),
+        `$1${to}$2`
+      )
+    })
+    return {
+      ...step,
+      id: ids.get(step.id) as string,
+      promptTemplate,
+      ...(step.inputs && { inputs: step.inputs.map(input => ids.get(input) || input) }),
+    }
+  })
+}
+
+/**
+ * Work out what importing a bundle would do without changing anything:
+ * new ids for everything, shortcut collisions resolved by `strategy`,
+ * and which models and skills this install is missing.
+ * Built-in skills are never replaced - a collision with one is renamed.
+ */
+export function planBundleImport(
+  bundle: StudioBundle,
+  options: {
+    existingSkills: Skill[]
+    availableModels: string[]
+    strategy: ShortcutCollisionStrategy
+  }
+): BundleImportPlan {
+  const taken = new Set(options.existingSkills.map(skill => skill.shortcut).filter(Boolean) as string[])
+  const renames = new Map<string, string>()
+  const collisions: ShortcutCollision[] = []
+  const skillsToAdd: BundleImportPlan['skillsToAdd'] = []
+  const skillsToReplace: BundleImportPlan['skillsToReplace'] = []
+  const importedShortcuts = new Set<string>()
+
+  for (const skill of bundle.skills) {
+    const shortcut = skill.shortcut
+    const existing = shortcut ? options.existingSkills.find(s => s.shortcut === shortcut) : undefined
+    const duplicateInBundle = !!shortcut && importedShortcuts.has(shortcut)
+
+    let finalShortcut = shortcut
+    if ((existing || duplicateInBundle) && shortcut) {
+      if (!duplicateInBundle && options.strategy === 'skip') {
+        collisions.push({ shortcut, skillName: skill.name, resolvedShortcut: shortcut, resolution: 'kept-existing' })
+        importedShortcuts.add(shortcut)
+        continue
+      }
+      if (!duplicateInBundle && options.strategy === 'replace' && existing && !existing.isBuiltIn) {
+        skillsToReplace.push({ id: existing.id, updates: toSkillFields(skill) })
+        collisions.push({ shortcut, skillName: skill.name, resolvedShortcut: shortcut, resolution: 'replaced' })
+        importedShortcuts.add(shortcut)
+        continue
+      }
+
+      let suffix = 2
+      while (taken.has(`${shortcut}-${suffix}`) || importedShortcuts.has(`${shortcut}-${suffix}`)) suffix++
+      finalShortcut = `${shortcut}-${suffix}`
+      // Later mentions of a duplicate inside the bundle stay on the first copy
+      if (!duplicateInBundle) renames.set(shortcut, finalShortcut)
+      collisions.push({ shortcut, skillName: skill.name, resolvedShortcut: finalShortcut, resolution: 'renamed' })
+    }
+
+    if (finalShortcut) importedShortcuts.add(finalShortcut)
+    skillsToAdd.push({ ...toSkillFields(skill), shortcut: finalShortcut, isBuiltIn: false, isActive: true })
+  }
+
+  // Mentions inside imported content follow renamed shortcuts
+  for (const skill of skillsToAdd) skill.content = rewriteMentions(skill.content, renames)
+  for (const { updates } of skillsToReplace) {
+    if (updates.content) updates.content = rewriteMentions(updates.content, renames)
+  }
+
+  const workflows = bundle.workflows.map(wf => ({
+    name: wf.name,
+    description: wf.description,
+    inputs: wf.inputs,
+    steps: remapSteps(wf.steps, renames),
+  }))
+
+  const now = new Date()
+  const sessions: Session[] = bundle.sessions.map(session => ({
+    id: newId('session'),
+    templateId: session.templateId,
+    title: session.title,
+    status: session.status,
+    assets: session.assets.map(asset => ({ ...asset, id: newId('asset') })),
+    briefContext: session.briefContext,
+    createdAt: now,
+    updatedAt: now,
+  }))
+
+  const available = new Set(options.availableModels)
+  const knownShortcuts = new Set([...Array.from(taken), ...Array.from(importedShortcuts)])
+
+  return {
+    skillsToAdd,
+    skillsToReplace,
+    workflows,
+    sessions,
+    collisions,
+    missingModels: bundle.references.models.filter(model => !available.has(model)),
+    missingSkills: bundle.references.skillShortcuts.filter(shortcut => !knownShortcuts.has(shortcut)),
+  }
+}
+
+function toSkillFields(skill: BundleSkill): Omit<Skill, 'id' | 'createdAt' | 'usageCount' | 'isBuiltIn' | 'isActive'> {
+  return {
+    name: skill.name,
+    description: skill.description,
+    category: skill.category,
+    icon: skill.icon,
+    content: skill.content,
+    tags: skill.tags,
+    shortcut: skill.shortcut,
+    examples: skill.examples,
+    recommendedModels: skill.recommendedModels,
+  }
+}
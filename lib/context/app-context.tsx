@@ -1,9 +1,12 @@
 'use client'
 
-import { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react'
+import { createContext, useContext, useState, useCallback, useMemo, ReactNode, useEffect } from 'react'
 import { Toast, ToastType, AIModel, AppSettings } from '@/lib/types'
 import { mockModels } from '@/lib/types'
+import type { ModelSpec } from '@/lib/orchestrator/model-specs'
+import { useModelSpecs } from '@/lib/hooks/use-model-specs'
 import { saveToStorage, loadFromStorage, STORAGE_KEYS, addRecentModel, getRecentModels, migrateStorage } from '@/lib/storage'
+import type { QuoteLineItem } from '@/lib/pricing'
 
 // ============================================
 // App Context - Global App State
@@ -27,7 +30,9 @@ export interface CostEstimate {
     resolution?: string
     costPerSecond?: number
     resolutionMultiplier?: number
+    generateAudio?: boolean
   }
+  lineItems?: QuoteLineItem[]
 }
 
 // Insufficient balance modal state
@@ -86,14 +91,41 @@ const defaultSettings: AppSettings = {
 
 const AppContext = createContext<AppContextType | null>(null)
 
+// A catalog model as the model selector shows it
+function specToModel(spec: ModelSpec): AIModel {
+  const tags = [
+    spec.capabilities.supportsReferenceImages && 'references',
+    spec.capabilities.textRendering && 'text',
+    spec.capabilities.supportsStartingFrame && 'image-to-video',
+    spec.capabilities.supportsLastFrame && 'end-frame',
+  ].filter((tag): tag is string => !!tag)
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    provider: spec.replicateId.split('/')[0],
+    description: spec.description,
+    category: spec.type === 'video' ? 'video' : 'image',
+    tags,
+    capabilities: { speed: 'medium', quality: 'high', textRendering: spec.capabilities.textRendering },
+    replicateId: spec.replicateId,
+  }
+}
+
 export function AppProvider({ children }: { children: ReactNode }) {
   // Run migrations on mount
   useEffect(() => {
     migrateStorage()
   }, [])
 
-  // Models state
-  const [models] = useState<AIModel[]>(mockModels)
+  // Models state - the chat modes are built in, generation models come from
+  // the studio_models catalog (the bundled list stands in until it loads)
+  const { specs: modelSpecs } = useModelSpecs()
+  const models = useMemo<AIModel[]>(() => {
+    const generationModels = modelSpecs.filter(spec => spec.type !== 'audio').map(specToModel)
+    if (generationModels.length === 0) return mockModels
+    return [...mockModels.filter(m => m.category === 'chat'), ...generationModels]
+  }, [modelSpecs])
   const [selectedModel, setSelectedModelState] = useState<AIModel>(
     mockModels.find(m => m.id === 'creative-consultant') || mockModels[0]
   )
@@ -40,7 +40,7 @@ export interface ChatAttachment {
 }
 
 export interface GenerationResult {
-  status: 'planning' | 'generating' | 'complete' | 'error'
+  status: 'planning' | 'generating' | 'complete' | 'error' | 'canceled'
   model: string
   params: Record<string, any>
   generationId?: string  // Database ID for frontend polling when pending
@@ -59,6 +59,32 @@ export interface GenerationResult {
   available?: number // cents available in balance
 }
 
+// What the orchestrator asked /api/generate for - must match the chat route
+export interface GenerationRequest {
+  model: string
+  prompt: string
+  params: Record<string, any>
+  duration?: number
+  resolution?: string
+  generateAudio?: boolean
+  sequentialImageGeneration?: 'disabled' | 'auto'
+  maxImages?: number
+}
+
+export interface GenerationGroupItem {
+  request: GenerationRequest
+  costCents: number  // Quoted hold (max cost for sequential generations)
+  modelName?: string
+  generation?: GenerationResult  // Set once started, or up front when it can't run
+}
+
+// Several generations from one turn, confirmed and started together
+export interface GenerationGroup {
+  status: 'confirming' | 'running' | 'dismissed'
+  items: GenerationGroupItem[]
+  totalCents: number
+}
+
 // Director's Notes from AI
 export interface DirectorsNotes {
   modelChoice: string
@@ -73,6 +99,7 @@ export interface ChatMessage {
   content: string
   timestamp: Date
   generation?: GenerationResult
+  generationGroup?: GenerationGroup
   directorsNotes?: DirectorsNotes
   attachments?: ChatAttachment[]
   isStreaming?: boolean
@@ -105,7 +132,8 @@ type ChatAction =
   | { type: 'SET_ERROR'; payload: { error: string | null; code?: string | null } }
   | { type: 'CLEAR_MESSAGES' }
   | { type: 'SET_CONVERSATION_ID'; payload: string | null }
-  | { type: 'UPDATE_GENERATION_STATUS'; payload: { messageId: string; generation: GenerationResult } }
+  | { type: 'UPDATE_GENERATION_STATUS'; payload: { messageId: string; generation: GenerationResult; itemIndex?: number } }
+  | { type: 'SET_GENERATION_GROUP_STATUS'; payload: { messageId: string; status: GenerationGroup['status'] } }
   | { type: 'LOAD_CONVERSATIONS'; payload: Conversation[] }
   | { type: 'ADD_CONVERSATION'; payload: Conversation }
   | { type: 'UPDATE_CONVERSATION'; payload: { id: string; updates: Partial<Conversation> } }
@@ -165,12 +193,28 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
     case 'SET_CONVERSATION_ID':
       return { ...state, currentConversationId: action.payload }
 
-    case 'UPDATE_GENERATION_STATUS':
+    case 'UPDATE_GENERATION_STATUS': {
+      const { messageId, generation, itemIndex } = action.payload
+      return {
+        ...state,
+        messages: state.messages.map((msg) => {
+          if (msg.id !== messageId) return msg
+          if (itemIndex === undefined || !msg.generationGroup) return { ...msg, generation }
+          // Items of a group update independently as their polls come back
+          const items = msg.generationGroup.items.map((item, i) =>
+            i === itemIndex ? { ...item, generation } : item
+          )
+          return { ...msg, generationGroup: { ...msg.generationGroup, items } }
+        }),
+      }
+    }
+
+    case 'SET_GENERATION_GROUP_STATUS':
       return {
         ...state,
         messages: state.messages.map((msg) =>
-          msg.id === action.payload.messageId
-            ? { ...msg, generation: action.payload.generation }
+          msg.id === action.payload.messageId && msg.generationGroup
+            ? { ...msg, generationGroup: { ...msg.generationGroup, status: action.payload.status } }
             : msg
         ),
       }
@@ -246,7 +290,10 @@ interface ChatContextValue {
   clearMessages: () => void
   clearError: () => void
   setConversationId: (id: string | null) => void
-  updateGenerationStatus: (messageId: string, generation: GenerationResult) => void
+  updateGenerationStatus: (messageId: string, generation: GenerationResult, itemIndex?: number) => void
+  cancelGeneration: (messageId: string, itemIndex?: number) => Promise<boolean>
+  runGenerationGroup: (messageId: string) => Promise<void>
+  dismissGenerationGroup: (messageId: string) => void
   sendMessage: (content: string, attachments?: ChatAttachment[], skillsContext?: string, referencedSkills?: SkillForApi[], selectedGenerationModelId?: string) => Promise<void>
   // Conversation management
   createNewConversation: () => void
@@ -323,16 +370,18 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_CONVERSATION_ID', payload: id })
   }, [])
 
-  const updateGenerationStatus = useCallback((messageId: string, generation: GenerationResult) => {
-    dispatch({ type: 'UPDATE_GENERATION_STATUS', payload: { messageId, generation } })
+  const updateGenerationStatus = useCallback((messageId: string, generation: GenerationResult, itemIndex?: number) => {
+    dispatch({ type: 'UPDATE_GENERATION_STATUS', payload: { messageId, generation, itemIndex } })
   }, [])
 
-  // Poll for generation completion when server returns a pending generationId
+  // Poll for generation completion when server returns a pending generationId.
+  // itemIndex points into the message's generation group when it has one
   const pollForGenerationComplete = useCallback(async (
     generationId: string,
     messageId: string,
     model: string,
-    params: Record<string, any>
+    params: Record<string, any>,
+    itemIndex?: number
   ) => {
     const POLL_INTERVAL_MS = 3000 // 3 seconds
 
@@ -404,7 +453,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
               outputUrls: generation.output_urls,
               prompt: generation.prompt,
             }
-          })
+          }, itemIndex)
 
           // Show toast notification for generation completion
           const isVideo = model?.toLowerCase().includes('veo') || model?.toLowerCase().includes('wan') || model?.toLowerCase().includes('kling')
@@ -426,7 +475,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
             model,
             params,
             error: generation.replicate_error || 'Generation failed',
-          })
+          }, itemIndex)
 
           // Show toast notification for generation failure
           toast.error('Generation failed', {
@@ -434,6 +483,16 @@ export function ChatProvider({ children }: { children: ReactNode }) {
             duration: 5000,
           })
 
+          return
+        } else if (generation.job_status === 'canceled') {
+          // Canceled from the message card (or another tab) - nothing more to wait for
+          console.log('[ChatContext] Generation canceled:', generationId)
+          updateGenerationStatus(messageId, {
+            status: 'canceled',
+            model,
+            params,
+            generationId,
+          }, itemIndex)
           return
         }
         // Still processing - continue polling
@@ -448,6 +507,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       status: 'complete',
       model,
       params,
+      generationId,
       result: {
         imageUrl: '',
         outputUrls: [],
@@ -455,7 +515,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         pending: true,
         message: 'Generation is taking longer than expected. Check your Library.',
       }
-    })
+    }, itemIndex)
   }, [updateGenerationStatus, onGenerationCompleteCallback])
 
   const sendMessage = useCallback(async (content: string, attachments?: ChatAttachment[], skillsContext?: string, referencedSkills?: SkillForApi[], selectedGenerationModelId?: string) => {
@@ -547,6 +607,8 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           skillsContext,
           referencedSkills,
           selectedGenerationModelId,
+          // Lets the server keep a running summary of older turns for long chats
+          conversationId: state.conversations.find(c => c.id === state.currentConversationId)?.serverId,
         }),
       })
 
@@ -638,6 +700,13 @@ export function ChatProvider({ children }: { children: ReactNode }) {
                   onGenerationCompleteCallback()
                 }
               }
+              // Several generations wait on one combined confirmation
+              if (parsed.generationGroup) {
+                updateMessage(assistantMessageId, {
+                  generation: undefined,
+                  generationGroup: parsed.generationGroup,
+                })
+              }
               if (parsed.skillCreation && onSkillCreationCallback && parsed.skillCreation.name) {
                 // Trigger the skill creation callback only if valid data
                 onSkillCreationCallback(parsed.skillCreation as SkillCreationData)
@@ -668,7 +737,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     } finally {
       setLoading(false)
     }
-  }, [state.messages, addMessage, appendToMessage, updateMessage, updateGenerationStatus, pollForGenerationComplete, setLoading, setError, onSkillCreationCallback, onGenerationCompleteCallback, onInsufficientBalanceCallback, platformEnabled])
+  }, [state.messages, state.conversations, state.currentConversationId, addMessage, appendToMessage, updateMessage, updateGenerationStatus, pollForGenerationComplete, setLoading, setError, onSkillCreationCallback, onGenerationCompleteCallback, onInsufficientBalanceCallback, platformEnabled])
 
   // Check platform orchestration status on mount
   useEffect(() => {
@@ -738,6 +807,139 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     return headers
   }, [])
 
+  // Cancel an in-flight generation - the server stops the prediction and refunds its credits
+  const cancelGeneration = useCallback(async (messageId: string, itemIndex?: number): Promise<boolean> => {
+    const message = state.messages.find(m => m.id === messageId)
+    const generation = itemIndex === undefined
+      ? message?.generation
+      : message?.generationGroup?.items[itemIndex]?.generation
+    if (!generation?.generationId) return false
+
+    try {
+      const res = await fetch(`/api/generations/${generation.generationId}/cancel`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error('Could not cancel generation', {
+          description: data.error || 'It may have already finished',
+          duration: 5000,
+        })
+        return false
+      }
+
+      updateGenerationStatus(messageId, {
+        status: 'canceled',
+        model: generation.model,
+        params: generation.params,
+        generationId: generation.generationId,
+      }, itemIndex)
+      toast.success('Generation canceled', {
+        description: data.refundedCents ? `$${(data.refundedCents / 100).toFixed(2)} refunded` : undefined,
+        duration: 5000,
+      })
+      return true
+    } catch (err) {
+      console.error('[ChatContext] Cancel error:', err)
+      toast.error('Could not cancel generation')
+      return false
+    }
+  }, [state.messages, getAuthHeaders, updateGenerationStatus])
+
+  // Start every item of a confirmed generation group at once, with the images
+  // attached to the message that asked for them
+  const runGenerationGroup = useCallback(async (messageId: string) => {
+    const messageIndex = state.messages.findIndex(m => m.id === messageId)
+    const group = state.messages[messageIndex]?.generationGroup
+    if (!group || group.status !== 'confirming') return
+
+    dispatch({ type: 'SET_GENERATION_GROUP_STATUS', payload: { messageId, status: 'running' } })
+
+    const userMessage = state.messages.slice(0, messageIndex).reverse().find(m => m.role === 'user')
+    const images = (userMessage?.attachments || [])
+      .filter(a => (a.type === 'image' || a.type === 'reference') && (a.base64 || a.url))
+      .map(a => ({
+        url: a.url,
+        base64: a.base64,
+        mimeType: a.mimeType,
+        purpose: a.purpose || 'reference',
+      }))
+
+    let balanceErrorShown = false
+
+    await Promise.all(group.items.map(async (item, index) => {
+      // Items that couldn't run already carry their error
+      if (item.generation) return
+
+      const { model, params } = item.request
+      updateGenerationStatus(messageId, { status: 'generating', model, params }, index)
+
+      try {
+        const res = await fetch('/api/generate', {
+          method: 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify({
+            ...item.request,
+            images: images.length > 0 ? images : undefined,
+            noWait: true,
+          }),
+        })
+        const data = await res.json()
+
+        if (data.success && data.imageUrl) {
+          updateGenerationStatus(messageId, {
+            status: 'complete',
+            model,
+            params,
+            result: {
+              imageUrl: data.imageUrl,
+              outputUrls: data.outputUrls || [data.imageUrl],
+              prompt: item.request.prompt,
+            },
+          }, index)
+          onGenerationCompleteCallback?.()
+          return
+        }
+
+        if (data.pending && data.generationId) {
+          updateGenerationStatus(messageId, { status: 'generating', model, params, generationId: data.generationId }, index)
+          await pollForGenerationComplete(data.generationId, messageId, model, params, index)
+          return
+        }
+
+        updateGenerationStatus(messageId, {
+          status: 'error',
+          model,
+          params,
+          error: data.error || 'Generation failed',
+          code: data.code,
+          required: data.required,
+          available: data.available,
+        }, index)
+
+        // One modal for the group, not one per item
+        if (data.code === 'INSUFFICIENT_BALANCE' && !balanceErrorShown && onInsufficientBalanceCallback) {
+          balanceErrorShown = true
+          onInsufficientBalanceCallback(data.required || 0, data.available || 0, model)
+        }
+      } catch (err) {
+        console.error('[ChatContext] Group generation error:', err)
+        updateGenerationStatus(messageId, {
+          status: 'error',
+          model,
+          params,
+          error: err instanceof Error ? err.message : 'Generation failed',
+        }, index)
+      }
+    }))
+  }, [state.messages, getAuthHeaders, updateGenerationStatus, pollForGenerationComplete, onGenerationCompleteCallback, onInsufficientBalanceCallback])
+
+  const dismissGenerationGroup = useCallback((messageId: string) => {
+    dispatch({ type: 'SET_GENERATION_GROUP_STATUS', payload: { messageId, status: 'dismissed' } })
+  }, [])
+
   // Sync conversation to Supabase API
   // Returns the server-side UUID if successful
   const syncToSupabase = useCallback(async (localId: string, serverId: string | undefined, messages: ChatMessage[], title: string, isNew: boolean): Promise<string | null> => {
@@ -940,6 +1142,9 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     clearError,
     setConversationId,
     updateGenerationStatus,
+    cancelGeneration,
+    runGenerationGroup,
+    dismissGenerationGroup,
     sendMessage,
     createNewConversation,
     switchConversation,
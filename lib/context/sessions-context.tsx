@@ -36,6 +36,7 @@ type SessionsAction =
   | { type: 'SET_SESSIONS'; payload: Session[] }
   | { type: 'SET_CURRENT_SESSION'; payload: Session | null }
   | { type: 'ADD_SESSION'; payload: Session }
+  | { type: 'IMPORT_SESSIONS'; payload: Session[] }
   | { type: 'UPDATE_SESSION'; payload: { id: string; updates: Partial<Session> } }
   | { type: 'DELETE_SESSION'; payload: string }
   | { type: 'UPDATE_ASSET'; payload: { sessionId: string; assetId: string; updates: Partial<SessionAsset> } }
@@ -73,6 +74,9 @@ function sessionsReducer(state: SessionsState, action: SessionsAction): Sessions
         currentSession: action.payload,
       }
 
+    case 'IMPORT_SESSIONS':
+      return { ...state, sessions: [...action.payload, ...state.sessions] }
+
     case 'UPDATE_SESSION': {
       const { id, updates } = action.payload
       const updatedSessions = state.sessions.map(s =>
@@ -218,6 +222,7 @@ interface SessionsContextValue {
   // Session actions
   loadSessions: () => void
   createSession: (input: CreateSessionInput) => Session
+  importSessions: (sessions: Session[]) => void
   loadSession: (id: string) => void
   updateSession: (id: string, updates: Partial<Session>) => void
   deleteSession: (id: string) => void
@@ -296,6 +301,12 @@ export function SessionsProvider({ children }: { children: ReactNode }) {
     return session
   }, [])
 
+  // Add sessions from an imported bundle (ids already remapped by lib/bundles)
+  const importSessions = useCallback((sessions: Session[]) => {
+    if (sessions.length === 0) return
+    dispatch({ type: 'IMPORT_SESSIONS', payload: sessions })
+  }, [])
+
   const loadSession = useCallback((id: string) => {
     dispatch({ type: 'SET_LOADING', payload: true })
     const session = state.sessions.find(s => s.id === id) || null
@@ -471,6 +482,7 @@ export function SessionsProvider({ children }: { children: ReactNode }) {
     // Session actions
     loadSessions,
     createSession,
+    importSessions,
     loadSession,
     updateSession,
     deleteSession,
@@ -1,6 +1,6 @@
 'use client'
 
-import { createContext, useContext, useReducer, useCallback, ReactNode, useEffect } from 'react'
+import { createContext, useContext, useReducer, useCallback, useRef, ReactNode, useEffect } from 'react'
 import { toast } from 'sonner'
 import type {
   Storyboard,
@@ -13,12 +13,51 @@ import type {
   CreateEntityInput,
   EntityType,
   ShotEntityReference,
+  ShotTake,
+  EntityImage,
+  EntityImageView,
+  ShotConsistencyCheck,
 } from '@/lib/types'
+import { formatCents } from '@/lib/pricing'
+import { ShotQueueEntry } from '@/lib/storyboard-schedule'
+import { AppliedShotRevision, ShotRevisionChange } from '@/lib/storyboard-revision'
+import {
+  StoryboardHistory,
+  HistoryEntry,
+  EMPTY_HISTORY,
+  createHistoryEntry,
+  pushHistory,
+  stepHistory,
+  inverseShotEdit,
+  shotLabel,
+} from '@/lib/storyboard-history'
 
 // ============================================
 // STATE TYPES
 // ============================================
 
+export interface GenerateAllQuote {
+  shots: { shotId: string; shotNumber: number; modelSlug: string; modelName: string; costCents: number }[]
+  totalCents: number
+}
+
+export interface GenerateAllPlan {
+  quote: GenerateAllQuote | null
+  order: string[]
+  dependencies: Record<string, string[]>
+  errors: string[]
+}
+
+interface ShotOutcome {
+  status: 'completed' | 'canceled' | 'failed'
+  error?: string
+  code?: string
+}
+
+// Shots generating at once during generate-all, and tries per shot
+const GENERATE_ALL_CONCURRENCY = 3
+const MAX_SHOT_ATTEMPTS = 2
+
 interface StoryboardState {
   // Storyboards list
   storyboards: Storyboard[]
@@ -32,6 +71,11 @@ interface StoryboardState {
   isLoading: boolean
   isSaving: boolean
   isGenerating: string | null // Shot ID being generated
+  isGeneratingAll: boolean
+  shotQueue: Record<string, ShotQueueEntry>
+
+  // Undo/redo for the current storyboard
+  history: StoryboardHistory
 
   // Errors
   error: string | null
@@ -53,11 +97,19 @@ type StoryboardAction =
   | { type: 'ADD_ENTITY'; payload: StoryboardEntity }
   | { type: 'UPDATE_ENTITY'; payload: { id: string; updates: Partial<StoryboardEntity> } }
   | { type: 'DELETE_ENTITY'; payload: string }
+  | { type: 'ADD_ENTITY_IMAGE'; payload: EntityImage }
+  | { type: 'UPDATE_ENTITY_IMAGE'; payload: EntityImage }
+  | { type: 'REMOVE_ENTITY_IMAGE'; payload: { entityId: string; imageId: string } }
   | { type: 'ADD_SHOT_ENTITY'; payload: { shotId: string; entity: ShotEntityReference } }
   | { type: 'REMOVE_SHOT_ENTITY'; payload: { shotId: string; entityId: string } }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_SAVING'; payload: boolean }
   | { type: 'SET_GENERATING'; payload: string | null }
+  | { type: 'SET_GENERATING_ALL'; payload: boolean }
+  | { type: 'SET_SHOT_QUEUE'; payload: Record<string, ShotQueueEntry> }
+  | { type: 'SET_SHOT_QUEUE_ENTRY'; payload: { id: string; entry: ShotQueueEntry | null } }
+  | { type: 'RECORD_HISTORY'; payload: HistoryEntry }
+  | { type: 'STEP_HISTORY'; payload: { direction: 'undo' | 'redo'; inverse: ShotRevisionChange[] | null } }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'CLEAR_CURRENT' }
 
@@ -69,6 +121,9 @@ const initialState: StoryboardState = {
   isLoading: false,
   isSaving: false,
   isGenerating: null,
+  isGeneratingAll: false,
+  shotQueue: {},
+  history: EMPTY_HISTORY,
   error: null,
 }
 
@@ -82,7 +137,13 @@ function storyboardReducer(state: StoryboardState, action: StoryboardAction): St
       return { ...state, storyboards: action.payload, isLoading: false }
 
     case 'SET_CURRENT_STORYBOARD':
-      return { ...state, currentStoryboard: action.payload, isLoading: false }
+      return {
+        ...state,
+        currentStoryboard: action.payload,
+        isLoading: false,
+        // History belongs to one storyboard
+        history: action.payload?.id === state.currentStoryboard?.id ? state.history : EMPTY_HISTORY,
+      }
 
     case 'ADD_STORYBOARD':
       return { ...state, storyboards: [action.payload, ...state.storyboards] }
@@ -153,6 +214,34 @@ function storyboardReducer(state: StoryboardState, action: StoryboardAction): St
     case 'DELETE_ENTITY':
       return { ...state, entities: state.entities.filter(e => e.id !== action.payload) }
 
+    case 'ADD_ENTITY_IMAGE':
+      return {
+        ...state,
+        entities: state.entities.map(e =>
+          e.id === action.payload.entityId ? { ...e, images: [...(e.images || []), action.payload] } : e
+        ),
+      }
+
+    case 'UPDATE_ENTITY_IMAGE':
+      return {
+        ...state,
+        entities: state.entities.map(e =>
+          e.id === action.payload.entityId
+            ? { ...e, images: (e.images || []).map(img => img.id === action.payload.id ? action.payload : img) }
+            : e
+        ),
+      }
+
+    case 'REMOVE_ENTITY_IMAGE':
+      return {
+        ...state,
+        entities: state.entities.map(e =>
+          e.id === action.payload.entityId
+            ? { ...e, images: (e.images || []).filter(img => img.id !== action.payload.imageId) }
+            : e
+        ),
+      }
+
     case 'ADD_SHOT_ENTITY': {
       const { shotId, entity } = action.payload
       return {
@@ -189,11 +278,31 @@ function storyboardReducer(state: StoryboardState, action: StoryboardAction): St
     case 'SET_GENERATING':
       return { ...state, isGenerating: action.payload }
 
+    case 'SET_GENERATING_ALL':
+      return { ...state, isGeneratingAll: action.payload }
+
+    case 'SET_SHOT_QUEUE':
+      return { ...state, shotQueue: action.payload }
+
+    case 'SET_SHOT_QUEUE_ENTRY': {
+      const { [action.payload.id]: _, ...rest } = state.shotQueue
+      return {
+        ...state,
+        shotQueue: action.payload.entry ? { ...rest, [action.payload.id]: action.payload.entry } : rest,
+      }
+    }
+
+    case 'RECORD_HISTORY':
+      return { ...state, history: pushHistory(state.history, action.payload) }
+
+    case 'STEP_HISTORY':
+      return { ...state, history: stepHistory(state.history, action.payload.direction, action.payload.inverse) }
+
     case 'SET_ERROR':
       return { ...state, error: action.payload, isLoading: false, isSaving: false }
 
     case 'CLEAR_CURRENT':
-      return { ...state, currentStoryboard: null, shots: [], entities: [] }
+      return { ...state, currentStoryboard: null, shots: [], entities: [], shotQueue: {}, history: EMPTY_HISTORY }
 
     default:
       return state
@@ -213,6 +322,9 @@ interface StoryboardContextValue {
   isLoading: boolean
   isSaving: boolean
   isGenerating: string | null
+  isGeneratingAll: boolean
+  shotQueue: Record<string, ShotQueueEntry>
+  history: StoryboardHistory
   error: string | null
 
   // Storyboard actions
@@ -229,12 +341,23 @@ interface StoryboardContextValue {
   updateShot: (shotId: string, updates: UpdateShotInput) => Promise<boolean>
   deleteShot: (shotId: string) => Promise<boolean>
   reorderShots: (orderedIds: string[]) => Promise<boolean>
+  // Chat revisions: accepted changes go in as one operation, one history entry
+  applyRevision: (changes: ShotRevisionChange[], summary?: string) => Promise<AppliedShotRevision | null>
+
+  // History: shot edits, adds, deletes, reorders, entity links and revisions
+  undo: () => Promise<boolean>
+  redo: () => Promise<boolean>
 
   // Entity actions
   addEntity: (entity: CreateEntityInput) => Promise<StoryboardEntity | null>
   updateEntity: (entityId: string, updates: Partial<StoryboardEntity>) => Promise<boolean>
   removeEntity: (entityId: string) => Promise<boolean>
   analyzeEntityImage: (entityId: string) => Promise<string | null>
+  // Entity image sets: labeled views besides the primary image
+  addEntityImage: (entityId: string, image: { imageUrl: string; view: EntityImageView; label?: string; generationId?: string }) => Promise<EntityImage | null>
+  updateEntityImage: (entityId: string, imageId: string, updates: { view?: EntityImageView; label?: string }) => Promise<boolean>
+  removeEntityImage: (entityId: string, imageId: string) => Promise<boolean>
+  generateEntityTurnaround: (entityId: string) => Promise<boolean>
 
   // Shot-Entity linking
   assignEntityToShot: (shotId: string, entityId: string, role?: string) => Promise<boolean>
@@ -243,6 +366,16 @@ interface StoryboardContextValue {
 
   // Generation
   generateShot: (shotId: string, options?: { referenceImages?: string[] }) => Promise<boolean>
+  cancelShotGeneration: (shotId: string) => Promise<boolean>
+  // Takes: every generation of a shot; selecting one puts it back on the board for free
+  fetchShotTakes: (shotId: string) => Promise<ShotTake[]>
+  selectShotTake: (shotId: string, take: ShotTake) => Promise<boolean>
+  // Re-check the shot's output against its entities (see ShotConsistencyCheck)
+  checkShotConsistency: (shotId: string) => Promise<ShotConsistencyCheck | null>
+  // Generate-all: quote pending shots, then hold and generate them in dependency order
+  quoteGenerateAll: (shotIds?: string[]) => Promise<GenerateAllPlan | null>
+  generateAllPending: (shotIds?: string[]) => Promise<boolean>
+  stopGenerateAll: () => Promise<void>
 }
 
 const StoryboardContext = createContext<StoryboardContextValue | null>(null)
@@ -254,6 +387,10 @@ const StoryboardContext = createContext<StoryboardContextValue | null>(null)
 export function StoryboardProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(storyboardReducer, initialState)
 
+  // Generate-all runs outside of render; these survive re-renders mid-run
+  const generateAllRunning = useRef(false)
+  const generateAllStopped = useRef(false)
+
   // Auth headers helper
   const getAuthHeaders = useCallback((): Record<string, string> => {
     const headers: Record<string, string> = {
@@ -392,6 +529,84 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'CLEAR_CURRENT' })
   }, [])
 
+  // ==========================================
+  // HISTORY
+  // ==========================================
+
+  // Re-read shots and entities after a change touched many of them, without
+  // the loading state a full loadStoryboard shows
+  const refreshBoard = useCallback(async (storyboardId: string) => {
+    const res = await fetch(`/api/storyboards/${storyboardId}`, { headers: getAuthHeaders() })
+    if (!res.ok) return
+    const data = await res.json()
+    dispatch({ type: 'SET_SHOTS', payload: data.shots || [] })
+    dispatch({ type: 'SET_ENTITIES', payload: data.entities || [] })
+  }, [getAuthHeaders])
+
+  // Apply revision changes server-side; the result carries their undo
+  const postRevision = useCallback(async (storyboardId: string, changes: ShotRevisionChange[]): Promise<AppliedShotRevision | null> => {
+    dispatch({ type: 'SET_SAVING', payload: true })
+
+    try {
+      const res = await fetch(`/api/storyboards/${storyboardId}/shots/revise`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ changes }),
+      })
+      const result = await res.json()
+
+      if (!res.ok) {
+        toast.error(result.code === 'SHOT_NOT_FOUND'
+          ? 'The storyboard has changed since - nothing was applied'
+          : result.error || 'Could not apply changes')
+        await refreshBoard(storyboardId)
+        return null
+      }
+
+      await refreshBoard(storyboardId)
+      return result as AppliedShotRevision
+    } catch (error) {
+      console.error('Error applying revision:', error)
+      toast.error('Could not apply changes')
+      return null
+    } finally {
+      dispatch({ type: 'SET_SAVING', payload: false })
+    }
+  }, [getAuthHeaders, refreshBoard])
+
+  const recordHistory = useCallback((label: string, undo: ShotRevisionChange[]) => {
+    if (undo.length > 0) dispatch({ type: 'RECORD_HISTORY', payload: createHistoryEntry(label, undo) })
+  }, [])
+
+  // One undo or redo at a time; a second press mid-request is dropped
+  const historyBusy = useRef(false)
+  // Read at call time, so undo from a toast or shortcut sees the latest stack
+  const historyRef = useRef(state.history)
+  historyRef.current = state.history
+
+  const runHistory = useCallback(async (direction: 'undo' | 'redo'): Promise<boolean> => {
+    const stack = direction === 'undo' ? historyRef.current.undo : historyRef.current.redo
+    const entry = stack[stack.length - 1]
+    if (!state.currentStoryboard || !entry || historyBusy.current) return false
+
+    historyBusy.current = true
+    try {
+      const applied = await postRevision(state.currentStoryboard.id, entry.changes)
+      // An entry the board has moved past is dropped rather than retried forever
+      const inverse = applied ? applied.undo : null
+      dispatch({ type: 'STEP_HISTORY', payload: { direction, inverse } })
+      // Ahead of the re-render, so several steps in a row don't replay one entry
+      historyRef.current = stepHistory(historyRef.current, direction, inverse)
+      if (applied) toast.success(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${entry.label}`)
+      return !!applied
+    } finally {
+      historyBusy.current = false
+    }
+  }, [state.currentStoryboard, postRevision])
+
+  const undo = useCallback(() => runHistory('undo'), [runHistory])
+  const redo = useCallback(() => runHistory('redo'), [runHistory])
+
   // ==========================================
   // SHOT ACTIONS
   // ==========================================
@@ -413,13 +628,14 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
       const { shot: newShot } = await res.json()
       dispatch({ type: 'ADD_SHOT', payload: newShot })
       dispatch({ type: 'SET_SAVING', payload: false })
+      recordHistory(`Add ${shotLabel(newShot)}`, [{ op: 'delete', shotId: newShot.id }])
       return newShot
     } catch (error) {
       console.error('Error adding shot:', error)
       dispatch({ type: 'SET_ERROR', payload: 'Failed to add shot' })
       return null
     }
-  }, [state.currentStoryboard, getAuthHeaders])
+  }, [state.currentStoryboard, getAuthHeaders, recordHistory])
 
   const addShotsFromAI = useCallback(async (shots: CreateShotInput[]): Promise<StoryboardShot[]> => {
     if (!state.currentStoryboard) return []
@@ -438,17 +654,24 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
       const { shots: newShots } = await res.json()
       dispatch({ type: 'ADD_SHOTS', payload: newShots })
       dispatch({ type: 'SET_SAVING', payload: false })
+      recordHistory(
+        `Add ${newShots.length} shots`,
+        newShots.map((shot: StoryboardShot) => ({ op: 'delete' as const, shotId: shot.id }))
+      )
       return newShots
     } catch (error) {
       console.error('Error adding shots from AI:', error)
       dispatch({ type: 'SET_ERROR', payload: 'Failed to add shots' })
       return []
     }
-  }, [state.currentStoryboard, getAuthHeaders])
+  }, [state.currentStoryboard, getAuthHeaders, recordHistory])
 
   const updateShot = useCallback(async (shotId: string, updates: UpdateShotInput): Promise<boolean> => {
     if (!state.currentStoryboard) return false
 
+    const shot = state.shots.find(s => s.id === shotId)
+    const inverse = shot ? inverseShotEdit(shot, updates) : null
+
     // Optimistic update
     dispatch({ type: 'UPDATE_SHOT', payload: { id: shotId, updates } })
 
@@ -464,39 +687,34 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
         return false
       }
 
+      if (inverse) recordHistory(`Edit ${shotLabel(shot)}`, [inverse])
       return true
     } catch (error) {
       console.error('Error updating shot:', error)
       return false
     }
-  }, [state.currentStoryboard, getAuthHeaders, loadStoryboard])
+  }, [state.currentStoryboard, state.shots, getAuthHeaders, loadStoryboard, recordHistory])
 
+  // Deletes go through the revise route so the shot, its entity references
+  // and its takes are snapshotted for undo
   const deleteShot = useCallback(async (shotId: string): Promise<boolean> => {
     if (!state.currentStoryboard) return false
 
+    const shot = state.shots.find(s => s.id === shotId)
     dispatch({ type: 'DELETE_SHOT', payload: shotId })
 
-    try {
-      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/shots/${shotId}`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(),
-      })
-
-      if (!res.ok) {
-        await loadStoryboard(state.currentStoryboard.id)
-        return false
-      }
+    const applied = await postRevision(state.currentStoryboard.id, [{ op: 'delete', shotId }])
+    if (!applied) return false
 
-      return true
-    } catch (error) {
-      console.error('Error deleting shot:', error)
-      return false
-    }
-  }, [state.currentStoryboard, getAuthHeaders, loadStoryboard])
+    recordHistory(`Delete ${shotLabel(shot)}`, applied.undo)
+    return true
+  }, [state.currentStoryboard, state.shots, postRevision, recordHistory])
 
   const reorderShots = useCallback(async (orderedIds: string[]): Promise<boolean> => {
     if (!state.currentStoryboard) return false
 
+    const previousOrder = state.shots.map(s => s.id)
+
     // Optimistic update
     dispatch({ type: 'REORDER_SHOTS', payload: orderedIds })
 
@@ -512,12 +730,23 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
         return false
       }
 
+      recordHistory('Reorder shots', [{ op: 'reorder', order: previousOrder }])
       return true
     } catch (error) {
       console.error('Error reordering shots:', error)
       return false
     }
-  }, [state.currentStoryboard, getAuthHeaders, loadStoryboard])
+  }, [state.currentStoryboard, state.shots, getAuthHeaders, loadStoryboard, recordHistory])
+
+  const applyRevision = useCallback(async (changes: ShotRevisionChange[], summary?: string): Promise<AppliedShotRevision | null> => {
+    if (!state.currentStoryboard || changes.length === 0) return null
+
+    const applied = await postRevision(state.currentStoryboard.id, changes)
+    if (applied) {
+      recordHistory(summary || `${changes.length} suggested change${changes.length === 1 ? '' : 's'}`, applied.undo)
+    }
+    return applied
+  }, [state.currentStoryboard, postRevision, recordHistory])
 
   // ==========================================
   // ENTITY ACTIONS
@@ -615,6 +844,148 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
     }
   }, [state.currentStoryboard, getAuthHeaders])
 
+  const addEntityImage = useCallback(async (
+    entityId: string,
+    image: { imageUrl: string; view: EntityImageView; label?: string; generationId?: string }
+  ): Promise<EntityImage | null> => {
+    if (!state.currentStoryboard) return null
+
+    try {
+      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/entities/${entityId}/images`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(image),
+      })
+      const result = await res.json()
+
+      if (!res.ok) {
+        toast.error(result.error || 'Could not add view')
+        return null
+      }
+
+      dispatch({ type: 'ADD_ENTITY_IMAGE', payload: result.image })
+      return result.image
+    } catch (error) {
+      console.error('Error adding entity image:', error)
+      toast.error('Could not add view')
+      return null
+    }
+  }, [state.currentStoryboard, getAuthHeaders])
+
+  const updateEntityImage = useCallback(async (
+    entityId: string,
+    imageId: string,
+    updates: { view?: EntityImageView; label?: string }
+  ): Promise<boolean> => {
+    if (!state.currentStoryboard) return false
+
+    try {
+      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/entities/${entityId}/images/${imageId}`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(updates),
+      })
+      if (!res.ok) throw new Error('Failed to update entity image')
+
+      const { image } = await res.json()
+      dispatch({ type: 'UPDATE_ENTITY_IMAGE', payload: image })
+      return true
+    } catch (error) {
+      console.error('Error updating entity image:', error)
+      return false
+    }
+  }, [state.currentStoryboard, getAuthHeaders])
+
+  const removeEntityImage = useCallback(async (entityId: string, imageId: string): Promise<boolean> => {
+    if (!state.currentStoryboard) return false
+
+    dispatch({ type: 'REMOVE_ENTITY_IMAGE', payload: { entityId, imageId } })
+
+    try {
+      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/entities/${entityId}/images/${imageId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      })
+
+      if (!res.ok) {
+        await loadStoryboard(state.currentStoryboard.id)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error removing entity image:', error)
+      return false
+    }
+  }, [state.currentStoryboard, getAuthHeaders, loadStoryboard])
+
+  // Starts a turnaround (or picks up one already running) and waits for its views
+  const generateEntityTurnaround = useCallback(async (entityId: string): Promise<boolean> => {
+    if (!state.currentStoryboard) return false
+    const url = `/api/storyboards/${state.currentStoryboard.id}/entities/${entityId}/turnaround`
+    const entity = state.entities.find(e => e.id === entityId)
+
+    try {
+      if (!entity?.turnaroundGenerationId) {
+        const res = await fetch(url, { method: 'POST', headers: getAuthHeaders() })
+        const result = await res.json()
+
+        if (!res.ok && result.code !== 'TURNAROUND_IN_PROGRESS') {
+          if (res.status === 402 || result.code === 'INSUFFICIENT_BALANCE') {
+            toast.error(`Insufficient balance for a turnaround. Need ${result.required || 0}¢, have ${result.available || 0}¢.`)
+          } else {
+            toast.error(result.error || 'Could not start turnaround')
+          }
+          return false
+        }
+
+        if (result.generationId) {
+          dispatch({ type: 'UPDATE_ENTITY', payload: { id: entityId, updates: { turnaroundGenerationId: result.generationId } } })
+        }
+      }
+
+      const maxAttempts = 100 // 5 minutes at 3s intervals
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 3000))
+
+        let poll: any
+        try {
+          const pollRes = await fetch(url, { headers: getAuthHeaders() })
+          poll = await pollRes.json()
+        } catch (pollError) {
+          console.warn('Turnaround polling error, retrying...', pollError)
+          continue
+        }
+
+        if (poll.status === 'generating') continue
+
+        dispatch({
+          type: 'UPDATE_ENTITY',
+          payload: {
+            id: entityId,
+            updates: poll.status === 'completed'
+              ? { images: poll.images, turnaroundGenerationId: undefined }
+              : { turnaroundGenerationId: undefined },
+          },
+        })
+
+        if (poll.status === 'completed') {
+          toast.success('Turnaround added to the entity\'s views')
+          return true
+        }
+        if (poll.status === 'failed') toast.error(poll.error || 'Turnaround generation failed')
+        return false
+      }
+
+      toast.error('Turnaround is taking longer than expected - check back later')
+      return false
+    } catch (error) {
+      console.error('Error generating turnaround:', error)
+      toast.error('Could not generate turnaround')
+      return false
+    }
+  }, [state.currentStoryboard, state.entities, getAuthHeaders])
+
   // ==========================================
   // SHOT-ENTITY LINKING
   // ==========================================
@@ -633,16 +1004,25 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
 
       const { reference } = await res.json()
       dispatch({ type: 'ADD_SHOT_ENTITY', payload: { shotId, entity: reference } })
+      const entity = state.entities.find(e => e.id === entityId)
+      recordHistory(
+        `Add ${entity?.entityName || 'entity'} to ${shotLabel(state.shots.find(s => s.id === shotId))}`,
+        [{ op: 'unlink_entity', shotId, entityId }]
+      )
       return true
     } catch (error) {
       console.error('Error assigning entity to shot:', error)
       return false
     }
-  }, [state.currentStoryboard, getAuthHeaders])
+  }, [state.currentStoryboard, state.entities, state.shots, getAuthHeaders, recordHistory])
 
   const removeEntityFromShot = useCallback(async (shotId: string, entityId: string): Promise<boolean> => {
     if (!state.currentStoryboard) return false
 
+    const shot = state.shots.find(s => s.id === shotId)
+    const ref = shot?.entities?.find(e => e.entityId === entityId)
+    const entity = state.entities.find(e => e.id === entityId)
+
     dispatch({ type: 'REMOVE_SHOT_ENTITY', payload: { shotId, entityId } })
 
     try {
@@ -656,12 +1036,16 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
         return false
       }
 
+      recordHistory(
+        `Remove ${entity?.entityName || 'entity'} from ${shotLabel(shot)}`,
+        [{ op: 'link_entity', shotId, entityId, role: ref?.role, notes: ref?.notes }]
+      )
       return true
     } catch (error) {
       console.error('Error removing entity from shot:', error)
       return false
     }
-  }, [state.currentStoryboard, getAuthHeaders, loadStoryboard])
+  }, [state.currentStoryboard, state.shots, state.entities, getAuthHeaders, loadStoryboard, recordHistory])
 
   const getEntitiesForShot = useCallback((shotId: string): StoryboardEntity[] => {
     const shot = state.shots.find(s => s.id === shotId)
@@ -676,36 +1060,50 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
   // GENERATION
   // ==========================================
 
-  const generateShot = useCallback(async (
+  // Submit a shot and poll until it finishes. Quiet runs (generate-all) skip
+  // the per-shot toasts and leave isGenerating alone.
+  const runShotGeneration = useCallback(async (
     shotId: string,
-    options?: { referenceImages?: string[] }
-  ): Promise<boolean> => {
-    if (!state.currentStoryboard) return false
+    options: { referenceImages?: string[]; quiet?: boolean } = {}
+  ): Promise<ShotOutcome> => {
+    if (!state.currentStoryboard) return { status: 'failed', error: 'No storyboard loaded' }
+    const storyboardId = state.currentStoryboard.id
+    const quiet = !!options.quiet
 
     // Get the shot to find its model slug
     const shot = state.shots.find(s => s.id === shotId)
     if (!shot) {
-      toast.error('Shot not found')
-      return false
+      if (!quiet) toast.error('Shot not found')
+      return { status: 'failed', error: 'Shot not found' }
     }
 
     // Require model selection
     if (!shot.modelSlug) {
-      toast.error('Please select a model for this shot before generating')
-      return false
+      if (!quiet) toast.error('Please select a model for this shot before generating')
+      return { status: 'failed', error: 'No model selected' }
     }
 
-    dispatch({ type: 'SET_GENERATING', payload: shotId })
-    dispatch({ type: 'UPDATE_SHOT', payload: { id: shotId, updates: { status: 'generating' } } })
+    if (!quiet) dispatch({ type: 'SET_GENERATING', payload: shotId })
+    dispatch({ type: 'UPDATE_SHOT', payload: { id: shotId, updates: { status: 'generating', consistency: undefined } } })
+
+    const finish = (outcome: ShotOutcome, shotStatus: StoryboardShot['status'], updates: Partial<StoryboardShot> = {}) => {
+      dispatch({ type: 'UPDATE_SHOT', payload: { id: shotId, updates: { ...updates, status: shotStatus } } })
+      if (!quiet) dispatch({ type: 'SET_GENERATING', payload: null })
+      if (!quiet && updates.consistency?.drifted) {
+        const drifted = updates.consistency.entities.filter(e => e.drifted).map(e => e.entityName)
+        toast.warning(`Shot may be off-model: ${drifted.join(', ')}`, { duration: 5000 })
+      }
+      return outcome
+    }
 
     try {
-      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/generate/${shotId}`, {
+      const res = await fetch(`/api/storyboards/${storyboardId}/generate/${shotId}`, {
         method: 'POST',
         headers: getAuthHeaders(),
         body: JSON.stringify({
           modelSlug: shot.modelSlug,
           customPrompt: shot.prompt,
-          referenceImages: options?.referenceImages, // User-selected shot references
+          referenceImages: options.referenceImages, // User-selected shot references
         }),
       })
 
@@ -718,19 +1116,21 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
           const have = result.available || 0
           const modelName = result.modelName || 'this model'
 
+          // Show specific error with details
+          if (!quiet) {
+            toast.error(
+              `Insufficient balance for ${modelName}. Need ${needed}¢, have ${have}¢. Please top up your credits.`,
+              { duration: 5000 }
+            )
+          }
           // Update shot status back to pending (not error)
-          dispatch({
-            type: 'UPDATE_SHOT',
-            payload: { id: shotId, updates: { status: 'pending' } }
-          })
-          dispatch({ type: 'SET_GENERATING', payload: null })
+          return finish({ status: 'failed', error: 'Insufficient balance', code: 'INSUFFICIENT_BALANCE' }, 'pending')
+        }
 
-          // Show specific error with details
-          toast.error(
-            `Insufficient balance for ${modelName}. Need ${needed}¢, have ${have}¢. Please top up your credits.`,
-            { duration: 5000 }
-          )
-          return false
+        // The shot it builds on isn't ready - nothing was started
+        if (result.code === 'DEPENDENCY_PENDING') {
+          if (!quiet) toast.error(result.error)
+          return finish({ status: 'failed', error: result.error, code: result.code }, 'pending')
         }
 
         throw new Error(result.error || 'Generation failed')
@@ -738,111 +1138,365 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
 
       // If pending, we need to poll for completion
       if (result.pending) {
-        // Update shot with the pending state from server
-        if (result.shot) {
-          dispatch({
-            type: 'UPDATE_SHOT',
-            payload: {
-              id: shotId,
-              updates: {
-                status: 'generating',
-                generationId: result.generationId,
-              },
-            },
-          })
-        }
+        dispatch({
+          type: 'UPDATE_SHOT',
+          payload: { id: shotId, updates: { status: 'generating', generationId: result.generationId } },
+        })
 
-        // Start polling for completion
-        const pollForCompletion = async (): Promise<boolean> => {
-          const maxAttempts = 180 // 3 minutes at 1s intervals for video
-          let attempts = 0
-          let lastError: string | null = null
+        const maxAttempts = 180 // 3 minutes at 1s intervals for video
+        const toastId = quiet
+          ? undefined
+          : toast.loading('Generating shot...', { description: 'This may take a minute for video content' })
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+          await new Promise(resolve => setTimeout(resolve, 1000))
+
+          let pollResult: any
+          try {
+            const pollRes = await fetch(
+              `/api/storyboards/${storyboardId}/generate/${shotId}`,
+              { headers: getAuthHeaders() }
+            )
+            pollResult = await pollRes.json()
+          } catch (pollError) {
+            // Network error during poll - retry silently
+            console.warn('Polling error, retrying...', pollError)
+            continue
+          }
 
-          // Show loading toast
-          const toastId = toast.loading('Generating shot...', {
-            description: 'This may take a minute for video content'
-          })
+          if (pollResult.status === 'completed') {
+            if (!quiet) toast.success('Shot generated successfully!', { id: toastId })
+            return finish({ status: 'completed' }, 'completed', {
+              generatedImageUrl: pollResult.imageUrl,
+              generationId: pollResult.generationId,
+              consistency: pollResult.consistency,
+            })
+          }
 
-          while (attempts < maxAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 1000))
-            attempts++
-
-            try {
-              const pollRes = await fetch(
-                `/api/storyboards/${state.currentStoryboard!.id}/generate/${shotId}`,
-                { headers: getAuthHeaders() }
-              )
-              const pollResult = await pollRes.json()
-
-              if (pollResult.status === 'completed') {
-                dispatch({
-                  type: 'UPDATE_SHOT',
-                  payload: {
-                    id: shotId,
-                    updates: {
-                      status: 'completed',
-                      generatedImageUrl: pollResult.imageUrl,
-                      generationId: pollResult.generationId,
-                    },
-                  },
-                })
-                dispatch({ type: 'SET_GENERATING', payload: null })
-
-                toast.success('Shot generated successfully!', { id: toastId })
-                return true
-              }
-
-              if (pollResult.status === 'error') {
-                lastError = pollResult.error || 'Generation failed'
-                throw new Error(lastError || 'Generation failed')
-              }
-
-              // Update loading toast with progress
-              if (attempts % 10 === 0) {
-                toast.loading(`Still generating... (${Math.floor(attempts / 60)}m ${attempts % 60}s)`, {
-                  id: toastId,
-                  description: 'AI is creating your content'
-                })
-              }
-            } catch (pollError) {
-              // Network error during poll - retry silently
-              console.warn('Polling error, retrying...', pollError)
-            }
+          // Canceled via cancelShotGeneration - the shot is back to pending
+          if (pollResult.status === 'canceled') {
+            if (toastId !== undefined) toast.dismiss(toastId)
+            return finish({ status: 'canceled' }, 'pending')
           }
 
-          toast.error('Generation timed out', { id: toastId })
-          throw new Error(lastError || 'Generation timed out')
+          if (pollResult.status === 'error') {
+            const message = pollResult.error || 'Generation failed'
+            if (!quiet) toast.error(message, { id: toastId })
+            return finish({ status: 'failed', error: message }, 'error')
+          }
+
+          // Update loading toast with progress
+          if (!quiet && attempt % 10 === 0) {
+            toast.loading(`Still generating... (${Math.floor(attempt / 60)}m ${attempt % 60}s)`, {
+              id: toastId,
+              description: 'AI is creating your content'
+            })
+          }
         }
 
-        return await pollForCompletion()
+        if (!quiet) toast.error('Generation timed out', { id: toastId })
+        return finish({ status: 'failed', error: 'Generation timed out' }, 'error')
       }
 
       // If immediately complete
       if (result.success && result.imageUrl) {
-        dispatch({
-          type: 'UPDATE_SHOT',
-          payload: {
-            id: shotId,
-            updates: {
-              status: 'completed',
-              generatedImageUrl: result.imageUrl,
-              generationId: result.generationId,
-            },
-          },
+        if (!quiet) toast.success('Shot generated successfully!')
+        return finish({ status: 'completed' }, 'completed', {
+          generatedImageUrl: result.imageUrl,
+          generationId: result.generationId,
+          consistency: result.consistency,
         })
-        dispatch({ type: 'SET_GENERATING', payload: null })
-        toast.success('Shot generated successfully!')
-        return true
       }
 
       throw new Error('Unexpected generation result')
     } catch (error) {
       console.error('Error generating shot:', error)
-      dispatch({ type: 'UPDATE_SHOT', payload: { id: shotId, updates: { status: 'error' } } })
-      dispatch({ type: 'SET_GENERATING', payload: null })
-      toast.error(error instanceof Error ? error.message : 'Generation failed')
+      const message = error instanceof Error ? error.message : 'Generation failed'
+      if (!quiet) toast.error(message)
+      return finish({ status: 'failed', error: message }, 'error')
+    }
+  }, [state.currentStoryboard, state.shots, getAuthHeaders])
+
+  const generateShot = useCallback(async (
+    shotId: string,
+    options?: { referenceImages?: string[] }
+  ): Promise<boolean> => {
+    // A manual generation supersedes whatever generate-all said about the shot
+    dispatch({ type: 'SET_SHOT_QUEUE_ENTRY', payload: { id: shotId, entry: null } })
+    const outcome = await runShotGeneration(shotId, { referenceImages: options?.referenceImages })
+    return outcome.status === 'completed'
+  }, [runShotGeneration])
+
+  const quoteGenerateAll = useCallback(async (shotIds?: string[]): Promise<GenerateAllPlan | null> => {
+    if (!state.currentStoryboard) return null
+
+    try {
+      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/generate`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ shotIds, quoteOnly: true }),
+      })
+      const result = await res.json()
+
+      if (!res.ok) {
+        return { quote: null, order: [], dependencies: {}, errors: result.details || [result.error || 'Could not quote shots'] }
+      }
+      return { quote: result.quote, order: result.order, dependencies: result.dependencies, errors: [] }
+    } catch (error) {
+      console.error('Error quoting shots:', error)
+      return { quote: null, order: [], dependencies: {}, errors: ['Could not quote shots'] }
+    }
+  }, [state.currentStoryboard, getAuthHeaders])
+
+  const releaseGenerateAllHolds = useCallback(async (storyboardId: string) => {
+    try {
+      await fetch(`/api/storyboards/${storyboardId}/generate`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      })
+    } catch (error) {
+      // Unreleased holds expire on their own
+      console.error('Error releasing held shots:', error)
+    }
+  }, [getAuthHeaders])
+
+  const generateAllPending = useCallback(async (shotIds?: string[]): Promise<boolean> => {
+    if (!state.currentStoryboard || generateAllRunning.current) return false
+    const storyboardId = state.currentStoryboard.id
+
+    // Quote and hold every shot up front
+    let result: any
+    try {
+      const res = await fetch(`/api/storyboards/${storyboardId}/generate`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ shotIds }),
+      })
+      result = await res.json()
+
+      if (!res.ok) {
+        if (res.status === 402 || result.code === 'INSUFFICIENT_BALANCE') {
+          toast.error(
+            `Insufficient balance. Need ${formatCents(result.required || 0)}, have ${formatCents(result.available || 0)}. Please top up your credits.`,
+            { duration: 5000 }
+          )
+        } else {
+          toast.error(result.error || 'Could not start generating shots')
+        }
+        return false
+      }
+    } catch (error) {
+      console.error('Error starting generate all:', error)
+      toast.error('Could not start generating shots')
       return false
     }
+
+    const order: string[] = result.order
+    const dependencies: Record<string, string[]> = result.dependencies
+    const completed = new Set<string>()
+    const failed = new Set<string>()
+    const remaining = [...order]
+    const inFlight = new Map<string, Promise<void>>()
+
+    generateAllRunning.current = true
+    generateAllStopped.current = false
+    dispatch({ type: 'SET_GENERATING_ALL', payload: true })
+    dispatch({
+      type: 'SET_SHOT_QUEUE',
+      payload: Object.fromEntries(order.map(id => [id, { state: 'waiting', attempt: 0, dependsOn: dependencies[id] || [] }])),
+    })
+
+    const setEntry = (id: string, entry: ShotQueueEntry) =>
+      dispatch({ type: 'SET_SHOT_QUEUE_ENTRY', payload: { id, entry } })
+
+    const runQueuedShot = async (shotId: string) => {
+      const dependsOn = dependencies[shotId] || []
+      let lastError: string | undefined
+
+      for (let attempt = 1; attempt <= MAX_SHOT_ATTEMPTS; attempt++) {
+        setEntry(shotId, { state: attempt > 1 ? 'retrying' : 'running', attempt, dependsOn })
+        const outcome = await runShotGeneration(shotId, { quiet: true })
+
+        if (outcome.status === 'completed') {
+          completed.add(shotId)
+          setEntry(shotId, { state: 'completed', attempt, dependsOn })
+          return
+        }
+
+        lastError = outcome.error || (outcome.status === 'canceled' ? 'Canceled' : 'Generation failed')
+        // Retrying won't help these
+        if (outcome.status === 'canceled' || outcome.code === 'INSUFFICIENT_BALANCE' || generateAllStopped.current) break
+      }
+
+      failed.add(shotId)
+      setEntry(shotId, { state: 'failed', attempt: MAX_SHOT_ATTEMPTS, dependsOn, error: lastError })
+    }
+
+    while (true) {
+      // Shots built on a failed shot can't run
+      let blockedAny = true
+      while (blockedAny) {
+        blockedAny = false
+        for (const id of [...remaining]) {
+          const failedDep = (dependencies[id] || []).find(depId => failed.has(depId))
+          if (!failedDep) continue
+          remaining.splice(remaining.indexOf(id), 1)
+          failed.add(id)
+          const depShot = state.shots.find(s => s.id === failedDep)
+          setEntry(id, {
+            state: 'blocked',
+            attempt: 0,
+            dependsOn: dependencies[id] || [],
+            error: `Shot ${depShot?.shotNumber ?? ''} failed`.trim(),
+          })
+          blockedAny = true
+        }
+      }
+
+      if (!generateAllStopped.current) {
+        for (const id of [...remaining]) {
+          if (inFlight.size >= GENERATE_ALL_CONCURRENCY) break
+          if ((dependencies[id] || []).every(depId => completed.has(depId))) {
+            remaining.splice(remaining.indexOf(id), 1)
+            inFlight.set(id, runQueuedShot(id).finally(() => { inFlight.delete(id) }))
+          }
+        }
+      }
+
+      if (inFlight.size === 0) break
+      await Promise.race(Array.from(inFlight.values()))
+    }
+
+    // Shots that never started (stopped or blocked) still have holds
+    if (completed.size < order.length) {
+      await releaseGenerateAllHolds(storyboardId)
+    }
+    remaining.forEach(id => setEntry(id, { state: 'failed', attempt: 0, dependsOn: dependencies[id] || [], error: 'Stopped' }))
+
+    generateAllRunning.current = false
+    dispatch({ type: 'SET_GENERATING_ALL', payload: false })
+
+    if (failed.size === 0 && remaining.length === 0) {
+      toast.success(`Generated ${completed.size} ${completed.size === 1 ? 'shot' : 'shots'}`)
+      return true
+    }
+    toast.warning(`Generated ${completed.size} of ${order.length} shots`, {
+      description: failed.size > 0 ? `${failed.size} failed or blocked` : 'Stopped before the rest started',
+    })
+    return false
+  }, [state.currentStoryboard, state.shots, getAuthHeaders, runShotGeneration, releaseGenerateAllHolds])
+
+  const stopGenerateAll = useCallback(async () => {
+    if (!state.currentStoryboard || !generateAllRunning.current) return
+    generateAllStopped.current = true
+    // Release the shots that haven't started now rather than when the last running one finishes
+    await releaseGenerateAllHolds(state.currentStoryboard.id)
+    toast('Stopping - shots already generating will finish')
+  }, [state.currentStoryboard, releaseGenerateAllHolds])
+
+  const cancelShotGeneration = useCallback(async (shotId: string): Promise<boolean> => {
+    const shot = state.shots.find(s => s.id === shotId)
+    if (!shot?.generationId || shot.status !== 'generating') return false
+
+    try {
+      const res = await fetch(`/api/generations/${shot.generationId}/cancel`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      })
+      const result = await res.json()
+
+      if (!res.ok) {
+        toast.error(result.error || 'Could not cancel generation')
+        return false
+      }
+
+      // generateShot's poll sees the canceled status and stops on its own
+      dispatch({ type: 'UPDATE_SHOT', payload: { id: shotId, updates: { status: 'pending' } } })
+      toast.success('Generation canceled', {
+        description: result.refundedCents ? `${result.refundedCents}¢ refunded` : undefined,
+      })
+      return true
+    } catch (error) {
+      console.error('Error canceling shot generation:', error)
+      toast.error('Could not cancel generation')
+      return false
+    }
+  }, [state.shots, getAuthHeaders])
+
+  const fetchShotTakes = useCallback(async (shotId: string): Promise<ShotTake[]> => {
+    if (!state.currentStoryboard) return []
+
+    try {
+      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/shots/${shotId}/takes`, {
+        headers: getAuthHeaders(),
+      })
+      if (!res.ok) throw new Error('Failed to fetch takes')
+      const data = await res.json()
+      return data.takes || []
+    } catch (error) {
+      console.error('Error fetching takes:', error)
+      return []
+    }
+  }, [state.currentStoryboard, getAuthHeaders])
+
+  const selectShotTake = useCallback(async (shotId: string, take: ShotTake): Promise<boolean> => {
+    if (!state.currentStoryboard) return false
+
+    try {
+      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/shots/${shotId}/takes/${take.id}/select`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      })
+      const result = await res.json()
+
+      if (!res.ok) {
+        toast.error(result.error || 'Could not select take')
+        return false
+      }
+
+      dispatch({
+        type: 'UPDATE_SHOT',
+        payload: {
+          id: shotId,
+          updates: {
+            selectedTakeId: take.id,
+            generationId: take.generationId,
+            generatedImageUrl: take.outputUrls[0],
+            consistency: take.consistency,
+            status: 'completed',
+          },
+        },
+      })
+      return true
+    } catch (error) {
+      console.error('Error selecting take:', error)
+      toast.error('Could not select take')
+      return false
+    }
+  }, [state.currentStoryboard, getAuthHeaders])
+
+  const checkShotConsistency = useCallback(async (shotId: string): Promise<ShotConsistencyCheck | null> => {
+    if (!state.currentStoryboard) return null
+
+    try {
+      const res = await fetch(`/api/storyboards/${state.currentStoryboard.id}/shots/${shotId}/consistency`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      })
+      const result = await res.json()
+
+      if (!res.ok) {
+        toast.error(result.error || 'Could not check shot')
+        return null
+      }
+
+      dispatch({ type: 'UPDATE_SHOT', payload: { id: shotId, updates: { consistency: result.consistency } } })
+      return result.consistency
+    } catch (error) {
+      console.error('Error checking shot consistency:', error)
+      toast.error('Could not check shot')
+      return null
+    }
   }, [state.currentStoryboard, getAuthHeaders])
 
   // ==========================================
@@ -858,6 +1512,9 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
     isLoading: state.isLoading,
     isSaving: state.isSaving,
     isGenerating: state.isGenerating,
+    isGeneratingAll: state.isGeneratingAll,
+    shotQueue: state.shotQueue,
+    history: state.history,
     error: state.error,
 
     // Storyboard actions
@@ -874,12 +1531,19 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
     updateShot,
     deleteShot,
     reorderShots,
+    applyRevision,
+    undo,
+    redo,
 
     // Entity actions
     addEntity,
     updateEntity,
     removeEntity,
     analyzeEntityImage,
+    addEntityImage,
+    updateEntityImage,
+    removeEntityImage,
+    generateEntityTurnaround,
 
     // Shot-Entity linking
     assignEntityToShot,
@@ -888,6 +1552,13 @@ export function StoryboardProvider({ children }: { children: ReactNode }) {
 
     // Generation
     generateShot,
+    cancelShotGeneration,
+    fetchShotTakes,
+    selectShotTake,
+    checkShotConsistency,
+    quoteGenerateAll,
+    generateAllPending,
+    stopGenerateAll,
   }
 
   return <StoryboardContext.Provider value={value}>{children}</StoryboardContext.Provider>
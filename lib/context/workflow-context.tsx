@@ -1,18 +1,58 @@
 'use client'
 
-import { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react'
-import { Workflow, WorkflowStep, WorkflowRunProgress, Generation } from '@/lib/types'
+import { createContext, useContext, useState, useCallback, useRef, ReactNode, useEffect } from 'react'
+import { Workflow, WorkflowStep, WorkflowRunProgress, WorkflowInputValues, Generation } from '@/lib/types'
 import { mockWorkflows } from '@/lib/types'
-import { saveToStorage, loadFromStorage, STORAGE_KEYS } from '@/lib/storage'
+import { loadFromStorage, removeFromStorage, STORAGE_KEYS } from '@/lib/storage'
+import { toast } from 'sonner'
 
 // ============================================
 // Workflow Context - Manage Workflows
+// Workflows are stored on the server and runs execute there (lib/workflow-runner);
+// this context keeps a local copy and polls the run it is watching.
 // ============================================
 
+const RUN_POLL_INTERVAL_MS = 3000
+
+// Runs in these states won't change again
+const FINISHED_RUN_STATUSES: WorkflowRunProgress['status'][] = ['completed', 'error', 'canceled']
+
+function getAuthHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (typeof window !== 'undefined') {
+    const devToken = localStorage.getItem('whop-dev-token')
+    const devUserId = localStorage.getItem('whop-dev-user-id')
+    if (devToken) headers['x-whop-user-token'] = devToken
+    if (devUserId) headers['x-whop-user-id'] = devUserId
+  }
+  return headers
+}
+
+// JSON dates come back as strings
+function reviveWorkflow(workflow: any): Workflow {
+  return {
+    ...workflow,
+    createdAt: new Date(workflow.createdAt),
+    updatedAt: workflow.updatedAt ? new Date(workflow.updatedAt) : undefined,
+    lastRunAt: workflow.lastRunAt ? new Date(workflow.lastRunAt) : undefined,
+  }
+}
+
+function reviveRun(run: any): WorkflowRunProgress {
+  return {
+    ...run,
+    stepOutputs: (run.stepOutputs || []).map((output: any) => ({
+      ...output,
+      createdAt: new Date(output.createdAt),
+    })),
+  }
+}
+
 interface WorkflowContextType {
   // Workflows
   workflows: Workflow[]
   activeWorkflow: Workflow | null
+  isLoading: boolean
 
   // Builder state
   isBuilding: boolean
@@ -23,10 +63,11 @@ interface WorkflowContextType {
   runProgress: WorkflowRunProgress | null
 
   // Workflow CRUD
-  createWorkflow: (workflow: Omit<Workflow, 'id' | 'createdAt' | 'runCount' | 'isPublic'>) => Workflow
-  updateWorkflow: (id: string, updates: Partial<Workflow>) => void
-  deleteWorkflow: (id: string) => void
-  duplicateWorkflow: (id: string) => Workflow
+  createWorkflow: (workflow: Omit<Workflow, 'id' | 'createdAt' | 'runCount' | 'isPublic'>) => Promise<Workflow | null>
+  updateWorkflow: (id: string, updates: Partial<Workflow>) => Promise<void>
+  deleteWorkflow: (id: string) => Promise<void>
+  duplicateWorkflow: (id: string) => Promise<Workflow | null>
+  refreshWorkflows: () => Promise<void>
 
   // Builder actions
   startBuilding: (workflow?: Workflow) => void
@@ -34,9 +75,12 @@ interface WorkflowContextType {
   setEditingWorkflow: (workflow: Workflow | null) => void
 
   // Runner actions
-  runWorkflow: (workflowId: string, initialInput: string) => Promise<Generation[]>
-  pauseRun: () => void
-  cancelRun: () => void
+  // Free text for workflows without declared inputs, values by input name otherwise
+  runWorkflow: (workflowId: string, initialInput: string | WorkflowInputValues) => Promise<Generation[]>
+  pauseRun: () => Promise<void>
+  resumeRun: () => Promise<void>
+  cancelRun: () => Promise<void>
+  clearRun: () => void
 
   // Step management
   addStep: (workflowId: string, step: Omit<WorkflowStep, 'id' | 'order'>) => void
@@ -49,8 +93,9 @@ const WorkflowContext = createContext<WorkflowContextType | null>(null)
 
 export function WorkflowProvider({ children }: { children: ReactNode }) {
   // Workflows state
-  const [workflows, setWorkflows] = useState<Workflow[]>(mockWorkflows)
+  const [workflows, setWorkflows] = useState<Workflow[]>([])
   const [activeWorkflow, setActiveWorkflow] = useState<Workflow | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
 
   // Builder state
   const [isBuilding, setIsBuilding] = useState(false)
@@ -59,73 +104,199 @@ export function WorkflowProvider({ children }: { children: ReactNode }) {
   // Runner state
   const [isRunning, setIsRunning] = useState(false)
   const [runProgress, setRunProgress] = useState<WorkflowRunProgress | null>(null)
-  const [shouldCancel, setShouldCancel] = useState(false)
+  // The run being polled; changing it stops the previous poll loop
+  const watchedRunIdRef = useRef<string | null>(null)
 
-  // Load workflows from storage on mount
-  useEffect(() => {
-    const saved = loadFromStorage<Workflow[]>(STORAGE_KEYS.WORKFLOWS)
-    if (saved && saved.length > 0) {
-      setWorkflows(saved)
+  // Fetch workflows from the server
+  const refreshWorkflows = useCallback(async () => {
+    try {
+      const res = await fetch('/api/workflows', { headers: getAuthHeaders() })
+      if (!res.ok) return
+      const data = await res.json()
+      setWorkflows((data.workflows || []).map(reviveWorkflow))
+    } catch (error) {
+      console.error('[Workflow] Failed to load workflows:', error)
     }
   }, [])
 
-  // Save workflows to storage when changed
+  // Poll a run until it finishes or another run is watched
+  const watchRun = useCallback(async (runId: string): Promise<WorkflowRunProgress | null> => {
+    watchedRunIdRef.current = runId
+
+    while (watchedRunIdRef.current === runId) {
+      await new Promise(resolve => setTimeout(resolve, RUN_POLL_INTERVAL_MS))
+      if (watchedRunIdRef.current !== runId) break
+
+      try {
+        const res = await fetch(`/api/workflow-runs/${runId}`, { headers: getAuthHeaders() })
+        if (!res.ok) continue
+        const data = await res.json()
+        if (watchedRunIdRef.current !== runId) break
+
+        const progress = reviveRun(data.run)
+        setRunProgress(progress)
+        if (FINISHED_RUN_STATUSES.includes(progress.status)) {
+          watchedRunIdRef.current = null
+          setIsRunning(false)
+          if (progress.status === 'completed') refreshWorkflows()
+          return progress
+        }
+      } catch (error) {
+        console.error('[Workflow] Failed to poll run:', error)
+      }
+    }
+    return null
+  }, [refreshWorkflows])
+
+  // Load workflows on mount, uploading any saved locally before they lived on the server,
+  // then pick up a run that is still going (started before a reload or on another device)
   useEffect(() => {
-    saveToStorage(STORAGE_KEYS.WORKFLOWS, workflows)
-  }, [workflows])
+    let cancelled = false
+
+    const load = async () => {
+      const saved = loadFromStorage<Workflow[]>(STORAGE_KEYS.WORKFLOWS)
+      const mockIds = new Set(mockWorkflows.map(wf => wf.id))
+      const local = (saved || []).filter(wf => !mockIds.has(wf.id) && wf.steps?.length > 0)
+
+      if (local.length > 0) {
+        const results = await Promise.all(local.map(wf =>
+          fetch('/api/workflows', {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ name: wf.name, description: wf.description, steps: wf.steps }),
+          }).then(res => res.ok).catch(() => false)
+        ))
+        if (results.every(Boolean)) removeFromStorage(STORAGE_KEYS.WORKFLOWS)
+      } else if (saved) {
+        removeFromStorage(STORAGE_KEYS.WORKFLOWS)
+      }
+
+      await refreshWorkflows()
+      if (cancelled) return
+      setIsLoading(false)
+
+      try {
+        const res = await fetch('/api/workflow-runs?active=true', { headers: getAuthHeaders() })
+        if (!res.ok || cancelled) return
+        const data = await res.json()
+        const active = data.runs?.[0]
+        if (!active || cancelled) return
+
+        setRunProgress(reviveRun(active))
+        setIsRunning(true)
+        watchRun(active.runId)
+      } catch (error) {
+        console.error('[Workflow] Failed to load active runs:', error)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+      watchedRunIdRef.current = null
+    }
+  }, [refreshWorkflows, watchRun])
 
-  // Generate unique ID
-  const generateId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+  // Keep the active workflow in sync with the loaded list (a resumed run only knows its id)
+  useEffect(() => {
+    if (!runProgress) return
+    setActiveWorkflow(prev =>
+      prev?.id === runProgress.workflowId ? prev : workflows.find(wf => wf.id === runProgress.workflowId) || prev
+    )
+  }, [workflows, runProgress])
 
   // Create workflow
-  const createWorkflow = useCallback((
+  const createWorkflow = useCallback(async (
     workflow: Omit<Workflow, 'id' | 'createdAt' | 'runCount' | 'isPublic'>
-  ): Workflow => {
-    const newWorkflow: Workflow = {
-      ...workflow,
-      id: generateId(),
-      createdAt: new Date(),
-      runCount: 0,
-      isPublic: false,
+  ): Promise<Workflow | null> => {
+    try {
+      const res = await fetch('/api/workflows', {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          name: workflow.name,
+          description: workflow.description,
+          steps: workflow.steps,
+          inputs: workflow.inputs,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to create workflow')
+
+      const created = reviveWorkflow(data.workflow)
+      setWorkflows(prev => [created, ...prev])
+      return created
+    } catch (error) {
+      console.error('[Workflow] Failed to create workflow:', error)
+      toast.error('Could not save workflow', {
+        description: error instanceof Error ? error.message : undefined,
+      })
+      return null
     }
-    setWorkflows(prev => [newWorkflow, ...prev])
-    return newWorkflow
   }, [])
 
-  // Update workflow
-  const updateWorkflow = useCallback((id: string, updates: Partial<Workflow>) => {
+  // Update workflow - applied locally right away, then saved
+  const updateWorkflow = useCallback(async (id: string, updates: Partial<Workflow>) => {
     setWorkflows(prev => prev.map(wf =>
       wf.id === id ? { ...wf, ...updates, updatedAt: new Date() } : wf
     ))
-  }, [])
+
+    try {
+      const res = await fetch(`/api/workflows/${id}`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          name: updates.name,
+          description: updates.description,
+          steps: updates.steps,
+          inputs: updates.inputs,
+          isPublic: updates.isPublic,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to update workflow')
+
+      const saved = reviveWorkflow(data.workflow)
+      setWorkflows(prev => prev.map(wf => wf.id === id ? saved : wf))
+    } catch (error) {
+      console.error('[Workflow] Failed to update workflow:', error)
+      toast.error('Could not save workflow changes')
+      refreshWorkflows()
+    }
+  }, [refreshWorkflows])
 
   // Delete workflow
-  const deleteWorkflow = useCallback((id: string) => {
+  const deleteWorkflow = useCallback(async (id: string) => {
     setWorkflows(prev => prev.filter(wf => wf.id !== id))
     if (activeWorkflow?.id === id) {
       setActiveWorkflow(null)
     }
-  }, [activeWorkflow])
 
-  // Duplicate workflow
-  const duplicateWorkflow = useCallback((id: string): Workflow => {
+    try {
+      const res = await fetch(`/api/workflows/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      })
+      if (!res.ok) throw new Error('Failed to delete workflow')
+    } catch (error) {
+      console.error('[Workflow] Failed to delete workflow:', error)
+      toast.error('Could not delete workflow')
+      refreshWorkflows()
+    }
+  }, [activeWorkflow, refreshWorkflows])
+
+  // Duplicate workflow - the server gives the copy new step ids
+  const duplicateWorkflow = useCallback(async (id: string): Promise<Workflow | null> => {
     const original = workflows.find(wf => wf.id === id)
     if (!original) throw new Error('Workflow not found')
 
-    const duplicate: Workflow = {
-      ...original,
-      id: generateId(),
+    return createWorkflow({
       name: `${original.name} (Copy)`,
-      createdAt: new Date(),
-      runCount: 0,
-      steps: original.steps.map(step => ({
-        ...step,
-        id: generateId(),
-      })),
-    }
-    setWorkflows(prev => [duplicate, ...prev])
-    return duplicate
-  }, [workflows])
+      description: original.description,
+      steps: original.steps.map(step => ({ ...step, id: '' })),
+      inputs: original.inputs,
+    })
+  }, [workflows, createWorkflow])
 
   // Start building
   const startBuilding = useCallback((workflow?: Workflow) => {
@@ -139,27 +310,28 @@ export function WorkflowProvider({ children }: { children: ReactNode }) {
     setEditingWorkflow(null)
   }, [])
 
+  // Save a workflow's new step list, renumbering the steps
+  const saveSteps = useCallback((workflowId: string, steps: WorkflowStep[]) => {
+    updateWorkflow(workflowId, {
+      steps: steps.map((step, index) => ({ ...step, order: index + 1 })),
+    })
+  }, [updateWorkflow])
+
   // Add step to workflow
   const addStep = useCallback((
     workflowId: string,
     step: Omit<WorkflowStep, 'id' | 'order'>
   ) => {
-    setWorkflows(prev => prev.map(wf => {
-      if (wf.id !== workflowId) return wf
-
-      const newStep: WorkflowStep = {
-        ...step,
-        id: generateId(),
-        order: wf.steps.length + 1,
-      }
+    const workflow = workflows.find(wf => wf.id === workflowId)
+    if (!workflow) return
 
-      return {
-        ...wf,
-        steps: [...wf.steps, newStep],
-        updatedAt: new Date(),
-      }
-    }))
-  }, [])
+    const newStep: WorkflowStep = {
+      ...step,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      order: workflow.steps.length + 1,
+    }
+    saveSteps(workflowId, [...workflow.steps, newStep])
+  }, [workflows, saveSteps])
 
   // Update step
   const updateStep = useCallback((
@@ -167,38 +339,24 @@ export function WorkflowProvider({ children }: { children: ReactNode }) {
     stepId: string,
     updates: Partial<WorkflowStep>
   ) => {
-    setWorkflows(prev => prev.map(wf => {
-      if (wf.id !== workflowId) return wf
-
-      return {
-        ...wf,
-        steps: wf.steps.map(step =>
-          step.id === stepId ? { ...step, ...updates } : step
-        ),
-        updatedAt: new Date(),
-      }
-    }))
-  }, [])
+    const workflow = workflows.find(wf => wf.id === workflowId)
+    if (!workflow) return
+
+    saveSteps(workflowId, workflow.steps.map(step =>
+      step.id === stepId ? { ...step, ...updates } : step
+    ))
+  }, [workflows, saveSteps])
 
   // Remove step
   const removeStep = useCallback((workflowId: string, stepId: string) => {
-    setWorkflows(prev => prev.map(wf => {
-      if (wf.id !== workflowId) return wf
-
-      const filteredSteps = wf.steps.filter(step => step.id !== stepId)
-      // Reorder remaining steps
-      const reorderedSteps = filteredSteps.map((step, index) => ({
-        ...step,
-        order: index + 1,
-      }))
-
-      return {
-        ...wf,
-        steps: reorderedSteps,
-        updatedAt: new Date(),
-      }
-    }))
-  }, [])
+    const workflow = workflows.find(wf => wf.id === workflowId)
+    if (!workflow) return
+
+    // Steps that took input from the removed step stop waiting for it
+    saveSteps(workflowId, workflow.steps
+      .filter(step => step.id !== stepId)
+      .map(step => step.inputs ? { ...step, inputs: step.inputs.filter(input => input !== stepId) } : step))
+  }, [workflows, saveSteps])
 
   // Reorder steps
   const reorderSteps = useCallback((
@@ -206,126 +364,110 @@ export function WorkflowProvider({ children }: { children: ReactNode }) {
     fromIndex: number,
     toIndex: number
   ) => {
-    setWorkflows(prev => prev.map(wf => {
-      if (wf.id !== workflowId) return wf
-
-      const newSteps = [...wf.steps]
-      const [removed] = newSteps.splice(fromIndex, 1)
-      newSteps.splice(toIndex, 0, removed)
-
-      // Update order numbers
-      const reorderedSteps = newSteps.map((step, index) => ({
-        ...step,
-        order: index + 1,
-      }))
-
-      return {
-        ...wf,
-        steps: reorderedSteps,
-        updatedAt: new Date(),
-      }
-    }))
-  }, [])
+    const workflow = workflows.find(wf => wf.id === workflowId)
+    if (!workflow) return
 
-  // Run workflow
+    const newSteps = [...workflow.steps]
+    const [removed] = newSteps.splice(fromIndex, 1)
+    newSteps.splice(toIndex, 0, removed)
+    saveSteps(workflowId, newSteps)
+  }, [workflows, saveSteps])
+
+  // Run workflow - starts a server-side run and follows it until it finishes.
+  // Closing the tab doesn't stop the run; it is picked up again on the next load.
   const runWorkflow = useCallback(async (
     workflowId: string,
-    initialInput: string
+    initialInput: string | WorkflowInputValues
   ): Promise<Generation[]> => {
     const workflow = workflows.find(wf => wf.id === workflowId)
     if (!workflow) throw new Error('Workflow not found')
 
     setIsRunning(true)
-    setShouldCancel(false)
     setActiveWorkflow(workflow)
 
-    const outputs: Generation[] = []
-
-    setRunProgress({
-      workflowId,
-      currentStep: 0,
-      totalSteps: workflow.steps.length,
-      status: 'running',
-      stepOutputs: [],
-    })
-
     try {
-      let previousOutput = initialInput
-
-      for (let i = 0; i < workflow.steps.length; i++) {
-        if (shouldCancel) {
-          setRunProgress(prev => prev ? { ...prev, status: 'paused' } : null)
-          break
-        }
-
-        const step = workflow.steps[i]
-
-        setRunProgress(prev => prev ? {
-          ...prev,
-          currentStep: i + 1,
-        } : null)
-
-        // Replace template variables
-        let prompt = step.promptTemplate
-          .replace('{input}', initialInput)
-          .replace('{previous_output}', previousOutput)
-
-        // Simulate generation (will be replaced with real API)
-        await new Promise(resolve => setTimeout(resolve, 2000))
-
-        const generation: Generation = {
-          id: `gen-${Date.now()}-${i}`,
-          imageUrl: `https://picsum.photos/seed/${Date.now()}-${i}/800/${600 + Math.floor(Math.random() * 400)}`,
-          prompt,
-          model: {
-            id: step.modelId,
-            name: step.modelName || step.modelId,
-            provider: 'Replicate',
-          },
-          createdAt: new Date(),
-          isPublic: false,
-          likes: 0,
-        }
-
-        outputs.push(generation)
-        previousOutput = prompt // In real impl, this would be the image URL or analysis
-
-        setRunProgress(prev => prev ? {
-          ...prev,
-          stepOutputs: [...prev.stepOutputs, generation],
-        } : null)
-      }
-
-      // Update run count
-      updateWorkflow(workflowId, {
-        runCount: workflow.runCount + 1,
-        lastRunAt: new Date(),
+      const res = await fetch(`/api/workflows/${workflowId}/runs`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(typeof initialInput === 'string' ? { input: initialInput } : { inputs: initialInput }),
       })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to start workflow')
+
+      const started = reviveRun(data.run)
+      setRunProgress(started)
+      if (FINISHED_RUN_STATUSES.includes(started.status)) {
+        setIsRunning(false)
+        return started.stepOutputs
+      }
 
-      setRunProgress(prev => prev ? { ...prev, status: 'completed' } : null)
-
+      const finished = await watchRun(started.runId)
+      return finished?.stepOutputs || []
     } catch (error) {
-      setRunProgress(prev => prev ? {
-        ...prev,
+      setRunProgress({
+        runId: '',
+        workflowId,
+        input: typeof initialInput === 'string' ? initialInput : '',
+        currentStep: 0,
+        totalSteps: workflow.steps.length,
         status: 'error',
+        stepOutputs: [],
+        nodeStates: {},
         error: error instanceof Error ? error.message : 'Unknown error',
-      } : null)
-    } finally {
+      })
       setIsRunning(false)
+      return []
     }
+  }, [workflows, watchRun])
 
-    return outputs
-  }, [workflows, shouldCancel, updateWorkflow])
+  // Send a pause/resume/cancel to the server and show the run it returns
+  const updateRun = useCallback(async (action: 'pause' | 'resume' | 'cancel') => {
+    const runId = runProgress?.runId
+    if (!runId) return null
 
-  // Pause run
-  const pauseRun = useCallback(() => {
-    setShouldCancel(true)
-    setRunProgress(prev => prev ? { ...prev, status: 'paused' } : null)
-  }, [])
+    try {
+      const res = await fetch(`/api/workflow-runs/${runId}`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ action }),
+      })
+      const data = await res.json()
+      if (data.run) setRunProgress(reviveRun(data.run))
+      if (!res.ok) throw new Error(data.error || `Failed to ${action} run`)
+      return data.run as WorkflowRunProgress
+    } catch (error) {
+      console.error(`[Workflow] Failed to ${action} run:`, error)
+      toast.error(`Could not ${action} workflow`, {
+        description: error instanceof Error ? error.message : undefined,
+      })
+      return null
+    }
+  }, [runProgress])
+
+  // Pause run - the step in flight still finishes, the next one isn't started
+  const pauseRun = useCallback(async () => {
+    await updateRun('pause')
+  }, [updateRun])
+
+  // Resume a paused run
+  const resumeRun = useCallback(async () => {
+    await updateRun('resume')
+  }, [updateRun])
+
+  // Cancel run - also cancels the step's in-flight generation, which refunds its credits
+  const cancelRun = useCallback(async () => {
+    const canceled = await updateRun('cancel')
+    if (!canceled) return
+
+    watchedRunIdRef.current = null
+    setIsRunning(false)
+    setRunProgress(null)
+    setActiveWorkflow(null)
+  }, [updateRun])
 
-  // Cancel run
-  const cancelRun = useCallback(() => {
-    setShouldCancel(true)
+  // Stop following a finished run so the runner can start a new one
+  const clearRun = useCallback(() => {
+    watchedRunIdRef.current = null
     setIsRunning(false)
     setRunProgress(null)
     setActiveWorkflow(null)
@@ -334,6 +476,7 @@ export function WorkflowProvider({ children }: { children: ReactNode }) {
   const value: WorkflowContextType = {
     workflows,
     activeWorkflow,
+    isLoading,
     isBuilding,
     editingWorkflow,
     isRunning,
@@ -342,12 +485,15 @@ export function WorkflowProvider({ children }: { children: ReactNode }) {
     updateWorkflow,
     deleteWorkflow,
     duplicateWorkflow,
+    refreshWorkflows,
     startBuilding,
     stopBuilding,
     setEditingWorkflow,
     runWorkflow,
     pauseRun,
+    resumeRun,
     cancelRun,
+    clearRun,
     addStep,
     updateStep,
     removeStep,
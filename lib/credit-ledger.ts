@@ -0,0 +1,274 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+
+/**
+ * Credit ledger for generations.
+ *
+ * A generation holds its maximum possible cost before it is submitted, then is
+ * either settled at the actual cost or released when it produces nothing.
+ * A settled generation that the user canceled is refunded, and a hold whose
+ * final params cost more than it covers is topped up.
+ * The row-locking logic lives in the `*_generation_credits` RPCs
+ * (supabase/migrations/20261019000100_credit_ledger.sql,
+ * 20261019000400_generation_cancel.sql and
+ * 20261019001600_generation_hold_top_up.sql); these helpers only
+ * wrap them. Each call is idempotent per generation, so every completion path
+ * (generate route, webhooks, polling) can call settle/release safely.
+ */
+
+export type BillingStatus = 'none' | 'held' | 'settled' | 'released' | 'refunded'
+
+export type ReleaseCause = 'failed' | 'canceled' | 'timed_out' | 'error'
+
+export interface ReserveResult {
+  success: boolean
+  error?: 'INSUFFICIENT_BALANCE' | 'GENERATION_NOT_FOUND' | 'PROFILE_NOT_FOUND' | string
+  heldCents: number
+  newBalance?: number
+  required?: number
+  available?: number
+  isLifetimeUser?: boolean
+}
+
+export interface SettleResult {
+  success: boolean
+  error?: string
+  /** True when the generation was already settled or released */
+  alreadyFinal: boolean
+  chargedCents: number
+  releasedCents: number
+  newBalance?: number
+}
+
+export interface ReleaseResult {
+  success: boolean
+  error?: string
+  alreadyFinal: boolean
+  releasedCents: number
+  newBalance?: number
+}
+
+export interface RefundResult {
+  success: boolean
+  error?: string
+  /** True when there was no settled charge to refund */
+  alreadyFinal: boolean
+  refundedCents: number
+  newBalance?: number
+}
+
+/**
+ * Hold credits for a generation. The generation row must already exist and
+ * carry the user's profile id.
+ */
+export async function reserveGenerationCredits(
+  generationId: string,
+  amountCents: number,
+  options: { task?: string; metadata?: Record<string, any> } = {}
+): Promise<ReserveResult> {
+  const { data, error } = await sbAdmin.rpc('reserve_generation_credits', {
+    p_generation_id: generationId,
+    p_amount_cents: Math.ceil(amountCents),
+    p_task: options.task || 'Image Generation',
+    p_metadata: options.metadata || {},
+  })
+
+  if (error) {
+    console.error('[Ledger] Reserve failed:', error)
+    return { success: false, error: error.message, heldCents: 0 }
+  }
+
+  return {
+    success: !!data?.success,
+    error: data?.error,
+    heldCents: data?.held_cents ?? 0,
+    newBalance: data?.new_balance,
+    required: data?.required,
+    available: data?.available,
+    isLifetimeUser: data?.is_lifetime_user,
+  }
+}
+
+/**
+ * Raise a held generation's hold to `amountCents`, holding the difference
+ * from the balance. No-op when the hold already covers it.
+ */
+export async function topUpGenerationCredits(
+  generationId: string,
+  amountCents: number,
+  options: { task?: string; metadata?: Record<string, any> } = {}
+): Promise<ReserveResult> {
+  const { data, error } = await sbAdmin.rpc('top_up_generation_credits', {
+    p_generation_id: generationId,
+    p_amount_cents: Math.ceil(amountCents),
+    p_task: options.task || 'Image Generation',
+    p_metadata: options.metadata || {},
+  })
+
+  if (error) {
+    console.error('[Ledger] Top-up failed:', error)
+    return { success: false, error: error.message, heldCents: 0 }
+  }
+
+  return {
+    success: !!data?.success,
+    error: data?.error,
+    heldCents: data?.held_cents ?? 0,
+    newBalance: data?.new_balance,
+    required: data?.required,
+    available: data?.available,
+    isLifetimeUser: data?.is_lifetime_user,
+  }
+}
+
+/**
+ * Settle a held generation at its actual cost. Any unused part of the hold
+ * is returned to the user.
+ */
+export async function settleGenerationCredits(
+  generationId: string,
+  actualCents: number,
+  options: { preview?: string | null; metadata?: Record<string, any> } = {}
+): Promise<SettleResult> {
+  const { data, error } = await sbAdmin.rpc('settle_generation_credits', {
+    p_generation_id: generationId,
+    p_actual_cents: Math.ceil(actualCents),
+    p_preview: options.preview ?? null,
+    p_metadata: options.metadata || {},
+  })
+
+  if (error) {
+    console.error('[Ledger] Settle failed:', error)
+    return { success: false, error: error.message, alreadyFinal: false, chargedCents: 0, releasedCents: 0 }
+  }
+
+  return {
+    success: !!data?.success,
+    error: data?.error,
+    alreadyFinal: !!data?.already,
+    chargedCents: data?.charged_cents ?? 0,
+    releasedCents: data?.released_cents ?? 0,
+    newBalance: data?.new_balance,
+  }
+}
+
+/**
+ * Return the whole hold of a generation that failed, was canceled or timed out.
+ */
+export async function releaseGenerationCredits(
+  generationId: string,
+  cause: ReleaseCause,
+  metadata: Record<string, any> = {}
+): Promise<ReleaseResult> {
+  const { data, error } = await sbAdmin.rpc('release_generation_credits', {
+    p_generation_id: generationId,
+    p_cause: cause,
+    p_metadata: metadata,
+  })
+
+  if (error) {
+    console.error('[Ledger] Release failed:', error)
+    return { success: false, error: error.message, alreadyFinal: false, releasedCents: 0 }
+  }
+
+  return {
+    success: !!data?.success,
+    error: data?.error,
+    alreadyFinal: !!data?.already,
+    releasedCents: data?.released_cents ?? 0,
+    newBalance: data?.new_balance,
+  }
+}
+
+/**
+ * Refund what a settled generation was charged. No-op unless it is settled.
+ */
+export async function refundGenerationCredits(
+  generationId: string,
+  cause: ReleaseCause,
+  metadata: Record<string, any> = {}
+): Promise<RefundResult> {
+  const { data, error } = await sbAdmin.rpc('refund_generation_credits', {
+    p_generation_id: generationId,
+    p_cause: cause,
+    p_metadata: metadata,
+  })
+
+  if (error) {
+    console.error('[Ledger] Refund failed:', error)
+    return { success: false, error: error.message, alreadyFinal: false, refundedCents: 0 }
+  }
+
+  return {
+    success: !!data?.success,
+    error: data?.error,
+    alreadyFinal: !!data?.already,
+    refundedCents: data?.refunded_cents ?? 0,
+    newBalance: data?.new_balance,
+  }
+}
+
+/**
+ * Hold credits for several of a user's generations in one transaction: the
+ * balance is checked against the total, then each generation gets its own
+ * hold. The generation rows must already exist with the user's profile id.
+ */
+export async function reserveGenerationHolds(
+  profileId: string,
+  holds: { generationId: string; amountCents: number }[],
+  options: { task?: string; metadata?: Record<string, any> } = {}
+): Promise<ReserveResult> {
+  const { data, error } = await sbAdmin.rpc('reserve_generation_holds', {
+    p_profile_id: profileId,
+    p_holds: holds.map(hold => ({ generation_id: hold.generationId, amount_cents: Math.ceil(hold.amountCents) })),
+    p_task: options.task || 'Image Generation',
+    p_metadata: options.metadata || {},
+  })
+
+  if (error) {
+    console.error('[Ledger] Multi-generation reserve failed:', error)
+    return { success: false, error: error.message, heldCents: 0 }
+  }
+
+  return {
+    success: !!data?.success,
+    error: data?.error,
+    heldCents: data?.held_cents ?? 0,
+    newBalance: data?.new_balance,
+    required: data?.required,
+    available: data?.available,
+    isLifetimeUser: data?.is_lifetime_user,
+  }
+}
+
+/**
+ * Hold credits for every generation of a batch in one transaction: the
+ * balance is checked against the total, then each generation gets its own
+ * hold. The generation rows must already exist with the batch's id.
+ */
+export async function reserveBatchCredits(
+  batchId: string,
+  holds: { generationId: string; amountCents: number }[],
+  options: { task?: string; metadata?: Record<string, any> } = {}
+): Promise<ReserveResult> {
+  const { data, error } = await sbAdmin.rpc('reserve_batch_credits', {
+    p_batch_id: batchId,
+    p_holds: holds.map(hold => ({ generation_id: hold.generationId, amount_cents: Math.ceil(hold.amountCents) })),
+    p_task: options.task || 'Batch Generation',
+    p_metadata: options.metadata || {},
+  })
+
+  if (error) {
+    console.error('[Ledger] Batch reserve failed:', error)
+    return { success: false, error: error.message, heldCents: 0 }
+  }
+
+  return {
+    success: !!data?.success,
+    error: data?.error,
+    heldCents: data?.held_cents ?? 0,
+    newBalance: data?.new_balance,
+    required: data?.required,
+    available: data?.available,
+    isLifetimeUser: data?.is_lifetime_user,
+  }
+}
@@ -0,0 +1,154 @@
+import { ModelSpec } from '@/lib/orchestrator/model-specs'
+import { EntityType } from '@/lib/types'
+
+/**
+ * Entity injection for storyboard shot generation.
+ *
+ * Decides how a shot's entities reach the chosen model. Models that take
+ * several reference images get entity images alongside the shot's own
+ * references, characters first; single-reference models get the one image that
+ * matters most; everything else gets the entities as text. Entities that don't
+ * make it into an image slot are described in the prompt from their vision
+ * context instead, so nothing assigned to the shot is silently dropped.
+ */
+
+export type EntityInjectionStrategy = 'multi_reference' | 'single_reference' | 'text_only'
+
+export interface InjectableEntity {
+  id: string
+  name: string
+  type: EntityType
+  description?: string
+  visionContext?: string
+  imageUrl?: string
+  // Which of the entity's views imageUrl is, e.g. "side"
+  imageLabel?: string
+}
+
+export interface EntityInjectionPlan {
+  strategy: EntityInjectionStrategy
+  // Reference images in the order they should be sent
+  referenceImages: string[]
+  // The model input they're sent as, when the spec names one
+  imageInputParam?: string
+  // Entities whose image is in referenceImages
+  imageEntityIds: string[]
+  // Prompt block describing the entities ('' when there's nothing to say)
+  promptBlock: string
+}
+
+// Which entities win image slots when there aren't enough for all of them
+const ENTITY_PRIORITY: Record<EntityType, number> = {
+  character: 0,
+  object: 1,
+  world: 2,
+  style: 3,
+}
+
+// Models that take several references but don't say how many
+const DEFAULT_MULTI_REFERENCE_SLOTS = 3
+
+// An entity that's also shown as an image only needs a reminder in text
+const IMAGED_CONTEXT_CHARS = 300
+const TEXT_ONLY_CONTEXT_CHARS = 1200
+
+export function getEntityInjectionStrategy(spec: ModelSpec | undefined): EntityInjectionStrategy {
+  if (!spec?.capabilities.supportsReferenceImages) return 'text_only'
+  if (spec.capabilities.multipleReferences && spec.maxReferenceImages !== 1) return 'multi_reference'
+  return 'single_reference'
+}
+
+function getReferenceSlots(spec: ModelSpec | undefined, strategy: EntityInjectionStrategy): number {
+  if (strategy === 'text_only') return 0
+  if (strategy === 'single_reference') return 1
+  return spec?.maxReferenceImages || DEFAULT_MULTI_REFERENCE_SLOTS
+}
+
+function truncate(text: string, maxChars: number): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ')
+  if (trimmed.length <= maxChars) return trimmed
+  const cut = trimmed.slice(0, maxChars)
+  const lastStop = cut.lastIndexOf('. ')
+  return lastStop > maxChars / 2 ? cut.slice(0, lastStop + 1) : `${cut.trimEnd()}...`
+}
+
+// Characters first; otherwise keep the order the entities were assigned in
+function byPriority(entities: InjectableEntity[]): InjectableEntity[] {
+  return entities
+    .map((entity, index) => ({ entity, index }))
+    .sort((a, b) => (ENTITY_PRIORITY[a.entity.type] ?? 4) - (ENTITY_PRIORITY[b.entity.type] ?? 4) || a.index - b.index)
+    .map(({ entity }) => entity)
+}
+
+/**
+ * Plan the reference images and entity prompt block for one generation.
+ *
+ * `shotReferences` are the shot's own images (outputs of shots it's built on,
+ * user-picked references) in the order they should be used. Characters are
+ * placed ahead of them, other entity types only fill slots that are left.
+ */
+export function planEntityInjection(
+  spec: ModelSpec | undefined,
+  entities: InjectableEntity[],
+  shotReferences: string[] = []
+): EntityInjectionPlan {
+  const strategy = getEntityInjectionStrategy(spec)
+  const slots = getReferenceSlots(spec, strategy)
+  const ordered = byPriority(entities)
+
+  const referenceImages: string[] = []
+  const imageIndex = new Map<string, number>()
+
+  const addEntityImage = (entity: InjectableEntity) => {
+    if (!entity.imageUrl || imageIndex.has(entity.id) || referenceImages.length >= slots) return
+    // Two entities sharing one picture share its slot
+    const existing = referenceImages.indexOf(entity.imageUrl)
+    if (existing >= 0) {
+      imageIndex.set(entity.id, existing)
+      return
+    }
+    imageIndex.set(entity.id, referenceImages.length)
+    referenceImages.push(entity.imageUrl)
+  }
+
+  for (const entity of ordered.filter(e => e.type === 'character')) addEntityImage(entity)
+
+  for (const url of shotReferences) {
+    if (url && !referenceImages.includes(url) && referenceImages.length < slots) {
+      referenceImages.push(url)
+    }
+  }
+
+  for (const entity of ordered.filter(e => e.type !== 'character')) addEntityImage(entity)
+
+  // Every entity gets a line; imaged ones point at their image
+  const lines: string[] = []
+  for (const entity of ordered) {
+    const context = entity.visionContext || entity.description
+    const slot = imageIndex.get(entity.id)
+
+    if (slot !== undefined) {
+      const reminder = context ? `: ${truncate(context, IMAGED_CONTEXT_CHARS)}` : ''
+      const view = entity.imageLabel ? `, ${entity.imageLabel} view` : ''
+      lines.push(`[${entity.name}] (${entity.type}, reference image ${slot + 1}${view})${reminder}`)
+    } else if (context) {
+      lines.push(`[${entity.name}] (${entity.type}): ${truncate(context, TEXT_ONLY_CONTEXT_CHARS)}`)
+    }
+  }
+
+  let promptBlock = ''
+  if (lines.length > 0) {
+    const note = imageIndex.size > 0
+      ? 'Keep each of these consistent with its reference image.\n'
+      : ''
+    promptBlock = `[Entity Visual References:\n${note}${lines.join('\n')}\n]`
+  }
+
+  return {
+    strategy,
+    referenceImages,
+    ...(referenceImages.length > 0 && spec?.imageInputParam && { imageInputParam: spec.imageInputParam }),
+    imageEntityIds: Array.from(imageIndex.keys()),
+    promptBlock,
+  }
+}
@@ -0,0 +1,174 @@
+import { EntityImage, EntityImageView, EntityType } from '@/lib/types'
+
+/**
+ * Storyboard entity image sets.
+ *
+ * Besides its primary image an entity can carry labeled views: the angles of
+ * a turnaround, expressions, times of day, key locations. When a shot is
+ * generated one image per entity goes to the model, and pickEntityView chooses
+ * which from the shot's camera angle and the words in its description.
+ */
+
+export const ENTITY_IMAGE_VIEWS: { id: EntityImageView; label: string }[] = [
+  { id: 'front', label: 'Front' },
+  { id: 'three_quarter', label: 'Three-quarter' },
+  { id: 'side', label: 'Side' },
+  { id: 'back', label: 'Back' },
+  { id: 'close_up', label: 'Close-up' },
+  { id: 'full_body', label: 'Full body' },
+  { id: 'expression', label: 'Expression' },
+  { id: 'time_of_day', label: 'Time of day' },
+  { id: 'location', label: 'Location' },
+  { id: 'other', label: 'Other' },
+]
+
+export const ENTITY_IMAGE_FIELDS = 'id, entity_id, image_url, view, label, generation_id, sort_order, created_at'
+
+export function isEntityImageView(value: unknown): value is EntityImageView {
+  return ENTITY_IMAGE_VIEWS.some(v => v.id === value)
+}
+
+export function getEntityImageViewLabel(view: EntityImageView): string {
+  return ENTITY_IMAGE_VIEWS.find(v => v.id === view)?.label || 'Other'
+}
+
+// "Side (profile)", or just "Side"
+export function describeEntityImage(image: Pick<EntityImage, 'view' | 'label'>): string {
+  const viewLabel = getEntityImageViewLabel(image.view)
+  return image.label ? `${viewLabel} (${image.label})` : viewLabel
+}
+
+export function toEntityImage(row: any): EntityImage {
+  return {
+    id: row.id,
+    entityId: row.entity_id,
+    imageUrl: row.image_url,
+    view: isEntityImageView(row.view) ? row.view : 'other',
+    label: row.label || undefined,
+    generationId: row.generation_id || undefined,
+    sortOrder: row.sort_order ?? 0,
+    createdAt: row.created_at,
+  }
+}
+
+export function toEntityImages(rows: any[] | null | undefined): EntityImage[] {
+  return (rows || []).map(toEntityImage).sort((a, b) => a.sortOrder - b.sortOrder)
+}
+
+// === TURNAROUNDS ===
+
+// Multi-output model that can take the primary image as a reference
+export const TURNAROUND_MODEL = 'seedream-4.5'
+
+// Only things with a shape to walk around get a turnaround
+const TURNAROUND_VIEWS: Partial<Record<EntityType, EntityImageView[]>> = {
+  character: ['front', 'three_quarter', 'side', 'back'],
+  object: ['front', 'three_quarter', 'side', 'back'],
+}
+
+export function getTurnaroundViews(entityType: EntityType): EntityImageView[] {
+  return TURNAROUND_VIEWS[entityType] || []
+}
+
+const TURNAROUND_VIEW_PROMPTS: Partial<Record<EntityImageView, string>> = {
+  front: 'facing the camera straight on',
+  three_quarter: 'turned three-quarters to the side',
+  side: 'in full side profile',
+  back: 'seen from directly behind',
+}
+
+/**
+ * Prompt for a turnaround made from the primary image as a reference, one
+ * output per view in `views` order.
+ */
+export function buildTurnaroundPrompt(
+  entity: { entityType: EntityType; entityName: string; entityDescription?: string },
+  views: EntityImageView[]
+): string {
+  const subject = entity.entityType === 'character' ? 'character' : 'object'
+  const shots = views.map((view, i) => `Image ${i + 1}: the ${subject} ${TURNAROUND_VIEW_PROMPTS[view] || getEntityImageViewLabel(view).toLowerCase()}.`)
+  const description = entity.entityDescription ? ` ${entity.entityDescription}` : ''
+
+  return `Turnaround reference of ${entity.entityName}, the ${subject} in the reference image.${description}
+Generate ${views.length} separate images of exactly the same ${subject}, identical design, proportions, colors, ${subject === 'character' ? 'face, hair and clothing' : 'materials and markings'} in every image.
+${shots.join('\n')}
+${subject === 'character' ? 'Full body, neutral standing pose,' : 'Whole object in frame,'} plain light grey studio background, even soft lighting, no text.`
+}
+
+// === VIEW SELECTION ===
+
+// Views that suit each camera angle, best first
+const ANGLE_VIEWS: Record<string, EntityImageView[]> = {
+  'wide shot': ['full_body', 'location', 'front', 'three_quarter'],
+  'medium shot': ['three_quarter', 'front'],
+  'close-up': ['close_up', 'expression', 'front'],
+  'extreme close-up': ['close_up', 'expression', 'front'],
+  'over the shoulder': ['back', 'three_quarter'],
+  'bird\'s eye view': ['location', 'full_body', 'three_quarter'],
+  'low angle': ['three_quarter', 'full_body', 'front'],
+  'high angle': ['three_quarter', 'front'],
+  'dutch angle': ['three_quarter', 'front'],
+  'pov': ['front', 'close_up'],
+}
+
+// Words in a shot that ask for a particular view
+const VIEW_KEYWORDS: { pattern: RegExp; view: EntityImageView }[] = [
+  { pattern: /\bprofile\b|\bfrom the side\b|\bside view\b/, view: 'side' },
+  { pattern: /\bfrom behind\b|\bback view\b|\bwalks? away\b|\bback to (the )?camera\b/, view: 'back' },
+  { pattern: /\bfull[- ]body\b|\bhead to toe\b/, view: 'full_body' },
+  { pattern: /\bclose[- ]up\b|\bface\b/, view: 'close_up' },
+]
+
+const LABEL_MATCH_SCORE = 10
+const KEYWORD_MATCH_SCORE = 6
+// The primary image wins ties, so shots that match nothing keep using it
+const PRIMARY_IMAGE_SCORE = 0.5
+
+function labelWords(label: string): string[] {
+  return label.toLowerCase().split(/[^a-z0-9']+/).filter(word => word.length >= 3)
+}
+
+export interface PickedEntityView {
+  imageUrl: string
+  // Unset when the primary image was picked
+  image?: EntityImage
+}
+
+/**
+ * Choose the entity image that best fits a shot: a view whose label appears
+ * in the shot's text wins, then one asked for by words like "profile", then
+ * the views that suit the camera angle. Falls back to the primary image.
+ */
+export function pickEntityView(
+  entity: { primaryImageUrl?: string; images?: EntityImage[] },
+  shot: { cameraAngle?: string; title?: string; description?: string; prompt?: string }
+): PickedEntityView | null {
+  const images = entity.images || []
+  if (images.length === 0) {
+    return entity.primaryImageUrl ? { imageUrl: entity.primaryImageUrl } : null
+  }
+
+  const text = [shot.title, shot.description, shot.prompt].filter(Boolean).join(' ').toLowerCase()
+  const angleViews = ANGLE_VIEWS[(shot.cameraAngle || '').toLowerCase()] || []
+  const keywordViews = VIEW_KEYWORDS.filter(k => k.pattern.test(text)).map(k => k.view)
+
+  let best: PickedEntityView | null = entity.primaryImageUrl ? { imageUrl: entity.primaryImageUrl } : null
+  let bestScore = entity.primaryImageUrl ? PRIMARY_IMAGE_SCORE : -Infinity
+
+  for (const image of images) {
+    let score = 0
+    if (image.label && labelWords(image.label).some(word => new RegExp(`\\b${word}\\b`).test(text))) {
+      score += LABEL_MATCH_SCORE
+    }
+    if (keywordViews.includes(image.view)) score += KEYWORD_MATCH_SCORE
+    const angleRank = angleViews.indexOf(image.view)
+    if (angleRank >= 0) score += angleViews.length - angleRank
+
+    if (score > bestScore) {
+      best = { imageUrl: image.imageUrl, image }
+      bestScore = score
+    }
+  }
+
+  return best
+}
@@ -0,0 +1,363 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { reserveBatchCredits } from '@/lib/credit-ledger'
+import { quoteGeneration } from '@/lib/pricing'
+import { submitGeneration, GenerationUser } from '@/lib/generation-submit'
+import { describeParamIssues, validateGenerationParams } from '@/lib/generation-params'
+import { BatchMatrix, BatchCell, GenerationBatch } from '@/lib/types'
+
+/**
+ * Batch generation.
+ *
+ * A batch takes a matrix - models x parameter sets x prompt variants - and
+ * runs every cell as its own generation so outputs can be compared side by
+ * side. The whole matrix is quoted through the normal pricing engine and held
+ * in one transaction (reserve_batch_credits) before anything is submitted;
+ * after that each cell is an ordinary generation whose job settles or
+ * releases its own share of the hold.
+ */
+
+export const MAX_BATCH_CELLS = 36
+
+// Cells submitted to providers at once
+const SUBMIT_CONCURRENCY = 4
+
+export interface ExpandedCell {
+  key: string
+  model: string
+  promptIndex: number
+  paramSetIndex: number
+  prompt: string
+  params: Record<string, any>
+}
+
+export interface BatchQuote {
+  // costCents is the per-output price recorded on the generation; heldCents is the quote's max
+  cells: { key: string; model: string; costCents: number; heldCents: number }[]
+  totalCents: number
+}
+
+export type BatchSubmitResult =
+  | {
+      success: true
+      batch: GenerationBatch
+      quote: BatchQuote
+      newBalance?: number
+    }
+  | {
+      success: false
+      error: string
+      code: 'INVALID_BATCH' | 'MODEL_NOT_FOUND' | 'INSUFFICIENT_BALANCE' | 'RESERVATION_FAILED' | 'BATCH_FAILED'
+      status: number
+      required?: number
+      available?: number
+    }
+
+export const BATCH_FIELDS = 'id, name, matrix, total_cells, quoted_cents, created_at'
+
+const cellKey = (model: string, promptIndex: number, paramSetIndex: number) =>
+  `${model}:${promptIndex}:${paramSetIndex}`
+
+/**
+ * Check and normalize a matrix from a request body.
+ */
+export function parseBatchMatrix(body: any): { success: true; matrix: BatchMatrix } | { success: false; error: string } {
+  const models = Array.isArray(body?.models)
+    ? Array.from(new Set(body.models.filter((m: unknown): m is string => typeof m === 'string' && !!m)))
+    : []
+  const prompts = Array.isArray(body?.prompts)
+    ? body.prompts.filter((p: unknown): p is string => typeof p === 'string' && !!p.trim())
+    : []
+  const paramSets = Array.isArray(body?.paramSets) && body.paramSets.length > 0
+    ? body.paramSets.filter((set: unknown) => !!set && typeof set === 'object' && !Array.isArray(set))
+    : [{}]
+
+  if (models.length === 0) return { success: false, error: 'Pick at least one model' }
+  if (prompts.length === 0) return { success: false, error: 'Add at least one prompt' }
+  if (paramSets.length === 0) return { success: false, error: 'Parameter sets must be objects' }
+
+  const total = models.length * prompts.length * paramSets.length
+  if (total > MAX_BATCH_CELLS) {
+    return { success: false, error: `A batch can have at most ${MAX_BATCH_CELLS} cells (this one has ${total})` }
+  }
+  return { success: true, matrix: { models: models as string[], prompts, paramSets } }
+}
+
+/**
+ * Every cell of a matrix, model-major so a model's outputs come back together.
+ */
+export function expandBatchMatrix(matrix: BatchMatrix): ExpandedCell[] {
+  return matrix.models.flatMap(model =>
+    matrix.prompts.flatMap((prompt, promptIndex) =>
+      matrix.paramSets.map((params, paramSetIndex) => ({
+        key: cellKey(model, promptIndex, paramSetIndex),
+        model,
+        promptIndex,
+        paramSetIndex,
+        prompt,
+        params,
+      }))
+    )
+  )
+}
+
+// Split a parameter set into model inputs and generation options. Everything
+// that changes the price is an option, so each cell is held for what it can run
+function splitParams(params: Record<string, any>) {
+  const { duration, resolution, generate_audio, sequential_image_generation, max_images, ...inputs } = params
+  const maxImages = typeof max_images === 'string' ? Number(max_images) : max_images
+  return {
+    inputs,
+    options: {
+      duration: typeof duration === 'number' ? duration : undefined,
+      resolution: typeof resolution === 'string' ? resolution : undefined,
+      generateAudio: typeof generate_audio === 'boolean' ? generate_audio : undefined,
+      sequentialImageGeneration: sequential_image_generation === 'auto' || sequential_image_generation === 'disabled'
+        ? sequential_image_generation as 'auto' | 'disabled'
+        : undefined,
+      maxImages: typeof maxImages === 'number' && Number.isFinite(maxImages) ? maxImages : undefined,
+    },
+  }
+}
+
+/**
+ * Price every cell with the normal pricing engine. Nothing is written.
+ */
+export async function quoteBatch(
+  matrix: BatchMatrix
+): Promise<
+  | { success: true; quote: BatchQuote; cells: ExpandedCell[]; studioModels: Record<string, any>[] }
+  | { success: false; error: string; code: 'INVALID_BATCH' | 'MODEL_NOT_FOUND' | 'BATCH_FAILED' }
+> {
+  const { data: studioModels, error } = await sbAdmin
+    .from('studio_models')
+    .select('*')
+    .in('slug', matrix.models)
+    .eq('is_active', true)
+
+  if (error) {
+    console.error('[Batch] Failed to load models:', error)
+    return { success: false, error: 'Failed to load models', code: 'BATCH_FAILED' }
+  }
+
+  const missing = matrix.models.filter(slug => !studioModels?.some(m => m.slug === slug))
+  if (missing.length > 0) {
+    return { success: false, error: `Model not found: ${missing.join(', ')}`, code: 'MODEL_NOT_FOUND' }
+  }
+
+  const cells = expandBatchMatrix(matrix)
+
+  // Catch bad params before anything is held rather than cell by cell at submit
+  for (const cell of cells) {
+    const studioModel = studioModels!.find(m => m.slug === cell.model)!
+    const validation = validateGenerationParams(studioModel, {
+      model: cell.model,
+      prompt: cell.prompt,
+      params: splitParams(cell.params).inputs,
+    })
+    if (!validation.success) {
+      return {
+        success: false,
+        error: `Invalid parameters for ${studioModel.name}: ${describeParamIssues(validation.issues)}`,
+        code: 'INVALID_BATCH',
+      }
+    }
+  }
+
+  const quoted = cells.map(cell => {
+    const studioModel = studioModels!.find(m => m.slug === cell.model)!
+    const quote = quoteGeneration(studioModel, splitParams(cell.params).options)
+    return { key: cell.key, model: cell.model, costCents: quote.unitCostCents, heldCents: quote.maxCostCents }
+  })
+
+  return {
+    success: true,
+    quote: { cells: quoted, totalCents: quoted.reduce((sum, cell) => sum + cell.heldCents, 0) },
+    cells,
+    studioModels: studioModels || [],
+  }
+}
+
+/**
+ * Quote a matrix, hold its credits in one go and submit every cell.
+ * Cells that fail to submit release their own hold; the rest keep running.
+ */
+export async function submitBatch(
+  user: GenerationUser,
+  matrix: BatchMatrix,
+  options: { name?: string; referenceImages?: string[] } = {}
+): Promise<BatchSubmitResult> {
+  if (!user.profileId) {
+    return { success: false, error: 'No profile to bill the batch to', code: 'RESERVATION_FAILED', status: 400 }
+  }
+
+  const quoted = await quoteBatch(matrix)
+  if (!quoted.success) {
+    return { success: false, error: quoted.error, code: quoted.code, status: quoted.code === 'BATCH_FAILED' ? 500 : 400 }
+  }
+  const { quote, cells, studioModels } = quoted
+
+  const { data: batch, error: batchError } = await sbAdmin
+    .from('generation_batches')
+    .insert({
+      whop_user_id: user.whopUserId,
+      user_id: user.profileId,
+      name: options.name || null,
+      matrix,
+      total_cells: cells.length,
+      quoted_cents: quote.totalCents,
+    })
+    .select(BATCH_FIELDS)
+    .single()
+
+  if (batchError || !batch) {
+    console.error('[Batch] Failed to create batch:', batchError)
+    return { success: false, error: 'Failed to create batch', code: 'BATCH_FAILED', status: 500 }
+  }
+
+  // === GENERATION ROWS ===
+  const { data: generations, error: genError } = await sbAdmin
+    .from('generations')
+    .insert(cells.map((cell, index) => {
+      const studioModel = studioModels.find(m => m.slug === cell.model)!
+      return {
+        whop_user_id: user.whopUserId,
+        user_id: user.profileId,
+        model_id: studioModel.id,
+        model_slug: cell.model,
+        model_category: studioModel.category,
+        prompt: cell.prompt,
+        parameters: cell.params,
+        cost_cents: quote.cells[index].costCents,
+        replicate_status: 'starting',
+        batch_id: batch.id,
+        batch_cell: { model: cell.model, promptIndex: cell.promptIndex, paramSetIndex: cell.paramSetIndex },
+      }
+    }))
+    .select('id, batch_cell')
+
+  if (genError || !generations || generations.length !== cells.length) {
+    console.error('[Batch] Failed to create generation records:', genError)
+    await sbAdmin.from('generation_batches').delete().eq('id', batch.id)
+    return { success: false, error: 'Failed to create generations', code: 'BATCH_FAILED', status: 500 }
+  }
+
+  const generationIdFor = (cell: ExpandedCell) => generations.find(g =>
+    g.batch_cell?.model === cell.model &&
+    g.batch_cell?.promptIndex === cell.promptIndex &&
+    g.batch_cell?.paramSetIndex === cell.paramSetIndex
+  )?.id as string
+
+  // === CREDIT HOLD ===
+  const hold = await reserveBatchCredits(
+    batch.id,
+    cells.map((cell, index) => ({ generationId: generationIdFor(cell), amountCents: quote.cells[index].heldCents })),
+    { metadata: { batch_name: options.name || null, total_cells: cells.length, quoted_cents: quote.totalCents } }
+  )
+
+  if (!hold.success) {
+    // Nothing was held - drop the batch so it doesn't show up in the library
+    await sbAdmin.from('generations').delete().eq('batch_id', batch.id)
+    await sbAdmin.from('generation_batches').delete().eq('id', batch.id)
+
+    if (hold.error === 'INSUFFICIENT_BALANCE') {
+      return {
+        success: false,
+        error: 'Insufficient balance',
+        code: 'INSUFFICIENT_BALANCE',
+        status: 402,
+        required: hold.required ?? quote.totalCents,
+        available: hold.available ?? 0,
+      }
+    }
+    return { success: false, error: 'Failed to reserve credits', code: 'RESERVATION_FAILED', status: 500 }
+  }
+
+  console.log(`[Batch] Held ${hold.heldCents}¢ for batch ${batch.id} (${cells.length} cells)`)
+
+  // === FAN OUT ===
+  const queue = [...cells]
+  const submitNext = async (): Promise<void> => {
+    const cell = queue.shift()
+    if (!cell) return
+
+    const { inputs, options: generationOptions } = splitParams(cell.params)
+    const submitted = await submitGeneration(
+      user,
+      {
+        model: cell.model,
+        prompt: cell.prompt,
+        params: inputs,
+        ...generationOptions,
+        images: options.referenceImages?.map(url => ({ url, purpose: 'reference' as const })),
+      },
+      { heldGenerationId: generationIdFor(cell) }
+    )
+    if (!submitted.success) {
+      console.error(`[Batch] Cell ${cell.key} of batch ${batch.id} failed to submit:`, submitted.error)
+    }
+    return submitNext()
+  }
+  await Promise.all(Array.from({ length: Math.min(SUBMIT_CONCURRENCY, cells.length) }, submitNext))
+
+  const result = await getBatch(batch.id, user.whopUserId)
+  return {
+    success: true,
+    batch: result || toBatch(batch, []),
+    quote,
+    newBalance: hold.newBalance,
+  }
+}
+
+// Transform a generation_batches row and its generations to the client shape
+export function toBatch(row: any, generations: any[]): GenerationBatch {
+  const matrix: BatchMatrix = row.matrix
+  const cells: BatchCell[] = expandBatchMatrix(matrix).map(cell => {
+    const generation = generations.find(g =>
+      g.batch_cell?.model === cell.model &&
+      g.batch_cell?.promptIndex === cell.promptIndex &&
+      g.batch_cell?.paramSetIndex === cell.paramSetIndex
+    )
+    return {
+      key: cell.key,
+      model: cell.model,
+      promptIndex: cell.promptIndex,
+      paramSetIndex: cell.paramSetIndex,
+      generationId: generation?.id || null,
+      status: generation?.job_status || 'failed',
+      outputUrls: generation?.output_urls || [],
+      costCents: generation?.cost_cents || 0,
+      error: generation?.replicate_error || undefined,
+    }
+  })
+
+  return {
+    id: row.id,
+    name: row.name || undefined,
+    matrix,
+    totalCells: row.total_cells,
+    quotedCents: row.quoted_cents,
+    createdAt: row.created_at,
+    cells,
+  }
+}
+
+/**
+ * A batch with the current state of every cell, or null if it isn't the user's.
+ */
+export async function getBatch(batchId: string, whopUserId: string): Promise<GenerationBatch | null> {
+  const { data: batch } = await sbAdmin
+    .from('generation_batches')
+    .select(BATCH_FIELDS)
+    .eq('id', batchId)
+    .eq('whop_user_id', whopUserId)
+    .maybeSingle()
+
+  if (!batch) return null
+
+  const { data: generations } = await sbAdmin
+    .from('generations')
+    .select('id, batch_cell, job_status, output_urls, cost_cents, replicate_error')
+    .eq('batch_id', batchId)
+
+  return toBatch(batch, generations || [])
+}
@@ -0,0 +1,455 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { settleGenerationCredits, releaseGenerationCredits, refundGenerationCredits, ReleaseCause } from '@/lib/credit-ledger'
+import { settlementCostCents } from '@/lib/pricing'
+import { getGenerationProvider, ProviderPrediction } from '@/lib/providers'
+import { extractOutputUrls, saveOutputsToStorage } from '@/lib/generation-output'
+
+/**
+ * Generation job state machine.
+ *
+ *   queued -> submitted -> running -> saving -> completed
+ *                                           \-> failed | timed_out | canceled
+ *
+ * Every path that learns a prediction's result (generate route, webhooks,
+ * poll endpoints, the sweeper) hands it to `recordPredictionState`. Moving a
+ * job into `saving` is a conditional update, so exactly one caller wins and
+ * finishes the job; the rest get `handled: false` and do nothing. A saving
+ * lease that expires (crashed function) can be taken over by the next caller.
+ */
+
+export type JobStatus = 'queued' | 'submitted' | 'running' | 'saving' | 'completed' | 'failed' | 'timed_out' | 'canceled'
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'timed_out', 'canceled']
+
+// How long a job may run before the sweeper gives up on it
+const JOB_TIMEOUT_MS = {
+  image: 10 * 60 * 1000,
+  video: 30 * 60 * 1000,
+}
+// A queued job with no prediction after this long was never submitted
+const QUEUED_TIMEOUT_MS = 5 * 60 * 1000
+const SAVE_LEASE_MS = 2 * 60 * 1000
+const MAX_CHECK_FAILURES = 8
+
+/**
+ * Delay before the next status check: 30s, 1m, 2m, 4m ... capped at 10m
+ */
+export function getBackoffMs(attempt: number): number {
+  return Math.min(30 * 1000 * Math.pow(2, Math.max(attempt, 0)), 10 * 60 * 1000)
+}
+
+export interface JobResult {
+  // False when another path already finished (or is finishing) this job
+  handled: boolean
+  jobStatus: JobStatus
+  outputUrls?: string[]
+  costCents?: number
+  newBalance?: number
+  // Credits given back by a failure or cancellation
+  refundedCents?: number
+  error?: string
+}
+
+// Filter for jobs that may be moved into `saving` or a failure state:
+// still active, or stuck in `saving` with an expired lease
+function claimableFilter(): string {
+  const now = new Date().toISOString()
+  return `job_status.in.(queued,submitted,running),and(job_status.eq.saving,lease_expires_at.lt."${now}")`
+}
+
+/**
+ * Record that a prediction was created for a queued job.
+ */
+export async function markJobSubmitted(
+  generationId: string,
+  prediction: ProviderPrediction,
+  providerName: string
+): Promise<void> {
+  const { error } = await sbAdmin
+    .from('generations')
+    .update({
+      replicate_prediction_id: prediction.id,
+      provider: providerName,
+      job_status: prediction.status === 'processing' ? 'running' : 'submitted',
+      submitted_at: new Date().toISOString(),
+      next_check_at: new Date(Date.now() + getBackoffMs(0)).toISOString(),
+      job_attempts: 0,
+    })
+    .eq('id', generationId)
+    .eq('job_status', 'queued')
+
+  if (error) {
+    console.error('[Jobs] Failed to mark job submitted:', error)
+  }
+}
+
+/**
+ * Apply a prediction state reported by any path. Idempotent.
+ */
+export async function recordPredictionState(
+  generationId: string,
+  prediction: ProviderPrediction,
+  via: string
+): Promise<JobResult> {
+  if (prediction.status === 'starting' || prediction.status === 'processing') {
+    if (prediction.status === 'processing') {
+      await sbAdmin
+        .from('generations')
+        .update({
+          job_status: 'running',
+          replicate_status: 'processing',
+          started_at: prediction.startedAt || new Date().toISOString(),
+        })
+        .eq('id', generationId)
+        .eq('job_status', 'submitted')
+    }
+    return { handled: true, jobStatus: prediction.status === 'processing' ? 'running' : 'submitted' }
+  }
+
+  if (prediction.status === 'succeeded') {
+    return completeJob(generationId, prediction, via)
+  }
+
+  if (prediction.status === 'canceled') {
+    return failJob(generationId, 'canceled', prediction.error || 'Prediction canceled', 'canceled', via)
+  }
+  return failJob(generationId, 'failed', prediction.error || 'Unknown error', 'failed', via)
+}
+
+async function completeJob(generationId: string, prediction: ProviderPrediction, via: string): Promise<JobResult> {
+  // Claim the job - only one caller gets past this. The lease time doubles as
+  // the claim's token: if it expires and someone else claims or cancels the
+  // job, our final write no longer matches
+  const leaseExpiresAt = new Date(Date.now() + SAVE_LEASE_MS).toISOString()
+  const { data: claimed, error: claimError } = await sbAdmin
+    .from('generations')
+    .update({
+      job_status: 'saving',
+      lease_expires_at: leaseExpiresAt,
+    })
+    .eq('id', generationId)
+    .or(claimableFilter())
+    .select('id, whop_user_id, model_slug, cost_cents, output_metadata, workflow_run_id')
+    .maybeSingle()
+
+  if (claimError) {
+    console.error('[Jobs] Failed to claim job:', claimError)
+  }
+  if (!claimed) {
+    console.log(`[Jobs] ${via}: generation ${generationId} already handled`)
+    return { handled: false, jobStatus: await getJobStatus(generationId) }
+  }
+
+  const outputUrls = extractOutputUrls(prediction.output)
+  if (outputUrls.length === 0) {
+    console.error(`[Jobs] ${via}: no output URLs for generation ${generationId}`)
+    return failJob(generationId, 'failed', 'No output URLs returned', 'failed', via, true)
+  }
+
+  // Save temp URLs first so the result survives a storage timeout
+  await sbAdmin
+    .from('generations')
+    .update({ output_urls: outputUrls })
+    .eq('id', generationId)
+
+  const { urls: permanentUrls, failedUploads } = await saveOutputsToStorage(outputUrls, claimed.whop_user_id || undefined)
+
+  const numImagesGenerated = permanentUrls.length
+  const finalCostCents = settlementCostCents(claimed.model_slug, claimed.cost_cents || 0, numImagesGenerated)
+  const outputMetadata = {
+    ...(claimed.output_metadata as Record<string, any> || {}),
+    images_generated: numImagesGenerated,
+    storage_pending: failedUploads > 0,
+    storage_complete: failedUploads === 0,
+    failed_uploads: failedUploads,
+    predict_time: prediction.metrics?.predict_time,
+    completed_via: via,
+    ...(finalCostCents !== claimed.cost_cents && {
+      sequential_mode: true,
+      cost_per_image_cents: claimed.cost_cents,
+    }),
+  }
+
+  // Complete before settling, and only while the claim still holds - a save
+  // that outlived its lease may find the job canceled and refunded already
+  const { data: completed, error: updateError } = await sbAdmin
+    .from('generations')
+    .update({
+      output_urls: permanentUrls,
+      replicate_status: 'succeeded',
+      job_status: 'completed',
+      job_error: null,
+      lease_expires_at: null,
+      next_check_at: null,
+      completed_at: new Date().toISOString(),
+      cost_cents: finalCostCents,
+      total_cost_cents: finalCostCents,
+      output_metadata: outputMetadata,
+    })
+    .eq('id', generationId)
+    .eq('job_status', 'saving')
+    .eq('lease_expires_at', leaseExpiresAt)
+    .select('id')
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('[Jobs] Failed to complete generation:', updateError)
+  }
+  if (!completed) {
+    console.warn(`[Jobs] ${via}: lost the claim on generation ${generationId} while saving - not settling`)
+    return { handled: false, jobStatus: await getJobStatus(generationId) }
+  }
+
+  const settlement = await settleGenerationCredits(generationId, finalCostCents, {
+    preview: permanentUrls[0],
+    metadata: { images_generated: numImagesGenerated, completed_via: via },
+  })
+  if (!settlement.success) {
+    console.error(`[Jobs] Failed to settle credits for ${generationId}:`, settlement.error)
+  }
+
+  await sbAdmin
+    .from('generations')
+    .update({
+      output_metadata: {
+        ...outputMetadata,
+        billing_complete: settlement.success,
+        billed_at: new Date().toISOString(),
+        billed_amount_cents: settlement.chargedCents,
+      },
+    })
+    .eq('id', generationId)
+
+  console.log(`[Jobs] ${via}: completed generation ${generationId} (${numImagesGenerated} outputs, ${settlement.chargedCents}¢)`)
+
+  await advanceWorkflowStep(claimed.workflow_run_id, via)
+
+  return {
+    handled: true,
+    jobStatus: 'completed',
+    outputUrls: permanentUrls,
+    costCents: settlement.chargedCents,
+    newBalance: settlement.newBalance,
+  }
+}
+
+/**
+ * Move a job to failed/timed_out/canceled and release its credit hold.
+ * `fromSaving` lets the current lease holder fail its own job.
+ */
+export async function failJob(
+  generationId: string,
+  jobStatus: 'failed' | 'timed_out' | 'canceled',
+  error: string,
+  cause: ReleaseCause,
+  via: string,
+  fromSaving = false
+): Promise<JobResult> {
+  let query = sbAdmin
+    .from('generations')
+    .update({
+      job_status: jobStatus,
+      job_error: error,
+      replicate_status: cause === 'canceled' ? 'canceled' : 'failed',
+      replicate_error: error,
+      lease_expires_at: null,
+      next_check_at: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', generationId)
+
+  query = fromSaving ? query.eq('job_status', 'saving') : query.or(claimableFilter())
+
+  const { data: updated, error: updateError } = await query.select('id, workflow_run_id').maybeSingle()
+
+  if (updateError) {
+    console.error('[Jobs] Failed to fail job:', updateError)
+  }
+  if (!updated) {
+    return { handled: false, jobStatus: await getJobStatus(generationId) }
+  }
+
+  const release = await releaseGenerationCredits(generationId, cause, { via })
+  console.log(`[Jobs] ${via}: generation ${generationId} ${jobStatus}: ${error}`)
+
+  await advanceWorkflowStep(updated.workflow_run_id, via)
+
+  return {
+    handled: true,
+    jobStatus,
+    error,
+    refundedCents: release.releasedCents,
+    newBalance: release.newBalance,
+  }
+}
+
+/**
+ * Cancel a job for its user: mark it canceled, stop the prediction and give
+ * the credits back. A job that is already saving or finished can't be canceled.
+ */
+export async function cancelJob(generationId: string, via: string): Promise<JobResult> {
+  const { data: job } = await sbAdmin
+    .from('generations')
+    .select('provider, replicate_prediction_id')
+    .eq('id', generationId)
+    .maybeSingle()
+
+  // Mark it first so a webhook arriving mid-cancel can't complete it
+  const result = await failJob(generationId, 'canceled', 'Canceled by user', 'canceled', via)
+  if (!result.handled) return result
+
+  if (job?.replicate_prediction_id) {
+    try {
+      await getGenerationProvider(job.provider).cancelPrediction(job.replicate_prediction_id)
+    } catch (cancelError) {
+      // The job is already canceled and refunded - a stray prediction just finishes unbilled
+      console.error('[Jobs] Failed to cancel prediction:', cancelError)
+    }
+  }
+
+  // A save that crashed after settling leaves a charge behind
+  const refund = await refundGenerationCredits(generationId, 'canceled', { via })
+
+  return {
+    ...result,
+    refundedCents: (result.refundedCents || 0) + refund.refundedCents,
+    newBalance: refund.alreadyFinal ? result.newBalance : refund.newBalance,
+  }
+}
+
+/**
+ * Cancel a job that is still waiting to be submitted and release its hold.
+ * Does nothing once a prediction exists - use cancelJob for that.
+ */
+export async function releaseQueuedJob(generationId: string, reason: string, via: string): Promise<JobResult> {
+  const { data: job } = await sbAdmin
+    .from('generations')
+    .select('job_status, replicate_prediction_id')
+    .eq('id', generationId)
+    .maybeSingle()
+
+  if (!job || job.job_status !== 'queued' || job.replicate_prediction_id) {
+    return { handled: false, jobStatus: (job?.job_status as JobStatus) || 'queued' }
+  }
+  return failJob(generationId, 'canceled', reason, 'canceled', via)
+}
+
+// A finished workflow step moves its run on. Loaded lazily because the
+// runner submits through generation-submit, which imports this module.
+async function advanceWorkflowStep(workflowRunId: string | null, via: string): Promise<void> {
+  if (!workflowRunId) return
+  try {
+    const { advanceWorkflowRun } = await import('@/lib/workflow-runner')
+    await advanceWorkflowRun(workflowRunId, via)
+  } catch (error) {
+    // The workflow sweeper picks the run up later
+    console.error(`[Jobs] Failed to advance workflow run ${workflowRunId}:`, error)
+  }
+}
+
+async function getJobStatus(generationId: string): Promise<JobStatus> {
+  const { data } = await sbAdmin
+    .from('generations')
+    .select('job_status')
+    .eq('id', generationId)
+    .maybeSingle()
+  return (data?.job_status as JobStatus) || 'queued'
+}
+
+export interface SweepSummary {
+  checked: number
+  completed: number
+  failed: number
+  timedOut: number
+  stillRunning: number
+}
+
+/**
+ * Check every active job that is due, finishing, retrying or timing it out.
+ * Run on a schedule (Netlify poller) and from the manual cleanup endpoint.
+ */
+export async function sweepGenerations(
+  options: { limit?: number; replicateToken?: string } = {}
+): Promise<SweepSummary> {
+  const now = new Date()
+  const summary: SweepSummary = { checked: 0, completed: 0, failed: 0, timedOut: 0, stillRunning: 0 }
+
+  const { data: jobs, error } = await sbAdmin
+    .from('generations')
+    .select('id, provider, replicate_prediction_id, model_category, job_status, job_attempts, created_at, submitted_at')
+    .or(`job_status.in.(queued,submitted,running),and(job_status.eq.saving,lease_expires_at.lt."${now.toISOString()}")`)
+    .or(`next_check_at.is.null,next_check_at.lte."${now.toISOString()}"`)
+    .order('created_at', { ascending: true })
+    .limit(options.limit || 50)
+
+  if (error) {
+    console.error('[Jobs] Sweep query failed:', error)
+    return summary
+  }
+
+  for (const job of jobs || []) {
+    summary.checked++
+    const age = now.getTime() - new Date(job.submitted_at || job.created_at).getTime()
+
+    // Never got a prediction - the submitting function died
+    if (!job.replicate_prediction_id) {
+      if (age > QUEUED_TIMEOUT_MS) {
+        const result = await failJob(job.id, 'failed', 'Generation was never submitted', 'error', 'sweeper')
+        if (result.handled) summary.failed++
+      }
+      continue
+    }
+
+    const provider = getGenerationProvider(job.provider, { replicateToken: options.replicateToken })
+    const timeoutMs = job.model_category === 'video' ? JOB_TIMEOUT_MS.video : JOB_TIMEOUT_MS.image
+
+    try {
+      const prediction = await provider.getPrediction(job.replicate_prediction_id)
+
+      if ((prediction.status === 'starting' || prediction.status === 'processing') && age > timeoutMs) {
+        await provider.cancelPrediction(job.replicate_prediction_id).catch(cancelError => {
+          console.error('[Jobs] Failed to cancel timed out prediction:', cancelError)
+        })
+        const result = await failJob(job.id, 'timed_out', `Timed out after ${Math.round(age / 60000)} minutes`, 'timed_out', 'sweeper')
+        if (result.handled) summary.timedOut++
+        continue
+      }
+
+      const result = await recordPredictionState(job.id, prediction, 'sweeper')
+      if (result.jobStatus === 'completed' && result.handled) summary.completed++
+      else if ((result.jobStatus === 'failed' || result.jobStatus === 'canceled') && result.handled) summary.failed++
+      else if (!TERMINAL_JOB_STATUSES.includes(result.jobStatus)) {
+        summary.stillRunning++
+        await sbAdmin
+          .from('generations')
+          .update({
+            job_attempts: (job.job_attempts || 0) + 1,
+            next_check_at: new Date(Date.now() + getBackoffMs((job.job_attempts || 0) + 1)).toISOString(),
+          })
+          .eq('id', job.id)
+      }
+    } catch (checkError) {
+      // Provider unreachable - back off and retry, give up after too many failures
+      const attempts = (job.job_attempts || 0) + 1
+      const message = checkError instanceof Error ? checkError.message : 'Status check failed'
+      console.error(`[Jobs] Status check failed for ${job.id} (attempt ${attempts}):`, message)
+
+      if (attempts >= MAX_CHECK_FAILURES || message.includes('404') || message.includes('not found')) {
+        const result = await failJob(job.id, 'failed', message, 'failed', 'sweeper')
+        if (result.handled) summary.failed++
+      } else {
+        await sbAdmin
+          .from('generations')
+          .update({
+            job_attempts: attempts,
+            job_error: message,
+            next_check_at: new Date(Date.now() + getBackoffMs(attempts)).toISOString(),
+          })
+          .eq('id', job.id)
+      }
+    }
+  }
+
+  console.log('[Jobs] Sweep complete:', summary)
+  return summary
+}
@@ -0,0 +1,170 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { v4 as uuidv4 } from 'uuid'
+
+// ============================================
+// Generation Output Helpers
+// Pull URLs out of provider output and copy them into Supabase storage
+// ============================================
+
+// Determine if a URL or content type is video
+export function isVideoContent(url: string, contentType?: string): boolean {
+  const videoExtensions = ['.mp4', '.webm', '.mov', '.avi', '.mkv']
+  const videoMimeTypes = ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo', 'video/x-matroska']
+
+  const urlLower = url.toLowerCase()
+  if (videoExtensions.some(ext => urlLower.includes(ext))) return true
+  if (contentType && videoMimeTypes.some(mime => contentType.includes(mime))) return true
+
+  return false
+}
+
+// Get file extension from content type
+function getExtensionFromContentType(contentType: string, isVideo: boolean): string {
+  if (isVideo) {
+    if (contentType.includes('mp4')) return 'mp4'
+    if (contentType.includes('webm')) return 'webm'
+    if (contentType.includes('quicktime') || contentType.includes('mov')) return 'mov'
+    if (contentType.includes('avi')) return 'avi'
+    if (contentType.includes('matroska') || contentType.includes('mkv')) return 'mkv'
+    return 'mp4' // default for video
+  } else {
+    if (contentType.includes('png')) return 'png'
+    if (contentType.includes('jpeg') || contentType.includes('jpg')) return 'jpg'
+    if (contentType.includes('gif')) return 'gif'
+    if (contentType.includes('svg')) return 'svg'
+    return 'webp' // default for image
+  }
+}
+
+// Extract a URL from a single output item
+// Replicate SDK items can be strings, FileOutput objects (.url() / .href) or { url }
+function extractUrl(item: any): string | null {
+  if (!item) return null
+
+  if (typeof item === 'string') return item.startsWith('http') ? item : null
+
+  if (typeof item.url === 'function') {
+    try {
+      const url = String(item.url())
+      if (url.startsWith('http')) return url
+    } catch { }
+  }
+  if (typeof item.href === 'string') return item.href
+  if (typeof item.url === 'string') return item.url
+
+  if (typeof item.toString === 'function' && item.toString !== Object.prototype.toString) {
+    const str = item.toString()
+    if (str.startsWith('http')) return str
+  }
+
+  return null
+}
+
+/**
+ * Extract URLs from provider output.
+ * Handles arrays, single values and nested `{ output | images | video | result }` objects.
+ */
+export function extractOutputUrls(output: unknown): string[] {
+  if (!output) return []
+
+  const urls: string[] = []
+  if (Array.isArray(output)) {
+    for (const item of output) {
+      const url = extractUrl(item)
+      if (url) urls.push(url)
+    }
+  } else {
+    const url = extractUrl(output)
+    if (url) urls.push(url)
+  }
+
+  // Some models return { output: [...] } or similar
+  if (urls.length === 0 && typeof output === 'object' && !Array.isArray(output)) {
+    const outputObj = output as Record<string, any>
+    for (const key of ['output', 'images', 'video', 'result']) {
+      if (outputObj[key]) {
+        const nested = extractOutputUrls(outputObj[key])
+        if (nested.length > 0) return nested
+      }
+    }
+  }
+
+  return urls
+}
+
+/**
+ * Download media from a temporary provider URL and upload it to Supabase
+ * storage (videos go to the generated-videos bucket).
+ * Returns the original URL if anything fails so the caller still has something to show.
+ */
+export async function saveMediaToStorage(mediaUrl: string, userId?: string): Promise<string> {
+  try {
+    const response = await fetch(mediaUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch media: ${response.status}`)
+    }
+
+    const arrayBuffer = await response.arrayBuffer()
+    const buffer = Buffer.from(arrayBuffer)
+
+    const contentType = response.headers.get('content-type') || 'image/webp'
+    const isVideo = isVideoContent(mediaUrl, contentType)
+    const ext = getExtensionFromContentType(contentType, isVideo)
+    const bucket = isVideo ? 'generated-videos' : 'generated-images'
+
+    const filename = `${uuidv4()}.${ext}`
+    const path = userId ? `${userId}/${filename}` : `anonymous/${filename}`
+
+    const { error } = await sbAdmin.storage
+      .from(bucket)
+      .upload(path, buffer, {
+        contentType,
+        upsert: false,
+      })
+
+    if (error) {
+      console.error('[Storage] Upload error:', error)
+      return mediaUrl
+    }
+
+    const { data: urlData } = sbAdmin.storage
+      .from(bucket)
+      .getPublicUrl(path)
+
+    return urlData.publicUrl
+  } catch (error) {
+    console.error('[Storage] Error saving media to storage:', error)
+    return mediaUrl
+  }
+}
+
+/**
+ * Save every output URL to storage in parallel, each with its own timeout.
+ * Failed uploads keep their temporary URL and are counted so the migrate
+ * job can pick them up later.
+ */
+export async function saveOutputsToStorage(
+  urls: string[],
+  userId?: string,
+  timeoutMs = 15000
+): Promise<{ urls: string[]; failedUploads: number }> {
+  const results = await Promise.all(urls.map(async (tempUrl) => {
+    try {
+      const permanentUrl = await Promise.race([
+        saveMediaToStorage(tempUrl, userId),
+        new Promise<string>((_, reject) =>
+          setTimeout(() => reject(new Error('Storage upload timeout')), timeoutMs)
+        ),
+      ])
+      return { url: permanentUrl, saved: permanentUrl !== tempUrl }
+    } catch (error) {
+      console.error('[Storage] Upload failed:', error)
+      return { url: tempUrl, saved: false }
+    }
+  }))
+
+  return {
+    urls: results.map(r => r.url),
+    failedUploads: results.filter(r => !r.saved).length,
+  }
+}
@@ -0,0 +1,196 @@
+import { OrchestratorSpec, ParamSpec } from '@/lib/orchestrator/model-specs'
+import type { GenerationRequest, ImageWithPurpose } from '@/lib/generation-submit'
+
+/**
+ * Generation parameter validation.
+ *
+ * Checks a generation request's `params` against what the model accepts
+ * before anything is priced, held or sent to the provider. A model's params
+ * are the ParamSpecs of its orchestrator_spec merged with its
+ * parameter_schema (the pricing schema wins where both describe a param). Unknown params, wrong types, enum values that aren't options and
+ * out-of-range numbers come back as field-level issues; reference images
+ * beyond the model's limit are dropped rather than rejected.
+ */
+
+export interface ParamIssue {
+  field: string
+  message: string
+}
+
+export type ParamValidation =
+  | {
+      success: true
+      params: Record<string, any>
+      images?: ImageWithPurpose[]
+      referenceImages?: string[]
+      // Changes made to keep the request within the model's limits
+      adjustments: ParamIssue[]
+    }
+  | { success: false; issues: ParamIssue[] }
+
+// The studio_models columns validation reads
+export interface ValidatedModel {
+  slug: string
+  name?: string
+  parameter_schema?: Record<string, any> | null
+  orchestrator_spec?: OrchestratorSpec | null
+}
+
+// === COERCION ===
+
+/**
+ * Coerce one value to its ParamSpec. Numeric strings and enum values in the
+ * wrong case are accepted; enum matches come back as the option itself, so
+ * numeric options stay numbers.
+ */
+export function coerceParam(param: ParamSpec, value: unknown): { value: unknown } | { issue: string } {
+  switch (param.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN
+      if (!Number.isFinite(number)) return { issue: 'Must be a number' }
+      if (param.range && (number < param.range.min || number > param.range.max)) {
+        return { issue: `Must be between ${param.range.min} and ${param.range.max}` }
+      }
+      return { value: number }
+    }
+    case 'enum': {
+      const options: unknown[] = param.options || []
+      const text = String(value).trim()
+      const match = options.find(option => String(option) === text)
+        ?? options.find(option => String(option).toLowerCase() === text.toLowerCase())
+      if (options.length > 0 && match === undefined) return { issue: `Must be one of: ${options.join(', ')}` }
+      return { value: match ?? text }
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return { value }
+      if (value === 'true' || value === 'false') return { value: value === 'true' }
+      return { issue: 'Must be true or false' }
+    default:
+      if (typeof value !== 'string' && typeof value !== 'number') return { issue: 'Must be text' }
+      return { value: String(value) }
+  }
+}
+
+// === MODEL PARAMS ===
+
+// A parameter_schema entry, e.g. { "options": [5, 10], "default": 5 }
+function schemaParam(name: string, entry: Record<string, any>): Partial<ParamSpec> {
+  const options = entry.options || entry.enum
+  const type: ParamSpec['type'] | undefined = Array.isArray(options) ? 'enum'
+    : entry.type === 'integer' || entry.type === 'number' ? 'number'
+    : entry.type === 'boolean' ? 'boolean'
+    : entry.type === 'string' ? 'string'
+    : typeof entry.default === 'boolean' ? 'boolean'
+    : undefined
+  const min = entry.min ?? entry.minimum
+  const max = entry.max ?? entry.maximum
+
+  return {
+    name,
+    ...(type && { type }),
+    ...(Array.isArray(options) && { options }),
+    ...(entry.default !== undefined && { default: entry.default }),
+    ...(typeof min === 'number' && typeof max === 'number' && { range: { min, max } }),
+    ...(entry.description && { description: entry.description }),
+  }
+}
+
+/**
+ * Every param a model accepts, including image inputs. Empty when neither
+ * its orchestrator_spec nor its parameter_schema describes it.
+ */
+export function modelParamSpecs(model: ValidatedModel): ParamSpec[] {
+  const spec = model.orchestrator_spec
+  const params = new Map<string, ParamSpec>()
+
+  for (const param of spec?.params ? [...spec.params.required, ...spec.params.optional] : []) {
+    params.set(param.name, param)
+  }
+
+  for (const [name, entry] of Object.entries(model.parameter_schema || {})) {
+    if (!entry || typeof entry !== 'object') continue
+    const fromSchema = schemaParam(name, entry)
+    const existing = params.get(name)
+    params.set(name, {
+      description: '',
+      type: 'string',
+      ...existing,
+      ...fromSchema,
+    } as ParamSpec)
+  }
+
+  return Array.from(params.values())
+}
+
+// === VALIDATION ===
+
+export function validateGenerationParams(model: ValidatedModel, request: GenerationRequest): ParamValidation {
+  const params = modelParamSpecs(model)
+  const input = request.params || {}
+  const issues: ParamIssue[] = []
+  const adjustments: ParamIssue[] = []
+  const values: Record<string, any> = {}
+
+  // Nothing describes this model - the provider is the only check left
+  const unchecked = params.length === 0
+  if (unchecked) console.warn('[Params] No param specs for model, passing params through:', model.slug)
+
+  for (const [key, raw] of Object.entries(input)) {
+    if (unchecked) {
+      values[key] = raw
+      continue
+    }
+    if (key === 'prompt') {
+      issues.push({ field: key, message: 'Send the prompt on its own, not as a param' })
+      continue
+    }
+
+    const param = params.find(p => p.name === key)
+    if (!param) {
+      issues.push({ field: key, message: `${model.name || model.slug} has no such parameter` })
+      continue
+    }
+    if (param.type === 'image') {
+      issues.push({ field: key, message: 'Set from the attached images - leave it out' })
+      continue
+    }
+    if (raw === undefined || raw === null || raw === '') continue
+
+    const coerced = coerceParam(param, raw)
+    if ('issue' in coerced) issues.push({ field: key, message: coerced.issue })
+    else values[key] = coerced.value
+  }
+
+  if (issues.length > 0) return { success: false, issues }
+
+  // Reference images past the model's limit would fail at the provider (or
+  // be ignored while still billed), so only the first ones are kept
+  let { images, referenceImages } = request
+  const maxReferences = model.orchestrator_spec?.maxReferenceImages
+  if (maxReferences) {
+    if (images?.length) {
+      const references = images.filter(image => image.purpose === 'reference')
+      if (references.length > maxReferences) {
+        const kept = new Set(references.slice(0, maxReferences))
+        images = images.filter(image => image.purpose !== 'reference' || kept.has(image))
+        adjustments.push({
+          field: 'images',
+          message: `${model.name || model.slug} takes up to ${maxReferences} reference images - used the first ${maxReferences} of ${references.length}`,
+        })
+      }
+    } else if (referenceImages && referenceImages.length > maxReferences) {
+      adjustments.push({
+        field: 'referenceImages',
+        message: `${model.name || model.slug} takes up to ${maxReferences} reference images - used the first ${maxReferences} of ${referenceImages.length}`,
+      })
+      referenceImages = referenceImages.slice(0, maxReferences)
+    }
+  }
+
+  return { success: true, params: values, images, referenceImages, adjustments }
+}
+
+// One line for error messages, e.g. "aspect_ratio: Must be one of: 1:1, 16:9"
+export function describeParamIssues(issues: ParamIssue[]): string {
+  return issues.map(issue => `${issue.field}: ${issue.message}`).join('; ')
+}
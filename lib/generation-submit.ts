@@ -0,0 +1,588 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { reserveGenerationCredits, topUpGenerationCredits } from '@/lib/credit-ledger'
+import { quoteGeneration, PriceQuote } from '@/lib/pricing'
+import { getProviderForModel, GenerationProvider, ProviderPrediction } from '@/lib/providers'
+import { markJobSubmitted, failJob } from '@/lib/generation-jobs'
+import { describeParamIssues, ParamIssue, validateGenerationParams } from '@/lib/generation-params'
+import { referenceImageInput } from '@/lib/orchestrator/model-specs'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Generation submission.
+ *
+ * Validates a request's params against the model (lib/generation-params),
+ * prices it, creates the generation row, holds credits, maps images
+ * onto the model's input fields and starts the prediction. Used by
+ * /api/generate and by server-side runners (workflows) that have no request
+ * of their own to forward. Once the prediction exists the job state machine
+ * (lib/generation-jobs) owns the generation and its hold.
+ */
+
+// Image purpose types - must match frontend
+export type ImagePurpose = 'reference' | 'starting_frame' | 'edit_target' | 'last_frame'
+
+export interface ImageWithPurpose {
+  url: string
+  base64?: string      // Base64 encoded image data (for local uploads)
+  mimeType?: string    // MIME type of the image
+  purpose: ImagePurpose
+}
+
+export interface GenerationRequest {
+  model: string
+  prompt: string
+  params?: Record<string, any>
+  referenceImages?: string[] // Legacy support - treated as 'reference' purpose
+  images?: ImageWithPurpose[] // New format with purpose metadata
+  conversationId?: string
+  messageId?: string
+  // Video-specific params
+  duration?: number
+  resolution?: string
+  generateAudio?: boolean // For Veo models - controls audio generation and pricing
+  // Seedream 4.5 sequential generation params
+  sequentialImageGeneration?: 'disabled' | 'auto'
+  maxImages?: number
+  // Set by the workflow runner so finishing the generation advances its run
+  workflowRunId?: string
+}
+
+// Who the generation is billed to; anonymous generations are neither tracked nor billed
+export interface GenerationUser {
+  whopUserId: string
+  profileId: string | null
+}
+
+export type SubmitResult =
+  | {
+      success: true
+      generationId: string | null
+      prediction: ProviderPrediction
+      provider: GenerationProvider
+      studioModel: Record<string, any>
+      quote: PriceQuote
+      // Balance after the hold, when one was taken
+      newBalance?: number
+    }
+  | {
+      success: false
+      error: string
+      code: 'MODEL_NOT_FOUND' | 'INVALID_PARAMS' | 'GENERATION_FAILED' | 'INSUFFICIENT_BALANCE' | 'RESERVATION_FAILED'
+      status: number
+      required?: number
+      available?: number
+      // Field-level problems when code is INVALID_PARAMS
+      issues?: ParamIssue[]
+    }
+
+// Upload base64 image to Supabase storage and return HTTP URL
+// This converts local/blob images to URLs that Replicate can access
+async function uploadBase64ToStorage(
+  base64: string,
+  mimeType: string,
+  userId?: string
+): Promise<string> {
+  try {
+    // Convert base64 to buffer
+    const buffer = Buffer.from(base64, 'base64')
+
+    // Determine extension from mime type
+    const ext = mimeType.includes('png') ? 'png'
+      : mimeType.includes('gif') ? 'gif'
+      : mimeType.includes('webp') ? 'webp'
+      : 'jpg'
+
+    // Generate unique filename
+    const filename = `ref-${Date.now()}-${uuidv4().slice(0, 8)}.${ext}`
+    const path = userId ? `${userId}/references/${filename}` : `anonymous/references/${filename}`
+
+    console.log('[Submit] Uploading base64 image to storage:', path, 'size:', buffer.length)
+
+    // Upload to Supabase storage
+    const { data, error } = await sbAdmin.storage
+      .from('generated-images')
+      .upload(path, buffer, {
+        contentType: mimeType,
+        upsert: false,
+      })
+
+    if (error) {
+      console.error('[Submit] Storage upload error:', error)
+      throw error
+    }
+
+    // Get public URL
+    const { data: urlData } = sbAdmin.storage
+      .from('generated-images')
+      .getPublicUrl(path)
+
+    console.log('[Submit] Uploaded base64 to:', urlData.publicUrl)
+    return urlData.publicUrl
+  } catch (error) {
+    console.error('[Submit] Error uploading base64 to storage:', error)
+    throw error
+  }
+}
+
+// Connection errors raised before a request reaches the provider
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']
+
+/**
+ * Whether a failed createPrediction is safe to send again: the connection
+ * was never made, or the provider answered with a rate limit or server
+ * error. Timeouts and dropped connections may have started a paid
+ * prediction we'd lose track of, so they aren't.
+ */
+function isRetryableSubmitError(error: unknown): boolean {
+  const err = error as { code?: string; cause?: { code?: string }; response?: { status?: number } } | null
+  const status = err?.response?.status
+  if (typeof status === 'number') return status === 429 || status >= 500
+  const code = err?.code || err?.cause?.code
+  return !!code && UNSENT_ERROR_CODES.includes(code)
+}
+
+/**
+ * Submit a generation to its provider. Any failure before the prediction
+ * exists fails the job and releases the hold.
+ *
+ * `heldGenerationId` is for batches (lib/generation-batch), which create the
+ * generation rows and hold their credits up front: submission then skips
+ * straight to the provider for that row, first topping the hold up if the
+ * params it's sent with cost more. Never set it from request input.
+ */
+export async function submitGeneration(
+  user: GenerationUser | null,
+  request: GenerationRequest,
+  options: { heldGenerationId?: string } = {}
+): Promise<SubmitResult> {
+  const { model, prompt, conversationId, messageId, duration, resolution, generateAudio, workflowRunId } = request
+  const whopUserId = user?.whopUserId || null
+  const userProfileId = user?.profileId || null
+  let newBalance: number | undefined
+
+  // Set while credits are held but no prediction owns them yet
+  let heldGenerationId: string | null = null
+
+  try {
+    // Fetch model from database
+    const { data: studioModel, error: modelError } = await sbAdmin
+      .from("studio_models")
+      .select("*")
+      .eq("slug", model)
+      .eq("is_active", true)
+      .maybeSingle()
+
+    if (modelError || !studioModel) {
+      const error = `Model not found: ${model}`
+      if (options.heldGenerationId) {
+        await failJob(options.heldGenerationId, 'failed', error, 'error', 'submit')
+      }
+      return { success: false, error, code: 'MODEL_NOT_FOUND', status: 400 }
+    }
+
+    // === PARAM VALIDATION ===
+    // Bad values are caught here rather than by the provider, after credits are spent
+    const validation = validateGenerationParams(studioModel, request)
+    if (!validation.success) {
+      const error = `Invalid parameters for ${studioModel.name}: ${describeParamIssues(validation.issues)}`
+      console.warn('[Submit]', error)
+      if (options.heldGenerationId) {
+        await failJob(options.heldGenerationId, 'failed', error, 'error', 'submit')
+      }
+      return { success: false, error, code: 'INVALID_PARAMS', status: 400, issues: validation.issues }
+    }
+    const { params, referenceImages, images } = validation
+    for (const adjustment of validation.adjustments) {
+      console.log('[Submit] Adjusted request:', adjustment.field, '-', adjustment.message)
+    }
+
+    // === PRICE QUOTE ===
+    // The quote's max cost is what gets held; Seedream 4.5 sequential mode
+    // multiplies it by the max images requested. Sequential mode can be asked
+    // for with the top-level fields or as the model's own params, so both are
+    // read - the provider input is then set from the quote, never the request
+    const modelInput: Record<string, any> = { ...studioModel.default_parameters, ...params }
+    const sequentialImageGeneration = request.sequentialImageGeneration ?? modelInput.sequential_image_generation
+    const requestedMaxImages = request.maxImages ?? modelInput.max_images
+    const maxImages = requestedMaxImages !== undefined ? Number(requestedMaxImages) : undefined
+    const quote = quoteGeneration(studioModel, {
+      duration,
+      resolution,
+      generateAudio,
+      sequentialImageGeneration,
+      maxImages,
+    })
+    const costCents = quote.unitCostCents
+    const maxPossibleCost = quote.maxCostCents
+    const effectiveDuration = quote.duration
+    const effectiveResolution = quote.resolution
+    const effectiveGenerateAudio = quote.generateAudio ?? generateAudio ?? true
+
+    if (quote.sequentialMode) {
+      console.log(`[Submit] Seedream 4.5 max cost: ${quote.maxImages} images × ${costCents}¢ = ${maxPossibleCost}¢`)
+    }
+
+    // === CREDIT HOLD (lifetime users get a zero-cent hold) ===
+    // Create generation record BEFORE running (status: pending) so the hold can point at it
+    let generationId: string | null = null
+    if (options.heldGenerationId) {
+      generationId = options.heldGenerationId
+      heldGenerationId = generationId
+
+      // The hold was priced before these params were known - whatever they
+      // add is held from the balance before anything runs
+      const { data: held } = await sbAdmin
+        .from("generations")
+        .select("reserved_cents")
+        .eq("id", generationId)
+        .maybeSingle()
+
+      if (maxPossibleCost > (held?.reserved_cents ?? 0)) {
+        const topUp = await topUpGenerationCredits(generationId, maxPossibleCost, {
+          task: studioModel.category === 'video' ? 'Video Generation' : 'Image Generation',
+          metadata: { model, params, pricing_line_items: quote.lineItems },
+        })
+
+        if (!topUp.success) {
+          const error = topUp.error === 'INSUFFICIENT_BALANCE' ? 'Insufficient balance' : 'Failed to reserve credits'
+          await failJob(generationId, 'failed', error, 'error', 'submit')
+
+          if (topUp.error === 'INSUFFICIENT_BALANCE') {
+            return {
+              success: false,
+              error,
+              code: 'INSUFFICIENT_BALANCE',
+              status: 402,
+              required: topUp.required ?? maxPossibleCost,
+              available: topUp.available ?? 0,
+            }
+          }
+          return { success: false, error, code: 'RESERVATION_FAILED', status: 500 }
+        }
+
+        newBalance = topUp.newBalance
+        console.log(`[Submit] Raised hold to ${topUp.heldCents}¢ for generation ${generationId}`)
+      }
+
+      // Settlement prices the run from the row's cost, so it follows the params actually sent
+      await sbAdmin.from("generations").update({ cost_cents: costCents, parameters: params }).eq("id", generationId)
+    } else if (whopUserId) {
+      const { data: genRecord, error: genError } = await sbAdmin
+        .from("generations")
+        .insert({
+          whop_user_id: whopUserId,
+          user_id: userProfileId,
+          model_id: studioModel.id,
+          model_slug: model,
+          model_category: studioModel.category,
+          conversation_id: conversationId || null,
+          message_id: messageId || null,
+          workflow_run_id: workflowRunId || null,
+          prompt,
+          parameters: params,
+          cost_cents: costCents,
+          replicate_status: 'starting',
+        })
+        .select("id")
+        .single()
+
+      if (genError || !genRecord) {
+        console.error('[Submit] Failed to create generation record:', genError)
+        return { success: false, error: 'Failed to create generation', code: 'GENERATION_FAILED', status: 500 }
+      }
+      generationId = genRecord.id as string
+
+      const hold = await reserveGenerationCredits(generationId, maxPossibleCost, {
+        task: studioModel.category === 'video' ? 'Video Generation' : 'Image Generation',
+        metadata: {
+          model,
+          model_name: studioModel.name,
+          prompt,
+          params,
+          category: studioModel.category,
+          pricing_type: studioModel.pricing_type,
+          ...(quote.sequentialMode && {
+            sequential_mode: true,
+            cost_per_image_cents: costCents,
+            max_images_requested: quote.maxImages,
+          }),
+          // Video-specific pricing breakdown
+          ...(quote.pricingType === 'per_second' && {
+            duration: quote.duration,
+            resolution: quote.resolution,
+            cost_per_second_cents: quote.costPerSecondCents,
+            resolution_multiplier: quote.resolutionMultiplier,
+            ...(quote.generateAudio !== undefined && {
+              generate_audio: quote.generateAudio,
+            }),
+          }),
+          pricing_line_items: quote.lineItems,
+        },
+      })
+
+      if (!hold.success) {
+        // Nothing was held - drop the record so it doesn't show up in the library
+        await sbAdmin.from("generations").delete().eq("id", generationId)
+
+        if (hold.error === 'INSUFFICIENT_BALANCE') {
+          return {
+            success: false,
+            error: 'Insufficient balance',
+            code: 'INSUFFICIENT_BALANCE',
+            status: 402,
+            required: hold.required ?? maxPossibleCost,
+            available: hold.available ?? 0,
+          }
+        }
+
+        return { success: false, error: 'Failed to reserve credits', code: 'RESERVATION_FAILED', status: 500 }
+      }
+
+      heldGenerationId = generationId
+      newBalance = hold.newBalance
+      console.log(`[Submit] Held ${hold.heldCents}¢ for generation ${generationId}`)
+    }
+
+    // Build input from model's default parameters merged with user params
+    const input: Record<string, any> = {
+      prompt,
+      ...modelInput,
+    }
+
+    // Handle video-specific parameters
+    if (studioModel.pricing_type === 'per_second') {
+      // Set duration and resolution for video models
+      if (effectiveDuration) input.duration = effectiveDuration
+      if (effectiveResolution) input.resolution = effectiveResolution
+
+      // Set generate_audio for Veo models
+      if (model.startsWith('veo-')) {
+        input.generate_audio = effectiveGenerateAudio
+      }
+    }
+
+    // Handle Seedream 4.5 sequential generation parameters - the run can
+    // return at most as many images as were held for
+    if (model === 'seedream-4.5') {
+      if (quote.sequentialMode) {
+        input.sequential_image_generation = 'auto'
+        input.max_images = quote.maxImages
+      } else {
+        input.sequential_image_generation = 'disabled'
+        delete input.max_images
+      }
+    }
+
+    // Handle images with purpose-aware parameter mapping
+    // Supports both new format (images with purpose) and legacy format (referenceImages)
+    const rawImages: ImageWithPurpose[] = images?.length
+      ? images
+      : referenceImages?.map(url => ({ url, purpose: 'reference' as ImagePurpose })) || []
+
+    // Process images: convert blob/base64 to HTTP URLs that Replicate can access
+    const processedImages: { url: string; purpose: ImagePurpose }[] = []
+
+    console.log('[Submit] Raw images received:', rawImages.length)
+    for (const img of rawImages) {
+      console.log('[Submit] Processing image:', {
+        hasUrl: !!img.url,
+        urlStart: img.url?.slice(0, 60),
+        hasBase64: !!img.base64,
+        purpose: img.purpose
+      })
+
+      let httpUrl = img.url
+
+      // Check if URL is already a valid HTTP URL
+      const isHttpUrl = img.url && (img.url.startsWith('http://') || img.url.startsWith('https://'))
+      console.log('[Submit] isHttpUrl:', isHttpUrl)
+
+      if (isHttpUrl) {
+        // HTTP URLs can be used directly by Replicate (e.g., Skinny Hub images)
+        console.log('[Submit] Using HTTP URL directly:', httpUrl?.slice(0, 80))
+        processedImages.push({ url: httpUrl, purpose: img.purpose })
+      } else if (img.base64) {
+        // Local upload with base64 data - upload to Supabase to get HTTP URL
+        console.log('[Submit] Converting base64 to HTTP URL for image with purpose:', img.purpose)
+        try {
+          httpUrl = await uploadBase64ToStorage(img.base64, img.mimeType || 'image/jpeg', whopUserId || undefined)
+          processedImages.push({ url: httpUrl, purpose: img.purpose })
+        } catch (uploadError) {
+          console.error('[Submit] Failed to upload base64 image:', uploadError)
+        }
+      } else {
+        // Blob URL without base64 - can't use it
+        console.error('[Submit] Skipping blob URL without base64 data:', img.url?.slice(0, 50))
+      }
+    }
+
+    console.log('[Submit] Processed images count:', processedImages.length)
+
+    if (processedImages.length > 0) {
+      // Group images by purpose
+      const byPurpose: Record<ImagePurpose, string[]> = {
+        reference: [],
+        starting_frame: [],
+        edit_target: [],
+        last_frame: [],
+      }
+
+      for (const img of processedImages) {
+        byPurpose[img.purpose].push(img.url)
+      }
+
+      // ===== REFERENCE IMAGES (ingredients, style guides) =====
+      // The model's spec names its reference input; models without one use
+      // the mapping below, based on Replicate's API documentation for each
+      const specReferenceInput = referenceImageInput(studioModel.orchestrator_spec, byPurpose.reference)
+      if (specReferenceInput) {
+        Object.assign(input, specReferenceInput)
+      } else if (byPurpose.reference.length > 0) {
+        // FLUX 2 Pro/Dev: input_images (array, max 8)
+        if (model === 'flux-2-pro' || model === 'flux-2-dev') {
+          input.input_images = byPurpose.reference
+        }
+        // Seedream 4.5: image_input (array, 1-14 images)
+        else if (model === 'seedream-4.5') {
+          input.image_input = byPurpose.reference
+        }
+        // Nano Banana / Nano Banana Pro: image_input (array)
+        else if (model === 'nano-banana' || model === 'nano-banana-pro' || model === 'nano-banana-pro-4k') {
+          input.image_input = byPurpose.reference
+        }
+        // Veo 3.1: reference_images (array, 1-3 images) - for R2V mode
+        else if (model === 'veo-3.1' || model === 'veo-3.1-fast') {
+          input.reference_images = byPurpose.reference
+        }
+        // P-Image-Edit: images (array) - can also be used as reference
+        else if (model === 'p-image-edit') {
+          input.images = byPurpose.reference
+        }
+        // Qwen Image Edit Plus: image (array) - can also be used as reference
+        else if (model === 'qwen-image-edit-plus') {
+          input.image = byPurpose.reference
+        }
+        // Generic fallback
+        else {
+          input.reference_images = byPurpose.reference
+        }
+      }
+
+      // ===== STARTING FRAME (first frame for video generation) =====
+      if (byPurpose.starting_frame.length > 0) {
+        const startFrame = byPurpose.starting_frame[0]
+
+        // Wan 2.5 I2V: image (required, single URI)
+        if (model === 'wan-2.5-i2v') {
+          input.image = startFrame
+        }
+        // Kling V2.5: start_image (single URI) - note: "image" is deprecated
+        else if (model === 'kling-v2.5-turbo-pro') {
+          input.start_image = startFrame
+        }
+        // Hailuo 2.3 (MiniMax): first_frame_image (single URI)
+        else if (model === 'hailuo-2.3') {
+          input.first_frame_image = startFrame
+        }
+        // Veo 3.1: image (single URI) - for I2V mode
+        else if (model === 'veo-3.1' || model === 'veo-3.1-fast') {
+          input.image = startFrame
+        }
+        // Generic fallback for other video models
+        else {
+          input.image = startFrame
+        }
+      }
+
+      // ===== EDIT TARGET (image to modify/edit) =====
+      if (byPurpose.edit_target.length > 0) {
+        // P-Image-Edit: images (array of URIs)
+        // "For editing task, provide the main image as the first image"
+        if (model === 'p-image-edit') {
+          input.images = byPurpose.edit_target
+        }
+        // Qwen Image Edit Plus: image (array of URIs)
+        else if (model === 'qwen-image-edit-plus') {
+          input.image = byPurpose.edit_target
+        }
+        // Generic edit fallback
+        else {
+          input.images = byPurpose.edit_target
+        }
+      }
+
+      // ===== LAST FRAME (end frame for video interpolation) =====
+      if (byPurpose.last_frame.length > 0) {
+        // Veo 3.1: last_frame (single URI) - creates transition between start and end
+        if (model === 'veo-3.1' || model === 'veo-3.1-fast') {
+          input.last_frame = byPurpose.last_frame[0]
+        }
+        // Generic fallback for other models that might support end frames
+        else {
+          input.end_image = byPurpose.last_frame[0]
+        }
+      }
+    }
+
+    // Start the prediction and get the prediction ID immediately
+    // This ensures we can track the generation even if the function times out
+    const provider = getProviderForModel(studioModel)
+
+    console.log('[Submit] Creating prediction on', provider.name, 'for:', studioModel.replicate_model)
+    console.log('[Submit] Full input object:', JSON.stringify(input, null, 2))
+    console.log('[Submit] image_input for seedream:', input.image_input)
+    console.log('[Submit] input_images for flux:', input.input_images)
+    console.log('[Submit] reference_images:', input.reference_images)
+
+    // Webhook URL for the provider to call when prediction completes
+    // This ensures database gets updated even if this function times out
+    const webhookUrl = process.env.NEXT_PUBLIC_APP_URL
+      ? `${process.env.NEXT_PUBLIC_APP_URL}/api/replicate-webhook`
+      : undefined
+    console.log('[Submit] Webhook URL:', webhookUrl || 'not configured')
+
+    // Submit with a few quick retries - transient provider errors shouldn't
+    // cost the user a turn. Creating a prediction isn't idempotent, so only
+    // errors that prove the provider never took the request are retried
+    const SUBMIT_ATTEMPTS = 3
+    let prediction: ProviderPrediction | null = null
+    for (let attempt = 0; attempt < SUBMIT_ATTEMPTS && !prediction; attempt++) {
+      try {
+        prediction = await provider.createPrediction({
+          model: studioModel.replicate_model,
+          input,
+          webhookUrl,
+        })
+      } catch (submitError) {
+        console.error(`[Submit] Submit attempt ${attempt + 1}/${SUBMIT_ATTEMPTS} failed:`, submitError)
+        if (attempt === SUBMIT_ATTEMPTS - 1 || !isRetryableSubmitError(submitError)) throw submitError
+        await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt)))
+      }
+    }
+    if (!prediction) {
+      throw new Error('Failed to submit generation')
+    }
+
+    console.log('[Submit] Prediction created:', prediction.id, 'Status:', prediction.status)
+
+    // queued -> submitted: from here the webhook, poll endpoints and sweeper can finish the job
+    if (generationId) {
+      await markJobSubmitted(generationId, prediction, provider.name)
+      console.log('[Submit] Saved prediction ID to generation:', generationId)
+    }
+
+    return { success: true, generationId, prediction, provider, studioModel, quote, newBalance }
+  } catch (error) {
+    console.error('[Submit] Generation submit error:', error)
+    if (heldGenerationId) {
+      // Never reached the provider - fail the queued job and return the hold
+      await failJob(heldGenerationId, 'failed', error instanceof Error ? error.message : 'Generation failed', 'error', 'submit')
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Generation failed',
+      code: 'GENERATION_FAILED',
+      status: 500,
+    }
+  }
+}
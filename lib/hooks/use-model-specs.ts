@@ -0,0 +1,43 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ModelSpec } from '@/lib/orchestrator/model-specs'
+
+// One request per page load, shared by every component that asks
+let specsRequest: Promise<ModelSpec[]> | null = null
+
+function fetchModelSpecs(): Promise<ModelSpec[]> {
+  if (!specsRequest) {
+    specsRequest = fetch('/api/models')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`Failed to load models (${res.status})`)))
+      .then(data => (data.specs || []) as ModelSpec[])
+      .catch(error => {
+        console.error('[ModelSpecs] Failed to load model specs:', error)
+        // Let the next caller try again
+        specsRequest = null
+        return []
+      })
+  }
+  return specsRequest
+}
+
+/**
+ * Orchestrator specs of the active studio models, from /api/models. Empty
+ * until they've loaded.
+ */
+export function useModelSpecs(): { specs: ModelSpec[]; loading: boolean } {
+  const [specs, setSpecs] = useState<ModelSpec[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchModelSpecs().then(loaded => {
+      if (cancelled) return
+      setSpecs(loaded)
+      setLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [])
+
+  return { specs, loading }
+}
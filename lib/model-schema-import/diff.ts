@@ -0,0 +1,189 @@
+import type { OrchestratorSpec, ParamSpec } from '@/lib/orchestrator/model-specs'
+import type { ImportedModelSchema } from './openapi'
+
+/**
+ * Diffing an imported schema against a model's current fields.
+ *
+ * Every difference is one change the admin can accept or skip. A change
+ * carries the exact value it writes, so applying a set of them is mechanical.
+ * Hand-written param descriptions are kept - they're written for the
+ * orchestrator, Replicate's are written for API users. parameter_schema
+ * entries are merged, so keys only the studio uses (like audio pricing)
+ * survive an import.
+ */
+
+export interface SchemaChange {
+  // Stable id for accept/skip state, e.g. "params.aspect_ratio"
+  id: string
+  field: 'parameter_schema' | 'params' | 'imageInputParam' | 'maxReferenceImages' | 'capabilities'
+  key: string
+  kind: 'added' | 'changed' | 'removed'
+  before?: unknown
+  after?: unknown
+}
+
+// The model fields an import touches, as the admin pages hold them
+export interface ModelSchemaFields {
+  parameterSchema: Record<string, any> | null
+  orchestratorSpec: Record<string, any> | null
+}
+
+// Param fields Replicate is the source of truth for
+const PARAM_FIELDS: (keyof ParamSpec)[] = ['type', 'options', 'default', 'range', 'required']
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function currentParams(spec: Record<string, any> | null): ParamSpec[] {
+  const params = spec?.params
+  return [
+    ...(Array.isArray(params?.required) ? params.required : []),
+    ...(Array.isArray(params?.optional) ? params.optional : []),
+  ].filter((param): param is ParamSpec => !!param && typeof param.name === 'string')
+}
+
+// === DIFF ===
+
+export function diffImportedSchema(current: ModelSchemaFields, imported: ImportedModelSchema): SchemaChange[] {
+  const changes: SchemaChange[] = []
+  const schema = current.parameterSchema || {}
+  const spec = current.orchestratorSpec
+
+  for (const [key, entry] of Object.entries(imported.parameterSchema)) {
+    const before = schema[key]
+    if (!before || typeof before !== 'object') {
+      changes.push({ id: `parameter_schema.${key}`, field: 'parameter_schema', key, kind: 'added', after: entry })
+      continue
+    }
+    const after = { ...before, ...entry }
+    if (!same(before, after)) {
+      changes.push({ id: `parameter_schema.${key}`, field: 'parameter_schema', key, kind: 'changed', before, after })
+    }
+  }
+  for (const key of Object.keys(schema)) {
+    if (!(key in imported.parameterSchema) && !imported.params.required.concat(imported.params.optional).some(p => p.name === key)) {
+      changes.push({ id: `parameter_schema.${key}`, field: 'parameter_schema', key, kind: 'removed', before: schema[key] })
+    }
+  }
+
+  const existing = currentParams(spec)
+  const importedParams = [...imported.params.required, ...imported.params.optional]
+  for (const param of importedParams) {
+    const before = existing.find(p => p.name === param.name)
+    if (!before) {
+      changes.push({ id: `params.${param.name}`, field: 'params', key: param.name, kind: 'added', after: param })
+      continue
+    }
+    if (PARAM_FIELDS.some(field => !same(before[field], param[field]))) {
+      const after: Record<string, any> = { ...before }
+      for (const field of PARAM_FIELDS) {
+        if (param[field] === undefined) delete after[field]
+        else after[field] = param[field]
+      }
+      if (!before.description) after.description = param.description
+      changes.push({ id: `params.${param.name}`, field: 'params', key: param.name, kind: 'changed', before, after })
+    }
+  }
+  for (const param of existing) {
+    if (!importedParams.some(p => p.name === param.name)) {
+      changes.push({ id: `params.${param.name}`, field: 'params', key: param.name, kind: 'removed', before: param })
+    }
+  }
+
+  const imageInputParam = spec?.imageInputParam
+  if (imported.imageInputParam && imported.imageInputParam !== imageInputParam) {
+    changes.push({
+      id: 'imageInputParam',
+      field: 'imageInputParam',
+      key: 'imageInputParam',
+      kind: imageInputParam ? 'changed' : 'added',
+      before: imageInputParam,
+      after: imported.imageInputParam,
+    })
+  } else if (imageInputParam && !importedParams.some(p => p.name === imageInputParam)) {
+    changes.push({ id: 'imageInputParam', field: 'imageInputParam', key: 'imageInputParam', kind: 'removed', before: imageInputParam })
+  }
+
+  // Replicate rarely states a limit, so a missing one isn't a removal
+  const maxReferenceImages = spec?.maxReferenceImages
+  if (imported.maxReferenceImages !== undefined && imported.maxReferenceImages !== maxReferenceImages) {
+    changes.push({
+      id: 'maxReferenceImages',
+      field: 'maxReferenceImages',
+      key: 'maxReferenceImages',
+      kind: maxReferenceImages === undefined ? 'added' : 'changed',
+      before: maxReferenceImages,
+      after: imported.maxReferenceImages,
+    })
+  }
+
+  // Capabilities only ever get switched on - the rest are the admin's call
+  for (const [key, value] of Object.entries(imported.capabilities)) {
+    if (value && !spec?.capabilities?.[key]) {
+      changes.push({ id: `capabilities.${key}`, field: 'capabilities', key, kind: 'added', before: spec?.capabilities?.[key], after: true })
+    }
+  }
+
+  return changes
+}
+
+// === APPLY ===
+
+/**
+ * Apply accepted changes to a model's fields. A model without a spec gets a
+ * draft one of the given type, described with Replicate's description - its
+ * whenToUse is left for the admin to write.
+ */
+export function applySchemaChanges(
+  current: ModelSchemaFields,
+  imported: ImportedModelSchema,
+  accepted: SchemaChange[],
+  type: OrchestratorSpec['type']
+): ModelSchemaFields {
+  const parameterSchema = { ...(current.parameterSchema || {}) }
+  for (const change of accepted) {
+    if (change.field !== 'parameter_schema') continue
+    if (change.kind === 'removed') delete parameterSchema[change.key]
+    else parameterSchema[change.key] = change.after
+  }
+
+  const specChanges = accepted.filter(change => change.field !== 'parameter_schema')
+  if (specChanges.length === 0) {
+    return { parameterSchema, orchestratorSpec: current.orchestratorSpec }
+  }
+
+  const spec: Record<string, any> = current.orchestratorSpec
+    ? { ...current.orchestratorSpec, capabilities: { ...current.orchestratorSpec.capabilities } }
+    : { type, capabilities: {}, params: { required: [], optional: [] }, description: imported.description, whenToUse: '' }
+
+  // Params keep their current order; new ones follow in Replicate's order
+  const params = currentParams(current.orchestratorSpec)
+  for (const change of specChanges) {
+    switch (change.field) {
+      case 'params': {
+        const index = params.findIndex(param => param.name === change.key)
+        if (change.kind === 'removed') {
+          if (index >= 0) params.splice(index, 1)
+        } else if (index >= 0) {
+          params[index] = change.after as ParamSpec
+        } else {
+          params.push(change.after as ParamSpec)
+        }
+        break
+      }
+      case 'capabilities':
+        spec.capabilities[change.key] = change.after
+        break
+      default:
+        if (change.kind === 'removed') delete spec[change.field]
+        else spec[change.field] = change.after
+    }
+  }
+  spec.params = {
+    required: params.filter(param => param.required),
+    optional: params.filter(param => !param.required),
+  }
+
+  return { parameterSchema, orchestratorSpec: spec }
+}
@@ -0,0 +1,186 @@
+import { test, expect } from '@playwright/test'
+import { mapReplicateModel, ImportedModelSchema, ReplicateModelResponse } from './openapi'
+import { applySchemaChanges, diffImportedSchema } from './diff'
+import seedreamFixture from './fixtures/bytedance-seedream-4.5.json'
+import wanI2vFixture from './fixtures/wan-video-wan-2.5-i2v.json'
+
+function importFixture(fixture: ReplicateModelResponse, category: 'image' | 'video'): ImportedModelSchema {
+  const mapped = mapReplicateModel(`${fixture.owner}/${fixture.name}`, fixture, fixture.latest_version, category)
+  if (!mapped.success) throw new Error(mapped.error)
+  return mapped.schema
+}
+
+function paramNamed(schema: ImportedModelSchema, name: string) {
+  return [...schema.params.required, ...schema.params.optional].find(param => param.name === name)
+}
+
+// === MAPPING ===
+
+test.describe('mapReplicateModel', () => {
+  test('maps Seedream 4.5 inputs to ParamSpecs in x-order', () => {
+    const schema = importFixture(seedreamFixture, 'image')
+
+    expect(schema.versionId).toBe('fixture-seedream-4-5')
+    expect(schema.params.required.map(param => param.name)).toEqual(['prompt'])
+    expect(schema.params.optional.map(param => param.name)).toEqual([
+      'image_input', 'size', 'aspect_ratio', 'width', 'height', 'sequential_image_generation', 'max_images',
+    ])
+    expect(paramNamed(schema, 'prompt')).toEqual({
+      name: 'prompt',
+      type: 'string',
+      description: 'Text prompt for image generation',
+      required: true,
+    })
+  })
+
+  test('resolves allOf enum references into options', () => {
+    const aspectRatio = paramNamed(importFixture(seedreamFixture, 'image'), 'aspect_ratio')
+
+    expect(aspectRatio?.type).toBe('enum')
+    expect(aspectRatio?.options).toEqual(['match_input_image', '1:1', '4:3', '3:4', '16:9', '9:16', '3:2', '2:3', '21:9'])
+    expect(aspectRatio?.default).toBe('match_input_image')
+    expect(aspectRatio?.description).not.toBe('An enumeration.')
+  })
+
+  test('maps integers to ranged numbers and arrays of URIs to the reference input', () => {
+    const schema = importFixture(seedreamFixture, 'image')
+
+    expect(paramNamed(schema, 'max_images')).toMatchObject({ type: 'number', default: 1, range: { min: 1, max: 15 } })
+    expect(paramNamed(schema, 'image_input')?.type).toBe('image')
+    expect(paramNamed(schema, 'image_input')?.default).toBeUndefined()
+    expect(schema.imageInputParam).toBe('image_input')
+    expect(schema.maxReferenceImages).toBe(14)
+    expect(schema.capabilities).toEqual({ supportsReferenceImages: true, multipleReferences: true })
+  })
+
+  test('builds parameter_schema entries for everything but the prompt and images', () => {
+    const { parameterSchema } = importFixture(seedreamFixture, 'image')
+
+    expect(Object.keys(parameterSchema)).toEqual([
+      'size', 'aspect_ratio', 'width', 'height', 'sequential_image_generation', 'max_images',
+    ])
+    expect(parameterSchema.size).toEqual({ options: ['2K', '4K', 'custom'], default: '2K' })
+    expect(parameterSchema.width).toEqual({ type: 'integer', default: 2048, min: 1024, max: 4096 })
+  })
+
+  test('treats a video model\'s single image as its starting frame', () => {
+    const schema = importFixture(wanI2vFixture, 'video')
+
+    expect(schema.params.required.map(param => param.name)).toEqual(['image', 'prompt'])
+    expect(paramNamed(schema, 'image')).toMatchObject({ type: 'image', required: true })
+    expect(schema.imageInputParam).toBe('image')
+    expect(schema.maxReferenceImages).toBeUndefined()
+    expect(schema.capabilities).toEqual({ supportsStartingFrame: true })
+  })
+
+  test('keeps numeric enum options, skips empty defaults and leaves audio files as strings', () => {
+    const schema = importFixture(wanI2vFixture, 'video')
+
+    expect(paramNamed(schema, 'duration')).toMatchObject({ type: 'enum', options: [5, 10], default: 5 })
+    expect(paramNamed(schema, 'negative_prompt')?.default).toBeUndefined()
+    expect(paramNamed(schema, 'audio')?.type).toBe('string')
+    expect(paramNamed(schema, 'seed')).toMatchObject({ type: 'number' })
+    expect(paramNamed(schema, 'seed')?.range).toBeUndefined()
+    expect(schema.parameterSchema.duration).toEqual({ options: [5, 10], default: 5 })
+  })
+
+  test('fails when the version has no input schema', () => {
+    const mapped = mapReplicateModel('owner/model', {}, { id: 'v1', openapi_schema: null }, 'image')
+    expect(mapped).toEqual({ success: false, error: 'owner/model has no published input schema' })
+  })
+})
+
+// === DIFF ===
+
+test.describe('diffImportedSchema', () => {
+  test('adds everything to a model with no schema or spec, and applies as a draft spec', () => {
+    const imported = importFixture(wanI2vFixture, 'video')
+    const empty = { parameterSchema: null, orchestratorSpec: null }
+    const changes = diffImportedSchema(empty, imported)
+
+    expect(changes.every(change => change.kind === 'added')).toBe(true)
+    expect(changes.map(change => change.id)).toContain('params.duration')
+    expect(changes.map(change => change.id)).toContain('imageInputParam')
+    expect(changes.map(change => change.id)).toContain('capabilities.supportsStartingFrame')
+
+    const applied = applySchemaChanges(empty, imported, changes, 'video')
+    expect(applied.orchestratorSpec).toMatchObject({
+      type: 'video',
+      description: 'Alibaba Wan 2.5 image to video generation with background audio',
+      whenToUse: '',
+      imageInputParam: 'image',
+      capabilities: { supportsStartingFrame: true },
+    })
+    expect(applied.orchestratorSpec?.params.required.map((param: { name: string }) => param.name)).toEqual(['image', 'prompt'])
+    expect(diffImportedSchema(applied, imported)).toEqual([])
+  })
+
+  test('keeps hand-written descriptions and pricing keys while updating what Replicate owns', () => {
+    const imported = importFixture(wanI2vFixture, 'video')
+    const current = {
+      parameterSchema: {
+        duration: { options: [5, 10], default: 5 },
+        generate_audio: { default: true, pricing: { with_audio_cents_per_second: 10 } },
+        resolution: { options: ['480p', '720p'], default: '720p', note: 'studio only' },
+      },
+      orchestratorSpec: {
+        type: 'video',
+        capabilities: { supportsStartingFrame: true, textRendering: true },
+        imageInputParam: 'image',
+        params: {
+          required: [{ name: 'prompt', type: 'string', description: 'What happens in the clip', required: true }],
+          optional: [
+            { name: 'duration', type: 'enum', description: 'Clip length', options: ['5', '10'], default: '5' },
+            { name: 'camera_motion', type: 'string', description: 'No longer accepted' },
+          ],
+        },
+        description: 'Alibaba image-to-video',
+        whenToUse: 'Animate a starting frame',
+      },
+    }
+    const changes = diffImportedSchema(current, imported)
+    const byId = new Map(changes.map(change => [change.id, change]))
+
+    expect(byId.has('parameter_schema.duration')).toBe(false)
+    expect(byId.get('parameter_schema.resolution')).toMatchObject({
+      kind: 'changed',
+      after: { options: ['480p', '720p', '1080p'], default: '720p', note: 'studio only' },
+    })
+    expect(byId.get('parameter_schema.generate_audio')?.kind).toBe('removed')
+    expect(byId.get('params.duration')).toMatchObject({
+      kind: 'changed',
+      after: { name: 'duration', type: 'enum', description: 'Clip length', options: [5, 10], default: 5 },
+    })
+    expect(byId.get('params.camera_motion')?.kind).toBe('removed')
+    expect(byId.get('params.image')?.kind).toBe('added')
+    expect(byId.has('params.prompt')).toBe(false)
+    expect(byId.has('imageInputParam')).toBe(false)
+    expect(changes.some(change => change.field === 'capabilities')).toBe(false)
+  })
+
+  test('applies only the accepted changes', () => {
+    const imported = importFixture(seedreamFixture, 'image')
+    const current = {
+      parameterSchema: null,
+      orchestratorSpec: {
+        type: 'text-to-image',
+        capabilities: { textRendering: true },
+        params: { required: [], optional: [{ name: 'legacy', type: 'string', description: 'Old input' }] },
+        description: 'ByteDance image model',
+        whenToUse: 'High resolution work',
+      },
+    }
+    const changes = diffImportedSchema(current, imported)
+    const accepted = changes.filter(change => change.id === 'params.size' || change.id === 'maxReferenceImages')
+    const applied = applySchemaChanges(current, imported, accepted, 'text-to-image')
+
+    expect(applied.parameterSchema).toEqual({})
+    expect(applied.orchestratorSpec).toMatchObject({
+      description: 'ByteDance image model',
+      maxReferenceImages: 14,
+      capabilities: { textRendering: true },
+    })
+    expect(applied.orchestratorSpec?.imageInputParam).toBeUndefined()
+    expect(applied.orchestratorSpec?.params.optional.map((param: { name: string }) => param.name)).toEqual(['legacy', 'size'])
+  })
+})
@@ -0,0 +1,107 @@
+import Replicate from 'replicate'
+import { mapReplicateModel, ImportedModelSchema, ReplicateModelResponse, ReplicateVersionResponse } from './openapi'
+import seedreamFixture from './fixtures/bytedance-seedream-4.5.json'
+import wanI2vFixture from './fixtures/wan-video-wan-2.5-i2v.json'
+
+export * from './openapi'
+export * from './diff'
+
+/**
+ * Model schema import for the admin model editor.
+ *
+ * Reads a Replicate model's input schema - the latest version, or the one
+ * pinned as "owner/name:version" - and maps it onto studio_models fields.
+ * MODEL_SCHEMA_SOURCE=fixture (or GENERATION_PROVIDER=mock) reads the
+ * bundled fixtures instead, so the importer works offline.
+ */
+
+export type SchemaSourceName = 'replicate' | 'fixture'
+
+export type SchemaImportResult =
+  | { success: true; schema: ImportedModelSchema; source: SchemaSourceName }
+  | { success: false; error: string; code: 'INVALID_MODEL' | 'MODEL_NOT_FOUND' | 'NO_INPUT_SCHEMA' | 'IMPORT_FAILED' }
+
+// Replicate model responses, keyed by "owner/name"
+const FIXTURES: Record<string, ReplicateModelResponse> = {
+  'bytedance/seedream-4.5': seedreamFixture,
+  'wan-video/wan-2.5-i2v': wanI2vFixture,
+}
+
+export function getSchemaSourceName(): SchemaSourceName {
+  return process.env.MODEL_SCHEMA_SOURCE === 'fixture' || process.env.GENERATION_PROVIDER === 'mock'
+    ? 'fixture'
+    : 'replicate'
+}
+
+async function fetchFromReplicate(
+  owner: string,
+  name: string,
+  versionId?: string
+): Promise<{ model: ReplicateModelResponse; version: ReplicateVersionResponse | null } | null> {
+  const auth = process.env.REPLICATE_API_TOKEN
+  if (!auth) {
+    throw new Error('REPLICATE_API_TOKEN is not set')
+  }
+  const client = new Replicate({ auth })
+
+  try {
+    const model = await client.models.get(owner, name)
+    const version = versionId
+      ? await client.models.versions.get(owner, name, versionId)
+      : model.latest_version
+    return {
+      model,
+      version: version ? { id: version.id, openapi_schema: version.openapi_schema as Record<string, any> | null } : null,
+    }
+  } catch (error: any) {
+    if (error?.response?.status === 404) return null
+    throw error
+  }
+}
+
+export async function importModelSchema(
+  replicateModel: string,
+  category: 'image' | 'video'
+): Promise<SchemaImportResult> {
+  const [ref, versionId] = replicateModel.trim().split(':')
+  const [owner, name, ...rest] = (ref || '').split('/')
+  if (!owner || !name || rest.length > 0) {
+    return { success: false, error: 'Replicate model must look like owner/name or owner/name:version', code: 'INVALID_MODEL' }
+  }
+
+  const source = getSchemaSourceName()
+  try {
+    let found: { model: ReplicateModelResponse; version?: ReplicateVersionResponse | null } | null
+    if (source === 'fixture') {
+      const fixture = FIXTURES[`${owner}/${name}`]
+      found = fixture ? { model: fixture, version: fixture.latest_version } : null
+      if (!found) {
+        return {
+          success: false,
+          error: `No schema fixture for ${owner}/${name} - fixtures exist for ${Object.keys(FIXTURES).join(', ')}`,
+          code: 'MODEL_NOT_FOUND',
+        }
+      }
+    } else {
+      found = await fetchFromReplicate(owner, name, versionId)
+      if (!found) {
+        return { success: false, error: `Replicate has no model ${replicateModel}`, code: 'MODEL_NOT_FOUND' }
+      }
+    }
+
+    const mapped = mapReplicateModel(replicateModel.trim(), found.model, found.version, category)
+    if (!mapped.success) {
+      return { success: false, error: mapped.error, code: 'NO_INPUT_SCHEMA' }
+    }
+
+    console.log('[SchemaImport] Imported schema:', replicateModel, 'from', source)
+    return { success: true, schema: mapped.schema, source }
+  } catch (error) {
+    console.error('[SchemaImport] Failed to import schema:', replicateModel, error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read the model schema',
+      code: 'IMPORT_FAILED',
+    }
+  }
+}
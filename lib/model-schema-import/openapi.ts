@@ -0,0 +1,192 @@
+import type { OrchestratorSpec, ParamSpec } from '@/lib/orchestrator/model-specs'
+
+/**
+ * Maps a Replicate model version's OpenAPI schema onto studio_models fields.
+ *
+ * Replicate describes a version's inputs as the `Input` component of its
+ * OpenAPI document. Each property becomes a ParamSpec and, unless it's the
+ * prompt or an image, a parameter_schema entry. Enums are usually `allOf`
+ * references to their own component, so those are resolved first. URI inputs
+ * are images (an array of them is the reference image input), except for
+ * audio and video files, which stay plain strings.
+ */
+
+// The parts of a JSON Schema property the importer reads
+export interface SchemaProperty {
+  type?: string
+  format?: string
+  enum?: unknown[]
+  allOf?: SchemaProperty[]
+  anyOf?: SchemaProperty[]
+  $ref?: string
+  items?: SchemaProperty
+  default?: unknown
+  minimum?: number
+  maximum?: number
+  maxItems?: number
+  description?: string
+  title?: string
+  'x-order'?: number
+}
+
+// A model as Replicate's models API returns it, trimmed to what's read
+export interface ReplicateModelResponse {
+  owner?: string
+  name?: string
+  description?: string | null
+  latest_version?: ReplicateVersionResponse | null
+}
+
+export interface ReplicateVersionResponse {
+  id: string
+  openapi_schema: Record<string, any> | null
+}
+
+export interface ImportedModelSchema {
+  replicateModel: string
+  versionId: string | null
+  // Replicate's description of the model - a starting point for new specs
+  description: string
+  parameterSchema: Record<string, Record<string, any>>
+  params: {
+    required: ParamSpec[]
+    optional: ParamSpec[]
+  }
+  imageInputParam?: string
+  maxReferenceImages?: number
+  capabilities: OrchestratorSpec['capabilities']
+}
+
+// URI inputs with these names take files the studio doesn't attach as images
+const NON_IMAGE_URI = /audio|video|voice|music|sound/i
+// Single image inputs that are the end frame of a video
+const LAST_FRAME_PARAM = /last_frame|last_image|end_frame|end_image|tail_image/i
+
+// === RESOLVING ===
+
+function resolveProperty(
+  property: SchemaProperty,
+  components: Record<string, SchemaProperty>,
+  depth = 0
+): SchemaProperty {
+  const { $ref, allOf, anyOf, ...own } = property
+  const target = $ref ? components[$ref.split('/').pop() || ''] : undefined
+  const inner = target ?? allOf?.[0] ?? anyOf?.find(option => option.type !== 'null')
+  if (!inner || depth > 4) return property
+
+  const resolved = resolveProperty(inner, components, depth + 1)
+  // Enum components all say "An enumeration." - the property's own text is the useful one
+  const description = own.description ?? (resolved.description === 'An enumeration.' ? undefined : resolved.description)
+  return { ...resolved, ...own, ...(description !== undefined && { description }) }
+}
+
+function isUri(property?: SchemaProperty): boolean {
+  return property?.type === 'string' && property.format === 'uri'
+}
+
+// === MAPPING ===
+
+function toParamSpec(name: string, property: SchemaProperty, required: boolean): ParamSpec {
+  const isImage = (isUri(property) || (property.type === 'array' && isUri(property.items)))
+    && !NON_IMAGE_URI.test(name)
+  const type: ParamSpec['type'] = isImage ? 'image'
+    : Array.isArray(property.enum) ? 'enum'
+    : property.type === 'integer' || property.type === 'number' ? 'number'
+    : property.type === 'boolean' ? 'boolean'
+    : 'string'
+  // Cog gives unset inputs empty defaults - those aren't worth showing the orchestrator
+  const hasDefault = property.default !== undefined && property.default !== null && property.default !== ''
+    && !(Array.isArray(property.default) && property.default.length === 0)
+
+  return {
+    name,
+    type,
+    description: (property.description || property.title || name).trim(),
+    ...(type === 'enum' && { options: property.enum as string[] }),
+    ...(hasDefault && type !== 'image' && { default: property.default }),
+    ...(type === 'number' && typeof property.minimum === 'number' && typeof property.maximum === 'number' && {
+      range: { min: property.minimum, max: property.maximum },
+    }),
+    ...(required && { required: true }),
+  }
+}
+
+// The parameter_schema entry for a param, in the shape pricing already reads
+function toSchemaEntry(param: ParamSpec, property: SchemaProperty): Record<string, any> {
+  return {
+    ...(param.type === 'enum' ? { options: param.options } : { type: property.type || 'string' }),
+    ...(param.default !== undefined && { default: param.default }),
+    ...(param.range && { min: param.range.min, max: param.range.max }),
+  }
+}
+
+/**
+ * Map a Replicate model (or one of its versions) onto studio_models fields.
+ * `category` decides what a single image input is for - a video's starting
+ * frame or an image model's reference.
+ */
+export function mapReplicateModel(
+  replicateModel: string,
+  model: ReplicateModelResponse,
+  version: ReplicateVersionResponse | null | undefined,
+  category: 'image' | 'video'
+): { success: true; schema: ImportedModelSchema } | { success: false; error: string } {
+  const components: Record<string, any> = version?.openapi_schema?.components?.schemas || {}
+  const input = components.Input
+  if (!input?.properties || typeof input.properties !== 'object') {
+    return { success: false, error: `${replicateModel} has no published input schema` }
+  }
+
+  const requiredNames: string[] = Array.isArray(input.required) ? input.required : []
+  const properties = Object.entries(input.properties as Record<string, SchemaProperty>)
+    .map(([name, property]) => ({ name, property: resolveProperty(property, components) }))
+    .sort((a, b) => (a.property['x-order'] ?? 0) - (b.property['x-order'] ?? 0))
+
+  const parameterSchema: Record<string, Record<string, any>> = {}
+  const required: ParamSpec[] = []
+  const optional: ParamSpec[] = []
+  const capabilities: OrchestratorSpec['capabilities'] = {}
+  let referenceParam: { name: string; maxItems?: number } | undefined
+  let startFrameParam: string | undefined
+
+  for (const { name, property } of properties) {
+    const param = toParamSpec(name, property, requiredNames.includes(name))
+    ;(param.required ? required : optional).push(param)
+
+    if (param.type !== 'image') {
+      if (name !== 'prompt') parameterSchema[name] = toSchemaEntry(param, property)
+      continue
+    }
+
+    if (property.type === 'array') {
+      referenceParam ??= { name, maxItems: property.maxItems }
+    } else if (LAST_FRAME_PARAM.test(name)) {
+      capabilities.supportsLastFrame = true
+    } else {
+      startFrameParam ??= name
+    }
+  }
+
+  if (referenceParam) {
+    capabilities.supportsReferenceImages = true
+    if (referenceParam.maxItems === undefined || referenceParam.maxItems > 1) capabilities.multipleReferences = true
+  }
+  if (startFrameParam) {
+    if (category === 'video') capabilities.supportsStartingFrame = true
+    else capabilities.supportsReferenceImages = true
+  }
+
+  return {
+    success: true,
+    schema: {
+      replicateModel,
+      versionId: version?.id || null,
+      description: (model.description || '').trim(),
+      parameterSchema,
+      params: { required, optional },
+      imageInputParam: referenceParam?.name ?? startFrameParam,
+      ...(referenceParam?.maxItems !== undefined && { maxReferenceImages: referenceParam.maxItems }),
+      capabilities,
+    },
+  }
+}
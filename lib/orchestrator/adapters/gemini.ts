@@ -0,0 +1,136 @@
+import { EnhancedGenerateContentResponse, GoogleGenerativeAI, Part } from '@google/generative-ai'
+import {
+  OrchestratorAdapter,
+  OrchestratorChat,
+  OrchestratorPart,
+  OrchestratorTurn,
+  StartChatOptions,
+  TokenPricing,
+} from './types'
+import { tokenCostCents } from './pricing'
+
+const DEFAULT_MODEL = 'gemini-2.5-flash'
+
+// Supported model IDs
+const SUPPORTED_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.0-flash',
+  'gemini-2.0-flash-lite',
+  'gemma-3-27b-it',
+  'gemma-3-12b-it',
+]
+
+// Models that support vision/image input
+const VISION_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.0-flash',
+]
+
+// Models that support function calling; the rest still get the fenced-block
+// format in their system prompt
+const TOOL_CALLING_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.0-flash',
+  'gemini-2.0-flash-lite',
+]
+
+// Gemini model pricing (per 1M tokens in USD)
+// Source: https://ai.google.dev/pricing
+export const GEMINI_PRICING: Record<string, TokenPricing> = {
+  // Flash models (fast, cost-effective)
+  'gemini-2.5-flash': { input: 0.075, output: 0.30 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+
+  // Pro models (higher capability)
+  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+  'gemini-2.0-pro': { input: 1.25, output: 5.00 },
+}
+
+// Default pricing for unknown models (use flash pricing as fallback)
+const DEFAULT_PRICING: TokenPricing = { input: 0.075, output: 0.30 }
+
+function toGeminiParts(parts: OrchestratorPart[]): Part[] {
+  return parts.map(part => part.type === 'text'
+    ? { text: part.text }
+    : { inlineData: { data: part.data, mimeType: part.mimeType } }
+  )
+}
+
+// Wrap the SDK's stream result so text, calls and usage come out provider-neutral
+function toTurn(pending: Promise<{ stream: AsyncGenerator<EnhancedGenerateContentResponse>; response: Promise<EnhancedGenerateContentResponse> }>): OrchestratorTurn {
+  async function* stream() {
+    const { stream } = await pending
+    for await (const chunk of stream) {
+      const text = chunk.text()
+      if (text) yield text
+    }
+  }
+
+  return {
+    stream: stream(),
+    result: async () => {
+      const response = await (await pending).response
+      const usage = response.usageMetadata
+      return {
+        toolCalls: (response.functionCalls() || []).map(call => ({
+          name: call.name,
+          args: call.args as Record<string, unknown>,
+        })),
+        usage: usage ? {
+          promptTokens: usage.promptTokenCount || 0,
+          responseTokens: usage.candidatesTokenCount || 0,
+          totalTokens: usage.totalTokenCount || 0,
+        } : null,
+      }
+    },
+  }
+}
+
+export function createGeminiAdapter(apiKey: string): OrchestratorAdapter {
+  const genAI = new GoogleGenerativeAI(apiKey)
+
+  return {
+    backend: 'gemini',
+
+    resolveModel(requested) {
+      return requested && SUPPORTED_MODELS.includes(requested) ? requested : DEFAULT_MODEL
+    },
+
+    supportsVision(model) {
+      return VISION_MODELS.includes(model)
+    },
+
+    supportsTools(model) {
+      return TOOL_CALLING_MODELS.includes(model)
+    },
+
+    startChat({ model, systemPrompt, history, tools }: StartChatOptions): OrchestratorChat {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        systemInstruction: systemPrompt,
+        ...(tools.length > 0 && { tools: [{ functionDeclarations: tools }] }),
+      })
+
+      const chat = generativeModel.startChat({
+        history: history.map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: toGeminiParts(message.parts),
+        })),
+      })
+
+      return {
+        sendMessage: (parts) => toTurn(chat.sendMessageStream(toGeminiParts(parts))),
+        sendToolResults: (results) => toTurn(chat.sendMessageStream(
+          results.map(({ call, response }) => ({ functionResponse: { name: call.name, response } }))
+        )),
+      }
+    },
+
+    estimateCostCents(model, usage) {
+      return tokenCostCents(GEMINI_PRICING[model] || DEFAULT_PRICING, usage)
+    },
+  }
+}
@@ -0,0 +1,35 @@
+import { getEffectiveGeminiApiKey, getPlatformSettings, usesOpenAICompatibleBackend } from '@/lib/platform-settings'
+import { OrchestratorAdapter } from './types'
+import { createGeminiAdapter } from './gemini'
+import { createOpenAICompatibleAdapter } from './openai-compatible'
+
+export * from './types'
+
+/**
+ * Orchestrator adapter registry.
+ *
+ * Admins pick the backend in platform_settings. Gemini is the default and
+ * takes its key from the platform, the user or GOOGLE_AI_API_KEY, in that
+ * order; an OpenAI-compatible server is configured entirely by the admin and
+ * serves every user once platform orchestration is on.
+ */
+export async function getOrchestratorAdapter(userApiKey?: string): Promise<OrchestratorAdapter> {
+  const settings = await getPlatformSettings()
+
+  if (usesOpenAICompatibleBackend(settings)) {
+    const hasPricing = settings.openai_input_cost_per_million != null || settings.openai_output_cost_per_million != null
+    return createOpenAICompatibleAdapter({
+      baseUrl: settings.openai_base_url!,
+      apiKey: settings.openai_api_key,
+      model: settings.openai_model!,
+      supportsVision: !!settings.openai_supports_vision,
+      supportsTools: !!settings.openai_supports_tools,
+      pricing: hasPricing
+        ? { input: settings.openai_input_cost_per_million || 0, output: settings.openai_output_cost_per_million || 0 }
+        : undefined,
+    })
+  }
+
+  // Throws when no key is available anywhere
+  return createGeminiAdapter(await getEffectiveGeminiApiKey(userApiKey))
+}
@@ -0,0 +1,257 @@
+import { FunctionDeclaration, Schema } from '@google/generative-ai'
+import {
+  OrchestratorAdapter,
+  OrchestratorChat,
+  OrchestratorPart,
+  OrchestratorToolCall,
+  OrchestratorTurn,
+  OrchestratorUsage,
+  StartChatOptions,
+  TokenPricing,
+} from './types'
+import { tokenCostCents } from './pricing'
+
+/**
+ * Chat Completions adapter for OpenAI-compatible servers - a local llama.cpp
+ * (`llama-server`) or Ollama endpoint, or any hosted API speaking the same
+ * protocol. The server serves one configured model, so requests for a
+ * particular Gemini model are ignored.
+ */
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string  // Up to and including /v1, e.g. http://localhost:11434/v1
+  apiKey?: string | null  // Local servers usually don't check it
+  model: string
+  supportsVision: boolean
+  supportsTools: boolean
+  pricing?: TokenPricing  // Defaults to free, as for a self-hosted model
+}
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
+interface WireToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+type WireMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | ContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: WireToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string }
+
+// Gemini's schema subset maps onto JSON Schema almost directly; only the
+// enum format marker has no counterpart
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const { format, ...rest } = schema as Schema & { format?: string; properties?: Record<string, Schema>; items?: Schema }
+  const json: Record<string, unknown> = { ...rest }
+  if (format && format !== 'enum') json.format = format
+  if ('properties' in rest && rest.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(rest.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    )
+  }
+  if ('items' in rest && rest.items) json.items = toJsonSchema(rest.items)
+  return json
+}
+
+function toWireTools(tools: FunctionDeclaration[]) {
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters ? toJsonSchema(tool.parameters as Schema) : { type: 'object', properties: {} },
+    },
+  }))
+}
+
+// Plain text when there are no images keeps text-only servers happy
+function toWireContent(parts: OrchestratorPart[]): string | ContentPart[] {
+  if (parts.every(part => part.type === 'text')) {
+    return parts.map(part => part.type === 'text' ? part.text : '').join('')
+  }
+  return parts.map((part): ContentPart => part.type === 'text'
+    ? { type: 'text', text: part.text }
+    : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+  )
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  if (!raw.trim()) return {}
+  try {
+    const parsed = JSON.parse(raw)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    // Malformed arguments come back from validation as missing fields
+    console.warn('[Orchestrator] Tool call arguments are not valid JSON:', raw.slice(0, 200))
+    return {}
+  }
+}
+
+export function createOpenAICompatibleAdapter(config: OpenAICompatibleConfig): OrchestratorAdapter {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  return {
+    backend: 'openai-compatible',
+
+    resolveModel() {
+      return config.model
+    },
+
+    supportsVision() {
+      return config.supportsVision
+    },
+
+    supportsTools() {
+      return config.supportsTools
+    },
+
+    startChat({ model, systemPrompt, history, tools }: StartChatOptions): OrchestratorChat {
+      const messages: WireMessage[] = [
+        { role: 'system', content: systemPrompt },
+        ...history.map((message): WireMessage => message.role === 'assistant'
+          ? { role: 'assistant', content: toWireContent(message.parts.filter(part => part.type === 'text')) as string }
+          : { role: 'user', content: toWireContent(message.parts) }
+        ),
+      ]
+      const wireTools = config.supportsTools && tools.length > 0 ? toWireTools(tools) : undefined
+
+      // Stream one completion over the conversation so far, then record the
+      // assistant's reply so the next turn sees it
+      const complete = (): OrchestratorTurn => {
+        let content = ''
+        let usage: OrchestratorUsage | null = null
+        const calls: Array<{ id: string; name: string; arguments: string }> = []
+        let finished: () => void = () => {}
+        let failed: (error: unknown) => void = () => {}
+        const done = new Promise<void>((resolve, reject) => { finished = resolve; failed = reject })
+        // Errors surface through the stream; keep the settle-only promise quiet
+        done.catch(() => {})
+
+        async function* stream() {
+          try {
+            const response = await fetch(endpoint, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+              },
+              body: JSON.stringify({
+                model,
+                messages,
+                stream: true,
+                stream_options: { include_usage: true },
+                ...(wireTools && { tools: wireTools }),
+              }),
+            })
+
+            if (!response.ok || !response.body) {
+              const detail = await response.text().catch(() => '')
+              throw new Error(`OpenAI-compatible server returned ${response.status}: ${detail.slice(0, 300)}`)
+            }
+
+            const reader = response.body.getReader()
+            const decoder = new TextDecoder()
+            let buffer = ''
+
+            while (true) {
+              const { done: streamDone, value } = await reader.read()
+              if (streamDone) break
+
+              buffer += decoder.decode(value, { stream: true })
+              const lines = buffer.split('\n')
+              buffer = lines.pop() || ''
+
+              for (const line of lines) {
+                if (!line.startsWith('data: ')) continue
+                const data = line.slice(6).trim()
+                if (data === '[DONE]') continue
+
+                let chunk: any
+                try {
+                  chunk = JSON.parse(data)
+                } catch {
+                  continue
+                }
+
+                if (chunk.usage) {
+                  usage = {
+                    promptTokens: chunk.usage.prompt_tokens || 0,
+                    responseTokens: chunk.usage.completion_tokens || 0,
+                    totalTokens: chunk.usage.total_tokens || 0,
+                  }
+                }
+
+                const delta = chunk.choices?.[0]?.delta
+                if (!delta) continue
+
+                // Tool calls arrive in fragments keyed by index
+                for (const fragment of delta.tool_calls || []) {
+                  const index = fragment.index ?? calls.length
+                  calls[index] ??= { id: fragment.id || `call_${index}`, name: '', arguments: '' }
+                  if (fragment.id) calls[index].id = fragment.id
+                  if (fragment.function?.name) calls[index].name += fragment.function.name
+                  if (fragment.function?.arguments) calls[index].arguments += fragment.function.arguments
+                }
+
+                if (delta.content) {
+                  content += delta.content
+                  yield delta.content as string
+                }
+              }
+            }
+
+            const toolCalls = calls.filter(call => call?.name)
+            messages.push({
+              role: 'assistant',
+              content: content || null,
+              ...(toolCalls.length > 0 && {
+                tool_calls: toolCalls.map(call => ({
+                  id: call.id,
+                  type: 'function' as const,
+                  function: { name: call.name, arguments: call.arguments },
+                })),
+              }),
+            })
+            finished()
+          } catch (error) {
+            failed(error)
+            throw error
+          }
+        }
+
+        return {
+          stream: stream(),
+          result: async () => {
+            await done
+            const toolCalls: OrchestratorToolCall[] = calls
+              .filter(call => call?.name)
+              .map(call => ({ id: call.id, name: call.name, args: parseArguments(call.arguments) }))
+            return { toolCalls, usage }
+          },
+        }
+      }
+
+      return {
+        sendMessage(parts) {
+          messages.push({ role: 'user', content: toWireContent(parts) })
+          return complete()
+        },
+        sendToolResults(results) {
+          for (const { call, response } of results) {
+            messages.push({ role: 'tool', tool_call_id: call.id || call.name, content: JSON.stringify(response) })
+          }
+          return complete()
+        },
+      }
+    },
+
+    estimateCostCents(_model, usage) {
+      return config.pricing ? tokenCostCents(config.pricing, usage) : 0
+    },
+  }
+}
@@ -0,0 +1,8 @@
+import { OrchestratorUsage, TokenPricing } from './types'
+
+// Estimated cost in cents (USD) of a turn's tokens
+export function tokenCostCents(pricing: TokenPricing, usage: OrchestratorUsage): number {
+  const inputCostUsd = (usage.promptTokens / 1_000_000) * pricing.input
+  const outputCostUsd = (usage.responseTokens / 1_000_000) * pricing.output
+  return (inputCostUsd + outputCostUsd) * 100
+}
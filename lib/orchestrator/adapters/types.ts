@@ -0,0 +1,79 @@
+import { FunctionDeclaration } from '@google/generative-ai'
+
+// ============================================
+// Orchestrator Adapter Types
+// ============================================
+
+export type OrchestratorBackend = 'gemini' | 'openai-compatible'
+
+// Provider-neutral message content. Images are inline base64 - URLs without
+// data only reach the model as text context
+export type OrchestratorPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+
+export interface OrchestratorMessage {
+  role: 'user' | 'assistant'
+  parts: OrchestratorPart[]
+}
+
+export interface OrchestratorToolCall {
+  // OpenAI-style call id; Gemini matches responses by name alone
+  id?: string
+  name: string
+  args: Record<string, unknown>
+}
+
+export interface OrchestratorToolResult {
+  call: OrchestratorToolCall
+  response: Record<string, unknown>
+}
+
+export interface OrchestratorUsage {
+  promptTokens: number
+  responseTokens: number
+  totalTokens: number
+}
+
+export interface OrchestratorTurnResult {
+  toolCalls: OrchestratorToolCall[]
+  usage: OrchestratorUsage | null
+}
+
+// One model reply. Drain `stream` first; `result` settles once it's done
+export interface OrchestratorTurn {
+  stream: AsyncIterable<string>
+  result(): Promise<OrchestratorTurnResult>
+}
+
+// A conversation with the model that keeps its own history between turns
+export interface OrchestratorChat {
+  sendMessage(parts: OrchestratorPart[]): OrchestratorTurn
+  // Answer the previous turn's tool calls so the model can carry on
+  sendToolResults(results: OrchestratorToolResult[]): OrchestratorTurn
+}
+
+export interface StartChatOptions {
+  model: string
+  systemPrompt: string
+  history: OrchestratorMessage[]
+  // Declared in Gemini's schema subset (see tools.ts); other adapters translate them
+  tools: FunctionDeclaration[]
+}
+
+// USD per 1M tokens
+export interface TokenPricing {
+  input: number
+  output: number
+}
+
+export interface OrchestratorAdapter {
+  backend: OrchestratorBackend
+  // The model a request actually runs on - unknown ids fall back to the adapter's default
+  resolveModel(requested?: string): string
+  supportsVision(model: string): boolean
+  supportsTools(model: string): boolean
+  startChat(options: StartChatOptions): OrchestratorChat
+  // Estimated spend for a turn, in cents
+  estimateCostCents(model: string, usage: OrchestratorUsage): number
+}
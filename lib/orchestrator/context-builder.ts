@@ -0,0 +1,187 @@
+import { OrchestratorAdapter } from './adapters/types'
+
+/**
+ * Context builder for orchestrator chats.
+ *
+ * Long sessions can't resend everything every turn. Messages that a stored
+ * rolling summary already covers are left out, older image attachments go to
+ * the model as their cached analysis instead of inline data, and what's left
+ * is trimmed to a token budget. The caller folds the summary into the system
+ * prompt and, when enough older messages pile up, asks for a fresh summary
+ * that absorbs them.
+ */
+
+// === DEFAULTS ===
+
+export const DEFAULT_RECENT_MESSAGES = 12
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 24000
+export const DEFAULT_SYSTEM_PROMPT_TOKEN_BUDGET = 16000
+
+// Summarize in batches rather than on every turn once a chat gets long
+const SUMMARY_BATCH_MESSAGES = 6
+
+// Rough cost of one inline image (Gemini bills ~258 tokens per image)
+const IMAGE_TOKEN_ESTIMATE = 258
+
+// Longest stretch of one message the summarizer reads
+const SUMMARY_MESSAGE_CHARS = 2000
+
+// ~4 characters per token is close enough for English prose and JSON
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// === TYPES ===
+
+export interface ContextAttachment {
+  base64?: string
+  analysis?: string
+}
+
+export interface ContextMessage {
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  attachments?: ContextAttachment[]
+}
+
+// A rolling summary of the first `messageCount` messages of a conversation
+export interface StoredSummary {
+  text: string
+  messageCount: number
+}
+
+export interface ContextOptions {
+  recentMessages?: number
+  historyTokenBudget?: number
+}
+
+export interface ChatContext<T extends ContextMessage> {
+  summary: string | null
+  // Sent verbatim - always starts with a user message and ends with the current one
+  messages: T[]
+  // Messages dropped for the token budget that no summary covers yet
+  omittedMessages: number
+  // Messages [from, to) the summary should absorb next, once there are enough
+  pendingSummary: { from: number; to: number } | null
+}
+
+// === BUILDING ===
+
+function messageTokens(message: ContextMessage): number {
+  let tokens = estimateTokens(message.content || '')
+  for (const attachment of message.attachments || []) {
+    if (attachment.analysis) tokens += estimateTokens(attachment.analysis)
+    if (attachment.base64) tokens += IMAGE_TOKEN_ESTIMATE
+  }
+  return tokens
+}
+
+// First user message at or after `index` - chats must open on a user turn
+function nextUserIndex(messages: ContextMessage[], index: number): number {
+  let i = index
+  while (i < messages.length - 1 && messages[i].role !== 'user') i++
+  return i
+}
+
+// Last user message at or before `index`, so a summary never ends mid-exchange
+function previousUserIndex(messages: ContextMessage[], index: number): number {
+  let i = index
+  while (i > 0 && messages[i].role !== 'user') i--
+  return i
+}
+
+export function buildChatContext<T extends ContextMessage>(
+  messages: T[],
+  stored: StoredSummary | null,
+  options: ContextOptions = {}
+): ChatContext<T> {
+  const recentMessages = options.recentMessages || DEFAULT_RECENT_MESSAGES
+  const historyTokenBudget = options.historyTokenBudget || DEFAULT_HISTORY_TOKEN_BUDGET
+  const lastIndex = messages.length - 1
+
+  // A summary that claims more messages than this chat has belongs to another history
+  const summary = stored && stored.text && stored.messageCount > 0 && stored.messageCount <= lastIndex
+    ? stored
+    : null
+
+  let start = nextUserIndex(messages, summary?.messageCount || 0)
+
+  // Past turns send their images as analysis text when there is one; only
+  // the current message keeps inline image data for analysis-less images
+  const swapImages = (message: T, index: number): T => {
+    if (index === lastIndex || !message.attachments?.some(a => a.base64 && a.analysis)) return message
+    return {
+      ...message,
+      attachments: message.attachments.map(a => a.analysis ? { ...a, base64: undefined } : a),
+    }
+  }
+
+  // Trim the oldest exchanges until the rest fits the budget
+  let tokens = 0
+  for (let i = start; i <= lastIndex; i++) tokens += messageTokens(swapImages(messages[i], i))
+  const firstUnsummarized = start
+  while (tokens > historyTokenBudget && start < lastIndex) {
+    const next = nextUserIndex(messages, start + 1)
+    for (let i = start; i < next; i++) tokens -= messageTokens(swapImages(messages[i], i))
+    start = next
+  }
+
+  const summarizedThrough = summary?.messageCount || 0
+  const cutoff = previousUserIndex(messages, lastIndex - recentMessages + 1)
+  const pendingSummary = cutoff - summarizedThrough >= SUMMARY_BATCH_MESSAGES
+    ? { from: summarizedThrough, to: cutoff }
+    : null
+
+  return {
+    summary: summary?.text || null,
+    messages: messages.slice(start).map((message, i) => swapImages(message, start + i)),
+    omittedMessages: start - firstUnsummarized,
+    pendingSummary,
+  }
+}
+
+// === SUMMARIZING ===
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a creative session between a user and Skinny Studio's AI Creative Director, which generates images and videos.
+
+Rewrite the summary so it also covers the new messages. Keep what later turns will need:
+- The user's goals, subjects, style and mood preferences
+- Models, prompts and settings that were chosen, and what was generated
+- Decisions, feedback and anything the user rejected
+- Open questions or next steps
+
+Write plain prose or short bullets, under 300 words. Reply with the summary only.`
+
+function transcriptLine(message: ContextMessage): string {
+  const speaker = message.role === 'assistant' ? 'Assistant' : 'User'
+  const content = message.content.length > SUMMARY_MESSAGE_CHARS
+    ? `${message.content.slice(0, SUMMARY_MESSAGE_CHARS)}...`
+    : message.content
+  const images = (message.attachments || [])
+    .map((a, i) => `[Image ${i + 1}${a.analysis ? `: ${a.analysis.slice(0, 300)}` : ''}]`)
+    .join('\n')
+  return `${speaker}: ${content}${images ? `\n${images}` : ''}`
+}
+
+/**
+ * Fold `messages` into the previous summary with one extra model turn.
+ * Returns the new summary and the tokens it took, for usage tracking.
+ */
+export async function summarizeMessages(
+  adapter: OrchestratorAdapter,
+  model: string,
+  previousSummary: string | null,
+  messages: ContextMessage[]
+) {
+  const chat = adapter.startChat({ model, systemPrompt: SUMMARY_SYSTEM_PROMPT, history: [], tools: [] })
+  const turn = chat.sendMessage([{
+    type: 'text',
+    text: `Summary so far:\n${previousSummary || '(none yet)'}\n\nNew messages:\n\n${messages.map(transcriptLine).join('\n\n')}`,
+  }])
+
+  let text = ''
+  for await (const chunk of turn.stream) text += chunk
+  const { usage } = await turn.result()
+
+  return { summary: text.trim(), usage }
+}
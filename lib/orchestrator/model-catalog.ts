@@ -0,0 +1,54 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { ModelSpec, specFromModelRow } from './model-specs'
+
+/**
+ * The orchestrator's model catalog: specs of the active studio_models that
+ * have one, in sort order. Server-only - the admin model routes invalidate
+ * the cache when a model changes, and other instances pick changes up when
+ * their cache expires.
+ */
+
+let specsCache: ModelSpec[] | null = null
+let cacheTimestamp = 0
+const CACHE_TTL = 30 * 1000 // 30 seconds
+
+export async function getModelSpecs(): Promise<ModelSpec[]> {
+  const now = Date.now()
+
+  if (specsCache && now - cacheTimestamp < CACHE_TTL) {
+    return specsCache
+  }
+
+  try {
+    const { data, error } = await sbAdmin
+      .from('studio_models')
+      .select('slug, name, replicate_model, orchestrator_spec')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      console.error('[ModelCatalog] Failed to load model specs:', error)
+      // A stale catalog beats an orchestrator that knows no models
+      return specsCache || []
+    }
+
+    specsCache = (data || [])
+      .map(specFromModelRow)
+      .filter((spec): spec is ModelSpec => spec !== null)
+    cacheTimestamp = now
+
+    return specsCache
+  } catch (error) {
+    console.error('[ModelCatalog] Error loading model specs:', error)
+    return specsCache || []
+  }
+}
+
+export async function getModelSpec(id: string): Promise<ModelSpec | undefined> {
+  return (await getModelSpecs()).find(spec => spec.id === id)
+}
+
+export function invalidateModelSpecsCache(): void {
+  specsCache = null
+  cacheTimestamp = 0
+}
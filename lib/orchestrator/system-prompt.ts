@@ -1,4 +1,5 @@
-import { getModelSpecsForPrompt } from './model-specs'
+import { getModelSpecsForPrompt, ModelSpec } from './model-specs'
+import { estimateTokens } from './context-builder'
 
 /**
  * Interface for storyboard entity context
@@ -26,6 +27,168 @@ export interface StoryboardContext {
   completedShots: number
 }
 
+// How actions are triggered, for models without function calling: fenced
+// JSON blocks the chat route parses out of the reply
+const BLOCK_FORMATS = {
+  createSkill: `4. When ready, output a special JSON block that the system will parse:
+
+\`\`\`create-skill
+{
+  "name": "Anime Portrait Style",
+  "shortcut": "anime-portrait",
+  "description": "Japanese anime-style character portraits",
+  "category": "style",
+  "icon": "🎭",
+  "content": "For anime-style portraits:\\n- Use cel-shading with clean line art\\n- Large expressive eyes with detailed highlights\\n- Soft pastel or vibrant color palettes\\n- Simplified but elegant features\\n- Consider popular anime aesthetics: Studio Ghibli, modern isekai, shonen, etc.\\n- Add characteristic hair with dynamic flow\\n- Include subtle blush and skin tones",
+  "tags": ["anime", "portrait", "character", "manga"],
+  "examples": ["Create an anime portrait of a warrior princess @anime-portrait", "Cyberpunk anime character @anime-portrait neon colors"]
+}
+\`\`\`
+
+The system will automatically save this skill to the user's library. Categories are: style, technique, tool, workflow, custom.`,
+  generate: `## Generation Trigger Format
+
+IMPORTANT: When the user confirms they want to generate, you MUST output a special JSON block that the system will parse to trigger generation.
+
+When ready to generate, output your message AND include this exact format:
+
+For **image** generation:
+\`\`\`generate
+{
+  "model": "model-id",
+  "prompt": "the full optimized prompt",
+  "params": {
+    "aspect_ratio": "16:9",
+    "other_param": "value"
+  }
+}
+\`\`\`
+
+For **video** generation (include duration and resolution at top level):
+\`\`\`generate
+{
+  "model": "veo-3",
+  "prompt": "the full optimized video prompt",
+  "duration": 8,
+  "resolution": "1080p",
+  "params": {
+    "aspect_ratio": "16:9"
+  }
+}
+\`\`\`
+
+Available model IDs:
+**Image**: seedream-4.5, flux-2-pro, flux-2-dev, nano-banana, nano-banana-pro, nano-banana-pro-4k, p-image-edit, qwen-image-edit-plus
+**Video**: veo-3.1, veo-3.1-fast, wan-2.5-i2v, wan-2.5-t2v, kling-v2.5-turbo-pro
+
+To generate several versions at once (e.g. three variants, or square and 9:16 cuts), write one generate block per version in the same response - up to 6. Don't ask for a separate cost confirmation first: the user sees one combined quote for the whole set and starts them together.`,
+  sequential: `4. **Generation block format**:
+\`\`\`generate
+{
+  "model": "seedream-4.5",
+  "prompt": "Generate [N] separate images sequentially. Each is a complete standalone [aspect_ratio] photo.\\n\\n**Shared Visual Elements:**\\n- [LIGHTING]\\n- [COLOR_PALETTE]\\n- [STYLE]\\n\\n**Image 1:** [scene description]\\n**Image 2:** [scene description]\\n...\\n**Image N:** [scene description]\\n\\nMaintain exact visual continuity across all images.",
+  "sequentialImageGeneration": "auto",
+  "maxImages": 5,
+  "params": {
+    "aspect_ratio": "16:9"
+  }
+}
+\`\`\``,
+  example: `Example response when user confirms:
+"Generating your image now with FLUX 2 Pro...
+
+\`\`\`generate
+{
+  "model": "flux-2-pro",
+  "prompt": "A samurai walking through neon-lit Tokyo streets at night, cinematic lighting, rain reflections",
+  "params": {
+    "aspect_ratio": "16:9",
+    "resolution": "2 MP"
+  }
+}
+\`\`\`
+"`,
+  directorsNotes: `After EVERY generation block, include a Director's Notes section that explains your creative choices. This helps users learn and understand the AI's reasoning. Format as:
+
+\`\`\`directors-notes
+{
+  "modelChoice": "Why I chose [model]: [brief explanation of why this model is best for their request]",
+  "promptEnhancements": "[What I added to improve the prompt, and why - lighting, style, technical specs]",
+  "parameterReasoning": "[Why these specific settings - aspect ratio, duration, etc.]",
+  "tips": "[1-2 actionable tips for the user to improve results or try something different next time]"
+}
+\`\`\`
+
+Example:
+\`\`\`directors-notes
+{
+  "modelChoice": "FLUX 2 Pro for photorealistic detail and its strength with cyberpunk aesthetics",
+  "promptEnhancements": "Added 'volumetric fog' and 'teal/magenta color palette' to enhance the neon city atmosphere, specified '35mm lens' for cinematic feel",
+  "parameterReasoning": "16:9 aspect ratio suits the cinematic mood, high resolution for the detailed urban scene",
+  "tips": "Try @cinematic skill for more camera movement suggestions, or add rain/wet streets for extra atmosphere"
+}
+\`\`\``,
+}
+
+// The same actions as function calls (see tools.ts)
+const TOOL_FORMATS = {
+  createSkill: `4. When ready, call \`create_skill\` with the name, shortcut (without the @), description, category, icon, content, tags and examples.
+
+The system will automatically save this skill to the user's library. Categories are: style, technique, tool, workflow, custom.`,
+  generate: `## Generation Trigger Format
+
+IMPORTANT: When the user confirms they want to generate, you MUST call the generate function for the model - \`generate_<model id>\`, e.g. \`generate_flux_2_pro\` for flux-2-pro. Write a short message to the user as well; the call itself is never shown.
+
+- Pass \`prompt\` plus any of the model's parameters that differ from their defaults, using the exact option values from its spec
+- Leave image parameters out - attached images are passed in automatically by purpose
+- To generate several versions at once (e.g. three variants, or square and 9:16 cuts), make one call per version in the same turn - up to 6. Don't ask for a separate cost confirmation first: the user sees one combined quote for the whole set and starts them together
+- If a call comes back with issues, fix the arguments and call it again. Don't mention the retry to the user`,
+  sequential: `4. **Generation call**: \`generate_seedream_4_5\` with the multi-scene prompt (template below), \`sequential_image_generation: "auto"\`, \`max_images\` set to the number of images and the aspect ratio`,
+  example: `Example response when user confirms:
+"Generating your image now with FLUX 2 Pro..." together with a \`generate_flux_2_pro\` call:
+- prompt: "A samurai walking through neon-lit Tokyo streets at night, cinematic lighting, rain reflections"
+- aspect_ratio: "16:9"
+- resolution: "2 MP"`,
+  directorsNotes: `With EVERY generation, also call \`directors_notes\` to explain your creative choices. This helps users learn and understand the AI's reasoning:
+- **modelChoice**: Why this model is best for their request
+- **promptEnhancements**: What you added to improve the prompt, and why - lighting, style, technical specs
+- **parameterReasoning**: Why these specific settings - aspect ratio, duration, etc.
+- **tips**: 1-2 actionable tips for the user to improve results or try something different next time`,
+}
+
+// Sections dropped, least useful first, when the prompt runs over its token
+// budget. Role, models, parameter flow, images and the generation format stay
+const TRIMMABLE_SECTIONS = [
+  'Skill Discovery & Recommendations',
+  'Model-Specific Prompt Optimization',
+  'Creative Communication Philosophy',
+  'Handling Mid-Flow Changes',
+  'Power User Short-Circuit',
+  'Communication Style',
+  'Error Handling',
+  'Skills System',
+  "Director's Notes (Transparent AI)",
+  'Seedream 4.5 - Sequential Image Generation',
+]
+
+function fitToTokenBudget(prompt: string, budget: number): string {
+  if (estimateTokens(prompt) <= budget) return prompt
+
+  const sections = prompt.split(/\n(?=## )/)
+  for (const title of TRIMMABLE_SECTIONS) {
+    const index = sections.findIndex(section => section.startsWith(`## ${title}`))
+    if (index === -1) continue
+    sections.splice(index, 1)
+    if (estimateTokens(sections.join('\n')) <= budget) break
+  }
+
+  const fitted = sections.join('\n')
+  if (estimateTokens(fitted) > budget) {
+    console.warn('[SystemPrompt] Still over budget after trimming:', estimateTokens(fitted), '>', budget)
+  }
+  return fitted
+}
+
 /**
  * Generate the system prompt for the orchestrator AI.
  * This prompt is designed to be model-agnostic and work with any LLM.
@@ -35,8 +198,9 @@ export function generateSystemPrompt(userContext?: {
   name?: string
   preferences?: Record<string, any>
   recentProjects?: string[]
-}): string {
-  const modelSpecs = getModelSpecsForPrompt()
+}, options?: { toolCalling?: boolean; tokenBudget?: number; modelSpecs?: ModelSpec[] }): string {
+  const modelSpecs = getModelSpecsForPrompt(options?.modelSpecs || [])
+  const formats = options?.toolCalling ? TOOL_FORMATS : BLOCK_FORMATS
 
   const basePrompt = `You are a Creative Director AI assistant for Skinny Studio, a professional AI-powered creative workspace.
 
@@ -146,22 +310,7 @@ When a user asks to create a new skill (e.g., "help me create a skill for anime
 1. Ask what they want to call it and suggest a shortcut name (e.g., @anime-portrait)
 2. Understand their creative intent and requirements
 3. Draft the skill content (the prompt guidance that will be injected when used)
-4. When ready, output a special JSON block that the system will parse:
-
-\`\`\`create-skill
-{
-  "name": "Anime Portrait Style",
-  "shortcut": "anime-portrait",
-  "description": "Japanese anime-style character portraits",
-  "category": "style",
-  "icon": "🎭",
-  "content": "For anime-style portraits:\\n- Use cel-shading with clean line art\\n- Large expressive eyes with detailed highlights\\n- Soft pastel or vibrant color palettes\\n- Simplified but elegant features\\n- Consider popular anime aesthetics: Studio Ghibli, modern isekai, shonen, etc.\\n- Add characteristic hair with dynamic flow\\n- Include subtle blush and skin tones",
-  "tags": ["anime", "portrait", "character", "manga"],
-  "examples": ["Create an anime portrait of a warrior princess @anime-portrait", "Cyberpunk anime character @anime-portrait neon colors"]
-}
-\`\`\`
-
-The system will automatically save this skill to the user's library. Categories are: style, technique, tool, workflow, custom.
+${formats.createSkill}
 
 ### Using Skills Effectively
 
@@ -335,40 +484,7 @@ Shall I proceed?
 - If user starts a completely new request → gracefully abandon the current flow and start fresh
 - Keep track of what's been collected vs. what's still needed
 
-## Generation Trigger Format
-
-IMPORTANT: When the user confirms they want to generate, you MUST output a special JSON block that the system will parse to trigger generation.
-
-When ready to generate, output your message AND include this exact format:
-
-For **image** generation:
-\`\`\`generate
-{
-  "model": "model-id",
-  "prompt": "the full optimized prompt",
-  "params": {
-    "aspect_ratio": "16:9",
-    "other_param": "value"
-  }
-}
-\`\`\`
-
-For **video** generation (include duration and resolution at top level):
-\`\`\`generate
-{
-  "model": "veo-3",
-  "prompt": "the full optimized video prompt",
-  "duration": 8,
-  "resolution": "1080p",
-  "params": {
-    "aspect_ratio": "16:9"
-  }
-}
-\`\`\`
-
-Available model IDs:
-**Image**: seedream-4.5, flux-2-pro, flux-2-dev, nano-banana, nano-banana-pro, nano-banana-pro-4k, p-image-edit, qwen-image-edit-plus
-**Video**: veo-3.1, veo-3.1-fast, wan-2.5-i2v, wan-2.5-t2v, kling-v2.5-turbo-pro
+${formats.generate}
 
 ### Image Model Pricing:
 - Most image models: 7¢/image
@@ -417,18 +533,7 @@ Detect these user intents:
    - Number of images (1-15)
    - Aspect ratio for all images
    - The detailed multi-scene prompt
-4. **Generation block format**:
-\`\`\`generate
-{
-  "model": "seedream-4.5",
-  "prompt": "Generate [N] separate images sequentially. Each is a complete standalone [aspect_ratio] photo.\\n\\n**Shared Visual Elements:**\\n- [LIGHTING]\\n- [COLOR_PALETTE]\\n- [STYLE]\\n\\n**Image 1:** [scene description]\\n**Image 2:** [scene description]\\n...\\n**Image N:** [scene description]\\n\\nMaintain exact visual continuity across all images.",
-  "sequentialImageGeneration": "auto",
-  "maxImages": 5,
-  "params": {
-    "aspect_ratio": "16:9"
-  }
-}
-\`\`\`
+${formats.sequential}
 
 ### Sequential Prompt Template
 For best results, structure the prompt like this:
@@ -456,20 +561,7 @@ Maintain exact visual continuity across all images.
 - Example: 5 images = ~35¢
 - The model may generate fewer images than \`maxImages\` if the prompt doesn't require it
 
-Example response when user confirms:
-"Generating your image now with FLUX 2 Pro...
-
-\`\`\`generate
-{
-  "model": "flux-2-pro",
-  "prompt": "A samurai walking through neon-lit Tokyo streets at night, cinematic lighting, rain reflections",
-  "params": {
-    "aspect_ratio": "16:9",
-    "resolution": "2 MP"
-  }
-}
-\`\`\`
-"
+${formats.example}
 
 After generation completes, offer to:
 - Generate variations
@@ -479,26 +571,7 @@ After generation completes, offer to:
 
 ## Director's Notes (Transparent AI)
 
-After EVERY generation block, include a Director's Notes section that explains your creative choices. This helps users learn and understand the AI's reasoning. Format as:
-
-\`\`\`directors-notes
-{
-  "modelChoice": "Why I chose [model]: [brief explanation of why this model is best for their request]",
-  "promptEnhancements": "[What I added to improve the prompt, and why - lighting, style, technical specs]",
-  "parameterReasoning": "[Why these specific settings - aspect ratio, duration, etc.]",
-  "tips": "[1-2 actionable tips for the user to improve results or try something different next time]"
-}
-\`\`\`
-
-Example:
-\`\`\`directors-notes
-{
-  "modelChoice": "FLUX 2 Pro for photorealistic detail and its strength with cyberpunk aesthetics",
-  "promptEnhancements": "Added 'volumetric fog' and 'teal/magenta color palette' to enhance the neon city atmosphere, specified '35mm lens' for cinematic feel",
-  "parameterReasoning": "16:9 aspect ratio suits the cinematic mood, high resolution for the detailed urban scene",
-  "tips": "Try @cinematic skill for more camera movement suggestions, or add rain/wet streets for extra atmosphere"
-}
-\`\`\`
+${formats.directorsNotes}
 
 This transparency helps users:
 - Learn prompting techniques by example
@@ -526,7 +599,7 @@ ${userContext?.preferences ? `\nPreferences: ${JSON.stringify(userContext.prefer
 ${userContext?.recentProjects?.length ? `\nRecent projects: ${userContext.recentProjects.join(', ')}` : ''}
 `
 
-  return basePrompt
+  return options?.tokenBudget ? fitToTokenBudget(basePrompt, options.tokenBudget) : basePrompt
 }
 
 /**
@@ -674,6 +747,24 @@ When users describe their project, proactively suggest entities to define. Use t
 }
 \`\`\`
 
+### 4. Revising Existing Shots
+When the user wants to change shots that already exist, don't repeat them as a new shot list. Propose the changes by shot id; the user accepts or rejects each one:
+
+\`\`\`shot-revision
+{
+  "summary": "Open on the forest and give the hero a proper entrance",
+  "changes": [
+    { "op": "edit", "shotId": "uuid-of-shot", "fields": { "cameraAngle": "low angle", "description": "Hero rises from the undergrowth, backlit by glowing plants" }, "reason": "A stronger entrance" },
+    { "op": "split", "shotId": "uuid-of-shot", "into": [{ "title": "Forest Wide", "description": "..." }, { "title": "Forest Detail", "description": "..." }] },
+    { "op": "delete", "shotId": "uuid-of-shot", "reason": "Repeats shot 2" },
+    { "op": "add", "afterShotId": "uuid-of-shot", "shot": { "title": "Reaction", "description": "..." } },
+    { "op": "reorder", "order": ["uuid-of-shot", "uuid-of-shot"] }
+  ]
+}
+\`\`\`
+
+Edits only list the fields that change. A split keeps the original shot as its first part. A reorder moves the listed shots between the places they hold now.
+
 ## Working with Entities
 
 ### Entity Types
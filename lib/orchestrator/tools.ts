@@ -0,0 +1,439 @@
+import { FunctionCall, FunctionDeclaration, Schema, SchemaType } from '@google/generative-ai'
+import { ModelSpec, ParamSpec } from './model-specs'
+import { readRevisionBlock, RevisionBlockKind, StoryboardRevision } from '@/lib/storyboard-revision'
+import { coerceParam } from '@/lib/generation-params'
+
+/**
+ * Function calling for the chat orchestrator.
+ *
+ * The orchestrator triggers actions by calling functions rather than writing
+ * fenced JSON blocks into its reply: one generate function per model in the
+ * catalog (model-catalog), with a schema built from its ParamSpecs, plus
+ * create_skill, directors_notes and the storyboard revision functions.
+ * Arguments are checked against the same specs here; when a call doesn't
+ * pass, the chat route hands the issues back as the function's response so
+ * the model can repair it instead of the action silently going missing.
+ */
+
+// Which functions a chat gets: the studio chat generates, the storyboard
+// chat proposes revisions
+export type Toolset = 'studio' | 'storyboard'
+
+export interface GenerationBlock {
+  model: string
+  prompt: string
+  params: Record<string, any>
+  // Video-specific fields
+  duration?: number
+  resolution?: string
+  generateAudio?: boolean
+  // Seedream 4.5 sequential generation fields
+  sequentialImageGeneration?: 'disabled' | 'auto'
+  maxImages?: number
+}
+
+export interface SkillCreationBlock {
+  name: string
+  shortcut: string
+  description: string
+  category: 'style' | 'technique' | 'tool' | 'workflow' | 'custom'
+  icon?: string
+  content: string
+  tags?: string[]
+  examples?: string[]
+}
+
+export interface DirectorsNotes {
+  modelChoice: string
+  promptEnhancements: string
+  parameterReasoning: string
+  tips: string
+}
+
+export type OrchestratorAction =
+  | { kind: 'generate'; generation: GenerationBlock }
+  | { kind: 'create_skill'; skill: SkillCreationBlock }
+  | { kind: 'directors_notes'; notes: DirectorsNotes }
+  | { kind: 'storyboard_revision'; revision: StoryboardRevision }
+
+export interface ToolArgIssue {
+  field: string
+  message: string
+}
+
+export type ToolCallRead =
+  | { success: true; action: OrchestratorAction }
+  | { success: false; issues: ToolArgIssue[] }
+
+const SKILL_CATEGORIES: SkillCreationBlock['category'][] = ['style', 'technique', 'tool', 'workflow', 'custom']
+
+const STORYBOARD_TOOL_BLOCKS: Record<string, RevisionBlockKind> = {
+  propose_shot_list: 'shot-list',
+  suggest_entities: 'entity-suggestion',
+  revise_shots: 'shot-revision',
+}
+
+// === DECLARATIONS ===
+
+const GENERATE_TOOL_PREFIX = 'generate_'
+
+export function generateToolName(modelId: string): string {
+  return GENERATE_TOOL_PREFIX + modelId.replace(/[^a-zA-Z0-9]/g, '_')
+}
+
+// The model a generate function belongs to
+export function generateToolModel(name: string, specs: ModelSpec[]): ModelSpec | undefined {
+  if (!name.startsWith(GENERATE_TOOL_PREFIX)) return undefined
+  return specs.find(spec => generateToolName(spec.id) === name)
+}
+
+// Image params are filled from the user's attachments, never by the model
+function callableParams(spec: ModelSpec): ParamSpec[] {
+  return [...spec.params.required, ...spec.params.optional].filter(param => param.type !== 'image')
+}
+
+function paramSchema(param: ParamSpec): Schema {
+  const description = [
+    param.description.replace(/\.?$/, '.'),
+    param.range && `Between ${param.range.min} and ${param.range.max}.`,
+    param.default !== undefined && `Default: ${param.default}.`,
+  ].filter(Boolean).join(' ')
+
+  switch (param.type) {
+    case 'enum':
+      return param.options?.length
+        ? { type: SchemaType.STRING, format: 'enum', enum: param.options.map(String), description }
+        : { type: SchemaType.STRING, description }
+    case 'number':
+      return { type: SchemaType.NUMBER, description }
+    case 'boolean':
+      return { type: SchemaType.BOOLEAN, description }
+    default:
+      return { type: SchemaType.STRING, description }
+  }
+}
+
+function generateDeclaration(spec: ModelSpec): FunctionDeclaration {
+  const params = callableParams(spec)
+  const properties: Record<string, Schema> = {
+    prompt: { type: SchemaType.STRING, description: 'The full optimized prompt' },
+  }
+  for (const param of params) {
+    properties[param.name] = paramSchema(param)
+  }
+
+  const imageInputs = [...spec.params.required, ...spec.params.optional].some(param => param.type === 'image')
+  return {
+    name: generateToolName(spec.id),
+    description: `Generate with ${spec.name} (${spec.type}). ${spec.whenToUse}` +
+      (imageInputs ? ' Images the user attached are passed in automatically by purpose.' : ''),
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties,
+      required: ['prompt', ...params.filter(param => param.required && param.name !== 'prompt').map(param => param.name)],
+    },
+  }
+}
+
+const stringArray = (description: string): Schema => ({
+  type: SchemaType.ARRAY,
+  items: { type: SchemaType.STRING },
+  description,
+})
+
+const CREATE_SKILL_DECLARATION: FunctionDeclaration = {
+  name: 'create_skill',
+  description: 'Save a skill (a reusable prompt guide) to the user\'s library once they have agreed on it',
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      name: { type: SchemaType.STRING, description: 'Display name, e.g. "Anime Portrait Style"' },
+      shortcut: { type: SchemaType.STRING, description: 'Lowercase shortcut without the @, e.g. "anime-portrait"' },
+      description: { type: SchemaType.STRING, description: 'One line on what the skill is for' },
+      category: { type: SchemaType.STRING, format: 'enum', enum: SKILL_CATEGORIES, description: 'Skill category' },
+      icon: { type: SchemaType.STRING, description: 'A single emoji' },
+      content: { type: SchemaType.STRING, description: 'The prompt guidance injected when the skill is used' },
+      tags: stringArray('Search tags'),
+      examples: stringArray('Example messages that use the skill'),
+    },
+    required: ['name', 'shortcut', 'content'],
+  },
+}
+
+const DIRECTORS_NOTES_DECLARATION: FunctionDeclaration = {
+  name: 'directors_notes',
+  description: 'Explain the creative choices behind a generation. Call it alongside every generate call.',
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      modelChoice: { type: SchemaType.STRING, description: 'Why this model suits the request' },
+      promptEnhancements: { type: SchemaType.STRING, description: 'What you added to the prompt, and why' },
+      parameterReasoning: { type: SchemaType.STRING, description: 'Why these settings' },
+      tips: { type: SchemaType.STRING, description: '1-2 actionable tips for next time' },
+    },
+    required: ['modelChoice', 'promptEnhancements', 'tips'],
+  },
+}
+
+const SHOT_FIELD_PROPERTIES: Record<string, Schema> = {
+  title: { type: SchemaType.STRING, description: 'Shot title' },
+  description: { type: SchemaType.STRING, description: 'Visual description' },
+  cameraAngle: { type: SchemaType.STRING, description: 'wide, medium, close-up, low angle...' },
+  cameraMovement: { type: SchemaType.STRING, description: 'static, pan, tilt, dolly...' },
+  durationSeconds: { type: SchemaType.NUMBER, description: 'Shot length in seconds' },
+  mediaType: { type: SchemaType.STRING, format: 'enum', enum: ['image', 'video'], description: 'Image or video shot' },
+  suggestedPrompt: { type: SchemaType.STRING, description: 'Detailed generation prompt' },
+  notes: { type: SchemaType.STRING, description: 'Production notes' },
+}
+
+const shotFieldsSchema = (description: string): Schema => ({
+  type: SchemaType.OBJECT,
+  properties: SHOT_FIELD_PROPERTIES,
+  description,
+})
+
+const STORYBOARD_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'propose_shot_list',
+    description: 'Propose new shots to add to the end of the storyboard. The user reviews them before anything is added.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        shots: {
+          type: SchemaType.ARRAY,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              ...SHOT_FIELD_PROPERTIES,
+              entities: stringArray('Names of the entities that appear in the shot'),
+            },
+            required: ['title', 'description'],
+          },
+        },
+      },
+      required: ['shots'],
+    },
+  },
+  {
+    name: 'suggest_entities',
+    description: 'Suggest characters, worlds, objects or styles to define for visual consistency',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        entities: {
+          type: SchemaType.ARRAY,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              name: { type: SchemaType.STRING, description: 'Entity name' },
+              type: { type: SchemaType.STRING, format: 'enum', enum: ['character', 'world', 'object', 'style'], description: 'Entity type' },
+              description: { type: SchemaType.STRING, description: 'What the entity is' },
+            },
+            required: ['name', 'type'],
+          },
+        },
+      },
+      required: ['entities'],
+    },
+  },
+  {
+    name: 'revise_shots',
+    description: 'Change shots that already exist, addressed by id. The user accepts or rejects each change.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        summary: { type: SchemaType.STRING, description: 'One line on what the revision does' },
+        changes: {
+          type: SchemaType.ARRAY,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              op: { type: SchemaType.STRING, format: 'enum', enum: ['edit', 'split', 'delete', 'add', 'reorder'], description: 'What to do' },
+              shotId: { type: SchemaType.STRING, description: 'The shot to edit, split or delete' },
+              fields: shotFieldsSchema('edit: only the fields that change'),
+              into: {
+                type: SchemaType.ARRAY,
+                items: shotFieldsSchema('One part of the split'),
+                description: 'split: two or more parts; the first replaces the shot in place',
+              },
+              shot: shotFieldsSchema('add: the new shot'),
+              afterShotId: { type: SchemaType.STRING, description: 'add: the shot to insert after; omit to add at the end' },
+              order: stringArray('reorder: shot ids in their new order; listed shots swap between the places they hold'),
+              reason: { type: SchemaType.STRING, description: 'Why, in a few words' },
+            },
+            required: ['op'],
+          },
+        },
+      },
+      required: ['changes'],
+    },
+  },
+]
+
+/**
+ * The functions a chat turn may call. `generation` is off in consultant mode;
+ * `modelIds` narrows the catalog's generate functions to the model the user
+ * picked.
+ */
+export function buildToolDeclarations(toolset: Toolset, options: {
+  generation: boolean
+  specs: ModelSpec[]
+  modelIds?: string[]
+}): FunctionDeclaration[] {
+  if (toolset === 'storyboard') return STORYBOARD_DECLARATIONS
+
+  const declarations = [CREATE_SKILL_DECLARATION]
+  if (options.generation) {
+    const picked = options.modelIds?.length
+      ? options.specs.filter(spec => options.modelIds!.includes(spec.id))
+      : options.specs
+    declarations.push(...(picked.length > 0 ? picked : options.specs).map(generateDeclaration), DIRECTORS_NOTES_DECLARATION)
+  }
+  return declarations
+}
+
+// === VALIDATION ===
+
+/**
+ * Check a generate call's arguments against the model's ParamSpecs: unknown
+ * params, missing required ones, values of the wrong type, enum values that
+ * aren't options and numbers out of range are all issues. Numeric strings and
+ * enum values in the wrong case are coerced rather than rejected.
+ */
+export function readGenerateArgs(spec: ModelSpec, args: Record<string, unknown>): ToolCallRead {
+  const params = callableParams(spec)
+  const issues: ToolArgIssue[] = []
+  const values: Record<string, any> = {}
+
+  for (const key of Object.keys(args)) {
+    if (key === 'prompt' || params.some(param => param.name === key)) continue
+    const isImage = [...spec.params.required, ...spec.params.optional].some(param => param.name === key)
+    issues.push({
+      field: key,
+      message: isImage ? 'Set from the user\'s attached images - leave it out' : `${spec.name} has no such parameter`,
+    })
+  }
+
+  const prompt = typeof args.prompt === 'string' ? args.prompt.trim() : ''
+  if (!prompt) issues.push({ field: 'prompt', message: 'Required' })
+
+  for (const param of params) {
+    if (param.name === 'prompt') continue
+    const raw = args[param.name]
+    if (raw === undefined || raw === null || raw === '') {
+      if (param.required) issues.push({ field: param.name, message: 'Required' })
+      continue
+    }
+    const coerced = coerceParam(param, raw)
+    if ('issue' in coerced) issues.push({ field: param.name, message: coerced.issue })
+    else values[param.name] = coerced.value
+  }
+
+  if (issues.length > 0) return { success: false, issues }
+
+  // The submit path reads these at the top level for pricing
+  const isVideo = spec.type === 'video'
+  return {
+    success: true,
+    action: {
+      kind: 'generate',
+      generation: {
+        model: spec.id,
+        prompt,
+        params: values,
+        duration: isVideo && values.duration !== undefined ? Number(values.duration) : undefined,
+        resolution: isVideo ? values.resolution : undefined,
+        generateAudio: values.generate_audio,
+        sequentialImageGeneration: values.sequential_image_generation,
+        maxImages: values.max_images,
+      },
+    },
+  }
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : []
+}
+
+function readSkillArgs(args: Record<string, any>): ToolCallRead {
+  const name = optionalString(args.name)
+  const shortcut = optionalString(args.shortcut)?.replace(/^@/, '')
+  const content = optionalString(args.content)
+  const issues: ToolArgIssue[] = []
+
+  if (!name) issues.push({ field: 'name', message: 'Required' })
+  if (!shortcut) issues.push({ field: 'shortcut', message: 'Required' })
+  else if (!/^[a-z0-9-]+$/.test(shortcut)) issues.push({ field: 'shortcut', message: 'Use lowercase letters, numbers and dashes' })
+  if (!content) issues.push({ field: 'content', message: 'Required' })
+  if (args.category !== undefined && !SKILL_CATEGORIES.includes(args.category)) {
+    issues.push({ field: 'category', message: `Must be one of: ${SKILL_CATEGORIES.join(', ')}` })
+  }
+
+  if (issues.length > 0 || !name || !shortcut || !content) return { success: false, issues }
+
+  return {
+    success: true,
+    action: {
+      kind: 'create_skill',
+      skill: {
+        name,
+        shortcut,
+        description: optionalString(args.description) || '',
+        category: args.category || 'custom',
+        icon: optionalString(args.icon),
+        content,
+        tags: stringList(args.tags),
+        examples: stringList(args.examples),
+      },
+    },
+  }
+}
+
+function readDirectorsNotesArgs(args: Record<string, any>): ToolCallRead {
+  const notes: DirectorsNotes = {
+    modelChoice: optionalString(args.modelChoice) || '',
+    promptEnhancements: optionalString(args.promptEnhancements) || '',
+    parameterReasoning: optionalString(args.parameterReasoning) || '',
+    tips: optionalString(args.tips) || '',
+  }
+  if (!notes.modelChoice && !notes.promptEnhancements && !notes.tips) {
+    return { success: false, issues: [{ field: 'modelChoice', message: 'Notes are empty' }] }
+  }
+  return { success: true, action: { kind: 'directors_notes', notes } }
+}
+
+function readStoryboardArgs(kind: RevisionBlockKind, args: Record<string, any>): ToolCallRead {
+  const { summary, changes, skipped } = readRevisionBlock(kind, args)
+  const listField = kind === 'shot-list' ? 'shots' : kind === 'entity-suggestion' ? 'entities' : 'changes'
+
+  if (skipped.length > 0 || changes.length === 0) {
+    return {
+      success: false,
+      issues: skipped.length > 0
+        ? skipped.map(index => ({ field: `${listField}[${index}]`, message: 'Couldn\'t be read - check op, shotId and the required fields' }))
+        : [{ field: listField, message: 'Nothing to propose' }],
+    }
+  }
+  return { success: true, action: { kind: 'storyboard_revision', revision: { summary, changes } } }
+}
+
+/**
+ * Turn a function call into the action it asks for, or the issues that
+ * stop it. Only functions from `declarations` are accepted.
+ */
+export function readToolCall(call: FunctionCall, declarations: FunctionDeclaration[], specs: ModelSpec[]): ToolCallRead {
+  if (!declarations.some(declaration => declaration.name === call.name)) {
+    return { success: false, issues: [{ field: 'name', message: `${call.name} isn't available in this chat` }] }
+  }
+
+  const args = (call.args && typeof call.args === 'object' ? call.args : {}) as Record<string, any>
+  const spec = generateToolModel(call.name, specs)
+  if (spec) return readGenerateArgs(spec, args)
+  if (call.name === 'create_skill') return readSkillArgs(args)
+  if (call.name === 'directors_notes') return readDirectorsNotesArgs(args)
+  return readStoryboardArgs(STORYBOARD_TOOL_BLOCKS[call.name], args)
+}
@@ -0,0 +1,270 @@
+/**
+ * Minimal PDF writer.
+ *
+ * Just enough PDF for printable shot sheets: pages, filled/stroked
+ * rectangles, text in the built-in Helvetica fonts and JPEG images. No
+ * dependencies and no DOM, so it runs in the browser or on the server.
+ *
+ * Coordinates are in points from the top-left corner of the page (PDF itself
+ * measures from the bottom-left; the writer flips them).
+ */
+
+export interface PdfPage {
+  width: number
+  height: number
+  ops: string[]
+}
+
+export interface PdfDocument {
+  addPage: (width: number, height: number) => PdfPage
+  // Register a baseline JPEG; returns the name to draw it with
+  addJpeg: (bytes: Uint8Array, width: number, height: number) => string
+  toBytes: () => Uint8Array
+}
+
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  size: number
+  bold?: boolean
+  color?: PdfColor
+}
+
+// US Letter, landscape
+export const LETTER_LANDSCAPE = { width: 792, height: 612 }
+
+// Advance widths (1/1000 em) for ASCII 32-126 in the standard Helvetica fonts
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+const DEFAULT_WIDTH = 556
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '€': 0x80, '™': 0x99,
+}
+
+// Map text to WinAnsi byte values; anything the font can't show becomes '?'
+function toWinAnsi(text: string): string {
+  let result = ''
+  for (const char of Array.from(text)) {
+    const code = char.codePointAt(0) || 0
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char])
+    } else if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) {
+      result += char
+    } else if (char === '\t' || char === '\n') {
+      result += ' '
+    } else {
+      result += '?'
+    }
+  }
+  return result
+}
+
+const escapePdfString = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`)
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString()
+
+const colorOp = (color: PdfColor, op: 'rg' | 'RG') => `${color.map(c => num(c)).join(' ')} ${op}`
+
+/**
+ * Width of `text` in points.
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  let total = 0
+  for (const char of Array.from(toWinAnsi(text))) {
+    const code = char.charCodeAt(0)
+    total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH
+  }
+  return (total * size) / 1000
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`. With `maxLines`, the last
+ * line is cut short with an ellipsis when the text doesn't fit.
+ */
+export function wrapText(text: string, maxWidth: number, options: PdfTextOptions & { maxLines?: number }): string[] {
+  const { size, bold, maxLines } = options
+  const lines: string[] = []
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+      // A single word wider than the line is split by characters
+      let rest = word
+      while (measureText(rest, size, bold) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1
+        while (cut > 1 && measureText(rest.slice(0, cut), size, bold) > maxWidth) cut--
+        lines.push(rest.slice(0, cut))
+        rest = rest.slice(cut)
+      }
+      line = rest
+    }
+    lines.push(line)
+  }
+
+  if (maxLines && lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines)
+    let last = kept[maxLines - 1]
+    while (last && measureText(`${last}…`, size, bold) > maxWidth) last = last.slice(0, -1)
+    kept[maxLines - 1] = `${last.trimEnd()}…`
+    return kept
+  }
+  return lines
+}
+
+export function drawText(page: PdfPage, text: string, x: number, y: number, options: PdfTextOptions) {
+  const { size, bold, color = [0, 0, 0] } = options
+  // y is the top of the line; PDF positions text by its baseline
+  const baseline = page.height - y - size * 0.8
+  page.ops.push(
+    'BT',
+    `/${bold ? 'F2' : 'F1'} ${num(size)} Tf`,
+    colorOp(color, 'rg'),
+    `${num(x)} ${num(baseline)} Td`,
+    `(${escapePdfString(toWinAnsi(text))}) Tj`,
+    'ET'
+  )
+}
+
+export function drawRect(
+  page: PdfPage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  style: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number }
+) {
+  const ops = ['q']
+  if (style.fill) ops.push(colorOp(style.fill, 'rg'))
+  if (style.stroke) ops.push(colorOp(style.stroke, 'RG'), `${num(style.lineWidth ?? 0.5)} w`)
+  ops.push(`${num(x)} ${num(page.height - y - height)} ${num(width)} ${num(height)} re`)
+  ops.push(style.fill && style.stroke ? 'B' : style.fill ? 'f' : 'S', 'Q')
+  page.ops.push(...ops)
+}
+
+export function drawImage(page: PdfPage, name: string, x: number, y: number, width: number, height: number) {
+  page.ops.push('q', `${num(width)} 0 0 ${num(height)} ${num(x)} ${num(page.height - y - height)} cm`, `/${name} Do`, 'Q')
+}
+
+export function createPdfDocument(): PdfDocument {
+  const pages: PdfPage[] = []
+  const images: { name: string; bytes: Uint8Array; width: number; height: number }[] = []
+
+  const addPage = (width: number, height: number) => {
+    const page: PdfPage = { width, height, ops: [] }
+    pages.push(page)
+    return page
+  }
+
+  const addJpeg = (bytes: Uint8Array, width: number, height: number) => {
+    const name = `Im${images.length + 1}`
+    images.push({ name, bytes, width, height })
+    return name
+  }
+
+  const toBytes = () => {
+    const chunks: Uint8Array[] = []
+    const offsets: number[] = []
+    let length = 0
+
+    // Content is kept to byte values < 256, so each char is one byte
+    const pushString = (text: string) => {
+      const bytes = new Uint8Array(text.length)
+      for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff
+      chunks.push(bytes)
+      length += bytes.length
+    }
+    const pushBytes = (bytes: Uint8Array) => {
+      chunks.push(bytes)
+      length += bytes.length
+    }
+    const beginObject = (id: number) => {
+      offsets[id] = length
+      pushString(`${id} 0 obj\n`)
+    }
+
+    // Object ids: 1 catalog, 2 page tree, 3-4 fonts, then images, then a page + content per page
+    const firstImageId = 5
+    const firstPageId = firstImageId + images.length
+    const pageIds = pages.map((_, i) => firstPageId + i * 2)
+    const objectCount = firstPageId + pages.length * 2 - 1
+
+    pushString('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')
+
+    beginObject(1)
+    pushString('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n')
+
+    beginObject(2)
+    pushString(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`)
+
+    beginObject(3)
+    pushString('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n')
+    beginObject(4)
+    pushString('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n')
+
+    images.forEach((image, i) => {
+      beginObject(firstImageId + i)
+      pushString(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>\nstream\n`
+      )
+      pushBytes(image.bytes)
+      pushString('\nendstream\nendobj\n')
+    })
+
+    const xObjects = images.map((image, i) => `/${image.name} ${firstImageId + i} 0 R`).join(' ')
+    pages.forEach((page, i) => {
+      const pageId = pageIds[i]
+      const content = page.ops.join('\n')
+
+      beginObject(pageId)
+      pushString(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> ` +
+        `/Contents ${pageId + 1} 0 R >>\nendobj\n`
+      )
+      beginObject(pageId + 1)
+      pushString(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`)
+    })
+
+    const xrefOffset = length
+    pushString(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`)
+    for (let id = 1; id <= objectCount; id++) {
+      pushString(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+    }
+    pushString(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    const output = new Uint8Array(length)
+    let position = 0
+    for (const chunk of chunks) {
+      output.set(chunk, position)
+      position += chunk.length
+    }
+    return output
+  }
+
+  return { addPage, addJpeg, toBytes }
+}
@@ -1,10 +1,27 @@
 import { sbAdmin } from '@/lib/supabaseAdmin'
 
+export type OrchestratorBackendSetting = 'gemini' | 'openai_compatible'
+
 export interface OrchestrationSettings {
   enabled: boolean
   gemini_api_key: string | null
   default_orchestrator_model: string | null
   mode: 'platform_key' | 'user_keys'
+  // Which LLM backend runs the orchestrator - older rows predate this and mean Gemini
+  backend?: OrchestratorBackendSetting
+  // OpenAI-compatible server (llama.cpp, Ollama, ...) used when backend is 'openai_compatible'
+  openai_base_url?: string | null
+  openai_api_key?: string | null
+  openai_model?: string | null
+  openai_supports_vision?: boolean
+  openai_supports_tools?: boolean
+  // USD per 1M tokens, for usage tracking; unset means free (self-hosted)
+  openai_input_cost_per_million?: number | null
+  openai_output_cost_per_million?: number | null
+  // Chat context limits; unset falls back to the context builder's defaults
+  system_prompt_token_budget?: number | null
+  context_recent_messages?: number | null
+  context_history_token_budget?: number | null
 }
 
 // Cache for platform settings (refresh every 30 seconds)
@@ -89,10 +106,21 @@ export async function getEffectiveGeminiApiKey(userApiKey?: string): Promise<str
 }
 
 /**
- * Check if platform orchestration mode is active
+ * Whether chat runs on the admin's OpenAI-compatible server instead of Gemini
+ */
+export function usesOpenAICompatibleBackend(settings: OrchestrationSettings): boolean {
+  return settings.enabled
+    && settings.backend === 'openai_compatible'
+    && !!settings.openai_base_url
+    && !!settings.openai_model
+}
+
+/**
+ * Check if platform orchestration mode is active - users then need no key of their own
  */
 export async function isPlatformOrchestrationActive(): Promise<boolean> {
   const settings = await getPlatformSettings()
+  if (usesOpenAICompatibleBackend(settings)) return true
   return settings.enabled && settings.mode === 'platform_key' && !!settings.gemini_api_key
 }
 
@@ -110,5 +138,6 @@ function getDefaultSettings(): OrchestrationSettings {
     gemini_api_key: null,
     default_orchestrator_model: 'gemini-2.5-flash',
     mode: 'user_keys',
+    backend: 'gemini',
   }
 }
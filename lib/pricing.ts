@@ -0,0 +1,168 @@
+/**
+ * Pricing engine for generations.
+ *
+ * Every price shown or charged comes from `quoteGeneration`, driven by the
+ * pricing columns on the `studio_models` row. Pure functions only - safe to
+ * import from API routes, Netlify functions and client components.
+ */
+
+// Seedream 4.5 sequential mode can return several images per run
+const SEQUENTIAL_IMAGE_MODELS = ['seedream-4.5']
+export const MAX_SEQUENTIAL_IMAGES = 15
+
+/** The subset of a `studio_models` row that pricing depends on */
+export interface PricedModel {
+  slug: string
+  pricing_type?: string | null
+  cost_per_run_cents?: number | null
+  cost_per_second_cents?: number | null
+  resolution_multipliers?: Record<string, number> | null
+  duration_options?: number[] | null
+  resolution_options?: string[] | null
+  parameter_schema?: Record<string, any> | null
+}
+
+export interface QuoteOptions {
+  duration?: number
+  resolution?: string
+  generateAudio?: boolean
+  sequentialImageGeneration?: 'disabled' | 'auto'
+  maxImages?: number
+}
+
+export type QuoteLineItemKind = 'base' | 'audio' | 'duration' | 'resolution' | 'images'
+
+export interface QuoteLineItem {
+  kind: QuoteLineItemKind
+  label: string
+  detail: string
+  /** Running total after this line, when it changes the price */
+  subtotalCents?: number
+}
+
+export interface PriceQuote {
+  modelSlug: string
+  pricingType: 'per_second' | 'per_run'
+  /** Cost of a single output */
+  unitCostCents: number
+  /** Most this generation can cost - the amount held before it runs */
+  maxCostCents: number
+  /** Outputs billed per run (1 unless sequential generation is on) */
+  maxImages: number
+  sequentialMode: boolean
+  duration?: number
+  resolution?: string
+  generateAudio?: boolean
+  costPerSecondCents?: number
+  resolutionMultiplier?: number
+  lineItems: QuoteLineItem[]
+}
+
+/**
+ * Build an itemized quote for one generation. Duration and resolution fall
+ * back to the model's defaults (and to its first option when invalid), which
+ * is also what gets sent to the provider.
+ */
+export function quoteGeneration(model: PricedModel, options: QuoteOptions = {}): PriceQuote {
+  const lineItems: QuoteLineItem[] = []
+  const sequentialMode = SEQUENTIAL_IMAGE_MODELS.includes(model.slug) &&
+    options.sequentialImageGeneration === 'auto' &&
+    !!options.maxImages && options.maxImages > 1
+  const maxImages = sequentialMode ? Math.min(options.maxImages as number, MAX_SEQUENTIAL_IMAGES) : 1
+
+  let unitCostCents: number
+  let quote: Omit<PriceQuote, 'unitCostCents' | 'maxCostCents' | 'maxImages' | 'sequentialMode' | 'lineItems'>
+
+  if (model.pricing_type === 'per_second') {
+    const paramSchema = model.parameter_schema || {}
+    const durationOptions: number[] = paramSchema.duration?.options || model.duration_options || [5]
+    const resolutionOptions: string[] = paramSchema.resolution?.options || model.resolution_options || ['720p']
+
+    let duration = options.duration ?? paramSchema.duration?.default ?? durationOptions[0]
+    let resolution = options.resolution ?? paramSchema.resolution?.default ?? resolutionOptions[0]
+    if (!durationOptions.includes(duration)) duration = durationOptions[0]
+    if (!resolutionOptions.includes(resolution)) resolution = resolutionOptions[0]
+
+    let costPerSecondCents = model.cost_per_second_cents || 0
+    lineItems.push({ kind: 'base', label: 'Base rate', detail: `${costPerSecondCents}¢/sec` })
+
+    // Veo models price audio separately (audio defaults to on)
+    const audioParam = paramSchema.generate_audio
+    const generateAudio = options.generateAudio ?? audioParam?.default ?? true
+    if (audioParam?.pricing) {
+      costPerSecondCents = generateAudio !== false
+        ? audioParam.pricing.with_audio_cents_per_second
+        : audioParam.pricing.without_audio_cents_per_second
+      lineItems.push({
+        kind: 'audio',
+        label: generateAudio !== false ? 'With audio' : 'Without audio',
+        detail: `${costPerSecondCents}¢/sec`,
+      })
+    }
+
+    lineItems.push({
+      kind: 'duration',
+      label: 'Duration',
+      detail: `${duration}s × ${costPerSecondCents}¢`,
+      subtotalCents: costPerSecondCents * duration,
+    })
+
+    // Resolution multiplier (Wan 2.5 models)
+    const resolutionMultiplier = model.resolution_multipliers?.[resolution] || 1.0
+    unitCostCents = Math.ceil(costPerSecondCents * duration * resolutionMultiplier)
+    if (resolutionMultiplier !== 1.0) {
+      lineItems.push({
+        kind: 'resolution',
+        label: 'Resolution',
+        detail: `${resolution} × ${resolutionMultiplier}`,
+        subtotalCents: unitCostCents,
+      })
+    }
+
+    quote = {
+      modelSlug: model.slug,
+      pricingType: 'per_second',
+      duration,
+      resolution,
+      generateAudio: audioParam ? generateAudio !== false : undefined,
+      costPerSecondCents,
+      resolutionMultiplier,
+    }
+  } else {
+    unitCostCents = model.cost_per_run_cents || 0
+    lineItems.push({
+      kind: 'base',
+      label: sequentialMode ? 'Per image' : 'Per generation',
+      detail: `${unitCostCents}¢`,
+      subtotalCents: unitCostCents,
+    })
+    quote = { modelSlug: model.slug, pricingType: 'per_run' }
+  }
+
+  const maxCostCents = unitCostCents * maxImages
+  if (sequentialMode) {
+    lineItems.push({
+      kind: 'images',
+      label: 'Images',
+      detail: `up to ${maxImages} × ${unitCostCents}¢`,
+      subtotalCents: maxCostCents,
+    })
+  }
+
+  return { ...quote, unitCostCents, maxCostCents, maxImages, sequentialMode, lineItems }
+}
+
+/**
+ * Final charge once outputs exist. Multi-image models bill per image
+ * returned; everything else bills one unit regardless of output count.
+ */
+export function settlementCostCents(modelSlug: string, unitCostCents: number, outputsGenerated: number): number {
+  if (SEQUENTIAL_IMAGE_MODELS.includes(modelSlug) && outputsGenerated > 1) {
+    return unitCostCents * Math.min(outputsGenerated, MAX_SEQUENTIAL_IMAGES)
+  }
+  return unitCostCents
+}
+
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`
+}
@@ -0,0 +1,74 @@
+import { GenerationProvider, ProviderName, ProviderPrediction } from './types'
+import { createReplicateProvider } from './replicate'
+import { createMockProvider } from './mock'
+
+export * from './types'
+
+/**
+ * Generation provider registry.
+ *
+ * GENERATION_PROVIDER overrides the provider for every model (set it to
+ * "mock" to run offline); otherwise a studio_models row picks its own
+ * provider, defaulting to Replicate. The mock provider is refused in
+ * production unless GENERATION_PROVIDER explicitly asks for it, so a forged
+ * mock webhook can't complete real generations.
+ */
+
+const providers: Partial<Record<ProviderName, GenerationProvider>> = {}
+
+export function isMockProviderEnabled(): boolean {
+  return process.env.GENERATION_PROVIDER === 'mock' || process.env.NODE_ENV !== 'production'
+}
+
+export function getGenerationProvider(
+  name?: string | null,
+  options: { replicateToken?: string } = {}
+): GenerationProvider {
+  const providerName = (name || 'replicate') as ProviderName
+
+  if (providerName === 'mock') {
+    if (!isMockProviderEnabled()) {
+      throw new Error('Mock generation provider is disabled in production')
+    }
+    return providers.mock ??= createMockProvider()
+  }
+
+  if (providerName === 'replicate') {
+    // A custom token (Netlify functions) gets its own client
+    if (options.replicateToken) {
+      return createReplicateProvider(options.replicateToken)
+    }
+    return providers.replicate ??= createReplicateProvider()
+  }
+
+  throw new Error(`Unknown generation provider: ${providerName}`)
+}
+
+export function getProviderForModel(studioModel: { provider?: string | null }): GenerationProvider {
+  return getGenerationProvider(process.env.GENERATION_PROVIDER || studioModel.provider)
+}
+
+// Webhooks name their provider in a header; Replicate doesn't send one
+export function getProviderForWebhook(headers: Headers): GenerationProvider {
+  return getGenerationProvider(headers.get('x-generation-provider'))
+}
+
+/**
+ * Poll a prediction until it finishes or the timeout passes.
+ * Returns the last seen state either way.
+ */
+export async function waitForPrediction(
+  provider: GenerationProvider,
+  prediction: ProviderPrediction,
+  timeoutMs: number,
+  intervalMs = 1000
+): Promise<ProviderPrediction> {
+  const startTime = Date.now()
+  let current = prediction
+  while (current.status === 'starting' || current.status === 'processing') {
+    if (Date.now() - startTime > timeoutMs) break
+    await new Promise(resolve => setTimeout(resolve, intervalMs))
+    current = await provider.getPrediction(current.id)
+  }
+  return current
+}
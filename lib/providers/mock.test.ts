@@ -0,0 +1,181 @@
+import { test, expect } from '@playwright/test'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { createMockProvider } from './mock'
+import { getProviderForWebhook, waitForPrediction } from './index'
+
+const SECRET = `whsec_${Buffer.from('mock-provider-test-secret').toString('base64')}`
+
+interface ReceivedWebhook {
+  body: string
+  headers: Headers
+}
+
+// A local endpoint standing in for the app's webhook route
+async function startWebhookReceiver() {
+  const received: ReceivedWebhook[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      const headers = new Headers()
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') headers.set(name, value)
+      }
+      received.push({ body, headers })
+      res.end('ok')
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}/api/webhooks/replicate`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  }
+}
+
+async function waitForWebhooks(received: ReceivedWebhook[], count: number, timeoutMs = 2000) {
+  const start = Date.now()
+  while (received.length < count && Date.now() - start < timeoutMs) {
+    await new Promise(resolve => setTimeout(resolve, 20))
+  }
+}
+
+test.beforeEach(() => {
+  process.env.MOCK_PROVIDER_LATENCY_MS = '60'
+  process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000'
+})
+
+test.afterEach(() => {
+  delete process.env.MOCK_PROVIDER_LATENCY_MS
+  delete process.env.MOCK_PROVIDER_WEBHOOK_SECRET
+})
+
+// === SUBMIT TO WEBHOOK ===
+
+test.describe('mock provider generation', () => {
+  test('delivers a signed webhook that completes the prediction', async () => {
+    process.env.MOCK_PROVIDER_WEBHOOK_SECRET = SECRET
+    const receiver = await startWebhookReceiver()
+    const provider = createMockProvider()
+
+    try {
+      const prediction = await provider.createPrediction({
+        model: 'bytedance/seedream-4.5',
+        input: { prompt: 'a lighthouse at dusk', sequential_image_generation: 'auto', max_images: 3 },
+        webhookUrl: receiver.url,
+      })
+      expect(prediction.status).toBe('starting')
+      expect(prediction.output).toBeNull()
+
+      await waitForWebhooks(receiver.received, 1)
+      expect(receiver.received).toHaveLength(1)
+
+      const { body, headers } = receiver.received[0]
+      const webhookProvider = getProviderForWebhook(headers)
+      expect(webhookProvider.name).toBe('mock')
+      expect(webhookProvider.verifyWebhook(body, headers)).toBe(true)
+
+      const completed = webhookProvider.parseWebhook(body)
+      expect(completed).toMatchObject({ id: prediction.id, status: 'succeeded', error: null })
+      const output = completed.output as string[]
+      expect(output).toHaveLength(3)
+      expect(output[0]).toContain('/api/mock-provider/output?seed=')
+      expect(completed.completedAt).not.toBeNull()
+    } finally {
+      await receiver.close()
+    }
+  })
+
+  test('answers polling with the same result the webhook reports', async () => {
+    const provider = createMockProvider()
+    const prediction = await provider.createPrediction({
+      model: 'bytedance/seedream-4.5',
+      input: { prompt: 'a lighthouse at dusk' },
+    })
+
+    const finished = await waitForPrediction(provider, prediction, 2000, 20)
+    expect(finished.status).toBe('succeeded')
+    expect(finished.output).toHaveLength(1)
+    expect(await provider.getPrediction(prediction.id)).toEqual(finished)
+  })
+
+  test('fails predictions whose prompt asks for it', async () => {
+    const provider = createMockProvider()
+    const prediction = await provider.createPrediction({
+      model: 'google/veo-3.1',
+      input: { prompt: 'a storm [mock:fail]', duration: 8 },
+    })
+
+    const finished = await waitForPrediction(provider, prediction, 2000, 20)
+    expect(finished).toMatchObject({ status: 'failed', output: null, error: 'Mock provider failure requested by prompt' })
+  })
+})
+
+// === WEBHOOK SECRET ===
+
+test.describe('mock provider webhook secret', () => {
+  test('sends no webhook and accepts none without a secret', async () => {
+    const receiver = await startWebhookReceiver()
+    const provider = createMockProvider()
+
+    try {
+      await provider.createPrediction({
+        model: 'bytedance/seedream-4.5',
+        input: { prompt: 'a lighthouse at dusk' },
+        webhookUrl: receiver.url,
+      })
+      await waitForWebhooks(receiver.received, 1, 300)
+      expect(receiver.received).toHaveLength(0)
+    } finally {
+      await receiver.close()
+    }
+
+    // Even a correctly signed webhook is refused once the secret is unset
+    process.env.MOCK_PROVIDER_WEBHOOK_SECRET = SECRET
+    const signing = await startWebhookReceiver()
+    try {
+      await provider.createPrediction({
+        model: 'bytedance/seedream-4.5',
+        input: { prompt: 'a lighthouse at dusk' },
+        webhookUrl: signing.url,
+      })
+      await waitForWebhooks(signing.received, 1)
+    } finally {
+      await signing.close()
+    }
+    delete process.env.MOCK_PROVIDER_WEBHOOK_SECRET
+
+    const { body, headers } = signing.received[0]
+    expect(provider.hasWebhookSecret()).toBe(false)
+    expect(provider.verifyWebhook(body, headers)).toBe(false)
+  })
+
+  test('rejects webhooks signed with another secret or with a changed body', async () => {
+    process.env.MOCK_PROVIDER_WEBHOOK_SECRET = SECRET
+    const receiver = await startWebhookReceiver()
+    const provider = createMockProvider()
+
+    try {
+      await provider.createPrediction({
+        model: 'bytedance/seedream-4.5',
+        input: { prompt: 'a lighthouse at dusk' },
+        webhookUrl: receiver.url,
+      })
+      await waitForWebhooks(receiver.received, 1)
+    } finally {
+      await receiver.close()
+    }
+
+    const { body, headers } = receiver.received[0]
+    expect(provider.verifyWebhook(body, headers)).toBe(true)
+
+    const forged = body.replace('"succeeded"', '"failed"')
+    expect(provider.verifyWebhook(forged, headers)).toBe(false)
+
+    process.env.MOCK_PROVIDER_WEBHOOK_SECRET = `whsec_${Buffer.from('another-secret').toString('base64')}`
+    expect(provider.verifyWebhook(body, headers)).toBe(false)
+  })
+})
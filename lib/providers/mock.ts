@@ -0,0 +1,203 @@
+import crypto from 'crypto'
+import { GenerationProvider, ProviderPrediction, CreatePredictionRequest, PredictionStatus } from './types'
+import { verifySignedWebhook, signWebhook } from './replicate'
+
+/**
+ * Deterministic local provider for offline development.
+ *
+ * Nothing is stored: the prediction id encodes when it was created, whether
+ * it is an image or video, how many outputs it returns and a hash of the
+ * request, so any server instance can answer `getPrediction`. Outputs are
+ * placeholder SVGs served by /api/mock-provider/output.
+ *
+ * - Predictions finish after MOCK_PROVIDER_LATENCY_MS (default 3s)
+ * - A prompt containing "[mock:fail]" produces a failed prediction
+ * - MOCK_PROVIDER_VIDEO_URL replaces the video placeholder with a real clip
+ * - When a webhook URL is given and MOCK_PROVIDER_WEBHOOK_SECRET is set, a
+ *   signed webhook is posted on completion; without a secret, polling and the
+ *   sweeper finish mock jobs
+ */
+
+const DEFAULT_LATENCY_MS = 3000
+
+// Cancellations only live in this process - good enough for local runs
+const canceledIds = new Set<string>()
+
+function getLatencyMs(): number {
+  const value = Number(process.env.MOCK_PROVIDER_LATENCY_MS)
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_LATENCY_MS
+}
+
+// No default - a secret anyone can read in the source would let them forge webhooks
+export function getMockWebhookSecret(): string {
+  return process.env.MOCK_PROVIDER_WEBHOOK_SECRET || ''
+}
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+}
+
+// Video models take a duration; image models don't
+function isVideoRequest(input: Record<string, any>): boolean {
+  return input.duration !== undefined || input.start_image !== undefined || input.first_frame_image !== undefined
+}
+
+interface DecodedId {
+  createdAt: number
+  kind: 'image' | 'video'
+  count: number
+  fail: boolean
+  seed: string
+}
+
+// Format: mock_<created base36>_<i|v><count>[f]_<seed>
+function encodeId(decoded: DecodedId): string {
+  const flags = `${decoded.kind === 'video' ? 'v' : 'i'}${decoded.count}${decoded.fail ? 'f' : ''}`
+  return `mock_${decoded.createdAt.toString(36)}_${flags}_${decoded.seed}`
+}
+
+function decodeId(id: string): DecodedId {
+  const match = /^mock_([0-9a-z]+)_([iv])(\d+)(f?)_([0-9a-f]+)$/.exec(id)
+  if (!match) {
+    throw new Error(`Not a mock prediction: ${id}`)
+  }
+  return {
+    createdAt: parseInt(match[1], 36),
+    kind: match[2] === 'v' ? 'video' : 'image',
+    count: parseInt(match[3], 10),
+    fail: match[4] === 'f',
+    seed: match[5],
+  }
+}
+
+function buildOutput(decoded: DecodedId): string[] {
+  if (decoded.kind === 'video' && process.env.MOCK_PROVIDER_VIDEO_URL) {
+    return [process.env.MOCK_PROVIDER_VIDEO_URL]
+  }
+  return Array.from({ length: decoded.count }, (_, index) =>
+    `${getAppUrl()}/api/mock-provider/output?seed=${decoded.seed}&index=${index}&kind=${decoded.kind}`
+  )
+}
+
+function predictionAt(id: string, now: number): ProviderPrediction {
+  const decoded = decodeId(id)
+  const elapsed = now - decoded.createdAt
+  const latency = getLatencyMs()
+  const createdIso = new Date(decoded.createdAt).toISOString()
+
+  let status: PredictionStatus
+  if (canceledIds.has(id)) status = 'canceled'
+  else if (elapsed < latency / 3) status = 'starting'
+  else if (elapsed < latency) status = 'processing'
+  else status = decoded.fail ? 'failed' : 'succeeded'
+
+  const done = status === 'succeeded' || status === 'failed' || status === 'canceled'
+  return {
+    id,
+    status,
+    output: status === 'succeeded' ? buildOutput(decoded) : null,
+    error: status === 'failed' ? 'Mock provider failure requested by prompt' : null,
+    metrics: done ? { predict_time: latency / 1000 } : undefined,
+    startedAt: createdIso,
+    completedAt: done ? new Date(decoded.createdAt + latency).toISOString() : null,
+  }
+}
+
+async function deliverWebhook(webhookUrl: string, prediction: ProviderPrediction) {
+  const body = JSON.stringify({
+    id: prediction.id,
+    status: prediction.status,
+    output: prediction.output,
+    error: prediction.error,
+    metrics: prediction.metrics,
+    started_at: prediction.startedAt,
+    completed_at: prediction.completedAt,
+  })
+  const webhookId = `msg_${prediction.id}`
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+
+  try {
+    await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-generation-provider': 'mock',
+        'webhook-id': webhookId,
+        'webhook-timestamp': timestamp,
+        'webhook-signature': `v1,${signWebhook(body, webhookId, timestamp, getMockWebhookSecret())}`,
+      },
+      body,
+    })
+  } catch (error) {
+    console.error('[Mock Provider] Webhook delivery failed:', error)
+  }
+}
+
+export function createMockProvider(): GenerationProvider {
+  return {
+    name: 'mock',
+
+    async createPrediction({ model, input, webhookUrl }: CreatePredictionRequest) {
+      const kind = isVideoRequest(input) ? 'video' : 'image'
+      const count = kind === 'image' && input.sequential_image_generation === 'auto' && input.max_images
+        ? Math.max(1, Math.min(Number(input.max_images), 15))
+        : 1
+      const seed = crypto
+        .createHash('sha256')
+        .update(`${model}:${JSON.stringify(input)}`)
+        .digest('hex')
+        .slice(0, 12)
+
+      const id = encodeId({
+        createdAt: Date.now(),
+        kind,
+        count,
+        fail: String(input.prompt || '').includes('[mock:fail]'),
+        seed,
+      })
+      console.log('[Mock Provider] Created prediction:', id, 'for', model)
+
+      if (webhookUrl && getMockWebhookSecret()) {
+        setTimeout(() => {
+          deliverWebhook(webhookUrl, predictionAt(id, Date.now()))
+        }, getLatencyMs() + 50)
+      }
+
+      return predictionAt(id, Date.now())
+    },
+
+    async getPrediction(id: string) {
+      return predictionAt(id, Date.now())
+    },
+
+    async cancelPrediction(id: string) {
+      const current = predictionAt(id, Date.now())
+      if (current.status === 'starting' || current.status === 'processing') {
+        canceledIds.add(id)
+      }
+      return predictionAt(id, Date.now())
+    },
+
+    verifyWebhook(body: string, headers: Headers) {
+      const secret = getMockWebhookSecret()
+      return !!secret && verifySignedWebhook(body, headers, secret)
+    },
+
+    hasWebhookSecret() {
+      return !!getMockWebhookSecret()
+    },
+
+    parseWebhook(body: string) {
+      const payload = JSON.parse(body)
+      return {
+        id: payload.id,
+        status: payload.status,
+        output: payload.output,
+        error: payload.error ?? null,
+        metrics: payload.metrics,
+        startedAt: payload.started_at ?? null,
+        completedAt: payload.completed_at ?? null,
+      }
+    },
+  }
+}
@@ -0,0 +1,41 @@
+// ============================================
+// Generation Provider Types
+// ============================================
+
+export type ProviderName = 'replicate' | 'mock'
+
+export type PredictionStatus = 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled'
+
+// Provider-neutral view of a prediction. Output is left in the provider's own
+// shape; route handlers already know how to pull URLs out of it.
+export interface ProviderPrediction {
+  id: string
+  status: PredictionStatus
+  output?: unknown
+  error?: string | null
+  metrics?: {
+    predict_time?: number
+  }
+  startedAt?: string | null
+  completedAt?: string | null
+}
+
+export interface CreatePredictionRequest {
+  // Provider model identifier (studio_models.replicate_model for Replicate)
+  model: string
+  input: Record<string, any>
+  // Called once the prediction reaches a terminal state
+  webhookUrl?: string
+}
+
+export interface GenerationProvider {
+  name: ProviderName
+  createPrediction(request: CreatePredictionRequest): Promise<ProviderPrediction>
+  getPrediction(id: string): Promise<ProviderPrediction>
+  cancelPrediction(id: string): Promise<ProviderPrediction>
+  // Checks the signature headers against the raw request body
+  verifyWebhook(body: string, headers: Headers): boolean
+  // Whether a webhook secret is configured - unsigned webhooks are accepted without one
+  hasWebhookSecret(): boolean
+  parseWebhook(body: string): ProviderPrediction
+}
@@ -106,6 +106,12 @@ export const RATE_LIMITS = {
   // Generation: 10 per minute (expensive operation)
   generate: { limit: 10, windowMs: 60 * 1000 },
 
+  // Batch generation: 3 per minute (each one fans out to many generations)
+  batch: { limit: 3, windowMs: 60 * 1000 },
+
+  // Animatic renders: 3 per 10 minutes (each one ties up ffmpeg for minutes)
+  animatic: { limit: 3, windowMs: 10 * 60 * 1000 },
+
   // Upload: 20 per minute
   upload: { limit: 20, windowMs: 60 * 1000 },
 
@@ -4,6 +4,7 @@
 // ============================================
 
 import Replicate from 'replicate'
+import { getGenerationProvider, waitForPrediction } from '@/lib/providers'
 
 // Initialize Replicate client (server-side only)
 export function getReplicateClient() {
@@ -145,7 +146,7 @@ export interface GenerateImageResult {
 export async function generateImage(
   params: GenerateImageParams
 ): Promise<GenerateImageResult> {
-  const replicate = getReplicateClient()
+  const provider = getGenerationProvider(process.env.GENERATION_PROVIDER)
 
   // Model mapping to Replicate IDs
   const modelMap: Record<string, string> = {
@@ -168,7 +169,17 @@ export async function generateImage(
   if (params.height) input.height = params.height
   if (params.negativePrompt) input.negative_prompt = params.negativePrompt
 
-  const output = await replicate.run(replicateModel as `${string}/${string}` | `${string}/${string}:${string}`, { input })
+  const prediction = await waitForPrediction(
+    provider,
+    await provider.createPrediction({ model: replicateModel, input }),
+    120000
+  )
+
+  if (prediction.status !== 'succeeded') {
+    throw new Error(prediction.error || `Generation ${prediction.status}`)
+  }
+
+  const output = prediction.output
 
   // Handle different output formats
   let imageUrl: string
@@ -180,7 +191,7 @@ export async function generateImage(
   } else if (output && typeof output === 'object' && 'url' in output) {
     imageUrl = (output as { url: string }).url
   } else {
-    throw new Error('Unexpected output format from Replicate')
+    throw new Error(`Unexpected output format from ${provider.name}`)
   }
 
   return {
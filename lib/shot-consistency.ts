@@ -0,0 +1,187 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { getEffectiveGeminiApiKey } from '@/lib/platform-settings'
+import { ShotConsistencyCheck } from '@/lib/types'
+
+/**
+ * Entity consistency checks for storyboard shots.
+ *
+ * Once a shot has an image, Gemini looks at it next to the vision context
+ * (and reference image, where there is one) of every entity in the shot and
+ * scores how faithfully each one came through. Entities scoring under the
+ * threshold are flagged as drifted, and so is the shot. The check is stored on
+ * the take it was made for and on the shot while that take is on the board.
+ */
+
+// Scores are 0-100; below this an entity counts as off-model
+export const DRIFT_THRESHOLD = 60
+
+// Entity reference images sent along with the output
+const MAX_ENTITY_IMAGES = 4
+
+const isVideoUrl = (url: string) => /\.(mp4|webm|mov)(\?|$)/i.test(url)
+
+export type ConsistencyCheckResult =
+  | { success: true; check: ShotConsistencyCheck }
+  | { success: false; error: string; code: 'NOTHING_TO_CHECK' | 'NOT_AN_IMAGE' | 'NO_API_KEY' | 'CHECK_FAILED' }
+
+interface CheckedEntity {
+  id: string
+  name: string
+  type: string
+  visionContext: string
+  imageUrl?: string
+}
+
+async function imageUrlToInlineData(imageUrl: string) {
+  const response = await fetch(imageUrl)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status}`)
+  }
+  const arrayBuffer = await response.arrayBuffer()
+  return {
+    inlineData: {
+      data: Buffer.from(arrayBuffer).toString('base64'),
+      mimeType: response.headers.get('content-type') || 'image/jpeg',
+    },
+  }
+}
+
+function buildCheckPrompt(entities: CheckedEntity[], imaged: Set<string>): string {
+  const descriptions = entities.map(entity => {
+    const reference = imaged.has(entity.id) ? ' A reference image of it follows the shot image.' : ''
+    return `- id "${entity.id}" - ${entity.name} (${entity.type}).${reference}\n  ${entity.visionContext.trim().replace(/\s+/g, ' ')}`
+  })
+
+  return `The first image is a generated storyboard shot. It is supposed to show the entities below, each of which has an established look.
+
+${descriptions.join('\n')}
+
+For each entity, score from 0 to 100 how faithfully the shot shows it as described: 100 is unmistakably the same, 0 is wrong or missing. Judge identity and look (face, hair, build, clothing, colors, materials, design, art style), not pose, framing or lighting that the shot itself calls for. List concrete differences as short issues.
+
+Respond with JSON only: {"entities": [{"id": string, "score": number, "issues": string[]}]}`
+}
+
+/**
+ * Score one shot output against its entities with Gemini.
+ */
+export async function checkEntityConsistency(
+  outputUrl: string,
+  generationId: string,
+  entities: CheckedEntity[]
+): Promise<ConsistencyCheckResult> {
+  const checkable = entities.filter(e => e.visionContext?.trim())
+  if (checkable.length === 0) {
+    return { success: false, error: 'None of the shot\'s entities have been analyzed yet', code: 'NOTHING_TO_CHECK' }
+  }
+  if (isVideoUrl(outputUrl)) {
+    return { success: false, error: 'Consistency checks only run on image shots', code: 'NOT_AN_IMAGE' }
+  }
+
+  let apiKey: string
+  try {
+    apiKey = await getEffectiveGeminiApiKey()
+  } catch {
+    return { success: false, error: 'Gemini API key not configured', code: 'NO_API_KEY' }
+  }
+
+  try {
+    const withImages = checkable.filter(e => e.imageUrl).slice(0, MAX_ENTITY_IMAGES)
+    const [output, ...references] = await Promise.all([
+      imageUrlToInlineData(outputUrl),
+      ...withImages.map(e => imageUrlToInlineData(e.imageUrl!)),
+    ])
+
+    const genAI = new GoogleGenerativeAI(apiKey)
+    const model = genAI.getGenerativeModel({
+      model: 'gemini-2.5-flash',
+      generationConfig: { responseMimeType: 'application/json' },
+    })
+
+    const result = await model.generateContent([
+      buildCheckPrompt(checkable, new Set(withImages.map(e => e.id))),
+      output,
+      ...references,
+    ])
+    const parsed = JSON.parse((await result.response).text())
+    const scored: any[] = Array.isArray(parsed?.entities) ? parsed.entities : []
+
+    const checkedEntities = checkable.map(entity => {
+      const match = scored.find(s => s?.id === entity.id)
+      const score = Math.max(0, Math.min(100, Math.round(Number(match?.score) || 0)))
+      return {
+        entityId: entity.id,
+        entityName: entity.name,
+        score,
+        drifted: score < DRIFT_THRESHOLD,
+        issues: Array.isArray(match?.issues) ? match.issues.filter((i: unknown) => typeof i === 'string').slice(0, 5) : [],
+      }
+    })
+
+    return {
+      success: true,
+      check: {
+        generationId,
+        checkedAt: new Date().toISOString(),
+        drifted: checkedEntities.some(e => e.drifted),
+        entities: checkedEntities,
+      },
+    }
+  } catch (error) {
+    console.error('[Consistency] Check failed:', error)
+    return { success: false, error: 'Consistency check failed', code: 'CHECK_FAILED' }
+  }
+}
+
+/**
+ * Check a shot's generation against the entities currently on the shot and
+ * store the result on its take, and on the shot if it's still on the board.
+ */
+export async function runShotConsistencyCheck(shotId: string, generationId: string): Promise<ConsistencyCheckResult> {
+  const [{ data: generation }, { data: entityRefs }] = await Promise.all([
+    sbAdmin.from('generations').select('output_urls').eq('id', generationId).maybeSingle(),
+    sbAdmin
+      .from('shot_entity_references')
+      .select('storyboard_entities ( id, entity_type, entity_name, primary_image_url, vision_context )')
+      .eq('shot_id', shotId),
+  ])
+
+  const outputUrl = generation?.output_urls?.[0]
+  if (!outputUrl) {
+    return { success: false, error: 'Generation has no output yet', code: 'NOTHING_TO_CHECK' }
+  }
+
+  const entities: CheckedEntity[] = (entityRefs || [])
+    .map((ref: any) => ref.storyboard_entities)
+    .filter(Boolean)
+    .map((e: any) => ({
+      id: e.id,
+      name: e.entity_name,
+      type: e.entity_type,
+      visionContext: e.vision_context || '',
+      imageUrl: e.primary_image_url || undefined,
+    }))
+
+  const result = await checkEntityConsistency(outputUrl, generationId, entities)
+  if (!result.success) return result
+
+  await Promise.all([
+    sbAdmin
+      .from('storyboard_shot_takes')
+      .update({ consistency: result.check })
+      .eq('shot_id', shotId)
+      .eq('generation_id', generationId),
+    sbAdmin
+      .from('storyboard_shots')
+      .update({ consistency: result.check })
+      .eq('id', shotId)
+      .eq('generation_id', generationId),
+  ])
+
+  if (result.check.drifted) {
+    const drifted = result.check.entities.filter(e => e.drifted).map(e => e.entityName)
+    console.log(`[Consistency] Shot ${shotId} drifted on: ${drifted.join(', ')}`)
+  }
+
+  return result
+}
@@ -0,0 +1,118 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { ShotTake } from '@/lib/types'
+
+/**
+ * Storyboard shot takes.
+ *
+ * Each generation started for a shot is recorded as a take with what went
+ * into it. The shot's generation_id is still what the board renders; when a
+ * take finishes it becomes the selected take, and promoting an older one
+ * points the shot back at that take's generation without generating again.
+ */
+
+export const SHOT_TAKE_FIELDS = `
+  id, shot_id, take_number, generation_id, prompt, model_slug, entity_refs, reference_images, consistency, created_at,
+  generations ( output_urls, replicate_status, job_status, cost_cents )
+`
+
+const FAILED_JOB_STATUSES = ['failed', 'timed_out', 'canceled']
+
+export function toShotTake(row: any): ShotTake {
+  const generation = row.generations
+  const outputUrls: string[] = generation?.output_urls || []
+
+  let status: ShotTake['status'] = 'generating'
+  if (!generation || FAILED_JOB_STATUSES.includes(generation.job_status) || generation.replicate_status === 'failed' || generation.replicate_status === 'canceled') {
+    status = 'failed'
+  }
+  if (generation?.replicate_status === 'succeeded' && outputUrls.length > 0) {
+    status = 'completed'
+  }
+
+  return {
+    id: row.id,
+    shotId: row.shot_id,
+    takeNumber: row.take_number,
+    generationId: row.generation_id || undefined,
+    prompt: row.prompt || undefined,
+    modelSlug: row.model_slug || undefined,
+    entities: Array.isArray(row.entity_refs) ? row.entity_refs : [],
+    referenceImages: row.reference_images || [],
+    status,
+    outputUrls,
+    costCents: generation?.cost_cents ?? undefined,
+    consistency: row.consistency || undefined,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Record a new take for a generation that was just started for a shot.
+ * Take numbers count up per shot; a clash with a concurrent insert retries
+ * with the next number.
+ */
+export async function recordShotTake(
+  shot: { id: string; storyboard_id: string },
+  generationId: string,
+  details: {
+    prompt?: string
+    modelSlug?: string
+    entities?: ShotTake['entities']
+    referenceImages?: string[]
+  }
+): Promise<string | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: latest } = await sbAdmin
+      .from('storyboard_shot_takes')
+      .select('take_number')
+      .eq('shot_id', shot.id)
+      .order('take_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data: take, error } = await sbAdmin
+      .from('storyboard_shot_takes')
+      .insert({
+        shot_id: shot.id,
+        storyboard_id: shot.storyboard_id,
+        take_number: (latest?.take_number || 0) + 1,
+        generation_id: generationId,
+        prompt: details.prompt,
+        model_slug: details.modelSlug,
+        entity_refs: details.entities || [],
+        reference_images: details.referenceImages || [],
+      })
+      .select('id')
+      .single()
+
+    if (take) return take.id
+    // 23505 = unique violation on (shot_id, take_number)
+    if (error?.code !== '23505') {
+      console.error('[Takes] Failed to record take:', error)
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * Make the take for `generationId` the shot's selected take, once it has
+ * finished. Returns the take id, or null if the generation has no take.
+ */
+export async function selectTakeForGeneration(shotId: string, generationId: string): Promise<string | null> {
+  const { data: take } = await sbAdmin
+    .from('storyboard_shot_takes')
+    .select('id')
+    .eq('shot_id', shotId)
+    .eq('generation_id', generationId)
+    .maybeSingle()
+
+  if (!take) return null
+
+  await sbAdmin
+    .from('storyboard_shots')
+    .update({ selected_take_id: take.id })
+    .eq('id', shotId)
+
+  return take.id
+}
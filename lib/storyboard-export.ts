@@ -0,0 +1,472 @@
+import { Storyboard, StoryboardShot, StoryboardEntity } from '@/lib/types'
+import {
+  createPdfDocument,
+  drawText,
+  drawRect,
+  drawImage,
+  wrapText,
+  measureText,
+  PdfPage,
+  PdfColor,
+  LETTER_LANDSCAPE,
+} from '@/lib/pdf-writer'
+
+/**
+ * Storyboard exports.
+ *
+ * Turns a storyboard into files for people outside the studio: a printable
+ * PDF shot sheet (a grid, or one shot per page), a CSV or JSON shot list, and
+ * a CMX3600 EDL or FCPXML timeline that puts the shots, in order and at their
+ * durations, into an NLE. Pure functions - the export dialog loads the frames
+ * and downloads the result.
+ */
+
+export type StoryboardExportFormat = 'pdf' | 'csv' | 'json' | 'edl' | 'fcpxml'
+export type PdfLayout = 'grid' | 'single'
+
+export const SHOT_LIST_FORMAT = 'skinny-studio-shot-list'
+export const SHOT_LIST_VERSION = 1
+
+// Timelines are laid out at 24fps, the rate the animatic renders at
+const TIMELINE_FPS = 24
+
+export interface ExportFrame {
+  // Baseline JPEG bytes
+  jpeg: Uint8Array
+  width: number
+  height: number
+}
+
+export interface StoryboardExportFile {
+  filename: string
+  mimeType: string
+  content: string | Uint8Array
+}
+
+export const EXPORT_FORMATS: { id: StoryboardExportFormat; label: string; description: string }[] = [
+  { id: 'pdf', label: 'PDF', description: 'Printable shot sheets with frames' },
+  { id: 'csv', label: 'CSV', description: 'Shot list for spreadsheets' },
+  { id: 'json', label: 'JSON', description: 'Shot list for scripts and tools' },
+  { id: 'edl', label: 'EDL', description: 'CMX3600 timeline for most NLEs' },
+  { id: 'fcpxml', label: 'FCPXML', description: 'Timeline for Final Cut Pro and Resolve' },
+]
+
+// ============================================
+// SHARED HELPERS
+// ============================================
+
+const shotLabel = (shot: StoryboardShot) => `Shot ${String(shot.shotNumber).padStart(2, '0')}`
+
+const shotFrames = (shot: StoryboardShot) => Math.max(1, Math.round((shot.durationSeconds || 0) * TIMELINE_FPS))
+
+function orderedShots(shots: StoryboardShot[]): StoryboardShot[] {
+  return [...shots].sort((a, b) => a.sortOrder - b.sortOrder || a.shotNumber - b.shotNumber)
+}
+
+function entityNames(shot: StoryboardShot, entities: StoryboardEntity[]): string[] {
+  return (shot.entities || [])
+    .map(ref => entities.find(e => e.id === ref.entityId)?.entityName)
+    .filter((name): name is string => !!name)
+}
+
+// HH:MM:SS:FF at the timeline rate
+export function framesToTimecode(frames: number, startHour = 0): string {
+  const totalSeconds = Math.floor(frames / TIMELINE_FPS)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return [
+    pad(startHour + Math.floor(totalSeconds / 3600)),
+    pad(Math.floor(totalSeconds / 60) % 60),
+    pad(totalSeconds % 60),
+    pad(frames % TIMELINE_FPS),
+  ].join(':')
+}
+
+export function getExportFilename(storyboard: Storyboard, format: StoryboardExportFormat): string {
+  const slug = storyboard.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'storyboard'
+  return `${slug}.${format}`
+}
+
+// ============================================
+// SHOT LISTS
+// ============================================
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function buildShotListCsv(shots: StoryboardShot[], entities: StoryboardEntity[]): string {
+  const header = [
+    'shot_number', 'title', 'description', 'camera_angle', 'camera_movement', 'duration_seconds',
+    'timecode_in', 'media_type', 'status', 'model', 'prompt', 'entities', 'frame_url',
+  ]
+
+  let position = 0
+  const rows = orderedShots(shots).map(shot => {
+    const timecodeIn = framesToTimecode(position)
+    position += shotFrames(shot)
+    return [
+      shot.shotNumber,
+      shot.title,
+      shot.description,
+      shot.cameraAngle,
+      shot.cameraMovement,
+      shot.durationSeconds,
+      timecodeIn,
+      shot.mediaType,
+      shot.status,
+      shot.modelSlug,
+      shot.prompt || shot.aiSuggestedPrompt,
+      entityNames(shot, entities).join('; '),
+      shot.generatedImageUrl,
+    ]
+  })
+
+  // CRLF per RFC 4180, which is what spreadsheet apps expect
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+export function buildShotListJson(storyboard: Storyboard, shots: StoryboardShot[], entities: StoryboardEntity[]): string {
+  let position = 0
+  return JSON.stringify({
+    format: SHOT_LIST_FORMAT,
+    version: SHOT_LIST_VERSION,
+    exportedAt: new Date().toISOString(),
+    storyboard: {
+      title: storyboard.title,
+      description: storyboard.description,
+      genre: storyboard.genre,
+      mood: storyboard.mood,
+      styleNotes: storyboard.styleNotes,
+      aspectRatio: storyboard.defaultAspectRatio,
+    },
+    fps: TIMELINE_FPS,
+    shots: orderedShots(shots).map(shot => {
+      const timecodeIn = framesToTimecode(position)
+      position += shotFrames(shot)
+      return {
+        shotNumber: shot.shotNumber,
+        title: shot.title,
+        description: shot.description,
+        cameraAngle: shot.cameraAngle,
+        cameraMovement: shot.cameraMovement,
+        durationSeconds: shot.durationSeconds,
+        timecodeIn,
+        timecodeOut: framesToTimecode(position),
+        mediaType: shot.mediaType,
+        status: shot.status,
+        modelSlug: shot.modelSlug,
+        prompt: shot.prompt || shot.aiSuggestedPrompt,
+        entities: entityNames(shot, entities),
+        frameUrl: shot.generatedImageUrl,
+      }
+    }),
+    entities: entities.map(entity => ({
+      name: entity.entityName,
+      type: entity.entityType,
+      description: entity.entityDescription,
+      imageUrl: entity.primaryImageUrl,
+    })),
+  }, null, 2)
+}
+
+// ============================================
+// TIMELINES
+// ============================================
+
+/**
+ * CMX3600 EDL. Every shot is its own reel-less event ("AX") cut end to end
+ * from 01:00:00:00; the clip name and source URL ride along as comments so
+ * the NLE can relink them.
+ */
+export function buildEdl(storyboard: Storyboard, shots: StoryboardShot[]): string {
+  // EDL titles are plain ASCII on one line
+  const title = storyboard.title.replace(/[^\x20-\x7e]/g, '').slice(0, 70) || 'Storyboard'
+  const lines = [`TITLE: ${title}`, 'FCM: NON-DROP FRAME', '']
+
+  let position = 0
+  orderedShots(shots).forEach((shot, index) => {
+    const frames = shotFrames(shot)
+    const event = String(index + 1).padStart(3, '0')
+    lines.push(
+      `${event}  AX       V     C        ${framesToTimecode(0)} ${framesToTimecode(frames)} ${framesToTimecode(position, 1)} ${framesToTimecode(position + frames, 1)}`,
+      `* FROM CLIP NAME: ${[shotLabel(shot), shot.title].filter(Boolean).join(' - ').replace(/[^\x20-\x7e]/g, '')}`
+    )
+    if (shot.generatedImageUrl) lines.push(`* SOURCE FILE: ${shot.generatedImageUrl}`)
+    lines.push('')
+    position += frames
+  })
+
+  return lines.join('\n')
+}
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Rational time at the timeline rate, e.g. "120/24s"
+const fcpTime = (frames: number) => `${frames}/${TIMELINE_FPS}s`
+
+/**
+ * FCPXML 1.9 project with one clip per shot. Shots without a frame become
+ * gaps of the same length so the cut keeps its timing.
+ */
+export function buildFcpxml(storyboard: Storyboard, shots: StoryboardShot[]): string {
+  const [w, h] = (storyboard.defaultAspectRatio || '16:9').split(':').map(Number)
+  const ratio = w > 0 && h > 0 ? w / h : 16 / 9
+  const width = ratio >= 1 ? Math.round((1080 * ratio) / 2) * 2 : 1080
+  const height = ratio >= 1 ? 1080 : Math.round(1080 / ratio / 2) * 2
+
+  const ordered = orderedShots(shots)
+  const assets: string[] = []
+  const spine: string[] = []
+  let position = 0
+
+  ordered.forEach((shot, index) => {
+    const frames = shotFrames(shot)
+    const name = xmlEscape([shotLabel(shot), shot.title].filter(Boolean).join(' - '))
+
+    if (shot.generatedImageUrl) {
+      const assetId = `r${index + 2}`
+      assets.push(
+        `    <asset id="${assetId}" name="${name}" start="0s" duration="${fcpTime(frames)}" hasVideo="1" format="r1">`,
+        `      <media-rep kind="original-media" src="${xmlEscape(shot.generatedImageUrl)}"/>`,
+        '    </asset>'
+      )
+      spine.push(`            <asset-clip ref="${assetId}" name="${name}" offset="${fcpTime(position)}" duration="${fcpTime(frames)}" start="0s"/>`)
+    } else {
+      spine.push(`            <gap name="${name}" offset="${fcpTime(position)}" duration="${fcpTime(frames)}" start="0s"/>`)
+    }
+    position += frames
+  })
+
+  const title = xmlEscape(storyboard.title || 'Storyboard')
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" name="FFVideoFormat${height}p${TIMELINE_FPS}" frameDuration="1/${TIMELINE_FPS}s" width="${width}" height="${height}"/>`,
+    ...assets,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${title}">`,
+    `      <project name="${title}">`,
+    `        <sequence format="r1" duration="${fcpTime(position)}" tcStart="0s" tcFormat="NDF">`,
+    '          <spine>',
+    ...spine,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n')
+}
+
+// ============================================
+// PDF SHOT SHEETS
+// ============================================
+
+const MARGIN = 36
+const HEADER_HEIGHT = 44
+const INK: PdfColor = [0.1, 0.1, 0.1]
+const MUTED: PdfColor = [0.45, 0.45, 0.45]
+const RULE: PdfColor = [0.82, 0.82, 0.82]
+const FRAME_BG: PdfColor = [0.93, 0.93, 0.93]
+
+function drawPageHeader(page: PdfPage, storyboard: Storyboard, pageNumber: number, pageCount: number) {
+  drawText(page, storyboard.title || 'Untitled Storyboard', MARGIN, MARGIN, { size: 16, bold: true, color: INK })
+
+  const pageLabel = `Page ${pageNumber} of ${pageCount}`
+  drawText(page, pageLabel, page.width - MARGIN - measureText(pageLabel, 9), MARGIN + 4, { size: 9, color: MUTED })
+
+  const details = [storyboard.genre, storyboard.mood, new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })]
+    .filter(Boolean)
+    .join(' · ')
+  drawText(page, details, MARGIN, MARGIN + 20, { size: 9, color: MUTED })
+  drawRect(page, MARGIN, MARGIN + HEADER_HEIGHT - 8, page.width - MARGIN * 2, 0.5, { fill: RULE })
+}
+
+// Draw the frame (or an empty box) fitted into the given area
+function drawFrame(
+  page: PdfPage,
+  imageName: string | undefined,
+  frame: ExportFrame | undefined,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  drawRect(page, x, y, width, height, { fill: FRAME_BG })
+  if (imageName && frame) {
+    const scale = Math.min(width / frame.width, height / frame.height)
+    const drawWidth = frame.width * scale
+    const drawHeight = frame.height * scale
+    drawImage(page, imageName, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight)
+  } else {
+    const label = 'Not generated'
+    drawText(page, label, x + (width - measureText(label, 9)) / 2, y + height / 2 - 5, { size: 9, color: MUTED })
+  }
+  drawRect(page, x, y, width, height, { stroke: RULE })
+}
+
+function shotMeta(shot: StoryboardShot): string {
+  return [shot.cameraAngle, shot.cameraMovement, `${shot.durationSeconds}s`, shot.mediaType === 'video' ? 'Video' : undefined]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+/**
+ * Printable shot sheets, US Letter landscape. `grid` puts six shots on a
+ * page; `single` gives each shot a page with its full description and prompt.
+ * `frames` holds the JPEG for each shot id that has one.
+ */
+export function buildStoryboardPdf(
+  storyboard: Storyboard,
+  shots: StoryboardShot[],
+  entities: StoryboardEntity[],
+  frames: Record<string, ExportFrame>,
+  layout: PdfLayout
+): Uint8Array {
+  const doc = createPdfDocument()
+  const { width: pageWidth, height: pageHeight } = LETTER_LANDSCAPE
+  const ordered = orderedShots(shots)
+
+  const imageNames: Record<string, string> = {}
+  ordered.forEach(shot => {
+    const frame = frames[shot.id]
+    if (frame) imageNames[shot.id] = doc.addJpeg(frame.jpeg, frame.width, frame.height)
+  })
+
+  const [w, h] = (storyboard.defaultAspectRatio || '16:9').split(':').map(Number)
+  const aspect = w > 0 && h > 0 ? w / h : 16 / 9
+  const contentTop = MARGIN + HEADER_HEIGHT
+  const contentWidth = pageWidth - MARGIN * 2
+  const contentHeight = pageHeight - contentTop - MARGIN
+
+  if (layout === 'grid') {
+    const columns = 3
+    const rows = 2
+    const gutter = 18
+    const cellWidth = (contentWidth - gutter * (columns - 1)) / columns
+    const cellHeight = (contentHeight - gutter * (rows - 1)) / rows
+    const textHeight = 78
+    const frameHeight = Math.min(cellWidth / aspect, cellHeight - textHeight)
+    const frameWidth = Math.min(cellWidth, frameHeight * aspect)
+    const perPage = columns * rows
+    const pageCount = Math.max(1, Math.ceil(ordered.length / perPage))
+
+    for (let p = 0; p < pageCount; p++) {
+      const page = doc.addPage(pageWidth, pageHeight)
+      drawPageHeader(page, storyboard, p + 1, pageCount)
+
+      ordered.slice(p * perPage, (p + 1) * perPage).forEach((shot, i) => {
+        const x = MARGIN + (i % columns) * (cellWidth + gutter)
+        const y = contentTop + Math.floor(i / columns) * (cellHeight + gutter)
+
+        drawFrame(page, imageNames[shot.id], frames[shot.id], x, y, frameWidth, frameHeight)
+
+        let textY = y + frameHeight + 6
+        const heading = [String(shot.shotNumber).padStart(2, '0'), shot.title].filter(Boolean).join('  ')
+        drawText(page, wrapText(heading, frameWidth, { size: 10, bold: true, maxLines: 1 })[0], x, textY, { size: 10, bold: true, color: INK })
+        textY += 14
+        drawText(page, wrapText(shotMeta(shot), frameWidth, { size: 8, maxLines: 1 })[0], x, textY, { size: 8, color: MUTED })
+        textY += 12
+        for (const line of wrapText(shot.description || '', frameWidth, { size: 8, maxLines: 3 })) {
+          drawText(page, line, x, textY, { size: 8, color: INK })
+          textY += 10
+        }
+        const names = entityNames(shot, entities)
+        if (names.length > 0) {
+          drawText(page, wrapText(names.join(', '), frameWidth, { size: 7, maxLines: 1 })[0], x, textY + 2, { size: 7, color: MUTED })
+        }
+      })
+    }
+  } else {
+    const frameWidth = contentWidth * 0.6
+    const frameHeight = Math.min(frameWidth / aspect, contentHeight)
+    const detailsX = MARGIN + frameWidth + 24
+    const detailsWidth = pageWidth - MARGIN - detailsX
+    const pageCount = Math.max(1, ordered.length)
+
+    if (ordered.length === 0) {
+      drawPageHeader(doc.addPage(pageWidth, pageHeight), storyboard, 1, 1)
+    }
+
+    ordered.forEach((shot, i) => {
+      const page = doc.addPage(pageWidth, pageHeight)
+      drawPageHeader(page, storyboard, i + 1, pageCount)
+      drawFrame(page, imageNames[shot.id], frames[shot.id], MARGIN, contentTop, frameWidth, frameHeight)
+
+      let y = contentTop
+      drawText(page, shotLabel(shot), detailsX, y, { size: 9, bold: true, color: MUTED })
+      y += 14
+      for (const line of wrapText(shot.title || 'Untitled shot', detailsWidth, { size: 14, bold: true, maxLines: 2 })) {
+        drawText(page, line, detailsX, y, { size: 14, bold: true, color: INK })
+        y += 18
+      }
+      y += 6
+
+      const fields: [string, string | undefined][] = [
+        ['Camera angle', shot.cameraAngle],
+        ['Camera movement', shot.cameraMovement],
+        ['Duration', `${shot.durationSeconds}s`],
+        ['Media', shot.mediaType === 'video' ? 'Video' : 'Image'],
+        ['Entities', entityNames(shot, entities).join(', ') || undefined],
+      ]
+      for (const [label, value] of fields) {
+        if (!value) continue
+        drawText(page, label.toUpperCase(), detailsX, y, { size: 7, bold: true, color: MUTED })
+        y += 10
+        for (const line of wrapText(value, detailsWidth, { size: 9, maxLines: 2 })) {
+          drawText(page, line, detailsX, y, { size: 9, color: INK })
+          y += 12
+        }
+        y += 4
+      }
+
+      // Description and prompt get whatever room is left
+      const sections: [string, string | undefined][] = [
+        ['Description', shot.description],
+        ['Prompt', shot.prompt || shot.aiSuggestedPrompt],
+      ]
+      for (const [label, value] of sections) {
+        const roomLines = Math.floor((pageHeight - MARGIN - y - 10) / 12)
+        if (!value || roomLines < 1) continue
+        drawText(page, label.toUpperCase(), detailsX, y, { size: 7, bold: true, color: MUTED })
+        y += 10
+        for (const line of wrapText(value, detailsWidth, { size: 9, maxLines: roomLines })) {
+          drawText(page, line, detailsX, y, { size: 9, color: INK })
+          y += 12
+        }
+        y += 4
+      }
+    })
+  }
+
+  return doc.toBytes()
+}
+
+/**
+ * Build the export file for a text format. PDFs need frames loaded first,
+ * so they go through buildStoryboardPdf instead.
+ */
+export function buildTextExport(
+  format: Exclude<StoryboardExportFormat, 'pdf'>,
+  storyboard: Storyboard,
+  shots: StoryboardShot[],
+  entities: StoryboardEntity[]
+): StoryboardExportFile {
+  const filename = getExportFilename(storyboard, format)
+  switch (format) {
+    case 'csv':
+      return { filename, mimeType: 'text/csv', content: buildShotListCsv(shots, entities) }
+    case 'json':
+      return { filename, mimeType: 'application/json', content: buildShotListJson(storyboard, shots, entities) }
+    case 'edl':
+      return { filename, mimeType: 'text/plain', content: buildEdl(storyboard, shots) }
+    case 'fcpxml':
+      return { filename, mimeType: 'application/xml', content: buildFcpxml(storyboard, shots) }
+  }
+}
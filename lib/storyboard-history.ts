@@ -0,0 +1,97 @@
+import { StoryboardShot, UpdateShotInput } from '@/lib/types'
+import { SHOT_REVISION_FIELDS, ShotRevisionChange, ShotRevisionFields } from '@/lib/storyboard-revision'
+
+/**
+ * Storyboard undo/redo history.
+ *
+ * Each entry is a command recorded as the revision changes that revert it
+ * (see storyboard-revision). Undoing posts those changes to the revise route,
+ * which returns the changes that revert *that* - and those become the redo
+ * entry, so redo is just undo pointed the other way. Deleted shots come back
+ * with their original ids, so older entries that name them keep working.
+ */
+
+export interface HistoryEntry {
+  id: string
+  label: string
+  // Changes that take the board back to before this command
+  changes: ShotRevisionChange[]
+  at: number
+}
+
+export interface StoryboardHistory {
+  // Newest last
+  undo: HistoryEntry[]
+  redo: HistoryEntry[]
+}
+
+export const EMPTY_HISTORY: StoryboardHistory = { undo: [], redo: [] }
+
+// Older entries fall off the bottom
+export const MAX_HISTORY_ENTRIES = 50
+
+export function createHistoryEntry(label: string, changes: ShotRevisionChange[]): HistoryEntry {
+  return {
+    id: `history-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    changes,
+    at: Date.now(),
+  }
+}
+
+// A new command clears redo, like any editor
+export function pushHistory(history: StoryboardHistory, entry: HistoryEntry): StoryboardHistory {
+  return {
+    undo: [...history.undo, entry].slice(-MAX_HISTORY_ENTRIES),
+    redo: [],
+  }
+}
+
+/**
+ * Move the top entry of one stack to the other after it ran. `inverse` is
+ * what the revise route returned for it; null drops the entry, which is what
+ * happens when the board changed underneath it.
+ */
+export function stepHistory(
+  history: StoryboardHistory,
+  direction: 'undo' | 'redo',
+  inverse: ShotRevisionChange[] | null
+): StoryboardHistory {
+  const from = direction === 'undo' ? history.undo : history.redo
+  const to = direction === 'undo' ? history.redo : history.undo
+  const entry = from[from.length - 1]
+  if (!entry) return history
+
+  const rest = from.slice(0, -1)
+  const moved = inverse && inverse.length > 0
+    ? [...to, { ...entry, changes: inverse, at: Date.now() }].slice(-MAX_HISTORY_ENTRIES)
+    : to
+
+  return direction === 'undo'
+    ? { undo: rest, redo: moved }
+    : { undo: moved, redo: rest }
+}
+
+/**
+ * The old values of the fields an update changes, as an edit that puts them
+ * back. Fields outside SHOT_REVISION_FIELDS (status, generation links) aren't
+ * part of history. Null when nothing history tracks changes.
+ */
+export function inverseShotEdit(shot: StoryboardShot, updates: UpdateShotInput): ShotRevisionChange | null {
+  const fields: Record<string, unknown> = {}
+  for (const { field } of SHOT_REVISION_FIELDS) {
+    if (updates[field] === undefined) continue
+    const before = shot[field]
+    if (JSON.stringify(before ?? null) === JSON.stringify(updates[field] ?? null)) continue
+    fields[field] = before ?? (field === 'referenceShotIds' ? [] : '')
+  }
+
+  return Object.keys(fields).length > 0
+    ? { op: 'edit', shotId: shot.id, fields: fields as ShotRevisionFields }
+    : null
+}
+
+export function shotLabel(shot: Pick<StoryboardShot, 'shotNumber' | 'title'> | undefined): string {
+  if (!shot) return 'shot'
+  return shot.title ? `Shot ${shot.shotNumber} (${shot.title})` : `Shot ${shot.shotNumber}`
+}
@@ -0,0 +1,727 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import {
+  AppliedShotRevision,
+  EntitySnapshot,
+  RevisionShotInput,
+  SHOT_REVISION_FIELDS,
+  ShotRevisionChange,
+  ShotRevisionFields,
+  ShotSnapshot,
+  applyShotOrder,
+} from '@/lib/storyboard-revision'
+
+/**
+ * Applies storyboard revisions (see storyboard-revision) to the database.
+ *
+ * Changes run in order against the storyboard as it is, and each one records
+ * its inverse as it goes: edits keep the old values, deletes keep a snapshot
+ * of the shot with its entity references and takes, adds keep the new id. If
+ * a change fails, the inverses of the ones already made are run to put the
+ * storyboard back; otherwise they're returned, newest first, as the undo.
+ */
+
+export type ApplyShotRevisionResult =
+  | { success: true; applied: AppliedShotRevision }
+  | { success: false; error: string; code: 'SHOT_NOT_FOUND' | 'INVALID_CHANGE' | 'REVISION_FAILED' }
+
+type StepResult =
+  | { ok: true; inverse: ShotRevisionChange[]; createdShotIds?: string[]; createdEntityIds?: string[] }
+  | { ok: false; error: string; code: 'SHOT_NOT_FOUND' | 'INVALID_CHANGE' | 'REVISION_FAILED' }
+
+interface RevisionState {
+  storyboardId: string
+  whopUserId: string
+  // Shot ids in board order, kept current as changes run
+  order: string[]
+  // Shots this revision restores - an undo may restore a shot after one that
+  // references it
+  restoring: Set<string>
+}
+
+const ENTITY_TYPES = ['character', 'world', 'object', 'style']
+const SHOT_STATUSES = ['pending', 'generating', 'completed', 'error']
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function fieldsToColumns(fields: ShotRevisionFields): Record<string, unknown> {
+  const columns: Record<string, unknown> = {}
+  for (const { field, column } of SHOT_REVISION_FIELDS) {
+    if (!(field in fields)) continue
+    const value = fields[field]
+    if (field === 'referenceShotIds') columns[column] = value || []
+    else columns[column] = value === '' || value === undefined ? null : value
+  }
+  return columns
+}
+
+function columnsToFields(row: any): ShotRevisionFields {
+  const fields: Record<string, unknown> = {}
+  for (const { field, column } of SHOT_REVISION_FIELDS) {
+    fields[field] = row[column] ?? undefined
+  }
+  return fields as ShotRevisionFields
+}
+
+// On the board now, or put back by this revision
+function isBoardShot(state: RevisionState, shotId: string): boolean {
+  return state.order.includes(shotId) || state.restoring.has(shotId)
+}
+
+// Reference and end-frame shots must be shots on this board
+function scopeShotLinks<T extends ShotRevisionFields>(state: RevisionState, fields: T): T {
+  const scoped = { ...fields }
+  if (Array.isArray(scoped.referenceShotIds)) {
+    scoped.referenceShotIds = scoped.referenceShotIds.filter(id => isBoardShot(state, id))
+  }
+  // The end frame is a foreign key, so it has to be on the board already
+  if (scoped.lastFrameShotId && !state.order.includes(scoped.lastFrameShotId)) {
+    scoped.lastFrameShotId = undefined
+  }
+  return scoped
+}
+
+// null puts the shots first; no anchor, or one that's gone, puts them last
+function insertAfter(order: string[], afterShotId: string | null | undefined, ids: string[]): string[] {
+  if (afterShotId === null) return [...ids, ...order]
+  const index = afterShotId ? order.indexOf(afterShotId) : -1
+  if (index < 0) return [...order, ...ids]
+  return [...order.slice(0, index + 1), ...ids, ...order.slice(index + 1)]
+}
+
+async function loadShot(state: RevisionState, shotId: string) {
+  const { data } = await sbAdmin
+    .from('storyboard_shots')
+    .select('*')
+    .eq('id', shotId)
+    .eq('storyboard_id', state.storyboardId)
+    .maybeSingle()
+  return data
+}
+
+// Entity ids for names in a shot-list's "entities", matched case-insensitively
+async function resolveEntityNames(state: RevisionState, names: string[] | undefined): Promise<string[]> {
+  if (!names || names.length === 0) return []
+  const { data } = await sbAdmin
+    .from('storyboard_entities')
+    .select('id, entity_name')
+    .eq('storyboard_id', state.storyboardId)
+
+  const wanted = new Set(names.map(name => name.trim().toLowerCase()))
+  return (data || []).filter(e => wanted.has(String(e.entity_name).trim().toLowerCase())).map(e => e.id)
+}
+
+async function insertShots(state: RevisionState, shots: RevisionShotInput[], entityRefsFrom?: string): Promise<string[] | null> {
+  const { data: inserted, error } = await sbAdmin
+    .from('storyboard_shots')
+    .insert(shots.map((shot, i) => ({
+      storyboard_id: state.storyboardId,
+      // Renumbered once the whole revision has run
+      shot_number: state.order.length + i + 1,
+      sort_order: state.order.length + i,
+      ...fieldsToColumns(scopeShotLinks(state, shot)),
+      duration_seconds: shot.durationSeconds || 5,
+      media_type: shot.mediaType || 'image',
+      status: 'pending',
+    })))
+    .select('id')
+
+  if (error || !inserted) {
+    console.error('[Revision] Failed to insert shots:', error)
+    return null
+  }
+
+  // Split parts keep the original's entities; new shots get the ones they name
+  const inheritedRefs = entityRefsFrom
+    ? (await sbAdmin.from('shot_entity_references').select('entity_id, role, notes').eq('shot_id', entityRefsFrom)).data || []
+    : []
+
+  const refs: Record<string, unknown>[] = []
+  for (let i = 0; i < inserted.length; i++) {
+    if (entityRefsFrom) {
+      refs.push(...inheritedRefs.map(ref => ({ shot_id: inserted[i].id, entity_id: ref.entity_id, role: ref.role, notes: ref.notes })))
+    } else {
+      const entityIds = await resolveEntityNames(state, shots[i].entityNames)
+      refs.push(...entityIds.map(entityId => ({ shot_id: inserted[i].id, entity_id: entityId })))
+    }
+  }
+  if (refs.length > 0) {
+    const { error: refError } = await sbAdmin.from('shot_entity_references').insert(refs)
+    if (refError) console.error('[Revision] Failed to link entities to new shots:', refError)
+  }
+
+  return inserted.map(row => row.id)
+}
+
+async function snapshotShot(row: any): Promise<ShotSnapshot> {
+  const [{ data: refs }, { data: takes }] = await Promise.all([
+    sbAdmin.from('shot_entity_references').select('entity_id, role, notes').eq('shot_id', row.id),
+    sbAdmin.from('storyboard_shot_takes').select('*').eq('shot_id', row.id),
+  ])
+
+  return {
+    id: row.id,
+    fields: columnsToFields(row),
+    prompt: row.prompt || undefined,
+    modelSlug: row.model_slug || undefined,
+    status: row.status,
+    generationId: row.generation_id || undefined,
+    generatedAt: row.generated_at || undefined,
+    selectedTakeId: row.selected_take_id || undefined,
+    referenceShotIds: row.reference_shot_ids || [],
+    lastFrameShotId: row.last_frame_shot_id || undefined,
+    consistency: row.consistency || undefined,
+    entityRefs: (refs || []).map(ref => ({ entityId: ref.entity_id, role: ref.role || undefined, notes: ref.notes || undefined })),
+    takes: takes || [],
+  }
+}
+
+async function deleteShot(state: RevisionState, shotId: string): Promise<StepResult> {
+  const row = await loadShot(state, shotId)
+  if (!row) return { ok: false, error: 'A shot in this revision no longer exists', code: 'SHOT_NOT_FOUND' }
+
+  const snapshot = await snapshotShot(row)
+  const index = state.order.indexOf(shotId)
+
+  const { error } = await sbAdmin
+    .from('storyboard_shots')
+    .delete()
+    .eq('id', shotId)
+    .eq('storyboard_id', state.storyboardId)
+
+  if (error) {
+    console.error('[Revision] Failed to delete shot:', error)
+    return { ok: false, error: 'Failed to delete shot', code: 'REVISION_FAILED' }
+  }
+
+  state.order = state.order.filter(id => id !== shotId)
+  return { ok: true, inverse: [{ op: 'restore', snapshot, afterShotId: index > 0 ? state.order[index - 1] : null }] }
+}
+
+// Generations a snapshot points at must be the user's own
+async function ownedGenerationIds(state: RevisionState, ids: (string | undefined)[]): Promise<Set<string>> {
+  const wanted = ids.filter((id): id is string => !!id)
+  if (wanted.length === 0) return new Set()
+  const { data } = await sbAdmin
+    .from('generations')
+    .select('id')
+    .in('id', wanted)
+    .eq('whop_user_id', state.whopUserId)
+  return new Set((data || []).map(g => g.id))
+}
+
+async function restoreShot(state: RevisionState, snapshot: ShotSnapshot, afterShotId?: string | null): Promise<StepResult> {
+  const takes = snapshot.takes.filter(take => take && typeof take.id === 'string')
+  const owned = await ownedGenerationIds(state, [snapshot.generationId, ...takes.map(take => take.generation_id as string | undefined)])
+
+  // Takes cascade away with their shot, so a restore only ever recreates
+  // takes that no longer exist - never adopts someone else's
+  if (takes.length > 0) {
+    const { data: existingTakes } = await sbAdmin
+      .from('storyboard_shot_takes')
+      .select('id')
+      .in('id', takes.map(take => take.id as string))
+    if (existingTakes && existingTakes.length > 0) {
+      return { ok: false, error: 'A restored take already exists', code: 'INVALID_CHANGE' }
+    }
+  }
+
+  const { error } = await sbAdmin
+    .from('storyboard_shots')
+    .insert({
+      id: snapshot.id,
+      storyboard_id: state.storyboardId,
+      shot_number: state.order.length + 1,
+      sort_order: state.order.length,
+      ...fieldsToColumns(scopeShotLinks(state, snapshot.fields)),
+      prompt: snapshot.prompt,
+      model_slug: snapshot.modelSlug,
+      status: snapshot.status === 'generating' || !SHOT_STATUSES.includes(snapshot.status) ? 'pending' : snapshot.status,
+      generation_id: snapshot.generationId && owned.has(snapshot.generationId) ? snapshot.generationId : null,
+      generated_at: snapshot.generatedAt,
+      reference_shot_ids: snapshot.referenceShotIds.filter(id => isBoardShot(state, id)),
+      last_frame_shot_id: snapshot.lastFrameShotId && state.order.includes(snapshot.lastFrameShotId) ? snapshot.lastFrameShotId : null,
+      consistency: snapshot.consistency,
+    })
+
+  if (error) {
+    console.error('[Revision] Failed to restore shot:', error)
+    return { ok: false, error: 'Failed to restore shot', code: 'REVISION_FAILED' }
+  }
+
+  if (takes.length > 0) {
+    const { error: takesError } = await sbAdmin
+      .from('storyboard_shot_takes')
+      .insert(takes.map(take => ({
+        id: take.id,
+        shot_id: snapshot.id,
+        storyboard_id: state.storyboardId,
+        take_number: take.take_number,
+        generation_id: owned.has(take.generation_id as string) ? take.generation_id : null,
+        prompt: take.prompt,
+        model_slug: take.model_slug,
+        entity_refs: take.entity_refs || [],
+        reference_images: take.reference_images || [],
+        consistency: take.consistency,
+        created_at: take.created_at,
+      })))
+
+    if (takesError) {
+      console.error('[Revision] Failed to restore takes:', takesError)
+    } else if (snapshot.selectedTakeId && takes.some(take => take.id === snapshot.selectedTakeId)) {
+      await sbAdmin.from('storyboard_shots').update({ selected_take_id: snapshot.selectedTakeId }).eq('id', snapshot.id)
+    }
+  }
+
+  // Entities removed since the delete are skipped rather than failing the restore
+  if (snapshot.entityRefs.length > 0) {
+    const { data: existing } = await sbAdmin
+      .from('storyboard_entities')
+      .select('id')
+      .eq('storyboard_id', state.storyboardId)
+      .in('id', snapshot.entityRefs.map(ref => ref.entityId))
+    const existingIds = new Set((existing || []).map(e => e.id))
+
+    const refs = snapshot.entityRefs.filter(ref => existingIds.has(ref.entityId))
+    if (refs.length > 0) {
+      await sbAdmin.from('shot_entity_references').insert(refs.map(ref => ({
+        shot_id: snapshot.id,
+        entity_id: ref.entityId,
+        role: ref.role,
+        notes: ref.notes,
+      })))
+    }
+  }
+
+  state.order = insertAfter(state.order, afterShotId, [snapshot.id])
+  return { ok: true, inverse: [{ op: 'delete', shotId: snapshot.id }], createdShotIds: [snapshot.id] }
+}
+
+async function addEntity(state: RevisionState, entity: EntitySnapshot): Promise<StepResult> {
+  if (!entity.name?.trim() || !ENTITY_TYPES.includes(entity.type)) {
+    return { ok: false, error: 'Entities need a name and a type', code: 'INVALID_CHANGE' }
+  }
+
+  const { count } = await sbAdmin
+    .from('storyboard_entities')
+    .select('id', { count: 'exact', head: true })
+    .eq('storyboard_id', state.storyboardId)
+
+  const { data: inserted, error } = await sbAdmin
+    .from('storyboard_entities')
+    .insert({
+      ...(entity.id ? { id: entity.id } : {}),
+      storyboard_id: state.storyboardId,
+      entity_type: entity.type,
+      entity_name: entity.name.trim(),
+      entity_description: entity.description,
+      primary_image_url: entity.imageUrl,
+      vision_context: entity.visionContext,
+      sort_order: count || 0,
+    })
+    .select('id')
+    .single()
+
+  if (error || !inserted) {
+    console.error('[Revision] Failed to add entity:', error)
+    return { ok: false, error: 'Failed to add entity', code: 'REVISION_FAILED' }
+  }
+
+  const refs = (entity.shotRefs || []).filter(ref => state.order.includes(ref.shotId))
+  if (refs.length > 0) {
+    await sbAdmin.from('shot_entity_references').insert(refs.map(ref => ({
+      shot_id: ref.shotId,
+      entity_id: inserted.id,
+      role: ref.role,
+      notes: ref.notes,
+    })))
+  }
+
+  return { ok: true, inverse: [{ op: 'remove_entity', entityId: inserted.id }], createdEntityIds: [inserted.id] }
+}
+
+async function removeEntity(state: RevisionState, entityId: string): Promise<StepResult> {
+  const { data: entity } = await sbAdmin
+    .from('storyboard_entities')
+    .select('*')
+    .eq('id', entityId)
+    .eq('storyboard_id', state.storyboardId)
+    .maybeSingle()
+
+  if (!entity) return { ok: true, inverse: [] }
+
+  const { data: refs } = await sbAdmin
+    .from('shot_entity_references')
+    .select('shot_id, role, notes')
+    .eq('entity_id', entityId)
+
+  // Cascades to the entity's shot references and image set
+  const { error } = await sbAdmin.from('storyboard_entities').delete().eq('id', entityId)
+  if (error) {
+    console.error('[Revision] Failed to remove entity:', error)
+    return { ok: false, error: 'Failed to remove entity', code: 'REVISION_FAILED' }
+  }
+
+  return {
+    ok: true,
+    inverse: [{
+      op: 'add_entity',
+      entity: {
+        id: entity.id,
+        name: entity.entity_name,
+        type: entity.entity_type,
+        description: entity.entity_description || undefined,
+        imageUrl: entity.primary_image_url || undefined,
+        visionContext: entity.vision_context || undefined,
+        shotRefs: (refs || []).map(ref => ({ shotId: ref.shot_id, role: ref.role || undefined, notes: ref.notes || undefined })),
+      },
+    }],
+  }
+}
+
+async function applyChange(state: RevisionState, change: ShotRevisionChange): Promise<StepResult> {
+  switch (change.op) {
+    case 'edit':
+    case 'split': {
+      const row = await loadShot(state, change.shotId)
+      if (!row) return { ok: false, error: 'A shot in this revision no longer exists', code: 'SHOT_NOT_FOUND' }
+
+      const fields = change.op === 'edit' ? change.fields : change.into[0]
+      const previous = columnsToFields(row)
+      const before: ShotRevisionFields = {}
+      for (const { field } of SHOT_REVISION_FIELDS) {
+        if (field in fields) (before as Record<string, unknown>)[field] = previous[field] ?? null
+      }
+
+      const { error } = await sbAdmin
+        .from('storyboard_shots')
+        .update(fieldsToColumns(scopeShotLinks(state, fields)))
+        .eq('id', change.shotId)
+        .eq('storyboard_id', state.storyboardId)
+
+      if (error) {
+        console.error('[Revision] Failed to update shot:', error)
+        return { ok: false, error: 'Failed to update shot', code: 'REVISION_FAILED' }
+      }
+
+      const restoreFields: ShotRevisionChange = { op: 'edit', shotId: change.shotId, fields: before }
+      if (change.op === 'edit') return { ok: true, inverse: [restoreFields] }
+
+      // New parts keep the original's framing unless they say otherwise
+      const parts = change.into.slice(1).map(part => ({
+        cameraAngle: previous.cameraAngle,
+        cameraMovement: previous.cameraMovement,
+        durationSeconds: previous.durationSeconds,
+        mediaType: previous.mediaType,
+        ...part,
+        description: part.description || part.title || previous.description || '',
+      }))
+      const partIds = await insertShots(state, parts, change.shotId)
+      if (!partIds) {
+        await applyChange(state, restoreFields)
+        return { ok: false, error: 'Failed to split shot', code: 'REVISION_FAILED' }
+      }
+      state.order = insertAfter(state.order, change.shotId, partIds)
+      return {
+        ok: true,
+        inverse: [...partIds.map(shotId => ({ op: 'delete' as const, shotId })), restoreFields],
+        createdShotIds: partIds,
+      }
+    }
+
+    case 'delete':
+      return deleteShot(state, change.shotId)
+
+    case 'add': {
+      const ids = await insertShots(state, [change.shot])
+      if (!ids) return { ok: false, error: 'Failed to add shot', code: 'REVISION_FAILED' }
+      state.order = insertAfter(state.order, change.afterShotId, ids)
+      return { ok: true, inverse: [{ op: 'delete', shotId: ids[0] }], createdShotIds: ids }
+    }
+
+    case 'reorder': {
+      const previous = state.order
+      state.order = applyShotOrder(state.order, change.order)
+      return { ok: true, inverse: [{ op: 'reorder', order: previous }] }
+    }
+
+    case 'restore':
+      return restoreShot(state, change.snapshot, change.afterShotId)
+
+    case 'add_entity':
+      return addEntity(state, change.entity)
+
+    case 'remove_entity':
+      return removeEntity(state, change.entityId)
+
+    case 'link_entity': {
+      const { data: entity } = await sbAdmin
+        .from('storyboard_entities')
+        .select('id')
+        .eq('id', change.entityId)
+        .eq('storyboard_id', state.storyboardId)
+        .maybeSingle()
+      if (!entity || !state.order.includes(change.shotId)) {
+        return { ok: false, error: 'The shot or entity no longer exists', code: 'SHOT_NOT_FOUND' }
+      }
+
+      const { data: existing } = await sbAdmin
+        .from('shot_entity_references')
+        .select('id')
+        .eq('shot_id', change.shotId)
+        .eq('entity_id', change.entityId)
+        .maybeSingle()
+      if (existing) return { ok: true, inverse: [] }
+
+      const { error } = await sbAdmin
+        .from('shot_entity_references')
+        .insert({ shot_id: change.shotId, entity_id: change.entityId, role: change.role, notes: change.notes })
+      if (error) {
+        console.error('[Revision] Failed to link entity:', error)
+        return { ok: false, error: 'Failed to link entity', code: 'REVISION_FAILED' }
+      }
+      return { ok: true, inverse: [{ op: 'unlink_entity', shotId: change.shotId, entityId: change.entityId }] }
+    }
+
+    case 'unlink_entity': {
+      if (!state.order.includes(change.shotId)) return { ok: true, inverse: [] }
+      const { data: removed } = await sbAdmin
+        .from('shot_entity_references')
+        .delete()
+        .eq('shot_id', change.shotId)
+        .eq('entity_id', change.entityId)
+        .select('role, notes')
+      const ref = removed?.[0]
+      if (!ref) return { ok: true, inverse: [] }
+      return {
+        ok: true,
+        inverse: [{ op: 'link_entity', shotId: change.shotId, entityId: change.entityId, role: ref.role || undefined, notes: ref.notes || undefined }],
+      }
+    }
+
+    default:
+      return { ok: false, error: 'Unknown revision change', code: 'INVALID_CHANGE' }
+  }
+}
+
+// === VALIDATION ===
+
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || value === null || check(value)
+}
+
+function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+function isText(value: unknown): boolean {
+  return typeof value === 'string'
+}
+
+function isHttpUrl(value: unknown): boolean {
+  return typeof value === 'string' && /^https?:\/\//.test(value)
+}
+
+// A storyboard_shot_takes row as snapshotShot captured it
+function takeProblem(take: Record<string, any>): string | null {
+  if (!isUuid(take.id)) return 'snapshot takes need ids'
+  if (!Number.isInteger(take.take_number) || take.take_number < 1) return 'snapshot takes need a take_number'
+  for (const key of ['generation_id', 'prompt', 'model_slug', 'created_at']) {
+    if (!isOptional(take[key], isText)) return `take ${key} must be text`
+  }
+  if (!isOptional(take.reference_images, value => Array.isArray(value) && value.every(isHttpUrl))) {
+    return 'take reference_images must be a list of image URLs'
+  }
+  if (!isOptional(take.entity_refs, value => Array.isArray(value) && value.every(isObject))) {
+    return 'take entity_refs must be a list'
+  }
+  return null
+}
+
+// Undo writes nulls for fields that were empty, so null is always allowed
+function fieldsProblem(fields: Record<string, any>): string | null {
+  for (const { field } of SHOT_REVISION_FIELDS) {
+    const value = fields[field]
+    if (value === undefined || value === null) continue
+    if (field === 'referenceShotIds') {
+      if (!Array.isArray(value) || !value.every(isId)) return 'referenceShotIds must be a list of shot ids'
+    } else if (field === 'durationSeconds') {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return 'durationSeconds must be a positive number'
+    } else if (typeof value !== 'string') {
+      return `${field} must be text`
+    }
+  }
+  return null
+}
+
+function snapshotProblem(snapshot: unknown): string | null {
+  if (!isObject(snapshot)) return 'restore needs a snapshot'
+  if (!isUuid(snapshot.id)) return 'snapshot needs a shot id'
+  if (!isObject(snapshot.fields)) return 'snapshot needs fields'
+  if (typeof snapshot.status !== 'string') return 'snapshot needs a status'
+  if (!Array.isArray(snapshot.referenceShotIds) || !snapshot.referenceShotIds.every(isId)) {
+    return 'snapshot referenceShotIds must be a list of shot ids'
+  }
+  if (!Array.isArray(snapshot.entityRefs) || !snapshot.entityRefs.every(ref => isObject(ref) && isId(ref.entityId))) {
+    return 'snapshot entityRefs must be a list of entity references'
+  }
+  if (!Array.isArray(snapshot.takes) || !snapshot.takes.every(isObject)) return 'snapshot takes must be a list'
+  const badTake = snapshot.takes.map(takeProblem).find(Boolean)
+  if (badTake) return badTake
+  for (const key of ['generationId', 'selectedTakeId', 'lastFrameShotId', 'prompt', 'modelSlug', 'generatedAt']) {
+    if (!isOptional(snapshot[key], value => typeof value === 'string')) return `snapshot ${key} must be text`
+  }
+  return fieldsProblem(snapshot.fields)
+}
+
+function changeProblem(change: unknown): string | null {
+  if (!isObject(change)) return 'must be an object'
+
+  switch (change.op) {
+    case 'edit':
+      if (!isId(change.shotId)) return 'edit needs a shotId'
+      if (!isObject(change.fields)) return 'edit needs fields'
+      return fieldsProblem(change.fields)
+    case 'split':
+      if (!isId(change.shotId)) return 'split needs a shotId'
+      if (!Array.isArray(change.into) || change.into.length < 2 || !change.into.every(isObject)) {
+        return 'split needs at least two parts'
+      }
+      return change.into.map(fieldsProblem).find(Boolean) || null
+    case 'delete':
+      return isId(change.shotId) ? null : 'delete needs a shotId'
+    case 'add':
+      if (!isObject(change.shot)) return 'add needs a shot'
+      if (!isOptional(change.afterShotId, isId)) return 'afterShotId must be a shot id'
+      if (!isOptional(change.shot.entityNames, value => Array.isArray(value) && value.every(name => typeof name === 'string'))) {
+        return 'entityNames must be a list of names'
+      }
+      return fieldsProblem(change.shot)
+    case 'reorder':
+      return Array.isArray(change.order) && change.order.every(isId) ? null : 'reorder needs a list of shot ids'
+    case 'restore':
+      if (!isOptional(change.afterShotId, isId)) return 'afterShotId must be a shot id'
+      return snapshotProblem(change.snapshot)
+    case 'add_entity': {
+      const entity = change.entity
+      if (!isObject(entity)) return 'add_entity needs an entity'
+      if (typeof entity.name !== 'string' || !entity.name.trim() || !ENTITY_TYPES.includes(entity.type)) {
+        return 'Entities need a name and a type'
+      }
+      if (!isOptional(entity.shotRefs, value => Array.isArray(value) && value.every(ref => isObject(ref) && isId(ref.shotId)))) {
+        return 'entity shotRefs must be a list of shot references'
+      }
+      if (!isOptional(entity.id, isUuid)) return 'entity id must be an entity id'
+      if (!isOptional(entity.imageUrl, isHttpUrl)) return 'entity imageUrl must be an image URL'
+      if (!isOptional(entity.description, isText) || !isOptional(entity.visionContext, isText)) {
+        return 'entity description and visionContext must be text'
+      }
+      return null
+    }
+    case 'remove_entity':
+      return isId(change.entityId) ? null : 'remove_entity needs an entityId'
+    case 'link_entity':
+    case 'unlink_entity':
+      return isId(change.shotId) && isId(change.entityId) ? null : `${change.op} needs a shotId and an entityId`
+    default:
+      return 'Unknown revision change'
+  }
+}
+
+/**
+ * Check the shape of every change in a posted revision before any of them
+ * runs, so a malformed one can't fail halfway through.
+ */
+export function validateRevisionChanges(
+  changes: unknown[]
+): { success: true; changes: ShotRevisionChange[] } | { success: false; error: string } {
+  for (let index = 0; index < changes.length; index++) {
+    const problem = changeProblem(changes[index])
+    if (problem) return { success: false, error: `Change ${index + 1}: ${problem}` }
+  }
+  return { success: true, changes: changes as ShotRevisionChange[] }
+}
+
+// === APPLY ===
+
+// Shot numbers follow board order, as after a reorder
+async function writeOrder(state: RevisionState) {
+  await Promise.all(state.order.map((shotId, index) =>
+    sbAdmin
+      .from('storyboard_shots')
+      .update({ sort_order: index, shot_number: index + 1 })
+      .eq('id', shotId)
+      .eq('storyboard_id', state.storyboardId)
+  ))
+
+  await sbAdmin
+    .from('storyboards')
+    .update({ total_shots: state.order.length })
+    .eq('id', state.storyboardId)
+}
+
+/**
+ * Apply a revision's changes in order as one operation. The caller has
+ * already checked the storyboard belongs to `whopUserId`.
+ */
+export async function applyShotRevision(
+  storyboardId: string,
+  whopUserId: string,
+  changes: ShotRevisionChange[]
+): Promise<ApplyShotRevisionResult> {
+  const { data: shots, error: loadError } = await sbAdmin
+    .from('storyboard_shots')
+    .select('id')
+    .eq('storyboard_id', storyboardId)
+    .order('sort_order', { ascending: true })
+
+  if (loadError) {
+    console.error('[Revision] Failed to load shots:', loadError)
+    return { success: false, error: 'Failed to load shots', code: 'REVISION_FAILED' }
+  }
+
+  const state: RevisionState = {
+    storyboardId,
+    whopUserId,
+    order: (shots || []).map(s => s.id),
+    restoring: new Set(changes.flatMap(change => change.op === 'restore' ? [change.snapshot.id] : [])),
+  }
+  const undo: ShotRevisionChange[] = []
+  const createdShotIds: string[] = []
+  const createdEntityIds: string[] = []
+
+  for (const change of changes) {
+    let result: StepResult
+    try {
+      result = await applyChange(state, change)
+    } catch (error) {
+      console.error('[Revision] Change threw:', error)
+      result = { ok: false, error: 'Failed to apply change', code: 'REVISION_FAILED' }
+    }
+
+    if (!result.ok) {
+      // Put back what already ran; best effort, newest first
+      for (const inverse of undo) {
+        const rolledBack = await applyChange(state, inverse)
+        if (!rolledBack.ok) console.error('[Revision] Rollback step failed:', rolledBack.error)
+      }
+      await writeOrder(state)
+      return { success: false, error: result.error, code: result.code }
+    }
+
+    undo.unshift(...result.inverse)
+    createdShotIds.push(...(result.createdShotIds || []))
+    createdEntityIds.push(...(result.createdEntityIds || []))
+  }
+
+  await writeOrder(state)
+
+  console.log(`[Revision] Applied ${changes.length} change(s) to storyboard ${storyboardId}`)
+  return { success: true, applied: { undo, createdShotIds, createdEntityIds } }
+}
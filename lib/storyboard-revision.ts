@@ -0,0 +1,428 @@
+import { CreateShotInput, EntityType, StoryboardEntity, StoryboardShot, UpdateShotInput } from '@/lib/types'
+
+/**
+ * Storyboard revisions proposed in chat.
+ *
+ * The storyboard chat proposes `shot-list`s of new shots, `entity-suggestion`s
+ * of new entities and `shot-revision`s that edit, split, delete or reorder
+ * shots that already exist, addressed by id - as function calls (see
+ * orchestrator/tools) or, from models without them, fenced blocks. All
+ * three become one list of changes the user reviews as a diff against the
+ * board and accepts or rejects one by one. Whatever is accepted is applied
+ * server-side as a single operation that hands back its own undo (see
+ * storyboard-revision-apply). The storyboard's undo history (see
+ * storyboard-history) records every edit as changes of the same kind.
+ */
+
+// Shot fields a revision can change, in the order the diff shows them. Chat
+// only proposes the ones readShotFields reads; the rest come from history.
+export const SHOT_REVISION_FIELDS = [
+  { field: 'title', label: 'Title', column: 'title' },
+  { field: 'description', label: 'Description', column: 'description' },
+  { field: 'cameraAngle', label: 'Camera angle', column: 'camera_angle' },
+  { field: 'cameraMovement', label: 'Camera movement', column: 'camera_movement' },
+  { field: 'durationSeconds', label: 'Duration', column: 'duration_seconds' },
+  { field: 'mediaType', label: 'Media', column: 'media_type' },
+  { field: 'aiSuggestedPrompt', label: 'Suggested prompt', column: 'ai_suggested_prompt' },
+  { field: 'aiNotes', label: 'Notes', column: 'ai_notes' },
+  { field: 'prompt', label: 'Prompt', column: 'prompt' },
+  { field: 'modelSlug', label: 'Model', column: 'model_slug' },
+  { field: 'referenceShotIds', label: 'Reference shots', column: 'reference_shot_ids' },
+  { field: 'lastFrameShotId', label: 'End frame shot', column: 'last_frame_shot_id' },
+] as const
+
+export type ShotRevisionField = typeof SHOT_REVISION_FIELDS[number]['field']
+export type ShotRevisionFields = Partial<Pick<UpdateShotInput, ShotRevisionField>>
+
+// A new shot, plus the entities (by name) it should be linked to
+export interface RevisionShotInput extends CreateShotInput {
+  entityNames?: string[]
+}
+
+// Everything needed to put a deleted shot back as it was, id included
+export interface ShotSnapshot {
+  id: string
+  fields: ShotRevisionFields
+  prompt?: string
+  modelSlug?: string
+  status: StoryboardShot['status']
+  generationId?: string
+  generatedAt?: string
+  selectedTakeId?: string
+  referenceShotIds: string[]
+  lastFrameShotId?: string
+  consistency?: StoryboardShot['consistency']
+  entityRefs: { entityId: string; role?: string; notes?: string }[]
+  // storyboard_shot_takes rows, which cascade away with the shot
+  takes: Record<string, unknown>[]
+}
+
+export interface EntitySnapshot {
+  // Set when an undo puts back an entity that had an id
+  id?: string
+  name: string
+  type: EntityType
+  description?: string
+  imageUrl?: string
+  visionContext?: string
+  shotRefs?: { shotId: string; role?: string; notes?: string }[]
+}
+
+export type ShotRevisionChange =
+  | { op: 'edit'; shotId: string; fields: ShotRevisionFields; reason?: string }
+  // The first part is applied to the shot in place; the rest follow it and
+  // take whatever they don't set from the original
+  | { op: 'split'; shotId: string; into: ShotRevisionFields[]; reason?: string }
+  | { op: 'delete'; shotId: string; reason?: string }
+  // Goes after afterShotId, or at the end
+  | { op: 'add'; shot: RevisionShotInput; afterShotId?: string; reason?: string }
+  // The listed shots swap between the places they hold; unlisted shots stay put
+  | { op: 'reorder'; order: string[]; reason?: string }
+  | { op: 'add_entity'; entity: EntitySnapshot; reason?: string }
+  // Undo only: chat can't propose these. A null afterShotId means first
+  | { op: 'restore'; snapshot: ShotSnapshot; afterShotId?: string | null }
+  | { op: 'remove_entity'; entityId: string }
+  | { op: 'link_entity'; shotId: string; entityId: string; role?: string; notes?: string }
+  | { op: 'unlink_entity'; shotId: string; entityId: string }
+
+export type ShotRevisionOp = ShotRevisionChange['op']
+
+export interface StoryboardRevision {
+  summary?: string
+  changes: ShotRevisionChange[]
+}
+
+// What applying a revision returns: undo applies `undo` as another revision
+export interface AppliedShotRevision {
+  undo: ShotRevisionChange[]
+  createdShotIds: string[]
+  createdEntityIds: string[]
+}
+
+const ENTITY_TYPES: EntityType[] = ['character', 'world', 'object', 'style']
+const DEFAULT_DURATION_SECONDS = 5
+
+// === PARSING ===
+
+const REVISION_BLOCK_PATTERN = /```(shot-list|entity-suggestion|shot-revision)\s*\n?([\s\S]*?)```/g
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+// Fields as the model writes them; camelCase and snake_case both turn up
+function readShotFields(raw: any): ShotRevisionFields {
+  if (!raw || typeof raw !== 'object') return {}
+  const fields: ShotRevisionFields = {}
+
+  const title = optionalString(raw.title)
+  const description = optionalString(raw.description)
+  const cameraAngle = optionalString(raw.cameraAngle ?? raw.camera_angle)
+  const cameraMovement = optionalString(raw.cameraMovement ?? raw.camera_movement)
+  const duration = Number(raw.durationSeconds ?? raw.duration_seconds)
+  const mediaType = raw.mediaType ?? raw.media_type
+  const prompt = optionalString(raw.suggestedPrompt ?? raw.suggested_prompt ?? raw.aiSuggestedPrompt)
+  const notes = optionalString(raw.notes ?? raw.aiNotes)
+
+  if (title !== undefined) fields.title = title
+  if (description !== undefined) fields.description = description
+  if (cameraAngle !== undefined) fields.cameraAngle = cameraAngle
+  if (cameraMovement !== undefined) fields.cameraMovement = cameraMovement
+  if (Number.isFinite(duration) && duration > 0) fields.durationSeconds = Math.round(duration)
+  if (mediaType === 'image' || mediaType === 'video') fields.mediaType = mediaType
+  if (prompt !== undefined) fields.aiSuggestedPrompt = prompt
+  if (notes !== undefined) fields.aiNotes = notes
+
+  return fields
+}
+
+function readNewShot(raw: any): RevisionShotInput | null {
+  const fields = readShotFields(raw)
+  if (!fields.description && !fields.title) return null
+
+  const entityNames = Array.isArray(raw.entities)
+    ? raw.entities.filter((name: unknown) => typeof name === 'string' && name.trim())
+    : []
+
+  return {
+    ...fields,
+    description: fields.description || fields.title || '',
+    durationSeconds: fields.durationSeconds || DEFAULT_DURATION_SECONDS,
+    mediaType: fields.mediaType || 'image',
+    entityNames: entityNames.length > 0 ? entityNames : undefined,
+  }
+}
+
+function readRevisionChange(raw: any): ShotRevisionChange | null {
+  if (!raw || typeof raw !== 'object') return null
+  const shotId = optionalString(raw.shotId ?? raw.shot_id)
+  const reason = optionalString(raw.reason)
+
+  switch (raw.op) {
+    case 'edit': {
+      const fields = readShotFields(raw.fields ?? raw.changes)
+      if (!shotId || Object.keys(fields).length === 0) return null
+      return { op: 'edit', shotId, fields, reason }
+    }
+    case 'split': {
+      const into = (Array.isArray(raw.into) ? raw.into : [])
+        .map(readShotFields)
+        .filter((part: ShotRevisionFields) => part.description || part.title)
+      if (!shotId || into.length < 2) return null
+      return { op: 'split', shotId, into, reason }
+    }
+    case 'delete':
+      return shotId ? { op: 'delete', shotId, reason } : null
+    case 'add': {
+      const shot = readNewShot(raw.shot)
+      if (!shot) return null
+      return { op: 'add', shot, afterShotId: optionalString(raw.afterShotId ?? raw.after_shot_id), reason }
+    }
+    case 'reorder': {
+      const order = (Array.isArray(raw.order) ? raw.order : []).filter((id: unknown) => typeof id === 'string')
+      return order.length > 1 ? { op: 'reorder', order, reason } : null
+    }
+    default:
+      // The other ops only come from undo, never from chat
+      return null
+  }
+}
+
+function readEntitySuggestion(raw: any): ShotRevisionChange | null {
+  const name = optionalString(raw?.name)
+  if (!name) return null
+  return {
+    op: 'add_entity',
+    entity: {
+      name,
+      type: ENTITY_TYPES.includes(raw.type) ? raw.type : 'character',
+      description: optionalString(raw.description),
+    },
+  }
+}
+
+export type RevisionBlockKind = 'shot-list' | 'entity-suggestion' | 'shot-revision'
+
+function readBlockItem(kind: RevisionBlockKind, raw: any): ShotRevisionChange | null {
+  if (kind === 'entity-suggestion') return readEntitySuggestion(raw)
+  if (kind === 'shot-revision') return readRevisionChange(raw)
+  const shot = readNewShot(raw)
+  return shot ? { op: 'add', shot } : null
+}
+
+/**
+ * Read one block's JSON - or the same object sent as function-call arguments
+ * - into changes. `skipped` holds the indexes of items that couldn't be
+ * read, so the caller can ask for them again.
+ */
+export function readRevisionBlock(kind: RevisionBlockKind, json: any): StoryboardRevision & { skipped: number[] } {
+  const items = kind === 'shot-list' ? json?.shots
+    : kind === 'entity-suggestion' ? json?.entities
+    : json?.changes
+  const changes: ShotRevisionChange[] = []
+  const skipped: number[] = []
+
+  if (Array.isArray(items)) {
+    for (let i = 0; i < items.length; i++) {
+      const change = readBlockItem(kind, items[i])
+      if (change) changes.push(change)
+      else skipped.push(i)
+    }
+  }
+
+  return {
+    summary: kind === 'shot-revision' ? optionalString(json?.summary) : undefined,
+    changes,
+    skipped,
+  }
+}
+
+/**
+ * Collect every change proposed in an assistant reply, in the order the
+ * blocks appear. Blocks that don't parse are skipped.
+ */
+export function parseStoryboardRevision(text: string): StoryboardRevision | null {
+  const changes: ShotRevisionChange[] = []
+  let summary: string | undefined
+
+  const matches = Array.from(text.matchAll(REVISION_BLOCK_PATTERN))
+  for (const match of matches) {
+    let json: any
+    try {
+      json = JSON.parse(match[2].trim())
+    } catch (e) {
+      console.error(`[Revision] Failed to parse ${match[1]} block:`, e)
+      continue
+    }
+
+    const block = readRevisionBlock(match[1] as RevisionBlockKind, json)
+    summary = summary || block.summary
+    changes.push(...block.changes)
+  }
+
+  return changes.length > 0 ? { summary, changes } : null
+}
+
+// Reply text without the blocks, for display
+export function stripRevisionBlocks(text: string): string {
+  return text.replace(REVISION_BLOCK_PATTERN, '').trim()
+}
+
+// === REVIEW ===
+
+export interface RevisionFieldDiff {
+  field: ShotRevisionField
+  label: string
+  before: string
+  after: string
+}
+
+export interface RevisionReviewItem {
+  change: ShotRevisionChange
+  heading: string
+  // Field-by-field before/after, for edits and the first part of a split
+  fieldDiffs: RevisionFieldDiff[]
+  // Shots or entities the change adds (or, for deletes, removes)
+  lines: string[]
+  // Set when the change can't apply to the board as it is now
+  problem?: string
+}
+
+function formatField(field: ShotRevisionField, value: unknown): string {
+  if (value === undefined || value === null || value === '') return ''
+  if (field === 'durationSeconds') return `${value}s`
+  if (Array.isArray(value)) return value.length > 0 ? `${value.length} shot${value.length === 1 ? '' : 's'}` : ''
+  return String(value)
+}
+
+function shotName(shot: Pick<StoryboardShot, 'shotNumber' | 'title'>): string {
+  return shot.title ? `Shot ${shot.shotNumber}: ${shot.title}` : `Shot ${shot.shotNumber}`
+}
+
+function newShotLine(shot: ShotRevisionFields): string {
+  const camera = shot.cameraAngle ? ` (${shot.cameraAngle})` : ''
+  return `${shot.title || shot.description}${camera}`
+}
+
+export function diffShotFields(shot: StoryboardShot, fields: ShotRevisionFields): RevisionFieldDiff[] {
+  const diffs: RevisionFieldDiff[] = []
+  for (const { field, label } of SHOT_REVISION_FIELDS) {
+    if (!(field in fields)) continue
+    const before = formatField(field, shot[field])
+    const after = formatField(field, fields[field])
+    if (before !== after) diffs.push({ field, label, before, after })
+  }
+  return diffs
+}
+
+/**
+ * Lay each proposed change against the current board: what it changes, and
+ * whether it still can (the shot it names may be gone, or the edit may
+ * already be in place).
+ */
+export function reviewStoryboardRevision(
+  changes: ShotRevisionChange[],
+  shots: StoryboardShot[],
+  entities: StoryboardEntity[]
+): RevisionReviewItem[] {
+  const shotsById = new Map(shots.map(shot => [shot.id, shot]))
+  const entityNames = new Set(entities.map(e => e.entityName.trim().toLowerCase()))
+
+  return changes.map(change => {
+    switch (change.op) {
+      case 'edit': {
+        const shot = shotsById.get(change.shotId)
+        if (!shot) return { change, heading: 'Edit shot', fieldDiffs: [], lines: [], problem: 'This shot no longer exists' }
+        const fieldDiffs = diffShotFields(shot, change.fields)
+        return {
+          change,
+          heading: `Edit ${shotName(shot)}`,
+          fieldDiffs,
+          lines: [],
+          problem: fieldDiffs.length === 0 ? 'Already matches the board' : undefined,
+        }
+      }
+      case 'split': {
+        const shot = shotsById.get(change.shotId)
+        if (!shot) return { change, heading: 'Split shot', fieldDiffs: [], lines: [], problem: 'This shot no longer exists' }
+        return {
+          change,
+          heading: `Split ${shotName(shot)} into ${change.into.length}`,
+          fieldDiffs: diffShotFields(shot, change.into[0]),
+          lines: change.into.slice(1).map(part => `+ ${newShotLine(part)}`),
+        }
+      }
+      case 'delete': {
+        const shot = shotsById.get(change.shotId)
+        if (!shot) return { change, heading: 'Delete shot', fieldDiffs: [], lines: [], problem: 'Already deleted' }
+        return {
+          change,
+          heading: `Delete ${shotName(shot)}`,
+          fieldDiffs: [],
+          lines: [`- ${shot.description}`],
+        }
+      }
+      case 'add': {
+        const after = change.afterShotId ? shotsById.get(change.afterShotId) : undefined
+        return {
+          change,
+          heading: after ? `New shot after ${shotName(after)}` : 'New shot at the end',
+          fieldDiffs: [],
+          lines: [`+ ${newShotLine(change.shot)}`],
+        }
+      }
+      case 'reorder': {
+        const unknown = change.order.filter(id => !shotsById.has(id))
+        const listed = shots.filter(shot => change.order.includes(shot.id))
+        const moved = change.order
+          .map((id, i) => ({ shot: shotsById.get(id), from: listed[i] }))
+          .filter(({ shot, from }) => shot && from && shot.id !== from.id)
+          .map(({ shot, from }) => `${shotName(shot!)} → position ${from!.shotNumber}`)
+        return {
+          change,
+          heading: 'Reorder shots',
+          fieldDiffs: [],
+          lines: moved,
+          problem: unknown.length > 0
+            ? `${unknown.length} of these shots no longer exist`
+            : moved.length === 0 ? 'Already in this order' : undefined,
+        }
+      }
+      case 'add_entity':
+        return {
+          change,
+          heading: `New ${change.entity.type}: ${change.entity.name}`,
+          fieldDiffs: [],
+          lines: change.entity.description ? [change.entity.description] : [],
+          problem: entityNames.has(change.entity.name.trim().toLowerCase()) ? 'An entity with this name already exists' : undefined,
+        }
+      case 'restore':
+        return { change, heading: 'Restore deleted shot', fieldDiffs: [], lines: [`+ ${change.snapshot.fields.description || ''}`] }
+      case 'remove_entity':
+        return { change, heading: 'Remove entity', fieldDiffs: [], lines: [] }
+      case 'link_entity':
+      case 'unlink_entity': {
+        const shot = shotsById.get(change.shotId)
+        const entity = entities.find(e => e.id === change.entityId)
+        const verb = change.op === 'link_entity' ? 'Add' : 'Remove'
+        return {
+          change,
+          heading: `${verb} ${entity?.entityName || 'entity'} ${change.op === 'link_entity' ? 'to' : 'from'} ${shot ? shotName(shot) : 'shot'}`,
+          fieldDiffs: [],
+          lines: [],
+          problem: shot && entity ? undefined : 'This shot or entity no longer exists',
+        }
+      }
+    }
+  })
+}
+
+/**
+ * Where the listed shots end up: each takes the next of the places the listed
+ * shots held, so shots the revision doesn't mention keep their positions.
+ */
+export function applyShotOrder(currentOrder: string[], order: string[]): string[] {
+  const listed = new Set(order.filter(id => currentOrder.includes(id)))
+  const queue = order.filter((id, i) => listed.has(id) && order.indexOf(id) === i)
+  return currentOrder.map(id => (listed.has(id) ? queue.shift()! : id))
+}
@@ -0,0 +1,132 @@
+import { StoryboardShot } from '@/lib/types'
+
+/**
+ * Storyboard generate-all scheduling.
+ *
+ * A shot can use other shots' outputs as references or as its end frame, so
+ * those shots have to finish first. These pure helpers order a set of shots
+ * by their dependencies; the generate-all route uses them to validate and
+ * quote a run, and storyboard-context uses them to decide what to start next.
+ */
+
+export type ScheduledShot = Pick<StoryboardShot, 'id' | 'shotNumber' | 'status' | 'referenceShotIds' | 'lastFrameShotId'>
+
+export interface ShotRunPlan {
+  // Shot ids in an order where every shot comes after what it depends on
+  order: string[]
+  // For each shot in the run, the other shots in the run it waits for
+  dependencies: Record<string, string[]>
+  errors: string[]
+}
+
+// Where a shot is in a generate-all run
+export type ShotQueueState = 'waiting' | 'running' | 'retrying' | 'completed' | 'failed' | 'blocked'
+
+export interface ShotQueueEntry {
+  state: ShotQueueState
+  attempt: number
+  // Shots in the same run this one waits for
+  dependsOn: string[]
+  error?: string
+}
+
+// Shots can be generated again after a failure; generating ones are left alone
+export const GENERATABLE_SHOT_STATUSES: StoryboardShot['status'][] = ['pending', 'error']
+
+/**
+ * The shots whose outputs a shot uses.
+ */
+export function getShotDependencies(shot: ScheduledShot): string[] {
+  const ids = [...(shot.referenceShotIds || [])]
+  if (shot.lastFrameShotId) ids.push(shot.lastFrameShotId)
+  return Array.from(new Set(ids))
+}
+
+/**
+ * Order the shots in `shotIds` for generation. A dependency outside the run
+ * must already be completed; one inside it is waited for. Reports missing
+ * shots and cycles instead of ordering them.
+ */
+export function planShotRun(shots: ScheduledShot[], shotIds: string[]): ShotRunPlan {
+  const errors: string[] = []
+  const inRun = new Set(shotIds)
+  const byId = new Map(shots.map(shot => [shot.id, shot]))
+  const label = (id: string) => {
+    const shot = byId.get(id)
+    return shot ? `Shot ${shot.shotNumber}` : 'A deleted shot'
+  }
+
+  const dependencies: Record<string, string[]> = {}
+  shotIds.forEach(id => {
+    const shot = byId.get(id)
+    if (!shot) {
+      errors.push(`Shot ${id} not found`)
+      return
+    }
+
+    dependencies[id] = []
+    for (const depId of getShotDependencies(shot)) {
+      const dep = byId.get(depId)
+      if (depId === id) {
+        errors.push(`${label(id)} can't use its own output`)
+      } else if (!dep) {
+        errors.push(`${label(id)} uses a shot that no longer exists`)
+      } else if (inRun.has(depId)) {
+        dependencies[id].push(depId)
+      } else if (dep.status !== 'completed') {
+        errors.push(`${label(id)} uses ${label(depId)}, which hasn't been generated`)
+      }
+    }
+  })
+
+  // Kahn's algorithm, taking the lowest shot number first among ready shots
+  const order: string[] = []
+  const remaining = new Set(Object.keys(dependencies))
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining)
+      .filter(id => dependencies[id].every(depId => !remaining.has(depId)))
+      .sort((a, b) => (byId.get(a)?.shotNumber ?? 0) - (byId.get(b)?.shotNumber ?? 0))
+
+    if (ready.length === 0) {
+      const cycle = Array.from(remaining).map(label).join(', ')
+      errors.push(`These shots depend on each other: ${cycle}`)
+      break
+    }
+    ready.forEach(id => {
+      order.push(id)
+      remaining.delete(id)
+    })
+  }
+
+  return { order, dependencies, errors }
+}
+
+/**
+ * Short status line for a shot in a generate-all run, or null when the
+ * shot's own status says enough.
+ */
+export function describeQueueEntry(
+  entry: ShotQueueEntry | undefined,
+  shots: ScheduledShot[]
+): { label: string; tone: 'muted' | 'active' | 'error' } | null {
+  if (!entry) return null
+
+  switch (entry.state) {
+    case 'waiting': {
+      const waitingOn = entry.dependsOn
+        .map(id => shots.find(s => s.id === id))
+        .filter((shot): shot is ScheduledShot => !!shot && shot.status !== 'completed')
+      return waitingOn.length > 0
+        ? { label: `Waiting on ${waitingOn.map(shot => String(shot.shotNumber).padStart(2, '0')).join(', ')}`, tone: 'muted' }
+        : { label: 'Queued', tone: 'muted' }
+    }
+    case 'retrying':
+      return { label: `Retrying (attempt ${entry.attempt})`, tone: 'active' }
+    case 'blocked':
+      return { label: `Blocked: ${entry.error || 'a shot it uses failed'}`, tone: 'error' }
+    case 'failed':
+      return { label: entry.error || 'Failed', tone: 'error' }
+    default:
+      return null
+  }
+}
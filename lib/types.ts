@@ -60,21 +60,83 @@ export interface Generation {
   tags?: string[]
 }
 
+// -------------------- Generation Batches --------------------
+// One prompt matrix: every model x parameter set x prompt variant is a cell
+export interface BatchMatrix {
+  models: string[]
+  prompts: string[]
+  paramSets: Record<string, any>[]
+}
+
+export interface BatchCell {
+  key: string
+  model: string
+  promptIndex: number
+  paramSetIndex: number
+  generationId: string | null
+  // The cell generation's job status (lib/generation-jobs)
+  status: string
+  outputUrls: string[]
+  costCents: number
+  error?: string
+}
+
+export interface GenerationBatch {
+  id: string
+  name?: string
+  matrix: BatchMatrix
+  totalCells: number
+  quotedCents: number
+  createdAt: string
+  cells: BatchCell[]
+}
+
 // -------------------- Workflow --------------------
+// Gate a step on what its inputs produced; a step whose condition fails is skipped
+export interface WorkflowStepCondition {
+  inputMediaType: 'image' | 'video'
+}
+
 export interface WorkflowStep {
   id: string
   order: number
   modelId: string
   modelName?: string
   promptTemplate: string
+  // Pass the input steps' outputs to the model as reference images
   usePreviousOutput: boolean
+  // Steps this one waits for. Several steps sharing an input fan out; several
+  // inputs fan in. Unset means the step before it (the original linear chain).
+  inputs?: string[]
+  condition?: WorkflowStepCondition
+  // Extra model parameters, e.g. an aspect_ratio per fan-out variant
+  params?: Record<string, any>
+}
+
+export type WorkflowInputType = 'text' | 'enum' | 'image' | 'number'
+
+// A value the user fills in when starting a run, used in templates as {{name}}
+export interface WorkflowInput {
+  name: string
+  label?: string
+  type: WorkflowInputType
+  required?: boolean
+  description?: string
+  default?: string | number
+  options?: string[]   // enum
+  min?: number         // number
+  max?: number         // number
 }
 
+export type WorkflowInputValues = Record<string, string | number>
+
 export interface Workflow {
   id: string
   userId?: string
   name: string
   description: string
+  // Declared run inputs; without any, a run takes a single free-text {input}
+  inputs?: WorkflowInput[]
   steps: WorkflowStep[]
   createdAt: Date
   updatedAt?: Date
@@ -83,12 +145,26 @@ export interface Workflow {
   isPublic: boolean
 }
 
+export type WorkflowNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped'
+
+export interface WorkflowNodeState {
+  status: WorkflowNodeStatus
+  generationId?: string
+  error?: string
+}
+
 export interface WorkflowRunProgress {
+  runId: string
   workflowId: string
+  input: string
+  inputValues?: WorkflowInputValues
+  // Steps finished so far (completed or skipped)
   currentStep: number
   totalSteps: number
-  status: 'idle' | 'running' | 'paused' | 'completed' | 'error'
+  status: 'idle' | 'running' | 'paused' | 'completed' | 'error' | 'canceled'
   stepOutputs: Generation[]
+  // Per-step status, keyed by step id
+  nodeStates: Record<string, WorkflowNodeState>
   error?: string
 }
 
@@ -1572,7 +1648,8 @@ export interface AppSettings {
 }
 
 // -------------------- Mock Data --------------------
-// These models match the studio_models database table
+// Chat modes, plus generation models the selector shows until the
+// studio_models catalog has loaded (lib/context/app-context)
 export const mockModels: AIModel[] = [
   // === CHAT MODE ===
   {
@@ -1881,6 +1958,35 @@ export interface StoryboardEntity {
   generationId?: string
   primaryImageUrl: string
   visionContext?: string // Gemini-analyzed visual description
+  // More views of the entity besides the primary image
+  images?: EntityImage[]
+  // A turnaround being generated from the primary image
+  turnaroundGenerationId?: string
+  sortOrder: number
+  createdAt: string
+}
+
+// What an entity image shows - angles for characters and objects, moods and
+// times of day or locations for the rest
+export type EntityImageView =
+  | 'front'
+  | 'three_quarter'
+  | 'side'
+  | 'back'
+  | 'close_up'
+  | 'full_body'
+  | 'expression'
+  | 'time_of_day'
+  | 'location'
+  | 'other'
+
+export interface EntityImage {
+  id: string
+  entityId: string
+  imageUrl: string
+  view: EntityImageView
+  label?: string  // e.g. "angry", "night", "throne room"
+  generationId?: string
   sortOrder: number
   createdAt: string
 }
@@ -1912,6 +2018,16 @@ export interface StoryboardShot {
   status: 'pending' | 'generating' | 'completed' | 'error'
   generatedImageUrl?: string  // URL of the generated image (populated from generation)
 
+  // Other shots whose outputs this shot uses; they're generated first
+  referenceShotIds?: string[]
+  lastFrameShotId?: string  // Video end frame
+
+  // The take shown on the board (see ShotTake)
+  selectedTakeId?: string
+
+  // How closely the board's output matches its entities (see ShotConsistencyCheck)
+  consistency?: ShotConsistencyCheck
+
   // AI suggestions
   aiSuggestedPrompt?: string
   aiNotes?: string
@@ -1925,6 +2041,39 @@ export interface StoryboardShot {
   entities?: ShotEntityReference[]
 }
 
+// One generation of a shot, kept so earlier takes can be compared and promoted
+export interface ShotTake {
+  id: string
+  shotId: string
+  takeNumber: number
+  generationId?: string
+  prompt?: string
+  modelSlug?: string
+  // Entities attached to the shot when the take was generated
+  entities: { entityId: string; entityName: string; entityType?: EntityType; role?: string }[]
+  referenceImages: string[]
+  status: 'generating' | 'completed' | 'failed'
+  outputUrls: string[]
+  costCents?: number
+  consistency?: ShotConsistencyCheck
+  createdAt: string
+}
+
+// Gemini's comparison of a shot output against each entity's vision context
+export interface ShotConsistencyCheck {
+  generationId: string
+  checkedAt: string
+  // True when any entity scored below the drift threshold
+  drifted: boolean
+  entities: {
+    entityId: string
+    entityName: string
+    score: number  // 0-100
+    drifted: boolean
+    issues: string[]
+  }[]
+}
+
 export interface ShotEntityReference {
   id: string
   shotId: string
@@ -2006,6 +2155,32 @@ export interface UpdateShotInput {
   status?: 'pending' | 'generating' | 'completed' | 'error'
   aiSuggestedPrompt?: string
   aiNotes?: string
+  referenceShotIds?: string[]
+  lastFrameShotId?: string  // '' clears it
+}
+
+// Rendered video of a storyboard's shots (see lib/animatic)
+export type AnimaticFormat = 'mp4' | 'webm'
+
+export interface AnimaticOptions {
+  resolution: 720 | 1080  // Short side in pixels; the long side follows the storyboard's aspect ratio
+  titleCards: boolean  // Opening card plus one per titled shot
+  kenBurns: boolean    // Move stills according to their camera movement
+}
+
+export interface StoryboardAnimatic {
+  id: string
+  storyboardId: string
+  status: 'queued' | 'rendering' | 'completed' | 'failed'
+  format: AnimaticFormat
+  options: AnimaticOptions
+  shotCount: number
+  outputUrl?: string
+  durationSeconds?: number
+  sizeBytes?: number
+  error?: string
+  createdAt: string
+  completedAt?: string
 }
 
 // Entity badge colors for UI
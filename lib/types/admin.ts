@@ -1,4 +1,4 @@
-import type { ModelSpec } from '@/lib/orchestrator/model-specs'
+import type { ModelSpec, OrchestratorSpec } from '@/lib/orchestrator/model-specs'
 
 export interface StudioModel {
   id: string
@@ -12,6 +12,7 @@ export interface StudioModel {
   pricing_type: string
   sort_order: number
   created_at?: string
+  orchestrator_spec?: OrchestratorSpec | null
 }
 
 export interface MergedModel extends StudioModel {
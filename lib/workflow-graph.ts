@@ -0,0 +1,136 @@
+import { WorkflowStep, WorkflowStepCondition, WorkflowNodeState } from '@/lib/types'
+
+/**
+ * Workflow step graph.
+ *
+ * Steps form a DAG through `inputs`: a step runs once every input has
+ * finished, steps that share an input run in parallel (fan-out) and a step
+ * with several inputs receives all of their outputs (fan-in). Workflows saved
+ * before `inputs` existed read as a linear chain. Pure functions only - used
+ * by the builder to validate and by lib/workflow-runner to schedule.
+ */
+
+// Outputs of a finished step that downstream steps and conditions look at
+export interface StepResult {
+  imageUrl: string
+  prompt: string
+  mediaType: 'image' | 'video'
+}
+
+/**
+ * The steps a step waits for. Unset `inputs` means the step before it in order.
+ */
+export function getStepInputs(step: WorkflowStep, steps: WorkflowStep[]): string[] {
+  if (step.inputs) return step.inputs
+
+  const ordered = [...steps].sort((a, b) => a.order - b.order)
+  const index = ordered.findIndex(s => s.id === step.id)
+  return index > 0 ? [ordered[index - 1].id] : []
+}
+
+/**
+ * Every step upstream of a step - the ones guaranteed to have finished before it runs.
+ */
+export function getAncestors(step: WorkflowStep, steps: WorkflowStep[]): Set<string> {
+  const ancestors = new Set<string>()
+  const queue = [...getStepInputs(step, steps)]
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string
+    if (ancestors.has(id)) continue
+    ancestors.add(id)
+    const upstream = steps.find(s => s.id === id)
+    if (upstream) queue.push(...getStepInputs(upstream, steps))
+  }
+  return ancestors
+}
+
+/**
+ * Check the graph is runnable: every input exists, no step feeds itself and
+ * there are no cycles. Returns one message per problem.
+ */
+export function validateWorkflowGraph(steps: WorkflowStep[]): string[] {
+  const errors: string[] = []
+  const ids = new Set(steps.map(s => s.id))
+  const label = (id: string) => {
+    const index = steps.findIndex(s => s.id === id)
+    return index >= 0 ? `Step ${index + 1}` : id
+  }
+
+  for (const step of steps) {
+    for (const input of getStepInputs(step, steps)) {
+      if (input === step.id) errors.push(`${label(step.id)} can't use its own output`)
+      else if (!ids.has(input)) errors.push(`${label(step.id)} uses a step that no longer exists`)
+    }
+  }
+  if (errors.length > 0) return errors
+
+  if (!topologicalOrder(steps)) {
+    errors.push('Steps form a loop - each step can only use outputs of steps that run before it')
+  }
+  return errors
+}
+
+/**
+ * Steps ordered so every step comes after its inputs, or null if there's a cycle.
+ */
+export function topologicalOrder(steps: WorkflowStep[]): WorkflowStep[] | null {
+  const ordered: WorkflowStep[] = []
+  const placed = new Set<string>()
+  const remaining = [...steps].sort((a, b) => a.order - b.order)
+
+  while (remaining.length > 0) {
+    const next = remaining.findIndex(step =>
+      getStepInputs(step, steps).every(input => placed.has(input))
+    )
+    if (next === -1) return null
+    const [step] = remaining.splice(next, 1)
+    ordered.push(step)
+    placed.add(step.id)
+  }
+  return ordered
+}
+
+/**
+ * Pending steps whose inputs have all finished (completed or skipped).
+ */
+export function getReadySteps(
+  steps: WorkflowStep[],
+  states: Record<string, WorkflowNodeState>
+): WorkflowStep[] {
+  const finished = (id: string) => {
+    const status = states[id]?.status
+    return status === 'completed' || status === 'skipped'
+  }
+
+  return steps.filter(step =>
+    (states[step.id]?.status || 'pending') === 'pending' &&
+    getStepInputs(step, steps).every(finished)
+  )
+}
+
+/**
+ * Whether a ready step should run given its inputs' results (skipped inputs
+ * have no result). A step with inputs that were all skipped is skipped too.
+ */
+export function shouldRunStep(
+  step: WorkflowStep,
+  inputCount: number,
+  inputResults: StepResult[]
+): boolean {
+  if (inputCount > 0 && inputResults.length === 0) return false
+  return conditionMet(step.condition, inputResults)
+}
+
+function conditionMet(condition: WorkflowStepCondition | undefined, inputResults: StepResult[]): boolean {
+  if (!condition) return true
+  return inputResults.length > 0 && inputResults.every(result => result.mediaType === condition.inputMediaType)
+}
+
+/**
+ * Describe a condition for the builder and runner.
+ */
+export function describeCondition(condition?: WorkflowStepCondition): string | null {
+  if (!condition) return null
+  return condition.inputMediaType === 'video' ? 'Only if input is a video' : 'Only if input is an image'
+}
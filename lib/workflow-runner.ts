@@ -0,0 +1,537 @@
+import { sbAdmin } from '@/lib/supabaseAdmin'
+import { submitGeneration } from '@/lib/generation-submit'
+import { cancelJob, TERMINAL_JOB_STATUSES, JobStatus } from '@/lib/generation-jobs'
+import { getReadySteps, getStepInputs, shouldRunStep } from '@/lib/workflow-graph'
+import { renderTemplate, getTemplateImageInputs, TemplateStepValue } from '@/lib/workflow-template'
+import {
+  Workflow,
+  WorkflowStep,
+  WorkflowInput,
+  WorkflowInputValues,
+  WorkflowRunProgress,
+  WorkflowNodeState,
+  Generation,
+} from '@/lib/types'
+
+/**
+ * Server-side workflow runner.
+ *
+ * A run executes its workflow's step graph (lib/workflow-graph), one
+ * generation per step, submitting every step whose inputs are done. Nothing
+ * waits on a step: submitting it records the generation in the run's node
+ * states, and whichever path finishes that generation (webhook, poll
+ * endpoint, sweeper) calls `advanceWorkflowRun`, which records the output
+ * and submits the steps that became ready. The run lives in `workflow_runs`, so it keeps going when the
+ * tab that started it is closed and any device can watch it.
+ */
+
+export type WorkflowRunStatus = 'running' | 'paused' | 'completed' | 'error' | 'canceled'
+
+// One finished step, as stored in workflow_runs.step_outputs
+export interface WorkflowStepOutput {
+  stepId: string
+  generationId: string
+  imageUrl: string
+  outputUrls: string[]
+  prompt: string
+  modelId: string
+  modelName?: string
+  mediaType: 'image' | 'video'
+  completedAt: string
+}
+
+export interface WorkflowRunRow {
+  id: string
+  workflow_id: string
+  whop_user_id: string
+  status: WorkflowRunStatus
+  input: string
+  input_values: WorkflowInputValues
+  workflow_snapshot: { name: string; steps: WorkflowStep[]; inputs?: WorkflowInput[] }
+  current_step: number
+  total_steps: number
+  step_outputs: WorkflowStepOutput[]
+  node_states: Record<string, WorkflowNodeState>
+  error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export const WORKFLOW_RUN_FIELDS = 'id, workflow_id, whop_user_id, status, input, input_values, workflow_snapshot, current_step, total_steps, step_outputs, node_states, error, created_at, updated_at, completed_at'
+
+export const ACTIVE_RUN_STATUSES: WorkflowRunStatus[] = ['running', 'paused']
+
+// Long enough to submit one step, short enough that a crashed advance doesn't stall the run
+const RUN_LEASE_MS = 2 * 60 * 1000
+
+// Transform a workflows row to the client shape
+export function toWorkflow(row: any): Workflow {
+  return {
+    id: row.id,
+    userId: row.whop_user_id,
+    name: row.name,
+    description: row.description || '',
+    steps: row.steps || [],
+    inputs: row.inputs?.length ? row.inputs : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    runCount: row.run_count || 0,
+    lastRunAt: row.last_run_at || undefined,
+    isPublic: row.is_public || false,
+  }
+}
+
+// Transform a workflow_runs row to the progress shape the client renders
+export function toRunProgress(run: WorkflowRunRow): WorkflowRunProgress {
+  const stepOutputs: Generation[] = (run.step_outputs || []).map(output => ({
+    id: output.generationId,
+    imageUrl: output.imageUrl,
+    prompt: output.prompt,
+    model: {
+      id: output.modelId,
+      name: output.modelName || output.modelId,
+      provider: 'Replicate',
+    },
+    createdAt: new Date(output.completedAt),
+    isPublic: false,
+    likes: 0,
+  }))
+
+  return {
+    runId: run.id,
+    workflowId: run.workflow_id,
+    input: run.input,
+    inputValues: run.input_values && Object.keys(run.input_values).length > 0 ? run.input_values : undefined,
+    currentStep: run.current_step,
+    totalSteps: run.total_steps,
+    status: run.status,
+    stepOutputs,
+    nodeStates: run.node_states || {},
+    error: run.error || undefined,
+  }
+}
+
+// Only writes while the run is active; null once it was canceled under the caller
+async function updateRun(runId: string, updates: Record<string, any>): Promise<WorkflowRunRow | null> {
+  const { data, error } = await sbAdmin
+    .from('workflow_runs')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', runId)
+    .in('status', ACTIVE_RUN_STATUSES)
+    .select(WORKFLOW_RUN_FIELDS)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Workflows] Failed to update run:', error)
+  }
+  return data as WorkflowRunRow | null
+}
+
+export async function getWorkflowRun(runId: string): Promise<WorkflowRunRow | null> {
+  const { data } = await sbAdmin
+    .from('workflow_runs')
+    .select(WORKFLOW_RUN_FIELDS)
+    .eq('id', runId)
+    .maybeSingle()
+  return data as WorkflowRunRow | null
+}
+
+/**
+ * Create a run for a workflow and submit its first steps. Input values must
+ * already have passed `validateInputValues`.
+ */
+export async function startWorkflowRun(
+  workflow: { id: string; whop_user_id: string; name: string; steps: WorkflowStep[]; inputs?: WorkflowInput[] },
+  input: string,
+  inputValues: WorkflowInputValues = {}
+): Promise<WorkflowRunRow | null> {
+  const steps = [...(workflow.steps || [])].sort((a, b) => a.order - b.order)
+
+  const { data: run, error } = await sbAdmin
+    .from('workflow_runs')
+    .insert({
+      workflow_id: workflow.id,
+      whop_user_id: workflow.whop_user_id,
+      status: 'running',
+      input,
+      input_values: inputValues,
+      workflow_snapshot: { name: workflow.name, steps, inputs: workflow.inputs || [] },
+      current_step: 0,
+      total_steps: steps.length,
+      step_outputs: [],
+      node_states: {},
+    })
+    .select('id')
+    .single()
+
+  if (error || !run) {
+    console.error('[Workflows] Failed to create run:', error)
+    return null
+  }
+
+  console.log(`[Workflows] Started run ${run.id} for workflow ${workflow.id} (${steps.length} steps)`)
+  return advanceWorkflowRun(run.id, 'start')
+}
+
+// Fail a run and stop every step still in flight (canceling refunds their credits)
+async function stopRun(
+  run: WorkflowRunRow,
+  states: Record<string, WorkflowNodeState>,
+  outputs: WorkflowStepOutput[],
+  status: 'error' | 'canceled',
+  error: string
+): Promise<WorkflowRunRow> {
+  const updated = await updateRun(run.id, {
+    status,
+    error,
+    node_states: states,
+    step_outputs: outputs,
+    completed_at: new Date().toISOString(),
+  }) || await getWorkflowRun(run.id) || run
+
+  for (const state of Object.values(states)) {
+    if (state.status === 'running' && state.generationId) {
+      await cancelJob(state.generationId, 'workflow_stop')
+    }
+  }
+  return updated
+}
+
+// An advance's write found the run no longer active: it was canceled while
+// the advance held it. The cancel only saw the steps already recorded, so
+// stop the ones this advance submitted since.
+async function abandonRun(
+  runId: string,
+  states: Record<string, WorkflowNodeState>,
+  via: string
+): Promise<WorkflowRunRow | null> {
+  const run = await getWorkflowRun(runId)
+  // Still active means the write itself failed - leave the steps running
+  if (!run || ACTIVE_RUN_STATUSES.includes(run.status)) return run
+
+  for (const state of Object.values(states)) {
+    if (state.status === 'running' && state.generationId) {
+      await cancelJob(state.generationId, 'workflow_cancel')
+    }
+  }
+  console.log(`[Workflows] ${via}: run ${runId} was ${run.status} while advancing`)
+  return run
+}
+
+/**
+ * Move a run forward as far as it can go right now: record the outputs of
+ * steps whose generations have finished, then submit every step whose inputs
+ * are done (unless paused) or finish the run. Safe to call from anywhere at
+ * any time - a lease keeps concurrent callers from submitting a step twice.
+ */
+export async function advanceWorkflowRun(runId: string, via: string): Promise<WorkflowRunRow | null> {
+  const now = new Date()
+  const { data: claimed, error: claimError } = await sbAdmin
+    .from('workflow_runs')
+    .update({ lease_expires_at: new Date(now.getTime() + RUN_LEASE_MS).toISOString() })
+    .eq('id', runId)
+    .in('status', ACTIVE_RUN_STATUSES)
+    .or(`lease_expires_at.is.null,lease_expires_at.lt."${now.toISOString()}"`)
+    .select(WORKFLOW_RUN_FIELDS)
+    .maybeSingle()
+
+  if (claimError) {
+    console.error('[Workflows] Failed to claim run:', claimError)
+  }
+  if (!claimed) {
+    // Finished, or someone else is advancing it
+    return getWorkflowRun(runId)
+  }
+
+  let run = claimed as WorkflowRunRow
+  const steps = run.workflow_snapshot?.steps || []
+  const declaredInputs = run.workflow_snapshot?.inputs || []
+  const inputValues = run.input_values || {}
+  const stepOrder = steps.map(s => s.id)
+  const stepNumber = (stepId: string) => steps.findIndex(s => s.id === stepId) + 1
+
+  try {
+    // Each pass settles what has finished and schedules what became ready;
+    // keep going while something changes (skips and instant results unlock more steps)
+    for (let pass = 0; pass <= steps.length * 2 + 1; pass++) {
+      const states: Record<string, WorkflowNodeState> = { ...run.node_states }
+      const outputs = [...run.step_outputs]
+      let changed = false
+
+      // === RUNNING STEPS ===
+      const runningIds = Object.entries(states)
+        .filter(([, state]) => state.status === 'running' && state.generationId)
+        .map(([stepId]) => stepId)
+
+      if (runningIds.length > 0) {
+        const { data: generations } = await sbAdmin
+          .from('generations')
+          .select('id, job_status, output_urls, prompt, model_category, replicate_error')
+          .in('id', runningIds.map(stepId => states[stepId].generationId as string))
+
+        let failure: { stepId: string; canceled: boolean; error: string } | null = null
+
+        for (const stepId of runningIds) {
+          const generation = generations?.find(g => g.id === states[stepId].generationId)
+          if (generation && !TERMINAL_JOB_STATUSES.includes(generation.job_status as JobStatus)) continue
+
+          if (!generation || generation.job_status !== 'completed' || !generation.output_urls?.length) {
+            const error = !generation
+              ? 'Step generation not found'
+              : generation.replicate_error || 'Generation failed'
+            states[stepId] = { ...states[stepId], status: 'failed', error }
+            failure = failure || { stepId, canceled: generation?.job_status === 'canceled', error }
+            continue
+          }
+
+          const step = steps.find(s => s.id === stepId)
+          outputs.push({
+            stepId,
+            generationId: generation.id,
+            imageUrl: generation.output_urls[0],
+            outputUrls: generation.output_urls,
+            prompt: generation.prompt,
+            modelId: step?.modelId || '',
+            modelName: step?.modelName,
+            mediaType: generation.model_category === 'video' ? 'video' : 'image',
+            completedAt: new Date().toISOString(),
+          })
+          states[stepId] = { ...states[stepId], status: 'completed' }
+          changed = true
+          console.log(`[Workflows] ${via}: run ${run.id} finished step ${stepNumber(stepId)}/${steps.length}`)
+        }
+
+        if (failure) {
+          run = await stopRun(
+            run,
+            states,
+            outputs,
+            failure.canceled ? 'canceled' : 'error',
+            failure.canceled
+              ? `Step ${stepNumber(failure.stepId)} was canceled`
+              : `Step ${stepNumber(failure.stepId)} failed: ${failure.error}`
+          )
+          console.log(`[Workflows] ${via}: run ${run.id} stopped at step ${stepNumber(failure.stepId)}`)
+          break
+        }
+      }
+
+      // === SKIP OR SUBMIT READY STEPS ===
+      // Paused runs record steps that were in flight but don't start new ones
+      let submitError: { stepId: string; error: string } | null = null
+      if (run.status === 'running') {
+        let profileId: string | null | undefined
+
+        for (const step of getReadySteps(steps, states)) {
+          const inputIds = getStepInputs(step, steps)
+          const inputOutputs = inputIds
+            .map(id => outputs.find(output => output.stepId === id))
+            .filter((output): output is WorkflowStepOutput => !!output)
+
+          if (!shouldRunStep(step, inputIds.length, inputOutputs)) {
+            states[step.id] = { status: 'skipped' }
+            changed = true
+            console.log(`[Workflows] ${via}: run ${run.id} skipped step ${stepNumber(step.id)}`)
+            continue
+          }
+
+          if (profileId === undefined) {
+            const { data: profile } = await sbAdmin
+              .from('user_profiles')
+              .select('id')
+              .eq('whop_user_id', run.whop_user_id)
+              .maybeSingle()
+            profileId = profile?.id || null
+          }
+
+          const stepValues: Record<string, TemplateStepValue> = {}
+          for (const output of outputs) {
+            stepValues[output.stepId] = { url: output.imageUrl, urls: output.outputUrls, prompt: output.prompt }
+          }
+          const prompt = renderTemplate(step.promptTemplate, {
+            input: run.input,
+            values: inputValues,
+            steps: stepValues,
+            stepOrder,
+            previousOutput: inputOutputs[0]?.prompt,
+          })
+          const images = [
+            ...(step.usePreviousOutput ? inputOutputs.map(output => output.imageUrl) : []),
+            ...getTemplateImageInputs(step.promptTemplate, declaredInputs, inputValues),
+          ]
+
+          const submitted = await submitGeneration(
+            { whopUserId: run.whop_user_id, profileId: profileId || null },
+            {
+              model: step.modelId,
+              prompt,
+              params: step.params,
+              images: images.length > 0
+                ? images.map(url => ({ url, purpose: 'reference' as const }))
+                : undefined,
+              workflowRunId: run.id,
+            }
+          )
+
+          if (!submitted.success || !submitted.generationId) {
+            const error = submitted.success ? 'Generation was not tracked' : submitted.error
+            states[step.id] = { status: 'failed', error }
+            submitError = { stepId: step.id, error }
+            break
+          }
+
+          states[step.id] = { status: 'running', generationId: submitted.generationId }
+          changed = true
+          console.log(`[Workflows] ${via}: run ${run.id} submitted step ${stepNumber(step.id)} as generation ${submitted.generationId}`)
+        }
+      }
+
+      const settled = steps.filter(step =>
+        states[step.id]?.status === 'completed' || states[step.id]?.status === 'skipped'
+      ).length
+
+      if (submitError) {
+        run = await stopRun(
+          run,
+          states,
+          outputs,
+          'error',
+          `Step ${stepNumber(submitError.stepId)} failed: ${submitError.error}`
+        )
+        console.error(`[Workflows] ${via}: run ${run.id} failed to submit step ${stepNumber(submitError.stepId)}:`, submitError.error)
+        break
+      }
+
+      // === FINISHED ===
+      if (settled >= steps.length) {
+        const completed = await updateRun(run.id, {
+          status: 'completed',
+          node_states: states,
+          step_outputs: outputs,
+          current_step: settled,
+          completed_at: new Date().toISOString(),
+        })
+        if (!completed) {
+          run = await abandonRun(run.id, states, via) || run
+          break
+        }
+        run = completed
+
+        const { data: workflow } = await sbAdmin
+          .from('workflows')
+          .select('run_count')
+          .eq('id', run.workflow_id)
+          .maybeSingle()
+        if (workflow) {
+          await sbAdmin
+            .from('workflows')
+            .update({ run_count: (workflow.run_count || 0) + 1, last_run_at: new Date().toISOString() })
+            .eq('id', run.workflow_id)
+        }
+
+        console.log(`[Workflows] ${via}: run ${run.id} completed`)
+        break
+      }
+
+      if (!changed) break
+
+      const progressed = await updateRun(run.id, {
+        node_states: states,
+        step_outputs: outputs,
+        current_step: settled,
+      })
+      if (!progressed) {
+        run = await abandonRun(run.id, states, via) || run
+        break
+      }
+      run = progressed
+    }
+  } finally {
+    await sbAdmin
+      .from('workflow_runs')
+      .update({ lease_expires_at: null })
+      .eq('id', runId)
+  }
+
+  return run
+}
+
+/**
+ * Pause a running run. Steps in flight still finish and are recorded.
+ */
+export async function pauseWorkflowRun(runId: string): Promise<WorkflowRunRow | null> {
+  const { data } = await sbAdmin
+    .from('workflow_runs')
+    .update({ status: 'paused', updated_at: new Date().toISOString() })
+    .eq('id', runId)
+    .eq('status', 'running')
+    .select(WORKFLOW_RUN_FIELDS)
+    .maybeSingle()
+  return data as WorkflowRunRow | null
+}
+
+/**
+ * Resume a paused run and submit the steps that are ready.
+ */
+export async function resumeWorkflowRun(runId: string): Promise<WorkflowRunRow | null> {
+  const { data } = await sbAdmin
+    .from('workflow_runs')
+    .update({ status: 'running', updated_at: new Date().toISOString() })
+    .eq('id', runId)
+    .eq('status', 'paused')
+    .select('id')
+    .maybeSingle()
+  if (!data) return null
+  return advanceWorkflowRun(runId, 'resume')
+}
+
+/**
+ * Cancel a run and its in-flight generations, which refunds those steps' credits.
+ */
+export async function cancelWorkflowRun(runId: string): Promise<WorkflowRunRow | null> {
+  const { data } = await sbAdmin
+    .from('workflow_runs')
+    .update({
+      status: 'canceled',
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', runId)
+    .in('status', ACTIVE_RUN_STATUSES)
+    .select(WORKFLOW_RUN_FIELDS)
+    .maybeSingle()
+
+  const run = data as WorkflowRunRow | null
+  for (const state of Object.values(run?.node_states || {})) {
+    if (state.status === 'running' && state.generationId) {
+      await cancelJob(state.generationId, 'workflow_cancel')
+    }
+  }
+  return run
+}
+
+/**
+ * Advance every running run nobody is holding. Catches runs whose steps
+ * finished while another caller held the lease. Run alongside the generation sweeper.
+ */
+export async function sweepWorkflowRuns(options: { limit?: number } = {}): Promise<{ checked: number }> {
+  const now = new Date().toISOString()
+  const { data: runs, error } = await sbAdmin
+    .from('workflow_runs')
+    .select('id')
+    .eq('status', 'running')
+    .or(`lease_expires_at.is.null,lease_expires_at.lt."${now}"`)
+    .order('updated_at', { ascending: true })
+    .limit(options.limit || 50)
+
+  if (error) {
+    console.error('[Workflows] Sweep query failed:', error)
+    return { checked: 0 }
+  }
+
+  for (const run of runs || []) {
+    await advanceWorkflowRun(run.id, 'sweeper')
+  }
+  return { checked: runs?.length || 0 }
+}
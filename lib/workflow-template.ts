@@ -0,0 +1,335 @@
+import { WorkflowInput, WorkflowInputValues, WorkflowStep } from '@/lib/types'
+import { getAncestors } from '@/lib/workflow-graph'
+
+/**
+ * Workflow prompt templates.
+ *
+ *   {{product}}              a declared workflow input
+ *   {{product | upper}}      filters: upper, lower, trim, capitalize, title,
+ *                            truncate:N, default:text, join:separator
+ *   {{steps.2.url}}          an upstream step's output (url, urls or prompt),
+ *                            by step number or step id
+ *   {{input}}                the run's main text input
+ *
+ * The original `{input}` / `{previous_output}` placeholders still work.
+ * Templates and input values are checked before a run starts so a typo
+ * fails in the form instead of after credits are held. Pure functions only -
+ * shared by the builder, the runner form and lib/workflow-runner.
+ */
+
+export const INPUT_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+// Names templates already use for something else
+const RESERVED_NAMES = ['input', 'steps', 'previous_output']
+
+const STEP_FIELDS = ['url', 'urls', 'prompt'] as const
+type StepField = typeof STEP_FIELDS[number]
+
+const FILTERS = ['upper', 'lower', 'trim', 'capitalize', 'title', 'truncate', 'default', 'join'] as const
+
+const PLACEHOLDER_PATTERN = /\{\{([^{}]*)\}\}/g
+
+interface ParsedFilter {
+  name: string
+  arg?: string
+}
+
+interface ParsedPlaceholder {
+  raw: string
+  path: string[]
+  filters: ParsedFilter[]
+}
+
+// What a finished step exposes to later templates
+export interface TemplateStepValue {
+  url: string
+  urls: string[]
+  prompt: string
+}
+
+export interface TemplateContext {
+  input: string
+  values: WorkflowInputValues
+  // Keyed by step id
+  steps: Record<string, TemplateStepValue>
+  // Ordered steps, so {{steps.2.url}} can find step 2
+  stepOrder: string[]
+  // Legacy {previous_output}
+  previousOutput?: string
+}
+
+function parsePlaceholder(raw: string): ParsedPlaceholder {
+  const [expression, ...filterParts] = raw.split('|').map(part => part.trim())
+  return {
+    raw,
+    path: expression ? expression.split('.').map(part => part.trim()) : [],
+    filters: filterParts.map(part => {
+      const colon = part.indexOf(':')
+      if (colon === -1) return { name: part }
+      return { name: part.slice(0, colon).trim(), arg: part.slice(colon + 1).trim().replace(/^["']|["']$/g, '') }
+    }),
+  }
+}
+
+function parseTemplate(template: string): ParsedPlaceholder[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN)).map(match => parsePlaceholder(match[1]))
+}
+
+// Resolve a steps.N reference (1-based number or step id) to a step id
+function resolveStepRef(ref: string, stepOrder: string[]): string | null {
+  if (/^\d+$/.test(ref)) {
+    return stepOrder[Number(ref) - 1] || null
+  }
+  return stepOrder.includes(ref) ? ref : null
+}
+
+export function getInputLabel(input: WorkflowInput): string {
+  return input.label || input.name
+}
+
+/**
+ * Check a workflow's declared inputs: valid unique names, enum options present.
+ */
+export function validateInputDeclarations(inputs: WorkflowInput[]): string[] {
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  for (const input of inputs) {
+    if (!INPUT_NAME_PATTERN.test(input.name)) {
+      errors.push(`Input "${input.name}" needs a name made of letters, numbers and underscores`)
+    } else if (RESERVED_NAMES.includes(input.name)) {
+      errors.push(`"${input.name}" is reserved - pick another input name`)
+    } else if (seen.has(input.name)) {
+      errors.push(`There are two inputs named "${input.name}"`)
+    }
+    seen.add(input.name)
+
+    if (input.type === 'enum' && !input.options?.length) {
+      errors.push(`Input "${getInputLabel(input)}" needs at least one option`)
+    }
+    if (input.type === 'number' && input.min !== undefined && input.max !== undefined && input.min > input.max) {
+      errors.push(`Input "${getInputLabel(input)}" has a minimum above its maximum`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Check one step's template: every variable is declared, every filter exists
+ * and every step reference points at a step that finishes before this one.
+ */
+export function validateTemplate(
+  step: WorkflowStep,
+  steps: WorkflowStep[],
+  inputs: WorkflowInput[]
+): string[] {
+  const errors: string[] = []
+  const ordered = [...steps].sort((a, b) => a.order - b.order)
+  const stepOrder = ordered.map(s => s.id)
+  const stepNumber = stepOrder.indexOf(step.id) + 1
+  const ancestors = getAncestors(step, steps)
+  const inputNames = new Set(inputs.map(input => input.name))
+
+  for (const placeholder of parseTemplate(step.promptTemplate)) {
+    const [root, ref, field, ...rest] = placeholder.path
+
+    if (!root) {
+      errors.push(`Step ${stepNumber}: empty variable {{${placeholder.raw}}}`)
+      continue
+    }
+
+    if (root === 'steps') {
+      const targetId = ref ? resolveStepRef(ref, stepOrder) : null
+      if (!targetId) {
+        errors.push(`Step ${stepNumber}: {{${placeholder.raw.trim()}}} refers to a step that doesn't exist`)
+      } else if (!ancestors.has(targetId)) {
+        errors.push(`Step ${stepNumber}: {{${placeholder.raw.trim()}}} uses a step that doesn't run before it`)
+      } else if (!field || !STEP_FIELDS.includes(field as StepField) || rest.length > 0) {
+        errors.push(`Step ${stepNumber}: use steps.${ref}.url, steps.${ref}.urls or steps.${ref}.prompt`)
+      }
+    } else if (placeholder.path.length > 1 || (root !== 'input' && !inputNames.has(root))) {
+      errors.push(`Step ${stepNumber}: unknown variable {{${placeholder.raw.trim()}}}`)
+    }
+
+    for (const filter of placeholder.filters) {
+      if (!FILTERS.includes(filter.name as typeof FILTERS[number])) {
+        errors.push(`Step ${stepNumber}: unknown filter "${filter.name}"`)
+      } else if (filter.name === 'truncate' && !(Number(filter.arg) > 0)) {
+        errors.push(`Step ${stepNumber}: truncate needs a length, e.g. truncate:80`)
+      }
+    }
+  }
+  return errors
+}
+
+// Give every step an id and renumber them in order; drops steps without a model
+export function normalizeSteps(steps: unknown): WorkflowStep[] {
+  if (!Array.isArray(steps)) return []
+  return steps
+    .filter((step: any) => step && typeof step.modelId === 'string' && step.modelId)
+    .map((step: any, index: number) => ({
+      id: typeof step.id === 'string' && step.id ? step.id : `step-${Date.now()}-${index}`,
+      order: index + 1,
+      modelId: step.modelId,
+      modelName: step.modelName || undefined,
+      promptTemplate: typeof step.promptTemplate === 'string' ? step.promptTemplate : '{input}',
+      usePreviousOutput: !!step.usePreviousOutput,
+      ...(Array.isArray(step.inputs) && {
+        inputs: step.inputs.filter((input: unknown) => typeof input === 'string'),
+      }),
+      ...((step.condition?.inputMediaType === 'image' || step.condition?.inputMediaType === 'video') && {
+        condition: { inputMediaType: step.condition.inputMediaType },
+      }),
+      ...(step.params && typeof step.params === 'object' && !Array.isArray(step.params) && {
+        params: step.params,
+      }),
+    }))
+}
+
+// Keep the declared input fields we understand; drops entries without a name or type
+export function normalizeInputs(inputs: unknown): WorkflowInput[] {
+  if (!Array.isArray(inputs)) return []
+  return inputs
+    .filter((input: any) =>
+      input && typeof input.name === 'string' && ['text', 'enum', 'image', 'number'].includes(input.type)
+    )
+    .map((input: any) => ({
+      name: input.name.trim(),
+      type: input.type,
+      ...(typeof input.label === 'string' && input.label && { label: input.label }),
+      ...(input.required && { required: true }),
+      ...(typeof input.description === 'string' && input.description && { description: input.description }),
+      ...((typeof input.default === 'string' || typeof input.default === 'number') && input.default !== '' && {
+        default: input.default,
+      }),
+      ...(input.type === 'enum' && Array.isArray(input.options) && {
+        options: input.options.filter((option: unknown) => typeof option === 'string' && option),
+      }),
+      ...(input.type === 'number' && typeof input.min === 'number' && { min: input.min }),
+      ...(input.type === 'number' && typeof input.max === 'number' && { max: input.max }),
+    }))
+}
+
+/**
+ * Check every template in a workflow against its declared inputs.
+ */
+export function validateWorkflowTemplates(steps: WorkflowStep[], inputs: WorkflowInput[]): string[] {
+  return [
+    ...validateInputDeclarations(inputs),
+    ...steps.flatMap(step => validateTemplate(step, steps, inputs)),
+  ]
+}
+
+/**
+ * Check the values a run was started with, filling in defaults.
+ * Returns the cleaned values and one message per bad field.
+ */
+export function validateInputValues(
+  inputs: WorkflowInput[],
+  raw: Record<string, unknown>
+): { values: WorkflowInputValues; errors: Record<string, string> } {
+  const values: WorkflowInputValues = {}
+  const errors: Record<string, string> = {}
+
+  for (const input of inputs) {
+    const label = getInputLabel(input)
+    let value = raw[input.name]
+    if (value === undefined || value === null || value === '') value = input.default
+
+    if (value === undefined || value === null || value === '') {
+      if (input.required) errors[input.name] = `${label} is required`
+      continue
+    }
+
+    switch (input.type) {
+      case 'number': {
+        const num = typeof value === 'number' ? value : Number(value)
+        if (!Number.isFinite(num)) {
+          errors[input.name] = `${label} must be a number`
+        } else if (input.min !== undefined && num < input.min) {
+          errors[input.name] = `${label} must be at least ${input.min}`
+        } else if (input.max !== undefined && num > input.max) {
+          errors[input.name] = `${label} must be at most ${input.max}`
+        } else {
+          values[input.name] = num
+        }
+        break
+      }
+      case 'enum':
+        if (!input.options?.includes(String(value))) {
+          errors[input.name] = `${label} must be one of ${input.options?.join(', ')}`
+        } else {
+          values[input.name] = String(value)
+        }
+        break
+      case 'image':
+        if (!/^https?:\/\//.test(String(value))) {
+          errors[input.name] = `${label} must be an image URL`
+        } else {
+          values[input.name] = String(value)
+        }
+        break
+      default:
+        values[input.name] = String(value)
+    }
+  }
+  return { values, errors }
+}
+
+/**
+ * The image inputs a step's template mentions - attached to that step as references.
+ */
+export function getTemplateImageInputs(template: string, inputs: WorkflowInput[], values: WorkflowInputValues): string[] {
+  const imageNames = new Set(inputs.filter(input => input.type === 'image').map(input => input.name))
+  return parseTemplate(template)
+    .map(placeholder => placeholder.path[0])
+    .filter((name, index, names) => imageNames.has(name) && names.indexOf(name) === index && values[name] !== undefined)
+    .map(name => String(values[name]))
+}
+
+function applyFilter(value: string | string[], filter: ParsedFilter): string | string[] {
+  if (Array.isArray(value)) {
+    return filter.name === 'join' ? value.join(filter.arg ?? ', ') : value
+  }
+  switch (filter.name) {
+    case 'upper': return value.toUpperCase()
+    case 'lower': return value.toLowerCase()
+    case 'trim': return value.trim()
+    case 'capitalize': return value.charAt(0).toUpperCase() + value.slice(1)
+    case 'title': return value.replace(/\b\w/g, char => char.toUpperCase())
+    case 'truncate': return value.slice(0, Number(filter.arg) || value.length)
+    case 'default': return value || filter.arg || ''
+    default: return value
+  }
+}
+
+/**
+ * Fill in a step's template. Assumes it passed `validateTemplate`; a step
+ * output that doesn't exist (a skipped step) renders as empty.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (_match, raw: string) => {
+    const placeholder = parsePlaceholder(raw)
+    const [root, ref, field] = placeholder.path
+
+    let value: string | string[] = ''
+    if (root === 'steps') {
+      const stepId = ref ? resolveStepRef(ref, context.stepOrder) : null
+      const output = stepId ? context.steps[stepId] : undefined
+      if (output && field) value = output[field as StepField] ?? ''
+    } else if (root === 'input') {
+      value = context.input
+    } else if (root && context.values[root] !== undefined) {
+      value = String(context.values[root])
+    }
+
+    for (const filter of placeholder.filters) {
+      value = applyFilter(value, filter)
+    }
+    return Array.isArray(value) ? value.join(', ') : value
+  })
+
+  return rendered
+    .replace('{input}', context.input)
+    .replace('{previous_output}', context.previousOutput ?? context.input)
+}
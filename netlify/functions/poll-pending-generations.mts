@@ -1,21 +1,12 @@
 import type { Config } from "@netlify/functions"
-import { createClient } from '@supabase/supabase-js'
-import Replicate from 'replicate'
-
-// Generate UUID (simple version for Netlify functions)
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = Math.random() * 16 | 0
-    const v = c === 'x' ? r : (r & 0x3 | 0x8)
-    return v.toString(16)
-  })
-}
 
+// Scheduled sweep of the generation job queue.
+// All of the completion, billing and timeout logic lives in lib/generation-jobs.
 export default async (req: Request) => {
   const { next_run } = await req.json()
   console.log("[Poll Pending] Running poll job. Next run:", next_run)
 
-  // Get credentials from environment
+  // Check credentials before loading the job module (its Supabase client throws without them)
   const supabaseUrl = Netlify.env.get('NEXT_PUBLIC_SUPABASE_URL')
   const supabaseServiceKey = Netlify.env.get('SUPABASE_SERVICE_ROLE_KEY')
   const replicateToken = Netlify.env.get('REPLICATE_API_TOKEN')
@@ -25,265 +16,24 @@ export default async (req: Request) => {
     return
   }
 
-  if (!replicateToken) {
+  if (!replicateToken && Netlify.env.get('GENERATION_PROVIDER') !== 'mock') {
     console.error('[Poll Pending] Missing Replicate API token')
     return
   }
 
-  const sbAdmin = createClient(supabaseUrl, supabaseServiceKey)
-  const replicate = new Replicate({ auth: replicateToken })
-
-  // Save image from URL to Supabase storage
-  async function saveImageToStorage(imageUrl: string, userId?: string): Promise<string | null> {
-    try {
-      const response = await fetch(imageUrl)
-      if (!response.ok) {
-        console.error(`[Poll Pending] Failed to fetch image: ${response.status}`)
-        return null
-      }
-
-      const arrayBuffer = await response.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-
-      const contentType = response.headers.get('content-type') || 'image/webp'
-      const ext = contentType.includes('png') ? 'png' : contentType.includes('jpeg') || contentType.includes('jpg') ? 'jpg' : 'webp'
-
-      const filename = `${generateUUID()}.${ext}`
-      const path = userId ? `${userId}/${filename}` : `anonymous/${filename}`
-
-      const { error } = await sbAdmin.storage
-        .from('generated-images')
-        .upload(path, buffer, {
-          contentType,
-          upsert: false,
-        })
-
-      if (error) {
-        console.error('[Poll Pending] Storage upload error:', error)
-        return null
-      }
-
-      const { data: urlData } = sbAdmin.storage
-        .from('generated-images')
-        .getPublicUrl(path)
-
-      return urlData.publicUrl
-    } catch (error) {
-      console.error('[Poll Pending] Error saving image to storage:', error)
-      return null
-    }
-  }
-
-  // Extract URLs from Replicate output
-  function extractOutputUrls(output: any): string[] {
-    if (!output) return []
-
-    if (Array.isArray(output)) {
-      return output.map(item => {
-        if (typeof item === 'string') return item
-        if (item && typeof item.url === 'function') return item.url()
-        if (item && item.href) return item.href
-        if (item && typeof item.toString === 'function') return item.toString()
-        return String(item)
-      }).filter(url => url && url.startsWith('http'))
-    }
-
-    if (typeof output === 'string' && output.startsWith('http')) {
-      return [output]
-    }
-
-    if (output && output.url) {
-      return [typeof output.url === 'function' ? output.url() : output.url]
-    }
-
-    return []
-  }
-
   try {
-    // Find generations stuck in "starting" status that have replicate_prediction_id
-    // These are generations where the function timed out
-    const { data: pendingGenerations, error: fetchError } = await sbAdmin
-      .from('generations')
-      .select('id, replicate_prediction_id, whop_user_id, user_id, cost_cents, model_slug, model_category, prompt')
-      .eq('replicate_status', 'starting')
-      .not('replicate_prediction_id', 'is', null)
-      .order('created_at', { ascending: false })
-      .limit(20)
-
-    if (fetchError) {
-      console.error('[Poll Pending] Error fetching generations:', fetchError)
-      return
-    }
-
-    if (!pendingGenerations || pendingGenerations.length === 0) {
-      console.log('[Poll Pending] No pending generations found')
-      return
-    }
-
-    console.log(`[Poll Pending] Found ${pendingGenerations.length} pending generations with prediction IDs`)
-
-    let completedCount = 0
-    let failedCount = 0
-    let stillProcessingCount = 0
-
-    for (const generation of pendingGenerations) {
-      if (!generation.replicate_prediction_id) continue
-
-      try {
-        // Get prediction status from Replicate
-        const prediction = await replicate.predictions.get(generation.replicate_prediction_id)
-        console.log(`[Poll Pending] Prediction ${generation.replicate_prediction_id} status: ${prediction.status}`)
-
-        if (prediction.status === 'succeeded') {
-          // Extract output URLs
-          const outputUrls = extractOutputUrls(prediction.output)
-
-          if (outputUrls.length === 0) {
-            await sbAdmin
-              .from('generations')
-              .update({
-                replicate_status: 'failed',
-                replicate_error: 'No output URLs returned',
-                completed_at: new Date().toISOString(),
-              })
-              .eq('id', generation.id)
-            failedCount++
-            continue
-          }
-
-          // Upload images to permanent storage
-          const permanentUrls: string[] = []
-          for (const tempUrl of outputUrls) {
-            const permanentUrl = await saveImageToStorage(tempUrl, generation.whop_user_id || undefined)
-            permanentUrls.push(permanentUrl || tempUrl)
-          }
-
-          // Update generation with success
-          await sbAdmin
-            .from('generations')
-            .update({
-              output_urls: permanentUrls,
-              replicate_status: 'succeeded',
-              completed_at: new Date().toISOString(),
-            })
-            .eq('id', generation.id)
-
-          console.log(`[Poll Pending] Updated generation ${generation.id} with ${permanentUrls.length} images`)
-
-          // === BILLING: Deduct balance and log transaction ===
-          if (generation.user_id && generation.cost_cents > 0) {
-            // Check for lifetime access
-            const { data: userProfile } = await sbAdmin
-              .from('user_profiles')
-              .select('id, lifetime_access')
-              .eq('id', generation.user_id)
-              .single()
-
-            const hasLifetimeAccess = userProfile?.lifetime_access || false
-
-            // Deduct balance if not lifetime user
-            if (!hasLifetimeAccess) {
-              const { data: deductResult, error: deductError } = await sbAdmin.rpc(
-                'deduct_balance_safely',
-                { p_user_id: generation.user_id, p_amount: generation.cost_cents }
-              )
-              if (deductError) {
-                console.error('[Poll Pending] Failed to deduct balance:', deductError)
-              } else if (!deductResult?.success) {
-                console.error('[Poll Pending] Balance deduction failed:', deductResult?.error)
-              } else {
-                console.log(`[Poll Pending] Deducted ${generation.cost_cents} cents. New balance: ${deductResult.new_balance}`)
-              }
-            }
-
-            // Log transaction
-            const effectiveCost = hasLifetimeAccess ? 0 : generation.cost_cents
-            const { error: txError } = await sbAdmin.from('credit_transactions').insert({
-              user_id: generation.whop_user_id,
-              type: 'PersonaForge',
-              amount: -effectiveCost / 100,
-              amount_charged: effectiveCost / 100,
-              app_name: 'Skinny Studio',
-              task: generation.model_category === 'video' ? 'Video Generation' : 'Image Generation',
-              status: 'completed',
-              preview: permanentUrls[0],
-              metadata: {
-                model: generation.model_slug,
-                prompt: generation.prompt,
-                completed_via_poll: true,
-                is_lifetime_user: hasLifetimeAccess,
-              },
-            })
-
-            if (txError) {
-              console.error('[Poll Pending] Failed to log transaction:', txError)
-            } else {
-              console.log('[Poll Pending] Transaction logged successfully')
-            }
-
-            // Update generation with billing_complete flag
-            await sbAdmin
-              .from('generations')
-              .update({
-                output_metadata: {
-                  images_generated: permanentUrls.length,
-                  billing_complete: true,
-                  billed_at: new Date().toISOString(),
-                  billed_via: 'poll_function',
-                  billed_amount_cents: effectiveCost,
-                },
-              })
-              .eq('id', generation.id)
-
-            console.log(`[Poll Pending] Billing complete for generation ${generation.id}`)
-          }
-
-          completedCount++
-
-        } else if (prediction.status === 'failed' || prediction.status === 'canceled') {
-          // Handle failure
-          await sbAdmin
-            .from('generations')
-            .update({
-              replicate_status: prediction.status,
-              replicate_error: prediction.error || 'Unknown error',
-              completed_at: new Date().toISOString(),
-            })
-            .eq('id', generation.id)
-
-          console.log(`[Poll Pending] Generation ${generation.id} failed: ${prediction.error}`)
-          failedCount++
-
-        } else {
-          // Still processing (starting or processing)
-          if (prediction.status === 'processing') {
-            await sbAdmin
-              .from('generations')
-              .update({ replicate_status: 'processing' })
-              .eq('id', generation.id)
-          }
-          stillProcessingCount++
-        }
+    const { sweepGenerations } = await import('../../lib/generation-jobs')
+    const summary = await sweepGenerations({ replicateToken })
 
-      } catch (predError: any) {
-        console.error(`[Poll Pending] Error checking prediction ${generation.replicate_prediction_id}:`, predError.message)
+    console.log(`[Poll Pending] Done. Checked: ${summary.checked}, Completed: ${summary.completed}, Failed: ${summary.failed}, Timed out: ${summary.timedOut}, Still processing: ${summary.stillRunning}`)
 
-        // If prediction not found, mark as failed
-        if (predError.message?.includes('not found') || predError.message?.includes('404')) {
-          await sbAdmin
-            .from('generations')
-            .update({
-              replicate_status: 'failed',
-              replicate_error: 'Prediction not found',
-              completed_at: new Date().toISOString(),
-            })
-            .eq('id', generation.id)
-          failedCount++
-        }
-      }
-    }
+    const { sweepWorkflowRuns } = await import('../../lib/workflow-runner')
+    const workflowRuns = await sweepWorkflowRuns()
+    console.log(`[Poll Pending] Workflow runs checked: ${workflowRuns.checked}`)
 
-    console.log(`[Poll Pending] Done. Completed: ${completedCount}, Failed: ${failedCount}, Still processing: ${stillProcessingCount}`)
+    const { sweepAnimatics } = await import('../../lib/animatic')
+    const animatics = await sweepAnimatics()
+    console.log(`[Poll Pending] Stale animatic renders failed: ${animatics.failed}`)
   } catch (error) {
     console.error('[Poll Pending] Error:', error)
   }
@@ -0,0 +1,23 @@
+// Background function (up to 15 minutes) that renders a storyboard animatic.
+// Invoked by dispatchAnimaticRender; renderAnimatic only picks up queued rows,
+// so a repeated or stray call can't render anything twice.
+export default async (req: Request) => {
+  const { animaticId } = await req.json().catch(() => ({}))
+  if (!animaticId) {
+    console.error('[Render Animatic] Missing animaticId')
+    return
+  }
+
+  if (!Netlify.env.get('NEXT_PUBLIC_SUPABASE_URL') || !Netlify.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    console.error('[Render Animatic] Missing Supabase credentials')
+    return
+  }
+
+  try {
+    const { renderAnimatic } = await import('../../lib/animatic')
+    const animatic = await renderAnimatic(animaticId)
+    console.log(`[Render Animatic] ${animaticId}: ${animatic ? animatic.status : 'not rendered'}`)
+  } catch (error) {
+    console.error('[Render Animatic] Error:', error)
+  }
+}
@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // ffmpeg-static resolves its binary relative to its own directory
+    serverComponentsExternalPackages: ['ffmpeg-static'],
+  },
   images: {
     remotePatterns: [
       {
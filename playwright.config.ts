@@ -0,0 +1,7 @@
+import { defineConfig } from '@playwright/test'
+
+// Unit tests for server and shared modules - no browser or dev server needed
+export default defineConfig({
+  testDir: './lib',
+  testMatch: '**/*.test.ts',
+})
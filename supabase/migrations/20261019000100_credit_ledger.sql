@@ -0,0 +1,232 @@
+-- Credit ledger for generations
+--
+-- Credits are held when a generation is submitted, then either settled at the
+-- actual cost (any unused part of the hold is returned) or released in full
+-- when the generation fails. Each balance movement is one credit_transactions
+-- row with a reason and the generation it belongs to.
+--
+-- The functions lock the generation row first and the profile row second, so
+-- the generate route, the webhooks and the poller can race without
+-- double-billing or overdrawing a balance.
+
+alter table public.credit_transactions
+  add column if not exists generation_id uuid references public.generations(id) on delete set null,
+  add column if not exists reason text,
+  add column if not exists amount_cents integer,
+  add column if not exists balance_after_cents integer;
+
+create index if not exists credit_transactions_generation_id_idx
+  on public.credit_transactions (generation_id);
+
+alter table public.generations
+  add column if not exists reserved_cents integer not null default 0,
+  add column if not exists billing_status text not null default 'none';
+
+alter table public.generations
+  drop constraint if exists generations_billing_status_check;
+alter table public.generations
+  add constraint generations_billing_status_check
+  check (billing_status in ('none', 'held', 'settled', 'released'));
+
+-- Hold credits for a generation. Lifetime users get a zero-cent hold so their
+-- usage still shows up in the ledger.
+create or replace function public.reserve_generation_credits(
+  p_generation_id uuid,
+  p_amount_cents integer,
+  p_task text default 'Image Generation',
+  p_metadata jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_gen generations%rowtype;
+  v_profile user_profiles%rowtype;
+  v_lifetime boolean;
+  v_hold integer;
+  v_balance integer;
+begin
+  select * into v_gen from generations where id = p_generation_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'GENERATION_NOT_FOUND');
+  end if;
+
+  if v_gen.billing_status <> 'none' then
+    return jsonb_build_object(
+      'success', true,
+      'already', true,
+      'billing_status', v_gen.billing_status,
+      'held_cents', v_gen.reserved_cents
+    );
+  end if;
+
+  select * into v_profile from user_profiles where id = v_gen.user_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'PROFILE_NOT_FOUND');
+  end if;
+
+  v_lifetime := coalesce(v_profile.lifetime_access, false);
+  v_hold := case when v_lifetime then 0 else greatest(coalesce(p_amount_cents, 0), 0) end;
+  v_balance := coalesce(v_profile.balance_cents, 0);
+
+  if v_balance < v_hold then
+    return jsonb_build_object(
+      'success', false,
+      'error', 'INSUFFICIENT_BALANCE',
+      'required', v_hold,
+      'available', v_balance
+    );
+  end if;
+
+  v_balance := v_balance - v_hold;
+  update user_profiles set balance_cents = v_balance where id = v_profile.id;
+
+  insert into credit_transactions (
+    user_id, type, amount, amount_charged, amount_cents, balance_after_cents,
+    app_name, task, status, reason, generation_id, metadata
+  ) values (
+    v_gen.whop_user_id, 'PersonaForge', -v_hold / 100.0, v_hold / 100.0, -v_hold, v_balance,
+    'Skinny Studio', p_task, 'pending', 'generation_hold', p_generation_id,
+    coalesce(p_metadata, '{}'::jsonb) || jsonb_build_object(
+      'generation_id', p_generation_id,
+      'held_cents', v_hold,
+      'is_lifetime_user', v_lifetime
+    )
+  );
+
+  update generations
+    set reserved_cents = v_hold, billing_status = 'held'
+    where id = p_generation_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'held_cents', v_hold,
+    'new_balance', v_balance,
+    'is_lifetime_user', v_lifetime
+  );
+end;
+$$;
+
+-- Settle a held generation at its actual cost. The charge never exceeds the
+-- hold; whatever is left of the hold goes back to the user as its own row.
+create or replace function public.settle_generation_credits(
+  p_generation_id uuid,
+  p_actual_cents integer,
+  p_preview text default null,
+  p_metadata jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_gen generations%rowtype;
+  v_charge integer;
+  v_refund integer;
+  v_balance integer;
+begin
+  select * into v_gen from generations where id = p_generation_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'GENERATION_NOT_FOUND');
+  end if;
+
+  if v_gen.billing_status <> 'held' then
+    return jsonb_build_object('success', true, 'already', true, 'billing_status', v_gen.billing_status);
+  end if;
+
+  v_charge := least(greatest(coalesce(p_actual_cents, 0), 0), v_gen.reserved_cents);
+  v_refund := v_gen.reserved_cents - v_charge;
+
+  select balance_cents into v_balance from user_profiles where id = v_gen.user_id for update;
+  v_balance := coalesce(v_balance, 0);
+
+  if v_refund > 0 then
+    v_balance := v_balance + v_refund;
+    update user_profiles set balance_cents = v_balance where id = v_gen.user_id;
+
+    insert into credit_transactions (
+      user_id, type, amount, amount_charged, amount_cents, balance_after_cents,
+      app_name, task, status, reason, generation_id, metadata
+    ) values (
+      v_gen.whop_user_id, 'PersonaForge', v_refund / 100.0, 0, v_refund, v_balance,
+      'Skinny Studio', 'Credit Release', 'completed', 'generation_release', p_generation_id,
+      jsonb_build_object('generation_id', p_generation_id, 'cause', 'settled_below_hold', 'released_cents', v_refund)
+    );
+  end if;
+
+  update credit_transactions
+    set status = 'completed',
+        amount_charged = v_charge / 100.0,
+        preview = coalesce(p_preview, preview),
+        metadata = metadata || coalesce(p_metadata, '{}'::jsonb) || jsonb_build_object('charged_cents', v_charge)
+    where generation_id = p_generation_id and reason = 'generation_hold';
+
+  update generations set billing_status = 'settled' where id = p_generation_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'charged_cents', v_charge,
+    'released_cents', v_refund,
+    'new_balance', v_balance
+  );
+end;
+$$;
+
+-- Release the whole hold of a generation that did not produce output.
+create or replace function public.release_generation_credits(
+  p_generation_id uuid,
+  p_cause text default 'failed',
+  p_metadata jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_gen generations%rowtype;
+  v_balance integer;
+begin
+  select * into v_gen from generations where id = p_generation_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'GENERATION_NOT_FOUND');
+  end if;
+
+  if v_gen.billing_status <> 'held' then
+    return jsonb_build_object('success', true, 'already', true, 'billing_status', v_gen.billing_status);
+  end if;
+
+  select balance_cents into v_balance from user_profiles where id = v_gen.user_id for update;
+  v_balance := coalesce(v_balance, 0);
+
+  if v_gen.reserved_cents > 0 then
+    v_balance := v_balance + v_gen.reserved_cents;
+    update user_profiles set balance_cents = v_balance where id = v_gen.user_id;
+
+    insert into credit_transactions (
+      user_id, type, amount, amount_charged, amount_cents, balance_after_cents,
+      app_name, task, status, reason, generation_id, metadata
+    ) values (
+      v_gen.whop_user_id, 'PersonaForge', v_gen.reserved_cents / 100.0, 0, v_gen.reserved_cents, v_balance,
+      'Skinny Studio', 'Credit Release', 'completed', 'generation_release', p_generation_id,
+      coalesce(p_metadata, '{}'::jsonb) || jsonb_build_object(
+        'generation_id', p_generation_id,
+        'cause', p_cause,
+        'released_cents', v_gen.reserved_cents
+      )
+    );
+  end if;
+
+  update credit_transactions
+    set status = 'released', amount_charged = 0
+    where generation_id = p_generation_id and reason = 'generation_hold';
+
+  update generations set billing_status = 'released' where id = p_generation_id;
+
+  return jsonb_build_object('success', true, 'released_cents', v_gen.reserved_cents, 'new_balance', v_balance);
+end;
+$$;
+
+revoke all on function public.reserve_generation_credits(uuid, integer, text, jsonb) from public, anon, authenticated;
+revoke all on function public.settle_generation_credits(uuid, integer, text, jsonb) from public, anon, authenticated;
+revoke all on function public.release_generation_credits(uuid, text, jsonb) from public, anon, authenticated;
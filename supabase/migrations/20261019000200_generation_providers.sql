@@ -0,0 +1,12 @@
+-- Generation providers
+--
+-- studio_models.provider picks which GenerationProvider runs a model
+-- (lib/providers). generations.provider records which one a prediction was
+-- created on, so webhooks and pollers ask the right provider about it.
+-- replicate_prediction_id keeps its name but holds any provider's prediction id.
+
+alter table public.studio_models
+  add column if not exists provider text not null default 'replicate';
+
+alter table public.generations
+  add column if not exists provider text not null default 'replicate';
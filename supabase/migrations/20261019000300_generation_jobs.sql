@@ -0,0 +1,39 @@
+-- Generation job state machine
+--
+--   queued -> submitted -> running -> saving -> completed
+--                                           \-> failed | timed_out
+--
+-- job_status is the source of truth for where a generation is; replicate_status
+-- is kept in sync for the clients that poll it. "saving" is a lease: whoever
+-- moves a job into it (webhook, poll endpoint, sweeper, generate route) is the
+-- only one allowed to finish it until lease_expires_at passes.
+
+alter table public.generations
+  add column if not exists job_status text not null default 'queued',
+  add column if not exists job_attempts integer not null default 0,
+  add column if not exists job_error text,
+  add column if not exists submitted_at timestamptz,
+  add column if not exists next_check_at timestamptz,
+  add column if not exists lease_expires_at timestamptz;
+
+alter table public.generations
+  drop constraint if exists generations_job_status_check;
+alter table public.generations
+  add constraint generations_job_status_check
+  check (job_status in ('queued', 'submitted', 'running', 'saving', 'completed', 'failed', 'timed_out'));
+
+-- Backfill rows created before the state machine existed
+update public.generations
+  set job_status = case
+    when replicate_status = 'succeeded' then 'completed'
+    when replicate_status in ('failed', 'canceled') then 'failed'
+    when replicate_status = 'processing' then 'running'
+    when replicate_prediction_id is not null then 'submitted'
+    else 'queued'
+  end,
+  submitted_at = case when replicate_prediction_id is not null then created_at end
+  where job_status = 'queued';
+
+create index if not exists generations_active_jobs_idx
+  on public.generations (next_check_at)
+  where job_status in ('queued', 'submitted', 'running', 'saving');
@@ -0,0 +1,84 @@
+-- User cancellation of in-flight generations
+--
+-- A canceled job gets its own terminal job_status so it can't be completed by a
+-- late webhook. Its hold is released like any failure; if a crash left the job
+-- settled but unfinished, the charge is refunded instead.
+
+alter table public.generations
+  drop constraint if exists generations_job_status_check;
+alter table public.generations
+  add constraint generations_job_status_check
+  check (job_status in ('queued', 'submitted', 'running', 'saving', 'completed', 'failed', 'timed_out', 'canceled'));
+
+alter table public.generations
+  drop constraint if exists generations_billing_status_check;
+alter table public.generations
+  add constraint generations_billing_status_check
+  check (billing_status in ('none', 'held', 'settled', 'released', 'refunded'));
+
+update public.generations
+  set job_status = 'canceled'
+  where job_status = 'failed' and replicate_status = 'canceled';
+
+-- Give back what a settled generation was charged.
+create or replace function public.refund_generation_credits(
+  p_generation_id uuid,
+  p_cause text default 'canceled',
+  p_metadata jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_gen generations%rowtype;
+  v_charged integer;
+  v_balance integer;
+begin
+  select * into v_gen from generations where id = p_generation_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'GENERATION_NOT_FOUND');
+  end if;
+
+  if v_gen.billing_status <> 'settled' then
+    return jsonb_build_object('success', true, 'already', true, 'billing_status', v_gen.billing_status);
+  end if;
+
+  select coalesce(round(amount_charged * 100), 0)::integer into v_charged
+    from credit_transactions
+    where generation_id = p_generation_id and reason = 'generation_hold'
+    limit 1;
+  v_charged := coalesce(v_charged, 0);
+
+  select balance_cents into v_balance from user_profiles where id = v_gen.user_id for update;
+  v_balance := coalesce(v_balance, 0);
+
+  if v_charged > 0 then
+    v_balance := v_balance + v_charged;
+    update user_profiles set balance_cents = v_balance where id = v_gen.user_id;
+
+    insert into credit_transactions (
+      user_id, type, amount, amount_charged, amount_cents, balance_after_cents,
+      app_name, task, status, reason, generation_id, metadata
+    ) values (
+      v_gen.whop_user_id, 'PersonaForge', v_charged / 100.0, 0, v_charged, v_balance,
+      'Skinny Studio', 'Credit Refund', 'completed', 'generation_refund', p_generation_id,
+      coalesce(p_metadata, '{}'::jsonb) || jsonb_build_object(
+        'generation_id', p_generation_id,
+        'cause', p_cause,
+        'refunded_cents', v_charged
+      )
+    );
+  end if;
+
+  update credit_transactions
+    set status = 'refunded'
+    where generation_id = p_generation_id and reason = 'generation_hold';
+
+  update generations set billing_status = 'refunded' where id = p_generation_id;
+
+  return jsonb_build_object('success', true, 'refunded_cents', v_charged, 'new_balance', v_balance);
+end;
+$$;
+
+revoke all on function public.refund_generation_credits(uuid, text, jsonb) from public, anon, authenticated;
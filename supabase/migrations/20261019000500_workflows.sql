@@ -0,0 +1,61 @@
+-- Server-side workflows
+--
+-- Workflows used to live in localStorage and run in the browser, so a closed
+-- tab killed the run. They are now stored per user and executed by
+-- lib/workflow-runner: each step is an ordinary generation tagged with its
+-- run, and finishing that generation (webhook, poll endpoint or sweeper)
+-- advances the run to the next step.
+--
+-- A run holds a short lease while it is being advanced so two paths can't
+-- submit the same step twice.
+
+create table if not exists public.workflows (
+  id uuid primary key default gen_random_uuid(),
+  whop_user_id text not null,
+  name text not null,
+  description text not null default '',
+  steps jsonb not null default '[]'::jsonb,
+  run_count integer not null default 0,
+  last_run_at timestamptz,
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists workflows_user_idx
+  on public.workflows (whop_user_id, updated_at desc);
+
+create table if not exists public.workflow_runs (
+  id uuid primary key default gen_random_uuid(),
+  workflow_id uuid not null references public.workflows (id) on delete cascade,
+  whop_user_id text not null,
+  status text not null default 'running',
+  input text not null default '',
+  -- Steps as they were when the run started; editing the workflow doesn't touch a live run
+  workflow_snapshot jsonb not null,
+  current_step integer not null default 0,
+  total_steps integer not null,
+  step_outputs jsonb not null default '[]'::jsonb,
+  active_generation_id uuid references public.generations (id) on delete set null,
+  error text,
+  lease_expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz,
+  constraint workflow_runs_status_check
+    check (status in ('running', 'paused', 'completed', 'error', 'canceled'))
+);
+
+create index if not exists workflow_runs_user_idx
+  on public.workflow_runs (whop_user_id, created_at desc);
+
+create index if not exists workflow_runs_active_idx
+  on public.workflow_runs (updated_at)
+  where status in ('running', 'paused');
+
+alter table public.generations
+  add column if not exists workflow_run_id uuid references public.workflow_runs (id) on delete set null;
+
+create index if not exists generations_workflow_run_idx
+  on public.generations (workflow_run_id)
+  where workflow_run_id is not null;
@@ -0,0 +1,30 @@
+-- Workflow step graphs
+--
+-- Steps can now branch and merge (see lib/workflow-graph), so a run can have
+-- several generations in flight. node_states replaces the single
+-- active_generation_id with one entry per step:
+--   { "<step id>": { "status": "pending|running|completed|failed|skipped", "generationId": ..., "error": ... } }
+-- Steps with no entry are pending.
+
+alter table public.workflow_runs
+  add column if not exists node_states jsonb not null default '{}'::jsonb;
+
+-- Carry over runs that were mid-step
+update public.workflow_runs r
+  set node_states = jsonb_build_object(
+    r.workflow_snapshot -> 'steps' -> (jsonb_array_length(r.step_outputs)) ->> 'id',
+    jsonb_build_object('status', 'running', 'generationId', r.active_generation_id)
+  )
+  where r.active_generation_id is not null
+    and r.status in ('running', 'paused');
+
+-- Finished steps of existing runs
+update public.workflow_runs r
+  set node_states = r.node_states || coalesce((
+    select jsonb_object_agg(o ->> 'stepId', jsonb_build_object('status', 'completed', 'generationId', o ->> 'generationId'))
+    from jsonb_array_elements(r.step_outputs) o
+  ), '{}'::jsonb)
+  where jsonb_array_length(r.step_outputs) > 0;
+
+alter table public.workflow_runs
+  drop column if exists active_generation_id;
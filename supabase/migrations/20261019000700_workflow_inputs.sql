@@ -0,0 +1,14 @@
+-- Typed workflow inputs
+--
+-- A workflow can declare the inputs a run asks for (text, enum, image,
+-- number) and reference them from step templates as {{name}} (see
+-- lib/workflow-template). Workflows without declarations keep the single
+-- free-text input in workflow_runs.input.
+--   inputs:       [{ "name": "product", "type": "enum", "options": [...], "required": true, ... }]
+--   input_values: { "product": "sneakers", "count": 3 }
+
+alter table public.workflows
+  add column if not exists inputs jsonb not null default '[]'::jsonb;
+
+alter table public.workflow_runs
+  add column if not exists input_values jsonb not null default '{}'::jsonb;
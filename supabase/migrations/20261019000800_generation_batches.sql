@@ -0,0 +1,124 @@
+-- Generation batches
+--
+-- A batch runs one prompt matrix (models x parameter sets x prompt variants)
+-- as one generation per cell (see lib/generation-batch). The whole matrix is
+-- quoted up front and its credits are held in a single transaction, so a
+-- batch either starts with every cell paid for or doesn't start at all.
+-- Each cell's generation then settles or releases its own hold as usual.
+
+create table if not exists public.generation_batches (
+  id uuid primary key default gen_random_uuid(),
+  whop_user_id text not null,
+  user_id uuid references public.user_profiles(id) on delete set null,
+  name text,
+  -- { "models": [...], "prompts": [...], "paramSets": [{...}] }
+  matrix jsonb not null,
+  total_cells integer not null,
+  quoted_cents integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists generation_batches_user_idx
+  on public.generation_batches (whop_user_id, created_at desc);
+
+alter table public.generations
+  add column if not exists batch_id uuid references public.generation_batches(id) on delete set null,
+  -- { "model": ..., "promptIndex": 0, "paramSetIndex": 0 }
+  add column if not exists batch_cell jsonb;
+
+create index if not exists generations_batch_id_idx
+  on public.generations (batch_id)
+  where batch_id is not null;
+
+-- Hold credits for every generation of a batch at once. p_holds is
+-- [{ "generation_id": ..., "amount_cents": ... }]. The profile is locked once
+-- and checked against the total; each generation gets its own hold row so the
+-- usual settle/release/refund functions apply per cell.
+create or replace function public.reserve_batch_credits(
+  p_batch_id uuid,
+  p_holds jsonb,
+  p_task text default 'Batch Generation',
+  p_metadata jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch generation_batches%rowtype;
+  v_profile user_profiles%rowtype;
+  v_lifetime boolean;
+  v_total integer;
+  v_balance integer;
+  v_hold jsonb;
+  v_gen generations%rowtype;
+  v_amount integer;
+begin
+  select * into v_batch from generation_batches where id = p_batch_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'BATCH_NOT_FOUND');
+  end if;
+
+  select * into v_profile from user_profiles where id = v_batch.user_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'PROFILE_NOT_FOUND');
+  end if;
+
+  v_lifetime := coalesce(v_profile.lifetime_access, false);
+  select coalesce(sum(greatest((h ->> 'amount_cents')::integer, 0)), 0) into v_total
+    from jsonb_array_elements(p_holds) h;
+  if v_lifetime then
+    v_total := 0;
+  end if;
+  v_balance := coalesce(v_profile.balance_cents, 0);
+
+  if v_balance < v_total then
+    return jsonb_build_object(
+      'success', false,
+      'error', 'INSUFFICIENT_BALANCE',
+      'required', v_total,
+      'available', v_balance
+    );
+  end if;
+
+  for v_hold in select * from jsonb_array_elements(p_holds) loop
+    select * into v_gen from generations
+      where id = (v_hold ->> 'generation_id')::uuid and batch_id = p_batch_id
+      for update;
+    if not found or v_gen.billing_status <> 'none' then
+      continue;
+    end if;
+
+    v_amount := case when v_lifetime then 0 else greatest((v_hold ->> 'amount_cents')::integer, 0) end;
+    v_balance := v_balance - v_amount;
+
+    insert into credit_transactions (
+      user_id, type, amount, amount_charged, amount_cents, balance_after_cents,
+      app_name, task, status, reason, generation_id, metadata
+    ) values (
+      v_gen.whop_user_id, 'PersonaForge', -v_amount / 100.0, v_amount / 100.0, -v_amount, v_balance,
+      'Skinny Studio', p_task, 'pending', 'generation_hold', v_gen.id,
+      coalesce(p_metadata, '{}'::jsonb) || jsonb_build_object(
+        'generation_id', v_gen.id,
+        'batch_id', p_batch_id,
+        'model', v_gen.model_slug,
+        'held_cents', v_amount,
+        'is_lifetime_user', v_lifetime
+      )
+    );
+
+    update generations
+      set reserved_cents = v_amount, billing_status = 'held'
+      where id = v_gen.id;
+  end loop;
+
+  update user_profiles set balance_cents = v_balance where id = v_profile.id;
+
+  return jsonb_build_object(
+    'success', true,
+    'held_cents', v_total,
+    'new_balance', v_balance,
+    'is_lifetime_user', v_lifetime
+  );
+end;
+$$;
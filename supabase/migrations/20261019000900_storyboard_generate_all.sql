@@ -0,0 +1,136 @@
+-- Storyboard "generate all pending"
+--
+-- A shot can use earlier shots' outputs: as references (reference_shot_ids) or,
+-- for video, as its end frame (last_frame_shot_id). Those shots have to finish
+-- first, so generate-all schedules shots in dependency order.
+--
+-- Generate-all quotes every pending shot and holds the total up front: each
+-- shot gets a queued generation with its own hold (held_generation_id), which
+-- the shot's generate route submits when its turn comes. A held generation's
+-- next_check_at is pushed out so the sweeper leaves it alone while it waits,
+-- and releases it if the run is abandoned.
+
+alter table public.storyboard_shots
+  add column if not exists reference_shot_ids uuid[] not null default '{}',
+  add column if not exists last_frame_shot_id uuid references public.storyboard_shots(id) on delete set null,
+  add column if not exists held_generation_id uuid references public.generations(id) on delete set null;
+
+-- Hold credits for several of a user's generations at once. p_holds is
+-- [{ "generation_id": ..., "amount_cents": ... }]. The profile is locked once
+-- and checked against the total; each generation gets its own hold row so the
+-- usual settle/release/refund functions apply to each.
+create or replace function public.reserve_generation_holds(
+  p_profile_id uuid,
+  p_holds jsonb,
+  p_task text default 'Image Generation',
+  p_metadata jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile user_profiles%rowtype;
+  v_lifetime boolean;
+  v_total integer;
+  v_balance integer;
+  v_hold jsonb;
+  v_gen generations%rowtype;
+  v_amount integer;
+begin
+  select * into v_profile from user_profiles where id = p_profile_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'PROFILE_NOT_FOUND');
+  end if;
+
+  v_lifetime := coalesce(v_profile.lifetime_access, false);
+  select coalesce(sum(greatest((h ->> 'amount_cents')::integer, 0)), 0) into v_total
+    from jsonb_array_elements(p_holds) h;
+  if v_lifetime then
+    v_total := 0;
+  end if;
+  v_balance := coalesce(v_profile.balance_cents, 0);
+
+  if v_balance < v_total then
+    return jsonb_build_object(
+      'success', false,
+      'error', 'INSUFFICIENT_BALANCE',
+      'required', v_total,
+      'available', v_balance
+    );
+  end if;
+
+  for v_hold in select * from jsonb_array_elements(p_holds) loop
+    select * into v_gen from generations
+      where id = (v_hold ->> 'generation_id')::uuid and user_id = p_profile_id
+      for update;
+    if not found or v_gen.billing_status <> 'none' then
+      continue;
+    end if;
+
+    v_amount := case when v_lifetime then 0 else greatest((v_hold ->> 'amount_cents')::integer, 0) end;
+    v_balance := v_balance - v_amount;
+
+    insert into credit_transactions (
+      user_id, type, amount, amount_charged, amount_cents, balance_after_cents,
+      app_name, task, status, reason, generation_id, metadata
+    ) values (
+      v_gen.whop_user_id, 'PersonaForge', -v_amount / 100.0, v_amount / 100.0, -v_amount, v_balance,
+      'Skinny Studio', p_task, 'pending', 'generation_hold', v_gen.id,
+      coalesce(p_metadata, '{}'::jsonb) || jsonb_build_object(
+        'generation_id', v_gen.id,
+        'model', v_gen.model_slug,
+        'held_cents', v_amount,
+        'is_lifetime_user', v_lifetime
+      )
+    );
+
+    update generations
+      set reserved_cents = v_amount, billing_status = 'held'
+      where id = v_gen.id;
+  end loop;
+
+  update user_profiles set balance_cents = v_balance where id = v_profile.id;
+
+  return jsonb_build_object(
+    'success', true,
+    'held_cents', v_total,
+    'new_balance', v_balance,
+    'is_lifetime_user', v_lifetime
+  );
+end;
+$$;
+
+-- Batches now hold through reserve_generation_holds, limited to the batch's
+-- own generations.
+create or replace function public.reserve_batch_credits(
+  p_batch_id uuid,
+  p_holds jsonb,
+  p_task text default 'Batch Generation',
+  p_metadata jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch generation_batches%rowtype;
+  v_holds jsonb;
+begin
+  select * into v_batch from generation_batches where id = p_batch_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'BATCH_NOT_FOUND');
+  end if;
+
+  select coalesce(jsonb_agg(h), '[]'::jsonb) into v_holds
+    from jsonb_array_elements(p_holds) h
+    join generations g on g.id = (h ->> 'generation_id')::uuid and g.batch_id = p_batch_id;
+
+  return reserve_generation_holds(
+    v_batch.user_id,
+    v_holds,
+    p_task,
+    coalesce(p_metadata, '{}'::jsonb) || jsonb_build_object('batch_id', p_batch_id)
+  );
+end;
+$$;
@@ -0,0 +1,36 @@
+-- Storyboard animatics
+--
+-- An animatic is a rendered video of a storyboard: still shots held for their
+-- duration (optionally with a Ken Burns move from the shot's camera movement),
+-- video shots cut in as they are, and optional title cards. Rendering runs in
+-- a background function (see lib/animatic) and writes the file to the
+-- generated-videos bucket; the row keeps it listed on the storyboard.
+
+create table if not exists public.storyboard_animatics (
+  id uuid primary key default gen_random_uuid(),
+  storyboard_id uuid not null references public.storyboards(id) on delete cascade,
+  whop_user_id text not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'rendering', 'completed', 'failed')),
+  format text not null default 'mp4'
+    check (format in ('mp4', 'webm')),
+  -- { "resolution": 720, "titleCards": true, "kenBurns": true }
+  options jsonb not null default '{}'::jsonb,
+  shot_count integer not null default 0,
+  output_url text,
+  storage_path text,
+  duration_seconds numeric,
+  size_bytes bigint,
+  error text,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists storyboard_animatics_storyboard_idx
+  on public.storyboard_animatics (storyboard_id, created_at desc);
+
+-- The sweeper looks for renders that never started or never finished
+create index if not exists storyboard_animatics_active_idx
+  on public.storyboard_animatics (created_at)
+  where status in ('queued', 'rendering');
@@ -0,0 +1,47 @@
+-- Storyboard shot takes
+--
+-- Every generation for a shot is kept as a take: the prompt, model, entity
+-- references and reference images it was made with, plus its generation (and
+-- so its output). The shot's generation_id stays the pointer the board shows;
+-- selected_take_id records which take that is. Promoting an earlier take just
+-- moves both pointers, so going back never costs a regeneration.
+
+create table if not exists public.storyboard_shot_takes (
+  id uuid primary key default gen_random_uuid(),
+  shot_id uuid not null references public.storyboard_shots(id) on delete cascade,
+  storyboard_id uuid not null references public.storyboards(id) on delete cascade,
+  take_number integer not null,
+  generation_id uuid references public.generations(id) on delete set null,
+  prompt text,
+  model_slug text,
+  -- [{ "entityId": ..., "entityName": ..., "entityType": ..., "role": ... }]
+  entity_refs jsonb not null default '[]'::jsonb,
+  reference_images text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  unique (shot_id, take_number)
+);
+
+create index if not exists storyboard_shot_takes_shot_idx
+  on public.storyboard_shot_takes (shot_id, take_number desc);
+
+create index if not exists storyboard_shot_takes_generation_idx
+  on public.storyboard_shot_takes (generation_id)
+  where generation_id is not null;
+
+alter table public.storyboard_shots
+  add column if not exists selected_take_id uuid references public.storyboard_shot_takes(id) on delete set null;
+
+-- Existing generated shots start with their current generation as take 1
+insert into public.storyboard_shot_takes (shot_id, storyboard_id, take_number, generation_id, prompt, model_slug, created_at)
+select s.id, s.storyboard_id, 1, s.generation_id, s.prompt, s.model_slug, coalesce(s.generated_at, s.updated_at, now())
+  from public.storyboard_shots s
+ where s.generation_id is not null
+   and not exists (select 1 from public.storyboard_shot_takes t where t.shot_id = s.id);
+
+update public.storyboard_shots s
+   set selected_take_id = t.id
+  from public.storyboard_shot_takes t
+ where t.shot_id = s.id
+   and t.generation_id = s.generation_id
+   and s.selected_take_id is null
+   and s.status = 'completed';
@@ -0,0 +1,15 @@
+-- Entity consistency checks for storyboard shots
+--
+-- After a shot finishes, Gemini compares the output with the vision context of
+-- each entity in the shot and scores how well it holds. The result is kept on
+-- the take it was made for, and copied onto the shot while that take is the
+-- one on the board, so the board can flag off-model shots without a join.
+--
+-- Shape: { "generationId", "checkedAt", "drifted",
+--          "entities": [{ "entityId", "entityName", "score", "drifted", "issues" }] }
+
+alter table public.storyboard_shot_takes
+  add column if not exists consistency jsonb;
+
+alter table public.storyboard_shots
+  add column if not exists consistency jsonb;
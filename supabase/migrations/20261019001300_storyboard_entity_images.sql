@@ -0,0 +1,28 @@
+-- Storyboard entity image sets
+--
+-- An entity keeps its primary image and can have any number of extra views,
+-- each tagged with what it shows (front, side, back, an expression, a time of
+-- day, a location...) and an optional free-text label. Shot generation picks
+-- the view that best fits the shot's camera angle and description.
+--
+-- turnaround_generation_id points at a turnaround still being generated from
+-- the primary image; its outputs become views when it finishes.
+
+create table if not exists public.storyboard_entity_images (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references public.storyboard_entities(id) on delete cascade,
+  storyboard_id uuid not null references public.storyboards(id) on delete cascade,
+  image_url text not null,
+  view text not null default 'other'
+    check (view in ('front', 'three_quarter', 'side', 'back', 'close_up', 'full_body', 'expression', 'time_of_day', 'location', 'other')),
+  label text,
+  generation_id uuid references public.generations(id) on delete set null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists storyboard_entity_images_entity_idx
+  on public.storyboard_entity_images (entity_id, sort_order);
+
+alter table public.storyboard_entities
+  add column if not exists turnaround_generation_id uuid references public.generations(id) on delete set null;
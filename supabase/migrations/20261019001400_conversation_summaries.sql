@@ -0,0 +1,11 @@
+-- Conversation summaries
+--
+-- Long chats stop resending every message to the orchestrator. Older turns are
+-- folded into a rolling summary kept on the conversation; summary_message_count
+-- is how many of the conversation's leading messages it covers, so the chat
+-- route knows which messages still need to go out verbatim.
+
+alter table public.conversations
+  add column if not exists summary text,
+  add column if not exists summary_message_count integer not null default 0,
+  add column if not exists summary_updated_at timestamptz;
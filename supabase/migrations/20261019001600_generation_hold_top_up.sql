@@ -0,0 +1,91 @@
+-- Raise an existing hold
+--
+-- Held generations (batches, storyboard generate-all) are priced before their
+-- final params are known. When the params a held generation is submitted with
+-- cost more than its hold, the difference is held from the balance like any
+-- other hold, so the run can't cost more than was checked against it.
+
+create or replace function public.top_up_generation_credits(
+  p_generation_id uuid,
+  p_amount_cents integer,
+  p_task text default 'Image Generation',
+  p_metadata jsonb default '{}'::jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_gen generations%rowtype;
+  v_profile user_profiles%rowtype;
+  v_lifetime boolean;
+  v_extra integer;
+  v_balance integer;
+begin
+  select * into v_gen from generations where id = p_generation_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'GENERATION_NOT_FOUND');
+  end if;
+
+  if v_gen.billing_status <> 'held' then
+    return jsonb_build_object('success', false, 'error', 'NOT_HELD', 'billing_status', v_gen.billing_status);
+  end if;
+
+  select * into v_profile from user_profiles where id = v_gen.user_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'PROFILE_NOT_FOUND');
+  end if;
+
+  v_lifetime := coalesce(v_profile.lifetime_access, false);
+  v_extra := case when v_lifetime then 0 else greatest(coalesce(p_amount_cents, 0) - v_gen.reserved_cents, 0) end;
+  v_balance := coalesce(v_profile.balance_cents, 0);
+
+  if v_extra = 0 then
+    return jsonb_build_object(
+      'success', true,
+      'held_cents', v_gen.reserved_cents,
+      'new_balance', v_balance,
+      'is_lifetime_user', v_lifetime
+    );
+  end if;
+
+  if v_balance < v_extra then
+    return jsonb_build_object(
+      'success', false,
+      'error', 'INSUFFICIENT_BALANCE',
+      'required', v_extra,
+      'available', v_balance
+    );
+  end if;
+
+  v_balance := v_balance - v_extra;
+  update user_profiles set balance_cents = v_balance where id = v_profile.id;
+
+  insert into credit_transactions (
+    user_id, type, amount, amount_charged, amount_cents, balance_after_cents,
+    app_name, task, status, reason, generation_id, metadata
+  ) values (
+    v_gen.whop_user_id, 'PersonaForge', -v_extra / 100.0, v_extra / 100.0, -v_extra, v_balance,
+    'Skinny Studio', p_task, 'pending', 'generation_hold', p_generation_id,
+    coalesce(p_metadata, '{}'::jsonb) || jsonb_build_object(
+      'generation_id', p_generation_id,
+      'held_cents', v_extra,
+      'top_up', true,
+      'is_lifetime_user', v_lifetime
+    )
+  );
+
+  update generations
+    set reserved_cents = v_gen.reserved_cents + v_extra
+    where id = p_generation_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'held_cents', v_gen.reserved_cents + v_extra,
+    'new_balance', v_balance,
+    'is_lifetime_user', v_lifetime
+  );
+end;
+$$;
+
+revoke all on function public.top_up_generation_credits(uuid, integer, text, jsonb) from public, anon, authenticated;